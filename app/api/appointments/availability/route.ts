@@ -0,0 +1,135 @@
+import { NextResponse } from 'next/server';
+import { collection, getDocs, query, where } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { findAvailableSlots } from '@/lib/appointmentUtils';
+import { CLINIC_HOLIDAYS_COLLECTION, type ClinicHoliday, type StaffSchedule } from '@/lib/availability';
+import { resolveAppointmentDuration } from '@/lib/serviceCatalog';
+
+const CLINICAL_ROLES = ['Physiotherapist', 'StrengthAndConditioning', 'ClinicalTeam'];
+const DEFAULT_SEARCH_DAYS = 14;
+const MAX_SEARCH_DAYS = 60;
+const DEFAULT_LIMIT = 5;
+
+function addDays(date: string, days: number): string {
+	const parsed = new Date(date + 'T00:00:00');
+	parsed.setDate(parsed.getDate() + days);
+	return `${parsed.getFullYear()}-${String(parsed.getMonth() + 1).padStart(2, '0')}-${String(parsed.getDate()).padStart(2, '0')}`;
+}
+
+/**
+ * Search for the next free slots
+ * Body: { doctor? | role?, duration? | serviceType?, startDate, endDate?, earliestTime?, appointmentId?, limit? }
+ * Either a clinician (`doctor`) or a role ("any therapist of this role") is searched; with neither, all clinical staff are searched.
+ */
+export async function POST(req: Request) {
+	try {
+		const body = await req.json();
+		const { doctor, role, duration, serviceType, startDate, endDate, earliestTime, appointmentId, limit } = body;
+
+		if (!startDate || !/^\d{4}-\d{2}-\d{2}$/.test(startDate)) {
+			return NextResponse.json(
+				{ success: false, message: 'Missing or invalid required field: startDate (YYYY-MM-DD)' },
+				{ status: 400 }
+			);
+		}
+
+		if (role && !CLINICAL_ROLES.includes(role)) {
+			return NextResponse.json(
+				{ success: false, message: `Invalid role. Must be one of: ${CLINICAL_ROLES.join(', ')}` },
+				{ status: 400 }
+			);
+		}
+
+		const maxEndDate = addDays(startDate, MAX_SEARCH_DAYS - 1);
+		const searchEndDate =
+			typeof endDate === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(endDate) && endDate >= startDate
+				? endDate < maxEndDate
+					? endDate
+					: maxEndDate
+				: addDays(startDate, DEFAULT_SEARCH_DAYS - 1);
+
+		const resolvedDuration = resolveAppointmentDuration({
+			duration: typeof duration === 'number' ? duration : null,
+			serviceType: serviceType || null,
+		});
+
+		// Clinicians to search: the named clinician, or every active clinician of the requested role
+		const staffSnapshot = await getDocs(
+			doctor
+				? query(collection(db, 'staff'), where('userName', '==', doctor))
+				: query(collection(db, 'staff'), where('status', '==', 'Active'))
+		);
+		const clinicians: Array<StaffSchedule & { name: string }> = staffSnapshot.docs
+			.map(doc => doc.data())
+			.filter(data => data.userName && CLINICAL_ROLES.includes(data.role) && (!role || data.role === role))
+			.map(data => ({
+				name: String(data.userName),
+				weeklyAvailability: data.weeklyAvailability || null,
+				dateSpecificAvailability: data.dateSpecificAvailability || null,
+			}));
+
+		if (clinicians.length === 0) {
+			return NextResponse.json({
+				success: true,
+				data: { slots: [], duration: resolvedDuration, startDate, endDate: searchEndDate },
+			});
+		}
+
+		const [appointmentsSnapshot, holidaySnapshot] = await Promise.all([
+			getDocs(
+				query(
+					collection(db, 'appointments'),
+					where('date', '>=', startDate),
+					where('date', '<=', searchEndDate)
+				)
+			),
+			getDocs(
+				query(
+					collection(db, CLINIC_HOLIDAYS_COLLECTION),
+					where('date', '>=', startDate),
+					where('date', '<=', searchEndDate)
+				)
+			),
+		]);
+
+		const clinicianNames = new Set(clinicians.map(clinician => clinician.name));
+		const appointments = appointmentsSnapshot.docs
+			.map(doc => ({
+				id: doc.id,
+				appointmentId: doc.data().appointmentId,
+				patient: doc.data().patient || '',
+				doctor: doc.data().doctor || '',
+				date: doc.data().date || '',
+				time: doc.data().time || '',
+				status: doc.data().status || 'pending',
+				duration: typeof doc.data().duration === 'number' ? doc.data().duration : null,
+				serviceType: doc.data().serviceType || null,
+			}))
+			.filter(appointment => clinicianNames.has(appointment.doctor));
+		const holidays = holidaySnapshot.docs.map(doc => ({
+			date: doc.data().date || '',
+			name: doc.data().name || 'Holiday',
+		})) as ClinicHoliday[];
+
+		const slots = findAvailableSlots(clinicians, appointments, {
+			startDate,
+			endDate: searchEndDate,
+			duration: resolvedDuration,
+			holidays,
+			earliestTime: typeof earliestTime === 'string' ? earliestTime : undefined,
+			excludeAppointmentId: appointmentId,
+			limit: typeof limit === 'number' && limit > 0 ? limit : DEFAULT_LIMIT,
+		});
+
+		return NextResponse.json({
+			success: true,
+			data: { slots, duration: resolvedDuration, startDate, endDate: searchEndDate },
+		});
+	} catch (error) {
+		console.error('Error searching available slots:', error);
+		return NextResponse.json(
+			{ success: false, message: 'Failed to search available slots' },
+			{ status: 500 }
+		);
+	}
+}
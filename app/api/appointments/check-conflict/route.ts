@@ -1,12 +1,15 @@
 import { NextResponse } from 'next/server';
 import { collection, getDocs, query, where } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
-import { checkAppointmentConflict } from '@/lib/appointmentUtils';
+import { checkAppointmentConflict, checkAvailabilityConflict } from '@/lib/appointmentUtils';
+import { CLINIC_HOLIDAYS_COLLECTION, type ClinicHoliday, type StaffSchedule } from '@/lib/availability';
+import { resolveAppointmentDuration } from '@/lib/serviceCatalog';
+import { getAppointmentResourceIds } from '@/lib/resources';
 
 export async function POST(req: Request) {
 	try {
 		const body = await req.json();
-		const { doctor, date, time, duration, appointmentId } = body;
+		const { doctor, date, time, duration, serviceType, resourceIds, appointmentId } = body;
 
 		if (!doctor || !date || !time) {
 			return NextResponse.json(
@@ -15,12 +18,10 @@ export async function POST(req: Request) {
 			);
 		}
 
-		// Fetch all appointments for this doctor on this date
-		const appointmentsQuery = query(
-			collection(db, 'appointments'),
-			where('doctor', '==', doctor),
-			where('date', '==', date)
-		);
+		const requestedResourceIds: string[] = Array.isArray(resourceIds) ? resourceIds.map(String).filter(Boolean) : [];
+
+		// Fetch every appointment on this date; resource clashes can come from other therapists
+		const appointmentsQuery = query(collection(db, 'appointments'), where('date', '==', date));
 
 		const snapshot = await getDocs(appointmentsQuery);
 		const appointments = snapshot.docs.map(doc => ({
@@ -31,21 +32,48 @@ export async function POST(req: Request) {
 			date: doc.data().date || '',
 			time: doc.data().time || '',
 			status: doc.data().status || 'pending',
+			duration: typeof doc.data().duration === 'number' ? doc.data().duration : null,
+			serviceType: doc.data().serviceType || null,
+			resourceIds: getAppointmentResourceIds(doc.data()),
 		}));
 
-		const conflict = checkAppointmentConflict(
-			appointments,
-			{
-				id: appointmentId,
-				doctor,
-				date,
-				time,
-				duration: duration || 30,
-			},
-			duration || 30
-		);
+		const resolvedDuration = resolveAppointmentDuration({
+			duration: typeof duration === 'number' ? duration : null,
+			serviceType: serviceType || null,
+		});
+
+		const conflict = checkAppointmentConflict(appointments, {
+			id: appointmentId,
+			doctor,
+			date,
+			time,
+			duration: resolvedDuration,
+			resourceIds: requestedResourceIds,
+		});
+
+		// Check the therapist's weekly pattern, date overrides and the clinic holiday calendar
+		const [staffSnapshot, holidaySnapshot] = await Promise.all([
+			getDocs(query(collection(db, 'staff'), where('userName', '==', doctor))),
+			getDocs(query(collection(db, CLINIC_HOLIDAYS_COLLECTION), where('date', '==', date))),
+		]);
+		const staffData = staffSnapshot.empty ? undefined : staffSnapshot.docs[0].data();
+		const schedule: StaffSchedule | undefined = staffData
+			? {
+					weeklyAvailability: staffData.weeklyAvailability || null,
+					dateSpecificAvailability: staffData.dateSpecificAvailability || null,
+				}
+			: undefined;
+		const holidays = holidaySnapshot.docs.map(doc => ({
+			date: doc.data().date || '',
+			name: doc.data().name || 'Holiday',
+		})) as ClinicHoliday[];
+
+		const availability = checkAvailabilityConflict(schedule, date, time, resolvedDuration, holidays);
 
-		return NextResponse.json({ success: true, data: conflict });
+		return NextResponse.json({
+			success: true,
+			data: { ...conflict, duration: resolvedDuration, availability },
+		});
 	} catch (error) {
 		console.error('Error checking appointment conflict:', error);
 		return NextResponse.json(
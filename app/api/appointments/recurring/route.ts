@@ -1,7 +1,13 @@
 import { NextResponse } from 'next/server';
-import { collection, addDoc, serverTimestamp } from 'firebase/firestore';
+import { collection, addDoc, getDocs, query, where, serverTimestamp } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
-import { generateRecurringDates } from '@/lib/appointmentUtils';
+import { generateRecurringDates, planRecurringSeries, type SeriesConflictStrategy } from '@/lib/appointmentUtils';
+import { CLINIC_HOLIDAYS_COLLECTION, type ClinicHoliday, type StaffSchedule } from '@/lib/availability';
+import { resolveAppointmentDuration } from '@/lib/serviceCatalog';
+import { batchResourceIds, getAppointmentResourceIds } from '@/lib/resources';
+
+/** Longest series one request may book: a year of weekly sessions */
+const MAX_SERIES_COUNT = 52;
 
 export async function POST(req: Request) {
 	try {
@@ -15,6 +21,11 @@ export async function POST(req: Request) {
 			frequency,
 			count,
 			notes,
+			duration,
+			serviceType,
+			resourceIds,
+			conflictStrategy = 'skip',
+			dryRun = false,
 		} = body;
 
 		if (!patientId || !patient || !doctor || !startDate || !time || !frequency || !count) {
@@ -27,6 +38,13 @@ export async function POST(req: Request) {
 			);
 		}
 
+		if (!Number.isInteger(count) || count < 1 || count > MAX_SERIES_COUNT) {
+			return NextResponse.json(
+				{ success: false, message: `Invalid count. Must be a whole number from 1 to ${MAX_SERIES_COUNT}` },
+				{ status: 400 }
+			);
+		}
+
 		if (!['daily', 'weekly', 'biweekly', 'monthly'].includes(frequency)) {
 			return NextResponse.json(
 				{ success: false, message: 'Invalid frequency. Must be: daily, weekly, biweekly, or monthly' },
@@ -34,21 +52,116 @@ export async function POST(req: Request) {
 			);
 		}
 
+		if (!['skip', 'shift'].includes(conflictStrategy)) {
+			return NextResponse.json(
+				{ success: false, message: 'Invalid conflictStrategy. Must be: skip or shift' },
+				{ status: 400 }
+			);
+		}
+
+		const requestedResourceIds: string[] = Array.isArray(resourceIds) ? resourceIds.map(String).filter(Boolean) : [];
+
 		// Generate recurring dates
 		const dates = generateRecurringDates(startDate, frequency, count);
+		const resolvedDuration = resolveAppointmentDuration({
+			duration: typeof duration === 'number' ? duration : null,
+			serviceType: serviceType || null,
+		});
+
+		// Load the therapist's bookings, bookings holding the requested resources, the schedule and the clinic holidays covering the series
+		const [appointmentsSnapshot, resourceSnapshots, staffSnapshot, holidaySnapshot] = await Promise.all([
+			getDocs(query(collection(db, 'appointments'), where('doctor', '==', doctor))),
+			Promise.all(
+				batchResourceIds(requestedResourceIds).map(batch =>
+					getDocs(query(collection(db, 'appointments'), where('resourceIds', 'array-contains-any', batch)))
+				)
+			),
+			getDocs(query(collection(db, 'staff'), where('userName', '==', doctor))),
+			getDocs(
+				query(
+					collection(db, CLINIC_HOLIDAYS_COLLECTION),
+					where('date', '>=', dates[0]),
+					where('date', '<=', dates[dates.length - 1])
+				)
+			),
+		]);
+
+		// A booking holding several of the requested resources comes back from more than one batch
+		const resourceDocs = new Map(
+			resourceSnapshots.flatMap(snapshot => snapshot.docs).map(doc => [doc.id, doc] as const)
+		);
+		const appointmentDocs = [
+			...appointmentsSnapshot.docs,
+			...Array.from(resourceDocs.values()).filter(doc => doc.data().doctor !== doctor),
+		];
+		const existingAppointments = appointmentDocs.map(doc => ({
+			id: doc.id,
+			appointmentId: doc.data().appointmentId,
+			patient: doc.data().patient || '',
+			doctor: doc.data().doctor || '',
+			date: doc.data().date || '',
+			time: doc.data().time || '',
+			status: doc.data().status || 'pending',
+			duration: typeof doc.data().duration === 'number' ? doc.data().duration : null,
+			serviceType: doc.data().serviceType || null,
+			resourceIds: getAppointmentResourceIds(doc.data()),
+		}));
+		const staffData = staffSnapshot.empty ? undefined : staffSnapshot.docs[0].data();
+		const schedule: StaffSchedule | undefined = staffData
+			? {
+					weeklyAvailability: staffData.weeklyAvailability || null,
+					dateSpecificAvailability: staffData.dateSpecificAvailability || null,
+				}
+			: undefined;
+		const holidays = holidaySnapshot.docs.map(doc => ({
+			date: doc.data().date || '',
+			name: doc.data().name || 'Holiday',
+		})) as ClinicHoliday[];
+
+		const plan = planRecurringSeries(dates, {
+			doctor,
+			time,
+			duration: resolvedDuration,
+			resourceIds: requestedResourceIds,
+			schedule,
+			holidays,
+			appointments: existingAppointments,
+			strategy: conflictStrategy as SeriesConflictStrategy,
+		});
+		const shifted = plan.scheduled.filter(occurrence => occurrence.date !== occurrence.originalDate);
+
+		if (dryRun) {
+			return NextResponse.json({
+				success: true,
+				data: {
+					count: plan.scheduled.length,
+					scheduled: plan.scheduled,
+					shifted,
+					skipped: plan.skipped,
+				},
+			});
+		}
+
+		// One ID shared by every occurrence so the series can be edited or cancelled as a whole
+		const recurringSeriesId = `${patientId}-${startDate}-${Date.now()}`;
 
 		// Create appointments
-		const appointments = dates.map(date => ({
+		const appointments = plan.scheduled.map((occurrence, index) => ({
 			patientId,
 			patient,
 			doctor,
-			date,
-			time,
+			date: occurrence.date,
+			time: occurrence.time,
+			duration: resolvedDuration,
+			serviceType: serviceType || null,
+			resourceIds: requestedResourceIds,
 			status: 'pending',
 			notes: notes || null,
 			createdAt: serverTimestamp(),
 			isRecurring: true,
-			recurringSeriesId: `${patientId}-${startDate}-${Date.now()}`,
+			recurringSeriesId,
+			recurringFrequency: frequency,
+			seriesIndex: index + 1,
 		}));
 
 		// Batch create appointments
@@ -61,8 +174,11 @@ export async function POST(req: Request) {
 		return NextResponse.json({
 			success: true,
 			data: {
+				recurringSeriesId,
 				count: createdAppointments.length,
 				appointments: createdAppointments,
+				shifted,
+				skipped: plan.skipped,
 			},
 		});
 	} catch (error) {
@@ -73,4 +189,3 @@ export async function POST(req: Request) {
 		);
 	}
 }
-
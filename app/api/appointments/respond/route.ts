@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { dbAdmin } from '@/lib/firebaseAdmin';
+import { verifyAppointmentActionToken } from '@/lib/appointmentLinks';
+import { RESPONSE_ACTION_STATUS, type AppointmentResponseAction } from '@/lib/appointmentConfirmation';
+import { issueWaitlistOffers } from '@/lib/waitlistOfferIssuer';
+
+const CLOSED_STATUSES = ['completed', 'cancelled', 'no-show'];
+
+function rejectToken(reason: 'invalid' | 'expired') {
+	return NextResponse.json(
+		{
+			success: false,
+			message: reason === 'expired'
+				? 'This link has expired. Please call the clinic to make changes.'
+				: 'This link is invalid',
+		},
+		{ status: reason === 'expired' ? 410 : 400 }
+	);
+}
+
+/**
+ * Show the appointment behind a reminder link
+ */
+export async function GET(request: NextRequest) {
+	try {
+		const token = String(request.nextUrl.searchParams.get('token') || '').trim();
+		const verified = verifyAppointmentActionToken(token);
+		if (!verified.valid) return rejectToken(verified.reason);
+
+		const appointmentDoc = await dbAdmin.collection('appointments').doc(verified.appointmentDocId).get();
+		if (!appointmentDoc.exists) {
+			return NextResponse.json({ success: false, message: 'Appointment not found' }, { status: 404 });
+		}
+
+		const appointment = appointmentDoc.data()!;
+		return NextResponse.json({
+			success: true,
+			data: {
+				patientName: appointment.patient || '',
+				doctor: appointment.doctor || '',
+				date: appointment.date || '',
+				time: appointment.time || '',
+				status: appointment.status || 'pending',
+				confirmationStatus: appointment.confirmationStatus || 'unconfirmed',
+			},
+		});
+	} catch (error) {
+		console.error('Error loading appointment for patient response:', error);
+		return NextResponse.json({ success: false, message: 'Failed to load appointment' }, { status: 500 });
+	}
+}
+
+/**
+ * Record the patient's reply: confirm, cancel, or ask the front desk to reschedule
+ */
+export async function POST(request: NextRequest) {
+	try {
+		const body = await request.json();
+		const token = String(body?.token || '').trim();
+		const action = String(body?.action || '') as AppointmentResponseAction;
+		const note = String(body?.note || '').trim().slice(0, 500);
+
+		if (!RESPONSE_ACTION_STATUS[action]) {
+			return NextResponse.json(
+				{ success: false, message: 'Action must be one of: confirm, cancel, reschedule' },
+				{ status: 400 }
+			);
+		}
+
+		const verified = verifyAppointmentActionToken(token);
+		if (!verified.valid) return rejectToken(verified.reason);
+
+		const appointmentRef = dbAdmin.collection('appointments').doc(verified.appointmentDocId);
+		const appointmentDoc = await appointmentRef.get();
+		if (!appointmentDoc.exists) {
+			return NextResponse.json({ success: false, message: 'Appointment not found' }, { status: 404 });
+		}
+
+		const appointment = appointmentDoc.data()!;
+		if (CLOSED_STATUSES.includes(appointment.status)) {
+			return NextResponse.json(
+				{ success: false, message: `This appointment has already been ${appointment.status}` },
+				{ status: 409 }
+			);
+		}
+
+		const respondedAt = new Date().toISOString();
+		const confirmationStatus = RESPONSE_ACTION_STATUS[action];
+		const updates: Record<string, unknown> = {
+			confirmationStatus,
+			confirmationRespondedAt: respondedAt,
+			confirmationNote: note || null,
+		};
+		if (action === 'cancel') {
+			updates.status = 'cancelled';
+			updates.cancellationReason = note || 'Cancelled by patient';
+			updates.cancelledAt = respondedAt;
+			updates.cancelledBy = 'patient';
+		}
+
+		await appointmentRef.update(updates);
+
+		// Backfill the freed slot as a cancellation at the desk would; the patient's reply stands even if this fails
+		if (action === 'cancel') {
+			try {
+				await issueWaitlistOffers(
+					{
+						doctor: appointment.doctor || '',
+						date: appointment.date || '',
+						time: appointment.time || '',
+						duration: typeof appointment.duration === 'number' ? appointment.duration : null,
+						serviceType: appointment.serviceType || null,
+						patientId: appointment.patientId || undefined,
+					},
+					process.env.NEXT_PUBLIC_APP_URL || request.nextUrl.origin
+				);
+			} catch (waitlistError) {
+				console.error('Failed to offer cancelled slot to waitlist:', waitlistError);
+			}
+		}
+
+		return NextResponse.json({ success: true, data: { confirmationStatus } });
+	} catch (error) {
+		console.error('Error recording patient appointment response:', error);
+		return NextResponse.json({ success: false, message: 'Failed to record your response' }, { status: 500 });
+	}
+}
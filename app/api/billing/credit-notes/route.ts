@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { requireRole } from '@/lib/authz';
+import { logAudit } from '@/lib/audit';
+import { issueCreditNote } from '@/lib/creditNoteIssuer';
+import { isRefundMode } from '@/lib/creditNotes';
+import { authAdmin } from '@/lib/firebaseAdmin';
+
+/**
+ * Issue a credit note against a bill, optionally recording a refund to the patient.
+ * Body: { billingDocId, amount, reason, refund?: { mode, utr? } }
+ * A UTR is required for refunds that are not paid in cash.
+ */
+export async function POST(request: NextRequest) {
+	const gate = await requireRole(request, ['Admin', 'FrontDesk']);
+	if (!gate.ok) {
+		return NextResponse.json({ error: gate.message }, { status: gate.status });
+	}
+
+	try {
+		const body = await request.json().catch(() => ({}));
+		const billingDocId = typeof body?.billingDocId === 'string' ? body.billingDocId.trim() : '';
+		const amount = Math.round(Number(body?.amount) * 100) / 100;
+		const reason = typeof body?.reason === 'string' ? body.reason.trim().slice(0, 500) : '';
+		const refundMode = body?.refund?.mode;
+		const refundUtr = typeof body?.refund?.utr === 'string' ? body.refund.utr.trim().slice(0, 100) : '';
+
+		if (!billingDocId) {
+			return NextResponse.json({ error: 'billingDocId is required' }, { status: 400 });
+		}
+		if (!Number.isFinite(amount) || amount <= 0) {
+			return NextResponse.json({ error: 'Enter an amount greater than zero' }, { status: 400 });
+		}
+		if (!reason) {
+			return NextResponse.json({ error: 'A reason is required' }, { status: 400 });
+		}
+		if (body?.refund && !isRefundMode(refundMode)) {
+			return NextResponse.json({ error: 'Choose how the refund was paid' }, { status: 400 });
+		}
+		if (body?.refund && refundMode !== 'Cash' && !refundUtr) {
+			return NextResponse.json({ error: 'A UTR is required for non-cash refunds' }, { status: 400 });
+		}
+
+		const userEmail = (await authAdmin.getUser(gate.uid)).email || undefined;
+		const result = await issueCreditNote({
+			billingDocId,
+			amount,
+			reason,
+			refund: isRefundMode(refundMode) ? { mode: refundMode, utr: refundUtr || null } : null,
+			issuedBy: userEmail || gate.uid,
+		});
+		if (!result.ok) {
+			return NextResponse.json({ error: result.message }, { status: result.status });
+		}
+
+		await logAudit({
+			action: 'credit-note-issued',
+			userId: gate.uid,
+			userEmail,
+			resourceType: 'billing',
+			resourceId: billingDocId,
+			metadata: {
+				creditNoteNo: result.creditNote?.creditNoteNo,
+				invoiceNo: result.creditNote?.invoiceNo,
+				amount,
+				reason,
+				refundMode: result.creditNote?.refundMode,
+				refundUtr: result.creditNote?.refundUtr,
+			},
+		});
+
+		return NextResponse.json({ success: true, creditNote: result.creditNote });
+	} catch (error) {
+		console.error('Error issuing credit note:', error);
+		return NextResponse.json({ error: 'Failed to issue credit note' }, { status: 500 });
+	}
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { requireRole } from '@/lib/authz';
+import { logAudit } from '@/lib/audit';
+import { authAdmin } from '@/lib/firebaseAdmin';
+import { issueInvoiceNumber } from '@/lib/invoiceNumberAllocator';
+
+/**
+ * Issue the invoice number for a bill, or for a DYES invoice period.
+ * Body: { billingDocId } or { source: 'dyes', reference }
+ * Calling again for the same bill or period returns the number already issued.
+ */
+export async function POST(request: NextRequest) {
+	const gate = await requireRole(request, ['Admin', 'FrontDesk']);
+	if (!gate.ok) {
+		return NextResponse.json({ error: gate.message }, { status: gate.status });
+	}
+
+	try {
+		const body = await request.json().catch(() => ({}));
+		const source = body?.source === 'dyes' ? 'dyes' : 'billing';
+		const billingDocId = typeof body?.billingDocId === 'string' ? body.billingDocId.trim() : '';
+		const reference = typeof body?.reference === 'string' ? body.reference.trim().slice(0, 200) : '';
+
+		if (source === 'billing' && !billingDocId) {
+			return NextResponse.json({ error: 'billingDocId is required' }, { status: 400 });
+		}
+		if (source === 'dyes' && !reference) {
+			return NextResponse.json({ error: 'reference is required for DYES invoices' }, { status: 400 });
+		}
+
+		const userEmail = (await authAdmin.getUser(gate.uid)).email || undefined;
+		const issued = await issueInvoiceNumber({
+			source,
+			billingDocId: billingDocId || undefined,
+			reference: reference || undefined,
+			issuedBy: userEmail || gate.uid,
+		});
+		if (!issued) {
+			return NextResponse.json({ error: 'Bill not found' }, { status: 404 });
+		}
+
+		await logAudit({
+			action: 'invoice-number-issued',
+			userId: gate.uid,
+			userEmail,
+			resourceType: source === 'billing' ? 'billing' : 'dyes-invoice',
+			resourceId: billingDocId || reference,
+			metadata: { invoiceNo: issued.invoiceNo },
+		});
+
+		return NextResponse.json({ success: true, ...issued });
+	} catch (error) {
+		console.error('Error issuing invoice number:', error);
+		return NextResponse.json({ error: 'Failed to issue invoice number' }, { status: 500 });
+	}
+}
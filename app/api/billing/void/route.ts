@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { requireRole } from '@/lib/authz';
+import { logAudit } from '@/lib/audit';
+import { voidBill } from '@/lib/creditNoteIssuer';
+import { authAdmin } from '@/lib/firebaseAdmin';
+
+/**
+ * Void a bill. Admin only.
+ * Body: { billingDocId, reason }
+ * The bill stays on record as 'Voided'; an issued invoice is reversed with a credit note.
+ */
+export async function POST(request: NextRequest) {
+	const gate = await requireRole(request, ['Admin']);
+	if (!gate.ok) {
+		return NextResponse.json({ error: gate.message }, { status: gate.status });
+	}
+
+	try {
+		const body = await request.json().catch(() => ({}));
+		const billingDocId = typeof body?.billingDocId === 'string' ? body.billingDocId.trim() : '';
+		const reason = typeof body?.reason === 'string' ? body.reason.trim().slice(0, 500) : '';
+
+		if (!billingDocId) {
+			return NextResponse.json({ error: 'billingDocId is required' }, { status: 400 });
+		}
+		if (!reason) {
+			return NextResponse.json({ error: 'A reason is required' }, { status: 400 });
+		}
+
+		const userEmail = (await authAdmin.getUser(gate.uid)).email || undefined;
+		const result = await voidBill({ billingDocId, reason, voidedBy: userEmail || gate.uid });
+		if (!result.ok) {
+			return NextResponse.json({ error: result.message }, { status: result.status });
+		}
+
+		await logAudit({
+			action: 'billing-voided',
+			userId: gate.uid,
+			userEmail,
+			resourceType: 'billing',
+			resourceId: billingDocId,
+			metadata: {
+				reason,
+				creditNoteNo: result.creditNote?.creditNoteNo ?? null,
+				creditedAmount: result.creditNote?.amount ?? 0,
+			},
+		});
+
+		return NextResponse.json({ success: true, creditNote: result.creditNote });
+	} catch (error) {
+		console.error('Error voiding bill:', error);
+		return NextResponse.json({ error: 'Failed to void bill' }, { status: 500 });
+	}
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { buildCalendarFeed, isCalendarFeedConfigured, verifyCalendarFeedToken } from '@/lib/calendarFeed';
+
+/**
+ * Subscribable appointment calendar: /api/calendar/<token>.ics
+ * The token identifies the therapist or patient, so calendar apps can poll it without logging in.
+ */
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ token: string }> }) {
+	if (!isCalendarFeedConfigured()) {
+		return NextResponse.json({ error: 'Calendar feeds are not configured' }, { status: 503 });
+	}
+
+	try {
+		const { token: rawToken } = await params;
+		const verified = verifyCalendarFeedToken(decodeURIComponent(rawToken).replace(/\.ics$/i, ''));
+		if (!verified.valid) {
+			return NextResponse.json({ error: 'This calendar link is invalid' }, { status: 404 });
+		}
+
+		const feed = await buildCalendarFeed(verified.kind, verified.docId, verified.version);
+		if (!feed) {
+			return NextResponse.json({ error: 'This calendar link is no longer active' }, { status: 404 });
+		}
+
+		return new NextResponse(feed, {
+			headers: {
+				'Content-Type': 'text/calendar; charset=utf-8',
+				'Content-Disposition': 'inline; filename="appointments.ics"',
+				'Cache-Control': 'private, max-age=300',
+			},
+		});
+	} catch (error) {
+		console.error('Error building calendar feed:', error);
+		return NextResponse.json({ error: 'Failed to build calendar' }, { status: 500 });
+	}
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { requireRole } from '@/lib/authz';
+import { authAdmin, dbAdmin } from '@/lib/firebaseAdmin';
+import {
+	createCalendarFeedToken,
+	getCalendarFeedUrl,
+	getCalendarFeedVersion,
+	isCalendarFeedConfigured,
+} from '@/lib/calendarFeed';
+
+/**
+ * Issue the signed-in therapist's calendar feed link.
+ * With { reset: true } every earlier link stops working and a new one is returned.
+ */
+export async function POST(request: NextRequest) {
+	const gate = await requireRole(request, ['ClinicalTeam', 'Physiotherapist', 'StrengthAndConditioning', 'Admin']);
+	if (!gate.ok) {
+		return NextResponse.json({ error: gate.message }, { status: gate.status });
+	}
+	if (!isCalendarFeedConfigured()) {
+		return NextResponse.json({ error: 'Calendar feeds are not configured' }, { status: 503 });
+	}
+
+	try {
+		const body = await request.json().catch(() => ({}));
+		const email = (await authAdmin.getUser(gate.uid)).email || '';
+		const staffSnapshot = email
+			? await dbAdmin.collection('staff').where('userEmail', 'in', Array.from(new Set([email, email.toLowerCase()]))).limit(1).get()
+			: null;
+		if (!staffSnapshot || staffSnapshot.empty) {
+			return NextResponse.json({ error: 'No staff profile is linked to this account' }, { status: 404 });
+		}
+
+		const staffRef = staffSnapshot.docs[0].ref;
+		const version = body?.reset === true
+			? await dbAdmin.runTransaction(async transaction => {
+					const snapshot = await transaction.get(staffRef);
+					const next = getCalendarFeedVersion(snapshot.data()) + 1;
+					transaction.update(staffRef, { calendarFeedVersion: next });
+					return next;
+				})
+			: getCalendarFeedVersion(staffSnapshot.docs[0].data());
+
+		return NextResponse.json({
+			success: true,
+			url: getCalendarFeedUrl(createCalendarFeedToken('therapist', staffRef.id, version)),
+		});
+	} catch (error) {
+		console.error('Error issuing calendar feed link:', error);
+		return NextResponse.json({ error: 'Failed to create calendar link' }, { status: 500 });
+	}
+}
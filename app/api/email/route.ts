@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { Resend } from 'resend';
 import { getEmailSubject, generateEmailBody, type EmailData } from '@/lib/email';
+import { withAppointmentCalendar } from '@/lib/calendarFeed';
 
 export async function POST(request: NextRequest) {
 	try {
@@ -44,9 +45,12 @@ export async function POST(request: NextRequest) {
 		// Initialize Resend only when API key is available
 		const resend = new Resend(process.env.RESEND_API_KEY);
 
+		// Attach the calendar invite to appointment confirmations
+		const { data, attachments } = await withAppointmentCalendar(emailData);
+
 		// Generate subject and body
-		const subject = emailData.subject || getEmailSubject(emailData.template, emailData.data);
-		const html = generateEmailBody(emailData.template, emailData.data);
+		const subject = emailData.subject || getEmailSubject(emailData.template, data);
+		const html = generateEmailBody(emailData.template, data);
 
 		// Get sender email from environment or use default
 		const fromEmail = process.env.RESEND_FROM_EMAIL || 'onboarding@resend.dev';
@@ -59,6 +63,7 @@ export async function POST(request: NextRequest) {
 				to: emailData.to,
 				subject,
 				html,
+				...(attachments.length > 0 ? { attachments } : {}),
 			});
 
 			if (result.error) {
@@ -5,10 +5,17 @@ import { sendEmailNotification } from '@/lib/email';
 import { sendSMSNotification, isValidPhoneNumber } from '@/lib/sms';
 import { sendWhatsAppNotification } from '@/lib/whatsapp';
 import type { AdminAppointmentRecord } from '@/lib/adminMockData';
+import {
+	createAppointmentActionToken,
+	getAppointmentActionUrl,
+	getAppointmentLinkExpiry,
+	isAppointmentLinkConfigured,
+} from '@/lib/appointmentLinks';
 
 type AppointmentWithReminderMeta = AdminAppointmentRecord & {
 	id: string;
 	reminderSent?: Timestamp | Date | string | null;
+	confirmationStatus?: string;
 };
 
 /**
@@ -176,6 +183,13 @@ export async function GET(request: NextRequest) {
 				}
 			}
 
+			// Self-service link so the patient can confirm, cancel or ask to reschedule
+			const confirmUrl = isAppointmentLinkConfigured()
+				? getAppointmentActionUrl(
+						createAppointmentActionToken(appointment.id, getAppointmentLinkExpiry(appointment.date, appointment.time))
+					)
+				: undefined;
+
 			// Send reminder email, SMS, and WhatsApp
 			let emailSent = false;
 			let smsSent = false;
@@ -198,6 +212,7 @@ export async function GET(request: NextRequest) {
 							time: appointment.time,
 							appointmentId: appointment.appointmentId,
 							notes: appointment.notes,
+							confirmUrl,
 						},
 					});
 					emailSent = emailResult.success;
@@ -220,6 +235,7 @@ export async function GET(request: NextRequest) {
 							date: appointment.date,
 							time: appointment.time,
 							appointmentId: appointment.appointmentId,
+							confirmUrl,
 						},
 					});
 					smsSent = smsResult.success;
@@ -242,6 +258,7 @@ export async function GET(request: NextRequest) {
 							date: appointment.date,
 							time: appointment.time,
 							appointmentId: appointment.appointmentId,
+							confirmUrl,
 						},
 					});
 					whatsappSent = whatsappResult.success;
@@ -257,6 +274,8 @@ export async function GET(request: NextRequest) {
 					const appointmentRef = doc(db, 'appointments', appointment.id);
 					await updateDoc(appointmentRef, {
 						reminderSent: Timestamp.now(),
+						// A patient who already replied keeps their answer when a reminder is re-sent
+						...(confirmUrl && !appointment.confirmationStatus ? { confirmationStatus: 'unconfirmed' } : {}),
 					});
 				} catch (updateError) {
 					console.error('Failed to update reminderSent field:', updateError);
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { requireRole } from '@/lib/authz';
+import { logAudit } from '@/lib/audit';
+import { authAdmin, dbAdmin } from '@/lib/firebaseAdmin';
+import { REPORT_ADDENDA_COLLECTION } from '@/lib/reportSignoff';
+
+const MAX_ADDENDUM_LENGTH = 4000;
+
+/**
+ * Add a dated addendum to a patient's signed physiotherapy report.
+ * Body: { patientDocId, text }
+ * The addendum is dated by the server and cannot be edited or deleted afterwards.
+ */
+export async function POST(request: NextRequest) {
+	const gate = await requireRole(request, ['Admin', 'ClinicalTeam', 'Physiotherapist']);
+	if (!gate.ok) {
+		return NextResponse.json({ error: gate.message }, { status: gate.status });
+	}
+
+	try {
+		const body = await request.json().catch(() => ({}));
+		const patientDocId = typeof body?.patientDocId === 'string' ? body.patientDocId.trim() : '';
+		const text = typeof body?.text === 'string' ? body.text.trim() : '';
+		if (!patientDocId || !text) {
+			return NextResponse.json({ error: 'patientDocId and text are required' }, { status: 400 });
+		}
+		if (text.length > MAX_ADDENDUM_LENGTH) {
+			return NextResponse.json({ error: `Addenda are limited to ${MAX_ADDENDUM_LENGTH} characters` }, { status: 400 });
+		}
+
+		const patientSnap = await dbAdmin.collection('patients').doc(patientDocId).get();
+		if (!patientSnap.exists) {
+			return NextResponse.json({ error: 'Patient not found' }, { status: 404 });
+		}
+		const patient = patientSnap.data()!;
+		const signature = patient.reportSignature;
+		if (patient.reportStatus !== 'signed' || !signature?.versionId) {
+			return NextResponse.json({ error: 'Addenda can only be added to a signed report' }, { status: 409 });
+		}
+
+		const user = await authAdmin.getUser(gate.uid);
+		const addendumRef = await dbAdmin.collection(REPORT_ADDENDA_COLLECTION).add({
+			patientId: String(patient.patientId || ''),
+			patientDocId,
+			versionId: String(signature.versionId),
+			version: Number(signature.version) || 0,
+			text,
+			addedBy: user.displayName || user.email || gate.uid,
+			addedById: gate.uid,
+			addedAt: new Date().toISOString(),
+		});
+
+		await logAudit({
+			action: 'report-addendum-added',
+			userId: gate.uid,
+			userEmail: user.email || undefined,
+			resourceType: REPORT_ADDENDA_COLLECTION,
+			resourceId: addendumRef.id,
+			metadata: { patientId: String(patient.patientId || ''), versionId: String(signature.versionId) },
+		});
+
+		return NextResponse.json({ success: true, id: addendumRef.id });
+	} catch (error) {
+		console.error('Error adding report addendum:', error);
+		return NextResponse.json({ error: 'Failed to add addendum' }, { status: 500 });
+	}
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { FieldValue } from 'firebase-admin/firestore';
+
+import { requireRole } from '@/lib/authz';
+import { logAudit } from '@/lib/audit';
+import { EPISODES_COLLECTION } from '@/lib/episodes';
+import { authAdmin, dbAdmin } from '@/lib/firebaseAdmin';
+
+/**
+ * Unlock a patient's signed report so the next session can be written.
+ * Body: { patientDocId }
+ * The signed report version and its addenda are kept unchanged; the working copy becomes a draft.
+ */
+export async function POST(request: NextRequest) {
+	const gate = await requireRole(request, ['Admin', 'ClinicalTeam', 'Physiotherapist']);
+	if (!gate.ok) {
+		return NextResponse.json({ error: gate.message }, { status: gate.status });
+	}
+
+	try {
+		const body = await request.json().catch(() => ({}));
+		const patientDocId = typeof body?.patientDocId === 'string' ? body.patientDocId.trim() : '';
+		if (!patientDocId) {
+			return NextResponse.json({ error: 'patientDocId is required' }, { status: 400 });
+		}
+
+		const patientRef = dbAdmin.collection('patients').doc(patientDocId);
+		const patientSnap = await patientRef.get();
+		if (!patientSnap.exists) {
+			return NextResponse.json({ error: 'Patient not found' }, { status: 404 });
+		}
+		const patient = patientSnap.data()!;
+		if (patient.reportStatus !== 'signed') {
+			return NextResponse.json({ error: 'This report is not signed' }, { status: 409 });
+		}
+
+		const draftSince = new Date().toISOString();
+		const episodeId = patient.currentEpisodeId ? String(patient.currentEpisodeId) : null;
+		const batch = dbAdmin.batch();
+		batch.update(patientRef, {
+			reportStatus: 'draft',
+			reportDraftSince: draftSince,
+			reportSignature: FieldValue.delete(),
+			updatedAt: FieldValue.serverTimestamp(),
+		});
+		if (episodeId) {
+			batch.update(dbAdmin.collection(EPISODES_COLLECTION).doc(episodeId), {
+				'report.reportStatus': 'draft',
+				'report.reportDraftSince': draftSince,
+				'report.reportSignature': FieldValue.delete(),
+				updatedAt: FieldValue.serverTimestamp(),
+			});
+		}
+		await batch.commit();
+
+		const user = await authAdmin.getUser(gate.uid);
+		await logAudit({
+			action: 'report-reopened',
+			userId: gate.uid,
+			userEmail: user.email || undefined,
+			resourceType: 'patients',
+			resourceId: patientDocId,
+			metadata: { patientId: String(patient.patientId || ''), versionId: patient.reportSignature?.versionId ?? null },
+		});
+
+		return NextResponse.json({ success: true });
+	} catch (error) {
+		console.error('Error starting next session report:', error);
+		return NextResponse.json({ error: 'Failed to start the next session report' }, { status: 500 });
+	}
+}
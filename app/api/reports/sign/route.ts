@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { FieldValue } from 'firebase-admin/firestore';
+
+import { requireRole } from '@/lib/authz';
+import { logAudit } from '@/lib/audit';
+import { EPISODES_COLLECTION, hasEpisodeReport, pickEpisodeReport } from '@/lib/episodes';
+import { authAdmin, dbAdmin } from '@/lib/firebaseAdmin';
+import { saveReportVersion } from '@/lib/reportVersionAllocator';
+import { normalizeReportPayload } from '@/lib/reportVersions';
+import type { ReportSignature } from '@/lib/reportSignoff';
+
+/**
+ * Finalise and sign a patient's physiotherapy report as the signed-in therapist.
+ * Body: { patientDocId }
+ * The saved report becomes a signed report version and the patient's report is locked.
+ */
+export async function POST(request: NextRequest) {
+	const gate = await requireRole(request, ['Admin', 'ClinicalTeam', 'Physiotherapist']);
+	if (!gate.ok) {
+		return NextResponse.json({ error: gate.message }, { status: gate.status });
+	}
+
+	try {
+		const body = await request.json().catch(() => ({}));
+		const patientDocId = typeof body?.patientDocId === 'string' ? body.patientDocId.trim() : '';
+		if (!patientDocId) {
+			return NextResponse.json({ error: 'patientDocId is required' }, { status: 400 });
+		}
+
+		const patientRef = dbAdmin.collection('patients').doc(patientDocId);
+		const patientSnap = await patientRef.get();
+		if (!patientSnap.exists) {
+			return NextResponse.json({ error: 'Patient not found' }, { status: 404 });
+		}
+		const patient = patientSnap.data()!;
+		if (patient.reportStatus === 'signed') {
+			return NextResponse.json({ error: 'This report is already signed' }, { status: 409 });
+		}
+		if (!hasEpisodeReport(normalizeReportPayload(patient))) {
+			return NextResponse.json({ error: 'There is no saved report to sign' }, { status: 400 });
+		}
+
+		const user = await authAdmin.getUser(gate.uid);
+		const signedBy = user.displayName || user.email || gate.uid;
+		const signedAt = new Date().toISOString();
+		const episodeId = patient.currentEpisodeId ? String(patient.currentEpisodeId) : null;
+
+		const saved = await saveReportVersion({
+			patientId: String(patient.patientId || ''),
+			patientName: String(patient.name || ''),
+			reportType: 'physiotherapy',
+			reportData: patient,
+			episodeId,
+			sessionNumber: typeof patient.sessionNumber === 'number' ? patient.sessionNumber : null,
+			authoredBy: patient.reportUpdatedBy ? String(patient.reportUpdatedBy) : null,
+			signedAt,
+			createdBy: signedBy,
+			createdById: gate.uid,
+		});
+
+		const signature: ReportSignature = { signedBy, signedById: gate.uid, signedAt, versionId: saved.id, version: saved.version };
+		const batch = dbAdmin.batch();
+		batch.update(patientRef, {
+			reportStatus: 'signed',
+			reportSignature: signature,
+			reportDraftSince: FieldValue.delete(),
+			updatedAt: FieldValue.serverTimestamp(),
+		});
+		if (episodeId) {
+			// The episode keeps the whole signed report, since the rules stop clients changing it afterwards
+			const report: Record<string, unknown> = { ...pickEpisodeReport(patient), reportStatus: 'signed', reportSignature: signature };
+			delete report.reportDraftSince;
+			batch.update(dbAdmin.collection(EPISODES_COLLECTION).doc(episodeId), {
+				report,
+				updatedAt: FieldValue.serverTimestamp(),
+			});
+		}
+		await batch.commit();
+
+		await logAudit({
+			action: 'report-signed',
+			userId: gate.uid,
+			userEmail: user.email || undefined,
+			resourceType: 'patients',
+			resourceId: patientDocId,
+			metadata: { patientId: String(patient.patientId || ''), versionId: saved.id, version: saved.version },
+		});
+
+		return NextResponse.json({ success: true, signature });
+	} catch (error) {
+		console.error('Error signing report:', error);
+		return NextResponse.json({ error: 'Failed to sign report' }, { status: 500 });
+	}
+}
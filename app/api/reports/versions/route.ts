@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { requireRole } from '@/lib/authz';
+import { logAudit } from '@/lib/audit';
+import { authAdmin } from '@/lib/firebaseAdmin';
+import { saveReportVersion } from '@/lib/reportVersionAllocator';
+
+/**
+ * Save a physiotherapy report version under the patient's next version number.
+ * Body: { patientId, patientName, reportData, episodeId?, sessionNumber?, authoredBy?, restoredFrom? }
+ * The version is recorded as created by the signed-in user.
+ */
+export async function POST(request: NextRequest) {
+	const gate = await requireRole(request, ['Admin', 'FrontDesk', 'ClinicalTeam', 'Physiotherapist', 'StrengthAndConditioning']);
+	if (!gate.ok) {
+		return NextResponse.json({ error: gate.message }, { status: gate.status });
+	}
+
+	try {
+		const body = await request.json().catch(() => ({}));
+		const patientId = typeof body?.patientId === 'string' ? body.patientId.trim() : '';
+		const patientName = typeof body?.patientName === 'string' ? body.patientName.trim().slice(0, 200) : '';
+		const episodeId = typeof body?.episodeId === 'string' ? body.episodeId.trim() : '';
+		const authoredBy = typeof body?.authoredBy === 'string' ? body.authoredBy.trim().slice(0, 200) : '';
+		const sessionNumber = Number.isInteger(body?.sessionNumber) ? Number(body.sessionNumber) : null;
+		const restoredFrom = Number.isInteger(body?.restoredFrom) ? Number(body.restoredFrom) : null;
+
+		if (!patientId) {
+			return NextResponse.json({ error: 'patientId is required' }, { status: 400 });
+		}
+		if (!body?.reportData || typeof body.reportData !== 'object' || Array.isArray(body.reportData)) {
+			return NextResponse.json({ error: 'reportData is required' }, { status: 400 });
+		}
+
+		const user = await authAdmin.getUser(gate.uid);
+		const saved = await saveReportVersion({
+			patientId,
+			patientName,
+			reportType: 'physiotherapy',
+			reportData: body.reportData,
+			episodeId: episodeId || null,
+			sessionNumber,
+			authoredBy: authoredBy || null,
+			restoredFrom,
+			createdBy: user.displayName || user.email || gate.uid,
+			createdById: gate.uid,
+		});
+
+		await logAudit({
+			action: 'report-version-saved',
+			userId: gate.uid,
+			userEmail: user.email || undefined,
+			resourceType: 'reportVersions',
+			resourceId: saved.id,
+			metadata: { patientId, version: saved.version, ...(episodeId ? { episodeId } : {}) },
+		});
+
+		return NextResponse.json({ success: true, ...saved });
+	} catch (error) {
+		console.error('Error saving report version:', error);
+		return NextResponse.json({ error: 'Failed to save report version' }, { status: 500 });
+	}
+}
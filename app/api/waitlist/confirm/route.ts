@@ -0,0 +1,183 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { FieldValue } from 'firebase-admin/firestore';
+import { dbAdmin } from '@/lib/firebaseAdmin';
+import { checkAppointmentConflict } from '@/lib/appointmentUtils';
+import { WAITLIST_COLLECTION, WAITLIST_OFFERS_COLLECTION, isOfferExpired } from '@/lib/waitlist';
+
+type ConfirmResult =
+	| { ok: true; data: { appointmentId: string; doctor: string; date: string; time: string } }
+	| { ok: false; status: number; message: string };
+
+const SLOT_TAKEN = 'Sorry, this slot has already been taken';
+
+function getAppointmentIdPrefix(now: Date): string {
+	const year = now.getFullYear();
+	const month = String(now.getMonth() + 1).padStart(2, '0');
+	const day = String(now.getDate()).padStart(2, '0');
+	return `APT-${year}${month}${day}`;
+}
+
+/**
+ * Look up an offer so the public page can show the slot before the patient confirms
+ */
+export async function GET(request: NextRequest) {
+	try {
+		const token = String(request.nextUrl.searchParams.get('token') || '').trim();
+		if (!token) {
+			return NextResponse.json({ success: false, message: 'Offer token is required' }, { status: 400 });
+		}
+
+		const offerDoc = await dbAdmin.collection(WAITLIST_OFFERS_COLLECTION).doc(token).get();
+		if (!offerDoc.exists) {
+			return NextResponse.json({ success: false, message: 'This link is invalid' }, { status: 404 });
+		}
+
+		const offer = offerDoc.data()!;
+		return NextResponse.json({
+			success: true,
+			data: {
+				patientName: offer.patientName || '',
+				doctor: offer.doctor || '',
+				date: offer.date || '',
+				time: offer.time || '',
+				status: offer.status || 'open',
+				expired: isOfferExpired({ expiresAt: String(offer.expiresAt || '') }),
+			},
+		});
+	} catch (error) {
+		console.error('Error loading waitlist offer:', error);
+		return NextResponse.json({ success: false, message: 'Failed to load offer' }, { status: 500 });
+	}
+}
+
+/**
+ * Confirm an offer. The first patient to confirm gets the slot booked; every other
+ * offer for the same slot is superseded in the same transaction.
+ */
+export async function POST(request: NextRequest) {
+	try {
+		const body = await request.json();
+		const token = String(body?.token || '').trim();
+		if (!token) {
+			return NextResponse.json({ success: false, message: 'Offer token is required' }, { status: 400 });
+		}
+
+		const offerRef = dbAdmin.collection(WAITLIST_OFFERS_COLLECTION).doc(token);
+		const now = new Date();
+		const idPrefix = getAppointmentIdPrefix(now);
+
+		// Rejections return instead of throwing so that superseded offers are still written
+		const result = await dbAdmin.runTransaction<ConfirmResult>(async transaction => {
+			const offerDoc = await transaction.get(offerRef);
+			if (!offerDoc.exists) {
+				return { ok: false, status: 404, message: 'This link is invalid' };
+			}
+			const offer = offerDoc.data()!;
+			if (offer.status === 'accepted') {
+				return { ok: false, status: 409, message: 'You have already confirmed this slot' };
+			}
+			if (offer.status !== 'open') {
+				return { ok: false, status: 409, message: SLOT_TAKEN };
+			}
+			if (isOfferExpired({ expiresAt: String(offer.expiresAt || '') }, now)) {
+				return { ok: false, status: 410, message: 'This offer has expired' };
+			}
+
+			const entryRef = dbAdmin.collection(WAITLIST_COLLECTION).doc(String(offer.entryId));
+			const [slotOffers, dayAppointments, todaysIds, entryDoc] = await Promise.all([
+				transaction.get(dbAdmin.collection(WAITLIST_OFFERS_COLLECTION).where('slotKey', '==', offer.slotKey)),
+				transaction.get(
+					dbAdmin
+						.collection('appointments')
+						.where('doctor', '==', offer.doctor)
+						.where('date', '==', offer.date)
+				),
+				transaction.get(
+					dbAdmin
+						.collection('appointments')
+						.where('appointmentId', '>=', `${idPrefix}-000`)
+						.where('appointmentId', '<=', `${idPrefix}-999`)
+				),
+				transaction.get(entryRef),
+			]);
+
+			const supersede = (exceptId?: string) => {
+				slotOffers.docs
+					.filter(docSnap => docSnap.data().status === 'open' && docSnap.id !== exceptId)
+					.forEach(docSnap => transaction.update(docSnap.ref, { status: 'superseded' }));
+			};
+
+			const conflict = checkAppointmentConflict(
+				dayAppointments.docs.map(docSnap => {
+					const data = docSnap.data();
+					return {
+						id: docSnap.id,
+						appointmentId: data.appointmentId,
+						patient: data.patient || '',
+						doctor: data.doctor || '',
+						date: data.date || '',
+						time: data.time || '',
+						status: data.status,
+						duration: typeof data.duration === 'number' ? data.duration : null,
+						serviceType: data.serviceType || null,
+					};
+				}),
+				{ doctor: offer.doctor, date: offer.date, time: offer.time, duration: offer.duration || undefined }
+			);
+			if (conflict.hasConflict) {
+				// Taken by another waitlisted patient or rebooked by the front desk after the offers went out
+				supersede();
+				return { ok: false, status: 409, message: SLOT_TAKEN };
+			}
+
+			if (!entryDoc.exists || entryDoc.data()?.status !== 'waiting') {
+				transaction.update(offerRef, { status: 'superseded' });
+				return { ok: false, status: 409, message: 'This waitlist request is no longer active' };
+			}
+
+			let maxSeq = 0;
+			todaysIds.docs.forEach(docSnap => {
+				const match = String(docSnap.data().appointmentId || '').match(/APT-\d{8}-(\d{3})/);
+				if (match) maxSeq = Math.max(maxSeq, parseInt(match[1], 10));
+			});
+			const appointmentId = `${idPrefix}-${String(maxSeq + 1).padStart(3, '0')}`;
+
+			const appointmentRef = dbAdmin.collection('appointments').doc();
+			transaction.set(appointmentRef, {
+				appointmentId,
+				patientId: offer.patientId,
+				patient: offer.patientName,
+				doctor: offer.doctor,
+				date: offer.date,
+				time: offer.time,
+				duration: offer.duration || null,
+				serviceType: offer.serviceType || null,
+				status: 'pending',
+				notes: 'Booked from waitlist',
+				waitlistEntryId: offer.entryId,
+				createdAt: FieldValue.serverTimestamp(),
+			});
+
+			supersede(offerRef.id);
+			transaction.update(offerRef, {
+				status: 'accepted',
+				appointmentId,
+				acceptedAt: now.toISOString(),
+			});
+			transaction.update(entryRef, {
+				status: 'booked',
+				appointmentId,
+			});
+
+			return { ok: true, data: { appointmentId, doctor: offer.doctor, date: offer.date, time: offer.time } };
+		});
+
+		if (!result.ok) {
+			return NextResponse.json({ success: false, message: result.message }, { status: result.status });
+		}
+		return NextResponse.json({ success: true, data: result.data });
+	} catch (error) {
+		console.error('Error confirming waitlist offer:', error);
+		return NextResponse.json({ success: false, message: 'Failed to confirm slot' }, { status: 500 });
+	}
+}
@@ -0,0 +1,214 @@
+'use client';
+
+import { useState, useEffect, Suspense } from 'react';
+import { useSearchParams } from 'next/navigation';
+import {
+	CONFIRMATION_STATUS_LABELS,
+	type AppointmentConfirmationStatus,
+	type AppointmentResponseAction,
+} from '@/lib/appointmentConfirmation';
+
+interface AppointmentDetails {
+	patientName: string;
+	doctor: string;
+	date: string;
+	time: string;
+	status: string;
+	confirmationStatus: AppointmentConfirmationStatus;
+}
+
+const RESULT_MESSAGES: Record<AppointmentConfirmationStatus, string> = {
+	unconfirmed: '',
+	confirmed: 'Thank you, your appointment is confirmed. Please arrive 10 minutes early.',
+	cancelled: 'Your appointment has been cancelled. We hope to see you again soon.',
+	'reschedule-requested': 'Thanks for letting us know. Our front desk will contact you to find a new time.',
+};
+
+const formatDateLabel = (value: string) => {
+	const parsed = new Date(value + 'T00:00:00');
+	if (Number.isNaN(parsed.getTime())) return value;
+	return new Intl.DateTimeFormat('en-US', {
+		weekday: 'long',
+		month: 'short',
+		day: 'numeric',
+		year: 'numeric',
+	}).format(parsed);
+};
+
+function Card({ children }: { children: React.ReactNode }) {
+	return (
+		<div className="flex min-h-svh items-center justify-center bg-gray-50 px-4 py-10">
+			<div className="w-full max-w-md">
+				<div className="rounded-lg border border-gray-200 bg-white p-6 shadow-sm">{children}</div>
+			</div>
+		</div>
+	);
+}
+
+function AppointmentRespondForm() {
+	const searchParams = useSearchParams();
+	const token = searchParams.get('token');
+
+	const [appointment, setAppointment] = useState<AppointmentDetails | null>(null);
+	const [loading, setLoading] = useState(Boolean(token));
+	const [submitting, setSubmitting] = useState<AppointmentResponseAction | null>(null);
+	const [error, setError] = useState<string | null>(null);
+	const [note, setNote] = useState('');
+	const [result, setResult] = useState<AppointmentConfirmationStatus | null>(null);
+
+	useEffect(() => {
+		if (!token) return;
+
+		fetch(`/api/appointments/respond?token=${encodeURIComponent(token)}`)
+			.then(async response => {
+				const data = await response.json();
+				if (!response.ok || !data.success) {
+					setError(data.message || 'This link is invalid.');
+					return;
+				}
+				setAppointment(data.data);
+			})
+			.catch(err => {
+				console.error('Failed to load appointment:', err);
+				setError('Failed to load your appointment. Please try again.');
+			})
+			.finally(() => setLoading(false));
+	}, [token]);
+
+	const handleRespond = async (action: AppointmentResponseAction) => {
+		if (!token) return;
+		if (action === 'cancel' && !window.confirm('Cancel this appointment?')) return;
+
+		setError(null);
+		setSubmitting(action);
+		try {
+			const response = await fetch('/api/appointments/respond', {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json' },
+				body: JSON.stringify({ token, action, note: note.trim() || undefined }),
+			});
+			const data = await response.json();
+			if (!response.ok || !data.success) {
+				setError(data.message || 'Failed to record your response.');
+				return;
+			}
+			setResult(data.data.confirmationStatus);
+		} catch (err) {
+			console.error('Failed to record appointment response:', err);
+			setError('Failed to record your response. Please try again.');
+		} finally {
+			setSubmitting(null);
+		}
+	};
+
+	if (loading) {
+		return (
+			<Card>
+				<p className="text-center text-gray-600">Loading your appointment...</p>
+			</Card>
+		);
+	}
+
+	if (!appointment) {
+		return (
+			<Card>
+				<h2 className="mb-4 text-center text-xl font-semibold text-gray-900">Link Unavailable</h2>
+				<div className="rounded-md border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700" role="alert">
+					{token ? error : 'No appointment link provided. Please use the link from your reminder.'}
+				</div>
+			</Card>
+		);
+	}
+
+	const closed = appointment.status === 'completed' || appointment.status === 'cancelled' || appointment.status === 'no-show';
+
+	return (
+		<Card>
+			<h2 className="mb-2 text-center text-xl font-semibold text-gray-900">Your Appointment</h2>
+			<p className="mb-6 text-center text-sm text-gray-600">Hi {appointment.patientName}, here are your booking details.</p>
+			<dl className="mb-6 space-y-2 rounded-md border border-gray-200 bg-gray-50 px-4 py-3 text-sm">
+				<div className="flex justify-between">
+					<dt className="text-gray-500">Date</dt>
+					<dd className="font-medium text-gray-900">{formatDateLabel(appointment.date)}</dd>
+				</div>
+				<div className="flex justify-between">
+					<dt className="text-gray-500">Time</dt>
+					<dd className="font-medium text-gray-900">{appointment.time}</dd>
+				</div>
+				<div className="flex justify-between">
+					<dt className="text-gray-500">Clinician</dt>
+					<dd className="font-medium text-gray-900">{appointment.doctor}</dd>
+				</div>
+				{appointment.confirmationStatus !== 'unconfirmed' && !result && (
+					<div className="flex justify-between">
+						<dt className="text-gray-500">Your reply</dt>
+						<dd className="font-medium text-gray-900">{CONFIRMATION_STATUS_LABELS[appointment.confirmationStatus]}</dd>
+					</div>
+				)}
+			</dl>
+			{error && (
+				<div className="mb-4 rounded-md border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700" role="alert">
+					{error}
+				</div>
+			)}
+			{result ? (
+				<div className="rounded-md border border-green-200 bg-green-50 px-3 py-2 text-sm text-green-700" role="status">
+					{RESULT_MESSAGES[result]}
+				</div>
+			) : closed ? (
+				<p className="text-center text-sm text-gray-600">
+					This appointment is already closed. Please call the clinic if you need help.
+				</p>
+			) : (
+				<div className="space-y-3">
+					<button
+						type="button"
+						onClick={() => handleRespond('confirm')}
+						className="inline-flex w-full items-center justify-center rounded-md bg-gray-900 px-4 py-2 text-sm font-medium text-white transition hover:bg-gray-800 disabled:cursor-not-allowed disabled:opacity-70"
+						disabled={submitting !== null}
+					>
+						{submitting === 'confirm' ? 'Confirming...' : 'Confirm Appointment'}
+					</button>
+					<textarea
+						value={note}
+						onChange={event => setNote(event.target.value)}
+						placeholder="Can't make it? Let us know why or when suits you better (optional)"
+						rows={2}
+						maxLength={500}
+						className="block w-full rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 outline-none transition placeholder:text-gray-400 focus:border-gray-400"
+					/>
+					<div className="grid grid-cols-2 gap-3">
+						<button
+							type="button"
+							onClick={() => handleRespond('reschedule')}
+							className="inline-flex items-center justify-center rounded-md border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 transition hover:bg-gray-50 disabled:cursor-not-allowed disabled:opacity-70"
+							disabled={submitting !== null}
+						>
+							{submitting === 'reschedule' ? 'Sending...' : 'Request New Time'}
+						</button>
+						<button
+							type="button"
+							onClick={() => handleRespond('cancel')}
+							className="inline-flex items-center justify-center rounded-md border border-red-200 px-4 py-2 text-sm font-medium text-red-700 transition hover:bg-red-50 disabled:cursor-not-allowed disabled:opacity-70"
+							disabled={submitting !== null}
+						>
+							{submitting === 'cancel' ? 'Cancelling...' : 'Cancel Appointment'}
+						</button>
+					</div>
+				</div>
+			)}
+		</Card>
+	);
+}
+
+export default function AppointmentRespondPage() {
+	return (
+		<Suspense fallback={
+			<Card>
+				<p className="text-center text-gray-600">Loading...</p>
+			</Card>
+		}>
+			<AppointmentRespondForm />
+		</Suspense>
+	);
+}
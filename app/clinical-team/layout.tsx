@@ -8,6 +8,7 @@ import Calendar from '@/components/clinical-team/Calendar';
 import EditReport from '@/components/clinical-team/EditReport';
 import Availability from '@/components/clinical-team/Availability';
 import Appointments from '@/components/clinical-team/Appointments';
+import GroupSessions from '@/components/clinical-team/GroupSessions';
 import Notifications from '@/components/admin/Notifications';
 import Profile from '@/components/Profile';
 import TransferManagement from '@/components/clinical-team/TransferManagement';
@@ -20,12 +21,13 @@ import StrengthConditioningReport from '@/components/clinical-team/StrengthCondi
 import SOPViewer from '@/components/SOPViewer';
 import { useAuth } from '@/contexts/AuthContext';
 
-type ClinicalTeamPage = 'dashboard' | 'calendar' | 'edit-report' | 'strength-conditioning-report' | 'availability' | 'transfer' | 'appointments' | 'notifications' | 'inventory' | 'leave' | 'profile' | 'my-performance' | 'performance-rating' | 'billing' | 'sop';
+type ClinicalTeamPage = 'dashboard' | 'calendar' | 'edit-report' | 'strength-conditioning-report' | 'availability' | 'transfer' | 'appointments' | 'group-sessions' | 'notifications' | 'inventory' | 'leave' | 'profile' | 'my-performance' | 'performance-rating' | 'billing' | 'sop';
 
 const clinicalTeamLinks: SidebarLink[] = [
 	{ href: '#dashboard', label: 'Dashboard', icon: 'fas fa-dumbbell' },
 	{ href: '#calendar', label: 'Calendar', icon: 'fas fa-calendar-week' },
 	{ href: '#appointments', label: 'Patient Management', icon: 'fas fa-calendar-check' },
+	{ href: '#group-sessions', label: 'Group Classes', icon: 'fas fa-users' },
 	{ href: '#billing', label: 'Billing', icon: 'fas fa-file-invoice-dollar' },
 	{ href: '#notifications', label: 'Notifications & Messaging', icon: 'fas fa-bell' },
 	{ href: '#inventory', label: 'Inventory Management', icon: 'fas fa-boxes' },
@@ -90,6 +92,8 @@ export default function ClinicalTeamLayout({ children }: { children: React.React
 			setActivePage('calendar');
 		} else if (pathname?.includes('/appointments')) {
 			setActivePage('appointments');
+		} else if (pathname?.includes('/group-sessions')) {
+			setActivePage('group-sessions');
 		} else if (pathname?.includes('/billing')) {
 			setActivePage('billing');
 		} else if (pathname?.includes('/notifications')) {
@@ -152,6 +156,8 @@ export default function ClinicalTeamLayout({ children }: { children: React.React
 				return <Calendar />;
 			case 'appointments':
 				return <Appointments />;
+			case 'group-sessions':
+				return <GroupSessions />;
 			case 'billing':
 				return <Billing />;
 		case 'notifications':
@@ -7,21 +7,25 @@ import Dashboard from '@/components/frontdesk/Dashboard';
 import Patients from '@/components/frontdesk/Patients';
 import Billing from '@/components/frontdesk/Billing';
 import Calendar from '@/components/frontdesk/Calendar';
+import Waitlist from '@/components/frontdesk/Waitlist';
 import Profile from '@/components/Profile';
 import Notifications from '@/components/admin/Notifications';
 import InventoryManagement from '@/components/InventoryManagement';
 import LeaveManagement from '@/components/LeaveManagement';
 import SOPViewer from '@/components/SOPViewer';
 import InternshipManagement from '@/components/frontdesk/InternshipManagement';
+import CashBook from '@/components/frontdesk/CashBook';
 import { useAuth } from '@/contexts/AuthContext';
 
-type FrontdeskPage = 'dashboard' | 'patients' | 'billing' | 'calendar' | 'notifications' | 'inventory' | 'leave' | 'profile' | 'sop' | 'internships';
+type FrontdeskPage = 'dashboard' | 'patients' | 'billing' | 'calendar' | 'waitlist' | 'notifications' | 'inventory' | 'leave' | 'profile' | 'sop' | 'internships' | 'cashbook';
 
 const frontdeskLinks: SidebarLink[] = [
 	{ href: '#dashboard', label: 'Dashboard', icon: 'fas fa-home' },
 	{ href: '#patients', label: 'Patient Management', icon: 'fas fa-users' },
 	{ href: '#calendar', label: 'Calendar', icon: 'fas fa-calendar-alt' },
+	{ href: '#waitlist', label: 'Waitlist', icon: 'fas fa-user-clock' },
 	{ href: '#billing', label: 'Billing', icon: 'fas fa-file-invoice-dollar' },
+	{ href: '#cashbook', label: 'Daily Cash Book', icon: 'fas fa-cash-register' },
 	{ href: '#notifications', label: 'Notifications & Messaging', icon: 'fas fa-bell' },
 	{ href: '#inventory', label: 'Inventory Management', icon: 'fas fa-boxes' },
 	{ href: '#leave', label: 'Leave Management', icon: 'fas fa-calendar-times' },
@@ -67,7 +71,7 @@ export default function FrontdeskLayout({ children }: { children: React.ReactNod
 		useEffect(() => {
 			const handleHashChange = () => {
 				const hash = window.location.hash.replace('#', '');
-				if (hash && ['dashboard', 'patients', 'calendar', 'billing', 'notifications', 'inventory', 'leave', 'profile', 'sop', 'internships'].includes(hash)) {
+				if (hash && ['dashboard', 'patients', 'calendar', 'waitlist', 'billing', 'notifications', 'inventory', 'leave', 'profile', 'sop', 'internships', 'cashbook'].includes(hash)) {
 					setActivePage(hash as FrontdeskPage);
 				}
 			};
@@ -81,7 +85,7 @@ export default function FrontdeskLayout({ children }: { children: React.ReactNod
 			// Listen for custom navigation events
 			const handleCustomNav = (event: CustomEvent) => {
 				const page = event.detail?.page;
-				if (page && ['dashboard', 'patients', 'calendar', 'billing', 'notifications', 'inventory', 'leave', 'profile', 'sop', 'internships'].includes(page)) {
+				if (page && ['dashboard', 'patients', 'calendar', 'waitlist', 'billing', 'notifications', 'inventory', 'leave', 'profile', 'sop', 'internships', 'cashbook'].includes(page)) {
 					setActivePage(page as FrontdeskPage);
 				}
 			};
@@ -102,8 +106,12 @@ export default function FrontdeskLayout({ children }: { children: React.ReactNod
 				return <Patients />;
 			case 'calendar':
 				return <Calendar />;
+			case 'waitlist':
+				return <Waitlist />;
 			case 'billing':
 				return <Billing />;
+			case 'cashbook':
+				return <CashBook />;
 		case 'notifications':
 			return <Notifications />;
 		case 'inventory':
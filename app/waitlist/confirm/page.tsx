@@ -0,0 +1,176 @@
+'use client';
+
+import { useState, useEffect, Suspense } from 'react';
+import { useSearchParams } from 'next/navigation';
+
+interface OfferDetails {
+	patientName: string;
+	doctor: string;
+	date: string;
+	time: string;
+	status: 'open' | 'accepted' | 'superseded';
+	expired: boolean;
+}
+
+const formatDateLabel = (value: string) => {
+	const parsed = new Date(value + 'T00:00:00');
+	if (Number.isNaN(parsed.getTime())) return value;
+	return new Intl.DateTimeFormat('en-US', {
+		weekday: 'long',
+		month: 'short',
+		day: 'numeric',
+		year: 'numeric',
+	}).format(parsed);
+};
+
+function Card({ children }: { children: React.ReactNode }) {
+	return (
+		<div className="flex min-h-svh items-center justify-center bg-gray-50 px-4 py-10">
+			<div className="w-full max-w-md">
+				<div className="rounded-lg border border-gray-200 bg-white p-6 shadow-sm">{children}</div>
+			</div>
+		</div>
+	);
+}
+
+function WaitlistConfirmForm() {
+	const searchParams = useSearchParams();
+	const token = searchParams.get('token');
+
+	const [offer, setOffer] = useState<OfferDetails | null>(null);
+	const [loading, setLoading] = useState(Boolean(token));
+	const [submitting, setSubmitting] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+	const [bookedId, setBookedId] = useState<string | null>(null);
+
+	useEffect(() => {
+		if (!token) return;
+
+		fetch(`/api/waitlist/confirm?token=${encodeURIComponent(token)}`)
+			.then(async response => {
+				const result = await response.json();
+				if (!response.ok || !result.success) {
+					setError(result.message || 'This link is invalid.');
+					return;
+				}
+				setOffer(result.data);
+			})
+			.catch(err => {
+				console.error('Failed to load waitlist offer:', err);
+				setError('Failed to load this offer. Please try again.');
+			})
+			.finally(() => setLoading(false));
+	}, [token]);
+
+	const handleConfirm = async () => {
+		if (!token) return;
+		setError(null);
+		setSubmitting(true);
+		try {
+			const response = await fetch('/api/waitlist/confirm', {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json' },
+				body: JSON.stringify({ token }),
+			});
+			const result = await response.json();
+			if (!response.ok || !result.success) {
+				setError(result.message || 'Failed to confirm this slot.');
+				return;
+			}
+			setBookedId(result.data.appointmentId);
+		} catch (err) {
+			console.error('Failed to confirm waitlist offer:', err);
+			setError('Failed to confirm this slot. Please try again.');
+		} finally {
+			setSubmitting(false);
+		}
+	};
+
+	if (loading) {
+		return (
+			<Card>
+				<p className="text-center text-gray-600">Loading offer...</p>
+			</Card>
+		);
+	}
+
+	if (!offer) {
+		return (
+			<Card>
+				<h2 className="mb-4 text-center text-xl font-semibold text-gray-900">Invalid Link</h2>
+				<div className="rounded-md border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700" role="alert">
+					{token ? error : 'No offer link provided. Please use the link from your message.'}
+				</div>
+			</Card>
+		);
+	}
+
+	const unavailableMessage = offer.status === 'accepted'
+		? 'You have already confirmed this slot.'
+		: offer.status === 'superseded'
+			? 'Sorry, this slot has already been taken by another patient.'
+			: offer.expired
+				? 'This offer has expired.'
+				: null;
+
+	return (
+		<Card>
+			<h2 className="mb-2 text-center text-xl font-semibold text-gray-900">Earlier Slot Available</h2>
+			<p className="mb-6 text-center text-sm text-gray-600">
+				Hi {offer.patientName}, a slot has opened up for you.
+			</p>
+			<dl className="mb-6 space-y-2 rounded-md border border-gray-200 bg-gray-50 px-4 py-3 text-sm">
+				<div className="flex justify-between">
+					<dt className="text-gray-500">Date</dt>
+					<dd className="font-medium text-gray-900">{formatDateLabel(offer.date)}</dd>
+				</div>
+				<div className="flex justify-between">
+					<dt className="text-gray-500">Time</dt>
+					<dd className="font-medium text-gray-900">{offer.time}</dd>
+				</div>
+				<div className="flex justify-between">
+					<dt className="text-gray-500">Clinician</dt>
+					<dd className="font-medium text-gray-900">{offer.doctor}</dd>
+				</div>
+			</dl>
+			{error && (
+				<div className="mb-4 rounded-md border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700" role="alert">
+					{error}
+				</div>
+			)}
+			{bookedId ? (
+				<div className="rounded-md border border-green-200 bg-green-50 px-3 py-2 text-sm text-green-700" role="status">
+					Your appointment is booked. Appointment ID: <strong>{bookedId}</strong>. Please arrive 10 minutes early.
+				</div>
+			) : unavailableMessage ? (
+				<p className="text-center text-sm text-gray-600">{unavailableMessage}</p>
+			) : (
+				<>
+					<p className="mb-4 text-center text-xs text-gray-500">
+						This slot was offered to other waitlisted patients too. The first to confirm gets it.
+					</p>
+					<button
+						type="button"
+						onClick={handleConfirm}
+						className="inline-flex w-full items-center justify-center rounded-md bg-gray-900 px-4 py-2 text-sm font-medium text-white transition hover:bg-gray-800 disabled:cursor-not-allowed disabled:opacity-70"
+						disabled={submitting}
+					>
+						{submitting ? 'Confirming...' : 'Confirm This Slot'}
+					</button>
+				</>
+			)}
+		</Card>
+	);
+}
+
+export default function WaitlistConfirmPage() {
+	return (
+		<Suspense fallback={
+			<Card>
+				<p className="text-center text-gray-600">Loading...</p>
+			</Card>
+		}>
+			<WaitlistConfirmForm />
+		</Suspense>
+	);
+}
@@ -26,16 +26,26 @@ import { notifyAdmins } from '@/lib/notificationUtils';
 import RescheduleDialog from '@/components/appointments/RescheduleDialog';
 import CancelDialog from '@/components/appointments/CancelDialog';
 import { checkAppointmentConflict, checkAvailabilityConflict } from '@/lib/appointmentUtils';
+import { cancelSeries, rescheduleSeriesFrom, type SeriesCancelScope, type SeriesEditScope } from '@/lib/appointmentSeriesClient';
+import type { WeeklyAvailability } from '@/lib/availability';
+import { useClinicHolidays } from '@/hooks/useClinicHolidays';
+import { offerSlotsToWaitlist } from '@/lib/waitlistClient';
+import { applyNoShowStatusChange } from '@/lib/noShowClient';
 import { normalizeSessionAllowance } from '@/lib/sessionAllowance';
-import { recordSessionUsageForAppointment } from '@/lib/sessionAllowanceClient';
 import type { RecordSessionUsageResult } from '@/lib/sessionAllowanceClient';
-import { createDYESBilling } from '@/lib/dyesBilling';
+import { applySessionStatusChange } from '@/lib/sessionCompletionClient';
+import { useClinicResources } from '@/hooks/useClinicResources';
+import { formatResourceNames, getAppointmentResourceIds, getServiceResourceIds } from '@/lib/resources';
+import ResourcePicker from '@/components/appointments/ResourcePicker';
+import ServiceSelect from '@/components/appointments/ServiceSelect';
+import { resolveAppointmentDuration } from '@/lib/serviceCatalog';
 
 const statusLabels: Record<AdminAppointmentStatus, string> = {
 	pending: 'Pending',
 	ongoing: 'Ongoing',
 	completed: 'Completed',
 	cancelled: 'Cancelled',
+	'no-show': 'No-show',
 };
 
 const statusChipClasses: Record<AdminAppointmentStatus, string> = {
@@ -43,6 +53,7 @@ const statusChipClasses: Record<AdminAppointmentStatus, string> = {
 	ongoing: 'status-badge-ongoing',
 	completed: 'status-badge-completed',
 	cancelled: 'status-badge-cancelled',
+	'no-show': 'status-badge-no-show',
 };
 
 type DateSpecificAvailability = {
@@ -58,6 +69,7 @@ interface StaffMember {
 	role: string;
 	status: string;
 	userEmail?: string;
+	weeklyAvailability?: WeeklyAvailability;
 	dateSpecificAvailability?: DateSpecificAvailability;
 }
 
@@ -70,6 +82,8 @@ type FirestoreAppointmentRecord = AdminAppointmentRecord & {
 
 export default function Appointments() {
 	const { user } = useAuth();
+	const { resources } = useClinicResources();
+	const { holidays } = useClinicHolidays();
 	const [appointments, setAppointments] = useState<FirestoreAppointmentRecord[]>([]);
 	const [patients, setPatients] = useState<(AdminPatientRecord & { id?: string; patientType?: string })[]>([]);
 	const [staff, setStaff] = useState<StaffMember[]>([]);
@@ -101,6 +115,8 @@ export default function Appointments() {
 		date: '',
 		time: '',
 		notes: '',
+		serviceType: '',
+		resourceIds: [] as string[],
 	});
 
 	// Load appointments from Firestore
@@ -121,6 +137,10 @@ export default function Appointments() {
 						time: data.time ? String(data.time) : '',
 						status: (data.status as AdminAppointmentStatus) ?? 'pending',
 						notes: data.notes ? String(data.notes) : undefined,
+						duration: typeof data.duration === 'number' ? data.duration : undefined,
+						serviceType: data.serviceType ? String(data.serviceType) : undefined,
+						resourceIds: getAppointmentResourceIds(data),
+						recurringSeriesId: data.recurringSeriesId ? String(data.recurringSeriesId) : undefined,
 						billing: data.billing ? (data.billing as { amount?: string; date?: string }) : undefined,
 						createdAt: created ? created.toISOString() : (data.createdAt as string | undefined) || new Date().toISOString(),
 					} as FirestoreAppointmentRecord;
@@ -186,6 +206,7 @@ export default function Appointments() {
 						role: data.role ? String(data.role) : '',
 						status: data.status ? String(data.status) : '',
 						userEmail: data.userEmail ? String(data.userEmail) : undefined,
+						weeklyAvailability: data.weeklyAvailability as WeeklyAvailability | undefined,
 						dateSpecificAvailability: data.dateSpecificAvailability as DateSpecificAvailability | undefined,
 					} as StaffMember;
 				});
@@ -208,6 +229,21 @@ export default function Appointments() {
 		return map;
 	}, [patients]);
 
+	// How long the new appointment lasts, from the chosen service
+	const bookingDuration = resolveAppointmentDuration({ serviceType: bookingForm.serviceType });
+
+	// Resources already reserved by other appointments at the chosen booking time
+	const busyResourceIds = useMemo(() => {
+		if (!bookingForm.date || !bookingForm.time || resources.length === 0) return [];
+		return checkAppointmentConflict(appointments, {
+			doctor: '',
+			date: bookingForm.date,
+			time: bookingForm.time,
+			duration: bookingDuration,
+			resourceIds: resources.map(resource => resource.id),
+		}).resourceIds;
+	}, [appointments, bookingForm.date, bookingForm.time, bookingDuration, resources]);
+
 	const doctorOptions = useMemo(() => {
 		const base = staff
 			.filter(member => member.role === 'ClinicalTeam' && member.status !== 'Inactive')
@@ -223,13 +259,15 @@ export default function Appointments() {
 			const member = staff.find(staffMember => staffMember.userName === name);
 			if (!member) return false;
 			const availability = checkAvailabilityConflict(
-				member.dateSpecificAvailability,
+				member,
 				bookingForm.date,
-				bookingForm.time
+				bookingForm.time,
+				bookingDuration,
+				holidays
 			);
 			return availability.isAvailable;
 		});
-	}, [staff, bookingForm.date, bookingForm.time]);
+	}, [staff, bookingForm.date, bookingForm.time, bookingDuration, holidays]);
 
 	const patientSelectOptions = useMemo(() => {
 		return [...patients]
@@ -369,6 +407,8 @@ export default function Appointments() {
 			date: '',
 			time: '',
 			notes: '',
+			serviceType: '',
+			resourceIds: [],
 		});
 	};
 
@@ -405,15 +445,28 @@ export default function Appointments() {
 				date: appointment.date,
 				time: appointment.time,
 				status: appointment.status,
+				duration: appointment.duration,
+				serviceType: appointment.serviceType,
+				resourceIds: appointment.resourceIds,
 			})),
 			{
 				doctor: bookingForm.doctor,
 				date: bookingForm.date,
 				time: bookingForm.time,
+				duration: bookingDuration,
+				resourceIds: bookingForm.resourceIds,
 			}
 		);
 
-		if (conflict.hasConflict) {
+		// A room or machine can't be double-booked, even when the therapist is free
+		if (conflict.resourceIds.length > 0) {
+			alert(
+				`Already booked at this time: ${formatResourceNames(resources, conflict.resourceIds)}. Please choose another time or resource.`
+			);
+			return;
+		}
+
+		if (conflict.conflictingAppointments.some(appointment => appointment.doctor === bookingForm.doctor)) {
 			const proceed = window.confirm(
 				`Warning: ${bookingForm.doctor} already has an appointment at this time.\nProceed anyway?`
 			);
@@ -441,8 +494,11 @@ export default function Appointments() {
 				doctor: bookingForm.doctor,
 				date: bookingForm.date,
 				time: bookingForm.time,
+				duration: bookingDuration,
+				serviceType: bookingForm.serviceType || null,
 				status: 'pending',
 				notes: bookingForm.notes.trim() || null,
+				resourceIds: bookingForm.resourceIds,
 				isConsultation: false, // Admin cannot create consultations
 				createdAt: serverTimestamp(),
 			});
@@ -590,37 +646,52 @@ export default function Appointments() {
 			const doctorChanged = oldAppointment.doctor !== formData.doctor;
 			const statusCapitalized = formData.status.charAt(0).toUpperCase() + formData.status.slice(1);
 
-			if (statusChanged && formData.status === 'completed' && patient?.id) {
+			// The old slot is free again if the appointment moved or was cancelled
+			if (
+				oldAppointment.status !== 'cancelled' &&
+				(dateChanged || timeChanged || doctorChanged || (statusChanged && formData.status === 'cancelled'))
+			) {
+				void offerSlotsToWaitlist([oldAppointment]);
+			}
+
+			if (statusChanged && (formData.status === 'no-show' || oldAppointment.status === 'no-show')) {
 				try {
-					sessionUsageResult = await recordSessionUsageForAppointment({
-						patientDocId: patient.id,
-						patientType: patient.patientType,
-						appointmentId: appointment.id,
+					await applyNoShowStatusChange({
+						appointmentDocId: appointment.id,
+						appointmentId: appointment.appointmentId,
+						patientDocId: patient?.id,
+						patientId: appointment.patientId,
+						patientName: appointment.patient || patient?.name || '',
+						doctor: formData.doctor || appointment.doctor || '',
+						date: formData.date || appointment.date || '',
+						previousStatus: oldAppointment.status,
+						nextStatus: formData.status,
+						recordedBy: user?.displayName || user?.email || null,
 					});
-				} catch (sessionError) {
-					console.error('Failed to record DYES session usage:', sessionError);
+				} catch (noShowError) {
+					console.error('Failed to record no-show:', noShowError);
 				}
+			}
 
-				// Automatically create billing for DYES patients
-				const patientType = (patient.patientType || '').toUpperCase();
-				if (patientType === 'DYES' || patientType === 'DYES') {
-					try {
-						if (appointment.appointmentId && appointment.id && appointment.patientId) {
-							await createDYESBilling({
-								appointmentId: appointment.appointmentId,
-								appointmentDocId: appointment.id,
-								patientId: appointment.patientId,
-								patientName: appointment.patient || '',
-								doctorName: formData.doctor || appointment.doctor || '',
-								appointmentDate: formData.date || appointment.date || '',
-								createdByUserId: user?.uid || null,
-								createdByUserName: user?.displayName || user?.email || null,
-								isExtraTreatment: false, // Admin appointments default to regular treatment
-							});
-						}
-					} catch (billingError) {
-						console.error('Failed to create automatic DYES billing:', billingError);
-					}
+			if (statusChanged && patient?.id && appointment.appointmentId) {
+				const sessionChange = await applySessionStatusChange({
+					patientDocId: patient.id,
+					appointmentDocId: appointment.id,
+					appointmentId: appointment.appointmentId,
+					patientId: appointment.patientId,
+					patientName: appointment.patient || '',
+					doctor: formData.doctor || appointment.doctor || '',
+					date: formData.date || appointment.date || '',
+					serviceType: appointment.serviceType,
+					previousStatus: oldAppointment.status,
+					nextStatus: formData.status,
+					isExtraTreatment: false, // Admin appointments default to regular treatment
+					recordedByUserId: user?.uid || null,
+					recordedBy: user?.displayName || user?.email || null,
+				});
+				sessionUsageResult = sessionChange.sessionUsage;
+				if (sessionChange.packageNotCovered) {
+					alert('This appointment was not counted against the patient\'s package: it has expired, is used up or does not cover this service.');
 				}
 			}
 
@@ -797,17 +868,30 @@ export default function Appointments() {
 		}
 	};
 
-	const handleReschedule = async (newDate: string, newTime: string) => {
+	const handleReschedule = async (newDate: string, newTime: string, scope: SeriesEditScope) => {
 		if (!rescheduleDialog.appointment) return;
 
 		try {
 			const appointment = rescheduleDialog.appointment;
 			const patient = appointment.patientId ? patientLookup.get(appointment.patientId) : undefined;
 
-			await updateDoc(doc(db, 'appointments', appointment.id), {
-				date: newDate,
-				time: newTime,
-			});
+			if (scope === 'following') {
+				const result = await rescheduleSeriesFrom(appointment, newDate, newTime);
+				if (result.skipped.length > 0) {
+					alert(
+						`Moved ${result.updated.length} appointment(s). These could not be moved and were left unchanged:\n` +
+							result.skipped.map(item => `${item.date}: ${item.reason}`).join('\n')
+					);
+				}
+				void offerSlotsToWaitlist(result.released);
+				if (!result.updated.some(item => item.id === appointment.id)) return;
+			} else {
+				await updateDoc(doc(db, 'appointments', appointment.id), {
+					date: newDate,
+					time: newTime,
+				});
+				void offerSlotsToWaitlist([appointment]);
+			}
 
 			// Send notifications
 			if (patient?.email) {
@@ -856,7 +940,7 @@ export default function Appointments() {
 		}
 	};
 
-	const handleCancel = async (reason: string) => {
+	const handleCancel = async (reason: string, scope: SeriesCancelScope) => {
 		if (!cancelDialog.appointment) return;
 
 		try {
@@ -864,11 +948,18 @@ export default function Appointments() {
 			const patient = appointment.patientId ? patientLookup.get(appointment.patientId) : undefined;
 			const staffMember = staff.find(s => s.userName === appointment.doctor);
 
-			await updateDoc(doc(db, 'appointments', appointment.id), {
-				status: 'cancelled',
-				cancellationReason: reason || null,
-				cancelledAt: new Date().toISOString(),
-			});
+			if (scope === 'series' && appointment.recurringSeriesId) {
+				const released = await cancelSeries(appointment.recurringSeriesId, reason);
+				alert(`Cancelled ${released.length} appointment(s) in the series.`);
+				void offerSlotsToWaitlist(released);
+			} else {
+				await updateDoc(doc(db, 'appointments', appointment.id), {
+					status: 'cancelled',
+					cancellationReason: reason || null,
+					cancelledAt: new Date().toISOString(),
+				});
+				void offerSlotsToWaitlist([appointment]);
+			}
 
 			// Send notifications to patient
 			if (patient?.email) {
@@ -1169,6 +1260,7 @@ export default function Appointments() {
 										<option value="ongoing">Ongoing</option>
 										<option value="completed">Completed</option>
 										<option value="cancelled">Cancelled</option>
+										<option value="no-show">No-show</option>
 									</select>
 								</div>
 							</div>
@@ -1211,6 +1303,12 @@ export default function Appointments() {
 				onClose={() => setRescheduleDialog({ isOpen: false, appointment: null })}
 				onConfirm={handleReschedule}
 				allAppointments={appointments}
+				staff={staff.map(member => ({
+					id: member.id,
+					name: member.userName,
+					weeklyAvailability: member.weeklyAvailability,
+					dateSpecificAvailability: member.dateSpecificAvailability,
+				}))}
 			/>
 
 			<CancelDialog
@@ -1322,6 +1420,27 @@ export default function Appointments() {
 									</div>
 								</div>
 
+								<ServiceSelect
+									value={bookingForm.serviceType}
+									onChange={serviceType =>
+										setBookingForm(prev => ({
+											...prev,
+											serviceType,
+											doctor: '',
+											resourceIds: getServiceResourceIds(resources, serviceType),
+										}))
+									}
+									disabled={bookingLoading}
+								/>
+
+								<ResourcePicker
+									resources={resources}
+									selected={bookingForm.resourceIds}
+									onChange={resourceIds => setBookingForm(prev => ({ ...prev, resourceIds }))}
+									busyResourceIds={busyResourceIds}
+									disabled={bookingLoading}
+								/>
+
 								<div>
 									<label className="block text-sm font-medium text-slate-700">Notes (optional)</label>
 									<textarea
@@ -11,10 +11,38 @@ import {
 import { auth, db } from '@/lib/firebase';
 import { useAuth } from '@/contexts/AuthContext';
 import PageHeader from '@/components/PageHeader';
+import InvoiceNumberingSettings from '@/components/admin/InvoiceNumberingSettings';
+import GstSettings from '@/components/admin/GstSettings';
+import PackageCatalogue from '@/components/admin/PackageCatalogue';
+import BillingPolicySettings from '@/components/admin/BillingPolicySettings';
+import SponsorInvoices from '@/components/billing/SponsorInvoices';
+import CashSettlements from '@/components/billing/CashSettlements';
+import CreditNoteDialog from '@/components/billing/CreditNoteDialog';
+import PaymentLinesEditor from '@/components/billing/PaymentLinesEditor';
 import { sendEmailNotification } from '@/lib/email';
 import { sendSMSNotification, isValidPhoneNumber } from '@/lib/sms';
 import { notifyAdmins } from '@/lib/notificationUtils';
+import { PENDING_INVOICE_NUMBER, hasIssuedInvoiceNumber } from '@/lib/invoiceNumbering';
+import { getCreditedAmount, getNetBillAmount, netOfReversals } from '@/lib/creditNotes';
+import { getBillBalance, parsePaymentLineDrafts, type PaymentLineDraft } from '@/lib/billPayments';
+import { recordBillPayment } from '@/lib/billPaymentsClient';
+import { debitWalletForBill } from '@/lib/walletClient';
+import { billsOnCompletion, priceCompletedSession, resolveBillingPolicy } from '@/lib/billingPolicies';
+import { billCompletedSession, fetchBillingPolicySettings } from '@/lib/billingPoliciesClient';
+import {
+	GST_STATES,
+	getGstEntity,
+	getGstStateName,
+	parseBillGstSnapshot,
+	resolveBillGst,
+	type BillGstSnapshot,
+	type GstEntity,
+} from '@/lib/gst';
+import { useGstSettings } from '@/hooks/useGstSettings';
+import { requestInvoiceNumber } from '@/lib/invoiceNumberingClient';
 import { getCurrentBillingCycle, getNextBillingCycle, getBillingCycleId, getMonthName, getCurrentCalendarYear, type BillingCycle } from '@/lib/billingUtils';
+import { getBillLockMessage, getReconciliationRows, isBillLocked, parseCycleReconciliation } from '@/lib/billingCycles';
+import { closeBillingCycle } from '@/lib/billingCyclesClient';
 import { getRemainingFreeSessions, normalizeSessionAllowance } from '@/lib/sessionAllowance';
 import { recordSessionUsageForAppointment } from '@/lib/sessionAllowanceClient';
 import type { RecordSessionUsageResult } from '@/lib/sessionAllowanceClient';
@@ -54,17 +82,23 @@ interface BillingRecord {
 	installmentsPaid?: number;
 	amountPaid?: number;
 	date: string;
-	status: 'Pending' | 'Completed' | 'Auto-Paid';
+	status: 'Pending' | 'Completed' | 'Auto-Paid' | 'Voided';
 	paymentMode?: string;
 	utr?: string;
 	createdAt?: string | Timestamp;
 	updatedAt?: string | Timestamp;
 	invoiceNo?: string;
+	invoiceSequence?: number; // Set once the server has issued invoiceNo
 	invoiceGeneratedAt?: string;
+	gst?: BillGstSnapshot; // Tax as printed on the invoice
+	creditedAmount?: number; // Running total of credit notes issued against the bill
+	refundedAmount?: number;
+	voidReason?: string;
 	createdByFrontdesk?: string;
 	createdByFrontdeskName?: string;
 	paymentRegisteredByFrontdesk?: string;
 	paymentRegisteredByFrontdeskName?: string;
+	lockedCycleId?: string; // Set when the bill's billing cycle is closed
 }
 
 const formatInstallmentPlan = (bill: BillingRecord) => {
@@ -111,6 +145,18 @@ const getInstallmentInfo = (bill: BillingRecord) => {
 	};
 };
 
+/**
+ * Amount due when paying up to and including `targetInstallment`. The last installment settles
+ * whatever is left, so rounding never leaves a few paise outstanding.
+ */
+const getInstallmentCharge = (bill: BillingRecord, targetInstallment: number | null) => {
+	const { total, paid, amountPerInstallment } = getInstallmentInfo(bill);
+	const normalizedTarget = Math.min(Math.max(targetInstallment ?? paid + 1, paid + 1), total);
+	const installmentsToMark = Math.max(0, normalizedTarget - paid);
+	if (installmentsToMark > 0 && normalizedTarget >= total) return getBillBalance(bill);
+	return Number((installmentsToMark * amountPerInstallment).toFixed(2));
+};
+
 const parseDate = (value?: string) => {
 	if (!value) return null;
 	const parsed = new Date(value);
@@ -250,26 +296,35 @@ async function getLogoAsDataUrl(): Promise<string> {
 async function generateInvoiceHtml(
 	bill: BillingRecord, 
 	invoiceNo: string, 
-	options?: {
+	options: {
 		patientName?: string;
 		patientAddress?: string;
 		patientCity?: string;
 		description?: string;
-		hsnSac?: string;
-		cgstRate?: number;
-		sgstRate?: number;
 		companyBankDetails?: string;
+		gst: BillGstSnapshot;
+		entity: GstEntity;
 	}
 ) {
-	const taxableValue = Number(bill.amount || 0);
-	const cgstRate = options?.cgstRate ?? 5; // Default 5% CGST
-	const sgstRate = options?.sgstRate ?? 5; // Default 5% SGST
-	const cgstAmount = Number((taxableValue * (cgstRate / 100)).toFixed(2));
-	const sgstAmount = Number((taxableValue * (sgstRate / 100)).toFixed(2));
-	const grandTotal = Number((taxableValue + cgstAmount + sgstAmount).toFixed(2));
+	const { gst, entity } = options;
+	const taxableValue = gst.taxableValue;
+	const grandTotal = gst.total;
+	const formatAmount = (value: number) => value.toFixed(2);
 	
 	const words = numberToWords(grandTotal);
-	const taxWords = numberToWords(cgstAmount + sgstAmount);
+	const taxWords = numberToWords(gst.totalTax);
+
+	const taxLabels = gst.interState ? `IGST @ ${gst.igstRate}%` : `CGST @ ${gst.cgstRate}%<br>SGST @ ${gst.sgstRate}%`;
+	const taxRates = gst.interState ? `${gst.igstRate}%` : `${gst.cgstRate}%<br>${gst.sgstRate}%`;
+	const taxAmounts = gst.interState
+		? formatAmount(gst.igstAmount)
+		: `${formatAmount(gst.cgstAmount)}<br>${formatAmount(gst.sgstAmount)}`;
+	const taxSummaryCells = gst.interState
+		? `<td>${gst.igstRate}%</td><td>${formatAmount(gst.igstAmount)}</td>`
+		: `<td>${gst.cgstRate}%</td><td>${formatAmount(gst.cgstAmount)}</td><td>${gst.sgstRate}%</td><td>${formatAmount(gst.sgstAmount)}</td>`;
+	const taxSummaryTotalCells = gst.interState
+		? `<td></td><td>${formatAmount(gst.igstAmount)}</td>`
+		: `<td></td><td>${formatAmount(gst.cgstAmount)}</td><td></td><td>${formatAmount(gst.sgstAmount)}</td>`;
 	const showDate = bill.date || new Date().toLocaleDateString('en-IN');
 	
 	const paymentModeDisplay = bill.paymentMode || 'Cash';
@@ -277,7 +332,7 @@ async function generateInvoiceHtml(
 	const buyerAddress = options?.patientAddress || `Patient ID: ${escapeHtml(bill.patientId)}`;
 	const buyerCity = options?.patientCity || (bill.doctor ? `Doctor: ${escapeHtml(bill.doctor)}` : '');
 	const description = options?.description || 'Physiotherapy / Strength & Conditioning Sessions';
-	const hsnSac = options?.hsnSac || '9993';
+	const hsnSac = gst.sacCode;
 	
 	// Convert logo to base64 data URL for reliable printing/downloading
 	const logoDataUrl = await getLogoAsDataUrl();
@@ -378,12 +433,12 @@ async function generateInvoiceHtml(
 							<img src="${logoDataUrl}" alt="Company Logo" style="width: 100px; height: auto; flex-shrink: 0;">
 							<div>
 								${headerConfig ? headerLines : (headerLines || 
-									`<span class="bold" style="font-size: 14px;">CENTRE FOR SPORTS AND SCIENCE</span><br>
-									Blr: No.503, 5th Floor Donata Marvel Apartment,<br>
-									Gokula Extension, Mattikere, Bangalore-560054<br>
-									<strong>GSTIN/UIN:</strong> 07ADZFS3168H1ZC<br>
+									`<span class="bold" style="font-size: 14px;">${escapeHtml(entity.legalName.toUpperCase())}</span><br>
+									${escapeHtml(entity.address)}<br>
 									Contact: +91-9731128398 / 9916509206<br>
-									E-Mail: sportsixs2019@gmail.com`)}
+									E-Mail: sportsixs2019@gmail.com`)}<br>
+								<strong>GSTIN/UIN:</strong> ${escapeHtml(entity.gstin)}<br>
+								<strong>State Name:</strong> ${escapeHtml(getGstStateName(entity.stateCode))}, Code: ${escapeHtml(entity.stateCode)}
 							</div>
 						</div>
 					</td>
@@ -410,7 +465,8 @@ async function generateInvoiceHtml(
 						<strong>Billed to</strong><br>
 						${buyerName}<br>
 						${buyerAddress}<br>
-						${buyerCity}
+						${buyerCity}<br>
+						<strong>Place of Supply:</strong> ${escapeHtml(getGstStateName(gst.placeOfSupply))} (${escapeHtml(gst.placeOfSupply)})
 					</td>
 				</tr>
 			</table>
@@ -443,24 +499,22 @@ async function generateInvoiceHtml(
 						<td style="border-bottom: 1px solid #000;">
 							<br><br>
 							<div class="text-right" style="padding-right: 10px;">
-								CGST @ ${cgstRate}%<br>
-								SGST @ ${sgstRate}%
+								${taxLabels}
 							</div>
 						</td>
 						<td style="border-bottom: 1px solid #000;"></td>
 						<td style="border-bottom: 1px solid #000;"></td>
 						<td style="border-bottom: 1px solid #000;">
 							<br><br><br>
-							<div class="text-center">${cgstRate}%<br>${sgstRate}%</div>
+							<div class="text-center">${taxRates}</div>
 						</td>
 						<td style="border-bottom: 1px solid #000;">
 							<br><br><br>
-							<div class="text-center">%<br>%</div>
+							<div class="text-center">${gst.interState ? '%' : '%<br>%'}</div>
 						</td>
 						<td style="border-bottom: 1px solid #000;" class="text-right">
 							<br><br>
-							${cgstAmount.toFixed(2)}<br>
-							${sgstAmount.toFixed(2)}
+							${taxAmounts}
 						</td>
 					</tr>
 					
@@ -480,33 +534,23 @@ async function generateInvoiceHtml(
 				<tr>
 					<td rowspan="2">HSN/SAC</td>
 					<td rowspan="2">Taxable Value</td>
-					<td colspan="2">CGST</td>
-					<td colspan="2">SGST</td>
+					${gst.interState ? '<td colspan="2">IGST</td>' : '<td colspan="2">CGST</td><td colspan="2">SGST</td>'}
 					<td rowspan="2">Total Tax Amount</td>
 				</tr>
 				<tr>
-					<td>Rate</td>
-					<td>Amount</td>
-					<td>Rate</td>
-					<td>Amount</td>
+					${gst.interState ? '<td>Rate</td><td>Amount</td>' : '<td>Rate</td><td>Amount</td><td>Rate</td><td>Amount</td>'}
 				</tr>
 				<tr>
 					<td>${escapeHtml(hsnSac)}</td>
 					<td>${taxableValue.toFixed(2)}</td>
-					<td>${cgstRate}%</td>
-					<td>${cgstAmount.toFixed(2)}</td>
-					<td>${sgstRate}%</td>
-					<td>${sgstAmount.toFixed(2)}</td>
-					<td>${(cgstAmount + sgstAmount).toFixed(2)}</td>
+					${taxSummaryCells}
+					<td>${gst.totalTax.toFixed(2)}</td>
 				</tr>
 				<tr class="bold">
 					<td class="text-right">Total</td>
 					<td>${taxableValue.toFixed(2)}</td>
-					<td></td>
-					<td>${cgstAmount.toFixed(2)}</td>
-					<td></td>
-					<td>${sgstAmount.toFixed(2)}</td>
-					<td>${(cgstAmount + sgstAmount).toFixed(2)}</td>
+					${taxSummaryTotalCells}
+					<td>${gst.totalTax.toFixed(2)}</td>
 				</tr>
 			</table>
 
@@ -528,7 +572,7 @@ async function generateInvoiceHtml(
 						Branch & IFS Code: CNRB0000444`}<br><br>
 						
 						<div class="text-right" style="margin-top: 20px;">
-							for <strong>CENTRE FOR SPORTS AND SCIENCE</strong><br><br><br>
+							for <strong>${escapeHtml(entity.legalName.toUpperCase())}</strong><br><br><br>
 							Authorised Signatory
 						</div>
 					</td>
@@ -573,8 +617,15 @@ async function getReceiptLogoAsDataUrl(): Promise<string> {
 /* --------------------------------------------------------
 	GENERATE RECEIPT HTML (MATCHING RECEIPT IMAGE FORMAT)
 ---------------------------------------------------------- */
-async function generateReceiptHtml(bill: BillingRecord, receiptNo: string) {
+async function generateReceiptHtml(bill: BillingRecord, receiptNo: string, options: { gst: BillGstSnapshot; entity: GstEntity }) {
+	const { gst, entity } = options;
 	const amount = Number(bill.amount || 0).toFixed(2);
+	// Only shown when the amount received is the tax-inclusive invoice total
+	const includedTax = gst.totalTax > 0 && gst.total === Number(bill.amount || 0)
+		? gst.interState
+			? `IGST Rs. ${gst.igstAmount.toFixed(2)}`
+			: `CGST Rs. ${gst.cgstAmount.toFixed(2)} + SGST Rs. ${gst.sgstAmount.toFixed(2)}`
+		: '';
 	const words = numberToWords(Number(bill.amount || 0));
 	const showDate = bill.date || new Date().toLocaleDateString('en-IN');
 	
@@ -731,6 +782,7 @@ async function generateReceiptHtml(bill: BillingRecord, receiptNo: string) {
 							<h2>Centre For Sports Science</h2>
 							<p>Sports & Business Solutions Pvt. Ltd.</p>
 							<p>Sri Kanteerava Outdoor Stadium · Bangalore · +91 97311 28396</p>
+							<p>GSTIN: ${escapeHtml(entity.gstin)}</p>
 						</div>
 					</div>
 					<div class="header-right">
@@ -759,6 +811,7 @@ async function generateReceiptHtml(bill: BillingRecord, receiptNo: string) {
 					${escapeHtml(bill.appointmentId || '')}<br>
 					${bill.doctor ? `Doctor: ${escapeHtml(bill.doctor)}<br>` : ''}
 					Payment Mode: ${escapeHtml(paymentModeDisplay)}
+					${includedTax ? `<br>Includes ${includedTax}` : ''}
 					<div class="digitally-signed">Digitally Signed</div>
 				</div>
 				<div class="footer">
@@ -773,6 +826,7 @@ async function generateReceiptHtml(bill: BillingRecord, receiptNo: string) {
 
 export default function Billing() {
 	const { user } = useAuth();
+	const { settings: gstSettings } = useGstSettings();
 	const [appointments, setAppointments] = useState<(AdminAppointmentRecord & { id: string; amount?: number; isExtraTreatment?: boolean })[]>([]);
 	const [patients, setPatients] = useState<(AdminPatientRecord & { id?: string; patientType?: string; department?: string; sessionAllowance?: SessionAllowance; packageAmount?: number; totalSessionsRequired?: number })[]>([]);
 	const [staff, setStaff] = useState<StaffMember[]>([]);
@@ -793,9 +847,8 @@ export default function Billing() {
 		description: string;
 		paymentMode: string;
 		referenceNo: string;
-		hsnSac: string;
-		cgstRate: number;
-		sgstRate: number;
+		serviceTypeId?: string;
+		placeOfSupply: string; // GST state code
 		companyBankDetails?: string;
 	} | null>(null);
 	const [previewHtml, setPreviewHtml] = useState('');
@@ -813,10 +866,10 @@ export default function Billing() {
 	const [billing, setBilling] = useState<BillingRecord[]>([]);
 	const [selectedBill, setSelectedBill] = useState<BillingRecord | null>(null);
 	const [showPayModal, setShowPayModal] = useState(false);
+	const [creditNoteBill, setCreditNoteBill] = useState<BillingRecord | null>(null);
 	const [showPaymentSlipModal, setShowPaymentSlipModal] = useState(false);
 	const [receiptHtml, setReceiptHtml] = useState('');
-	const [paymentMode, setPaymentMode] = useState<'Cash' | 'UPI/Card'>('Cash');
-	const [utr, setUtr] = useState('');
+	const [paymentLines, setPaymentLines] = useState<PaymentLineDraft[]>([]);
 	const [selectedInstallmentNumber, setSelectedInstallmentNumber] = useState<number | null>(null);
 	const [filterRange, setFilterRange] = useState<string>('30');
 	const [pendingSearchQuery, setPendingSearchQuery] = useState<string>('');
@@ -980,6 +1033,8 @@ export default function Billing() {
 						status: (data.status as 'active' | 'closed' | 'pending') || 'pending',
 						createdAt: created ? created.toISOString() : new Date().toISOString(),
 						closedAt: closed ? closed.toISOString() : undefined,
+						closedBy: data.closedBy ? String(data.closedBy) : undefined,
+						reconciliation: parseCycleReconciliation(data.reconciliation),
 					} as BillingCycle;
 				});
 				setBillingCycles([...mapped]);
@@ -1056,17 +1111,23 @@ export default function Billing() {
 									? Number(data.packageSessions)
 									: undefined,
 						date: data.date ? String(data.date) : '',
-						status: (data.status as 'Pending' | 'Completed') || 'Pending',
+						status: (data.status as BillingRecord['status']) || 'Pending',
 						paymentMode: data.paymentMode ? String(data.paymentMode) : undefined,
 						utr: data.utr ? String(data.utr) : undefined,
 						createdAt: created ? created.toISOString() : undefined,
 						updatedAt: updated ? updated.toISOString() : undefined,
 						invoiceNo: data.invoiceNo ? String(data.invoiceNo) : undefined,
+						invoiceSequence: typeof data.invoiceSequence === 'number' ? data.invoiceSequence : undefined,
 						invoiceGeneratedAt: data.invoiceGeneratedAt ? String(data.invoiceGeneratedAt) : undefined,
+						gst: parseBillGstSnapshot(data.gst),
+						creditedAmount: typeof data.creditedAmount === 'number' ? data.creditedAmount : undefined,
+						refundedAmount: typeof data.refundedAmount === 'number' ? data.refundedAmount : undefined,
+						voidReason: data.voidReason ? String(data.voidReason) : undefined,
 						createdByFrontdesk: data.createdByFrontdesk ? String(data.createdByFrontdesk) : undefined,
 						createdByFrontdeskName: data.createdByFrontdeskName ? String(data.createdByFrontdeskName) : undefined,
 						paymentRegisteredByFrontdesk: data.paymentRegisteredByFrontdesk ? String(data.paymentRegisteredByFrontdesk) : undefined,
 						paymentRegisteredByFrontdeskName: data.paymentRegisteredByFrontdeskName ? String(data.paymentRegisteredByFrontdeskName) : undefined,
+						lockedCycleId: data.lockedCycleId ? String(data.lockedCycleId) : undefined,
 					} as BillingRecord;
 				});
 				setBilling([...mapped]);
@@ -1100,6 +1161,7 @@ export default function Billing() {
 					return;
 				}
 
+				const policySettings = await fetchBillingPolicySettings();
 				for (const appt of completedAppointments) {
 					if (!appt.appointmentId || !appt.patientId) continue;
 
@@ -1141,136 +1203,77 @@ export default function Billing() {
 					// Check if this is an extra treatment (extra treatments should still be billed individually)
 					const isExtraTreatment = appt.isExtraTreatment === true;
 
-					// Apply billing rules based on patient type
-					let shouldCreateBill = false;
-					let billAmount = standardAmount;
-
 					// Skip billing for package patients unless it's an extra treatment
 					// Also skip if a package billing record already exists (even if patient data doesn't show package)
-					if ((hasPackage || hasPackageBillingRecord) && !isExtraTreatment) {
-						shouldCreateBill = false;
-						continue; // Skip to next appointment
-					} else if (patientType === 'VIP') {
-						// VIP: Create bill for every completed session as normal (only if no package)
-						// VIP patients have no amount (set to 0)
-						shouldCreateBill = true;
-						billAmount = 0;
-					} else if (patientType === 'Paid') {
-						// Paid: Check paymentType
-						shouldCreateBill = true;
-						if (paymentType === 'with') {
-							// Apply concession discount (assuming 20% discount, adjust as needed)
-							billAmount = standardAmount * 0.8;
-						} else {
-							// Without concession: standard amount
-							billAmount = standardAmount;
-						}
-					} else if (patientType === 'Dyes' || patientType === 'DYES') {
-						// DYES: Automated billing - Rs. 500 per session, status 'Completed' (Paid)
-						// DYES patients don't use packages, so always create billing
-						shouldCreateBill = true;
-						billAmount = 500; // Fixed rate for DYES patients
-					} else if (patientType === 'Gethhma') {
-						// Gethhma: Treat as "Paid" without concession
-						shouldCreateBill = true;
-						billAmount = standardAmount;
-					} else {
-						// Unknown patient type: default behavior (create bill only if no package)
-						shouldCreateBill = true;
-						billAmount = standardAmount;
-					}
-
-					// Create billing record if rules allow
-					if (shouldCreateBill) {
-						// Check if billing record already exists
-						const existingQuery = query(collection(db, 'billing'), where('appointmentId', '==', appt.appointmentId));
-						const existingSnapshot = await getDocs(existingQuery);
-						
-						// Determine status based on patient type and billing rules
-						let billStatus: 'Pending' | 'Completed' | 'Auto-Paid' = 'Pending';
-						if (patientType === 'Dyes' || patientType === 'DYES') {
-							// DYES patients: Auto-Paid and marked as 'Completed' (bypasses Pending Payments)
-							billStatus = 'Completed';
-						} else if (patientType === 'VIP') {
-							// VIP patients: Auto-Paid and marked as 'Completed' when session is completed
-							billStatus = 'Completed';
-						} else if (billAmount > 0) {
-							billStatus = 'Pending';
-						}
-
-						if (!existingSnapshot.empty) {
-							// Billing record exists - update it if it's a DYES or VIP patient to ensure correct status and amount
-							const existingBill = existingSnapshot.docs[0];
-							const existingBillData = existingBill.data();
-							
-							if (patientType === 'Dyes' || patientType === 'DYES') {
-								// For DYES patients, update existing bills to ensure status is 'Completed' and amount is 500
-								if (existingBillData.status !== 'Completed' || existingBillData.amount !== 500) {
-									await updateDoc(doc(db, 'billing', existingBill.id), {
-										amount: 500,
-										status: 'Completed',
-										paymentMode: 'Auto-Paid',
-										updatedAt: serverTimestamp(),
-									});
-									
-									// Also update appointment with billing info
-									await updateDoc(doc(db, 'appointments', appt.id), {
-										billing: {
-											amount: '500.00',
-											date: defaultBillingDate,
-										},
-									});
-								}
-							} else if (patientType === 'VIP') {
-								// For VIP patients, update existing bills to ensure status is 'Completed' and amount is 0
-								if (existingBillData.status !== 'Completed' || existingBillData.amount !== 0) {
-									await updateDoc(doc(db, 'billing', existingBill.id), {
-										amount: 0,
-										status: 'Completed',
-										paymentMode: 'Auto-Paid',
-										updatedAt: serverTimestamp(),
-									});
-									
-									// Also update appointment with billing info
-									await updateDoc(doc(db, 'appointments', appt.id), {
-										billing: {
-											amount: '0.00',
-											date: defaultBillingDate,
-										},
-									});
-								}
-							}
-							continue;
-						}
+					if ((hasPackage || hasPackageBillingRecord) && !isExtraTreatment) continue;
 
-						const billingId = 'BILL-' + (appt.appointmentId || Date.now().toString());
-						
-						// Create billing record in billing collection
-						await addDoc(collection(db, 'billing'), {
-							billingId,
+					const policy = resolveBillingPolicy(policySettings, patientType);
+					if (billsOnCompletion(policy)) {
+						// Free, auto-paid and sponsored sessions are billed when completed; this catches any that were missed
+						await billCompletedSession({
+							patientType,
 							appointmentId: appt.appointmentId,
-							patient: appt.patient || '',
-							patientId: appt.patientId || '',
-							doctor: appt.doctor || '',
-							amount: billAmount,
-							date: appt.date || defaultBillingDate,
-							status: billStatus,
-							paymentMode: billStatus === 'Completed' && (patientType === 'Dyes' || patientType === 'DYES' || patientType === 'VIP') ? 'Auto-Paid' : null,
-							utr: null,
-							createdByFrontdesk: currentUser?.uid || null,
-							createdByFrontdeskName: currentUser?.displayName || currentUser?.email || null,
-							createdAt: serverTimestamp(),
-							updatedAt: serverTimestamp(),
+							appointmentDocId: appt.id,
+							patientId: appt.patientId,
+							patientName: appt.patient || '',
+							doctorName: appt.doctor || '',
+							appointmentDate: appt.date || defaultBillingDate,
+							standardAmount,
+							paymentType,
+							createdByUserId: currentUser?.uid || null,
+							createdByUserName: currentUser?.displayName || currentUser?.email || null,
+							isExtraTreatment,
+							settings: policySettings,
 						});
+						continue;
+					}
 
-						// Also update appointment with billing info
-						await updateDoc(doc(db, 'appointments', appt.id), {
-							billing: {
-								amount: billAmount.toFixed(2),
-								date: defaultBillingDate,
-							},
-						});
+					// Check if billing record already exists
+					const existingQuery = query(collection(db, 'billing'), where('appointmentId', '==', appt.appointmentId));
+					const existingSnapshot = await getDocs(existingQuery);
+					if (!existingSnapshot.empty) continue;
+
+					const charge = priceCompletedSession(policy, { standardAmount, paymentType, isExtraTreatment });
+					const billingId = 'BILL-' + (appt.appointmentId || Date.now().toString());
+
+					// Create billing record in billing collection
+					const sessionBillRef = await addDoc(collection(db, 'billing'), {
+						billingId,
+						appointmentId: appt.appointmentId,
+						patient: appt.patient || '',
+						patientId: appt.patientId || '',
+						doctor: appt.doctor || '',
+						amount: charge.amount,
+						date: appt.date || defaultBillingDate,
+						status: charge.status,
+						paymentMode: charge.paymentMode,
+						utr: null,
+						billingPolicy: policy.key,
+						createdByFrontdesk: currentUser?.uid || null,
+						createdByFrontdeskName: currentUser?.displayName || currentUser?.email || null,
+						createdAt: serverTimestamp(),
+						updatedAt: serverTimestamp(),
+					});
+
+					// Completed sessions are paid from any advance deposit in the patient's wallet
+					if (charge.amount > 0) {
+						try {
+							await debitWalletForBill(sessionBillRef.id, {
+								createdBy: currentUser?.uid,
+								createdByName: currentUser?.displayName || currentUser?.email || null,
+							});
+						} catch (walletError) {
+							console.error('Failed to charge session to wallet', walletError);
+						}
 					}
+
+					// Also update appointment with billing info
+					await updateDoc(doc(db, 'appointments', appt.id), {
+						billing: {
+							amount: charge.amount.toFixed(2),
+							date: defaultBillingDate,
+						},
+					});
 				}
 			} catch (error) {
 				console.error('Failed to sync appointments to billing', error);
@@ -1333,10 +1336,10 @@ export default function Billing() {
 					: undefined;
 				const patientName =
 					entry.appointment.patient || (patient ? patient.name : undefined) || entry.appointment.patientId || 'N/A';
-				const amount = Number(entry.appointment.billing?.amount ?? 0);
 				const billingRecord = entry.appointment.appointmentId
 					? billingLookup.get(entry.appointment.appointmentId)
 					: undefined;
+				const amount = netOfReversals(Number(entry.appointment.billing?.amount ?? 0), billingRecord);
 				return { ...entry, patientName, amount, patientRecord: patient, billingRecord };
 			});
 	}, [appointments, doctorFilter, departmentFilter, completedWindow, patientLookup, billingLookup]);
@@ -1360,7 +1363,7 @@ export default function Billing() {
 		const bill = billing.find(b => b.appointmentId === details.appointmentId || b.patientId === details.appointmentId);
 		if (bill) {
 			const patient = patients.find(p => p.patientId === bill.patientId);
-			const invoiceNo = bill.invoiceNo || bill.billingId || `INV-${bill.id?.slice(0, 8) || 'NA'}`;
+			const invoiceNo = hasIssuedInvoiceNumber(bill) && bill.invoiceNo ? bill.invoiceNo : PENDING_INVOICE_NUMBER;
 			const invoiceDate = bill.date || new Date().toISOString().split('T')[0];
 			
 			setEditableInvoice({
@@ -1373,9 +1376,8 @@ export default function Billing() {
 				description: 'Physiotherapy / Strength & Conditioning Sessions',
 				paymentMode: bill.paymentMode || 'Cash',
 				referenceNo: bill.appointmentId || '',
-				hsnSac: '9993',
-				cgstRate: 5, // Default 5% CGST
-				sgstRate: 5, // Default 5% SGST
+				serviceTypeId: appointments.find(appointment => appointment.appointmentId === bill.appointmentId)?.serviceType,
+				placeOfSupply: bill.gst?.placeOfSupply || getGstEntity(gstSettings, gstSettings.clinicEntityId).stateCode,
 				companyBankDetails: details.companyBankDetails || 'A/c Holder\'s Name: Six Sports & Business Solutions INC\nBank Name: Canara Bank\nA/c No.: 0284201007444\nBranch & IFS Code: CNRB0000444',
 			});
 			setSelectedBill(bill);
@@ -1407,28 +1409,34 @@ export default function Billing() {
 				paymentMode: editableInvoice.paymentMode,
 				appointmentId: editableInvoice.referenceNo || selectedBill.appointmentId,
 			};
+			const gst = resolveBillGst(gstSettings, selectedBill, editableInvoice);
 
 			const html = await generateInvoiceHtml(modifiedBill, editableInvoice.invoiceNo, {
 				patientName: editableInvoice.patientName,
 				patientAddress: editableInvoice.patientAddress,
 				patientCity: editableInvoice.patientCity,
 				description: editableInvoice.description,
-				hsnSac: editableInvoice.hsnSac,
-				cgstRate: editableInvoice.cgstRate,
-				sgstRate: editableInvoice.sgstRate,
 				companyBankDetails: editableInvoice.companyBankDetails,
+				gst,
+				entity: getGstEntity(gstSettings, gst.entityId),
 			});
 
 			setPreviewHtml(html);
 		};
 
 		generatePreview();
-	}, [editableInvoice, selectedBill]);
+	}, [editableInvoice, selectedBill, gstSettings]);
 
 	const handleGenerateInvoiceFromPreview = async () => {
 		if (!editableInvoice || !selectedBill) return;
 
 		try {
+			if (!selectedBill.id) {
+				alert('This bill has not been saved yet, so it cannot be issued an invoice number.');
+				return;
+			}
+			const { invoiceNo } = await requestInvoiceNumber({ billingDocId: selectedBill.id });
+
 			const modifiedBill: BillingRecord = {
 				...selectedBill,
 				patient: editableInvoice.patientName,
@@ -1437,16 +1445,16 @@ export default function Billing() {
 				paymentMode: editableInvoice.paymentMode,
 				appointmentId: editableInvoice.referenceNo || selectedBill.appointmentId,
 			};
+			const gst = resolveBillGst(gstSettings, selectedBill, editableInvoice);
 
-			const html = await generateInvoiceHtml(modifiedBill, editableInvoice.invoiceNo, {
+			const html = await generateInvoiceHtml(modifiedBill, invoiceNo, {
 				patientName: editableInvoice.patientName,
 				patientAddress: editableInvoice.patientAddress,
 				patientCity: editableInvoice.patientCity,
 				description: editableInvoice.description,
-				hsnSac: editableInvoice.hsnSac,
-				cgstRate: editableInvoice.cgstRate,
-				sgstRate: editableInvoice.sgstRate,
 				companyBankDetails: editableInvoice.companyBankDetails,
+				gst,
+				entity: getGstEntity(gstSettings, gst.entityId),
 			});
 
 			const printWindow = window.open('', '_blank');
@@ -1460,19 +1468,17 @@ export default function Billing() {
 			printWindow.focus();
 			printWindow.print();
 
-			// Update Firestore with invoice details
-			if (selectedBill.id) {
-				await updateDoc(doc(db, 'billing', selectedBill.id), {
-					invoiceNo: editableInvoice.invoiceNo,
-					invoiceGeneratedAt: new Date().toISOString(),
-				});
-			}
+			// The invoice number was stored on the bill when it was issued
+			await updateDoc(doc(db, 'billing', selectedBill.id), {
+				invoiceGeneratedAt: new Date().toISOString(),
+				gst,
+			});
 
 			// Close preview
 			closeInvoice();
 		} catch (error) {
 			console.error('Invoice generation error:', error);
-			alert('Failed to generate invoice. Please try again.');
+			alert(`Failed to generate invoice: ${error instanceof Error ? error.message : 'Unknown error'}`);
 		}
 	};
 
@@ -1484,27 +1490,26 @@ export default function Billing() {
 		}
 		setSelectedBill(bill);
 		setShowPayModal(true);
-		setPaymentMode('Cash');
-		setUtr('');
+		setPaymentLines([{ mode: 'Cash', amount: getInstallmentCharge(bill, info.nextInstallment).toFixed(2), reference: '' }]);
 		setSelectedInstallmentNumber(info.nextInstallment);
 	};
 
 	const handleClosePayModal = () => {
 		setShowPayModal(false);
 		setSelectedBill(null);
-		setPaymentMode('Cash');
-		setUtr('');
+		setPaymentLines([]);
 		setSelectedInstallmentNumber(null);
 	};
 
 	const handleSubmitPayment = async () => {
 		if (!selectedBill) return;
-		if (paymentMode === 'UPI/Card' && !utr.trim()) {
-			alert('Please enter UTR/Transaction ID for UPI/Card payment.');
+		const parsed = parsePaymentLineDrafts(paymentLines);
+		if ('error' in parsed) {
+			alert(parsed.error);
 			return;
 		}
 
-		const { total, paid, amountPerInstallment } = getInstallmentInfo(selectedBill);
+		const { total, paid } = getInstallmentInfo(selectedBill);
 		const targetInstallment = selectedInstallmentNumber ?? (paid < total ? paid + 1 : total);
 		const normalizedTarget = Math.min(Math.max(targetInstallment, paid + 1), total);
 		const installmentsToMark = Math.max(0, normalizedTarget - paid);
@@ -1514,21 +1519,26 @@ export default function Billing() {
 			return;
 		}
 
-		const paymentAmount = Number((installmentsToMark * amountPerInstallment).toFixed(2));
+		const paymentAmount = getInstallmentCharge(selectedBill, normalizedTarget);
+		const received = parsed.lines.reduce((sum, line) => sum + line.amount, 0);
+		if (Math.abs(received - paymentAmount) >= 0.01) {
+			alert(`The payments entered add up to Rs. ${received.toFixed(2)}, but this installment is Rs. ${paymentAmount.toFixed(2)}.`);
+			return;
+		}
 		const newPaid = paid + installmentsToMark;
-		const newAmountPaid = Number(((selectedBill.amountPaid ?? 0) + paymentAmount).toFixed(2));
-		const newStatus: 'Pending' | 'Completed' = newPaid >= total ? 'Completed' : 'Pending';
 
 		try {
+			const { status: newStatus, amountPaid: newAmountPaid, paymentMode, utr } = await recordBillPayment({
+				billingDocId: selectedBill.id!,
+				lines: parsed.lines,
+				paidOn: new Date().toISOString().split('T')[0],
+				collectedBy: user?.uid,
+				collectedByName: user?.displayName || user?.email || null,
+				billUpdates: { installmentsPaid: newPaid },
+			});
 			await updateDoc(doc(db, 'billing', selectedBill.id!), {
-				status: newStatus,
-				paymentMode,
-				utr: paymentMode === 'UPI/Card' ? utr.trim() : null,
-				installmentsPaid: newPaid,
-				amountPaid: newAmountPaid,
 				paymentRegisteredByFrontdesk: user?.uid || null,
 				paymentRegisteredByFrontdeskName: user?.displayName || user?.email || null,
-				updatedAt: serverTimestamp(),
 			});
 
 			// Also update appointment billing status if linked
@@ -1539,7 +1549,7 @@ export default function Billing() {
 					await updateDoc(doc(db, 'appointments', appointmentSnapshot.docs[0].id), {
 						'billing.status': newStatus,
 						'billing.paymentMode': paymentMode,
-						'billing.utr': paymentMode === 'UPI/Card' ? utr.trim() : null,
+						'billing.utr': utr,
 					});
 				}
 			}
@@ -1597,6 +1607,18 @@ export default function Billing() {
 			alert('Cannot delete: Billing record ID is missing.');
 			return;
 		}
+		if (hasIssuedInvoiceNumber(bill)) {
+			alert(`Cannot delete: invoice ${bill.invoiceNo} has been issued for this bill, so it must stay on record. Void it instead.`);
+			return;
+		}
+		if (getCreditedAmount(bill) > 0) {
+			alert('Cannot delete: credit notes have been issued against this bill, so it must stay on record. Void it instead.');
+			return;
+		}
+		if (isBillLocked(bill)) {
+			alert(`Cannot delete: ${getBillLockMessage(bill)}`);
+			return;
+		}
 
 		const confirmMessage = `Are you sure you want to delete the billing record for ${bill.patient} (${bill.billingId})?\n\nThis action cannot be undone and will remove the record from the monthly cycle.`;
 		
@@ -1810,20 +1832,22 @@ export default function Billing() {
 	useEffect(() => {
 		if (selectedBill && showPaymentSlipModal) {
 			const receiptNo = selectedBill.billingId || `BILL-${selectedBill.id?.slice(0, 8) || 'NA'}`;
-			generateReceiptHtml(selectedBill, receiptNo).then(setReceiptHtml).catch(error => {
+			const gst = resolveBillGst(gstSettings, selectedBill);
+			generateReceiptHtml(selectedBill, receiptNo, { gst, entity: getGstEntity(gstSettings, gst.entityId) }).then(setReceiptHtml).catch(error => {
 				console.error('Error generating receipt HTML:', error);
 				setReceiptHtml('');
 			});
 		} else {
 			setReceiptHtml('');
 		}
-	}, [selectedBill, showPaymentSlipModal]);
+	}, [selectedBill, showPaymentSlipModal, gstSettings]);
 
 	const handlePrintPaymentSlip = async () => {
 		if (!selectedBill) return;
 		
 		const receiptNo = selectedBill.billingId || `BILL-${selectedBill.id?.slice(0, 8) || 'NA'}`;
-		const html = await generateReceiptHtml(selectedBill, receiptNo);
+		const gst = resolveBillGst(gstSettings, selectedBill);
+		const html = await generateReceiptHtml(selectedBill, receiptNo, { gst, entity: getGstEntity(gstSettings, gst.entityId) });
 		const printWindow = window.open('', '_blank');
 		if (!printWindow) return;
 		
@@ -1859,7 +1883,7 @@ export default function Billing() {
 	const handleGenerateInvoice = (bill: BillingRecord) => {
 		// Open editable invoice modal instead of directly printing
 		const patient = patients.find(p => p.patientId === bill.patientId);
-		const invoiceNo = bill.invoiceNo || bill.billingId || `INV-${bill.id?.slice(0, 8) || 'NA'}`;
+		const invoiceNo = hasIssuedInvoiceNumber(bill) && bill.invoiceNo ? bill.invoiceNo : PENDING_INVOICE_NUMBER;
 		const invoiceDate = bill.date || new Date().toISOString().split('T')[0];
 		
 		setEditableInvoice({
@@ -1872,9 +1896,8 @@ export default function Billing() {
 			description: 'Physiotherapy / Strength & Conditioning Sessions',
 			paymentMode: bill.paymentMode || 'Cash',
 			referenceNo: bill.appointmentId || '',
-			hsnSac: '9993',
-			cgstRate: 5, // Default 5% CGST
-			sgstRate: 5, // Default 5% SGST
+			serviceTypeId: appointments.find(appointment => appointment.appointmentId === bill.appointmentId)?.serviceType,
+			placeOfSupply: bill.gst?.placeOfSupply || getGstEntity(gstSettings, gstSettings.clinicEntityId).stateCode,
 			companyBankDetails: 'A/c Holder\'s Name: Six Sports & Business Solutions INC\nBank Name: Canara Bank\nA/c No.: 0284201007444\nBranch & IFS Code: CNRB0000444',
 		});
 		setSelectedBill(bill);
@@ -1941,22 +1964,23 @@ export default function Billing() {
 	};
 
 	const handleMonthlyReset = async () => {
-		if (!confirm('Are you sure you want to close the current billing cycle and start a new one? This action cannot be undone.')) {
+		if (!confirm('Are you sure you want to close the current billing cycle and start a new one? Bills dated in this cycle will be locked against edits and deletion. This action cannot be undone.')) {
 			return;
 		}
 
 		setResettingCycle(true);
 		try {
-			// Close current cycle
-			const currentCycleId = getBillingCycleId(currentCycle.month, currentCycle.year);
+			// Close current cycle, locking its bills and saving the reconciliation
 			const existingCycle = billingCycles.find(c => 
 				c.month === currentCycle.month && c.year === currentCycle.year
 			);
 
-			if (existingCycle && existingCycle.status === 'active') {
-				await updateDoc(doc(db, 'billingCycles', existingCycle.id), {
-					status: 'closed',
-					closedAt: serverTimestamp(),
+			let reconciliation = existingCycle?.reconciliation;
+			if (existingCycle?.status !== 'closed') {
+				reconciliation = await closeBillingCycle({
+					docId: existingCycle?.id,
+					...currentCycle,
+					closedBy: user?.email || user?.displayName || null,
 				});
 			}
 
@@ -1986,7 +2010,11 @@ export default function Billing() {
 			}
 
 			setCurrentCycle(nextCycle);
-			alert('Billing cycle reset successfully!');
+			alert(
+				reconciliation
+					? `Billing cycle closed.\n\nBilled: ${rupee(reconciliation.billed)}\nCollected: ${rupee(reconciliation.collected)}\nOutstanding: ${rupee(reconciliation.outstanding)}\n\nThe full reconciliation is under Cycle Reports.`
+					: 'Billing cycle reset successfully!'
+			);
 		} catch (error) {
 			console.error('Failed to reset billing cycle', error);
 			alert('Failed to reset billing cycle. Please try again.');
@@ -2036,6 +2064,16 @@ export default function Billing() {
 		if (selectedCycleId === 'current') return currentCycle;
 		return billingCycles.find(c => c.id === selectedCycleId) || currentCycle;
 	}, [selectedCycleId, billingCycles, currentCycle]);
+	const selectedReconciliation = billingCycles.find(c => c.id === selectedCycleId)?.reconciliation;
+
+	const handleExportReconciliation = () => {
+		if (!selectedReconciliation) return;
+		const label = `${getMonthName(selectedCycle.month)} ${selectedCycle.year}`;
+		const ws = XLSX.utils.aoa_to_sheet(getReconciliationRows(label, selectedReconciliation));
+		const wb = XLSX.utils.book_new();
+		XLSX.utils.book_append_sheet(wb, ws, 'Reconciliation');
+		XLSX.writeFile(wb, `reconciliation-${getBillingCycleId(selectedCycle.month, selectedCycle.year)}.xlsx`);
+	};
 
 	const cycleSummary = useMemo(() => {
 		const cycle = selectedCycle;
@@ -2055,7 +2093,7 @@ export default function Billing() {
 		// Use billing collection for cycle summary
 		for (const bill of billing) {
 			const billDate = bill.date;
-			const billAmount = Number(bill.amount ?? 0);
+			const billAmount = getNetBillAmount(bill);
 			if (billDate && isWithinCycle(billDate, cycle)) {
 				if (bill.status === 'Pending') {
 					pendingCount += 1;
@@ -2170,6 +2208,8 @@ export default function Billing() {
 		);
 	}, [completed, completedSearchQuery]);
 
+	const invoiceGst = editableInvoice && selectedBill ? resolveBillGst(gstSettings, selectedBill, editableInvoice) : null;
+
 	return (
 		<div className="min-h-svh bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-50 px-6 py-10">
 			<div className="mx-auto max-w-6xl space-y-10">
@@ -2179,6 +2219,18 @@ export default function Billing() {
 
 				<div className="border-t border-slate-200" />
 
+				<InvoiceNumberingSettings />
+
+				<GstSettings />
+
+				<PackageCatalogue />
+
+				<BillingPolicySettings />
+
+				<SponsorInvoices />
+
+				<CashSettlements />
+
 				{/* Billing Cycle Management */}
 				<section className="rounded-2xl bg-white p-6 shadow-[0_20px_50px_rgba(30,58,138,0.15)] border border-blue-100">
 					<div className="mb-4 flex items-center justify-between">
@@ -2312,6 +2364,78 @@ export default function Billing() {
 							</table>
 						</div>
 					)}
+					{selectedReconciliation && (
+						<div className="mt-6 rounded-xl border border-slate-200 p-4">
+							<div className="mb-3 flex items-center justify-between">
+								<div>
+									<p className="text-sm font-semibold text-slate-900">Reconciliation at close</p>
+									<p className="text-xs text-slate-500">
+										Bills in this cycle are locked. Generated {new Date(selectedReconciliation.generatedAt).toLocaleString()}
+									</p>
+								</div>
+								<button type="button" onClick={handleExportReconciliation} className="btn-secondary">
+									<i className="fas fa-file-excel mr-2" aria-hidden="true" />
+									Export Excel
+								</button>
+							</div>
+							<div className="grid gap-4 sm:grid-cols-2">
+								<dl className="space-y-1 text-sm text-slate-700">
+									<div className="flex justify-between">
+										<dt>Completed sessions</dt>
+										<dd>{selectedReconciliation.completedSessions}</dd>
+									</div>
+									<div className="flex justify-between text-slate-500">
+										<dt>Covered by packages</dt>
+										<dd>{selectedReconciliation.packageSessions}</dd>
+									</div>
+									<div className="flex justify-between text-slate-500">
+										<dt>Not billed</dt>
+										<dd>{selectedReconciliation.unbilledSessions}</dd>
+									</div>
+									<div className="flex justify-between font-semibold">
+										<dt>Expected revenue</dt>
+										<dd>{rupee(selectedReconciliation.expectedRevenue)}</dd>
+									</div>
+									<div className="flex justify-between font-semibold">
+										<dt>Billed ({selectedReconciliation.billCount} bills)</dt>
+										<dd>{rupee(selectedReconciliation.billed)}</dd>
+									</div>
+									<div className="flex justify-between text-slate-500">
+										<dt>Difference from expected</dt>
+										<dd>{rupee(selectedReconciliation.expectedRevenue - selectedReconciliation.billed)}</dd>
+									</div>
+								</dl>
+								<dl className="space-y-1 text-sm text-slate-700">
+									<div className="flex justify-between font-semibold">
+										<dt>Collected</dt>
+										<dd>{rupee(selectedReconciliation.collected)}</dd>
+									</div>
+									{Object.entries(selectedReconciliation.collectedByMode).map(([mode, amount]) => (
+										<div key={mode} className="flex justify-between pl-4 text-slate-500">
+											<dt>{mode}</dt>
+											<dd>{rupee(amount)}</dd>
+										</div>
+									))}
+									<div className="flex justify-between">
+										<dt>Credit notes</dt>
+										<dd>{rupee(selectedReconciliation.credited)}</dd>
+									</div>
+									<div className="flex justify-between">
+										<dt>Refunded</dt>
+										<dd>{rupee(selectedReconciliation.refunded)}</dd>
+									</div>
+									<div className="flex justify-between">
+										<dt>Written off</dt>
+										<dd>{rupee(selectedReconciliation.writtenOff)}</dd>
+									</div>
+									<div className="flex justify-between font-semibold text-amber-700">
+										<dt>Outstanding</dt>
+										<dd>{rupee(selectedReconciliation.outstanding)}</dd>
+									</div>
+								</dl>
+							</div>
+						</div>
+					)}
 				</section>
 
 				<section className="flex flex-wrap gap-4 rounded-2xl bg-white p-6 shadow-[0_20px_50px_rgba(30,58,138,0.15)] border border-navy-100">
@@ -2467,9 +2591,10 @@ export default function Billing() {
 										<input
 											type="text"
 											value={editableInvoice.invoiceNo}
-											onChange={e => setEditableInvoice({ ...editableInvoice, invoiceNo: e.target.value })}
-											className="w-full rounded-lg border border-slate-300 px-3 py-2 text-sm text-slate-800 transition focus:border-sky-500 focus:outline-none focus:ring-2 focus:ring-sky-200"
+											readOnly
+											className="w-full rounded-lg border border-slate-300 bg-slate-100 px-3 py-2 text-sm text-slate-600"
 										/>
+										<p className="mt-1 text-xs text-slate-500">Issued in sequence for the financial year and cannot be changed.</p>
 									</div>
 
 									<div>
@@ -2535,37 +2660,32 @@ export default function Billing() {
 
 									<div className="grid grid-cols-2 gap-4">
 										<div>
-											<label className="block text-sm font-medium text-slate-700 mb-1">HSN/SAC</label>
-											<input
-												type="text"
-												value={editableInvoice.hsnSac}
-												onChange={e => setEditableInvoice({ ...editableInvoice, hsnSac: e.target.value })}
-												className="w-full rounded-lg border border-slate-300 px-3 py-2 text-sm text-slate-800 transition focus:border-sky-500 focus:outline-none focus:ring-2 focus:ring-sky-200"
-											/>
-										</div>
-									</div>
-
-									<div className="grid grid-cols-2 gap-4">
-										<div>
-											<label className="block text-sm font-medium text-slate-700 mb-1">CGST Tax Rate (%)</label>
-											<input
-												type="number"
-												step="0.01"
-												value={editableInvoice.cgstRate}
-												onChange={e => setEditableInvoice({ ...editableInvoice, cgstRate: parseFloat(e.target.value) || 5 })}
+											<label className="block text-sm font-medium text-slate-700 mb-1">Place of Supply</label>
+											<select
+												value={editableInvoice.placeOfSupply}
+												onChange={e => setEditableInvoice({ ...editableInvoice, placeOfSupply: e.target.value })}
 												className="w-full rounded-lg border border-slate-300 px-3 py-2 text-sm text-slate-800 transition focus:border-sky-500 focus:outline-none focus:ring-2 focus:ring-sky-200"
-											/>
-										</div>
-										<div>
-											<label className="block text-sm font-medium text-slate-700 mb-1">SGST Tax Rate (%)</label>
-											<input
-												type="number"
-												step="0.01"
-												value={editableInvoice.sgstRate}
-												onChange={e => setEditableInvoice({ ...editableInvoice, sgstRate: parseFloat(e.target.value) || 5 })}
-												className="w-full rounded-lg border border-slate-300 px-3 py-2 text-sm text-slate-800 transition focus:border-sky-500 focus:outline-none focus:ring-2 focus:ring-sky-200"
-											/>
+											>
+												{Object.entries(GST_STATES).map(([code, name]) => (
+													<option key={code} value={code}>
+														{name} ({code})
+													</option>
+												))}
+											</select>
 										</div>
+										{invoiceGst && (
+											<div>
+												<label className="block text-sm font-medium text-slate-700 mb-1">GST (SAC {invoiceGst.sacCode})</label>
+												<p className="rounded-lg border border-slate-200 bg-slate-100 px-3 py-2 text-sm text-slate-600">
+													{invoiceGst.interState
+														? `IGST ${invoiceGst.igstRate}%: Rs. ${invoiceGst.igstAmount.toFixed(2)}`
+														: `CGST ${invoiceGst.cgstRate}% + SGST ${invoiceGst.sgstRate}%: Rs. ${invoiceGst.totalTax.toFixed(2)}`}
+												</p>
+												<p className="mt-1 text-xs text-slate-500">
+													Rates come from GST settings. Billed from {getGstStateName(getGstEntity(gstSettings, invoiceGst.entityId).stateCode)}.
+												</p>
+											</div>
+										)}
 									</div>
 
 									<div>
@@ -2702,6 +2822,13 @@ export default function Billing() {
 													>
 														Pay
 													</button>
+													<button
+														type="button"
+														onClick={() => setCreditNoteBill(bill)}
+														className="inline-flex items-center rounded-lg border border-slate-300 px-2 py-0.5 text-[10px] font-semibold text-slate-700 transition hover:bg-slate-50 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-slate-200"
+													>
+														Credit / Void
+													</button>
 													<button
 														type="button"
 														onClick={() => handleDeleteBilling(bill)}
@@ -2795,7 +2922,12 @@ export default function Billing() {
 												</td>
 											<td className="px-2 py-2 text-xs text-slate-600">{bill.patientId}</td>
 											<td className="px-2 py-2 text-xs text-slate-600">{bill.doctor || '—'}</td>
-											<td className="px-2 py-2 text-xs text-slate-700">{isReferral || isVIP ? 'N/A' : `Rs. ${bill.amount.toFixed(2)}`}</td>
+											<td className="px-2 py-2 text-xs text-slate-700">
+												{isReferral || isVIP ? 'N/A' : `Rs. ${bill.amount.toFixed(2)}`}
+												{!isReferral && !isVIP && getCreditedAmount(bill) > 0 && (
+													<p className="mt-0.5 text-[10px] text-rose-600">Credited Rs. {getCreditedAmount(bill).toFixed(2)}</p>
+												)}
+											</td>
 											<td className="px-2 py-2 text-xs text-slate-600">{formatInstallmentPlan(bill)}</td>
 											<td className="px-2 py-2 text-xs text-slate-600">{bill.paymentMode || '—'}</td>
 												<td className="px-2 py-2 text-xs text-slate-600">
@@ -2820,6 +2952,13 @@ export default function Billing() {
 													>
 														Invoice
 													</button>
+													<button
+														type="button"
+														onClick={() => setCreditNoteBill(bill)}
+														className="inline-flex items-center rounded-lg border border-amber-300 px-2 py-0.5 text-[10px] font-semibold text-amber-700 transition hover:bg-amber-50 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-amber-200"
+													>
+														Refund
+													</button>
 													<button
 														type="button"
 														onClick={() => handleDeleteBilling(bill)}
@@ -2840,6 +2979,15 @@ export default function Billing() {
 				</article>
 			</section>
 
+			{creditNoteBill && (
+				<CreditNoteDialog
+					key={creditNoteBill.id}
+					bill={creditNoteBill}
+					canVoid
+					onClose={() => setCreditNoteBill(null)}
+				/>
+			)}
+
 			{/* Payment Modal */}
 			{showPayModal && selectedBill && (
 				<div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/60 px-4 py-6">
@@ -2856,29 +3004,6 @@ export default function Billing() {
 							</button>
 						</header>
 						<div className="px-6 py-6">
-							<div className="mb-4">
-								<label className="block text-sm font-medium text-slate-700 mb-2">Payment Mode</label>
-								<select
-									value={paymentMode}
-									onChange={e => setPaymentMode(e.target.value as 'Cash' | 'UPI/Card')}
-									className="w-full rounded-lg border border-slate-300 px-3 py-2 text-sm text-slate-700 transition focus:border-sky-500 focus:outline-none focus:ring-2 focus:ring-sky-200"
-								>
-									<option value="Cash">Cash</option>
-									<option value="UPI/Card">UPI/Card</option>
-								</select>
-							</div>
-							{paymentMode === 'UPI/Card' && (
-								<div className="mb-4">
-									<label className="block text-sm font-medium text-slate-700 mb-2">UTR/Transaction ID</label>
-									<input
-										type="text"
-										value={utr}
-										onChange={e => setUtr(e.target.value)}
-										placeholder="Enter UTR/Transaction ID"
-										className="w-full rounded-lg border border-slate-300 px-3 py-2 text-sm text-slate-700 transition focus:border-sky-500 focus:outline-none focus:ring-2 focus:ring-sky-200"
-									/>
-								</div>
-							)}
 							{(() => {
 								const { total, paid } = getInstallmentInfo(selectedBill);
 								if (total <= 1 || paid >= total) return null;
@@ -2887,7 +3012,11 @@ export default function Billing() {
 										<label className="block text-sm font-medium text-slate-700 mb-2">Installment</label>
 										<select
 											value={selectedInstallmentNumber ?? ''}
-											onChange={event => setSelectedInstallmentNumber(Number(event.target.value))}
+											onChange={event => {
+												const target = Number(event.target.value);
+												setSelectedInstallmentNumber(target);
+												setPaymentLines([{ mode: 'Cash', amount: getInstallmentCharge(selectedBill, target).toFixed(2), reference: '' }]);
+											}}
 											className="w-full rounded-lg border border-slate-300 px-3 py-2 text-sm text-slate-700 transition focus:border-sky-500 focus:outline-none focus:ring-2 focus:ring-sky-200"
 										>
 											{Array.from({ length: total }, (_, index) => index + 1).map(number => {
@@ -2903,10 +3032,10 @@ export default function Billing() {
 								);
 							})()}
 							{(() => {
-								const { total, paid, amountPerInstallment } = getInstallmentInfo(selectedBill);
+								const { total, paid } = getInstallmentInfo(selectedBill);
 								const target = selectedInstallmentNumber ?? paid + 1;
 								const installmentsToMark = Math.max(0, Math.min(target, total) - paid);
-								const charge = Number((installmentsToMark * amountPerInstallment).toFixed(2));
+								const charge = getInstallmentCharge(selectedBill, selectedInstallmentNumber);
 								return (
 									<div className="rounded-lg bg-slate-50 p-4 space-y-1.5 text-sm text-slate-700">
 										<p>
@@ -2937,6 +3066,14 @@ export default function Billing() {
 									</div>
 								);
 							})()}
+							<div className="mt-4">
+								<label className="block text-sm font-medium text-slate-700 mb-2">Payment Mode</label>
+								<PaymentLinesEditor
+									lines={paymentLines}
+									onChange={setPaymentLines}
+									balanceDue={getInstallmentCharge(selectedBill, selectedInstallmentNumber)}
+								/>
+							</div>
 						</div>
 						<footer className="flex items-center justify-end gap-3 border-t border-slate-200 px-6 py-4">
 							<button
@@ -0,0 +1,285 @@
+'use client';
+
+import { useState } from 'react';
+import { doc, serverTimestamp, setDoc } from 'firebase/firestore';
+
+import { db } from '@/lib/firebase';
+import { useAuth } from '@/contexts/AuthContext';
+import { useBillingPolicies } from '@/hooks/useBillingPolicies';
+import { CLINIC_SETTINGS_COLLECTION } from '@/lib/noShowPolicy';
+import {
+	BILLING_POLICIES_DOC_ID,
+	BILLING_POLICY_MODE_LABELS,
+	FALLBACK_BILLING_POLICY,
+	normalizeOrganisationType,
+	type BillingPolicy,
+	type BillingPolicyMode,
+	type BillingPolicySettings as BillingPolicySettingsValue,
+} from '@/lib/billingPolicies';
+
+// Numbers are edited as text so a blank rate means "use the appointment's rate"
+interface PolicyDraft {
+	rowId: string;
+	key: string;
+	label: string;
+	mode: BillingPolicyMode;
+	sessionRate: string;
+	concessionPercent: string;
+	freeSessionsPerYear: string;
+	sponsorName: string;
+}
+
+function toPolicyDraft(policy: BillingPolicy): PolicyDraft {
+	return {
+		rowId: policy.key,
+		key: policy.key,
+		label: policy.label,
+		mode: policy.mode,
+		sessionRate: policy.sessionRate === null ? '' : String(policy.sessionRate),
+		concessionPercent: String(policy.concessionPercent),
+		freeSessionsPerYear: String(policy.freeSessionsPerYear),
+		sponsorName: policy.sponsorName,
+	};
+}
+
+function BillingPolicyForm({ initialSettings }: { initialSettings: BillingPolicySettingsValue }) {
+	const { user } = useAuth();
+	const [drafts, setDrafts] = useState<PolicyDraft[]>(() => initialSettings.policies.map(toPolicyDraft));
+	const [saving, setSaving] = useState(false);
+
+	const updateDraft = (rowId: string, patch: Partial<PolicyDraft>) => {
+		setDrafts(prev => prev.map(draft => (draft.rowId === rowId ? { ...draft, ...patch } : draft)));
+	};
+
+	const handleAdd = () => {
+		setDrafts(prev => [
+			...prev,
+			{
+				rowId: `policy-${Date.now()}`,
+				key: '',
+				label: '',
+				mode: 'sponsor',
+				sessionRate: '',
+				concessionPercent: '0',
+				freeSessionsPerYear: '0',
+				sponsorName: '',
+			},
+		]);
+	};
+
+	const handleSave = async (event: React.FormEvent) => {
+		event.preventDefault();
+
+		const policies: BillingPolicy[] = [];
+		for (const draft of drafts) {
+			const key = normalizeOrganisationType(draft.key);
+			const name = draft.label.trim() || key;
+			if (!key) {
+				alert('Please enter the patient type for every policy.');
+				return;
+			}
+			if (policies.some(policy => policy.key === key)) {
+				alert(`There is more than one policy for ${key}.`);
+				return;
+			}
+			const sessionRate = draft.sessionRate.trim() ? Number(draft.sessionRate) : null;
+			const concessionPercent = Number(draft.concessionPercent || 0);
+			const freeSessionsPerYear = Number(draft.freeSessionsPerYear || 0);
+			if (sessionRate !== null && (!Number.isFinite(sessionRate) || sessionRate < 0)) {
+				alert(`Please enter a valid session rate for ${name}.`);
+				return;
+			}
+			if (!Number.isFinite(concessionPercent) || concessionPercent < 0 || concessionPercent > 100) {
+				alert(`Concession for ${name} must be between 0 and 100%.`);
+				return;
+			}
+			if (draft.mode === 'free-within-cap' && (!Number.isInteger(freeSessionsPerYear) || freeSessionsPerYear <= 0)) {
+				alert(`Please enter how many free sessions ${name} gets each year.`);
+				return;
+			}
+			if (draft.mode === 'sponsor' && !draft.sponsorName.trim()) {
+				alert(`Please enter who ${name} sessions are billed to.`);
+				return;
+			}
+			policies.push({
+				key,
+				label: name,
+				mode: draft.mode,
+				sessionRate,
+				concessionPercent: draft.mode === 'pending' ? concessionPercent : 0,
+				freeSessionsPerYear: draft.mode === 'free-within-cap' ? freeSessionsPerYear : 0,
+				sponsorName: draft.mode === 'sponsor' ? draft.sponsorName.trim() : '',
+			});
+		}
+
+		setSaving(true);
+		try {
+			await setDoc(doc(db, CLINIC_SETTINGS_COLLECTION, BILLING_POLICIES_DOC_ID), {
+				policies,
+				updatedBy: user?.email || user?.displayName || 'Admin',
+				updatedAt: serverTimestamp(),
+			});
+			alert('Billing policies saved.');
+		} catch (error) {
+			console.error('Failed to save billing policies', error);
+			alert('Failed to save billing policies. Please try again.');
+		} finally {
+			setSaving(false);
+		}
+	};
+
+	return (
+		<form onSubmit={handleSave} className="mt-4 space-y-4">
+			<div className="overflow-x-auto">
+				<table className="min-w-full divide-y divide-slate-200 text-left text-sm text-slate-700">
+					<thead className="bg-slate-100 text-xs uppercase tracking-wide text-slate-500">
+						<tr>
+							<th className="px-3 py-2 font-semibold">Patient type</th>
+							<th className="px-3 py-2 font-semibold">Name</th>
+							<th className="px-3 py-2 font-semibold">Completed sessions are</th>
+							<th className="px-3 py-2 font-semibold">Rate (Rs.)</th>
+							<th className="px-3 py-2 font-semibold">Terms</th>
+							<th className="px-3 py-2" />
+						</tr>
+					</thead>
+					<tbody className="divide-y divide-slate-100">
+						{drafts.map(draft => {
+							const isFallback = draft.rowId === FALLBACK_BILLING_POLICY.key;
+							return (
+								<tr key={draft.rowId} className="align-top">
+									<td className="px-3 py-2">
+										<input
+											type="text"
+											value={draft.key}
+											onChange={event => updateDraft(draft.rowId, { key: event.target.value.toUpperCase() })}
+											placeholder="e.g. DYES"
+											className="input-base w-32"
+											disabled={isFallback}
+										/>
+									</td>
+									<td className="px-3 py-2">
+										<input
+											type="text"
+											value={draft.label}
+											onChange={event => updateDraft(draft.rowId, { label: event.target.value })}
+											className="input-base w-40"
+										/>
+									</td>
+									<td className="px-3 py-2">
+										<select
+											value={draft.mode}
+											onChange={event => updateDraft(draft.rowId, { mode: event.target.value as BillingPolicyMode })}
+											className="select-base w-52"
+										>
+											{(Object.keys(BILLING_POLICY_MODE_LABELS) as BillingPolicyMode[]).map(mode => (
+												<option key={mode} value={mode}>
+													{BILLING_POLICY_MODE_LABELS[mode]}
+												</option>
+											))}
+										</select>
+									</td>
+									<td className="px-3 py-2">
+										<input
+											type="number"
+											min={0}
+											step="0.01"
+											value={draft.sessionRate}
+											onChange={event => updateDraft(draft.rowId, { sessionRate: event.target.value })}
+											placeholder="Standard"
+											className="input-base w-28"
+										/>
+									</td>
+									<td className="px-3 py-2">
+										{draft.mode === 'pending' && (
+											<label className="flex items-center gap-2 text-xs text-slate-600">
+												<input
+													type="number"
+													min={0}
+													max={100}
+													step="0.01"
+													value={draft.concessionPercent}
+													onChange={event => updateDraft(draft.rowId, { concessionPercent: event.target.value })}
+													className="input-base w-20"
+												/>
+												% concession for patients registered with concession
+											</label>
+										)}
+										{draft.mode === 'free-within-cap' && (
+											<label className="flex items-center gap-2 text-xs text-slate-600">
+												<input
+													type="number"
+													min={1}
+													step="1"
+													value={draft.freeSessionsPerYear}
+													onChange={event => updateDraft(draft.rowId, { freeSessionsPerYear: event.target.value })}
+													className="input-base w-24"
+												/>
+												free sessions a year, then auto-paid at the rate
+											</label>
+										)}
+										{draft.mode === 'sponsor' && (
+											<input
+												type="text"
+												value={draft.sponsorName}
+												onChange={event => updateDraft(draft.rowId, { sponsorName: event.target.value })}
+												placeholder="Billed to, e.g. Karnataka Sports Authority"
+												className="input-base w-64"
+											/>
+										)}
+										{draft.mode === 'auto-paid' && <span className="text-xs text-slate-500">Marked paid when completed</span>}
+									</td>
+									<td className="px-3 py-2 text-right">
+										{isFallback ? (
+											<span className="text-xs text-slate-400">Default</span>
+										) : (
+											<button
+												type="button"
+												onClick={() => setDrafts(prev => prev.filter(item => item.rowId !== draft.rowId))}
+												className="text-sm font-medium text-rose-600 hover:text-rose-700"
+											>
+												Remove
+											</button>
+										)}
+									</td>
+								</tr>
+							);
+						})}
+					</tbody>
+				</table>
+			</div>
+
+			<div className="flex justify-between">
+				<button type="button" onClick={handleAdd} className="btn-secondary">
+					<i className="fas fa-plus mr-2" aria-hidden="true" />
+					Add Organisation
+				</button>
+				<button type="submit" className="btn-primary" disabled={saving}>
+					<i className="fas fa-save mr-2" aria-hidden="true" />
+					{saving ? 'Saving...' : 'Save Billing Policies'}
+				</button>
+			</div>
+		</form>
+	);
+}
+
+/**
+ * How completed sessions are billed for each patient type. Patient types without a policy are billed as Paid.
+ */
+export default function BillingPolicySettings() {
+	const { settings, loading } = useBillingPolicies();
+
+	return (
+		<section className="rounded-2xl bg-white p-6 shadow-[0_20px_50px_rgba(30,58,138,0.15)] border border-blue-100">
+			<h3 className="text-lg font-semibold text-slate-900">Billing Policies</h3>
+			<p className="text-sm text-slate-600">
+				Each patient type is billed by its policy when a session is completed. Patient types without a policy of their own are billed like Paid patients.
+			</p>
+			{loading ? (
+				<p className="mt-4 text-sm text-slate-500">Loading billing policies...</p>
+			) : (
+				// Re-mount the form when the saved policies change so the draft starts from the latest values
+				<BillingPolicyForm key={JSON.stringify(settings)} initialSettings={settings} />
+			)}
+		</section>
+	);
+}
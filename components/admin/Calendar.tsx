@@ -11,6 +11,13 @@ import { collection, doc, onSnapshot, updateDoc, type QuerySnapshot } from 'fire
 import { db } from '@/lib/firebase';
 import PageHeader from '@/components/PageHeader';
 import type { PatientRecordBasic, PatientStatus } from '@/lib/types';
+import { checkAppointmentConflict, checkAvailabilityConflict } from '@/lib/appointmentUtils';
+import { findHoliday, getWeeklyPattern, toBusinessHours, type DateSpecificAvailability, type WeeklyAvailability } from '@/lib/availability';
+import { resolveAppointmentDuration } from '@/lib/serviceCatalog';
+import { useClinicHolidays } from '@/hooks/useClinicHolidays';
+import { useClinicResources } from '@/hooks/useClinicResources';
+import { formatResourceNames, getAppointmentResourceIds } from '@/lib/resources';
+import ResourceDayView from '@/components/appointments/ResourceDayView';
 
 interface AppointmentRecord {
 	id: string;
@@ -19,6 +26,9 @@ interface AppointmentRecord {
 	doctor?: string;
 	date?: string;
 	time?: string;
+	duration?: number;
+	serviceType?: string;
+	resourceIds?: string[];
 	status?: string;
 	notes?: string;
 }
@@ -35,6 +45,8 @@ interface StaffMember {
 	userName: string;
 	role: string;
 	status: string;
+	weeklyAvailability?: WeeklyAvailability;
+	dateSpecificAvailability?: DateSpecificAvailability;
 }
 
 const statusColors: Record<string, string> = {
@@ -73,6 +85,15 @@ const formatDateTime = (date?: string, time?: string) => {
 
 const toDateKey = (value: string) => value;
 
+const toLocalDateKey = (value: Date) =>
+	`${value.getFullYear()}-${String(value.getMonth() + 1).padStart(2, '0')}-${String(value.getDate()).padStart(2, '0')}`;
+
+const shiftDateKey = (value: string, days: number) => {
+	const parsed = new Date(value + 'T00:00:00');
+	parsed.setDate(parsed.getDate() + days);
+	return toLocalDateKey(parsed);
+};
+
 const capitalize = (str?: string) => {
 	if (!str) return '';
 	return str.charAt(0).toUpperCase() + str.slice(1).toLowerCase();
@@ -86,6 +107,11 @@ export default function Calendar() {
 	const [appointments, setAppointments] = useState<AppointmentRecord[]>([]);
 	const [patients, setPatients] = useState<PatientRecordBasic[]>([]);
 	const [staff, setStaff] = useState<StaffMember[]>([]);
+	const { holidays } = useClinicHolidays();
+	const { resources } = useClinicResources();
+	// Resource mode replaces the FullCalendar grid with one column per room or machine for a single day
+	const [resourceView, setResourceView] = useState(false);
+	const [resourceDate, setResourceDate] = useState(() => toLocalDateKey(new Date()));
 	const [loading, setLoading] = useState(true);
 
 	const [selectedDate, setSelectedDate] = useState<string | null>(null);
@@ -153,6 +179,9 @@ export default function Calendar() {
 						doctor: data.doctor ? String(data.doctor) : undefined,
 						date: data.date ? String(data.date) : undefined,
 						time: data.time ? String(data.time) : undefined,
+						duration: typeof data.duration === 'number' ? data.duration : undefined,
+						serviceType: data.serviceType ? String(data.serviceType) : undefined,
+						resourceIds: getAppointmentResourceIds(data),
 						status: data.status ? String(data.status) : undefined,
 						notes: data.notes ? String(data.notes) : undefined,
 					};
@@ -183,6 +212,8 @@ export default function Calendar() {
 						userName: data.userName ? String(data.userName) : '',
 						role: data.role ? String(data.role) : '',
 						status: data.status ? String(data.status) : '',
+						weeklyAvailability: data.weeklyAvailability as WeeklyAvailability | undefined,
+						dateSpecificAvailability: data.dateSpecificAvailability as DateSpecificAvailability | undefined,
 					};
 				});
 				setStaff([...mapped]);
@@ -283,6 +314,10 @@ export default function Calendar() {
 	}, [eventsByDate, modalStatus, selectedDate]);
 
 	const handleToday = () => {
+		if (resourceView) {
+			setResourceDate(toLocalDateKey(new Date()));
+			return;
+		}
 		const calendarApi = calendarRef.current?.getApi();
 		if (calendarApi) {
 			calendarApi.today();
@@ -290,6 +325,10 @@ export default function Calendar() {
 	};
 
 	const handlePrev = () => {
+		if (resourceView) {
+			setResourceDate(prev => shiftDateKey(prev, -1));
+			return;
+		}
 		const calendarApi = calendarRef.current?.getApi();
 		if (calendarApi) {
 			calendarApi.prev();
@@ -297,6 +336,10 @@ export default function Calendar() {
 	};
 
 	const handleNext = () => {
+		if (resourceView) {
+			setResourceDate(prev => shiftDateKey(prev, 1));
+			return;
+		}
 		const calendarApi = calendarRef.current?.getApi();
 		if (calendarApi) {
 			calendarApi.next();
@@ -316,7 +359,7 @@ export default function Calendar() {
 			appointment: AppointmentRecord;
 			patient: PatientRecordBasic | undefined;
 		};
-		if (eventData) {
+		if (eventData?.appointment) {
 			const event: CalendarEvent = {
 				id: clickInfo.event.id,
 				appointment: eventData.appointment,
@@ -425,6 +468,30 @@ export default function Calendar() {
 		return calendarEvents;
 	}, [events]);
 
+	// Clinic holidays shown as closed days across every view
+	const holidayEvents = useMemo(
+		() =>
+			holidays.map(holiday => ({
+				id: `holiday-${holiday.id ?? holiday.date}`,
+				title: `Closed – ${holiday.name}`,
+				start: holiday.date,
+				allDay: true,
+				display: 'background',
+				backgroundColor: '#fee2e2',
+				borderColor: '#f43f5e',
+				editable: false,
+			})),
+		[holidays]
+	);
+
+	// Shade the selected clinician's working hours from their weekly pattern
+	const businessHours = useMemo(() => {
+		if (therapistFilter === 'all') return false;
+		const member = staff.find(item => normalize(item.userName) === normalize(therapistFilter));
+		if (!member) return false;
+		return toBusinessHours(getWeeklyPattern(member));
+	}, [staff, therapistFilter]);
+
 	const handleViewChange = (view: ViewMountArg) => {
 		setCurrentView(view.view.type);
 	};
@@ -482,6 +549,61 @@ export default function Calendar() {
 		const newDate = `${year}-${month}-${day}`;
 		const newTime = `${hours}:${minutes}`;
 
+		const holiday = findHoliday(holidays, newDate);
+		if (holiday) {
+			alert(`The clinic is closed on ${newDate} (${holiday.name}).`);
+			changeInfo.revert();
+			return;
+		}
+
+		const appointment = (changeInfo.event.extendedProps as { appointment?: AppointmentRecord }).appointment;
+		const member = appointment?.doctor
+			? staff.find(item => normalize(item.userName) === normalize(appointment.doctor))
+			: undefined;
+		if (appointment && member) {
+			const availability = checkAvailabilityConflict(
+				member,
+				newDate,
+				newTime,
+				resolveAppointmentDuration(appointment),
+				holidays
+			);
+			if (!availability.isAvailable) {
+				alert(`${appointment.doctor} is not available at ${newTime} on ${newDate}. ${availability.reason ?? ''}`.trim());
+				changeInfo.revert();
+				return;
+			}
+		}
+
+		if (appointment?.resourceIds?.length) {
+			const conflict = checkAppointmentConflict(
+				appointments.map(item => ({
+					id: item.id,
+					patient: item.patient || '',
+					doctor: item.doctor || '',
+					date: item.date || '',
+					time: item.time || '',
+					status: item.status,
+					duration: item.duration,
+					serviceType: item.serviceType,
+					resourceIds: item.resourceIds,
+				})),
+				{
+					id: appointment.id,
+					doctor: '',
+					date: newDate,
+					time: newTime,
+					duration: resolveAppointmentDuration(appointment),
+					resourceIds: appointment.resourceIds,
+				}
+			);
+			if (conflict.resourceIds.length > 0) {
+				alert(`Already booked at ${newTime} on ${newDate}: ${formatResourceNames(resources, conflict.resourceIds)}.`);
+				changeInfo.revert();
+				return;
+			}
+		}
+
 		setIsRescheduling(eventId);
 		
 		try {
@@ -616,9 +738,10 @@ export default function Calendar() {
 												calendarApi.changeView('dayGridMonth');
 												setCurrentView('dayGridMonth');
 											}
+											setResourceView(false);
 										}}
 										className={`inline-flex items-center gap-1.5 rounded-md px-3 py-1.5 text-xs font-semibold transition-all ${
-											currentView === 'dayGridMonth'
+											!resourceView && currentView === 'dayGridMonth'
 												? 'bg-white text-sky-700 shadow-sm'
 												: 'text-slate-600 hover:bg-white/50'
 										}`}
@@ -634,9 +757,10 @@ export default function Calendar() {
 												calendarApi.changeView('timeGridWeek');
 												setCurrentView('timeGridWeek');
 											}
+											setResourceView(false);
 										}}
 										className={`inline-flex items-center gap-1.5 rounded-md px-3 py-1.5 text-xs font-semibold transition-all ${
-											currentView === 'timeGridWeek'
+											!resourceView && currentView === 'timeGridWeek'
 												? 'bg-white text-sky-700 shadow-sm'
 												: 'text-slate-600 hover:bg-white/50'
 										}`}
@@ -652,9 +776,10 @@ export default function Calendar() {
 												calendarApi.changeView('timeGridDay');
 												setCurrentView('timeGridDay');
 											}
+											setResourceView(false);
 										}}
 										className={`inline-flex items-center gap-1.5 rounded-md px-3 py-1.5 text-xs font-semibold transition-all ${
-											currentView === 'timeGridDay'
+											!resourceView && currentView === 'timeGridDay'
 												? 'bg-white text-sky-700 shadow-sm'
 												: 'text-slate-600 hover:bg-white/50'
 										}`}
@@ -662,6 +787,24 @@ export default function Calendar() {
 										<i className="fas fa-calendar-day text-[10px]" aria-hidden="true" />
 										Day
 									</button>
+									<button
+										type="button"
+										onClick={() => {
+											const calendarApi = calendarRef.current?.getApi();
+											if (calendarApi) {
+												setResourceDate(toLocalDateKey(calendarApi.getDate()));
+											}
+											setResourceView(true);
+										}}
+										className={`inline-flex items-center gap-1.5 rounded-md px-3 py-1.5 text-xs font-semibold transition-all ${
+											resourceView
+												? 'bg-white text-sky-700 shadow-sm'
+												: 'text-slate-600 hover:bg-white/50'
+										}`}
+									>
+										<i className="fas fa-door-open text-[10px]" aria-hidden="true" />
+										Resources
+									</button>
 								</div>
 							</div>
 							<div className="flex items-center gap-2">
@@ -684,7 +827,25 @@ export default function Calendar() {
 								</select>
 							</div>
 						</div>
-					<div className="[&_.fc-toolbar-title]:text-xl [&_.fc-toolbar-title]:font-bold [&_.fc-toolbar-title]:text-slate-800 [&_.fc-button]:border-slate-300 [&_.fc-button]:bg-white [&_.fc-button]:text-slate-700 [&_.fc-button]:font-medium [&_.fc-button:hover]:border-sky-400 [&_.fc-button:hover]:bg-sky-50 [&_.fc-button:hover]:text-sky-700 [&_.fc-button-active]:bg-sky-100 [&_.fc-button-active]:border-sky-400 [&_.fc-button-active]:text-sky-700 [&_.fc-button-active]:shadow-sm [&_.fc-daygrid-day-number]:text-slate-700 [&_.fc-daygrid-day-number]:font-medium [&_.fc-col-header-cell]:bg-gradient-to-b [&_.fc-col-header-cell]:from-slate-50 [&_.fc-col-header-cell]:to-slate-100 [&_.fc-col-header-cell]:text-slate-700 [&_.fc-col-header-cell]:font-semibold [&_.fc-col-header-cell]:py-3 [&_.fc-day-today]:bg-gradient-to-br [&_.fc-day-today]:from-sky-50 [&_.fc-day-today]:to-blue-50 [&_.fc-day-today]:border-2 [&_.fc-day-today]:border-sky-300 [&_.fc-timegrid-slot]:min-h-[2.5em] [&_.fc-event]:cursor-pointer [&_.fc-event]:transition-all [&_.fc-event:hover]:shadow-md [&_.fc-event:hover]:scale-[1.02] [&_.fc-event-title]:font-medium [&_.fc-event-title]:px-1">
+					{resourceView && (
+						<div className="space-y-4">
+							<h2 className="text-center text-xl font-bold text-slate-800">{formatDateLong(resourceDate + 'T00:00:00')}</h2>
+							<ResourceDayView
+								date={resourceDate}
+								appointments={filteredAppointments}
+								resources={resources}
+								onAppointmentClick={appointment =>
+									openDetail({
+										id: appointment.id,
+										appointment,
+										patient: appointment.patientId ? patientLookup.get(appointment.patientId) : undefined,
+										dateKey: appointment.date || '',
+									})
+								}
+							/>
+						</div>
+					)}
+					<div className={`${resourceView ? 'hidden ' : ''}[&_.fc-toolbar-title]:text-xl [&_.fc-toolbar-title]:font-bold [&_.fc-toolbar-title]:text-slate-800 [&_.fc-button]:border-slate-300 [&_.fc-button]:bg-white [&_.fc-button]:text-slate-700 [&_.fc-button]:font-medium [&_.fc-button:hover]:border-sky-400 [&_.fc-button:hover]:bg-sky-50 [&_.fc-button:hover]:text-sky-700 [&_.fc-button-active]:bg-sky-100 [&_.fc-button-active]:border-sky-400 [&_.fc-button-active]:text-sky-700 [&_.fc-button-active]:shadow-sm [&_.fc-daygrid-day-number]:text-slate-700 [&_.fc-daygrid-day-number]:font-medium [&_.fc-col-header-cell]:bg-gradient-to-b [&_.fc-col-header-cell]:from-slate-50 [&_.fc-col-header-cell]:to-slate-100 [&_.fc-col-header-cell]:text-slate-700 [&_.fc-col-header-cell]:font-semibold [&_.fc-col-header-cell]:py-3 [&_.fc-day-today]:bg-gradient-to-br [&_.fc-day-today]:from-sky-50 [&_.fc-day-today]:to-blue-50 [&_.fc-day-today]:border-2 [&_.fc-day-today]:border-sky-300 [&_.fc-timegrid-slot]:min-h-[2.5em] [&_.fc-event]:cursor-pointer [&_.fc-event]:transition-all [&_.fc-event:hover]:shadow-md [&_.fc-event:hover]:scale-[1.02] [&_.fc-event-title]:font-medium [&_.fc-event-title]:px-1`}>
 						<FullCalendar
 							ref={calendarRef}
 							plugins={[dayGridPlugin, timeGridPlugin, interactionPlugin]}
@@ -707,7 +868,8 @@ export default function Calendar() {
 									slotMaxTime: '20:00:00',
 								},
 							}}
-							events={calendarEvents}
+							events={[...holidayEvents, ...calendarEvents]}
+							businessHours={businessHours}
 							select={handleDateSelect}
 							eventClick={handleEventClick}
 							eventDrop={handleEventDrop}
@@ -882,6 +1044,14 @@ export default function Calendar() {
 									</span>
 								</div>
 							</div>
+							{detailEvent.appointment.resourceIds?.length ? (
+								<div className="rounded-lg border border-slate-200 bg-slate-50 p-4">
+									<p className="text-xs font-semibold uppercase tracking-wide text-slate-500">Rooms & Equipment</p>
+									<p className="mt-1 text-sm font-semibold text-slate-900">
+										{formatResourceNames(resources, detailEvent.appointment.resourceIds)}
+									</p>
+								</div>
+							) : null}
 							{(detailEvent.patient?.complaint || detailEvent.appointment.notes) && (
 								<div className="rounded-lg border border-slate-200 bg-slate-50 p-4">
 									{detailEvent.patient?.complaint && (
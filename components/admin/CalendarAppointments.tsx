@@ -3,9 +3,12 @@
 import { useState } from 'react';
 import Calendar from '@/components/admin/Calendar';
 import Appointments from '@/components/admin/Appointments';
+import HolidayCalendar from '@/components/admin/HolidayCalendar';
+import NoShowPolicySettings from '@/components/admin/NoShowPolicySettings';
+import ResourceRegistry from '@/components/admin/ResourceRegistry';
 import PageHeader from '@/components/PageHeader';
 
-type TabType = 'calendar' | 'appointments';
+type TabType = 'calendar' | 'appointments' | 'holidays' | 'resources' | 'no-show-policy';
 
 export default function CalendarAppointments() {
 	const [activeTab, setActiveTab] = useState<TabType>('calendar');
@@ -49,11 +52,60 @@ export default function CalendarAppointments() {
 							<span className="absolute bottom-0 left-0 right-0 h-0.5 bg-sky-600" />
 						)}
 					</button>
+					<button
+						type="button"
+						onClick={() => setActiveTab('holidays')}
+						className={`px-6 py-3 text-sm font-semibold transition-all relative ${
+							activeTab === 'holidays'
+								? 'text-sky-700'
+								: 'text-slate-600 hover:text-slate-900'
+						}`}
+					>
+						<i className={`fas fa-umbrella-beach mr-2 ${activeTab === 'holidays' ? 'text-sky-600' : 'text-slate-500'}`} aria-hidden="true" />
+						Holidays
+						{activeTab === 'holidays' && (
+							<span className="absolute bottom-0 left-0 right-0 h-0.5 bg-sky-600" />
+						)}
+					</button>
+					<button
+						type="button"
+						onClick={() => setActiveTab('resources')}
+						className={`px-6 py-3 text-sm font-semibold transition-all relative ${
+							activeTab === 'resources'
+								? 'text-sky-700'
+								: 'text-slate-600 hover:text-slate-900'
+						}`}
+					>
+						<i className={`fas fa-door-open mr-2 ${activeTab === 'resources' ? 'text-sky-600' : 'text-slate-500'}`} aria-hidden="true" />
+						Rooms & Equipment
+						{activeTab === 'resources' && (
+							<span className="absolute bottom-0 left-0 right-0 h-0.5 bg-sky-600" />
+						)}
+					</button>
+					<button
+						type="button"
+						onClick={() => setActiveTab('no-show-policy')}
+						className={`px-6 py-3 text-sm font-semibold transition-all relative ${
+							activeTab === 'no-show-policy'
+								? 'text-sky-700'
+								: 'text-slate-600 hover:text-slate-900'
+						}`}
+					>
+						<i className={`fas fa-user-slash mr-2 ${activeTab === 'no-show-policy' ? 'text-sky-600' : 'text-slate-500'}`} aria-hidden="true" />
+						No-show Policy
+						{activeTab === 'no-show-policy' && (
+							<span className="absolute bottom-0 left-0 right-0 h-0.5 bg-sky-600" />
+						)}
+					</button>
 				</div>
 
 				{/* Tab Content */}
 				<div className="bg-white rounded-b-xl shadow-sm">
-					{activeTab === 'calendar' ? <Calendar /> : <Appointments />}
+					{activeTab === 'calendar' && <Calendar />}
+					{activeTab === 'appointments' && <Appointments />}
+					{activeTab === 'holidays' && <HolidayCalendar />}
+					{activeTab === 'resources' && <ResourceRegistry />}
+					{activeTab === 'no-show-policy' && <NoShowPolicySettings />}
 				</div>
 			</div>
 		</div>
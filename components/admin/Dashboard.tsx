@@ -6,6 +6,8 @@ import { collection, onSnapshot, query, where, getDocs, orderBy, limit, type Que
 import PageHeader from '@/components/PageHeader';
 import DashboardWidget from '@/components/dashboard/DashboardWidget';
 import StatsChart from '@/components/dashboard/StatsChart';
+import NoShowRates from '@/components/dashboard/NoShowRates';
+import UnsignedReports from '@/components/dashboard/UnsignedReports';
 import { db, auth } from '@/lib/firebase';
 import { useAuth } from '@/contexts/AuthContext';
 import type { AdminAppointmentStatus, AdminPatientStatus } from '@/lib/adminMockData';
@@ -19,6 +21,7 @@ interface PatientRecord {
 	patientId: string;
 	name: string;
 	status: AdminPatientStatus;
+	patientType?: string;
 }
 
 interface AppointmentRecord {
@@ -180,6 +183,7 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
 						patientId: data.patientId ? String(data.patientId) : '',
 						name: data.name ? String(data.name) : '',
 						status: (data.status as AdminPatientStatus) ?? 'pending',
+						patientType: data.patientType ? String(data.patientType) : undefined,
 					} as PatientRecord;
 				});
 				setPatients([...mapped]);
@@ -580,6 +584,16 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
 								</div>
 							</div>
 						</div>
+						<div className="rounded-2xl border border-blue-200 bg-white p-5 shadow-lg hover:shadow-xl transition-shadow duration-300">
+							<p className="text-sm font-semibold text-blue-900 mb-1">No-show Rates</p>
+							<p className="text-xs text-blue-700 mb-4">Share of completed and missed appointments that were no-shows.</p>
+							<NoShowRates appointments={appointments} patients={patients} />
+						</div>
+						<div className="rounded-2xl border border-blue-200 bg-white p-5 shadow-lg hover:shadow-xl transition-shadow duration-300">
+							<p className="text-sm font-semibold text-blue-900 mb-1">Unsigned Reports</p>
+							<p className="text-xs text-blue-700 mb-4">Physiotherapy reports still not signed more than 48 hours after the session.</p>
+							<UnsignedReports />
+						</div>
 					</div>
 				</section>
 
@@ -0,0 +1,306 @@
+'use client';
+
+import { useState } from 'react';
+import { doc, serverTimestamp, setDoc } from 'firebase/firestore';
+
+import { db } from '@/lib/firebase';
+import { useAuth } from '@/contexts/AuthContext';
+import { useGstSettings } from '@/hooks/useGstSettings';
+import { CLINIC_SETTINGS_COLLECTION } from '@/lib/noShowPolicy';
+import { SERVICE_CATALOG } from '@/lib/serviceCatalog';
+import {
+	GST_SETTINGS_DOC_ID,
+	getGstStateName,
+	getGstinStateCode,
+	isValidGstin,
+	type GstEntity,
+	type GstServiceTax,
+	type GstSettings as GstSettingsValue,
+} from '@/lib/gst';
+
+// Per-service overrides are edited as text so a blank row means "use the default"
+type ServiceTaxDraft = Record<string, { sacCode: string; rate: string }>;
+
+function toServiceTaxDraft(serviceTaxes: Record<string, GstServiceTax>): ServiceTaxDraft {
+	const draft: ServiceTaxDraft = {};
+	SERVICE_CATALOG.forEach(service => {
+		const tax = serviceTaxes[service.id];
+		draft[service.id] = { sacCode: tax?.sacCode ?? '', rate: tax ? String(tax.rate) : '' };
+	});
+	return draft;
+}
+
+function GstSettingsForm({ initialSettings }: { initialSettings: GstSettingsValue }) {
+	const { user } = useAuth();
+	const [draft, setDraft] = useState<GstSettingsValue>(initialSettings);
+	const [serviceDraft, setServiceDraft] = useState<ServiceTaxDraft>(() => toServiceTaxDraft(initialSettings.serviceTaxes));
+	const [saving, setSaving] = useState(false);
+
+	const updateEntity = (id: string, patch: Partial<GstEntity>) => {
+		setDraft(prev => ({
+			...prev,
+			entities: prev.entities.map(entity => (entity.id === id ? { ...entity, ...patch } : entity)),
+		}));
+	};
+
+	const handleAddEntity = () => {
+		setDraft(prev => ({
+			...prev,
+			entities: [...prev.entities, { id: `entity-${Date.now()}`, legalName: '', gstin: '', stateCode: '', address: '' }],
+		}));
+	};
+
+	const handleRemoveEntity = (id: string) => {
+		if (id === draft.clinicEntityId || id === draft.dyesEntityId) {
+			alert('This entity is used on invoices. Choose another entity for clinic and DYES invoices first.');
+			return;
+		}
+		setDraft(prev => ({ ...prev, entities: prev.entities.filter(entity => entity.id !== id) }));
+	};
+
+	const updateTax = (key: 'defaultTax' | 'dyesTax', patch: Partial<GstServiceTax>) => {
+		setDraft(prev => ({ ...prev, [key]: { ...prev[key], ...patch } }));
+	};
+
+	const handleSave = async (event: React.FormEvent) => {
+		event.preventDefault();
+
+		const entities: GstEntity[] = [];
+		for (const entity of draft.entities) {
+			const gstin = entity.gstin.trim().toUpperCase();
+			const stateCode = getGstinStateCode(gstin);
+			if (!entity.legalName.trim() || !isValidGstin(gstin) || !stateCode) {
+				alert(`Please enter a legal name and a valid GSTIN for ${entity.legalName.trim() || 'every entity'}.`);
+				return;
+			}
+			entities.push({ ...entity, legalName: entity.legalName.trim(), gstin, stateCode, address: entity.address.trim() });
+		}
+		if (!draft.defaultTax.sacCode.trim() || !draft.dyesTax.sacCode.trim()) {
+			alert('Please enter the default and DYES SAC codes.');
+			return;
+		}
+
+		const serviceTaxes: Record<string, GstServiceTax> = {};
+		for (const [serviceTypeId, value] of Object.entries(serviceDraft)) {
+			if (!value.sacCode.trim() && !value.rate.trim()) continue;
+			const rate = value.rate.trim() ? parseFloat(value.rate) : draft.defaultTax.rate;
+			if (Number.isNaN(rate) || rate < 0) {
+				alert('Please enter valid GST rates for each service.');
+				return;
+			}
+			serviceTaxes[serviceTypeId] = { sacCode: value.sacCode.trim() || draft.defaultTax.sacCode.trim(), rate };
+		}
+
+		setSaving(true);
+		try {
+			await setDoc(doc(db, CLINIC_SETTINGS_COLLECTION, GST_SETTINGS_DOC_ID), {
+				...draft,
+				entities,
+				defaultTax: { ...draft.defaultTax, sacCode: draft.defaultTax.sacCode.trim() },
+				dyesTax: { ...draft.dyesTax, sacCode: draft.dyesTax.sacCode.trim() },
+				serviceTaxes,
+				updatedBy: user?.email || user?.displayName || 'Admin',
+				updatedAt: serverTimestamp(),
+			});
+			alert('GST settings saved.');
+		} catch (error) {
+			console.error('Failed to save GST settings', error);
+			alert('Failed to save GST settings. Please try again.');
+		} finally {
+			setSaving(false);
+		}
+	};
+
+	const renderEntitySelect = (key: 'clinicEntityId' | 'dyesEntityId', label: string) => (
+		<div>
+			<label className="block text-sm font-medium text-slate-700">{label}</label>
+			<select
+				value={draft[key]}
+				onChange={event => setDraft(prev => ({ ...prev, [key]: event.target.value }))}
+				className="select-base mt-2"
+			>
+				{draft.entities.map(entity => (
+					<option key={entity.id} value={entity.id}>
+						{entity.legalName || 'Unnamed entity'} {entity.gstin ? `(${entity.gstin})` : ''}
+					</option>
+				))}
+			</select>
+		</div>
+	);
+
+	const renderTaxInputs = (key: 'defaultTax' | 'dyesTax', label: string) => (
+		<div className="grid grid-cols-2 gap-3">
+			<div>
+				<label className="block text-sm font-medium text-slate-700">{label} SAC</label>
+				<input
+					type="text"
+					value={draft[key].sacCode}
+					onChange={event => updateTax(key, { sacCode: event.target.value })}
+					className="input-base mt-2"
+				/>
+			</div>
+			<div>
+				<label className="block text-sm font-medium text-slate-700">{label} GST (%)</label>
+				<input
+					type="number"
+					min={0}
+					step="0.01"
+					value={draft[key].rate}
+					onChange={event => updateTax(key, { rate: parseFloat(event.target.value) || 0 })}
+					className="input-base mt-2"
+				/>
+			</div>
+		</div>
+	);
+
+	return (
+		<form onSubmit={handleSave} className="mt-4 space-y-6">
+			<div className="space-y-3">
+				<div className="flex items-center justify-between">
+					<h4 className="text-sm font-semibold text-slate-900">Legal Entities</h4>
+					<button type="button" onClick={handleAddEntity} className="btn-secondary">
+						<i className="fas fa-plus mr-2" aria-hidden="true" />
+						Add Entity
+					</button>
+				</div>
+				{draft.entities.map(entity => {
+					const stateCode = getGstinStateCode(entity.gstin);
+					return (
+						<div key={entity.id} className="grid gap-3 rounded-lg border border-slate-200 p-3 sm:grid-cols-[1fr_1fr_2fr_auto]">
+							<input
+								type="text"
+								value={entity.legalName}
+								onChange={event => updateEntity(entity.id, { legalName: event.target.value })}
+								placeholder="Legal name"
+								className="input-base"
+							/>
+							<div>
+								<input
+									type="text"
+									value={entity.gstin}
+									onChange={event => updateEntity(entity.id, { gstin: event.target.value.toUpperCase() })}
+									placeholder="GSTIN"
+									maxLength={15}
+									className="input-base"
+								/>
+								<p className="mt-1 text-xs text-slate-500">
+									{stateCode ? `${getGstStateName(stateCode)} (${stateCode})` : 'State is read from the GSTIN'}
+								</p>
+							</div>
+							<input
+								type="text"
+								value={entity.address}
+								onChange={event => updateEntity(entity.id, { address: event.target.value })}
+								placeholder="Registered address"
+								className="input-base"
+							/>
+							<button
+								type="button"
+								onClick={() => handleRemoveEntity(entity.id)}
+								className="text-sm font-medium text-rose-600 hover:text-rose-700"
+								disabled={draft.entities.length <= 1}
+							>
+								Remove
+							</button>
+						</div>
+					);
+				})}
+			</div>
+
+			<div className="grid gap-4 sm:grid-cols-2">
+				{renderEntitySelect('clinicEntityId', 'Patient invoices and receipts are issued by')}
+				{renderEntitySelect('dyesEntityId', 'DYES invoices are issued by')}
+				{renderTaxInputs('defaultTax', 'Default')}
+				{renderTaxInputs('dyesTax', 'DYES')}
+				<div className="sm:col-span-2 flex items-center gap-3">
+					<input
+						id="gst-prices-include-tax"
+						type="checkbox"
+						checked={draft.pricesIncludeTax}
+						onChange={event => setDraft(prev => ({ ...prev, pricesIncludeTax: event.target.checked }))}
+						className="h-4 w-4 rounded border-slate-300 text-sky-600 focus:ring-sky-500"
+					/>
+					<label htmlFor="gst-prices-include-tax" className="text-sm font-medium text-slate-700">
+						Bill amounts already include GST
+					</label>
+				</div>
+			</div>
+
+			<div>
+				<h4 className="text-sm font-semibold text-slate-900">Rates by Service</h4>
+				<p className="text-xs text-slate-500">Leave blank to use the default SAC code and rate.</p>
+				<div className="mt-2 overflow-x-auto">
+					<table className="min-w-full divide-y divide-slate-200 text-left text-sm text-slate-700">
+						<thead className="bg-slate-100 text-xs uppercase tracking-wide text-slate-500">
+							<tr>
+								<th className="px-3 py-2 font-semibold">Service</th>
+								<th className="px-3 py-2 font-semibold">SAC</th>
+								<th className="px-3 py-2 font-semibold">GST (%)</th>
+							</tr>
+						</thead>
+						<tbody className="divide-y divide-slate-100">
+							{SERVICE_CATALOG.map(service => (
+								<tr key={service.id}>
+									<td className="px-3 py-2">{service.name}</td>
+									<td className="px-3 py-2">
+										<input
+											type="text"
+											value={serviceDraft[service.id]?.sacCode ?? ''}
+											onChange={event =>
+												setServiceDraft(prev => ({ ...prev, [service.id]: { ...prev[service.id], sacCode: event.target.value } }))
+											}
+											placeholder={draft.defaultTax.sacCode}
+											className="input-base w-32"
+										/>
+									</td>
+									<td className="px-3 py-2">
+										<input
+											type="number"
+											min={0}
+											step="0.01"
+											value={serviceDraft[service.id]?.rate ?? ''}
+											onChange={event =>
+												setServiceDraft(prev => ({ ...prev, [service.id]: { ...prev[service.id], rate: event.target.value } }))
+											}
+											placeholder={String(draft.defaultTax.rate)}
+											className="input-base w-24"
+										/>
+									</td>
+								</tr>
+							))}
+						</tbody>
+					</table>
+				</div>
+			</div>
+
+			<div className="flex justify-end">
+				<button type="submit" className="btn-primary" disabled={saving}>
+					<i className="fas fa-save mr-2" aria-hidden="true" />
+					{saving ? 'Saving...' : 'Save GST Settings'}
+				</button>
+			</div>
+		</form>
+	);
+}
+
+/**
+ * Legal entities, GSTINs, SAC codes and rates used by every invoice, receipt and export
+ */
+export default function GstSettings() {
+	const { settings, loading } = useGstSettings();
+
+	return (
+		<section className="rounded-2xl bg-white p-6 shadow-[0_20px_50px_rgba(30,58,138,0.15)] border border-blue-100">
+			<h3 className="text-lg font-semibold text-slate-900">GST Settings</h3>
+			<p className="text-sm text-slate-600">
+				Tax is split into CGST and SGST when the place of supply is in the issuing entity&apos;s state, and charged as IGST otherwise.
+			</p>
+			{loading ? (
+				<p className="mt-4 text-sm text-slate-500">Loading GST settings...</p>
+			) : (
+				// Re-mount the form when the saved settings change so the draft starts from the latest values
+				<GstSettingsForm key={JSON.stringify(settings)} initialSettings={settings} />
+			)}
+		</section>
+	);
+}
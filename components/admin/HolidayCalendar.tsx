@@ -0,0 +1,161 @@
+'use client';
+
+import { useState } from 'react';
+import { addDoc, collection, deleteDoc, doc, serverTimestamp } from 'firebase/firestore';
+
+import { db } from '@/lib/firebase';
+import { useAuth } from '@/contexts/AuthContext';
+import { useClinicHolidays } from '@/hooks/useClinicHolidays';
+import { CLINIC_HOLIDAYS_COLLECTION, findHoliday, getDayName } from '@/lib/availability';
+
+const formatDateLabel = (value: string) => {
+	const parsed = new Date(value + 'T00:00:00');
+	if (Number.isNaN(parsed.getTime())) return value;
+	return new Intl.DateTimeFormat('en-US', {
+		month: 'short',
+		day: 'numeric',
+		year: 'numeric',
+	}).format(parsed);
+};
+
+export default function HolidayCalendar() {
+	const { user } = useAuth();
+	const { holidays, loading } = useClinicHolidays();
+	const [date, setDate] = useState('');
+	const [name, setName] = useState('');
+	const [saving, setSaving] = useState(false);
+	const [deletingId, setDeletingId] = useState<string | null>(null);
+
+	const todayKey = new Date().toISOString().split('T')[0];
+	const upcoming = holidays.filter(holiday => holiday.date >= todayKey);
+	const past = holidays.filter(holiday => holiday.date < todayKey).reverse();
+
+	const handleAdd = async (event: React.FormEvent) => {
+		event.preventDefault();
+		if (!date || !name.trim()) {
+			alert('Please enter both a date and a name for the holiday.');
+			return;
+		}
+		if (findHoliday(holidays, date)) {
+			alert('A holiday already exists on this date.');
+			return;
+		}
+
+		setSaving(true);
+		try {
+			await addDoc(collection(db, CLINIC_HOLIDAYS_COLLECTION), {
+				date,
+				name: name.trim(),
+				createdBy: user?.email || user?.displayName || 'Admin',
+				createdAt: serverTimestamp(),
+			});
+			setDate('');
+			setName('');
+		} catch (error) {
+			console.error('Failed to add holiday', error);
+			alert('Failed to add holiday. Please try again.');
+		} finally {
+			setSaving(false);
+		}
+	};
+
+	const handleDelete = async (id?: string) => {
+		if (!id) return;
+		if (!window.confirm('Remove this holiday? Therapists will be bookable on this date again.')) return;
+
+		setDeletingId(id);
+		try {
+			await deleteDoc(doc(db, CLINIC_HOLIDAYS_COLLECTION, id));
+		} catch (error) {
+			console.error('Failed to delete holiday', error);
+			alert('Failed to delete holiday. Please try again.');
+		} finally {
+			setDeletingId(null);
+		}
+	};
+
+	const renderList = (items: typeof holidays, emptyText: string) => {
+		if (items.length === 0) {
+			return <p className="text-sm text-slate-500">{emptyText}</p>;
+		}
+		return (
+			<ul className="divide-y divide-slate-100 rounded-lg border border-slate-200">
+				{items.map(holiday => (
+					<li key={holiday.id ?? holiday.date} className="flex items-center justify-between px-4 py-3">
+						<div>
+							<p className="text-sm font-semibold text-slate-900">{holiday.name}</p>
+							<p className="text-xs text-slate-500">
+								{formatDateLabel(holiday.date)} · {getDayName(holiday.date)}
+							</p>
+						</div>
+						<button
+							type="button"
+							onClick={() => handleDelete(holiday.id)}
+							disabled={deletingId === holiday.id}
+							className="text-sm font-medium text-rose-600 hover:text-rose-700 disabled:opacity-50"
+						>
+							<i className="fas fa-trash mr-1" aria-hidden="true" />
+							{deletingId === holiday.id ? 'Removing...' : 'Remove'}
+						</button>
+					</li>
+				))}
+			</ul>
+		);
+	};
+
+	return (
+		<div className="space-y-6 p-6">
+			<section className="section-card">
+				<h3 className="text-lg font-semibold text-slate-900">Add Clinic Holiday</h3>
+				<p className="mt-1 text-sm text-slate-600">
+					The centre is closed for everyone on these dates. No appointments can be booked and calendars show the day as closed.
+				</p>
+				<form onSubmit={handleAdd} className="mt-4 grid gap-4 sm:grid-cols-[200px_1fr_auto] sm:items-end">
+					<div>
+						<label className="block text-sm font-medium text-slate-700">Date</label>
+						<input
+							type="date"
+							value={date}
+							onChange={event => setDate(event.target.value)}
+							className="input-base mt-2"
+							required
+						/>
+					</div>
+					<div>
+						<label className="block text-sm font-medium text-slate-700">Name</label>
+						<input
+							type="text"
+							value={name}
+							onChange={event => setName(event.target.value)}
+							placeholder="e.g. Diwali"
+							className="input-base mt-2"
+							required
+						/>
+					</div>
+					<button type="submit" className="btn-primary" disabled={saving}>
+						<i className="fas fa-plus mr-2" aria-hidden="true" />
+						{saving ? 'Adding...' : 'Add Holiday'}
+					</button>
+				</form>
+			</section>
+
+			<section className="section-card">
+				<h3 className="text-lg font-semibold text-slate-900">Upcoming Holidays</h3>
+				<div className="mt-4">
+					{loading ? (
+						<p className="text-sm text-slate-500">Loading holidays...</p>
+					) : (
+						renderList(upcoming, 'No upcoming holidays.')
+					)}
+				</div>
+			</section>
+
+			{past.length > 0 && (
+				<section className="section-card">
+					<h3 className="text-lg font-semibold text-slate-900">Past Holidays</h3>
+					<div className="mt-4">{renderList(past, '')}</div>
+				</section>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,128 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { doc, onSnapshot, serverTimestamp, setDoc } from 'firebase/firestore';
+
+import { db } from '@/lib/firebase';
+import { useAuth } from '@/contexts/AuthContext';
+import { CLINIC_SETTINGS_COLLECTION } from '@/lib/noShowPolicy';
+import {
+	DEFAULT_INVOICE_NUMBERING,
+	INVOICE_COUNTERS_COLLECTION,
+	INVOICE_NUMBERING_DOC_ID,
+	formatInvoiceNumber,
+	getFinancialYear,
+	normalizeInvoiceNumberingSettings,
+	normalizeInvoicePrefix,
+	type InvoiceNumberingSettings as InvoiceNumberingSettingsValue,
+} from '@/lib/invoiceNumbering';
+
+function InvoicePrefixForm({ initialPrefix, nextSequence }: { initialPrefix: string; nextSequence: number }) {
+	const { user } = useAuth();
+	const [prefix, setPrefix] = useState(initialPrefix);
+	const [saving, setSaving] = useState(false);
+	const financialYear = getFinancialYear();
+
+	const handleSave = async (event: React.FormEvent) => {
+		event.preventDefault();
+		const normalized = normalizeInvoicePrefix(prefix);
+		if (normalized === initialPrefix) return;
+		if (!window.confirm(`Issue new invoice numbers as ${formatInvoiceNumber(normalized, nextSequence, financialYear.label)}? Invoices already issued keep their numbers.`)) {
+			return;
+		}
+
+		setSaving(true);
+		try {
+			await setDoc(doc(db, CLINIC_SETTINGS_COLLECTION, INVOICE_NUMBERING_DOC_ID), {
+				prefix: normalized,
+				updatedBy: user?.email || user?.displayName || 'Admin',
+				updatedAt: serverTimestamp(),
+			});
+			alert('Invoice prefix saved.');
+		} catch (error) {
+			console.error('Failed to save invoice prefix', error);
+			alert('Failed to save invoice prefix. Please try again.');
+		} finally {
+			setSaving(false);
+		}
+	};
+
+	return (
+		<form onSubmit={handleSave} className="mt-4 flex flex-wrap items-end gap-4">
+			<div>
+				<label className="block text-sm font-medium text-slate-700">Prefix</label>
+				<input
+					type="text"
+					value={prefix}
+					onChange={event => setPrefix(event.target.value.toUpperCase())}
+					maxLength={10}
+					className="input-base mt-2 w-40"
+				/>
+			</div>
+			<div className="text-sm text-slate-600">
+				Next invoice:{' '}
+				<span className="font-semibold text-slate-900">
+					{formatInvoiceNumber(normalizeInvoicePrefix(prefix), nextSequence, financialYear.label)}
+				</span>
+			</div>
+			<button type="submit" className="btn-primary" disabled={saving}>
+				<i className="fas fa-save mr-2" aria-hidden="true" />
+				{saving ? 'Saving...' : 'Save Prefix'}
+			</button>
+		</form>
+	);
+}
+
+/**
+ * Invoice number prefix and the next number due in the current financial year
+ */
+export default function InvoiceNumberingSettings() {
+	const [settings, setSettings] = useState<InvoiceNumberingSettingsValue>(DEFAULT_INVOICE_NUMBERING);
+	const [lastSequence, setLastSequence] = useState(0);
+	const [loading, setLoading] = useState(true);
+
+	useEffect(() => {
+		const unsubscribeSettings = onSnapshot(
+			doc(db, CLINIC_SETTINGS_COLLECTION, INVOICE_NUMBERING_DOC_ID),
+			snapshot => {
+				setSettings(normalizeInvoiceNumberingSettings(snapshot.exists() ? snapshot.data() : null));
+				setLoading(false);
+			},
+			error => {
+				console.error('Failed to load invoice numbering settings', error);
+				setSettings(DEFAULT_INVOICE_NUMBERING);
+				setLoading(false);
+			}
+		);
+		const unsubscribeCounter = onSnapshot(
+			doc(db, INVOICE_COUNTERS_COLLECTION, String(getFinancialYear().startYear)),
+			snapshot => {
+				const value = snapshot.exists() ? snapshot.data().lastSequence : 0;
+				setLastSequence(typeof value === 'number' ? value : 0);
+			},
+			error => {
+				console.error('Failed to load invoice counter', error);
+			}
+		);
+
+		return () => {
+			unsubscribeSettings();
+			unsubscribeCounter();
+		};
+	}, []);
+
+	return (
+		<section className="rounded-2xl bg-white p-6 shadow-[0_20px_50px_rgba(30,58,138,0.15)] border border-blue-100">
+			<h3 className="text-lg font-semibold text-slate-900">Invoice Numbering</h3>
+			<p className="text-sm text-slate-600">
+				Numbers are issued in sequence when an invoice is generated and restart at 1 each April. An issued number is never changed or reused.
+			</p>
+			{loading ? (
+				<p className="mt-4 text-sm text-slate-500">Loading invoice numbering...</p>
+			) : (
+				// Re-mount the form when the saved prefix changes so the input starts from the latest value
+				<InvoicePrefixForm key={settings.prefix} initialPrefix={settings.prefix} nextSequence={lastSequence + 1} />
+			)}
+		</section>
+	);
+}
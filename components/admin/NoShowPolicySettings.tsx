@@ -0,0 +1,124 @@
+'use client';
+
+import { useState } from 'react';
+import { doc, serverTimestamp, setDoc } from 'firebase/firestore';
+
+import { db } from '@/lib/firebase';
+import { useAuth } from '@/contexts/AuthContext';
+import { useNoShowPolicy } from '@/hooks/useNoShowPolicy';
+import { CLINIC_SETTINGS_COLLECTION, NO_SHOW_POLICY_DOC_ID, type NoShowPolicy } from '@/lib/noShowPolicy';
+
+function NoShowPolicyForm({ initialPolicy }: { initialPolicy: NoShowPolicy }) {
+	const { user } = useAuth();
+	const [draft, setDraft] = useState<NoShowPolicy>(initialPolicy);
+	const [saving, setSaving] = useState(false);
+
+	const handleSave = async (event: React.FormEvent) => {
+		event.preventDefault();
+		if (draft.feeEnabled && draft.feeAmount <= 0) {
+			alert('Please enter a fee amount greater than zero, or turn the no-show fee off.');
+			return;
+		}
+		if (draft.requireOverrideAfter > 0 && draft.warnAfter > draft.requireOverrideAfter) {
+			alert('The warning threshold cannot be higher than the override threshold.');
+			return;
+		}
+
+		setSaving(true);
+		try {
+			await setDoc(doc(db, CLINIC_SETTINGS_COLLECTION, NO_SHOW_POLICY_DOC_ID), {
+				...draft,
+				updatedBy: user?.email || user?.displayName || 'Admin',
+				updatedAt: serverTimestamp(),
+			});
+			alert('No-show policy saved.');
+		} catch (error) {
+			console.error('Failed to save no-show policy', error);
+			alert('Failed to save no-show policy. Please try again.');
+		} finally {
+			setSaving(false);
+		}
+	};
+
+	const updateCount = (key: 'warnAfter' | 'requireOverrideAfter', value: string) => {
+		const parsed = parseInt(value, 10);
+		setDraft(prev => ({ ...prev, [key]: Number.isNaN(parsed) || parsed < 0 ? 0 : parsed }));
+	};
+
+	return (
+		<div className="space-y-6 p-6">
+			<section className="section-card">
+				<h3 className="text-lg font-semibold text-slate-900">No-show Policy</h3>
+				<p className="mt-1 text-sm text-slate-600">
+					Applies when an appointment is marked as a no-show and when booking patients with earlier no-shows. Set a threshold to 0 to turn it off.
+				</p>
+				<form onSubmit={handleSave} className="mt-4 grid gap-4 sm:grid-cols-2">
+					<div>
+						<label className="block text-sm font-medium text-slate-700">Warn after (no-shows)</label>
+						<input
+							type="number"
+							min={0}
+							value={draft.warnAfter}
+							onChange={event => updateCount('warnAfter', event.target.value)}
+							className="input-base mt-2"
+						/>
+						<p className="mt-1 text-xs text-slate-500">Booking shows a warning once a patient reaches this count.</p>
+					</div>
+					<div>
+						<label className="block text-sm font-medium text-slate-700">Require override after (no-shows)</label>
+						<input
+							type="number"
+							min={0}
+							value={draft.requireOverrideAfter}
+							onChange={event => updateCount('requireOverrideAfter', event.target.value)}
+							className="input-base mt-2"
+						/>
+						<p className="mt-1 text-xs text-slate-500">Front desk must give a reason to book once a patient reaches this count.</p>
+					</div>
+					<div className="sm:col-span-2 flex items-center gap-3">
+						<input
+							id="no-show-fee-enabled"
+							type="checkbox"
+							checked={draft.feeEnabled}
+							onChange={event => setDraft(prev => ({ ...prev, feeEnabled: event.target.checked }))}
+							className="h-4 w-4 rounded border-slate-300 text-sky-600 focus:ring-sky-500"
+						/>
+						<label htmlFor="no-show-fee-enabled" className="text-sm font-medium text-slate-700">
+							Add a no-show fee to billing
+						</label>
+					</div>
+					{draft.feeEnabled && (
+						<div>
+							<label className="block text-sm font-medium text-slate-700">Fee amount (Rs.)</label>
+							<input
+								type="number"
+								min={0}
+								step="0.01"
+								value={draft.feeAmount}
+								onChange={event => setDraft(prev => ({ ...prev, feeAmount: parseFloat(event.target.value) || 0 }))}
+								className="input-base mt-2"
+							/>
+						</div>
+					)}
+					<div className="sm:col-span-2 flex justify-end">
+						<button type="submit" className="btn-primary" disabled={saving}>
+							<i className="fas fa-save mr-2" aria-hidden="true" />
+							{saving ? 'Saving...' : 'Save Policy'}
+						</button>
+					</div>
+				</form>
+			</section>
+		</div>
+	);
+}
+
+export default function NoShowPolicySettings() {
+	const { policy, loading } = useNoShowPolicy();
+
+	if (loading) {
+		return <p className="p-6 text-sm text-slate-500">Loading no-show policy...</p>;
+	}
+
+	// Re-mount the form when the saved policy changes so the draft starts from the latest values
+	return <NoShowPolicyForm key={JSON.stringify(policy)} initialPolicy={policy} />;
+}
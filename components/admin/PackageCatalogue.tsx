@@ -0,0 +1,350 @@
+'use client';
+
+import { useState } from 'react';
+import { addDoc, collection, doc, serverTimestamp, updateDoc, writeBatch } from 'firebase/firestore';
+
+import { db } from '@/lib/firebase';
+import { useAuth } from '@/contexts/AuthContext';
+import { usePackageCatalogue } from '@/hooks/usePackageCatalogue';
+import { SERVICE_CATALOG } from '@/lib/serviceCatalog';
+import { DEFAULT_PACKAGE_PLANS, PACKAGE_CATALOGUE_COLLECTION, type PackagePlan } from '@/lib/packages';
+
+interface PackageDraft {
+	name: string;
+	sessions: string;
+	price: string;
+	validityDays: string;
+	maxConcessionPercent: string;
+	serviceTypes: string[];
+	description: string;
+}
+
+const EMPTY_DRAFT: PackageDraft = {
+	name: '',
+	sessions: '',
+	price: '',
+	validityDays: '30',
+	maxConcessionPercent: '0',
+	serviceTypes: [],
+	description: '',
+};
+
+/**
+ * Packages the desk can enrol patients in. Editing a plan only affects enrolments made afterwards.
+ */
+export default function PackageCatalogue() {
+	const { user } = useAuth();
+	const { plans, loading } = usePackageCatalogue();
+	const [draft, setDraft] = useState<PackageDraft>(EMPTY_DRAFT);
+	const [editingId, setEditingId] = useState<string | null>(null);
+	const [saving, setSaving] = useState(false);
+	const [seeding, setSeeding] = useState(false);
+
+	const startEdit = (plan: PackagePlan) => {
+		setEditingId(plan.id);
+		setDraft({
+			name: plan.name,
+			sessions: String(plan.sessions),
+			price: String(plan.price),
+			validityDays: String(plan.validityDays),
+			maxConcessionPercent: String(plan.maxConcessionPercent),
+			serviceTypes: plan.serviceTypes,
+			description: plan.description ?? '',
+		});
+	};
+
+	const resetForm = () => {
+		setEditingId(null);
+		setDraft(EMPTY_DRAFT);
+	};
+
+	const toggleServiceType = (serviceTypeId: string) => {
+		setDraft(prev => ({
+			...prev,
+			serviceTypes: prev.serviceTypes.includes(serviceTypeId)
+				? prev.serviceTypes.filter(id => id !== serviceTypeId)
+				: [...prev.serviceTypes, serviceTypeId],
+		}));
+	};
+
+	const handleSave = async (event: React.FormEvent) => {
+		event.preventDefault();
+		const name = draft.name.trim();
+		const sessions = Number(draft.sessions);
+		const price = Number(draft.price);
+		const validityDays = Number(draft.validityDays);
+		const maxConcessionPercent = Number(draft.maxConcessionPercent || 0);
+		if (!name) {
+			alert('Please enter a name for the package.');
+			return;
+		}
+		if (plans.some(plan => plan.id !== editingId && plan.name.toLowerCase() === name.toLowerCase())) {
+			alert('A package with this name already exists.');
+			return;
+		}
+		if (!Number.isInteger(sessions) || sessions <= 0) {
+			alert('Sessions must be a positive whole number.');
+			return;
+		}
+		if (!Number.isFinite(price) || price <= 0) {
+			alert('Price must be greater than 0.');
+			return;
+		}
+		if (!Number.isInteger(validityDays) || validityDays <= 0) {
+			alert('Validity must be a positive number of days.');
+			return;
+		}
+		if (!Number.isFinite(maxConcessionPercent) || maxConcessionPercent < 0 || maxConcessionPercent > 100) {
+			alert('Allowed concession must be between 0 and 100%.');
+			return;
+		}
+
+		setSaving(true);
+		try {
+			const payload = {
+				name,
+				sessions,
+				price,
+				validityDays,
+				maxConcessionPercent,
+				serviceTypes: draft.serviceTypes,
+				description: draft.description.trim() || null,
+				updatedBy: user?.email || user?.displayName || 'Admin',
+				updatedAt: serverTimestamp(),
+			};
+			if (editingId) {
+				await updateDoc(doc(db, PACKAGE_CATALOGUE_COLLECTION, editingId), payload);
+			} else {
+				await addDoc(collection(db, PACKAGE_CATALOGUE_COLLECTION), { ...payload, active: true, createdAt: serverTimestamp() });
+			}
+			resetForm();
+		} catch (error) {
+			console.error('Failed to save package', error);
+			alert('Failed to save package. Please try again.');
+		} finally {
+			setSaving(false);
+		}
+	};
+
+	const handleToggleActive = async (plan: PackagePlan) => {
+		if (
+			plan.active &&
+			!window.confirm(`Retire ${plan.name}? Patients already enrolled keep their package, but no one new can be enrolled in it.`)
+		) {
+			return;
+		}
+		try {
+			await updateDoc(doc(db, PACKAGE_CATALOGUE_COLLECTION, plan.id), {
+				active: !plan.active,
+				updatedAt: serverTimestamp(),
+			});
+		} catch (error) {
+			console.error('Failed to update package', error);
+			alert('Failed to update package. Please try again.');
+		}
+	};
+
+	const handleLoadDefaults = async () => {
+		const existingNames = new Set(plans.map(plan => plan.name.toLowerCase()));
+		const missing = DEFAULT_PACKAGE_PLANS.filter(plan => !existingNames.has(plan.name.toLowerCase()));
+		if (missing.length === 0) {
+			alert('All default packages are already in the catalogue.');
+			return;
+		}
+
+		setSeeding(true);
+		try {
+			const batch = writeBatch(db);
+			missing.forEach(plan => {
+				batch.set(doc(collection(db, PACKAGE_CATALOGUE_COLLECTION)), {
+					...plan,
+					description: plan.description ?? null,
+					createdAt: serverTimestamp(),
+				});
+			});
+			await batch.commit();
+		} catch (error) {
+			console.error('Failed to load default packages', error);
+			alert('Failed to load default packages. Please try again.');
+		} finally {
+			setSeeding(false);
+		}
+	};
+
+	return (
+		<section className="rounded-2xl bg-white p-6 shadow-[0_20px_50px_rgba(30,58,138,0.15)] border border-blue-100">
+			<div className="flex items-start justify-between gap-4">
+				<div>
+					<h3 className="text-lg font-semibold text-slate-900">Package Catalogue</h3>
+					<p className="text-sm text-slate-600">
+						Patients are enrolled in these packages from the front desk. Their sessions, expiry and bill come from the package they were enrolled in.
+					</p>
+				</div>
+				<button type="button" onClick={handleLoadDefaults} className="btn-secondary shrink-0" disabled={seeding}>
+					<i className="fas fa-download mr-2" aria-hidden="true" />
+					{seeding ? 'Loading...' : 'Load Default Packages'}
+				</button>
+			</div>
+
+			<form onSubmit={handleSave} className="mt-4 space-y-4">
+				<h4 className="text-sm font-semibold text-slate-900">{editingId ? 'Edit Package' : 'Add Package'}</h4>
+				<div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-5">
+					<div className="sm:col-span-2 lg:col-span-5">
+						<label className="block text-sm font-medium text-slate-700">Name</label>
+						<input
+							type="text"
+							value={draft.name}
+							onChange={event => setDraft(prev => ({ ...prev, name: event.target.value }))}
+							placeholder="e.g. Physiotherapy - 1 Month (12 Sessions)"
+							className="input-base mt-2"
+							required
+						/>
+					</div>
+					<div>
+						<label className="block text-sm font-medium text-slate-700">Sessions</label>
+						<input
+							type="number"
+							min="1"
+							step="1"
+							value={draft.sessions}
+							onChange={event => setDraft(prev => ({ ...prev, sessions: event.target.value }))}
+							className="input-base mt-2"
+							required
+						/>
+					</div>
+					<div>
+						<label className="block text-sm font-medium text-slate-700">Price (Rs.)</label>
+						<input
+							type="number"
+							min="0"
+							step="0.01"
+							value={draft.price}
+							onChange={event => setDraft(prev => ({ ...prev, price: event.target.value }))}
+							className="input-base mt-2"
+							required
+						/>
+					</div>
+					<div>
+						<label className="block text-sm font-medium text-slate-700">Valid for (days)</label>
+						<input
+							type="number"
+							min="1"
+							step="1"
+							value={draft.validityDays}
+							onChange={event => setDraft(prev => ({ ...prev, validityDays: event.target.value }))}
+							className="input-base mt-2"
+							required
+						/>
+					</div>
+					<div>
+						<label className="block text-sm font-medium text-slate-700">Max concession (%)</label>
+						<input
+							type="number"
+							min="0"
+							max="100"
+							step="0.01"
+							value={draft.maxConcessionPercent}
+							onChange={event => setDraft(prev => ({ ...prev, maxConcessionPercent: event.target.value }))}
+							className="input-base mt-2"
+						/>
+					</div>
+				</div>
+				<div>
+					<label className="block text-sm font-medium text-slate-700">Eligible services</label>
+					<p className="mt-1 text-xs text-slate-500">Only appointments for these services use a session. Leave empty to allow any service.</p>
+					<div className="mt-2 flex flex-wrap gap-2">
+						{SERVICE_CATALOG.map(service => {
+							const selected = draft.serviceTypes.includes(service.id);
+							return (
+								<button
+									key={service.id}
+									type="button"
+									onClick={() => toggleServiceType(service.id)}
+									className={`rounded-full border px-3 py-1 text-xs font-medium transition ${
+										selected
+											? 'border-sky-500 bg-sky-50 text-sky-700'
+											: 'border-slate-200 bg-white text-slate-600 hover:border-slate-300'
+									}`}
+								>
+									{selected && <i className="fas fa-check mr-1" aria-hidden="true" />}
+									{service.name}
+								</button>
+							);
+						})}
+					</div>
+				</div>
+				<div>
+					<label className="block text-sm font-medium text-slate-700">Description (optional)</label>
+					<input
+						type="text"
+						value={draft.description}
+						onChange={event => setDraft(prev => ({ ...prev, description: event.target.value }))}
+						placeholder="e.g. Includes 4 rehab sessions"
+						className="input-base mt-2"
+					/>
+				</div>
+				<div className="flex justify-end gap-3">
+					{editingId && (
+						<button type="button" onClick={resetForm} className="btn-secondary" disabled={saving}>
+							Cancel
+						</button>
+					)}
+					<button type="submit" className="btn-primary" disabled={saving}>
+						<i className={`fas ${editingId ? 'fa-save' : 'fa-plus'} mr-2`} aria-hidden="true" />
+						{saving ? 'Saving...' : editingId ? 'Save Package' : 'Add Package'}
+					</button>
+				</div>
+			</form>
+
+			<div className="mt-6">
+				{loading ? (
+					<p className="text-sm text-slate-500">Loading packages...</p>
+				) : plans.length === 0 ? (
+					<p className="text-sm text-slate-500">No packages yet. Add one above or load the defaults.</p>
+				) : (
+					<ul className="divide-y divide-slate-100 rounded-lg border border-slate-200">
+						{plans.map(plan => (
+							<li key={plan.id} className="flex items-center justify-between gap-4 px-4 py-3">
+								<div className={plan.active ? '' : 'opacity-60'}>
+									<p className="text-sm font-semibold text-slate-900">
+										{plan.name}
+										{!plan.active && <span className="ml-2 text-xs font-medium text-slate-500">(Retired)</span>}
+									</p>
+									<p className="text-xs text-slate-500">
+										{plan.sessions} sessions · Rs. {plan.price.toFixed(2)} · Valid {plan.validityDays} days
+										{plan.maxConcessionPercent > 0 ? ` · Up to ${plan.maxConcessionPercent}% concession` : ' · No concession'}
+										{plan.serviceTypes.length > 0 &&
+											` · ${plan.serviceTypes
+												.map(id => SERVICE_CATALOG.find(service => service.id === id)?.name ?? id)
+												.join(', ')}`}
+										{plan.description && ` · ${plan.description}`}
+									</p>
+								</div>
+								<div className="flex items-center gap-4">
+									<button
+										type="button"
+										onClick={() => startEdit(plan)}
+										className="text-sm font-medium text-sky-600 hover:text-sky-700"
+									>
+										<i className="fas fa-pen mr-1" aria-hidden="true" />
+										Edit
+									</button>
+									<button
+										type="button"
+										onClick={() => handleToggleActive(plan)}
+										className={`text-sm font-medium ${
+											plan.active ? 'text-rose-600 hover:text-rose-700' : 'text-emerald-600 hover:text-emerald-700'
+										}`}
+									>
+										<i className={`fas ${plan.active ? 'fa-ban' : 'fa-check'} mr-1`} aria-hidden="true" />
+										{plan.active ? 'Retire' : 'Reinstate'}
+									</button>
+								</div>
+							</li>
+						))}
+					</ul>
+				)}
+			</div>
+		</section>
+	);
+}
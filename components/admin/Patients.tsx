@@ -35,6 +35,10 @@ import ReportModal from '@/components/frontdesk/ReportModal';
 import { createInitialSessionAllowance } from '@/lib/sessionAllowance';
 import type { SessionAllowance } from '@/lib/types';
 import { checkAppointmentConflict, checkAvailabilityConflict } from '@/lib/appointmentUtils';
+import type { WeeklyAvailability } from '@/lib/availability';
+import { useClinicHolidays } from '@/hooks/useClinicHolidays';
+import { resolveAppointmentDuration } from '@/lib/serviceCatalog';
+import ServiceSelect from '@/components/appointments/ServiceSelect';
 import type { AdminAppointmentRecord } from '@/lib/adminMockData';
 
 const genderOptions: Array<{ value: AdminGenderOption; label: string }> = [
@@ -193,6 +197,7 @@ interface PatientExtras {
 
 export default function Patients() {
 	const { user } = useAuth();
+	const { holidays } = useClinicHolidays();
 	const [patients, setPatients] = useState<AdminPatientRecord[]>([]);
 	const [loading, setLoading] = useState(true);
 	const [searchTerm, setSearchTerm] = useState('');
@@ -245,6 +250,7 @@ export default function Patients() {
 		date: '',
 		time: '',
 		notes: '',
+		serviceType: '',
 	});
 	const [staff, setStaff] = useState<Array<{
 		id: string;
@@ -252,6 +258,7 @@ export default function Patients() {
 		role: string;
 		status: string;
 		userEmail?: string;
+		weeklyAvailability?: WeeklyAvailability;
 		dateSpecificAvailability?: {
 			[date: string]: {
 				enabled: boolean;
@@ -334,6 +341,7 @@ export default function Patients() {
 						role: data.role ? String(data.role) : '',
 						status: data.status ? String(data.status) : '',
 						userEmail: data.userEmail ? String(data.userEmail) : undefined,
+						weeklyAvailability: data.weeklyAvailability as WeeklyAvailability | undefined,
 						dateSpecificAvailability: data.dateSpecificAvailability as {
 							[date: string]: {
 								enabled: boolean;
@@ -370,6 +378,8 @@ export default function Patients() {
 						date: data.date ? String(data.date) : '',
 						time: data.time ? String(data.time) : '',
 						status: (data.status as 'pending' | 'ongoing' | 'completed' | 'cancelled') ?? 'pending',
+						duration: typeof data.duration === 'number' ? data.duration : undefined,
+						serviceType: data.serviceType ? String(data.serviceType) : undefined,
 						createdAt: created ? created.toISOString() : (data.createdAt as string | undefined) || new Date().toISOString(),
 					} as AdminAppointmentRecord & { id?: string };
 				});
@@ -384,6 +394,9 @@ export default function Patients() {
 		return () => unsubscribe();
 	}, []);
 
+	// How long the new appointment lasts, from the chosen service
+	const bookingDuration = resolveAppointmentDuration({ serviceType: bookingForm.serviceType });
+
 	const doctorOptionsForBooking = useMemo(() => {
 		const base = staff
 			.filter(member => member.role === 'ClinicalTeam' && member.status !== 'Inactive')
@@ -399,13 +412,15 @@ export default function Patients() {
 			const member = staff.find(staffMember => staffMember.userName === name);
 			if (!member) return false;
 			const availability = checkAvailabilityConflict(
-				member.dateSpecificAvailability,
+				member,
 				bookingForm.date,
-				bookingForm.time
+				bookingForm.time,
+				bookingDuration,
+				holidays
 			);
 			return availability.isAvailable;
 		});
-	}, [staff, bookingForm.date, bookingForm.time]);
+	}, [staff, bookingForm.date, bookingForm.time, bookingDuration, holidays]);
 
 	const doctorOptions = useMemo(() => {
 		const doctors = new Set<string>();
@@ -580,6 +595,7 @@ export default function Patients() {
 			date: '',
 			time: '',
 			notes: '',
+			serviceType: '',
 		});
 		setIsBookingModalOpen(false);
 	};
@@ -614,11 +630,14 @@ export default function Patients() {
 					date: appointment.date || '',
 					time: appointment.time || '',
 					status: appointment.status || 'pending',
+					duration: appointment.duration,
+					serviceType: appointment.serviceType,
 				})),
 			{
 				doctor: bookingForm.doctor,
 				date: bookingForm.date,
 				time: bookingForm.time,
+				duration: bookingDuration,
 			}
 		);
 
@@ -652,6 +671,8 @@ export default function Patients() {
 				doctor: bookingForm.doctor,
 				date: bookingForm.date,
 				time: bookingForm.time,
+				duration: bookingDuration,
+				serviceType: bookingForm.serviceType || null,
 				status: 'pending',
 				notes: bookingForm.notes.trim() || null,
 				isConsultation: false,
@@ -1890,7 +1911,7 @@ export default function Patients() {
 				
 				// Check if all appointments are completed or cancelled
 				const allCompleted = patientAppointments.every((apt: any) => 
-					apt.status === 'completed' || apt.status === 'cancelled'
+					apt.status === 'completed' || apt.status === 'cancelled' || apt.status === 'no-show'
 				);
 				
 				// Update patient status if needed
@@ -2069,6 +2090,7 @@ export default function Patients() {
 															date: '',
 															time: '',
 															notes: '',
+															serviceType: '',
 														});
 														setIsBookingModalOpen(true);
 														setShowActionsDropdown(false);
@@ -3300,6 +3322,12 @@ export default function Patients() {
 									</div>
 								</div>
 
+								<ServiceSelect
+									value={bookingForm.serviceType}
+									onChange={serviceType => setBookingForm(prev => ({ ...prev, serviceType }))}
+									disabled={bookingLoading}
+								/>
+
 								<div>
 									<label className="block text-sm font-medium text-slate-700">Notes (optional)</label>
 									<textarea
@@ -11,6 +11,7 @@ import {
 import { db } from '@/lib/firebase';
 import PageHeader from '@/components/PageHeader';
 import StatsChart from '@/components/dashboard/StatsChart';
+import { getNetBillAmount, netOfReversals } from '@/lib/creditNotes';
 import { generatePhysiotherapyReportPDF, generateStrengthConditioningPDF, type StrengthConditioningData } from '@/lib/pdfGenerator';
 
 interface StaffMember {
@@ -98,8 +99,9 @@ interface BillingRecord {
 	patientId: string;
 	doctor?: string;
 	amount: number;
-	status: 'Pending' | 'Completed' | 'Auto-Paid';
+	status: 'Pending' | 'Completed' | 'Auto-Paid' | 'Voided';
 	date: string;
+	creditedAmount?: number; // Running total of credit notes issued against the bill
 }
 
 export default function Reports() {
@@ -255,8 +257,9 @@ export default function Reports() {
 						patientId: data.patientId ? String(data.patientId) : '',
 						doctor: data.doctor ? String(data.doctor) : undefined,
 						amount: typeof data.amount === 'number' ? data.amount : Number(data.amount) || 0,
-						status: (data.status as 'Pending' | 'Completed' | 'Auto-Paid') ?? 'Pending',
+						status: (data.status as BillingRecord['status']) ?? 'Pending',
 						date: data.date ? String(data.date) : '',
+						creditedAmount: typeof data.creditedAmount === 'number' ? data.creditedAmount : undefined,
 					} as BillingRecord;
 				});
 				// Force update by creating a new array reference
@@ -284,6 +287,15 @@ export default function Reports() {
 		return Array.from(set).sort((a, b) => a.localeCompare(b));
 	}, [staff, appointments]);
 
+	// Bills by appointment, so revenue counted from appointments can be netted of refunds, credit notes and voids
+	const billingByAppointmentId = useMemo(() => {
+		const map = new Map<string, BillingRecord>();
+		billing.forEach(bill => {
+			if (bill.appointmentId) map.set(bill.appointmentId, bill);
+		});
+		return map;
+	}, [billing]);
+
 	// Clinician Performance Analytics
 	const clinicianAnalytics = useMemo(() => {
 		if (!selectedPhysician) {
@@ -335,7 +347,8 @@ export default function Reports() {
 			
 			if (apt.billing?.amount) {
 				const amount = Number(apt.billing.amount);
-				return sum + (Number.isFinite(amount) ? amount : 0);
+				const bill = apt.appointmentId ? billingByAppointmentId.get(apt.appointmentId) : undefined;
+				return sum + (Number.isFinite(amount) ? netOfReversals(amount, bill) : 0);
 			}
 			return sum;
 		}, 0);
@@ -351,7 +364,7 @@ export default function Reports() {
 			totalRevenue,
 			totalHours,
 		};
-	}, [selectedPhysician, appointments, patients]);
+	}, [selectedPhysician, appointments, patients, billingByAppointmentId]);
 
 	// Activities and Appointments Distribution by Clinical Team (Pie Chart Data)
 	const activitiesDistributionData = useMemo(() => {
@@ -696,8 +709,7 @@ export default function Reports() {
 				const isReferral = patient && (patient.patientType || '').toUpperCase() === 'REFERRAL';
 				if (isVIP || isReferral) return sum;
 				
-				const amount = Number.isFinite(bill.amount) ? bill.amount : 0;
-				return sum + (amount > 0 ? amount : 0);
+				return sum + getNetBillAmount(bill);
 			}, 0);
 
 			return {
@@ -1207,7 +1219,8 @@ export default function Reports() {
 			const totalRevenue = physicianAppointments.reduce((sum, apt) => {
 				if (apt.billing?.amount) {
 					const amount = Number(apt.billing.amount);
-					return sum + (Number.isFinite(amount) ? amount : 0);
+					const bill = apt.appointmentId ? billingByAppointmentId.get(apt.appointmentId) : undefined;
+					return sum + (Number.isFinite(amount) ? netOfReversals(amount, bill) : 0);
 				}
 				return sum;
 			}, 0);
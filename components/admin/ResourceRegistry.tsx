@@ -0,0 +1,284 @@
+'use client';
+
+import { useState } from 'react';
+import { addDoc, collection, doc, serverTimestamp, updateDoc, writeBatch } from 'firebase/firestore';
+
+import { db } from '@/lib/firebase';
+import { useAuth } from '@/contexts/AuthContext';
+import { useClinicResources } from '@/hooks/useClinicResources';
+import { SERVICE_CATALOG } from '@/lib/serviceCatalog';
+import {
+	DEFAULT_CLINIC_RESOURCES,
+	RESOURCES_COLLECTION,
+	RESOURCE_KIND_LABELS,
+	type ClinicResource,
+	type ResourceKind,
+} from '@/lib/resources';
+
+interface ResourceDraft {
+	name: string;
+	kind: ResourceKind;
+	serviceTypes: string[];
+	notes: string;
+}
+
+const EMPTY_DRAFT: ResourceDraft = { name: '', kind: 'bay', serviceTypes: [], notes: '' };
+
+export default function ResourceRegistry() {
+	const { user } = useAuth();
+	const { resources, loading } = useClinicResources();
+	const [draft, setDraft] = useState<ResourceDraft>(EMPTY_DRAFT);
+	const [editingId, setEditingId] = useState<string | null>(null);
+	const [saving, setSaving] = useState(false);
+	const [seeding, setSeeding] = useState(false);
+
+	const startEdit = (resource: ClinicResource) => {
+		setEditingId(resource.id);
+		setDraft({
+			name: resource.name,
+			kind: resource.kind,
+			serviceTypes: resource.serviceTypes,
+			notes: resource.notes ?? '',
+		});
+	};
+
+	const resetForm = () => {
+		setEditingId(null);
+		setDraft(EMPTY_DRAFT);
+	};
+
+	const toggleServiceType = (serviceTypeId: string) => {
+		setDraft(prev => ({
+			...prev,
+			serviceTypes: prev.serviceTypes.includes(serviceTypeId)
+				? prev.serviceTypes.filter(id => id !== serviceTypeId)
+				: [...prev.serviceTypes, serviceTypeId],
+		}));
+	};
+
+	const handleSave = async (event: React.FormEvent) => {
+		event.preventDefault();
+		const name = draft.name.trim();
+		if (!name) {
+			alert('Please enter a name for the resource.');
+			return;
+		}
+		if (resources.some(resource => resource.id !== editingId && resource.name.toLowerCase() === name.toLowerCase())) {
+			alert('A resource with this name already exists.');
+			return;
+		}
+
+		setSaving(true);
+		try {
+			const payload = {
+				name,
+				kind: draft.kind,
+				serviceTypes: draft.serviceTypes,
+				notes: draft.notes.trim() || null,
+				updatedBy: user?.email || user?.displayName || 'Admin',
+				updatedAt: serverTimestamp(),
+			};
+			if (editingId) {
+				await updateDoc(doc(db, RESOURCES_COLLECTION, editingId), payload);
+			} else {
+				await addDoc(collection(db, RESOURCES_COLLECTION), { ...payload, active: true, createdAt: serverTimestamp() });
+			}
+			resetForm();
+		} catch (error) {
+			console.error('Failed to save resource', error);
+			alert('Failed to save resource. Please try again.');
+		} finally {
+			setSaving(false);
+		}
+	};
+
+	const handleToggleActive = async (resource: ClinicResource) => {
+		if (
+			resource.active &&
+			!window.confirm(`Deactivate ${resource.name}? It can no longer be added to new appointments.`)
+		) {
+			return;
+		}
+		try {
+			await updateDoc(doc(db, RESOURCES_COLLECTION, resource.id), {
+				active: !resource.active,
+				updatedAt: serverTimestamp(),
+			});
+		} catch (error) {
+			console.error('Failed to update resource', error);
+			alert('Failed to update resource. Please try again.');
+		}
+	};
+
+	const handleLoadDefaults = async () => {
+		const existingNames = new Set(resources.map(resource => resource.name.toLowerCase()));
+		const missing = DEFAULT_CLINIC_RESOURCES.filter(resource => !existingNames.has(resource.name.toLowerCase()));
+		if (missing.length === 0) {
+			alert('All default resources are already in the registry.');
+			return;
+		}
+
+		setSeeding(true);
+		try {
+			const batch = writeBatch(db);
+			missing.forEach(resource => {
+				batch.set(doc(collection(db, RESOURCES_COLLECTION)), {
+					...resource,
+					notes: resource.notes ?? null,
+					createdAt: serverTimestamp(),
+				});
+			});
+			await batch.commit();
+		} catch (error) {
+			console.error('Failed to load default resources', error);
+			alert('Failed to load default resources. Please try again.');
+		} finally {
+			setSeeding(false);
+		}
+	};
+
+	return (
+		<div className="space-y-6 p-6">
+			<section className="section-card">
+				<div className="flex items-start justify-between gap-4">
+					<div>
+						<h3 className="text-lg font-semibold text-slate-900">{editingId ? 'Edit Resource' : 'Add Resource'}</h3>
+						<p className="mt-1 text-sm text-slate-600">
+							Treatment bays and equipment are booked alongside the therapist. An appointment cannot be booked when one of its resources is already in use.
+						</p>
+					</div>
+					<button type="button" onClick={handleLoadDefaults} className="btn-secondary shrink-0" disabled={seeding}>
+						<i className="fas fa-download mr-2" aria-hidden="true" />
+						{seeding ? 'Loading...' : 'Load Default Resources'}
+					</button>
+				</div>
+				<form onSubmit={handleSave} className="mt-4 space-y-4">
+					<div className="grid gap-4 sm:grid-cols-[1fr_200px]">
+						<div>
+							<label className="block text-sm font-medium text-slate-700">Name</label>
+							<input
+								type="text"
+								value={draft.name}
+								onChange={event => setDraft(prev => ({ ...prev, name: event.target.value }))}
+								placeholder="e.g. Bay 5"
+								className="input-base mt-2"
+								required
+							/>
+						</div>
+						<div>
+							<label className="block text-sm font-medium text-slate-700">Type</label>
+							<select
+								value={draft.kind}
+								onChange={event => setDraft(prev => ({ ...prev, kind: event.target.value as ResourceKind }))}
+								className="select-base mt-2"
+							>
+								{(Object.keys(RESOURCE_KIND_LABELS) as ResourceKind[]).map(kind => (
+									<option key={kind} value={kind}>
+										{RESOURCE_KIND_LABELS[kind]}
+									</option>
+								))}
+							</select>
+						</div>
+					</div>
+					<div>
+						<label className="block text-sm font-medium text-slate-700">Required for service types</label>
+						<p className="mt-1 text-xs text-slate-500">Booking one of these services reserves this resource automatically.</p>
+						<div className="mt-2 flex flex-wrap gap-2">
+							{SERVICE_CATALOG.map(service => {
+								const selected = draft.serviceTypes.includes(service.id);
+								return (
+									<button
+										key={service.id}
+										type="button"
+										onClick={() => toggleServiceType(service.id)}
+										className={`rounded-full border px-3 py-1 text-xs font-medium transition ${
+											selected
+												? 'border-sky-500 bg-sky-50 text-sky-700'
+												: 'border-slate-200 bg-white text-slate-600 hover:border-slate-300'
+										}`}
+									>
+										{selected && <i className="fas fa-check mr-1" aria-hidden="true" />}
+										{service.name}
+									</button>
+								);
+							})}
+						</div>
+					</div>
+					<div>
+						<label className="block text-sm font-medium text-slate-700">Notes (optional)</label>
+						<input
+							type="text"
+							value={draft.notes}
+							onChange={event => setDraft(prev => ({ ...prev, notes: event.target.value }))}
+							placeholder="e.g. Ground floor, next to the gym"
+							className="input-base mt-2"
+						/>
+					</div>
+					<div className="flex justify-end gap-3">
+						{editingId && (
+							<button type="button" onClick={resetForm} className="btn-secondary" disabled={saving}>
+								Cancel
+							</button>
+						)}
+						<button type="submit" className="btn-primary" disabled={saving}>
+							<i className={`fas ${editingId ? 'fa-save' : 'fa-plus'} mr-2`} aria-hidden="true" />
+							{saving ? 'Saving...' : editingId ? 'Save Resource' : 'Add Resource'}
+						</button>
+					</div>
+				</form>
+			</section>
+
+			<section className="section-card">
+				<h3 className="text-lg font-semibold text-slate-900">Resource Registry</h3>
+				<div className="mt-4">
+					{loading ? (
+						<p className="text-sm text-slate-500">Loading resources...</p>
+					) : resources.length === 0 ? (
+						<p className="text-sm text-slate-500">No resources yet. Add one above or load the defaults.</p>
+					) : (
+						<ul className="divide-y divide-slate-100 rounded-lg border border-slate-200">
+							{resources.map(resource => (
+								<li key={resource.id} className="flex items-center justify-between gap-4 px-4 py-3">
+									<div className={resource.active ? '' : 'opacity-60'}>
+										<p className="text-sm font-semibold text-slate-900">
+											{resource.name}
+											{!resource.active && <span className="ml-2 text-xs font-medium text-slate-500">(Inactive)</span>}
+										</p>
+										<p className="text-xs text-slate-500">
+											{RESOURCE_KIND_LABELS[resource.kind]}
+											{resource.serviceTypes.length > 0 &&
+												` · Required for ${resource.serviceTypes
+													.map(id => SERVICE_CATALOG.find(service => service.id === id)?.name ?? id)
+													.join(', ')}`}
+											{resource.notes && ` · ${resource.notes}`}
+										</p>
+									</div>
+									<div className="flex items-center gap-4">
+										<button
+											type="button"
+											onClick={() => startEdit(resource)}
+											className="text-sm font-medium text-sky-600 hover:text-sky-700"
+										>
+											<i className="fas fa-pen mr-1" aria-hidden="true" />
+											Edit
+										</button>
+										<button
+											type="button"
+											onClick={() => handleToggleActive(resource)}
+											className={`text-sm font-medium ${
+												resource.active ? 'text-rose-600 hover:text-rose-700' : 'text-emerald-600 hover:text-emerald-700'
+											}`}
+										>
+											<i className={`fas ${resource.active ? 'fa-ban' : 'fa-check'} mr-1`} aria-hidden="true" />
+											{resource.active ? 'Deactivate' : 'Activate'}
+										</button>
+									</div>
+								</li>
+							))}
+						</ul>
+					)}
+				</div>
+			</section>
+		</div>
+	);
+}
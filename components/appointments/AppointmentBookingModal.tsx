@@ -7,6 +7,14 @@ import type { AdminAppointmentStatus } from '@/lib/adminMockData';
 import { sendEmailNotification } from '@/lib/email';
 import { sendSMSNotification, isValidPhoneNumber } from '@/lib/sms';
 import { sendWhatsAppNotification } from '@/lib/whatsapp';
+import { SERVICE_CATALOG, getServiceType, resolveAppointmentDuration } from '@/lib/serviceCatalog';
+import { resolveDayAvailability, type WeeklyAvailability } from '@/lib/availability';
+import type { AvailableSlot } from '@/lib/appointmentUtils';
+import { useClinicHolidays } from '@/hooks/useClinicHolidays';
+import { useClinicResources } from '@/hooks/useClinicResources';
+import { checkAppointmentConflict } from '@/lib/appointmentUtils';
+import { formatResourceNames, getAppointmentResourceIds, getServiceResourceIds } from '@/lib/resources';
+import ResourcePicker from '@/components/appointments/ResourcePicker';
 
 interface Patient {
 	id?: string;
@@ -33,6 +41,7 @@ interface StaffMember {
 	availability?: {
 		[day: string]: DayAvailability;
 	};
+	weeklyAvailability?: WeeklyAvailability;
 	dateSpecificAvailability?: DateSpecificAvailability;
 }
 
@@ -44,6 +53,8 @@ interface Appointment {
 	time?: string;
 	status?: string;
 	duration?: number;
+	serviceType?: string;
+	resourceIds?: string[];
 	isConsultation?: boolean;
 	packageBillingId?: string;
 	sessionNumber?: number;
@@ -60,7 +71,7 @@ interface AppointmentBookingModalProps {
 	allowConsultation?: boolean; // If false, prevents consultation booking
 	defaultClinician?: string; // Pre-fill clinician (e.g., logged-in user)
 	hideClinicianSelection?: boolean; // Hide clinician selection (use defaultClinician)
-	appointments?: Array<{ patientId?: string; doctor: string; date: string; time: string; status: string; duration?: number; isConsultation?: boolean }>; // Existing appointments for conflict checking
+	appointments?: Array<{ patientId?: string; doctor: string; date: string; time: string; status: string; duration?: number; serviceType?: string; isConsultation?: boolean }>; // Existing appointments for conflict checking
 	initialAppointment?: Appointment | null; // If provided, update this appointment instead of creating a new one
 	allowPastTimeSlots?: boolean; // Allow booking past time slots (for clinical team)
 }
@@ -97,6 +108,7 @@ async function generateAppointmentId(): Promise<string> {
 
 const SLOT_INTERVAL_MINUTES = 30;
 const MAX_BLOCK_DURATION_MINUTES = 120;
+const SUGGESTION_COUNT = 5;
 
 function formatDurationLabel(minutes: number) {
 	if (minutes % 60 === 0) {
@@ -134,6 +146,11 @@ function formatDateKey(dateString: string): string {
 	return `${year}-${month}-${day}`;
 }
 
+function getTodayKey(): string {
+	const today = new Date();
+	return `${today.getFullYear()}-${String(today.getMonth() + 1).padStart(2, '0')}-${String(today.getDate()).padStart(2, '0')}`;
+}
+
 function getDayOfWeek(dateString: string): string {
 	if (!dateString) return '';
 	const date = new Date(dateString + 'T00:00:00');
@@ -160,12 +177,20 @@ export default function AppointmentBookingModal({
 		date: '',
 		time: '',
 		notes: '',
+		serviceType: '',
+		resourceIds: [] as string[],
 	});
 	const [errors, setErrors] = useState<Partial<Record<'doctor' | 'date' | 'time', string>>>({});
 	const [submitting, setSubmitting] = useState(false);
 	const [clinicianTypeFilter, setClinicianTypeFilter] = useState<'all' | 'Physiotherapist' | 'StrengthAndConditioning'>('all');
 	const [selectedSlots, setSelectedSlots] = useState<string[]>([]);
-	const [allClinicianAppointments, setAllClinicianAppointments] = useState<Array<{ id?: string; doctor: string; date: string; time: string; status: string; duration?: number }>>([]);
+	const [allClinicianAppointments, setAllClinicianAppointments] = useState<Array<{ id?: string; doctor: string; date: string; time: string; status: string; duration?: number; serviceType?: string }>>([]);
+	const [suggestionScope, setSuggestionScope] = useState<'clinician' | 'any'>('clinician');
+	const [suggestions, setSuggestions] = useState<AvailableSlot[]>([]);
+	const [loadingSuggestions, setLoadingSuggestions] = useState(false);
+	const [suggestionError, setSuggestionError] = useState<string | null>(null);
+	const { holidays } = useClinicHolidays();
+	const { resources } = useClinicResources();
 
 	const filteredClinicians = useMemo(() => {
 		if (clinicianTypeFilter === 'all') {
@@ -182,10 +207,16 @@ export default function AppointmentBookingModal({
 				date: initialAppointment.date || '',
 				time: initialAppointment.time || '',
 				notes: '', // Don't pre-fill notes
+				serviceType: initialAppointment.serviceType || '',
+				resourceIds: initialAppointment.resourceIds ?? [],
 			});
-			// Pre-select time slot if time exists
+			// Pre-select the time slots covered by the existing appointment
 			if (initialAppointment.time) {
-				setSelectedSlots([initialAppointment.time]);
+				const blocks = Math.ceil(resolveAppointmentDuration(initialAppointment) / SLOT_INTERVAL_MINUTES);
+				const startMinutes = timeStringToMinutes(initialAppointment.time);
+				setSelectedSlots(
+					Array.from({ length: blocks }, (_, block) => minutesToTimeString(startMinutes + block * SLOT_INTERVAL_MINUTES))
+				);
 			} else {
 				setSelectedSlots([]);
 			}
@@ -196,6 +227,8 @@ export default function AppointmentBookingModal({
 				date: '',
 				time: '',
 				notes: '',
+				serviceType: '',
+				resourceIds: [],
 			});
 			setSelectedSlots([]);
 		}
@@ -235,6 +268,7 @@ export default function AppointmentBookingModal({
 						time: data.time ? String(data.time) : '',
 						status: data.status ? String(data.status) : 'pending',
 						duration: typeof data.duration === 'number' ? data.duration : undefined,
+						serviceType: data.serviceType ? String(data.serviceType) : undefined,
 					};
 				});
 				if (process.env.NODE_ENV === 'development') {
@@ -263,43 +297,9 @@ export default function AppointmentBookingModal({
 		return () => unsubscribe();
 	}, [isOpen, form.doctor, hideClinicianSelection, defaultClinician]);
 
-	// Default availability: 9 AM to 6 PM for all days except Sunday
-	const DEFAULT_START_TIME = '09:00';
-	const DEFAULT_END_TIME = '18:00';
-	const DEFAULT_DAY_AVAILABILITY: DayAvailability = {
-		enabled: true,
-		slots: [{ start: DEFAULT_START_TIME, end: DEFAULT_END_TIME }],
-	};
-
-	// Get availability for a specific date (checks date-specific, falls back to default availability)
+	// Get availability for a specific date (clinic holidays, date-specific overrides, then the weekly pattern)
 	const getDateAvailability = (staffMember: StaffMember, dateString: string): DayAvailability | null => {
-		const dateKey = formatDateKey(dateString);
-		const dateObj = new Date(dateString + 'T00:00:00');
-		const dayName = dateObj.toLocaleDateString('en-US', { weekday: 'long' });
-		const isSunday = dayName === 'Sunday';
-		
-		// Sunday is always unavailable
-		if (isSunday) {
-			return { enabled: false, slots: [] };
-		}
-		
-		// First, check for date-specific availability
-		if (staffMember.dateSpecificAvailability?.[dateKey]) {
-			const dateSpecific = staffMember.dateSpecificAvailability[dateKey];
-			// If marked as unavailable (enabled: false), return it
-			if (!dateSpecific.enabled) {
-				return dateSpecific;
-			}
-			// If enabled but has no slots or empty slots, fall back to default availability
-			if (!dateSpecific.slots || dateSpecific.slots.length === 0) {
-				return DEFAULT_DAY_AVAILABILITY;
-			}
-			// If enabled and has slots, use the date-specific schedule
-			return dateSpecific;
-		}
-		
-		// No date-specific schedule exists - use default availability (9 AM - 6 PM)
-		return DEFAULT_DAY_AVAILABILITY;
+		return resolveDayAvailability(staffMember, formatDateKey(dateString), holidays);
 	};
 
 	// Generate available time slots based on staff availability and existing appointments
@@ -377,7 +377,7 @@ export default function AppointmentBookingModal({
 			})
 			.forEach(apt => {
 				if (!apt.time) return;
-				const durationMinutes = Math.max(SLOT_INTERVAL_MINUTES, apt.duration ?? SLOT_INTERVAL_MINUTES);
+				const durationMinutes = Math.max(SLOT_INTERVAL_MINUTES, resolveAppointmentDuration(apt, SLOT_INTERVAL_MINUTES));
 				const blocks = Math.ceil(durationMinutes / SLOT_INTERVAL_MINUTES);
 				const startMinutes = timeStringToMinutes(apt.time);
 				for (let block = 0; block < blocks; block += 1) {
@@ -396,7 +396,7 @@ export default function AppointmentBookingModal({
 				return apt.time && apt.date;
 			})
 			.map(apt => {
-				const durationMinutes = Math.max(SLOT_INTERVAL_MINUTES, apt.duration ?? SLOT_INTERVAL_MINUTES);
+				const durationMinutes = Math.max(SLOT_INTERVAL_MINUTES, resolveAppointmentDuration(apt, SLOT_INTERVAL_MINUTES));
 				const startMinutes = timeStringToMinutes(apt.time!);
 				const endMinutes = startMinutes + durationMinutes;
 				return {
@@ -445,7 +445,7 @@ export default function AppointmentBookingModal({
 					status: apt.status, 
 					duration: apt.duration,
 					excluded: initialAppointment?.id === apt.id,
-					blocks: apt.time ? Math.ceil((Math.max(SLOT_INTERVAL_MINUTES, apt.duration ?? SLOT_INTERVAL_MINUTES)) / SLOT_INTERVAL_MINUTES) : 0,
+					blocks: apt.time ? Math.ceil((Math.max(SLOT_INTERVAL_MINUTES, resolveAppointmentDuration(apt, SLOT_INTERVAL_MINUTES))) / SLOT_INTERVAL_MINUTES) : 0,
 				})),
 			});
 		}
@@ -550,7 +550,25 @@ export default function AppointmentBookingModal({
 		}
 		
 		return finalSlots;
-	}, [form.doctor, form.date, staff, allClinicianAppointments, hideClinicianSelection, defaultClinician, initialAppointment]);
+	}, [form.doctor, form.date, staff, allClinicianAppointments, hideClinicianSelection, defaultClinician, initialAppointment, holidays]);
+
+	const selectedService = useMemo(() => getServiceType(form.serviceType), [form.serviceType]);
+	const serviceBlocks = selectedService ? Math.ceil(selectedService.durationMinutes / SLOT_INTERVAL_MINUTES) : 1;
+
+	// When a service is chosen, only offer start times where the whole service duration is free
+	const bookableTimeSlots = useMemo(() => {
+		if (serviceBlocks <= 1) return availableTimeSlots;
+		const available = new Set(availableTimeSlots);
+		return availableTimeSlots.filter(slot => {
+			const startMinutes = timeStringToMinutes(slot);
+			for (let block = 1; block < serviceBlocks; block += 1) {
+				if (!available.has(minutesToTimeString(startMinutes + block * SLOT_INTERVAL_MINUTES))) {
+					return false;
+				}
+			}
+			return true;
+		});
+	}, [availableTimeSlots, serviceBlocks]);
 
 	// Removed consultation blocker - slots are filtered instead
 
@@ -583,9 +601,13 @@ export default function AppointmentBookingModal({
 				date: '',
 				time: '',
 				notes: '',
+				serviceType: '',
+				resourceIds: [],
 			});
 			setSelectedSlots([]);
 			setErrors({});
+			setSuggestions([]);
+			setSuggestionError(null);
 		}
 	}, [isOpen, patient, defaultClinician, staff, clinicianTypeFilter]);
 
@@ -606,6 +628,18 @@ export default function AppointmentBookingModal({
 
 	// Handle slot toggle with consecutive validation
 	const handleSlotToggle = (slot: string) => {
+		// A selected service fixes the duration, so a click reserves the whole service block
+		if (selectedService) {
+			setSelectedSlots(prevSelected => {
+				if (prevSelected[0] === slot) return [];
+				const startMinutes = timeStringToMinutes(slot);
+				return Array.from({ length: serviceBlocks }, (_, block) =>
+					minutesToTimeString(startMinutes + block * SLOT_INTERVAL_MINUTES)
+				);
+			});
+			return;
+		}
+
 		setSelectedSlots(prevSelected => {
 			let nextSelection: string[];
 			if (prevSelected.includes(slot)) {
@@ -641,6 +675,67 @@ export default function AppointmentBookingModal({
 		});
 	};
 
+	// Ask the availability API for the next free slots for this clinician, or any clinician of the selected type
+	const handleFindNextAvailable = async () => {
+		const doctorName = hideClinicianSelection && defaultClinician ? defaultClinician : form.doctor;
+		const searchAnyClinician = !hideClinicianSelection && (suggestionScope === 'any' || !doctorName);
+		const todayKey = getTodayKey();
+		const startDate = form.date && form.date > todayKey ? form.date : todayKey;
+		const now = new Date();
+
+		setLoadingSuggestions(true);
+		setSuggestionError(null);
+		try {
+			const response = await fetch('/api/appointments/availability', {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json' },
+				body: JSON.stringify({
+					doctor: searchAnyClinician ? undefined : doctorName,
+					role: searchAnyClinician && clinicianTypeFilter !== 'all' ? clinicianTypeFilter : undefined,
+					duration: selectedService ? selectedService.durationMinutes : SLOT_INTERVAL_MINUTES,
+					startDate,
+					earliestTime:
+						startDate === todayKey && !allowPastTimeSlots
+							? minutesToTimeString(now.getHours() * 60 + now.getMinutes())
+							: undefined,
+					appointmentId: initialAppointment?.id,
+					limit: SUGGESTION_COUNT,
+				}),
+			});
+			const result = await response.json();
+			if (!result.success) {
+				throw new Error(result.message || 'Failed to search available slots');
+			}
+			const slots = (result.data?.slots || []) as AvailableSlot[];
+			// Only suggest clinicians that can be selected in this modal
+			const bookable = slots.filter(slot => staff.some(member => member.name === slot.doctor));
+			setSuggestions(bookable);
+			if (bookable.length === 0) {
+				setSuggestionError('No free slots found in the next two weeks.');
+			}
+		} catch (error) {
+			console.error('Failed to load slot suggestions', error);
+			setSuggestions([]);
+			setSuggestionError('Could not load suggestions. Please pick a slot manually.');
+		} finally {
+			setLoadingSuggestions(false);
+		}
+	};
+
+	const handleApplySuggestion = (suggestion: AvailableSlot) => {
+		const blocks = Math.max(1, Math.ceil(suggestion.duration / SLOT_INTERVAL_MINUTES));
+		const startMinutes = timeStringToMinutes(suggestion.time);
+		setForm(prev => ({
+			...prev,
+			doctor: hideClinicianSelection ? prev.doctor : suggestion.doctor,
+			date: suggestion.date,
+		}));
+		setSelectedSlots(
+			Array.from({ length: blocks }, (_, block) => minutesToTimeString(startMinutes + block * SLOT_INTERVAL_MINUTES))
+		);
+		setErrors({});
+	};
+
 	const handleSubmit = async () => {
 		if (!patient || submitting) return;
 
@@ -665,7 +760,11 @@ export default function AppointmentBookingModal({
 		// Use defaultClinician if hideClinicianSelection is true, and use selectedSlots if available
 		const selectedDoctor = hideClinicianSelection && defaultClinician ? defaultClinician : form.doctor;
 		const selectedTime = selectedSlots.length > 0 ? selectedSlots[0] : form.time;
-		const duration = selectedSlots.length > 0 ? selectedSlots.length * SLOT_INTERVAL_MINUTES : 30;
+		const duration = selectedService
+			? selectedService.durationMinutes
+			: selectedSlots.length > 0
+				? selectedSlots.length * SLOT_INTERVAL_MINUTES
+				: SLOT_INTERVAL_MINUTES;
 
 		// Check if patient has any appointments to determine if this would be a consultation
 		// On clinical side (allowConsultation=false), only block if patient has NO appointments at all (would be consultation)
@@ -688,6 +787,49 @@ export default function AppointmentBookingModal({
 			}
 		}
 
+		// Rooms and equipment are shared across therapists, so check every booking on the day
+		if (form.resourceIds.length > 0) {
+			try {
+				const dayAppointmentsSnapshot = await getDocs(
+					query(collection(db, 'appointments'), where('date', '==', form.date))
+				);
+				const conflict = checkAppointmentConflict(
+					dayAppointmentsSnapshot.docs.map(docSnap => {
+						const data = docSnap.data() as Record<string, unknown>;
+						return {
+							id: docSnap.id,
+							patient: data.patient ? String(data.patient) : '',
+							doctor: data.doctor ? String(data.doctor) : '',
+							date: data.date ? String(data.date) : '',
+							time: data.time ? String(data.time) : '',
+							status: data.status ? String(data.status) : 'pending',
+							duration: typeof data.duration === 'number' ? data.duration : null,
+							serviceType: data.serviceType ? String(data.serviceType) : null,
+							resourceIds: getAppointmentResourceIds(data),
+						};
+					}),
+					{
+						id: initialAppointment?.id,
+						doctor: selectedDoctor,
+						date: form.date,
+						time: selectedTime,
+						duration,
+						resourceIds: form.resourceIds,
+					}
+				);
+				if (conflict.resourceIds.length > 0) {
+					alert(
+						`Already booked at this time: ${formatResourceNames(resources, conflict.resourceIds)}. Please choose another time or resource.`
+					);
+					return;
+				}
+			} catch (checkError) {
+				console.error('Failed to check resource availability', checkError);
+				alert('Could not check room and equipment availability. Please try again.');
+				return;
+			}
+		}
+
 		setSubmitting(true);
 		try {
 			let appointmentId: string | undefined;
@@ -700,6 +842,8 @@ export default function AppointmentBookingModal({
 					date: form.date,
 					time: selectedTime,
 					duration: duration,
+					serviceType: selectedService?.id || null,
+					resourceIds: form.resourceIds,
 					status: 'pending' as AdminAppointmentStatus,
 					notes: form.notes?.trim() || null,
 					updatedAt: serverTimestamp(),
@@ -739,6 +883,8 @@ export default function AppointmentBookingModal({
 					date: form.date,
 					time: selectedTime,
 					duration: duration,
+					serviceType: selectedService?.id || null,
+					resourceIds: form.resourceIds,
 					status: (allowConsultation ? 'ongoing' : 'pending') as AdminAppointmentStatus,
 					notes: form.notes?.trim() || null,
 					isConsultation: isConsultation,
@@ -763,6 +909,7 @@ export default function AppointmentBookingModal({
 								date: form.date,
 								time: selectedTime,
 								appointmentId: appointmentId,
+								serviceType: form.serviceType || undefined,
 							},
 						});
 					} catch (emailError) {
@@ -814,7 +961,7 @@ export default function AppointmentBookingModal({
 			}
 
 			// Reset form and close modal
-			setForm({ doctor: '', date: '', time: '', notes: '' });
+			setForm({ doctor: '', date: '', time: '', notes: '', serviceType: '', resourceIds: [] });
 			setSelectedSlots([]);
 			setErrors({});
 			onSuccess?.();
@@ -895,6 +1042,84 @@ export default function AppointmentBookingModal({
 							</div>
 						</>
 					)}
+					<div>
+						<label className="block text-sm font-medium text-slate-700">Service</label>
+						<select
+							value={form.serviceType}
+							onChange={event => {
+								setForm(prev => ({
+									...prev,
+									serviceType: event.target.value,
+									resourceIds: getServiceResourceIds(resources, event.target.value),
+								}));
+								setSelectedSlots([]);
+							}}
+							className="select-base"
+						>
+							<option value="">Custom (select slots manually)</option>
+							{SERVICE_CATALOG.map(service => (
+								<option key={service.id} value={service.id}>
+									{service.name} ({formatDurationLabel(service.durationMinutes)})
+								</option>
+							))}
+						</select>
+					</div>
+					<div className="rounded-xl border border-sky-100 bg-sky-50/60 px-4 py-3">
+						<div className="flex flex-wrap items-center justify-between gap-2">
+							<p className="text-sm font-medium text-slate-700">Suggested slots</p>
+							<div className="flex items-center gap-2">
+								{!hideClinicianSelection && (
+									<select
+										value={suggestionScope}
+										onChange={event => setSuggestionScope(event.target.value as 'clinician' | 'any')}
+										className="rounded-lg border border-slate-200 bg-white px-2 py-1 text-xs text-slate-700"
+									>
+										<option value="clinician">Selected clinician</option>
+										<option value="any">
+											Any {clinicianTypeFilter === 'all' ? 'clinician' : clinicianTypeFilter === 'StrengthAndConditioning' ? 'S&C coach' : 'physiotherapist'}
+										</option>
+									</select>
+								)}
+								<button
+									type="button"
+									onClick={handleFindNextAvailable}
+									className="btn-secondary px-3 py-1 text-xs"
+									disabled={loadingSuggestions || submitting}
+								>
+									<i className="fas fa-search text-xs" aria-hidden="true" />
+									{loadingSuggestions ? 'Searching...' : 'Find next available'}
+								</button>
+							</div>
+						</div>
+						{suggestions.length > 0 && (
+							<div className="mt-3 flex flex-wrap gap-2">
+								{suggestions.map(suggestion => {
+									const isApplied =
+										form.date === suggestion.date &&
+										selectedSlots[0] === suggestion.time &&
+										(hideClinicianSelection || form.doctor === suggestion.doctor);
+									return (
+										<button
+											key={`${suggestion.doctor}-${suggestion.date}-${suggestion.time}`}
+											type="button"
+											onClick={() => handleApplySuggestion(suggestion)}
+											className={`rounded-lg border px-3 py-1.5 text-left text-xs shadow-sm transition ${
+												isApplied
+													? 'border-sky-500 bg-white text-sky-800 ring-2 ring-sky-200'
+													: 'border-slate-200 bg-white text-slate-700 hover:border-sky-300'
+											}`}
+										>
+											<span className="font-semibold">
+												{formatDateLabel(suggestion.date + 'T00:00:00')} · {formatTimeLabel(suggestion.time)}
+											</span>
+											{!hideClinicianSelection && <span className="block text-slate-500">{suggestion.doctor}</span>}
+										</button>
+									);
+								})}
+							</div>
+						)}
+						{suggestionError && <p className="mt-2 text-xs text-amber-700">{suggestionError}</p>}
+					</div>
 					<div>
 						<label className="block text-sm font-medium text-slate-700">Date</label>
 						<input
@@ -919,11 +1144,12 @@ export default function AppointmentBookingModal({
 							<label className="block text-sm font-medium text-slate-700">
 								Available Time Slots <span className="text-rose-500">*</span>
 							</label>
-							{availableTimeSlots.length > 0 ? (
+							{bookableTimeSlots.length > 0 ? (
 								<div className="mt-2 grid grid-cols-2 gap-2 sm:grid-cols-3">
-									{availableTimeSlots.map(slot => {
-										const slotEnd = minutesToTimeString(timeStringToMinutes(slot) + SLOT_INTERVAL_MINUTES);
-										const isSelected = selectedSlots.includes(slot);
+									{bookableTimeSlots.map(slot => {
+										const slotMinutes = selectedService ? selectedService.durationMinutes : SLOT_INTERVAL_MINUTES;
+										const slotEnd = minutesToTimeString(timeStringToMinutes(slot) + slotMinutes);
+										const isSelected = selectedService ? selectedSlots[0] === slot : selectedSlots.includes(slot);
 										return (
 											<button
 												key={slot}
@@ -939,7 +1165,7 @@ export default function AppointmentBookingModal({
 												<div className="flex items-center justify-between">
 													<div>
 														<p className="font-semibold">{slot} – {slotEnd}</p>
-														<p className="text-xs text-slate-500">30 minutes</p>
+														<p className="text-xs text-slate-500">{formatDurationLabel(slotMinutes)}</p>
 													</div>
 													<span className={`text-xs ${isSelected ? 'text-sky-600' : 'text-slate-400'}`}>
 														<i
@@ -955,16 +1181,20 @@ export default function AppointmentBookingModal({
 							) : (
 								<div className="mt-2 rounded-lg border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-700">
 									<i className="fas fa-calendar-times mr-2" aria-hidden="true" />
-									No slots available. The clinician has not set a schedule for this date. Please select another date or ask the clinician to set their availability.
+									{selectedService && availableTimeSlots.length > 0
+										? `No free ${formatDurationLabel(selectedService.durationMinutes)} block for ${selectedService.name} on this date. Please select another date or clinician.`
+										: 'No slots available. The clinician has not set a schedule for this date. Please select another date or ask the clinician to set their availability.'}
 								</div>
 							)}
 							{selectedSlots.length > 0 && (
 								<p className="mt-2 text-xs font-medium text-slate-600">
 									Selected duration:{' '}
-									<span className="text-slate-900">{formatDurationLabel(selectedSlots.length * SLOT_INTERVAL_MINUTES)}</span>
+									<span className="text-slate-900">
+										{formatDurationLabel(selectedService ? selectedService.durationMinutes : selectedSlots.length * SLOT_INTERVAL_MINUTES)}
+									</span>
 								</p>
 							)}
-							{selectedSlots.length <= 1 && availableTimeSlots.length > 0 && (
+							{!selectedService && selectedSlots.length <= 1 && availableTimeSlots.length > 0 && (
 								<p className="mt-1 text-xs text-slate-500">
 									Select consecutive slots to automatically combine them into longer appointments.
 								</p>
@@ -974,6 +1204,12 @@ export default function AppointmentBookingModal({
 							)}
 						</div>
 					)}
+					<ResourcePicker
+						resources={resources}
+						selected={form.resourceIds}
+						onChange={resourceIds => setForm(prev => ({ ...prev, resourceIds }))}
+						disabled={submitting}
+					/>
 					{form.notes !== undefined && (
 						<div>
 							<label className="block text-sm font-medium text-slate-700">Notes (optional)</label>
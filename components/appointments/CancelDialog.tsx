@@ -1,6 +1,7 @@
 'use client';
 
 import { useState } from 'react';
+import type { SeriesCancelScope } from '@/lib/appointmentSeriesClient';
 
 interface CancelDialogProps {
 	isOpen: boolean;
@@ -11,13 +12,15 @@ interface CancelDialogProps {
 		doctor: string;
 		date: string;
 		time: string;
+		recurringSeriesId?: string;
 	} | null;
 	onClose: () => void;
-	onConfirm: (reason: string) => Promise<void>;
+	onConfirm: (reason: string, scope: SeriesCancelScope) => Promise<void>;
 }
 
 export default function CancelDialog({ isOpen, appointment, onClose, onConfirm }: CancelDialogProps) {
 	const [reason, setReason] = useState('');
+	const [scope, setScope] = useState<SeriesCancelScope>('single');
 	const [saving, setSaving] = useState(false);
 
 	if (!isOpen || !appointment) return null;
@@ -26,8 +29,9 @@ export default function CancelDialog({ isOpen, appointment, onClose, onConfirm }
 		e.preventDefault();
 		setSaving(true);
 		try {
-			await onConfirm(reason);
+			await onConfirm(reason, appointment.recurringSeriesId ? scope : 'single');
 			setReason('');
+			setScope('single');
 			onClose();
 		} catch (error) {
 			console.error('Failed to cancel appointment:', error);
@@ -74,9 +78,38 @@ export default function CancelDialog({ isOpen, appointment, onClose, onConfirm }
 						/>
 					</div>
 
+					{appointment.recurringSeriesId && (
+						<div className="rounded-lg border border-slate-200 p-3">
+							<p className="mb-2 text-sm font-medium text-slate-700">
+								<i className="fas fa-redo mr-2 text-slate-400" aria-hidden="true" />
+								This appointment is part of a recurring series
+							</p>
+							<label className="flex items-center gap-2 text-sm text-slate-700">
+								<input
+									type="radio"
+									name="cancel-scope"
+									checked={scope === 'single'}
+									onChange={() => setScope('single')}
+								/>
+								Cancel this appointment only
+							</label>
+							<label className="mt-1 flex items-center gap-2 text-sm text-slate-700">
+								<input
+									type="radio"
+									name="cancel-scope"
+									checked={scope === 'series'}
+									onChange={() => setScope('series')}
+								/>
+								Cancel the whole series (completed sessions are kept)
+							</label>
+						</div>
+					)}
+
 					<div className="rounded-lg border border-amber-200 bg-amber-50 p-3 text-sm text-amber-700">
 						<i className="fas fa-exclamation-triangle mr-2" />
-						This action will cancel the appointment and notify the patient. This cannot be undone.
+						{scope === 'series' && appointment.recurringSeriesId
+							? 'This action will cancel every remaining appointment in the series and notify the patient. This cannot be undone.'
+							: 'This action will cancel the appointment and notify the patient. This cannot be undone.'}
 					</div>
 
 					<div className="flex gap-3 justify-end">
@@ -92,7 +125,7 @@ export default function CancelDialog({ isOpen, appointment, onClose, onConfirm }
 							disabled={saving}
 							className="px-4 py-2 text-sm font-medium text-white bg-rose-600 rounded-lg hover:bg-rose-700 disabled:opacity-50"
 						>
-							{saving ? 'Cancelling...' : 'Cancel Appointment'}
+							{saving ? 'Cancelling...' : scope === 'series' && appointment.recurringSeriesId ? 'Cancel Series' : 'Cancel Appointment'}
 						</button>
 					</div>
 				</form>
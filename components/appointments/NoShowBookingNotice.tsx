@@ -0,0 +1,51 @@
+'use client';
+
+import { getNoShowStanding, type NoShowPolicy } from '@/lib/noShowPolicy';
+
+interface NoShowBookingNoticeProps {
+	noShowCount?: number;
+	policy: NoShowPolicy;
+	overrideReason: string;
+	onOverrideReasonChange: (reason: string) => void;
+	disabled?: boolean;
+}
+
+export default function NoShowBookingNotice({
+	noShowCount,
+	policy,
+	overrideReason,
+	onOverrideReasonChange,
+	disabled = false,
+}: NoShowBookingNoticeProps) {
+	const standing = getNoShowStanding(noShowCount, policy);
+	if (standing === 'ok') return null;
+
+	if (standing === 'warn') {
+		return (
+			<div className="rounded-lg border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-700">
+				<i className="fas fa-exclamation-triangle mr-2" aria-hidden="true" />
+				This patient has {noShowCount} recorded no-show{noShowCount === 1 ? '' : 's'}. Consider confirming the appointment with them.
+			</div>
+		);
+	}
+
+	return (
+		<div className="rounded-lg border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-700">
+			<p className="font-medium">
+				<i className="fas fa-user-clock mr-2" aria-hidden="true" />
+				This patient has {noShowCount} recorded no-shows. A front desk override is required to book.
+			</p>
+			<label className="mt-3 block text-xs font-medium text-rose-800">
+				Override reason <span className="text-rose-500">*</span>
+			</label>
+			<textarea
+				className="input-base mt-1"
+				rows={2}
+				value={overrideReason}
+				onChange={event => onOverrideReasonChange(event.target.value)}
+				placeholder="e.g. Patient called to apologise and confirmed attendance"
+				disabled={disabled}
+			/>
+		</div>
+	);
+}
@@ -14,6 +14,7 @@ interface RecurringAppointmentDialogProps {
 		frequency: 'daily' | 'weekly' | 'biweekly' | 'monthly';
 		count: number;
 		notes?: string;
+		conflictStrategy: 'skip' | 'shift'; // What to do with dates that fall on a Sunday, holiday or existing booking
 	}) => Promise<void>;
 }
 
@@ -31,6 +32,7 @@ export default function RecurringAppointmentDialog({
 		frequency: 'weekly' as 'daily' | 'weekly' | 'biweekly' | 'monthly',
 		count: 4,
 		notes: '',
+		conflictStrategy: 'skip' as 'skip' | 'shift',
 	});
 	const [saving, setSaving] = useState(false);
 
@@ -47,6 +49,7 @@ export default function RecurringAppointmentDialog({
 				frequency: 'weekly',
 				count: 4,
 				notes: '',
+				conflictStrategy: 'skip',
 			});
 			onClose();
 		} catch (error) {
@@ -134,6 +137,23 @@ export default function RecurringAppointmentDialog({
 						/>
 					</div>
 
+					<div>
+						<label className="block text-sm font-medium text-slate-700 mb-1">If a date is unavailable</label>
+						<select
+							value={formData.conflictStrategy}
+							onChange={e =>
+								setFormData({
+									...formData,
+									conflictStrategy: e.target.value as 'skip' | 'shift',
+								})
+							}
+							className="input-base"
+						>
+							<option value="skip">Skip that date</option>
+							<option value="shift">Move to the next free day</option>
+						</select>
+					</div>
+
 					<div>
 						<label className="block text-sm font-medium text-slate-700 mb-1">Notes (optional)</label>
 						<textarea
@@ -147,7 +167,8 @@ export default function RecurringAppointmentDialog({
 					<div className="rounded-lg border border-sky-200 bg-sky-50 p-3 text-sm text-sky-700">
 						<i className="fas fa-info-circle mr-2" />
 						This will create {formData.count} appointment{formData.count !== 1 ? 's' : ''} starting from{' '}
-						{formData.startDate || 'selected date'}.
+						{formData.startDate || 'selected date'}. Sundays, clinic holidays and dates where {doctor} is already booked
+						are {formData.conflictStrategy === 'skip' ? 'skipped' : 'moved to the next free day'}.
 					</div>
 
 					<div className="flex gap-3 justify-end">
@@ -4,6 +4,12 @@ import { useState, useEffect, useMemo } from 'react';
 import { collection, query, where, onSnapshot, type QuerySnapshot } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
 import { checkAppointmentConflict } from '@/lib/appointmentUtils';
+import type { SeriesEditScope } from '@/lib/appointmentSeriesClient';
+import { resolveDayAvailability, type WeeklyAvailability } from '@/lib/availability';
+import { resolveAppointmentDuration } from '@/lib/serviceCatalog';
+import { useClinicHolidays } from '@/hooks/useClinicHolidays';
+import { useClinicResources } from '@/hooks/useClinicResources';
+import { formatResourceNames } from '@/lib/resources';
 
 interface DayAvailability {
 	enabled: boolean;
@@ -16,6 +22,7 @@ interface StaffMember {
 	availability?: {
 		[day: string]: DayAvailability;
 	};
+	weeklyAvailability?: WeeklyAvailability;
 	dateSpecificAvailability?: {
 		[date: string]: DayAvailability;
 	};
@@ -30,9 +37,13 @@ interface RescheduleDialogProps {
 		doctor: string;
 		date: string;
 		time: string;
+		duration?: number;
+		serviceType?: string;
+		resourceIds?: string[];
+		recurringSeriesId?: string;
 	} | null;
 	onClose: () => void;
-	onConfirm: (newDate: string, newTime: string) => Promise<void>;
+	onConfirm: (newDate: string, newTime: string, scope: SeriesEditScope) => Promise<void>;
 	allAppointments: Array<{
 		id: string;
 		appointmentId?: string;
@@ -42,6 +53,8 @@ interface RescheduleDialogProps {
 		time: string;
 		status?: string;
 		duration?: number;
+		serviceType?: string;
+		resourceIds?: string[];
 	}>;
 	staff?: StaffMember[];
 }
@@ -93,41 +106,14 @@ export default function RescheduleDialog({
 	const [conflict, setConflict] = useState<{ hasConflict: boolean; conflictingAppointments: any[] } | null>(null);
 	const [checkingConflict, setCheckingConflict] = useState(false);
 	const [saving, setSaving] = useState(false);
-	const [allClinicianAppointments, setAllClinicianAppointments] = useState<Array<{ id?: string; doctor: string; date: string; time: string; status: string; duration?: number }>>([]);
-
-	// Default availability: 9 AM to 6 PM for all days except Sunday
-	const DEFAULT_START_TIME = '09:00';
-	const DEFAULT_END_TIME = '18:00';
-	const DEFAULT_DAY_AVAILABILITY: DayAvailability = {
-		enabled: true,
-		slots: [{ start: DEFAULT_START_TIME, end: DEFAULT_END_TIME }],
-	};
+	const [allClinicianAppointments, setAllClinicianAppointments] = useState<Array<{ id?: string; doctor: string; date: string; time: string; status: string; duration?: number; serviceType?: string }>>([]);
+	const [scope, setScope] = useState<SeriesEditScope>('single');
+	const { holidays } = useClinicHolidays();
+	const { resources } = useClinicResources();
 
-	// Get availability for a specific date (checks date-specific, falls back to default availability)
+	// Get availability for a specific date (clinic holidays, date-specific overrides, then the weekly pattern)
 	const getDateAvailability = (staffMember: StaffMember, dateString: string): DayAvailability | null => {
-		const dateKey = formatDateKey(dateString);
-		const dateObj = new Date(dateString + 'T00:00:00');
-		const dayName = dateObj.toLocaleDateString('en-US', { weekday: 'long' });
-		const isSunday = dayName === 'Sunday';
-		
-		// Sunday is always unavailable
-		if (isSunday) {
-			return { enabled: false, slots: [] };
-		}
-		
-		// First, check for date-specific availability
-		if (staffMember.dateSpecificAvailability?.[dateKey]) {
-			const dateSpecific = staffMember.dateSpecificAvailability[dateKey];
-			// If marked as unavailable (enabled: false), return it
-			if (!dateSpecific.enabled) {
-				return dateSpecific;
-			}
-			// If enabled, use the date-specific schedule
-			return dateSpecific;
-		}
-		
-		// No date-specific schedule exists - use default availability (9 AM - 6 PM)
-		return DEFAULT_DAY_AVAILABILITY;
+		return resolveDayAvailability(staffMember, formatDateKey(dateString), holidays);
 	};
 
 	// Fetch all appointments for the selected clinician (across all dates to find latest appointment)
@@ -156,6 +142,7 @@ export default function RescheduleDialog({
 						time: data.time ? String(data.time) : '',
 						status: data.status ? String(data.status) : 'pending',
 						duration: typeof data.duration === 'number' ? data.duration : undefined,
+						serviceType: data.serviceType ? String(data.serviceType) : undefined,
 					};
 				});
 				setAllClinicianAppointments([...mapped]);
@@ -208,7 +195,7 @@ export default function RescheduleDialog({
 			})
 			.forEach(apt => {
 				if (!apt.time) return;
-				const durationMinutes = Math.max(SLOT_INTERVAL_MINUTES, apt.duration ?? SLOT_INTERVAL_MINUTES);
+				const durationMinutes = Math.max(SLOT_INTERVAL_MINUTES, resolveAppointmentDuration(apt, SLOT_INTERVAL_MINUTES));
 				const blocks = Math.ceil(durationMinutes / SLOT_INTERVAL_MINUTES);
 				const startMinutes = timeStringToMinutes(apt.time);
 				for (let block = 0; block < blocks; block += 1) {
@@ -227,7 +214,7 @@ export default function RescheduleDialog({
 				return apt.time && apt.date;
 			})
 			.map(apt => {
-				const durationMinutes = Math.max(SLOT_INTERVAL_MINUTES, apt.duration ?? SLOT_INTERVAL_MINUTES);
+				const durationMinutes = Math.max(SLOT_INTERVAL_MINUTES, resolveAppointmentDuration(apt, SLOT_INTERVAL_MINUTES));
 				const startMinutes = timeStringToMinutes(apt.time!);
 				const endMinutes = startMinutes + durationMinutes;
 				return {
@@ -320,7 +307,7 @@ export default function RescheduleDialog({
 		});
 
 		return [...new Set(slots)].sort();
-	}, [newDate, appointment?.doctor, staff, allClinicianAppointments, appointment?.id]);
+	}, [newDate, appointment?.doctor, staff, allClinicianAppointments, appointment?.id, holidays]);
 
 	useEffect(() => {
 		if (isOpen && appointment) {
@@ -328,6 +315,7 @@ export default function RescheduleDialog({
 			setNewTime(appointment.time);
 			setSelectedTimeSlot('');
 			setConflict(null);
+			setScope('single');
 		}
 	}, [isOpen, appointment]);
 
@@ -361,8 +349,10 @@ export default function RescheduleDialog({
 						doctor: appointment.doctor,
 						date: newDate,
 						time: finalTime,
-					},
-					30
+						duration: appointment.duration,
+						serviceType: appointment.serviceType,
+						resourceIds: appointment.resourceIds,
+					}
 				);
 				setConflict(conflictResult);
 			} catch (error) {
@@ -395,7 +385,7 @@ export default function RescheduleDialog({
 
 		setSaving(true);
 		try {
-			await onConfirm(newDate, finalTime);
+			await onConfirm(newDate, finalTime, appointment.recurringSeriesId ? scope : 'single');
 			onClose();
 		} catch (error) {
 			console.error('Failed to reschedule:', error);
@@ -501,6 +491,38 @@ export default function RescheduleDialog({
 						)}
 					</div>
 
+					{appointment.recurringSeriesId && (
+						<div className="rounded-lg border border-slate-200 p-3">
+							<p className="mb-2 text-sm font-medium text-slate-700">
+								<i className="fas fa-redo mr-2 text-slate-400" aria-hidden="true" />
+								This appointment is part of a recurring series
+							</p>
+							<label className="flex items-center gap-2 text-sm text-slate-700">
+								<input
+									type="radio"
+									name="series-scope"
+									checked={scope === 'single'}
+									onChange={() => setScope('single')}
+								/>
+								This appointment only
+							</label>
+							<label className="mt-1 flex items-center gap-2 text-sm text-slate-700">
+								<input
+									type="radio"
+									name="series-scope"
+									checked={scope === 'following'}
+									onChange={() => setScope('following')}
+								/>
+								This and following appointments
+							</label>
+							{scope === 'following' && (
+								<p className="mt-2 text-xs text-slate-500">
+									Later appointments move by the same number of days to the new time. Any that would clash are left unchanged and listed afterwards.
+								</p>
+							)}
+						</div>
+					)}
+
 					{checkingConflict && (
 						<div className="text-sm text-slate-500">
 							<i className="fas fa-spinner fa-spin mr-2" />
@@ -518,6 +540,7 @@ export default function RescheduleDialog({
 								{conflict.conflictingAppointments.map(apt => (
 									<li key={apt.id}>
 										{apt.patient} - {apt.date} at {apt.time}
+										{apt.resourceIds?.length ? ` (${formatResourceNames(resources, apt.resourceIds)} in use)` : ''}
 									</li>
 								))}
 							</ul>
@@ -0,0 +1,152 @@
+'use client';
+
+import { useMemo } from 'react';
+import { resolveAppointmentDuration } from '@/lib/serviceCatalog';
+import { RESOURCE_KIND_LABELS, type ClinicResource } from '@/lib/resources';
+
+interface ResourceDayAppointment {
+	id: string;
+	patient?: string;
+	doctor?: string;
+	date?: string;
+	time?: string;
+	duration?: number;
+	serviceType?: string;
+	status?: string;
+	resourceIds?: string[];
+}
+
+interface ResourceDayViewProps<T extends ResourceDayAppointment> {
+	date: string; // YYYY-MM-DD
+	appointments: T[];
+	resources: ClinicResource[];
+	onAppointmentClick?: (appointment: T) => void;
+	startTime?: string; // HH:MM
+	endTime?: string; // HH:MM
+}
+
+const SLOT_MINUTES = 30;
+const SLOT_HEIGHT_PX = 40;
+
+const STATUS_CLASSES: Record<string, string> = {
+	pending: 'border-amber-400 bg-amber-50 text-amber-900',
+	ongoing: 'border-sky-500 bg-sky-50 text-sky-900',
+	completed: 'border-emerald-500 bg-emerald-50 text-emerald-900',
+	'no-show': 'border-slate-400 bg-slate-100 text-slate-700',
+};
+
+function toMinutes(value: string) {
+	const [hours, minutes] = value.split(':').map(Number);
+	return (hours || 0) * 60 + (minutes || 0);
+}
+
+function formatSlotLabel(totalMinutes: number) {
+	const hours = Math.floor(totalMinutes / 60);
+	const suffix = hours >= 12 ? 'pm' : 'am';
+	return `${hours % 12 === 0 ? 12 : hours % 12}${suffix}`;
+}
+
+/**
+ * Day timeline with one column per room or piece of equipment
+ * Appointments appear in every column they reserve; appointments without resources are not shown.
+ */
+export default function ResourceDayView<T extends ResourceDayAppointment>({
+	date,
+	appointments,
+	resources,
+	onAppointmentClick,
+	startTime = '08:00',
+	endTime = '20:00',
+}: ResourceDayViewProps<T>) {
+	const dayStart = toMinutes(startTime);
+	const dayEnd = toMinutes(endTime);
+	const slotCount = Math.max(1, Math.ceil((dayEnd - dayStart) / SLOT_MINUTES));
+
+	const columns = useMemo(() => resources.filter(resource => resource.active), [resources]);
+
+	const appointmentsByResource = useMemo(() => {
+		const map = new Map<string, T[]>();
+		appointments.forEach(appointment => {
+			if (appointment.date !== date || !appointment.time || appointment.status === 'cancelled') return;
+			(appointment.resourceIds ?? []).forEach(resourceId => {
+				map.set(resourceId, [...(map.get(resourceId) ?? []), appointment]);
+			});
+		});
+		return map;
+	}, [appointments, date]);
+
+	if (columns.length === 0) {
+		return (
+			<div className="rounded-lg border border-slate-200 bg-slate-50 px-4 py-6 text-center text-sm text-slate-500">
+				No rooms or equipment have been set up yet. Admins can add them under Calendar &amp; Appointments → Rooms &amp; Equipment.
+			</div>
+		);
+	}
+
+	return (
+		<div className="overflow-x-auto rounded-lg border border-slate-200">
+			<div className="grid min-w-max" style={{ gridTemplateColumns: `4rem repeat(${columns.length}, minmax(9rem, 1fr))` }}>
+				<div className="border-b border-r border-slate-200 bg-slate-50" />
+				{columns.map(resource => (
+					<div key={resource.id} className="border-b border-r border-slate-200 bg-slate-50 px-2 py-2 text-center last:border-r-0">
+						<p className="text-sm font-semibold text-slate-800">{resource.name}</p>
+						<p className="text-[10px] uppercase tracking-wide text-slate-500">{RESOURCE_KIND_LABELS[resource.kind]}</p>
+					</div>
+				))}
+
+				<div className="relative border-r border-slate-200" style={{ height: slotCount * SLOT_HEIGHT_PX }}>
+					{Array.from({ length: slotCount }, (_, index) => {
+						const minutes = dayStart + index * SLOT_MINUTES;
+						return minutes % 60 === 0 ? (
+							<span
+								key={minutes}
+								className="absolute right-2 -translate-y-1/2 text-[11px] text-slate-500"
+								style={{ top: index * SLOT_HEIGHT_PX }}
+							>
+								{index === 0 ? '' : formatSlotLabel(minutes)}
+							</span>
+						) : null;
+					})}
+				</div>
+
+				{columns.map(resource => (
+					<div
+						key={resource.id}
+						className="relative border-r border-slate-200 last:border-r-0"
+						style={{
+							height: slotCount * SLOT_HEIGHT_PX,
+							backgroundImage: `repeating-linear-gradient(to bottom, transparent 0, transparent ${SLOT_HEIGHT_PX - 1}px, #f1f5f9 ${SLOT_HEIGHT_PX - 1}px, #f1f5f9 ${SLOT_HEIGHT_PX}px)`,
+						}}
+					>
+						{(appointmentsByResource.get(resource.id) ?? []).map(appointment => {
+							const start = toMinutes(appointment.time || startTime);
+							const duration = resolveAppointmentDuration(appointment);
+							const top = ((Math.max(start, dayStart) - dayStart) / SLOT_MINUTES) * SLOT_HEIGHT_PX;
+							const height = Math.max(
+								SLOT_HEIGHT_PX / 2,
+								((Math.min(start + duration, dayEnd) - Math.max(start, dayStart)) / SLOT_MINUTES) * SLOT_HEIGHT_PX - 2
+							);
+							if (start >= dayEnd || start + duration <= dayStart) return null;
+							return (
+								<button
+									key={appointment.id}
+									type="button"
+									onClick={() => onAppointmentClick?.(appointment)}
+									className={`absolute left-1 right-1 overflow-hidden rounded-md border-l-4 px-2 py-1 text-left text-xs shadow-sm transition hover:shadow-md ${
+										STATUS_CLASSES[appointment.status ?? 'pending'] ?? STATUS_CLASSES.pending
+									}`}
+									style={{ top, height }}
+								>
+									<p className="truncate font-semibold">{appointment.patient || 'Patient'}</p>
+									<p className="truncate">
+										{appointment.time} · {appointment.doctor || 'Unassigned'}
+									</p>
+								</button>
+							);
+						})}
+					</div>
+				))}
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,72 @@
+'use client';
+
+import { RESOURCE_KIND_LABELS, type ClinicResource, type ResourceKind } from '@/lib/resources';
+
+interface ResourcePickerProps {
+	resources: ClinicResource[];
+	selected: string[];
+	onChange: (resourceIds: string[]) => void;
+	busyResourceIds?: string[]; // Resources already in use at the chosen time
+	disabled?: boolean;
+}
+
+export default function ResourcePicker({
+	resources,
+	selected,
+	onChange,
+	busyResourceIds = [],
+	disabled = false,
+}: ResourcePickerProps) {
+	// Keep inactive resources visible only while they are still attached to this appointment
+	const visible = resources.filter(resource => resource.active || selected.includes(resource.id));
+	if (visible.length === 0) return null;
+
+	const toggle = (resourceId: string) => {
+		onChange(selected.includes(resourceId) ? selected.filter(id => id !== resourceId) : [...selected, resourceId]);
+	};
+
+	return (
+		<div>
+			<label className="block text-sm font-medium text-slate-700">Rooms & Equipment (optional)</label>
+			<div className="mt-2 space-y-2">
+				{(Object.keys(RESOURCE_KIND_LABELS) as ResourceKind[]).map(kind => {
+					const group = visible.filter(resource => resource.kind === kind);
+					if (group.length === 0) return null;
+					return (
+						<div key={kind} className="flex flex-wrap items-center gap-2">
+							<span className="w-28 text-xs font-medium text-slate-500">{RESOURCE_KIND_LABELS[kind]}</span>
+							{group.map(resource => {
+								const isSelected = selected.includes(resource.id);
+								const isBusy = busyResourceIds.includes(resource.id);
+								return (
+									<button
+										key={resource.id}
+										type="button"
+										onClick={() => toggle(resource.id)}
+										disabled={disabled}
+										title={isBusy ? 'Already booked at this time' : undefined}
+										className={`rounded-full border px-3 py-1 text-xs font-medium transition disabled:opacity-60 ${
+											isSelected && isBusy
+												? 'border-rose-400 bg-rose-50 text-rose-700'
+												: isSelected
+													? 'border-sky-500 bg-sky-50 text-sky-700'
+													: isBusy
+														? 'border-slate-200 bg-slate-100 text-slate-400 line-through'
+														: 'border-slate-200 bg-white text-slate-600 hover:border-slate-300'
+										}`}
+									>
+										{isSelected && <i className="fas fa-check mr-1" aria-hidden="true" />}
+										{resource.name}
+									</button>
+								);
+							})}
+						</div>
+					);
+				})}
+			</div>
+			{selected.some(id => busyResourceIds.includes(id)) && (
+				<p className="mt-1 text-xs text-rose-500">A selected resource is already booked at this time.</p>
+			)}
+		</div>
+	);
+}
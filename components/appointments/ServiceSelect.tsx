@@ -0,0 +1,36 @@
+'use client';
+
+import { DEFAULT_APPOINTMENT_DURATION, SERVICE_CATALOG } from '@/lib/serviceCatalog';
+
+interface ServiceSelectProps {
+	value: string;
+	onChange: (serviceType: string) => void;
+	disabled?: boolean;
+}
+
+function formatMinutes(minutes: number) {
+	if (minutes < 60) return `${minutes} min`;
+	const hours = Math.floor(minutes / 60);
+	const mins = minutes % 60;
+	return mins ? `${hours} hr ${mins} min` : `${hours} hr${hours === 1 ? '' : 's'}`;
+}
+
+/**
+ * Service picker for booking forms that take a single start time. The service sets how long the
+ * appointment lasts; with none chosen it is one standard slot.
+ */
+export default function ServiceSelect({ value, onChange, disabled = false }: ServiceSelectProps) {
+	return (
+		<div>
+			<label className="block text-sm font-medium text-slate-700">Service</label>
+			<select value={value} onChange={event => onChange(event.target.value)} className="select-base mt-2" disabled={disabled}>
+				<option value="">Standard session ({formatMinutes(DEFAULT_APPOINTMENT_DURATION)})</option>
+				{SERVICE_CATALOG.map(service => (
+					<option key={service.id} value={service.id}>
+						{service.name} ({formatMinutes(service.durationMinutes)})
+					</option>
+				))}
+			</select>
+		</div>
+	);
+}
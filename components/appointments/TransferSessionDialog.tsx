@@ -34,6 +34,8 @@ interface TransferSessionDialogProps {
 		doctor: string;
 		date: string;
 		time: string;
+		duration?: number;
+		serviceType?: string;
 	} | null;
 	onClose: () => void;
 	onConfirm: (newTherapistId: string, newTherapistName: string) => Promise<void>;
@@ -46,6 +48,7 @@ interface TransferSessionDialogProps {
 		time: string;
 		status?: string;
 		duration?: number;
+		serviceType?: string;
 	}>;
 	staff?: StaffMember[];
 }
@@ -78,7 +81,7 @@ export default function TransferSessionDialog({
 	const [conflict, setConflict] = useState<{ hasConflict: boolean; conflictingAppointments: any[] } | null>(null);
 	const [checkingConflict, setCheckingConflict] = useState(false);
 	const [transferring, setTransferring] = useState(false);
-	const [targetStaffAppointments, setTargetStaffAppointments] = useState<Array<{ id?: string; doctor: string; date: string; time: string; status: string; duration?: number }>>([]);
+	const [targetStaffAppointments, setTargetStaffAppointments] = useState<Array<{ id?: string; doctor: string; date: string; time: string; status: string; duration?: number; serviceType?: string }>>([]);
 
 	const clinicianName = useMemo(() => normalize(user?.displayName ?? ''), [user?.displayName]);
 
@@ -148,6 +151,7 @@ export default function TransferSessionDialog({
 						time: data.time ? String(data.time) : '',
 						status: data.status ? String(data.status) : 'pending',
 						duration: typeof data.duration === 'number' ? data.duration : undefined,
+						serviceType: data.serviceType ? String(data.serviceType) : undefined,
 					};
 				});
 				setTargetStaffAppointments([...mapped]);
@@ -227,8 +231,9 @@ export default function TransferSessionDialog({
 						doctor: therapistName,
 						date: appointment.date,
 						time: appointment.time,
-					},
-					30
+						duration: appointment.duration,
+						serviceType: appointment.serviceType,
+					}
 				);
 				setConflict(conflictResult);
 			} catch (error) {
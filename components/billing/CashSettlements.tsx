@@ -0,0 +1,181 @@
+'use client';
+
+import { Fragment, useEffect, useState } from 'react';
+import { collection, limit, onSnapshot, orderBy, query } from 'firebase/firestore';
+
+import { db } from '@/lib/firebase';
+import { useAuth } from '@/contexts/AuthContext';
+import { CASH_SETTLEMENTS_COLLECTION, parseCashSettlement, type CashSettlement } from '@/lib/cashBook';
+import { reviewCashSettlement } from '@/lib/cashBookClient';
+
+// Roughly two months of daily closes
+const SETTLEMENTS_SHOWN = 60;
+
+function formatAmount(value: number): string {
+	return `Rs. ${value.toFixed(2)}`;
+}
+
+function varianceClass(variance: number): string {
+	if (variance < 0) return 'text-rose-600';
+	if (variance > 0) return 'text-amber-600';
+	return 'text-emerald-600';
+}
+
+/**
+ * The front desk's signed end-of-day settlements, for admins to check the counted amounts against
+ * the cash book and mark them reviewed
+ */
+export default function CashSettlements() {
+	const { user } = useAuth();
+	const [settlements, setSettlements] = useState<CashSettlement[]>([]);
+	const [expandedId, setExpandedId] = useState<string | null>(null);
+	const [reviewingId, setReviewingId] = useState<string | null>(null);
+
+	useEffect(() => {
+		const unsubscribe = onSnapshot(
+			query(collection(db, CASH_SETTLEMENTS_COLLECTION), orderBy('date', 'desc'), limit(SETTLEMENTS_SHOWN)),
+			snapshot => {
+				setSettlements(snapshot.docs.map(settlementDoc => parseCashSettlement(settlementDoc.id, settlementDoc.data())));
+			},
+			error => {
+				console.error('Failed to load cash settlements', error);
+				setSettlements([]);
+			}
+		);
+		return () => unsubscribe();
+	}, []);
+
+	const pendingCount = settlements.filter(settlement => settlement.status === 'submitted').length;
+
+	const handleReview = async (settlement: CashSettlement) => {
+		const reviewNote = window.prompt(`Review note for ${settlement.date} (optional):`, '');
+		if (reviewNote === null) return;
+
+		setReviewingId(settlement.id);
+		try {
+			await reviewCashSettlement(settlement.id, user?.displayName || user?.email || 'Admin', reviewNote);
+		} catch (error) {
+			console.error('Failed to review settlement', error);
+			alert(`Failed to review settlement: ${error instanceof Error ? error.message : 'Unknown error'}`);
+		} finally {
+			setReviewingId(null);
+		}
+	};
+
+	return (
+		<section className="rounded-2xl bg-white p-6 shadow-[0_20px_50px_rgba(30,58,138,0.15)] border border-blue-100">
+			<div className="flex items-center justify-between">
+				<div>
+					<h3 className="text-lg font-semibold text-slate-900">Cash Settlements</h3>
+					<p className="text-sm text-slate-600">End-of-day counts signed off by the front desk.</p>
+				</div>
+				{pendingCount > 0 && (
+					<span className="rounded-full bg-amber-100 px-3 py-1 text-xs font-semibold text-amber-700">{pendingCount} awaiting review</span>
+				)}
+			</div>
+
+			{settlements.length === 0 ? (
+				<p className="mt-4 text-sm text-slate-500">No settlements have been submitted yet.</p>
+			) : (
+				<div className="mt-4 overflow-x-auto">
+					<table className="min-w-full divide-y divide-slate-200 text-left text-sm text-slate-700">
+						<thead className="bg-slate-100 text-xs uppercase tracking-wide text-slate-500">
+							<tr>
+								<th className="px-3 py-2 font-semibold">Date</th>
+								<th className="px-3 py-2 text-right font-semibold">Expected</th>
+								<th className="px-3 py-2 text-right font-semibold">Counted</th>
+								<th className="px-3 py-2 text-right font-semibold">Difference</th>
+								<th className="px-3 py-2 font-semibold">Signed By</th>
+								<th className="px-3 py-2 font-semibold">Status</th>
+								<th className="px-3 py-2 text-right font-semibold">Actions</th>
+							</tr>
+						</thead>
+						<tbody className="divide-y divide-slate-100">
+							{settlements.map(settlement => (
+								<Fragment key={settlement.id}>
+									<tr>
+										<td className="px-3 py-2 font-medium">{settlement.date}</td>
+										<td className="px-3 py-2 text-right">{formatAmount(settlement.expectedTotal)}</td>
+										<td className="px-3 py-2 text-right">{formatAmount(settlement.countedTotal)}</td>
+										<td className={`px-3 py-2 text-right font-semibold ${varianceClass(settlement.variance)}`}>{formatAmount(settlement.variance)}</td>
+										<td className="px-3 py-2">
+											{settlement.signedByName}
+											<div className="text-xs text-slate-500">{settlement.signedAt ? new Date(settlement.signedAt).toLocaleString() : ''}</div>
+										</td>
+										<td className="px-3 py-2">
+											{settlement.status === 'reviewed' ? (
+												<span className="rounded-full bg-emerald-100 px-2 py-0.5 text-xs font-semibold text-emerald-700">Reviewed</span>
+											) : (
+												<span className="rounded-full bg-amber-100 px-2 py-0.5 text-xs font-semibold text-amber-700">Submitted</span>
+											)}
+										</td>
+										<td className="px-3 py-2 text-right">
+											<div className="flex justify-end gap-2">
+												<button
+													type="button"
+													onClick={() => setExpandedId(expandedId === settlement.id ? null : settlement.id)}
+													className="btn-secondary text-xs"
+												>
+													{expandedId === settlement.id ? 'Hide' : 'Details'}
+												</button>
+												{settlement.status === 'submitted' && (
+													<button
+														type="button"
+														onClick={() => handleReview(settlement)}
+														disabled={reviewingId === settlement.id}
+														className="btn-primary text-xs"
+													>
+														{reviewingId === settlement.id ? 'Saving...' : 'Mark Reviewed'}
+													</button>
+												)}
+											</div>
+										</td>
+									</tr>
+									{expandedId === settlement.id && (
+										<tr className="bg-slate-50">
+											<td colSpan={7} className="px-3 py-3">
+												<div className="grid gap-4 md:grid-cols-2">
+													<div>
+														<p className="mb-1 text-xs font-semibold uppercase text-slate-500">By payment mode</p>
+														{settlement.lines.map(line => (
+															<div key={line.mode} className="flex justify-between">
+																<span>{line.mode}</span>
+																<span>
+																	{formatAmount(line.expected)} / {formatAmount(line.counted)}{' '}
+																	<span className={varianceClass(line.variance)}>({formatAmount(line.variance)})</span>
+																</span>
+															</div>
+														))}
+													</div>
+													<div>
+														<p className="mb-1 text-xs font-semibold uppercase text-slate-500">By staff</p>
+														{settlement.byStaff.length === 0 ? (
+															<p className="text-slate-500">No collections.</p>
+														) : (
+															settlement.byStaff.map(row => (
+																<div key={row.staffId || row.staffName} className="flex justify-between">
+																	<span>{row.staffName}</span>
+																	<span>{formatAmount(row.total)}</span>
+																</div>
+															))
+														)}
+													</div>
+												</div>
+												{settlement.note && <p className="mt-3 text-slate-600">Front desk note: {settlement.note}</p>}
+												{settlement.reviewNote && (
+													<p className="mt-1 text-slate-600">
+														Reviewed by {settlement.reviewedBy}: {settlement.reviewNote}
+													</p>
+												)}
+											</td>
+										</tr>
+									)}
+								</Fragment>
+							))}
+						</tbody>
+					</table>
+				</div>
+			)}
+		</section>
+	);
+}
@@ -0,0 +1,274 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { collection, onSnapshot, query, where } from 'firebase/firestore';
+
+import { db } from '@/lib/firebase';
+import {
+	CREDIT_NOTES_COLLECTION,
+	REFUND_MODES,
+	getCreditedAmount,
+	getNetBillAmount,
+	isBillVoided,
+	parseCreditNote,
+	type CreditNote,
+	type RefundMode,
+} from '@/lib/creditNotes';
+import { requestCreditNote, requestVoidBill } from '@/lib/creditNotesClient';
+import { getNetPaidAmount } from '@/lib/billPayments';
+
+interface CreditNoteDialogProps {
+	bill: {
+		id?: string;
+		billingId: string;
+		patient: string;
+		amount: number;
+		status: string;
+		invoiceNo?: string;
+		amountPaid?: number;
+		creditedAmount?: number;
+		refundedAmount?: number;
+	};
+	canVoid: boolean; // Voiding is for admins only
+	onClose: () => void;
+}
+
+/**
+ * Refunds, credit notes and voiding for one bill, with the credit notes already issued against it
+ */
+export default function CreditNoteDialog({ bill, canVoid, onClose }: CreditNoteDialogProps) {
+	const remaining = getNetBillAmount(bill);
+	const netPaid = getNetPaidAmount(bill);
+	const isPaid = netPaid > 0;
+	const [creditNotes, setCreditNotes] = useState<CreditNote[]>([]);
+	const [refund, setRefund] = useState(isPaid);
+	const [amount, setAmount] = useState(remaining.toFixed(2));
+	const [reason, setReason] = useState('');
+	const [refundMode, setRefundMode] = useState<RefundMode>('Cash');
+	const [utr, setUtr] = useState('');
+	const [voidReason, setVoidReason] = useState('');
+	const [saving, setSaving] = useState(false);
+
+	useEffect(() => {
+		if (!bill.id) return;
+		const unsubscribe = onSnapshot(
+			query(collection(db, CREDIT_NOTES_COLLECTION), where('billingDocId', '==', bill.id)),
+			snapshot => {
+				const notes = snapshot.docs.map(docSnap => parseCreditNote(docSnap.id, docSnap.data()));
+				setCreditNotes(notes.sort((a, b) => a.issuedAt.localeCompare(b.issuedAt)));
+			},
+			error => {
+				console.error('Failed to load credit notes', error);
+				setCreditNotes([]);
+			}
+		);
+		return () => unsubscribe();
+	}, [bill.id]);
+
+	const handleIssue = async (event: React.FormEvent) => {
+		event.preventDefault();
+		if (!bill.id) return;
+		const value = parseFloat(amount);
+		const limit = refund ? Math.min(remaining, netPaid) : remaining;
+		if (!Number.isFinite(value) || value <= 0 || value > limit) {
+			alert(`Please enter an amount between Rs. 0.01 and Rs. ${limit.toFixed(2)}.`);
+			return;
+		}
+		if (!reason.trim()) {
+			alert('Please enter a reason.');
+			return;
+		}
+		if (refund && refundMode !== 'Cash' && !utr.trim()) {
+			alert('Please enter the UTR for this refund.');
+			return;
+		}
+
+		setSaving(true);
+		try {
+			const creditNote = await requestCreditNote({
+				billingDocId: bill.id,
+				amount: value,
+				reason: reason.trim(),
+				...(refund ? { refund: { mode: refundMode, ...(utr.trim() ? { utr: utr.trim() } : {}) } } : {}),
+			});
+			alert(`Credit note ${creditNote.creditNoteNo} issued for Rs. ${creditNote.amount.toFixed(2)}.`);
+			onClose();
+		} catch (error) {
+			console.error('Failed to issue credit note', error);
+			alert(`Failed to issue credit note: ${error instanceof Error ? error.message : 'Unknown error'}`);
+		} finally {
+			setSaving(false);
+		}
+	};
+
+	const handleVoid = async () => {
+		if (!bill.id) return;
+		if (!voidReason.trim()) {
+			alert('Please enter a reason for voiding this bill.');
+			return;
+		}
+		if (!window.confirm(`Void bill ${bill.billingId} for ${bill.patient}? It will stay on record but no longer count towards revenue.`)) {
+			return;
+		}
+
+		setSaving(true);
+		try {
+			const creditNote = await requestVoidBill({ billingDocId: bill.id, reason: voidReason.trim() });
+			alert(creditNote ? `Bill voided. Credit note ${creditNote.creditNoteNo} reverses invoice ${creditNote.invoiceNo}.` : 'Bill voided.');
+			onClose();
+		} catch (error) {
+			console.error('Failed to void bill', error);
+			alert(`Failed to void bill: ${error instanceof Error ? error.message : 'Unknown error'}`);
+		} finally {
+			setSaving(false);
+		}
+	};
+
+	return (
+		<div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/60 px-4 py-6">
+			<div className="w-full max-w-lg max-h-[90vh] overflow-y-auto rounded-2xl border border-slate-200 bg-white shadow-2xl">
+				<header className="flex items-center justify-between border-b border-slate-200 px-6 py-4">
+					<h2 className="text-lg font-semibold text-slate-900">Refund / Credit Note</h2>
+					<button
+						type="button"
+						onClick={onClose}
+						className="rounded-full p-2 text-slate-400 transition hover:bg-slate-100 hover:text-slate-600 focus-visible:outline-none"
+						aria-label="Close"
+					>
+						<i className="fas fa-times" aria-hidden="true" />
+					</button>
+				</header>
+
+				<div className="space-y-5 px-6 py-6">
+					<div className="rounded-lg border border-slate-200 bg-slate-50 p-3 text-sm text-slate-700">
+						<p className="font-medium">{bill.patient} • {bill.billingId}</p>
+						{bill.invoiceNo && <p>Invoice: {bill.invoiceNo}</p>}
+						<p>
+							Billed Rs. {Number(bill.amount || 0).toFixed(2)} • Credited Rs. {getCreditedAmount(bill).toFixed(2)} • Remaining Rs. {remaining.toFixed(2)}
+						</p>
+						<p>Paid and not refunded: Rs. {netPaid.toFixed(2)}</p>
+						<p>Status: {bill.status}</p>
+					</div>
+
+					{creditNotes.length > 0 && (
+						<div>
+							<h3 className="text-sm font-semibold text-slate-900">Credit Notes</h3>
+							<ul className="mt-2 divide-y divide-slate-100 text-sm">
+								{creditNotes.map(note => (
+									<li key={note.id} className="py-2">
+										<div className="flex justify-between">
+											<span className="font-medium text-slate-800">{note.creditNoteNo}</span>
+											<span className="font-semibold text-slate-900">Rs. {note.amount.toFixed(2)}</span>
+										</div>
+										<p className="text-xs text-slate-500">
+											{new Date(note.issuedAt).toLocaleDateString()} • {note.voidsBill ? 'Void' : note.refundMode ? `Refunded by ${note.refundMode}` : 'Credit only'}
+											{note.refundUtr ? ` • UTR ${note.refundUtr}` : ''} • {note.reason}
+										</p>
+									</li>
+								))}
+							</ul>
+						</div>
+					)}
+
+					{remaining > 0 && !isBillVoided(bill) && (
+						<form onSubmit={handleIssue} className="space-y-3">
+							<div className="flex gap-4 text-sm text-slate-700">
+								<label className="flex items-center gap-2">
+									<input type="radio" checked={refund} onChange={() => setRefund(true)} disabled={!isPaid} />
+									Refund to patient
+								</label>
+								<label className="flex items-center gap-2">
+									<input type="radio" checked={!refund} onChange={() => setRefund(false)} />
+									Credit only
+								</label>
+							</div>
+							{!isPaid && <p className="text-xs text-slate-500">Nothing has been paid on this bill yet, so there is nothing to refund.</p>}
+							<div>
+								<label className="block text-sm font-medium text-slate-700">Amount (Rs.)</label>
+								<input
+									type="number"
+									min="0.01"
+									max={remaining}
+									step="0.01"
+									value={amount}
+									onChange={event => setAmount(event.target.value)}
+									className="input-base mt-2"
+								/>
+							</div>
+							<div>
+								<label className="block text-sm font-medium text-slate-700">Reason</label>
+								<textarea
+									value={reason}
+									onChange={event => setReason(event.target.value)}
+									rows={2}
+									placeholder="e.g. Session cancelled after payment"
+									className="input-base mt-2"
+								/>
+							</div>
+							{refund && (
+								<div className="grid grid-cols-2 gap-3">
+									<div>
+										<label className="block text-sm font-medium text-slate-700">Refund Mode</label>
+										<select
+											value={refundMode}
+											onChange={event => setRefundMode(event.target.value as RefundMode)}
+											className="select-base mt-2"
+										>
+											{REFUND_MODES.map(mode => (
+												<option key={mode} value={mode}>{mode}</option>
+											))}
+										</select>
+									</div>
+									{refundMode !== 'Cash' && (
+										<div>
+											<label className="block text-sm font-medium text-slate-700">UTR</label>
+											<input
+												type="text"
+												value={utr}
+												onChange={event => setUtr(event.target.value)}
+												className="input-base mt-2"
+											/>
+										</div>
+									)}
+								</div>
+							)}
+							<div className="flex justify-end">
+								<button type="submit" className="btn-primary" disabled={saving}>
+									{saving ? 'Saving...' : refund ? 'Record Refund' : 'Issue Credit Note'}
+								</button>
+							</div>
+						</form>
+					)}
+
+					{canVoid && !isBillVoided(bill) && (
+						<div className="space-y-3 border-t border-slate-200 pt-4">
+							<h3 className="text-sm font-semibold text-slate-900">Void Bill</h3>
+							<p className="text-xs text-slate-500">
+								{isPaid
+									? 'Refund everything paid on this bill before voiding it.'
+									: 'The bill stays on record as Voided and no longer counts towards revenue. An issued invoice is reversed with a credit note.'}
+							</p>
+							<input
+								type="text"
+								value={voidReason}
+								onChange={event => setVoidReason(event.target.value)}
+								placeholder="Reason for voiding"
+								className="input-base"
+							/>
+							<div className="flex justify-end">
+								<button
+									type="button"
+									onClick={handleVoid}
+									disabled={saving || isPaid}
+									className="rounded-lg bg-rose-600 px-4 py-2 text-sm font-medium text-white hover:bg-rose-700 disabled:opacity-50"
+								>
+									Void Bill
+								</button>
+							</div>
+						</div>
+					)}
+				</div>
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,108 @@
+'use client';
+
+import { SERVICE_CATALOG } from '@/lib/serviceCatalog';
+import {
+	getPackageExpiry,
+	getPackagePayableAmount,
+	type PackageEnrolmentDraft,
+	type PackagePlan,
+} from '@/lib/packages';
+
+interface PackagePlanFieldsProps {
+	plans: PackagePlan[];
+	draft: PackageEnrolmentDraft;
+	onChange: (draft: PackageEnrolmentDraft) => void;
+	disabled?: boolean;
+}
+
+/**
+ * Package picker for enrolling a patient: catalogue plan, concession within what the plan allows, and start date
+ */
+export default function PackagePlanFields({ plans, draft, onChange, disabled = false }: PackagePlanFieldsProps) {
+	const activePlans = plans.filter(plan => plan.active);
+	const plan = activePlans.find(option => option.id === draft.planId);
+	const concession = Math.min(Number(draft.concessionPercent) || 0, plan?.maxConcessionPercent ?? 0);
+
+	return (
+		<div className="space-y-3">
+			<div>
+				<label className="block text-sm font-medium text-slate-700">
+					Package <span className="text-rose-600">*</span>
+				</label>
+				<select
+					value={draft.planId}
+					onChange={event => onChange({ ...draft, planId: event.target.value, concessionPercent: '' })}
+					className="select-base mt-2"
+					disabled={disabled}
+				>
+					<option value="">Select a package</option>
+					{activePlans.map(option => (
+						<option key={option.id} value={option.id}>
+							{option.name} - Rs. {option.price.toFixed(2)}
+						</option>
+					))}
+				</select>
+				{activePlans.length === 0 && (
+					<p className="mt-1 text-xs text-amber-600">No packages in the catalogue yet. An admin can add them on the Billing page.</p>
+				)}
+			</div>
+
+			<div className="grid gap-3 sm:grid-cols-2">
+				<div>
+					<label className="block text-sm font-medium text-slate-700">
+						Start Date <span className="text-rose-600">*</span>
+					</label>
+					<input
+						type="date"
+						value={draft.startDate}
+						onChange={event => onChange({ ...draft, startDate: event.target.value })}
+						className="input-base mt-2"
+						disabled={disabled}
+					/>
+				</div>
+				{plan && plan.maxConcessionPercent > 0 && (
+					<div>
+						<label className="block text-sm font-medium text-slate-700">
+							Concession (%) <span className="text-xs font-normal text-slate-500">(up to {plan.maxConcessionPercent}%)</span>
+						</label>
+						<input
+							type="number"
+							min="0"
+							max={plan.maxConcessionPercent}
+							step="0.01"
+							value={draft.concessionPercent}
+							onChange={event => onChange({ ...draft, concessionPercent: event.target.value })}
+							className="input-base mt-2"
+							placeholder="0"
+							disabled={disabled}
+						/>
+					</div>
+				)}
+			</div>
+
+			{plan && (
+				<div className="rounded-lg border border-purple-200 bg-purple-50 p-3 text-sm text-slate-700">
+					<div className="flex justify-between">
+						<span>Sessions</span>
+						<span className="font-medium text-slate-900">{plan.sessions}</span>
+					</div>
+					<div className="flex justify-between">
+						<span>Valid until</span>
+						<span className="font-medium text-slate-900">
+							{draft.startDate ? getPackageExpiry(draft.startDate, plan.validityDays) : '—'} ({plan.validityDays} days)
+						</span>
+					</div>
+					{plan.serviceTypes.length > 0 && (
+						<p className="mt-1 text-xs text-slate-500">
+							For {plan.serviceTypes.map(id => SERVICE_CATALOG.find(service => service.id === id)?.name ?? id).join(', ')}
+						</p>
+					)}
+					<div className="mt-2 flex justify-between border-t border-purple-200 pt-2">
+						<span className="font-semibold">Payable{concession > 0 ? ` (${concession}% off)` : ''}</span>
+						<span className="font-bold text-purple-700">Rs. {getPackagePayableAmount(plan, concession).toFixed(2)}</span>
+					</div>
+				</div>
+			)}
+		</div>
+	);
+}
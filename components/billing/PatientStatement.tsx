@@ -0,0 +1,235 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { collection, onSnapshot, query, where } from 'firebase/firestore';
+
+import { db } from '@/lib/firebase';
+import {
+	BILL_PAYMENTS_COLLECTION,
+	buildPatientStatement,
+	parseBillPayment,
+	type BillPayment,
+	type LedgerBill,
+	type StatementEntryType,
+} from '@/lib/billPayments';
+import { CREDIT_NOTES_COLLECTION, parseCreditNote, type CreditNote } from '@/lib/creditNotes';
+
+interface PatientStatementProps {
+	patientId: string;
+	patientName: string;
+}
+
+const ENTRY_LABELS: Record<StatementEntryType, string> = {
+	charge: 'Charge',
+	payment: 'Payment',
+	credit: 'Credit Note',
+	refund: 'Refund',
+	void: 'Voided',
+};
+
+function formatAmount(value: number): string {
+	return value ? `Rs. ${value.toFixed(2)}` : '';
+}
+
+function escapeHtml(value: string): string {
+	return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Running account of a patient's bills, payments, credit notes and refunds with the balance outstanding
+ */
+export default function PatientStatement({ patientId, patientName }: PatientStatementProps) {
+	const [bills, setBills] = useState<LedgerBill[]>([]);
+	const [payments, setPayments] = useState<BillPayment[]>([]);
+	const [creditNotes, setCreditNotes] = useState<CreditNote[]>([]);
+
+	useEffect(() => {
+		const unsubscribe = onSnapshot(
+			query(collection(db, 'billing'), where('patientId', '==', patientId)),
+			snapshot => {
+				setBills(
+					snapshot.docs.map(docSnap => {
+						const data = docSnap.data();
+						return {
+							id: docSnap.id,
+							billingId: data.billingId ? String(data.billingId) : '',
+							patientId: data.patientId ? String(data.patientId) : '',
+							amount: Number(data.amount || 0),
+							date: data.date ? String(data.date) : '',
+							status: data.status ? String(data.status) : 'Pending',
+							paymentMode: data.paymentMode ? String(data.paymentMode) : undefined,
+							utr: data.utr ? String(data.utr) : undefined,
+							amountPaid: typeof data.amountPaid === 'number' ? data.amountPaid : undefined,
+							creditedAmount: typeof data.creditedAmount === 'number' ? data.creditedAmount : undefined,
+							refundedAmount: typeof data.refundedAmount === 'number' ? data.refundedAmount : undefined,
+						};
+					})
+				);
+			},
+			error => {
+				console.error('Failed to load bills for statement', error);
+				setBills([]);
+			}
+		);
+		return () => unsubscribe();
+	}, [patientId]);
+
+	useEffect(() => {
+		const unsubscribe = onSnapshot(
+			query(collection(db, BILL_PAYMENTS_COLLECTION), where('patientId', '==', patientId)),
+			snapshot => {
+				setPayments(snapshot.docs.map(docSnap => parseBillPayment(docSnap.id, docSnap.data())));
+			},
+			error => {
+				console.error('Failed to load payments for statement', error);
+				setPayments([]);
+			}
+		);
+		return () => unsubscribe();
+	}, [patientId]);
+
+	useEffect(() => {
+		const unsubscribe = onSnapshot(
+			query(collection(db, CREDIT_NOTES_COLLECTION), where('patientId', '==', patientId)),
+			snapshot => {
+				setCreditNotes(snapshot.docs.map(docSnap => parseCreditNote(docSnap.id, docSnap.data())));
+			},
+			error => {
+				console.error('Failed to load credit notes for statement', error);
+				setCreditNotes([]);
+			}
+		);
+		return () => unsubscribe();
+	}, [patientId]);
+
+	const statement = useMemo(() => buildPatientStatement(bills, payments, creditNotes), [bills, payments, creditNotes]);
+
+	const handlePrint = () => {
+		const rows = statement.entries
+			.map(
+				entry => `<tr>
+					<td>${escapeHtml(entry.date)}</td>
+					<td>${escapeHtml(entry.description)}</td>
+					<td>${escapeHtml(entry.reference)}</td>
+					<td class="num">${formatAmount(entry.debit)}</td>
+					<td class="num">${formatAmount(entry.credit)}</td>
+					<td class="num">Rs. ${entry.balance.toFixed(2)}</td>
+				</tr>`
+			)
+			.join('');
+		const html = `<!DOCTYPE html>
+<html>
+<head>
+	<title>Statement - ${escapeHtml(patientName)}</title>
+	<style>
+		body { font-family: Arial, sans-serif; font-size: 12px; color: #0f172a; padding: 24px; }
+		h1 { font-size: 18px; margin: 0 0 4px; }
+		p { margin: 0 0 16px; color: #475569; }
+		table { width: 100%; border-collapse: collapse; }
+		th, td { border: 1px solid #cbd5e1; padding: 6px 8px; text-align: left; }
+		th { background: #f1f5f9; }
+		.num { text-align: right; white-space: nowrap; }
+		.total td { font-weight: bold; }
+	</style>
+</head>
+<body>
+	<h1>Statement of Account</h1>
+	<p>${escapeHtml(patientName)} (${escapeHtml(patientId)}) &middot; Printed ${new Date().toLocaleDateString()}</p>
+	<table>
+		<thead>
+			<tr><th>Date</th><th>Description</th><th>Reference</th><th class="num">Debit</th><th class="num">Credit</th><th class="num">Balance</th></tr>
+		</thead>
+		<tbody>
+			${rows}
+			<tr class="total"><td colspan="5">Balance outstanding</td><td class="num">Rs. ${statement.balance.toFixed(2)}</td></tr>
+		</tbody>
+	</table>
+</body>
+</html>`;
+
+		const printWindow = window.open('', '_blank');
+		if (!printWindow) {
+			alert('Please allow pop-ups to print the statement.');
+			return;
+		}
+		printWindow.document.write(html);
+		printWindow.document.close();
+		printWindow.focus();
+		printWindow.print();
+	};
+
+	return (
+		<div className="rounded-lg border border-slate-200 bg-white p-6">
+			<div className="mb-4 flex items-start justify-between gap-4">
+				<div>
+					<p className="text-xs font-semibold uppercase tracking-wide text-slate-500">Account Statement</p>
+					<p className={`mt-1 text-lg font-semibold ${statement.balance > 0 ? 'text-rose-600' : 'text-emerald-600'}`}>
+						{statement.balance > 0
+							? `Rs. ${statement.balance.toFixed(2)} outstanding`
+							: statement.balance < 0
+								? `Rs. ${Math.abs(statement.balance).toFixed(2)} in credit`
+								: 'No balance due'}
+					</p>
+				</div>
+				<button type="button" onClick={handlePrint} className="btn-secondary" disabled={statement.entries.length === 0}>
+					<i className="fas fa-print mr-2" aria-hidden="true" />
+					Print Statement
+				</button>
+			</div>
+
+			<div className="mb-4 grid grid-cols-2 gap-3 text-sm sm:grid-cols-4">
+				<div>
+					<p className="text-xs text-slate-500">Charged</p>
+					<p className="font-medium text-slate-900">Rs. {statement.totalCharged.toFixed(2)}</p>
+				</div>
+				<div>
+					<p className="text-xs text-slate-500">Paid</p>
+					<p className="font-medium text-slate-900">Rs. {statement.totalPaid.toFixed(2)}</p>
+				</div>
+				<div>
+					<p className="text-xs text-slate-500">Credited</p>
+					<p className="font-medium text-slate-900">Rs. {statement.totalCredited.toFixed(2)}</p>
+				</div>
+				<div>
+					<p className="text-xs text-slate-500">Refunded</p>
+					<p className="font-medium text-slate-900">Rs. {statement.totalRefunded.toFixed(2)}</p>
+				</div>
+			</div>
+
+			{statement.entries.length === 0 ? (
+				<p className="text-sm text-slate-500">No bills or payments recorded for this patient yet.</p>
+			) : (
+				<div className="overflow-x-auto">
+					<table className="min-w-full divide-y divide-slate-200 text-left text-sm">
+						<thead className="bg-slate-50 text-xs uppercase tracking-wide text-slate-500">
+							<tr>
+								<th className="px-3 py-2 font-semibold">Date</th>
+								<th className="px-3 py-2 font-semibold">Entry</th>
+								<th className="px-3 py-2 font-semibold">Description</th>
+								<th className="px-3 py-2 font-semibold">Reference</th>
+								<th className="px-3 py-2 text-right font-semibold">Debit</th>
+								<th className="px-3 py-2 text-right font-semibold">Credit</th>
+								<th className="px-3 py-2 text-right font-semibold">Balance</th>
+							</tr>
+						</thead>
+						<tbody className="divide-y divide-slate-100">
+							{statement.entries.map((entry, index) => (
+								<tr key={`${entry.type}-${entry.reference}-${index}`}>
+									<td className="whitespace-nowrap px-3 py-2 text-slate-600">{entry.date || '—'}</td>
+									<td className="px-3 py-2 text-slate-600">{ENTRY_LABELS[entry.type]}</td>
+									<td className="px-3 py-2 text-slate-900">{entry.description}</td>
+									<td className="px-3 py-2 text-slate-500">{entry.reference || '—'}</td>
+									<td className="whitespace-nowrap px-3 py-2 text-right text-slate-900">{formatAmount(entry.debit)}</td>
+									<td className="whitespace-nowrap px-3 py-2 text-right text-slate-900">{formatAmount(entry.credit)}</td>
+									<td className="whitespace-nowrap px-3 py-2 text-right font-medium text-slate-900">
+										Rs. {entry.balance.toFixed(2)}
+									</td>
+								</tr>
+							))}
+						</tbody>
+					</table>
+				</div>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,90 @@
+'use client';
+
+import { PAYMENT_MODES, type PaymentLineDraft, type PaymentMode } from '@/lib/billPayments';
+
+interface PaymentLinesEditorProps {
+	lines: PaymentLineDraft[];
+	onChange: (lines: PaymentLineDraft[]) => void;
+	balanceDue: number;
+}
+
+/**
+ * One row per mode of payment, so a bill can be settled part cash and part UPI in one go
+ */
+export default function PaymentLinesEditor({ lines, onChange, balanceDue }: PaymentLinesEditorProps) {
+	const total = lines.reduce((sum, line) => sum + (parseFloat(line.amount) || 0), 0);
+	const remaining = Math.round((balanceDue - total) * 100) / 100;
+
+	const updateLine = (index: number, patch: Partial<PaymentLineDraft>) => {
+		onChange(lines.map((line, i) => (i === index ? { ...line, ...patch } : line)));
+	};
+
+	const handleAddLine = () => {
+		const usedModes = new Set(lines.map(line => line.mode));
+		const mode: PaymentMode = PAYMENT_MODES.find(option => !usedModes.has(option)) ?? 'Cash';
+		onChange([...lines, { mode, amount: remaining > 0 ? remaining.toFixed(2) : '', reference: '' }]);
+	};
+
+	return (
+		<div className="space-y-2">
+			{lines.map((line, index) => (
+				<div key={index} className="rounded-lg border border-slate-200 p-2">
+					<div className="flex items-center gap-2">
+						<select
+							value={line.mode}
+							onChange={event => updateLine(index, { mode: event.target.value as PaymentMode })}
+							className="select-base w-36"
+						>
+							{PAYMENT_MODES.map(mode => (
+								<option key={mode} value={mode}>{mode}</option>
+							))}
+						</select>
+						<div className="relative flex-1">
+							<span className="pointer-events-none absolute inset-y-0 left-3 flex items-center text-sm text-slate-500">Rs.</span>
+							<input
+								type="number"
+								min="0"
+								step="0.01"
+								value={line.amount}
+								onChange={event => updateLine(index, { amount: event.target.value })}
+								className="input-base pl-10"
+							/>
+						</div>
+						{lines.length > 1 && (
+							<button
+								type="button"
+								onClick={() => onChange(lines.filter((_, i) => i !== index))}
+								className="rounded-full p-2 text-slate-400 transition hover:bg-slate-100 hover:text-rose-600"
+								aria-label="Remove payment"
+							>
+								<i className="fas fa-times" aria-hidden="true" />
+							</button>
+						)}
+					</div>
+					{line.mode !== 'Cash' && (
+						<input
+							type="text"
+							value={line.reference}
+							onChange={event => updateLine(index, { reference: event.target.value })}
+							placeholder={line.mode === 'Cheque' ? 'Cheque number' : 'Txn ID / UTR Number'}
+							className="input-base mt-2"
+						/>
+					)}
+				</div>
+			))}
+			<div className="flex items-center justify-between text-xs">
+				<button type="button" onClick={handleAddLine} className="font-semibold text-sky-700 hover:text-sky-800">
+					<i className="fas fa-plus mr-1" aria-hidden="true" />
+					Split across another mode
+				</button>
+				<span className={remaining < 0 ? 'font-semibold text-rose-600' : 'text-slate-500'}>
+					{remaining > 0
+						? `Rs. ${remaining.toFixed(2)} will remain due`
+						: remaining < 0
+							? `Rs. ${Math.abs(remaining).toFixed(2)} more than the balance due`
+							: 'Settles the bill in full'}
+				</span>
+			</div>
+		</div>
+	);
+}
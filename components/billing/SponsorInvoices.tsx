@@ -0,0 +1,420 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { collection, onSnapshot, orderBy, query } from 'firebase/firestore';
+import * as XLSX from 'xlsx';
+
+import { db } from '@/lib/firebase';
+import { useAuth } from '@/contexts/AuthContext';
+import { useBillingPolicies } from '@/hooks/useBillingPolicies';
+import { useGstSettings } from '@/hooks/useGstSettings';
+import { getBillingCycleForDate, getBillingCycleId } from '@/lib/billingUtils';
+import { PAYMENT_MODES, type PaymentMode } from '@/lib/billPayments';
+import { getGstEntity } from '@/lib/gst';
+import { generateSponsorInvoicePDF } from '@/lib/pdfGenerator';
+import {
+	SPONSOR_INVOICES_COLLECTION,
+	getSponsorInvoiceRows,
+	getSponsorName,
+	isSponsoredPolicy,
+	parseSponsorInvoice,
+	type SponsorInvoice,
+	type SponsorInvoiceLine,
+	type SponsorInvoiceStatus,
+} from '@/lib/sponsorInvoices';
+import {
+	cancelSponsorInvoice,
+	createSponsorInvoice,
+	fetchClaimableSponsorLines,
+	recordSponsorInvoicePayment,
+} from '@/lib/sponsorInvoicesClient';
+
+const STATUS_STYLES: Record<SponsorInvoiceStatus, string> = {
+	Unpaid: 'bg-amber-100 text-amber-700',
+	'Partially Paid': 'bg-sky-100 text-sky-700',
+	Paid: 'bg-emerald-100 text-emerald-700',
+	Cancelled: 'bg-slate-100 text-slate-500',
+};
+
+function formatAmount(value: number): string {
+	return `Rs. ${value.toFixed(2)}`;
+}
+
+// Sponsors are normally invoiced once the month is over
+function getPreviousMonth(): string {
+	const now = new Date();
+	return getBillingCycleId(now.getMonth() === 0 ? 12 : now.getMonth(), now.getMonth() === 0 ? now.getFullYear() - 1 : now.getFullYear());
+}
+
+interface PaymentDraft {
+	invoiceId: string;
+	amount: string;
+	receivedOn: string;
+	mode: PaymentMode;
+	reference: string;
+}
+
+/**
+ * Consolidated invoices to DYES and other sponsoring organisations: one per organisation and billing
+ * cycle, listing every covered session, with the payments received against it
+ */
+export default function SponsorInvoices() {
+	const { user } = useAuth();
+	const { settings: policySettings } = useBillingPolicies();
+	const { settings: gstSettings } = useGstSettings();
+	const [invoices, setInvoices] = useState<SponsorInvoice[]>([]);
+	const [policyKey, setPolicyKey] = useState('');
+	const [cycleMonth, setCycleMonth] = useState(getPreviousMonth);
+	const [previewLines, setPreviewLines] = useState<SponsorInvoiceLine[] | null>(null);
+	const [loadingPreview, setLoadingPreview] = useState(false);
+	const [creating, setCreating] = useState(false);
+	const [paymentDraft, setPaymentDraft] = useState<PaymentDraft | null>(null);
+	const [savingPayment, setSavingPayment] = useState(false);
+
+	const sponsoredPolicies = useMemo(() => policySettings.policies.filter(isSponsoredPolicy), [policySettings]);
+	const selectedPolicy = sponsoredPolicies.find(policy => policy.key === policyKey) ?? sponsoredPolicies[0] ?? null;
+	const cycle = useMemo(() => {
+		const { startDate, endDate } = getBillingCycleForDate(`${cycleMonth}-01T00:00:00`);
+		return { id: cycleMonth, startDate, endDate };
+	}, [cycleMonth]);
+	const previewTotal = (previewLines ?? []).reduce((sum, line) => sum + line.amount, 0);
+	const actor = user?.email || user?.displayName || null;
+
+	useEffect(() => {
+		const unsubscribe = onSnapshot(
+			query(collection(db, SPONSOR_INVOICES_COLLECTION), orderBy('createdAt', 'desc')),
+			snapshot => {
+				setInvoices(snapshot.docs.map(docSnap => parseSponsorInvoice(docSnap.id, docSnap.data())));
+			},
+			error => {
+				console.error('Failed to load sponsor invoices', error);
+				setInvoices([]);
+			}
+		);
+
+		return () => unsubscribe();
+	}, []);
+
+	const handlePreview = async () => {
+		if (!selectedPolicy) return;
+		setLoadingPreview(true);
+		try {
+			setPreviewLines(await fetchClaimableSponsorLines(selectedPolicy, cycle.startDate, cycle.endDate));
+		} catch (error) {
+			console.error('Failed to load sponsored sessions', error);
+			alert(`Failed to load sponsored sessions: ${error instanceof Error ? error.message : 'Unknown error'}`);
+		} finally {
+			setLoadingPreview(false);
+		}
+	};
+
+	const handleCreate = async () => {
+		if (!selectedPolicy || !previewLines || previewLines.length === 0) return;
+		if (
+			!window.confirm(
+				`Raise an invoice to ${getSponsorName(selectedPolicy)} for ${previewLines.length} session(s) totalling ${formatAmount(previewTotal)} before tax?`
+			)
+		) {
+			return;
+		}
+		setCreating(true);
+		try {
+			const invoice = await createSponsorInvoice({ policy: selectedPolicy, cycle, lines: previewLines, gstSettings, createdBy: actor });
+			setPreviewLines(null);
+			alert(`Invoice ${invoice.invoiceNo} created.`);
+		} catch (error) {
+			console.error('Failed to create sponsor invoice', error);
+			alert(`Failed to create invoice: ${error instanceof Error ? error.message : 'Unknown error'}`);
+		} finally {
+			setCreating(false);
+		}
+	};
+
+	const handleRecordPayment = async (event: React.FormEvent) => {
+		event.preventDefault();
+		if (!paymentDraft) return;
+		const amount = Number(paymentDraft.amount);
+		if (!Number.isFinite(amount) || amount <= 0) {
+			alert('Please enter the amount received.');
+			return;
+		}
+		if (!paymentDraft.receivedOn) {
+			alert('Please enter the date the payment was received.');
+			return;
+		}
+		setSavingPayment(true);
+		try {
+			const status = await recordSponsorInvoicePayment(paymentDraft.invoiceId, {
+				amount,
+				receivedOn: paymentDraft.receivedOn,
+				mode: paymentDraft.mode,
+				reference: paymentDraft.reference.trim() || null,
+				recordedBy: actor,
+			});
+			setPaymentDraft(null);
+			alert(status === 'Paid' ? 'Payment recorded. The invoice is now fully paid.' : 'Payment recorded.');
+		} catch (error) {
+			console.error('Failed to record sponsor payment', error);
+			alert(`Failed to record payment: ${error instanceof Error ? error.message : 'Unknown error'}`);
+		} finally {
+			setSavingPayment(false);
+		}
+	};
+
+	const handleCancel = async (invoice: SponsorInvoice) => {
+		const reason = window.prompt(`Why is invoice ${invoice.invoiceNo} being cancelled? Its sessions can then be invoiced again.`);
+		if (reason === null) return;
+		try {
+			await cancelSponsorInvoice(invoice, reason);
+		} catch (error) {
+			console.error('Failed to cancel sponsor invoice', error);
+			alert(`Failed to cancel invoice: ${error instanceof Error ? error.message : 'Unknown error'}`);
+		}
+	};
+
+	const handleDownloadPdf = async (invoice: SponsorInvoice) => {
+		try {
+			await generateSponsorInvoicePDF(invoice, getGstEntity(gstSettings, invoice.gst?.entityId ?? gstSettings.clinicEntityId));
+		} catch (error) {
+			alert(`Failed to generate PDF: ${error instanceof Error ? error.message : 'Unknown error'}`);
+		}
+	};
+
+	const handleExportExcel = (invoice: SponsorInvoice) => {
+		const worksheet = XLSX.utils.aoa_to_sheet(getSponsorInvoiceRows(invoice));
+		const workbook = XLSX.utils.book_new();
+		XLSX.utils.book_append_sheet(workbook, worksheet, 'Invoice');
+		XLSX.writeFile(workbook, `Sponsor_Invoice_${invoice.invoiceNo.replace(/\//g, '-')}.xlsx`);
+	};
+
+	return (
+		<section className="rounded-2xl bg-white p-6 shadow-[0_20px_50px_rgba(30,58,138,0.15)] border border-blue-100">
+			<h3 className="text-lg font-semibold text-slate-900">Sponsor Invoices</h3>
+			<p className="text-sm text-slate-600">
+				Invoice DYES and other sponsoring organisations for the sessions they covered in a billing cycle.
+			</p>
+
+			{sponsoredPolicies.length === 0 ? (
+				<p className="mt-4 text-sm text-slate-500">
+					No billing policy is free within a yearly cap or billed to a sponsor, so there is nobody to invoice.
+				</p>
+			) : (
+				<div className="mt-4 flex flex-wrap items-end gap-3">
+					<label className="text-sm font-medium text-slate-700">
+						Organisation
+						<select
+							value={selectedPolicy?.key ?? ''}
+							onChange={event => {
+								setPolicyKey(event.target.value);
+								setPreviewLines(null);
+							}}
+							className="select-base mt-1 block w-56"
+						>
+							{sponsoredPolicies.map(policy => (
+								<option key={policy.key} value={policy.key}>
+									{getSponsorName(policy)}
+								</option>
+							))}
+						</select>
+					</label>
+					<label className="text-sm font-medium text-slate-700">
+						Billing cycle
+						<input
+							type="month"
+							value={cycleMonth}
+							onChange={event => {
+								setCycleMonth(event.target.value);
+								setPreviewLines(null);
+							}}
+							className="input-base mt-1 block w-44"
+						/>
+					</label>
+					<button type="button" onClick={handlePreview} className="btn-secondary" disabled={loadingPreview || !cycleMonth}>
+						<i className="fas fa-search mr-2" aria-hidden="true" />
+						{loadingPreview ? 'Loading...' : 'Find Sessions'}
+					</button>
+				</div>
+			)}
+
+			{previewLines && (
+				<div className="mt-4 rounded-xl border border-slate-200 p-4">
+					{previewLines.length === 0 ? (
+						<p className="text-sm text-slate-500">
+							No sessions waiting to be invoiced between {cycle.startDate} and {cycle.endDate}.
+						</p>
+					) : (
+						<>
+							<div className="max-h-72 overflow-y-auto">
+								<table className="min-w-full divide-y divide-slate-200 text-left text-sm text-slate-700">
+									<thead className="bg-slate-100 text-xs uppercase tracking-wide text-slate-500">
+										<tr>
+											<th className="px-3 py-2 font-semibold">Date</th>
+											<th className="px-3 py-2 font-semibold">Session #</th>
+											<th className="px-3 py-2 font-semibold">Patient</th>
+											<th className="px-3 py-2 font-semibold">Bill ID</th>
+											<th className="px-3 py-2 text-right font-semibold">Amount</th>
+										</tr>
+									</thead>
+									<tbody className="divide-y divide-slate-100">
+										{previewLines.map(line => (
+											<tr key={line.billingDocId}>
+												<td className="px-3 py-2">{line.date}</td>
+												<td className="px-3 py-2">{line.sessionNumber ?? '-'}</td>
+												<td className="px-3 py-2">
+													{line.patient} <span className="text-xs text-slate-400">{line.patientId}</span>
+												</td>
+												<td className="px-3 py-2">{line.billingId}</td>
+												<td className="px-3 py-2 text-right">{formatAmount(line.amount)}</td>
+											</tr>
+										))}
+									</tbody>
+								</table>
+							</div>
+							<div className="mt-3 flex items-center justify-between">
+								<p className="text-sm text-slate-700">
+									{previewLines.length} session(s), <span className="font-semibold">{formatAmount(previewTotal)}</span> before tax
+								</p>
+								<button type="button" onClick={handleCreate} className="btn-primary" disabled={creating}>
+									<i className="fas fa-file-invoice mr-2" aria-hidden="true" />
+									{creating ? 'Creating...' : 'Create Invoice'}
+								</button>
+							</div>
+						</>
+					)}
+				</div>
+			)}
+
+			<div className="mt-6 overflow-x-auto">
+				{invoices.length === 0 ? (
+					<p className="text-sm text-slate-500">No sponsor invoices yet.</p>
+				) : (
+					<table className="min-w-full divide-y divide-slate-200 text-left text-sm text-slate-700">
+						<thead className="bg-slate-100 text-xs uppercase tracking-wide text-slate-500">
+							<tr>
+								<th className="px-3 py-2 font-semibold">Invoice</th>
+								<th className="px-3 py-2 font-semibold">Organisation</th>
+								<th className="px-3 py-2 font-semibold">Period</th>
+								<th className="px-3 py-2 text-right font-semibold">Sessions</th>
+								<th className="px-3 py-2 text-right font-semibold">Total</th>
+								<th className="px-3 py-2 text-right font-semibold">Received</th>
+								<th className="px-3 py-2 font-semibold">Status</th>
+								<th className="px-3 py-2" />
+							</tr>
+						</thead>
+						<tbody className="divide-y divide-slate-100">
+							{invoices.map(invoice => (
+								<tr key={invoice.id} className="align-top">
+									<td className="px-3 py-2 font-medium text-slate-900">{invoice.invoiceNo}</td>
+									<td className="px-3 py-2">{invoice.organisation}</td>
+									<td className="px-3 py-2">
+										{invoice.periodStart} to {invoice.periodEnd}
+									</td>
+									<td className="px-3 py-2 text-right">{invoice.lines.length}</td>
+									<td className="px-3 py-2 text-right">{formatAmount(invoice.total)}</td>
+									<td className="px-3 py-2 text-right">{formatAmount(invoice.amountReceived)}</td>
+									<td className="px-3 py-2">
+										<span className={`rounded-full px-2 py-0.5 text-xs font-semibold ${STATUS_STYLES[invoice.status]}`}>
+											{invoice.status}
+										</span>
+										{invoice.cancelReason && <p className="mt-1 text-xs text-slate-500">{invoice.cancelReason}</p>}
+									</td>
+									<td className="px-3 py-2">
+										<div className="flex flex-wrap justify-end gap-2 text-sm font-medium">
+											<button type="button" onClick={() => handleDownloadPdf(invoice)} className="text-sky-600 hover:text-sky-700">
+												PDF
+											</button>
+											<button type="button" onClick={() => handleExportExcel(invoice)} className="text-emerald-600 hover:text-emerald-700">
+												Excel
+											</button>
+											{(invoice.status === 'Unpaid' || invoice.status === 'Partially Paid') && (
+												<button
+													type="button"
+													onClick={() =>
+														setPaymentDraft({
+															invoiceId: invoice.id,
+															amount: (invoice.total - invoice.amountReceived).toFixed(2),
+															receivedOn: new Date().toISOString().split('T')[0],
+															mode: 'Bank Transfer',
+															reference: '',
+														})
+													}
+													className="text-blue-600 hover:text-blue-700"
+												>
+													Record Payment
+												</button>
+											)}
+											{invoice.status === 'Unpaid' && (
+												<button type="button" onClick={() => handleCancel(invoice)} className="text-rose-600 hover:text-rose-700">
+													Cancel
+												</button>
+											)}
+										</div>
+									</td>
+								</tr>
+							))}
+						</tbody>
+					</table>
+				)}
+			</div>
+
+			{paymentDraft && (
+				<form onSubmit={handleRecordPayment} className="mt-4 flex flex-wrap items-end gap-3 rounded-xl border border-blue-100 bg-blue-50 p-4">
+					<p className="w-full text-sm font-semibold text-slate-800">
+						Payment against {invoices.find(invoice => invoice.id === paymentDraft.invoiceId)?.invoiceNo}
+					</p>
+					<label className="text-sm font-medium text-slate-700">
+						Amount (Rs.)
+						<input
+							type="number"
+							min={0}
+							step="0.01"
+							value={paymentDraft.amount}
+							onChange={event => setPaymentDraft({ ...paymentDraft, amount: event.target.value })}
+							className="input-base mt-1 block w-36"
+						/>
+					</label>
+					<label className="text-sm font-medium text-slate-700">
+						Received on
+						<input
+							type="date"
+							value={paymentDraft.receivedOn}
+							onChange={event => setPaymentDraft({ ...paymentDraft, receivedOn: event.target.value })}
+							className="input-base mt-1 block w-40"
+						/>
+					</label>
+					<label className="text-sm font-medium text-slate-700">
+						Mode
+						<select
+							value={paymentDraft.mode}
+							onChange={event => setPaymentDraft({ ...paymentDraft, mode: event.target.value as PaymentMode })}
+							className="select-base mt-1 block w-40"
+						>
+							{PAYMENT_MODES.map(mode => (
+								<option key={mode} value={mode}>
+									{mode}
+								</option>
+							))}
+						</select>
+					</label>
+					<label className="text-sm font-medium text-slate-700">
+						Reference / UTR
+						<input
+							type="text"
+							value={paymentDraft.reference}
+							onChange={event => setPaymentDraft({ ...paymentDraft, reference: event.target.value })}
+							className="input-base mt-1 block w-48"
+						/>
+					</label>
+					<div className="flex gap-2">
+						<button type="button" onClick={() => setPaymentDraft(null)} className="btn-secondary">
+							Close
+						</button>
+						<button type="submit" className="btn-primary" disabled={savingPayment}>
+							{savingPayment ? 'Saving...' : 'Record Payment'}
+						</button>
+					</div>
+				</form>
+			)}
+		</section>
+	);
+}
@@ -0,0 +1,216 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { collection, doc, onSnapshot, query, where } from 'firebase/firestore';
+
+import { useAuth } from '@/contexts/AuthContext';
+import { db } from '@/lib/firebase';
+import { PAYMENT_MODES, type PaymentMode } from '@/lib/billPayments';
+import {
+	WALLET_TRANSACTIONS_COLLECTION,
+	WALLETS_COLLECTION,
+	getWalletBalance,
+	parseWalletTransaction,
+	type WalletTransaction,
+} from '@/lib/wallet';
+import { debitWalletForBill, recordWalletDeposit } from '@/lib/walletClient';
+
+interface WalletDialogProps {
+	patientId: string;
+	patientName: string;
+	dueBillIds: string[]; // Bills already due that a new deposit should pay off, oldest first
+	onClose: () => void;
+}
+
+/**
+ * Take an advance deposit into a patient's wallet and show what has been deposited and debited so far
+ */
+export default function WalletDialog({ patientId, patientName, dueBillIds, onClose }: WalletDialogProps) {
+	const { user } = useAuth();
+	const [balance, setBalance] = useState(0);
+	const [transactions, setTransactions] = useState<WalletTransaction[]>([]);
+	const [amount, setAmount] = useState('');
+	const [mode, setMode] = useState<PaymentMode>('Cash');
+	const [reference, setReference] = useState('');
+	const [note, setNote] = useState('');
+	const [saving, setSaving] = useState(false);
+
+	useEffect(() => {
+		const unsubscribe = onSnapshot(
+			doc(db, WALLETS_COLLECTION, patientId),
+			snapshot => setBalance(getWalletBalance(snapshot.data())),
+			error => {
+				console.error('Failed to load wallet', error);
+				setBalance(0);
+			}
+		);
+		return () => unsubscribe();
+	}, [patientId]);
+
+	useEffect(() => {
+		const unsubscribe = onSnapshot(
+			query(collection(db, WALLET_TRANSACTIONS_COLLECTION), where('patientId', '==', patientId)),
+			snapshot => {
+				const entries = snapshot.docs.map(docSnap => parseWalletTransaction(docSnap.id, docSnap.data()));
+				setTransactions(entries.sort((a, b) => b.createdAt.localeCompare(a.createdAt)));
+			},
+			error => {
+				console.error('Failed to load wallet transactions', error);
+				setTransactions([]);
+			}
+		);
+		return () => unsubscribe();
+	}, [patientId]);
+
+	const handleDeposit = async (event: React.FormEvent) => {
+		event.preventDefault();
+		const value = Math.round((parseFloat(amount) || 0) * 100) / 100;
+		if (value <= 0) {
+			alert('Please enter the amount deposited.');
+			return;
+		}
+		if (mode !== 'Cash' && !reference.trim()) {
+			alert(`Please enter the ${mode === 'Cheque' ? 'cheque number' : 'UTR / transaction ID'} for this deposit.`);
+			return;
+		}
+
+		const actor = { createdBy: user?.uid, createdByName: user?.displayName || user?.email || null };
+		setSaving(true);
+		try {
+			await recordWalletDeposit({ patientId, patient: patientName, amount: value, mode, reference, note, ...actor });
+
+			let debited = 0;
+			for (const billingDocId of dueBillIds) {
+				try {
+					debited += await debitWalletForBill(billingDocId, actor);
+				} catch (debitError) {
+					console.error('Failed to settle bill from wallet', debitError);
+				}
+			}
+			alert(
+				debited > 0
+					? `Deposit recorded. Rs. ${debited.toFixed(2)} of it was used to settle outstanding charges.`
+					: 'Deposit recorded.'
+			);
+			onClose();
+		} catch (error) {
+			console.error('Failed to record deposit', error);
+			alert(`Failed to record deposit: ${error instanceof Error ? error.message : 'Unknown error'}`);
+		} finally {
+			setSaving(false);
+		}
+	};
+
+	return (
+		<div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/60 px-4 py-6">
+			<div className="w-full max-w-lg max-h-[90vh] overflow-y-auto rounded-2xl border border-slate-200 bg-white shadow-2xl">
+				<header className="flex items-center justify-between border-b border-slate-200 px-6 py-4">
+					<div>
+						<h2 className="text-lg font-semibold text-slate-900">Patient Wallet</h2>
+						<p className="text-xs text-slate-500">{patientName} ({patientId})</p>
+					</div>
+					<button
+						type="button"
+						onClick={onClose}
+						className="rounded-full p-2 text-slate-400 transition hover:bg-slate-100 hover:text-slate-600 focus-visible:outline-none"
+						aria-label="Close"
+						disabled={saving}
+					>
+						<i className="fas fa-times" aria-hidden="true" />
+					</button>
+				</header>
+
+				<div className="space-y-5 px-6 py-6">
+					<div className="rounded-lg border border-emerald-200 bg-emerald-50 p-3 text-sm text-emerald-800">
+						<p className="text-xs uppercase tracking-wide">Prepaid balance</p>
+						<p className="text-xl font-semibold">Rs. {balance.toFixed(2)}</p>
+					</div>
+
+					<form onSubmit={handleDeposit} className="space-y-3">
+						<h3 className="text-sm font-semibold text-slate-900">Add Deposit</h3>
+						<div className="grid grid-cols-2 gap-3">
+							<div>
+								<label className="block text-sm font-medium text-slate-700">Amount (Rs.)</label>
+								<input
+									type="number"
+									min="0.01"
+									step="0.01"
+									value={amount}
+									onChange={event => setAmount(event.target.value)}
+									className="input-base mt-2"
+									disabled={saving}
+								/>
+							</div>
+							<div>
+								<label className="block text-sm font-medium text-slate-700">Mode</label>
+								<select
+									value={mode}
+									onChange={event => setMode(event.target.value as PaymentMode)}
+									className="select-base mt-2"
+									disabled={saving}
+								>
+									{PAYMENT_MODES.map(option => (
+										<option key={option} value={option}>{option}</option>
+									))}
+								</select>
+							</div>
+						</div>
+						{mode !== 'Cash' && (
+							<input
+								type="text"
+								value={reference}
+								onChange={event => setReference(event.target.value)}
+								placeholder={mode === 'Cheque' ? 'Cheque number' : 'Txn ID / UTR Number'}
+								className="input-base"
+								disabled={saving}
+							/>
+						)}
+						<input
+							type="text"
+							value={note}
+							onChange={event => setNote(event.target.value)}
+							placeholder="Note (optional), e.g. Advance for 10-session package"
+							className="input-base"
+							disabled={saving}
+						/>
+						{dueBillIds.length > 0 && (
+							<p className="text-xs text-slate-500">
+								The deposit will first settle {dueBillIds.length} outstanding charge{dueBillIds.length === 1 ? '' : 's'}.
+							</p>
+						)}
+						<div className="flex justify-end">
+							<button type="submit" className="btn-primary" disabled={saving}>
+								{saving ? 'Saving...' : 'Record Deposit'}
+							</button>
+						</div>
+					</form>
+
+					{transactions.length > 0 && (
+						<div className="border-t border-slate-200 pt-4">
+							<h3 className="text-sm font-semibold text-slate-900">History</h3>
+							<ul className="mt-2 divide-y divide-slate-100 text-sm">
+								{transactions.map(entry => (
+									<li key={entry.id} className="py-2">
+										<div className="flex justify-between">
+											<span className="font-medium text-slate-800">
+												{entry.type === 'deposit' ? `Deposit${entry.mode ? ` (${entry.mode})` : ''}` : `Debit for ${entry.billingId || 'bill'}`}
+											</span>
+											<span className={`font-semibold ${entry.type === 'deposit' ? 'text-emerald-700' : 'text-slate-900'}`}>
+												{entry.type === 'deposit' ? '+' : '-'}Rs. {entry.amount.toFixed(2)}
+											</span>
+										</div>
+										<p className="text-xs text-slate-500">
+											{new Date(entry.createdAt).toLocaleDateString()} • Balance Rs. {entry.balanceAfter.toFixed(2)}
+											{entry.reference ? ` • Ref ${entry.reference}` : ''}
+											{entry.note ? ` • ${entry.note}` : ''}
+										</p>
+									</li>
+								))}
+							</ul>
+						</div>
+					)}
+				</div>
+			</div>
+		</div>
+	);
+}
@@ -11,12 +11,19 @@ import type { PatientRecord } from '@/lib/types';
 import { sendEmailNotification } from '@/lib/email';
 import { sendSMSNotification, isValidPhoneNumber } from '@/lib/sms';
 import { checkAppointmentConflict } from '@/lib/appointmentUtils';
+import { offerSlotsToWaitlist } from '@/lib/waitlistClient';
+import { applyNoShowStatusChange } from '@/lib/noShowClient';
 import { normalizeSessionAllowance } from '@/lib/sessionAllowance';
-import { recordSessionUsageForAppointment } from '@/lib/sessionAllowanceClient';
 import type { RecordSessionUsageResult } from '@/lib/sessionAllowanceClient';
 import EditReportModal from '@/components/clinical-team/EditReportModal';
+import PackagePlanFields from '@/components/billing/PackagePlanFields';
 import { createInitialSessionAllowance } from '@/lib/sessionAllowance';
-import { createDYESBilling } from '@/lib/dyesBilling';
+import { applySessionStatusChange } from '@/lib/sessionCompletionClient';
+import { usePackageCatalogue } from '@/hooks/usePackageCatalogue';
+import { getPatientPackageFields, parsePackageEnrolmentDraft, type PackageEnrolmentDraft } from '@/lib/packages';
+import { enrolPatientInPackage } from '@/lib/packagesClient';
+import { resolveAppointmentDuration } from '@/lib/serviceCatalog';
+import ServiceSelect from '@/components/appointments/ServiceSelect';
 
 interface FrontdeskAppointment {
 	id: string;
@@ -28,6 +35,7 @@ interface FrontdeskAppointment {
 	date: string;
 	time: string;
 	duration?: number;
+	serviceType?: string;
 	status: AdminAppointmentStatus;
 	createdAt: string;
 	notes?: string;
@@ -43,6 +51,7 @@ const STATUS_BADGES: Record<AdminAppointmentStatus, string> = {
 	ongoing: 'status-badge-ongoing',
 	completed: 'status-badge-completed',
 	cancelled: 'status-badge-cancelled',
+	'no-show': 'status-badge-no-show',
 };
 
 
@@ -77,6 +86,8 @@ type PatientRecordWithSessions = PatientRecord & {
 	concessionPercent?: number;
 	paymentType?: string;
 	packageDescription?: string;
+	activePackageId?: string;
+	packageExpiresOn?: string;
 	registeredBy?: string;
 	registeredByName?: string;
 	registeredByEmail?: string;
@@ -91,12 +102,10 @@ interface BookingForm {
 	selectedTimes: string[]; // Array of selected time slots for current date
 	selectedAppointments: Map<string, string[]>; // Map of date -> array of time slots (saved selections across multiple days)
 	notes?: string;
+	serviceType: string;
 	// Package fields
 	addPackage: boolean;
-	packageSessions: string;
-	packageAmount: string;
-	withConsultation: boolean;
-	consultationDiscount: string; // Percentage discount (5% to 50%)
+	packageDraft: PackageEnrolmentDraft; // Catalogue package to enrol the selected patients in
 }
 
 const SLOT_INTERVAL_MINUTES = 30;
@@ -198,11 +207,9 @@ export default function Appointments() {
 		selectedTimes: [],
 		selectedAppointments: new Map(),
 		notes: '',
+		serviceType: '',
 		addPackage: false,
-		packageSessions: '',
-		packageAmount: '',
-		withConsultation: false,
-		consultationDiscount: '0',
+		packageDraft: { planId: '', concessionPercent: '', startDate: '' },
 	});
 	const [bookingLoading, setBookingLoading] = useState(false);
 	const [conflictWarning, setConflictWarning] = useState<string | null>(null);
@@ -215,14 +222,10 @@ export default function Appointments() {
 	const [showPatientAppointmentsModal, setShowPatientAppointmentsModal] = useState(false);
 	const [showPackageModal, setShowPackageModal] = useState(false);
 	const [packagePatientId, setPackagePatientId] = useState<string | null>(null);
-	const [packageForm, setPackageForm] = useState({
-		packageName: '',
-		totalSessions: '',
-		amount: '',
-		consultationType: 'without' as 'with' | 'without',
-		discount: '0',
-		description: '',
-	});
+	const [packageDraft, setPackageDraft] = useState<PackageEnrolmentDraft>({ planId: '', concessionPercent: '', startDate: '' });
+	const [packageNotes, setPackageNotes] = useState('');
+	const [packageServiceType, setPackageServiceType] = useState('');
+	const { plans: packagePlans } = usePackageCatalogue();
 	const [packageSubmitting, setPackageSubmitting] = useState(false);
 	const [showReportModal, setShowReportModal] = useState(false);
 	const [reportModalPatientId, setReportModalPatientId] = useState<string | null>(null);
@@ -286,6 +289,7 @@ export default function Appointments() {
 						date: data.date ? String(data.date) : '',
 						time: data.time ? String(data.time) : '',
 						duration: typeof data.duration === 'number' ? data.duration : undefined,
+						serviceType: data.serviceType ? String(data.serviceType) : undefined,
 						status: (data.status as AdminAppointmentStatus) ?? 'pending',
 						notes: data.notes ? String(data.notes) : undefined,
 						createdAt: created ? created.toISOString() : (data.createdAt as string | undefined) || new Date().toISOString(),
@@ -370,6 +374,8 @@ export default function Appointments() {
 						paymentType: data.paymentType ? String(data.paymentType) : undefined,
 						packageName: data.packageName ? String(data.packageName) : undefined,
 						packageDescription: data.packageDescription ? String(data.packageDescription) : undefined,
+						activePackageId: data.activePackageId ? String(data.activePackageId) : undefined,
+						packageExpiresOn: data.packageExpiresOn ? String(data.packageExpiresOn) : undefined,
 						registeredBy: data.registeredBy ? String(data.registeredBy) : undefined,
 						registeredByName: data.registeredByName ? String(data.registeredByName) : undefined,
 						registeredByEmail: data.registeredByEmail ? String(data.registeredByEmail) : undefined,
@@ -448,11 +454,9 @@ export default function Appointments() {
 				selectedTimes: [],
 				selectedAppointments: new Map(),
 				notes: '',
+				serviceType: '',
 				addPackage: false,
-				packageSessions: '',
-				packageAmount: '',
-				withConsultation: false,
-				consultationDiscount: '0',
+				packageDraft: { planId: '', concessionPercent: '', startDate: '' },
 			});
 			setShowBookingModal(true);
 			setNewlyRegisteredPatientId(null); // Reset after opening modal
@@ -888,95 +892,60 @@ export default function Appointments() {
 			// Small delay to ensure the database update is committed
 			await new Promise(resolve => setTimeout(resolve, 500));
 
-			if (status === 'completed' && oldStatus !== 'completed' && patientDetails?.id) {
+			if (status === 'cancelled' && oldStatus !== 'cancelled') {
+				void offerSlotsToWaitlist([appointment]);
+			}
+
+			if (status === 'no-show' || oldStatus === 'no-show') {
 				try {
-					sessionUsageResult = await recordSessionUsageForAppointment({
-						patientDocId: patientDetails.id,
-						patientType: patientDetails.patientType,
-						appointmentId: appointment.id,
+					const noShowResult = await applyNoShowStatusChange({
+						appointmentDocId: appointment.id,
+						appointmentId: appointment.appointmentId,
+						patientDocId: patientDetails?.id,
+						patientId: appointment.patientId,
+						patientName: appointment.patient || patientDetails?.name || '',
+						doctor: appointment.doctor,
+						date: appointment.date,
+						previousStatus: oldStatus,
+						nextStatus: status,
+						recordedBy: user?.displayName || user?.email || null,
 					});
-				} catch (sessionError) {
-					console.error('Failed to record DYES session usage:', sessionError);
-				}
-
-				// Automatically create billing for DYES patients
-				const patientType = (patientDetails.patientType || '').toUpperCase();
-				if (patientType === 'DYES' || patientType === 'DYES') {
-					try {
-						await createDYESBilling({
-							appointmentId: appointment.appointmentId,
-							appointmentDocId: appointment.id,
-							patientId: appointment.patientId,
-							patientName: appointment.patient || '',
-							doctorName: appointment.doctor || '',
-							appointmentDate: appointment.date || '',
-							createdByUserId: user?.uid || null,
-							createdByUserName: user?.displayName || user?.email || null,
-							isExtraTreatment: isExtraTreatment,
-						});
-					} catch (billingError) {
-						console.error('Failed to create automatic DYES billing:', billingError);
-					}
-				}
-
-				// Automatically mark payments as completed for VIP patients and set amount to 0
-				if (patientType === 'VIP') {
-					try {
-						// Find billing records for this appointment
-						const billingQuery = query(
-							collection(db, 'billing'),
-							where('appointmentId', '==', appointment.appointmentId)
-						);
-						const billingSnapshot = await getDocs(billingQuery);
-						
-						if (!billingSnapshot.empty) {
-							// Update all billing records for this appointment to Completed with amount 0
-							const updatePromises = billingSnapshot.docs.map(billingDoc => {
-								const billingData = billingDoc.data();
-								// Update if status is Pending or amount is not 0
-								if (billingData.status === 'Pending' || billingData.amount !== 0) {
-									return updateDoc(doc(db, 'billing', billingDoc.id), {
-										amount: 0,
-										status: 'Completed',
-										paymentMode: 'Auto-Paid',
-										updatedAt: serverTimestamp(),
-									});
-								}
-								return Promise.resolve();
-							});
-							
-							await Promise.all(updatePromises);
-						}
-					} catch (vipBillingError) {
-						console.error('Failed to auto-complete VIP payment:', vipBillingError);
+					if (noShowResult.feeBilled) {
+						alert('No-show recorded. A no-show fee has been added to billing.');
 					}
+				} catch (noShowError) {
+					console.error('Failed to record no-show:', noShowError);
 				}
 			}
 
-			// Recalculate and update remaining sessions when status changes, if totalSessionsRequired is set
-			if (patientDetails && typeof patientDetails.totalSessionsRequired === 'number') {
-				const patientId = appointment.patientId;
-				const completedAfter = appointments
-					.map(a =>
-						a.appointmentId === appointmentId
-							? { ...a, status }
-							: a
-					)
-					.filter(a => a.patientId === patientId && a.status === 'completed').length;
-
-				// remainingSessions starts at totalSessionsRequired - 1 and decreases with each completed appointment
-				const newRemaining = Math.max(0, patientDetails.totalSessionsRequired - 1 - completedAfter);
-				const patientRef = doc(db, 'patients', patientDetails.id);
-				await updateDoc(patientRef, {
-					remainingSessions: newRemaining,
-					updatedAt: serverTimestamp(),
+			if (patientDetails?.id) {
+				const sessionChange = await applySessionStatusChange({
+					patientDocId: patientDetails.id,
+					appointmentDocId: appointment.id,
+					appointmentId: appointment.appointmentId,
+					patientId: appointment.patientId,
+					patientName: appointment.patient || '',
+					doctor: appointment.doctor || '',
+					date: appointment.date || '',
+					serviceType: appointment.serviceType,
+					previousStatus: oldStatus,
+					nextStatus: status,
+					isExtraTreatment,
+					recordedByUserId: user?.uid || null,
+					recordedBy: user?.displayName || user?.email || null,
 				});
-
-				setPatients(prev =>
-					prev.map(p =>
-						p.id === patientDetails.id ? { ...p, remainingSessions: newRemaining } : p
-					)
-				);
+				sessionUsageResult = sessionChange.sessionUsage;
+				if (sessionChange.remainingSessions !== null) {
+					const newRemaining = sessionChange.remainingSessions;
+					setPatients(prev =>
+						prev.map(p =>
+							p.id === patientDetails.id ? { ...p, remainingSessions: newRemaining } : p
+						)
+					);
+				}
+				if (sessionChange.packageNotCovered) {
+					alert('This appointment was not counted against the patient\'s package: it has expired, is used up or does not cover this service.');
+				}
 			}
 
 			// Update patient status to 'completed' if all appointments are completed
@@ -1005,7 +974,7 @@ export default function Appointments() {
 						// Check if all appointments are completed or cancelled
 						const allCompleted = allPatientAppointments.length > 0 && 
 							allPatientAppointments.every((apt: any) => 
-								apt.status === 'completed' || apt.status === 'cancelled'
+								apt.status === 'completed' || apt.status === 'cancelled' || apt.status === 'no-show'
 							);
 						
 						console.log(`✅ All appointments completed? ${allCompleted}`);
@@ -1051,7 +1020,7 @@ export default function Appointments() {
 							}
 						} else if (!allCompleted) {
 							const incompleteCount = allPatientAppointments.filter((apt: any) => 
-								apt.status !== 'completed' && apt.status !== 'cancelled'
+								apt.status !== 'completed' && apt.status !== 'cancelled' && apt.status !== 'no-show'
 							).length;
 							console.log(`⚠️ Not all appointments are completed. ${incompleteCount} appointment(s) still pending/ongoing.`);
 						} else if (patientDetails.status === 'completed') {
@@ -1332,11 +1301,9 @@ export default function Appointments() {
 			selectedTimes: [],
 			selectedAppointments: new Map(),
 			notes: '',
+			serviceType: '',
 			addPackage: false,
-			packageSessions: '',
-			packageAmount: '',
-			withConsultation: false,
-			consultationDiscount: '0',
+			packageDraft: { planId: '', concessionPercent: '', startDate: '' },
 		});
 	};
 
@@ -1352,11 +1319,9 @@ export default function Appointments() {
 			selectedTimes: [],
 			selectedAppointments: new Map(),
 			notes: '',
+			serviceType: '',
 			addPackage: false,
-			packageSessions: '',
-			packageAmount: '',
-			withConsultation: false,
-			consultationDiscount: '0',
+			packageDraft: { planId: '', concessionPercent: '', startDate: '' },
 		});
 		setEditingSlotTime(null);
 		setEditedSlotTime('');
@@ -1395,15 +1360,15 @@ export default function Appointments() {
 		}
 
 		// Validate package fields if package is enabled
-		if (bookingForm.addPackage) {
-			if (!bookingForm.packageSessions || Number(bookingForm.packageSessions) <= 0) {
-				alert('Please enter a valid number of sessions for the package.');
-				return;
-			}
-			if (!bookingForm.packageAmount || Number(bookingForm.packageAmount) <= 0) {
-				alert('Please enter a valid package amount.');
-				return;
-			}
+		const packageEnrolment = bookingForm.addPackage
+			? parsePackageEnrolmentDraft(packagePlans, {
+					...bookingForm.packageDraft,
+					startDate: bookingForm.packageDraft.startDate || new Date().toISOString().split('T')[0],
+			  })
+			: null;
+		if (packageEnrolment && 'error' in packageEnrolment) {
+			alert(packageEnrolment.error);
+			return;
 		}
 
 		const selectedPatients = bookingForm.patientIds
@@ -1434,6 +1399,8 @@ export default function Appointments() {
 			return;
 		}
 
+		const bookingDuration = resolveAppointmentDuration({ serviceType: bookingForm.serviceType });
+
 		// Check for conflicts for all appointments across all days
 		const allConflicts: Array<{ date: string; time: string; conflict: ReturnType<typeof checkAppointmentConflict> }> = [];
 		for (const apt of allAppointments) {
@@ -1447,13 +1414,15 @@ export default function Appointments() {
 						date: a.date,
 						time: a.time,
 						status: a.status,
+						duration: a.duration,
+						serviceType: a.serviceType,
 					})),
 					{
 						doctor: selectedStaff.userName,
 						date: apt.date,
 						time: time,
-					},
-					30
+						duration: bookingDuration,
+					}
 				);
 				if (conflict.hasConflict) {
 					allConflicts.push({ date: apt.date, time, conflict });
@@ -1502,6 +1471,8 @@ export default function Appointments() {
 							staffId: selectedStaff.id,
 							date: apt.date,
 							time: finalTime,
+							duration: bookingDuration,
+							serviceType: bookingForm.serviceType || null,
 							status: 'pending' as AdminAppointmentStatus,
 							notes: bookingForm.notes?.trim() || null,
 							isConsultation: isFirstAppointment, // Mark as consultation if it's the patient's first appointment
@@ -1514,8 +1485,8 @@ export default function Appointments() {
 					}
 				}
 
-				// Update remaining sessions for each patient, if totalSessionsRequired is set
-				if (typeof selectedPatient.totalSessionsRequired === 'number') {
+				// Update remaining sessions for each patient, if totalSessionsRequired is set; a package keeps its own count
+				if (!selectedPatient.activePackageId && typeof selectedPatient.totalSessionsRequired === 'number') {
 					const completedCount = appointments.filter(
 						a => a.patientId === selectedPatient.patientId && a.status === 'completed'
 					).length;
@@ -1579,64 +1550,23 @@ export default function Appointments() {
 				}
 			}
 
-			// Handle package creation if enabled
-			if (bookingForm.addPackage && bookingForm.packageSessions && bookingForm.packageAmount) {
-				const packageSessionsValue = Number(bookingForm.packageSessions);
-				const packageAmountValue = Number(bookingForm.packageAmount);
-				const consultationDiscountValue = bookingForm.withConsultation && bookingForm.consultationDiscount
-					? Number(bookingForm.consultationDiscount)
-					: null;
-
-				// Calculate total amount with discount
-				const totalAmount = consultationDiscountValue && consultationDiscountValue > 0
-					? Number((packageAmountValue * (1 - consultationDiscountValue / 100)).toFixed(2))
-					: packageAmountValue;
-
-				// Create package billing for each selected patient
+			// Enrol each selected patient in the chosen package, which also creates its bill
+			if (packageEnrolment) {
 				for (const selectedPatient of selectedPatients) {
 					try {
-						const billingId = `PKG-${selectedPatient.patientId}-${Date.now()}`;
-						
-						// Create billing entry
-						await addDoc(collection(db, 'billing'), {
-							billingId,
-							patient: selectedPatient.name,
+						const { patientPackage } = await enrolPatientInPackage({
+							patientDocId: selectedPatient.id,
 							patientId: selectedPatient.patientId,
+							patient: selectedPatient.name,
+							plan: packageEnrolment.plan,
+							concessionPercent: packageEnrolment.concessionPercent,
+							startDate: packageEnrolment.startDate,
 							doctor: selectedStaff.userName,
-							amount: totalAmount,
-							packageAmount: packageAmountValue,
-							concessionPercent: consultationDiscountValue,
-							amountPaid: 0,
-							date: new Date().toISOString().split('T')[0],
-							status: 'Pending',
-							paymentMode: null,
-							utr: null,
-							packageSessions: packageSessionsValue,
-							createdAt: serverTimestamp(),
-							updatedAt: serverTimestamp(),
-						});
-
-						// Update patient's totalSessionsRequired and remainingSessions
-						const patientRef = doc(db, 'patients', selectedPatient.id);
-						const currentTotalSessions = typeof selectedPatient.totalSessionsRequired === 'number'
-							? selectedPatient.totalSessionsRequired
-							: 0;
-						const newTotalSessions = currentTotalSessions + packageSessionsValue;
-						
-						// Calculate remaining sessions (starts at total - 1)
-						const completedCount = appointments.filter(
-							a => a.patientId === selectedPatient.patientId && a.status === 'completed'
-						).length;
-						const newRemainingSessions = Math.max(0, newTotalSessions - 1 - completedCount);
-
-						await updateDoc(patientRef, {
-							totalSessionsRequired: newTotalSessions,
-							remainingSessions: newRemainingSessions,
-							packageAmount: packageAmountValue,
-							concessionPercent: consultationDiscountValue,
-							paymentType: bookingForm.withConsultation ? 'with' : 'without',
-							updatedAt: serverTimestamp(),
+							renewFromId: selectedPatient.activePackageId,
+							createdBy: user?.uid,
+							createdByName: user?.displayName || user?.email || null,
 						});
+						const packageFields = getPatientPackageFields(patientPackage);
 
 						// Update local state
 						setPatients(prev =>
@@ -1644,10 +1574,8 @@ export default function Appointments() {
 								p.id === selectedPatient.id
 									? {
 											...p,
-											totalSessionsRequired: newTotalSessions,
-											remainingSessions: newRemainingSessions,
-											packageAmount: packageAmountValue,
-											concessionPercent: consultationDiscountValue ?? undefined,
+											...packageFields,
+											concessionPercent: packageFields.concessionPercent ?? undefined,
 										}
 									: p
 							)
@@ -1660,7 +1588,7 @@ export default function Appointments() {
 			}
 
 			const totalCreated = createdAppointments.length;
-			const packageMessage = bookingForm.addPackage && bookingForm.packageSessions && bookingForm.packageAmount
+			const packageMessage = packageEnrolment
 				? ` Package(s) added and billing created.`
 				: '';
 			handleCloseBookingModal();
@@ -1831,27 +1759,12 @@ export default function Appointments() {
 			return;
 		}
 
-		// Validate form
-		if (!packageForm.packageName.trim() || !packageForm.totalSessions || !packageForm.amount) {
-			alert('Please fill in all required fields: Package Name, Total Sessions, and Amount.');
+		const enrolment = parsePackageEnrolmentDraft(packagePlans, packageDraft);
+		if ('error' in enrolment) {
+			alert(enrolment.error);
 			return;
 		}
-
-		const totalSessionsValue = Number(packageForm.totalSessions);
-		const packageAmountValue = Number(packageForm.amount);
-		const consultationDiscountValue = packageForm.consultationType === 'with' && packageForm.discount
-			? Number(packageForm.discount)
-			: null;
-
-		if (totalSessionsValue <= 0 || packageAmountValue <= 0) {
-			alert('Total Sessions and Amount must be greater than 0.');
-			return;
-		}
-
-		// Calculate total amount with discount
-		const totalAmount = consultationDiscountValue && consultationDiscountValue > 0
-			? Number((packageAmountValue * (1 - consultationDiscountValue / 100)).toFixed(2))
-			: packageAmountValue;
+		const totalSessionsValue = enrolment.plan.sessions;
 
 		setPackageSubmitting(true);
 		try {
@@ -1871,26 +1784,19 @@ export default function Appointments() {
 				|| 'Clinical Team';
 			const staffIdForAppointments = assignedStaff?.id || '';
 
-			// Create billing entry
-			const billingId = `PKG-${selectedPatient.patientId}-${Date.now()}`;
-			await addDoc(collection(db, 'billing'), {
-				billingId,
-				patient: selectedPatient.name,
+			// Enrol the patient in the package, which creates its bill and sets their session count
+			const { patientPackage, billingId } = await enrolPatientInPackage({
+				patientDocId: selectedPatient.id,
 				patientId: selectedPatient.patientId,
+				patient: selectedPatient.name,
+				plan: enrolment.plan,
+				concessionPercent: enrolment.concessionPercent,
+				startDate: enrolment.startDate,
 				doctor: doctorName,
-				amount: totalAmount,
-				packageAmount: packageAmountValue,
-				concessionPercent: consultationDiscountValue,
-				amountPaid: 0,
-				date: new Date().toISOString().split('T')[0],
-				status: 'Pending',
-				paymentMode: null,
-				utr: null,
-				packageSessions: totalSessionsValue,
-				packageName: packageForm.packageName.trim(),
-				packageDescription: packageForm.description.trim() || null,
-				createdAt: serverTimestamp(),
-				updatedAt: serverTimestamp(),
+				paymentDescription: packageNotes,
+				renewFromId: selectedPatient.activePackageId,
+				createdBy: user?.uid,
+				createdByName: user?.displayName || user?.email || null,
 			});
 
 			// Create appointments equal to the number of sessions in the package
@@ -1905,52 +1811,29 @@ export default function Appointments() {
 					staffId: staffIdForAppointments, // Auto-assign staffId if found
 					date: '', // Will be scheduled later via editable fields
 					time: '', // Will be scheduled later via editable fields
+					duration: resolveAppointmentDuration({ serviceType: packageServiceType }),
+					serviceType: packageServiceType || null,
 					status: 'pending' as AdminAppointmentStatus,
 					notes: null,
 					isConsultation: false,
 					sessionNumber: i,
 					totalSessions: totalSessionsValue,
 					packageBillingId: billingId,
-					packageName: packageForm.packageName.trim(),
+					packageName: enrolment.plan.name,
 					createdAt: serverTimestamp(),
 				});
 				createdAppointmentIds.push(appointmentId);
 			}
 
-			// Update patient's totalSessionsRequired and remainingSessions
-			const patientRef = doc(db, 'patients', selectedPatient.id);
-			const currentTotalSessions = typeof selectedPatient.totalSessionsRequired === 'number'
-				? selectedPatient.totalSessionsRequired
-				: 0;
-			const newTotalSessions = currentTotalSessions + totalSessionsValue;
-			
-			// Calculate remaining sessions (starts at total - 1)
-			const completedCount = appointments.filter(
-				a => a.patientId === selectedPatient.patientId && a.status === 'completed'
-			).length;
-			const newRemainingSessions = Math.max(0, newTotalSessions - 1 - completedCount);
-
-			await updateDoc(patientRef, {
-				totalSessionsRequired: newTotalSessions,
-				remainingSessions: newRemainingSessions,
-				packageAmount: packageAmountValue,
-				concessionPercent: consultationDiscountValue,
-				paymentType: packageForm.consultationType === 'with' ? 'with' : 'without',
-				packageName: packageForm.packageName.trim(),
-				packageDescription: packageForm.description.trim() || null,
-				updatedAt: serverTimestamp(),
-			});
-
 			// Update local state
+			const packageFields = getPatientPackageFields(patientPackage);
 			setPatients(prev =>
 				prev.map(p =>
 					p.id === selectedPatient.id
 						? {
 								...p,
-								totalSessionsRequired: newTotalSessions,
-								remainingSessions: newRemainingSessions,
-								packageAmount: packageAmountValue,
-								concessionPercent: consultationDiscountValue ?? undefined,
+								...packageFields,
+								concessionPercent: packageFields.concessionPercent ?? undefined,
 							}
 						: p
 				)
@@ -1959,16 +1842,10 @@ export default function Appointments() {
 			// Close modal and reset form
 			setShowPackageModal(false);
 			setPackagePatientId(null);
-			setPackageForm({
-				packageName: '',
-				totalSessions: '',
-				amount: '',
-				consultationType: 'without',
-				discount: '0',
-				description: '',
-			});
+			setPackageNotes('');
+			setPackageServiceType('');
 
-			alert(`Package "${packageForm.packageName}" added successfully! Billing entry created with status Pending. ${totalSessionsValue} appointment${totalSessionsValue > 1 ? 's' : ''} created. You can schedule them and add reports for each appointment.`);
+			alert(`Package "${patientPackage.planName}" added successfully, valid until ${patientPackage.expiresOn}! Billing entry created with status Pending. ${totalSessionsValue} appointment${totalSessionsValue > 1 ? 's' : ''} created. You can schedule them and add reports for each appointment.`);
 		} catch (error) {
 			console.error('Failed to add package', error);
 			alert(`Failed to add package: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -2022,6 +1899,8 @@ export default function Appointments() {
 			const billingSnapshot = await getDocs(billingQuery);
 
 			billingSnapshot.forEach(docSnap => {
+				// Bills in closed billing cycles stay on record
+				if (docSnap.data().lockedCycleId) return;
 				deletePromises.push(deleteDoc(doc(db, 'billing', docSnap.id)));
 			});
 
@@ -2036,6 +1915,8 @@ export default function Appointments() {
 					paymentType: deleteField(),
 					packageName: deleteField(),
 					packageDescription: deleteField(),
+					activePackageId: deleteField(),
+					packageExpiresOn: deleteField(),
 					updatedAt: serverTimestamp(),
 				}) as Promise<void>
 			);
@@ -2215,14 +2096,9 @@ export default function Appointments() {
 																onClick={() => {
 																	setPackagePatientId(group.patientId);
 																	setShowPackageModal(true);
-																	setPackageForm({
-																		packageName: '',
-																		totalSessions: '',
-																		amount: '',
-																		consultationType: 'without',
-																		discount: '0',
-																		description: '',
-																	});
+																	setPackageDraft({ planId: '', concessionPercent: '', startDate: new Date().toISOString().split('T')[0] });
+																	setPackageNotes('');
+																	setPackageServiceType('');
 																}}
 																className="inline-flex items-center gap-1 rounded-lg bg-gradient-to-r from-purple-500 via-purple-600 to-indigo-600 px-3 py-1.5 text-xs font-semibold text-white shadow-md hover:from-purple-600 hover:via-purple-700 hover:to-indigo-700 transition-all duration-200 hover:scale-105"
 															>
@@ -2294,6 +2170,8 @@ export default function Appointments() {
 																							staffId: firstApt.staffId,
 																							date: '',
 																							time: '',
+																							duration: resolveAppointmentDuration(firstApt),
+																							serviceType: firstApt.serviceType || null,
 																							status: 'pending' as AdminAppointmentStatus,
 																							notes: null,
 																							isConsultation: false,
@@ -2315,6 +2193,8 @@ export default function Appointments() {
 																						staffId: existingPackageApt.staffId,
 																						date: '',
 																						time: '',
+																						duration: resolveAppointmentDuration(existingPackageApt),
+																						serviceType: existingPackageApt.serviceType || null,
 																						status: 'pending' as AdminAppointmentStatus,
 																						notes: null,
 																						isConsultation: false,
@@ -2876,8 +2756,11 @@ export default function Appointments() {
 														setBookingForm(prev => ({
 															...prev,
 															addPackage: e.target.checked,
-															withConsultation: e.target.checked ? prev.withConsultation : false,
-															consultationDiscount: e.target.checked ? prev.consultationDiscount : '0',
+															packageDraft: {
+																planId: '',
+																concessionPercent: '',
+																startDate: prev.packageDraft.startDate || new Date().toISOString().split('T')[0],
+															},
 														}));
 													}}
 													className="h-4 w-4 rounded border-slate-300 text-purple-600 focus:ring-2 focus:ring-purple-500"
@@ -2887,114 +2770,23 @@ export default function Appointments() {
 										</div>
 
 										{bookingForm.addPackage && (
-											<div className="space-y-3 mt-3">
-												{/* Number of Sessions */}
-												<div>
-													<label className="block text-xs font-medium text-slate-700 mb-1">
-														Number of Sessions <span className="text-rose-500">*</span>
-													</label>
-													<input
-														type="number"
-														min="1"
-														value={bookingForm.packageSessions}
-														onChange={e => setBookingForm(prev => ({ ...prev, packageSessions: e.target.value }))}
-														className="input-base"
-														placeholder="Enter number of sessions"
-														required
-													/>
-												</div>
-
-												{/* Package Amount */}
-												<div>
-													<label className="block text-xs font-medium text-slate-700 mb-1">
-														Package Amount (₹) <span className="text-rose-500">*</span>
-													</label>
-													<input
-														type="number"
-														min="0"
-														step="0.01"
-														value={bookingForm.packageAmount}
-														onChange={e => setBookingForm(prev => ({ ...prev, packageAmount: e.target.value }))}
-														className="input-base"
-														placeholder="Enter package amount"
-														required
-													/>
-												</div>
-
-												{/* With/Without Consultation */}
-												<div>
-													<label className="flex items-center gap-2 text-xs font-medium text-slate-700 mb-2">
-														<input
-															type="checkbox"
-															checked={bookingForm.withConsultation}
-															onChange={e => {
-																setBookingForm(prev => ({
-																	...prev,
-																	withConsultation: e.target.checked,
-																	consultationDiscount: e.target.checked ? prev.consultationDiscount : '0',
-																}));
-															}}
-															className="h-4 w-4 rounded border-slate-300 text-purple-600 focus:ring-2 focus:ring-purple-500"
-														/>
-														<span>With Consultation</span>
-													</label>
-
-													{bookingForm.withConsultation && (
-														<div className="mt-2">
-															<label className="block text-xs font-medium text-slate-700 mb-1">
-																Consultation Discount (%)
-															</label>
-															<select
-																value={bookingForm.consultationDiscount}
-																onChange={e => setBookingForm(prev => ({ ...prev, consultationDiscount: e.target.value }))}
-																className="select-base"
-															>
-																{[5, 10, 15, 20, 25, 30, 35, 40, 45, 50].map(percent => (
-																	<option key={percent} value={percent}>
-																		{percent}%
-																	</option>
-																))}
-															</select>
-														</div>
-													)}
-												</div>
-
-												{/* Total Amount Display */}
-												{bookingForm.packageAmount && (
-													<div className="rounded-lg border border-purple-300 bg-white p-3">
-														<div className="flex items-center justify-between text-sm">
-															<span className="font-medium text-slate-700">Package Amount:</span>
-															<span className="font-semibold text-slate-900">₹{Number(bookingForm.packageAmount).toFixed(2)}</span>
-														</div>
-														{bookingForm.withConsultation && Number(bookingForm.consultationDiscount) > 0 && (
-															<>
-																<div className="flex items-center justify-between text-xs mt-1 text-slate-600">
-																	<span>Discount ({bookingForm.consultationDiscount}%):</span>
-																	<span className="text-red-600">
-																		-₹{((Number(bookingForm.packageAmount) * Number(bookingForm.consultationDiscount)) / 100).toFixed(2)}
-																	</span>
-																</div>
-																<div className="flex items-center justify-between text-sm mt-2 pt-2 border-t border-slate-200">
-																	<span className="font-bold text-slate-900">Total Amount:</span>
-																	<span className="font-bold text-purple-600">
-																		₹{(Number(bookingForm.packageAmount) * (1 - Number(bookingForm.consultationDiscount) / 100)).toFixed(2)}
-																	</span>
-																</div>
-															</>
-														)}
-														{!bookingForm.withConsultation && (
-															<div className="flex items-center justify-between text-sm mt-2 pt-2 border-t border-slate-200">
-																<span className="font-bold text-slate-900">Total Amount:</span>
-																<span className="font-bold text-purple-600">₹{Number(bookingForm.packageAmount).toFixed(2)}</span>
-															</div>
-														)}
-													</div>
-												)}
+											<div className="mt-3">
+												<PackagePlanFields
+													plans={packagePlans}
+													draft={bookingForm.packageDraft}
+													onChange={packageDraft => setBookingForm(prev => ({ ...prev, packageDraft }))}
+												/>
 											</div>
 										)}
 									</div>
 								)}
 
+								<ServiceSelect
+									value={bookingForm.serviceType}
+									onChange={serviceType => setBookingForm(prev => ({ ...prev, serviceType }))}
+									disabled={bookingLoading}
+								/>
+
 								{/* Notes */}
 								<div>
 									<label className="block text-sm font-medium text-slate-700">Notes (Optional)</label>
@@ -3220,6 +3012,7 @@ export default function Appointments() {
 																	<option value="ongoing">Ongoing</option>
 																	<option value="completed">Completed</option>
 																	<option value="cancelled">Cancelled</option>
+																	<option value="no-show">No-show</option>
 																</select>
 																{patientDetails?.patientType?.toUpperCase() === 'DYES' && appointment.status !== 'completed' && (
 																	<label className="flex items-center gap-2 cursor-pointer" title="Mark as extra treatment before completing appointment">
@@ -3368,14 +3161,6 @@ export default function Appointments() {
 								onClick={() => {
 									setShowPackageModal(false);
 									setPackagePatientId(null);
-									setPackageForm({
-										packageName: '',
-										totalSessions: '',
-										amount: '',
-										consultationType: 'without',
-										discount: '0',
-										description: '',
-									});
 								}}
 								className="rounded-full p-2 text-slate-400 transition hover:bg-slate-100 hover:text-slate-600 focus-visible:bg-slate-100 focus-visible:text-slate-600 focus-visible:outline-none"
 								aria-label="Close dialog"
@@ -3385,134 +3170,29 @@ export default function Appointments() {
 						</header>
 						<div className="max-h-[600px] overflow-y-auto px-6 py-4">
 							<div className="space-y-4">
-								{/* Package Name */}
-								<div>
-									<label className="block text-sm font-medium text-slate-700">
-										Package Name <span className="text-rose-500">*</span>
-									</label>
-									<input
-										type="text"
-										value={packageForm.packageName}
-										onChange={e => setPackageForm(prev => ({ ...prev, packageName: e.target.value }))}
-										className="input-base mt-2"
-										placeholder="Enter package name"
-										required
-									/>
-								</div>
-
-								{/* Total Sessions */}
-								<div>
-									<label className="block text-sm font-medium text-slate-700">
-										Total Sessions <span className="text-rose-500">*</span>
-									</label>
-									<input
-										type="number"
-										min="1"
-										value={packageForm.totalSessions}
-										onChange={e => setPackageForm(prev => ({ ...prev, totalSessions: e.target.value }))}
-										className="input-base mt-2"
-										placeholder="Enter number of sessions"
-										required
-									/>
-								</div>
-
-								{/* Amount */}
-								<div>
-									<label className="block text-sm font-medium text-slate-700">
-										Amount (₹) <span className="text-rose-500">*</span>
-									</label>
-									<input
-										type="number"
-										min="0"
-										step="0.01"
-										value={packageForm.amount}
-										onChange={e => setPackageForm(prev => ({ ...prev, amount: e.target.value }))}
-										className="input-base mt-2"
-										placeholder="Enter package amount"
-										required
-									/>
-								</div>
-
-								{/* Consultation Type */}
-								<div>
-									<label className="block text-sm font-medium text-slate-700 mb-2">
-										Consultation Type <span className="text-rose-500">*</span>
-									</label>
-									<select
-										value={packageForm.consultationType}
-										onChange={e => setPackageForm(prev => ({
-											...prev,
-											consultationType: e.target.value as 'with' | 'without',
-											discount: e.target.value === 'without' ? '0' : prev.discount,
-										}))}
-										className="select-base"
-									>
-										<option value="without">Without Consultation</option>
-										<option value="with">With Consultation</option>
-									</select>
-								</div>
-
-								{/* Discount (if With Consultation) */}
-								{packageForm.consultationType === 'with' && (
-									<div>
-										<label className="block text-sm font-medium text-slate-700 mb-2">
-											Discount (%)
-										</label>
-										<select
-											value={packageForm.discount}
-											onChange={e => setPackageForm(prev => ({ ...prev, discount: e.target.value }))}
-											className="select-base"
-										>
-											{[5, 10, 15, 20, 25, 30, 35, 40, 45, 50].map(percent => (
-												<option key={percent} value={percent}>
-													{percent}%
-												</option>
-											))}
-										</select>
-									</div>
+								{patients.find(p => p.patientId === packagePatientId)?.activePackageId && (
+									<p className="rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-xs text-amber-800">
+										The patient&apos;s current package will be marked as renewed; its unused sessions are not carried over.
+									</p>
 								)}
+								<PackagePlanFields
+									plans={packagePlans}
+									draft={packageDraft}
+									onChange={setPackageDraft}
+									disabled={packageSubmitting}
+								/>
 
-								{/* Total Amount Display */}
-								{packageForm.amount && (
-									<div className="rounded-lg border-2 border-purple-200 bg-purple-50 p-4">
-										<div className="flex items-center justify-between text-sm mb-1">
-											<span className="font-medium text-slate-700">Package Amount:</span>
-											<span className="font-semibold text-slate-900">₹{Number(packageForm.amount).toFixed(2)}</span>
-										</div>
-										{packageForm.consultationType === 'with' && Number(packageForm.discount) > 0 && (
-											<>
-												<div className="flex items-center justify-between text-xs mt-1 text-slate-600">
-													<span>Discount ({packageForm.discount}%):</span>
-													<span className="text-red-600">
-														-₹{((Number(packageForm.amount) * Number(packageForm.discount)) / 100).toFixed(2)}
-													</span>
-												</div>
-												<div className="flex items-center justify-between text-sm mt-2 pt-2 border-t border-slate-200">
-													<span className="font-bold text-slate-900">Total Amount:</span>
-													<span className="font-bold text-purple-600">
-														₹{(Number(packageForm.amount) * (1 - Number(packageForm.discount) / 100)).toFixed(2)}
-													</span>
-												</div>
-											</>
-										)}
-										{packageForm.consultationType === 'without' && (
-											<div className="flex items-center justify-between text-sm mt-2 pt-2 border-t border-slate-200">
-												<span className="font-bold text-slate-900">Total Amount:</span>
-												<span className="font-bold text-purple-600">₹{Number(packageForm.amount).toFixed(2)}</span>
-											</div>
-										)}
-									</div>
-								)}
+								<ServiceSelect value={packageServiceType} onChange={setPackageServiceType} disabled={packageSubmitting} />
 
-								{/* Description */}
+								{/* Notes */}
 								<div>
-									<label className="block text-sm font-medium text-slate-700">Description (Optional)</label>
+									<label className="block text-sm font-medium text-slate-700">Notes (Optional)</label>
 									<textarea
-										value={packageForm.description}
-										onChange={e => setPackageForm(prev => ({ ...prev, description: e.target.value }))}
+										value={packageNotes}
+										onChange={e => setPackageNotes(e.target.value)}
 										className="input-base mt-2"
 										rows={4}
-										placeholder="Enter package description..."
+										placeholder="Payment description or concession reason..."
 									/>
 								</div>
 							</div>
@@ -3523,14 +3203,6 @@ export default function Appointments() {
 								onClick={() => {
 									setShowPackageModal(false);
 									setPackagePatientId(null);
-									setPackageForm({
-										packageName: '',
-										totalSessions: '',
-										amount: '',
-										consultationType: 'without',
-										discount: '0',
-										description: '',
-									});
 								}}
 								className="btn-secondary"
 								disabled={packageSubmitting}
@@ -3540,7 +3212,7 @@ export default function Appointments() {
 							<button
 								type="button"
 								onClick={handleAddPackage}
-								disabled={packageSubmitting || !packageForm.packageName.trim() || !packageForm.totalSessions || !packageForm.amount}
+								disabled={packageSubmitting || !packageDraft.planId}
 								className="btn-primary"
 							>
 								{packageSubmitting ? (
@@ -4,6 +4,16 @@ import { useEffect, useState, useMemo, useRef } from 'react';
 import { collection, doc, getDoc, getDocs, query, setDoc, updateDoc, where, onSnapshot, serverTimestamp, deleteField } from 'firebase/firestore';
 import { useAuth } from '@/contexts/AuthContext';
 import { db } from '@/lib/firebase';
+import {
+	WEEK_DAYS,
+	DEFAULT_WEEKLY_AVAILABILITY,
+	findHoliday,
+	formatDayHours,
+	getWeeklyPattern,
+	resolveDayAvailability,
+	type WeeklyAvailability,
+} from '@/lib/availability';
+import { useClinicHolidays } from '@/hooks/useClinicHolidays';
 
 interface TimeSlot {
 	start: string;
@@ -65,7 +75,12 @@ const formatDateKey = (date: Date): string => {
 export default function Availability() {
 	const { user } = useAuth();
 	
+	const { holidays } = useClinicHolidays();
 	const [dateSpecific, setDateSpecific] = useState<DateSpecificAvailability>({});
+	const [weeklyAvailability, setWeeklyAvailability] = useState<WeeklyAvailability | null>(null);
+	const [weeklyDraft, setWeeklyDraft] = useState<WeeklyAvailability>(DEFAULT_WEEKLY_AVAILABILITY);
+	const [savingWeekly, setSavingWeekly] = useState(false);
+	const [templates, setTemplates] = useState<Array<{ id: string; name: string; schedule: WeeklyAvailability }>>([]);
 	const [loading, setLoading] = useState(true);
 	const [saving, setSaving] = useState(false);
 	const [savedMessage, setSavedMessage] = useState(false);
@@ -124,6 +139,9 @@ export default function Availability() {
 							if (snapshot.exists()) {
 								const data = snapshot.data();
 								setCurrentStaffUserName(data.userName ? String(data.userName) : null);
+								const loadedWeekly = (data.weeklyAvailability as WeeklyAvailability | undefined) || null;
+								setWeeklyAvailability(loadedWeekly);
+								setWeeklyDraft(getWeeklyPattern({ weeklyAvailability: loadedWeekly }));
 								const loadedDateSpecific = data.dateSpecificAvailability as DateSpecificAvailability | undefined;
 
 								if (loadedDateSpecific) {
@@ -168,6 +186,23 @@ export default function Availability() {
 		};
 	}, [user?.email]);
 
+	// Load availability templates for quickly building a weekly pattern
+	useEffect(() => {
+		const loadTemplates = async () => {
+			try {
+				const response = await fetch('/api/availability/templates');
+				const result = await response.json();
+				if (result.success) {
+					setTemplates(result.data);
+				}
+			} catch (error) {
+				console.error('Failed to load availability templates', error);
+			}
+		};
+
+		loadTemplates();
+	}, []);
+
 	// Date-specific handlers
 	const getMonthDates = (monthStart: string): string[] => {
 		const start = new Date(monthStart + 'T00:00:00'); // Parse as local time
@@ -213,10 +248,11 @@ export default function Availability() {
 		return dayNames[d.getDay()];
 	};
 
-	// Default availability: 9 AM to 6 PM for all days except Sunday
-	const DEFAULT_START_TIME = '09:00';
-	const DEFAULT_END_TIME = '18:00';
-	const DEFAULT_SLOTS: TimeSlot[] = [{ start: DEFAULT_START_TIME, end: DEFAULT_END_TIME }];
+	// Weekly hours for a date, used as the working hours of date-specific overrides
+	const getWeeklySlots = (date: string): TimeSlot[] => {
+		const pattern = getWeeklyPattern({ weeklyAvailability })[getDayName(date)];
+		return pattern?.enabled ? cloneSlots(pattern.slots) : [];
+	};
 
 	const normalizeDateKey = (dateString: string): string => {
 		const date = new Date(dateString + 'T00:00:00');
@@ -227,26 +263,26 @@ export default function Availability() {
 		return `${year}-${month}-${day}`;
 	};
 
-	const getDateSchedule = (date: string): DayAvailability => {
-		const dayName = getDayName(date);
-		const isSunday = dayName === 'Sunday';
-		
-		// Sunday is always unavailable
-		if (isSunday) {
-			return { enabled: false, slots: DEFAULT_SLOTS };
-		}
-		
-		// Normalize date key for lookup
+	const getDateSchedule = (date: string) => {
 		const normalizedDate = normalizeDateKey(date);
-		
-		// Check for date-specific availability (try both normalized and original key)
-		const dateSchedule = dateSpecific[normalizedDate] || dateSpecific[date];
-		if (dateSchedule) {
-			return dateSchedule;
+		return resolveDayAvailability(
+			{ weeklyAvailability, dateSpecificAvailability: dateSpecific },
+			normalizedDate,
+			holidays
+		);
+	};
+
+	// Closed days cannot be edited: clinic holidays and days off in the weekly pattern
+	const getClosedReason = (date: string): string | null => {
+		const holiday = findHoliday(holidays, normalizeDateKey(date));
+		if (holiday) {
+			return `The centre is closed on this date (${holiday.name}).`;
 		}
-		
-		// Default: available from 9 AM to 6 PM for all days except Sunday
-		return { enabled: true, slots: DEFAULT_SLOTS };
+		const pattern = getWeeklyPattern({ weeklyAvailability })[getDayName(date)];
+		if (!pattern?.enabled) {
+			return `${getDayName(date)} is not part of your weekly schedule. Update your weekly pattern to work on this day.`;
+		}
+		return null;
 	};
 
 	// Check if a time slot has appointments
@@ -350,17 +386,13 @@ const loadAppointmentsForDate = async (
 	};
 
 	const handleDateClick = async (date: string) => {
-		const dayName = getDayName(date);
-		const isSunday = dayName === 'Sunday';
-		
-		// Don't allow editing Sunday
-		if (isSunday) {
-			alert('Sunday is not available for scheduling.');
+		const closedReason = getClosedReason(date);
+		if (closedReason) {
+			alert(closedReason);
 			return;
 		}
 		
 		setSelectedDate(date);
-		const currentSchedule = getDateSchedule(date);
 		// For unavailability, we store it as enabled: false
 		// If the date is in dateSpecific, it means it's marked as unavailable
 		const normalizedDate = normalizeDateKey(date);
@@ -368,7 +400,7 @@ const loadAppointmentsForDate = async (
 		const isUnavailable = !!dateSchedule && !dateSchedule.enabled;
 		setEditingDateSchedule({
 			enabled: !isUnavailable, // If not in dateSpecific or enabled=true, it's available
-			slots: DEFAULT_SLOTS.map(slot => ({ ...slot })),
+			slots: getWeeklySlots(date),
 			unavailableSlots: dateSchedule?.unavailableSlots || [],
 		});
 		setNewUnavailableSlot({ start: '', end: '' }); // Reset new slot form
@@ -378,11 +410,9 @@ const loadAppointmentsForDate = async (
 	const saveDateSchedule = async () => {
 		if (!selectedDate || !editingDateSchedule || !staffDocId) return;
 
-		const dayName = getDayName(selectedDate);
-		const isSunday = dayName === 'Sunday';
-		
-		if (isSunday) {
-			alert('Sunday is not available for scheduling.');
+		const closedReason = getClosedReason(selectedDate);
+		if (closedReason) {
+			alert(closedReason);
 			return;
 		}
 
@@ -415,13 +445,13 @@ const loadAppointmentsForDate = async (
 			// Mark as unavailable
 			updatedSchedule[normalizedDate] = {
 				enabled: false,
-				slots: DEFAULT_SLOTS, // Store default slots for reference
+				slots: getWeeklySlots(normalizedDate), // Store weekly slots for reference
 			};
 		} else if (hasUnavailableSlots) {
 			// Day is available but has unavailable time slots - store in dateSpecific
 			updatedSchedule[normalizedDate] = {
 				enabled: true,
-				slots: DEFAULT_SLOTS,
+				slots: getWeeklySlots(normalizedDate),
 				unavailableSlots: editingDateSchedule.unavailableSlots,
 			};
 		} else {
@@ -464,11 +494,9 @@ const loadAppointmentsForDate = async (
 	};
 
 	const removeDateSchedule = async (date: string) => {
-		const dayName = getDayName(date);
-		const isSunday = dayName === 'Sunday';
-		
-		if (isSunday) {
-			alert('Sunday is not available for scheduling.');
+		const closedReason = getClosedReason(date);
+		if (closedReason) {
+			alert(closedReason);
 			return;
 		}
 
@@ -520,42 +548,115 @@ const loadAppointmentsForDate = async (
 		}
 	};
 
-	// Time slots are fixed at 9 AM - 6 PM, so we don't need these handlers anymore
-	// But keeping them for backward compatibility in case they're referenced elsewhere
-	const handleDateSlotChange = (slotIndex: number, field: 'start' | 'end', value: string) => {
-		// Slots are fixed, so this is disabled
-		alert('Time slots are fixed from 9 AM to 6 PM. You can only mark days as unavailable.');
+	// Working hours come from the weekly pattern; date overrides only mark days or ranges unavailable
+	const handleWeeklyDayToggle = (day: string, enabled: boolean) => {
+		setWeeklyDraft(prev => ({
+			...prev,
+			[day]: { ...prev[day], enabled },
+		}));
 	};
 
-	const handleDateAddSlot = () => {
-		// Slots are fixed, so this is disabled
-		alert('Time slots are fixed from 9 AM to 6 PM. You can only mark days as unavailable.');
+	const handleWeeklySlotChange = (day: string, slotIndex: number, field: 'start' | 'end', value: string) => {
+		setWeeklyDraft(prev => {
+			const slots = cloneSlots(prev[day]?.slots || []);
+			if (!slots[slotIndex]) return prev;
+			slots[slotIndex] = { ...slots[slotIndex], [field]: value };
+			return { ...prev, [day]: { ...prev[day], slots } };
+		});
+	};
+
+	const handleWeeklyAddSlot = (day: string) => {
+		setWeeklyDraft(prev => {
+			const slots = cloneSlots(prev[day]?.slots || []);
+			const lastEnd = slots.length > 0 ? slots[slots.length - 1].end : '09:00';
+			slots.push({ start: lastEnd, end: minutesToTimeString(timeStringToMinutes(lastEnd) + 60) });
+			return { ...prev, [day]: { enabled: true, slots } };
+		});
 	};
 
-	const handleDateRemoveSlot = (slotIndex: number) => {
-		// Slots are fixed, so this is disabled
-		alert('Time slots are fixed from 9 AM to 6 PM. You can only mark days as unavailable.');
+	const handleWeeklyRemoveSlot = (day: string, slotIndex: number) => {
+		setWeeklyDraft(prev => {
+			const slots = cloneSlots(prev[day]?.slots || []).filter((_, index) => index !== slotIndex);
+			return { ...prev, [day]: { enabled: slots.length > 0 && prev[day]?.enabled, slots } };
+		});
+	};
+
+	const handleApplyTemplate = (templateId: string) => {
+		const template = templates.find(item => item.id === templateId);
+		if (!template) return;
+		setWeeklyDraft(getWeeklyPattern({ weeklyAvailability: template.schedule }));
+	};
+
+	const saveWeeklyPattern = async () => {
+		if (!staffDocId || savingWeekly) return;
+
+		for (const day of WEEK_DAYS) {
+			const pattern = weeklyDraft[day];
+			if (!pattern?.enabled) continue;
+			for (const slot of pattern.slots) {
+				if (!slot.start || !slot.end || timeStringToMinutes(slot.end) <= timeStringToMinutes(slot.start)) {
+					alert(`Please enter a valid time range for ${day}.`);
+					return;
+				}
+			}
+		}
+
+		setSavingWeekly(true);
+		isSavingRef.current = true;
+		try {
+			await updateDoc(doc(db, 'staff', staffDocId), {
+				weeklyAvailability: weeklyDraft,
+				availabilityUpdatedAt: serverTimestamp(),
+			});
+			setWeeklyAvailability(weeklyDraft);
+			setSavedMessage(true);
+			setTimeout(() => setSavedMessage(false), 3000);
+		} catch (error) {
+			console.error('Failed to save weekly availability', error);
+			alert('Failed to save weekly availability. Please try again.');
+		} finally {
+			setSavingWeekly(false);
+			setTimeout(() => {
+				isSavingRef.current = false;
+			}, 500);
+		}
+	};
+
+	const saveWeeklyAsTemplate = async () => {
+		const name = window.prompt('Template name');
+		if (!name?.trim()) return;
+		try {
+			const response = await fetch('/api/availability/templates', {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json' },
+				body: JSON.stringify({ name: name.trim(), schedule: weeklyDraft }),
+			});
+			const result = await response.json();
+			if (!result.success) {
+				throw new Error(result.message);
+			}
+			setTemplates(prev => [...prev, result.data]);
+		} catch (error) {
+			console.error('Failed to save availability template', error);
+			alert('Failed to save template. Please try again.');
+		}
 	};
 
 	const copyScheduleToDates = async (sourceDate: string, targetDates: string[]) => {
 		if (!staffDocId || targetDates.length === 0) return;
 
-		const sourceSchedule = getDateSchedule(sourceDate);
 		const isSourceUnavailable = !!dateSpecific[sourceDate] && !dateSpecific[sourceDate].enabled;
 		const newDateSpecific = { ...dateSpecific };
 
 		targetDates.forEach(date => {
-			const dayName = getDayName(date);
-			const isSunday = dayName === 'Sunday';
-			
-			// Skip Sundays
-			if (isSunday) return;
+			// Skip holidays and days outside the weekly pattern
+			if (getClosedReason(date)) return;
 			
 			if (isSourceUnavailable) {
 				// Mark target dates as unavailable
 				newDateSpecific[date] = {
 					enabled: false,
-					slots: DEFAULT_SLOTS,
+					slots: getWeeklySlots(date),
 				};
 			} else {
 				// Remove from dateSpecific to use default availability
@@ -745,7 +846,7 @@ const loadAppointmentsForDate = async (
 					<p className="text-sm font-semibold uppercase tracking-wide text-sky-600">Clinical Team</p>
 					<h1 className="mt-1 text-3xl font-semibold text-slate-900">My Availability</h1>
 					<p className="mt-2 text-sm text-slate-600">
-						Your default availability is 9 AM to 6 PM for all days except Sunday. Click on any date to mark it as unavailable.
+						Set your recurring weekly hours below. Click on any date to mark it as unavailable. Clinic holidays are closed for everyone.
 					</p>
 				</header>
 
@@ -756,6 +857,100 @@ const loadAppointmentsForDate = async (
 					</div>
 				)}
 
+				{/* Weekly Pattern */}
+				<div className="mb-6 section-card">
+					<div className="mb-4 flex flex-wrap items-center justify-between gap-3">
+						<div>
+							<h3 className="text-lg font-semibold text-slate-900">Weekly Pattern</h3>
+							<p className="text-xs text-slate-500">
+								{weeklyAvailability ? 'Your recurring working hours.' : 'Using the clinic default (Monday to Saturday, 9 AM to 6 PM).'}
+							</p>
+						</div>
+						<div className="flex items-center gap-2">
+							{templates.length > 0 && (
+								<select
+									defaultValue=""
+									onChange={event => {
+										handleApplyTemplate(event.target.value);
+										event.target.value = '';
+									}}
+									className="select-base text-xs"
+								>
+									<option value="">Apply template…</option>
+									{templates.map(template => (
+										<option key={template.id} value={template.id}>
+											{template.name}
+										</option>
+									))}
+								</select>
+							)}
+							<button type="button" onClick={saveWeeklyAsTemplate} className="btn-secondary text-xs">
+								Save as template
+							</button>
+							<button type="button" onClick={saveWeeklyPattern} className="btn-primary text-xs" disabled={savingWeekly}>
+								{savingWeekly ? 'Saving…' : 'Save weekly pattern'}
+							</button>
+						</div>
+					</div>
+					<div className="divide-y divide-slate-100">
+						{WEEK_DAYS.map(day => {
+							const pattern = weeklyDraft[day] || { enabled: false, slots: [] };
+							return (
+								<div key={day} className="flex flex-wrap items-center gap-3 py-2">
+									<label className="flex w-32 items-center gap-2 text-sm font-medium text-slate-700">
+										<input
+											type="checkbox"
+											checked={pattern.enabled}
+											onChange={event => handleWeeklyDayToggle(day, event.target.checked)}
+											className="h-4 w-4 rounded border-slate-300 text-sky-600 focus:ring-sky-200"
+										/>
+										{day}
+									</label>
+									{pattern.enabled ? (
+										<div className="flex flex-wrap items-center gap-2">
+											{pattern.slots.map((slot, slotIndex) => (
+												<div key={slotIndex} className="flex items-center gap-1">
+													<input
+														type="time"
+														value={slot.start}
+														onChange={event => handleWeeklySlotChange(day, slotIndex, 'start', event.target.value)}
+														className="rounded-md border border-slate-300 px-2 py-1 text-xs"
+													/>
+													<span className="text-xs text-slate-400">–</span>
+													<input
+														type="time"
+														value={slot.end}
+														onChange={event => handleWeeklySlotChange(day, slotIndex, 'end', event.target.value)}
+														className="rounded-md border border-slate-300 px-2 py-1 text-xs"
+													/>
+													<button
+														type="button"
+														onClick={() => handleWeeklyRemoveSlot(day, slotIndex)}
+														className="rounded p-1 text-rose-600 hover:bg-rose-50"
+														title="Remove time range"
+													>
+														<i className="fas fa-times text-xs" aria-hidden="true" />
+													</button>
+												</div>
+											))}
+											<button
+												type="button"
+												onClick={() => handleWeeklyAddSlot(day)}
+												className="text-xs font-medium text-sky-600 hover:text-sky-700"
+											>
+												<i className="fas fa-plus mr-1" aria-hidden="true" />
+												Add range
+											</button>
+										</div>
+									) : (
+										<span className="text-xs italic text-slate-400">Day off</span>
+									)}
+								</div>
+							);
+						})}
+					</div>
+				</div>
+
 				{/* Month Selector */}
 				<div className="mb-6 section-card">
 					<div className="mb-4 flex items-center justify-between">
@@ -874,15 +1069,16 @@ const loadAppointmentsForDate = async (
 									{isCurrentMonthDay && (
 										<>
 											{(() => {
-												const dayName = getDayName(date);
-												const isSunday = dayName === 'Sunday';
-												const normalizedDate = normalizeDateKey(date);
-												const dateSchedule = dateSpecific[normalizedDate] || dateSpecific[date];
-												const isUnavailable = !!dateSchedule && !dateSchedule.enabled;
-												const unavailableSlots = dateSchedule?.unavailableSlots || [];
+												const resolvedSchedule = getDateSchedule(date);
+												const isUnavailable = !resolvedSchedule.enabled;
+												const unavailableSlots = resolvedSchedule.unavailableSlots || [];
 												const hasUnavailableSlots = unavailableSlots.length > 0;
 												
-												if (isSunday) {
+												if (resolvedSchedule.source === 'holiday') {
+													return <p className="text-xs italic text-rose-600 mb-2">Closed – {resolvedSchedule.holidayName}</p>;
+												}
+												
+												if (getClosedReason(date)) {
 													return <p className="text-xs italic text-slate-400 mb-2">Not available</p>;
 												}
 												
@@ -893,7 +1089,7 @@ const loadAppointmentsForDate = async (
 												return (
 													<div className="space-y-1 mb-2">
 														<div className="text-xs text-emerald-600 font-medium">
-															{DEFAULT_START_TIME} - {DEFAULT_END_TIME}
+															{formatDayHours(resolvedSchedule)}
 														</div>
 														<div className="text-xs text-slate-500">Available</div>
 														{hasUnavailableSlots && (
@@ -919,13 +1115,11 @@ const loadAppointmentsForDate = async (
 											})()}
 											<div className="mt-auto flex gap-1">
 												{(() => {
-													const dayName = getDayName(date);
-													const isSunday = dayName === 'Sunday';
 													const normalizedDate = normalizeDateKey(date);
 													const dateSchedule = dateSpecific[normalizedDate] || dateSpecific[date];
 													const isUnavailable = !!dateSchedule && !dateSchedule.enabled;
 													
-													if (isSunday) {
+													if (getClosedReason(date)) {
 														return (
 															<button
 																type="button"
@@ -1015,13 +1209,13 @@ const loadAppointmentsForDate = async (
 								<div className="mb-4 rounded-lg border border-emerald-200 bg-emerald-50 p-4">
 									<div className="flex items-center gap-2 mb-2">
 										<i className="fas fa-clock text-emerald-600" aria-hidden="true" />
-										<h4 className="text-sm font-semibold text-emerald-900">Default Availability</h4>
+										<h4 className="text-sm font-semibold text-emerald-900">Weekly Hours</h4>
 									</div>
 									<p className="text-sm text-emerald-800 mb-2">
-										Your default availability is <strong>{DEFAULT_START_TIME} - {DEFAULT_END_TIME}</strong> for all days except Sunday.
+										Your weekly hours on {getDayName(selectedDate)} are <strong>{formatDayHours({ enabled: true, slots: editingDateSchedule.slots })}</strong>.
 									</p>
 									<p className="text-xs text-emerald-700">
-										Time slots are automatically generated in 30-minute intervals from {DEFAULT_START_TIME} to {DEFAULT_END_TIME}.
+										Time slots are automatically generated in 30-minute intervals within these hours.
 									</p>
 								</div>
 
@@ -1074,7 +1268,7 @@ const loadAppointmentsForDate = async (
 									<p className="mt-1 text-xs text-slate-500">
 										{editingDateSchedule.enabled 
 											? 'Uncheck to mark this date as unavailable. You will not be available for appointments on this date.'
-											: 'Check to mark this date as available. You will be available from 9 AM to 6 PM on this date.'}
+											: 'Check to mark this date as available. You will be available during your weekly hours on this date.'}
 									</p>
 								</div>
 
@@ -1101,8 +1295,8 @@ const loadAppointmentsForDate = async (
 														type="time"
 														value={newUnavailableSlot.start}
 														onChange={(e) => setNewUnavailableSlot({ ...newUnavailableSlot, start: e.target.value })}
-														min={DEFAULT_START_TIME}
-														max={DEFAULT_END_TIME}
+														min={editingDateSchedule.slots[0]?.start}
+														max={editingDateSchedule.slots[editingDateSchedule.slots.length - 1]?.end}
 														className="w-full rounded-md border border-slate-300 px-2 py-1.5 text-sm text-slate-900 focus:border-sky-500 focus:outline-none focus:ring-1 focus:ring-sky-500"
 													/>
 												</div>
@@ -1114,8 +1308,8 @@ const loadAppointmentsForDate = async (
 														type="time"
 														value={newUnavailableSlot.end}
 														onChange={(e) => setNewUnavailableSlot({ ...newUnavailableSlot, end: e.target.value })}
-														min={newUnavailableSlot.start || DEFAULT_START_TIME}
-														max={DEFAULT_END_TIME}
+														min={newUnavailableSlot.start || editingDateSchedule.slots[0]?.start}
+														max={editingDateSchedule.slots[editingDateSchedule.slots.length - 1]?.end}
 														className="w-full rounded-md border border-slate-300 px-2 py-1.5 text-sm text-slate-900 focus:border-sky-500 focus:outline-none focus:ring-1 focus:ring-sky-500"
 													/>
 												</div>
@@ -1223,7 +1417,7 @@ const loadAppointmentsForDate = async (
 
 				<div className="mt-6 rounded-xl border border-sky-200 bg-sky-50 px-4 py-3 text-sm text-sky-700">
 					<i className="fas fa-info-circle mr-2" aria-hidden="true" />
-					<strong>Note:</strong> Your default availability is 9 AM to 6 PM for all days except Sunday. Click on any date to mark it as unavailable. Use the copy button to apply unavailability to multiple days.
+					<strong>Note:</strong> Your weekly pattern sets your regular hours. Click on any date to mark it as unavailable. Use the copy button to apply unavailability to multiple days.
 				</div>
 			</div>
 		</div>
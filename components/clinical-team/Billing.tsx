@@ -17,6 +17,7 @@ import {
 import { db } from '@/lib/firebase';
 import { useAuth } from '@/contexts/AuthContext';
 import PageHeader from '@/components/PageHeader';
+import { isBillLocked } from '@/lib/billingCycles';
 
 interface BillingRecord {
 	id?: string;
@@ -36,6 +37,7 @@ interface BillingRecord {
 	dyesSessionNumber?: number;
 	packageAmount?: number;
 	packageSessions?: number;
+	lockedCycleId?: string; // Set when the bill's billing cycle is closed
 }
 
 interface PatientRecord {
@@ -144,9 +146,15 @@ export default function Billing() {
 							createdAt: created ? created.toISOString() : undefined,
 							updatedAt: updated ? updated.toISOString() : undefined,
 							isExtraTreatment: data.isExtraTreatment === true,
-							dyesSessionNumber: typeof data.dyesSessionNumber === 'number' ? data.dyesSessionNumber : undefined,
+							dyesSessionNumber:
+								typeof data.policySessionNumber === 'number'
+									? data.policySessionNumber
+									: typeof data.dyesSessionNumber === 'number'
+										? data.dyesSessionNumber
+										: undefined,
 							packageAmount: data.packageAmount ? Number(data.packageAmount) : undefined,
 							packageSessions: data.packageSessions ? Number(data.packageSessions) : undefined,
+							lockedCycleId: data.lockedCycleId ? String(data.lockedCycleId) : undefined,
 						} as BillingRecord;
 					})
 					.filter(bill => assignedPatientIds.has(bill.patientId));
@@ -314,7 +322,8 @@ export default function Billing() {
 			const billingRef = doc(db, 'billing', selectedBill.id);
 			await updateDoc(billingRef, {
 				status: 'Completed',
-				amount: amountToSave,
+				// A bill in a closed billing cycle keeps the amount it was closed with
+				...(isBillLocked(selectedBill) ? {} : { amount: amountToSave }),
 				paymentMode,
 				utr: paymentMode === 'UPI/Card' ? utr.trim() : null,
 				paymentRegisteredByFrontdesk: user?.uid || null,
@@ -10,9 +10,12 @@ import { collection, doc, onSnapshot, updateDoc, deleteDoc, query, where, getDoc
 
 import { db } from '@/lib/firebase';
 import PageHeader from '@/components/PageHeader';
+import CalendarFeedLink from '@/components/clinical-team/CalendarFeedLink';
 import NotificationCenter, { type UpcomingReminder } from '@/components/notifications/NotificationCenter';
 import { useAuth } from '@/contexts/AuthContext';
 import type { PatientRecordBasic, PatientStatus } from '@/lib/types';
+import { findHoliday, resolveDayAvailability, type DateSpecificAvailability, type WeeklyAvailability } from '@/lib/availability';
+import { useClinicHolidays } from '@/hooks/useClinicHolidays';
 
 interface AppointmentRecord {
 	id: string;
@@ -40,24 +43,6 @@ interface StaffMember {
 	status: string;
 }
 
-interface TimeSlot {
-	start: string;
-	end: string;
-}
-
-interface DayAvailability {
-	enabled: boolean;
-	slots: TimeSlot[];
-}
-
-interface AvailabilitySchedule {
-	[day: string]: DayAvailability;
-}
-
-interface DateSpecificAvailability {
-	[date: string]: DayAvailability; // date in YYYY-MM-DD format
-}
-
 const statusColors: Record<string, string> = {
 	pending: 'bg-amber-400',
 	ongoing: 'bg-sky-500',
@@ -99,6 +84,8 @@ export default function Calendar() {
 	const [patients, setPatients] = useState<PatientRecordBasic[]>([]);
 	const [staff, setStaff] = useState<StaffMember[]>([]);
 	const [dateSpecificAvailability, setDateSpecificAvailability] = useState<DateSpecificAvailability | null>(null);
+	const [weeklyAvailability, setWeeklyAvailability] = useState<WeeklyAvailability | null>(null);
+	const { holidays } = useClinicHolidays();
 	const [activities, setActivities] = useState<Array<{
 		id: string;
 		activityType: string;
@@ -320,6 +307,7 @@ export default function Calendar() {
 							
 							if (snapshot.exists()) {
 								const data = snapshot.data();
+								safeSetState(setWeeklyAvailability, (data.weeklyAvailability as WeeklyAvailability | undefined) ?? null);
 								const loadedDateSpecific = data.dateSpecificAvailability as DateSpecificAvailability | undefined;
 
 								if (loadedDateSpecific) {
@@ -336,6 +324,7 @@ export default function Calendar() {
 								}
 							} else {
 								safeSetState(setDateSpecificAvailability, null);
+								safeSetState(setWeeklyAvailability, null);
 							}
 						},
 						error => {
@@ -631,24 +620,21 @@ export default function Calendar() {
 		return `${year}-${month}-${day}`;
 	};
 
-	// Generate availability events from date-specific schedule
+	// Generate availability events from the weekly pattern, date overrides and clinic holidays
 	const availabilityEvents = useMemo(() => {
-		if (!dateSpecificAvailability || Object.keys(dateSpecificAvailability).length === 0) {
-			return [];
-		}
-		
 		const events: Array<{
 			id: string;
 			title: string;
 			start: string;
 			end: string;
+			allDay?: boolean;
 			backgroundColor: string;
 			borderColor: string;
 			display: 'background' | 'block';
 			editable: boolean;
 			startEditable: boolean;
 			durationEditable: boolean;
-			extendedProps: { type: 'availability' };
+			extendedProps: { type: 'availability' | 'holiday' };
 		}> = [];
 		
 		// Generate events for the next 6 months
@@ -661,22 +647,30 @@ export default function Calendar() {
 		endDate.setMonth(today.getMonth() + 6);
 		
 		const currentDate = new Date(startDate);
-		
-		console.log('📅 Generating events from', formatDateKey(startDate), 'to', formatDateKey(endDate));
+		const schedule = { weeklyAvailability, dateSpecificAvailability };
 		
 		while (currentDate <= endDate) {
 			const dateKey = formatDateKey(currentDate);
+			const daySchedule = resolveDayAvailability(schedule, dateKey, holidays);
 			
-			// Check for date-specific schedule
-			const daySchedule = dateSpecificAvailability[dateKey];
-			
-			// Debug: log if we find a schedule
-			if (daySchedule) {
-				console.log(`📅 Found schedule for ${dateKey}:`, daySchedule);
-			}
-			
-			if (daySchedule?.enabled && daySchedule.slots && daySchedule.slots.length > 0) {
-				console.log(`✅ Creating events for ${dateKey} with ${daySchedule.slots.length} slot(s)`);
+			if (daySchedule.source === 'holiday') {
+				const nextDate = new Date(currentDate);
+				nextDate.setDate(nextDate.getDate() + 1);
+				events.push({
+					id: `holiday-${dateKey}`,
+					title: `Closed – ${daySchedule.holidayName}`,
+					start: dateKey,
+					end: formatDateKey(nextDate),
+					allDay: true,
+					backgroundColor: '#fee2e2',
+					borderColor: '#f43f5e',
+					display: 'background',
+					editable: false,
+					startEditable: false,
+					durationEditable: false,
+					extendedProps: { type: 'holiday' },
+				});
+			} else if (daySchedule.enabled) {
 				for (const slot of daySchedule.slots) {
 					if (!slot.start || !slot.end) continue;
 					
@@ -717,9 +711,8 @@ export default function Calendar() {
 			currentDate.setDate(currentDate.getDate() + 1);
 		}
 		
-		console.log('📅 Generated availability events:', events.length, 'events');
 		return events;
-	}, [dateSpecificAvailability]);
+	}, [weeklyAvailability, dateSpecificAvailability, holidays]);
 
 	const calendarEvents = useMemo(() => {
 		const appointmentEvents = events
@@ -941,6 +934,13 @@ export default function Calendar() {
 		const newDate = `${year}-${month}-${day}`;
 		const newTime = `${hours}:${minutes}`;
 
+		const holiday = findHoliday(holidays, newDate);
+		if (holiday) {
+			alert(`The clinic is closed on ${newDate} (${holiday.name}).`);
+			changeInfo.revert();
+			return;
+		}
+
 		setIsRescheduling(eventId);
 		
 		try {
@@ -1018,6 +1018,7 @@ export default function Calendar() {
 			<div className="mx-auto max-w-6xl space-y-10">
 				<PageHeader
 					title="My Calendar & Notifications"
+					actions={<CalendarFeedLink />}
 				/>
 
 				{!clinicianName && (
@@ -1208,8 +1209,8 @@ export default function Calendar() {
 							events={[...availabilityEvents, ...calendarEvents, ...activityEvents]}
 							eventClick={(clickInfo) => {
 								const eventType = clickInfo.event.extendedProps?.type;
-								if (eventType === 'availability') {
-									return; // Don't open modal for availability events
+								if (eventType === 'availability' || eventType === 'holiday') {
+									return; // Don't open modal for availability or holiday events
 								}
 								if (eventType === 'activity') {
 									// Find the activity and open edit modal
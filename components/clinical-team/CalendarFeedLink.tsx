@@ -0,0 +1,97 @@
+'use client';
+
+import { useState } from 'react';
+
+import { auth } from '@/lib/firebase';
+
+/**
+ * Lets a therapist subscribe to their schedule from a phone calendar app
+ */
+export default function CalendarFeedLink() {
+	const [open, setOpen] = useState(false);
+	const [url, setUrl] = useState<string | null>(null);
+	const [loading, setLoading] = useState(false);
+
+	const requestLink = async (reset: boolean) => {
+		setLoading(true);
+		try {
+			const token = await auth.currentUser?.getIdToken();
+			if (!token) {
+				alert('Please sign in again to get your calendar link.');
+				return;
+			}
+			const response = await fetch('/api/calendar/feed-url', {
+				method: 'POST',
+				headers: {
+					'Content-Type': 'application/json',
+					'Authorization': `Bearer ${token}`,
+				},
+				body: JSON.stringify({ reset }),
+			});
+			const result = await response.json();
+			if (!response.ok || !result.url) {
+				alert(result.error || 'Failed to get your calendar link.');
+				return;
+			}
+			setUrl(result.url);
+		} catch (error) {
+			console.error('Failed to get calendar feed link', error);
+			alert('Failed to get your calendar link. Please try again.');
+		} finally {
+			setLoading(false);
+		}
+	};
+
+	const handleOpen = () => {
+		setOpen(prev => !prev);
+		if (!url && !loading) void requestLink(false);
+	};
+
+	const handleReset = () => {
+		if (!window.confirm('Reset your calendar link? Calendars subscribed with the old link will stop updating.')) return;
+		void requestLink(true);
+	};
+
+	const handleCopy = async () => {
+		if (!url) return;
+		try {
+			await navigator.clipboard.writeText(url);
+			alert('Calendar link copied.');
+		} catch {
+			window.prompt('Copy your calendar link:', url);
+		}
+	};
+
+	return (
+		<div className="relative">
+			<button type="button" onClick={handleOpen} className="btn-secondary">
+				<i className="fas fa-mobile-alt mr-2" aria-hidden="true" />
+				Phone Calendar
+			</button>
+			{open && (
+				<div className="absolute right-0 z-20 mt-2 w-96 rounded-lg border border-slate-200 bg-white p-4 text-left shadow-lg">
+					<p className="text-sm font-semibold text-slate-900">Subscribe to your schedule</p>
+					<p className="mt-1 text-xs text-slate-600">
+						Add this link as a subscribed calendar in Google Calendar, Apple Calendar or Outlook. Anyone with the link can see your appointments, so keep it private.
+					</p>
+					{loading ? (
+						<p className="mt-3 text-sm text-slate-500">Getting your link...</p>
+					) : url ? (
+						<>
+							<input type="text" value={url} readOnly className="input-base mt-3 text-xs" onFocus={event => event.target.select()} />
+							<div className="mt-3 flex justify-between">
+								<button type="button" onClick={handleReset} className="text-sm font-medium text-rose-600 hover:text-rose-700">
+									Reset Link
+								</button>
+								<button type="button" onClick={handleCopy} className="btn-primary">
+									<i className="fas fa-copy mr-2" aria-hidden="true" />
+									Copy Link
+								</button>
+							</div>
+						</>
+					) : null}
+				</div>
+			)}
+		</div>
+	);
+}
@@ -11,9 +11,28 @@ import { generatePhysiotherapyReportPDF, type PatientReportData, type ReportSect
 import type { PatientRecordFull, Appointment } from '@/lib/types';
 import { recordSessionUsageForAppointment } from '@/lib/sessionAllowanceClient';
 import { getHeaderConfig, getDefaultHeaderConfig } from '@/lib/headerConfig';
+import type { WeeklyAvailability } from '@/lib/availability';
+import { rescheduleSeriesFrom, type SeriesEditScope } from '@/lib/appointmentSeriesClient';
+import { offerSlotsToWaitlist } from '@/lib/waitlistClient';
 import type { HeaderConfig } from '@/components/admin/HeaderManagement';
 import EditReportModal from '@/components/clinical-team/EditReportModal';
+import { ensureCurrentEpisode, saveEpisodeReport } from '@/lib/episodesClient';
+import { requestReportVersion } from '@/lib/reportVersionsClient';
+import { getDraftReportFields, isReportSigned } from '@/lib/reportSignoff';
+import ReportSignOff from '@/components/clinical-team/ReportSignOff';
+import JointAssessmentSummary from '@/components/clinical-team/JointAssessmentSummary';
+import {
+	OXFORD_GRADES,
+	addJoint,
+	parseDegrees,
+	parseOxfordGrade,
+	setJointValue,
+	type JointRecord,
+	type JointRecords,
+} from '@/lib/romMmt';
 import AppointmentBookingModal from '@/components/appointments/AppointmentBookingModal';
+import ServiceSelect from '@/components/appointments/ServiceSelect';
+import { resolveAppointmentDuration } from '@/lib/serviceCatalog';
 import RescheduleDialog from '@/components/appointments/RescheduleDialog';
 import TransferSessionDialog from '@/components/appointments/TransferSessionDialog';
 import TransferConfirmationDialog from '@/components/transfers/TransferConfirmationDialog';
@@ -39,6 +58,7 @@ interface PackageSetupFormState {
 	paymentDescription: string;
 	packageAmount: string;
 	concessionPercent: string;
+	serviceType: string; // Service the package sessions are booked as
 }
 
 const PACKAGE_FORM_INITIAL_STATE: PackageSetupFormState = {
@@ -50,6 +70,7 @@ const PACKAGE_FORM_INITIAL_STATE: PackageSetupFormState = {
 	paymentDescription: '',
 	packageAmount: '',
 	concessionPercent: '',
+	serviceType: '',
 };
 
 const PAYMENT_OPTIONS: Array<{ value: PaymentTypeOption; label: string }> = [
@@ -410,7 +431,7 @@ async function markAppointmentCompletedForReport(
 			
 			// Check if all appointments are completed or cancelled
 			const allCompleted = allAppointments.every((apt: any) => 
-				apt.status === 'completed' || apt.status === 'cancelled'
+				apt.status === 'completed' || apt.status === 'cancelled' || apt.status === 'no-show'
 			);
 			
 			if (allCompleted && patient.status !== 'completed' && patient.id) {
@@ -508,6 +529,7 @@ export default function EditReport() {
 		createdAt: string;
 		createdBy: string;
 		data: Partial<PatientRecordFull>;
+		signedBy?: string | null;
 	}>>([]);
 	const [loadingVersions, setLoadingVersions] = useState(false);
 	const [viewingVersion, setViewingVersion] = useState<typeof versionHistory[0] | null>(null);
@@ -557,6 +579,7 @@ export default function EditReport() {
 		doctor: string;
 		date: string;
 		time: string;
+		recurringSeriesId?: string;
 	} | null>(null);
 	const [allAppointmentsForReschedule, setAllAppointmentsForReschedule] = useState<Array<{
 		id: string;
@@ -603,6 +626,7 @@ export default function EditReport() {
 		userName?: string;
 		role: string;
 		availability?: Record<string, { enabled: boolean; slots: Array<{ start: string; end: string }> }>;
+		weeklyAvailability?: WeeklyAvailability;
 		dateSpecificAvailability?: Record<string, { enabled: boolean; slots: Array<{ start: string; end: string }> }>;
 	}>>([]);
 
@@ -648,6 +672,7 @@ export default function EditReport() {
 		packageCategory?: string;
 		duration?: number;
 		transferredFrom?: string;
+		recurringSeriesId?: string;
 	}>>>({});
 	const appointmentSubscriptionsRef = useRef<Record<string, () => void>>({});
 	const selectedPatientUnsubscribeRef = useRef<(() => void) | null>(null);
@@ -747,7 +772,7 @@ export default function EditReport() {
 						vasScale: data.vasScale ? String(data.vasScale) : undefined,
 						aggravatingFactor: data.aggravatingFactor ? String(data.aggravatingFactor) : undefined,
 						relievingFactor: data.relievingFactor ? String(data.relievingFactor) : undefined,
-						rom: (data.rom as Record<string, any>) || {},
+						rom: (data.rom as JointRecords) || {},
 						treatmentProvided: data.treatmentProvided ? String(data.treatmentProvided) : undefined,
 						progressNotes: data.progressNotes ? String(data.progressNotes) : undefined,
 						physioName: data.physioName ? String(data.physioName) : undefined,
@@ -786,7 +811,7 @@ export default function EditReport() {
 						scar: data.scar ? String(data.scar) : undefined,
 						crepitus: data.crepitus ? String(data.crepitus) : undefined,
 						odema: data.odema ? String(data.odema) : undefined,
-						mmt: (data.mmt as Record<string, any>) || {},
+						mmt: (data.mmt as JointRecords) || {},
 						specialTest: data.specialTest ? String(data.specialTest) : undefined,
 						finalDiagnosis: data.finalDiagnosis ? String(data.finalDiagnosis) : undefined,
 						shortTermGoals: data.shortTermGoals ? String(data.shortTermGoals) : undefined,
@@ -853,6 +878,7 @@ export default function EditReport() {
 						role: (data.role || data.userRole) ? String(data.role || data.userRole) : '',
 						availability: data.availability as Record<string, { enabled: boolean; slots: Array<{ start: string; end: string }> }> | undefined,
 						dateSpecificAvailability: data.dateSpecificAvailability as Record<string, { enabled: boolean; slots: Array<{ start: string; end: string }> }> | undefined,
+						weeklyAvailability: data.weeklyAvailability as WeeklyAvailability | undefined,
 					};
 				});
 				
@@ -914,6 +940,13 @@ export default function EditReport() {
 					
 					// Update in patients array as well
 					setPatients(prev => prev.map(p => p.id === updatedPatient.id ? updatedPatient : p));
+				} else {
+					// Keep the sign-off state current while the report is being edited
+					setSelectedPatient(prev =>
+						prev
+							? { ...prev, reportStatus: updatedPatient.reportStatus, reportDraftSince: updatedPatient.reportDraftSince, reportSignature: updatedPatient.reportSignature }
+							: null
+					);
 				}
 			}
 		}, (error) => {
@@ -1059,67 +1092,31 @@ export default function EditReport() {
 	};
 
 	const handleRomChange = (joint: string, motion: string, side: 'left' | 'right' | 'none', value: string) => {
-		setFormData(prev => {
-			const rom = { ...(prev.rom || {}) };
-			if (!rom[joint]) {
-				rom[joint] = ROM_HAS_SIDE[joint] ? { left: {}, right: {} } : {};
-			}
-
-			if (side === 'none') {
-				rom[joint][motion] = value;
-			} else {
-				if (!rom[joint][side]) {
-					rom[joint][side] = {};
-				}
-				rom[joint][side][motion] = value;
-			}
-
-			return { ...prev, rom };
-		});
+		const stored = value === '' ? '' : Number(value); // Degrees
+		setFormData(prev => ({
+			...prev,
+			rom: setJointValue(prev.rom, joint, motion, side === 'none' ? null : side, stored, ROM_HAS_SIDE[joint]),
+		}));
 	};
 
 	const handleAddRomJoint = () => {
 		if (!selectedRomJoint || !formData.rom?.[selectedRomJoint]) {
-			setFormData(prev => {
-				const rom = { ...(prev.rom || {}) };
-				if (!rom[selectedRomJoint]) {
-					rom[selectedRomJoint] = ROM_HAS_SIDE[selectedRomJoint] ? { left: {}, right: {} } : {};
-				}
-				return { ...prev, rom };
-			});
+			setFormData(prev => ({ ...prev, rom: addJoint(prev.rom, selectedRomJoint, ROM_HAS_SIDE[selectedRomJoint]) }));
 		}
 		setSelectedRomJoint('');
 	};
 
 	const handleMmtChange = (joint: string, motion: string, side: 'left' | 'right' | 'none', value: string) => {
-		setFormData(prev => {
-			const mmt = { ...(prev.mmt || {}) };
-			if (!mmt[joint]) {
-				mmt[joint] = ROM_HAS_SIDE[joint] ? { left: {}, right: {} } : {};
-			}
-
-			if (side === 'none') {
-				mmt[joint][motion] = value;
-			} else {
-				if (!mmt[joint][side]) {
-					mmt[joint][side] = {};
-				}
-				mmt[joint][side][motion] = value;
-			}
-
-			return { ...prev, mmt };
-		});
+		const stored = value === '' ? '' : Number(value); // Oxford grade 0-5
+		setFormData(prev => ({
+			...prev,
+			mmt: setJointValue(prev.mmt, joint, motion, side === 'none' ? null : side, stored, ROM_HAS_SIDE[joint]),
+		}));
 	};
 
 	const handleAddMmtJoint = () => {
 		if (!selectedMmtJoint || !formData.mmt?.[selectedMmtJoint]) {
-			setFormData(prev => {
-				const mmt = { ...(prev.mmt || {}) };
-				if (!mmt[selectedMmtJoint]) {
-					mmt[selectedMmtJoint] = ROM_HAS_SIDE[selectedMmtJoint] ? { left: {}, right: {} } : {};
-				}
-				return { ...prev, mmt };
-			});
+			setFormData(prev => ({ ...prev, mmt: addJoint(prev.mmt, selectedMmtJoint, ROM_HAS_SIDE[selectedMmtJoint]) }));
 		}
 		setSelectedMmtJoint('');
 	};
@@ -1245,10 +1242,15 @@ export default function EditReport() {
 	const handleSave = async () => {
 		if (!selectedPatient?.id || saving) return;
 		if (!selectedPatient) return; // Additional null check for TypeScript
+		if (isReportSigned(selectedPatient)) {
+			alert('This report has been signed and is locked. Add an addendum, or start the report for the next session.');
+			return;
+		}
 
 		setSaving(true);
 		try {
 			const patientRef = doc(db, 'patients', selectedPatient.id);
+			const episodeId = await ensureCurrentEpisode(selectedPatient.id, user?.displayName || user?.email || 'Unknown');
 			const consultationDate = formData.dateOfConsultation || selectedPatient.dateOfConsultation;
 			const totalSessionsValue =
 				typeof formData.totalSessionsRequired === 'number'
@@ -1371,6 +1373,9 @@ export default function EditReport() {
 					}
 					return null;
 				})(),
+				reportUpdatedBy: user?.displayName || user?.email || 'Unknown',
+				reportUpdatedById: user?.uid || '',
+				...getDraftReportFields(selectedPatient),
 				updatedAt: serverTimestamp(),
 			};
 
@@ -1461,80 +1466,28 @@ export default function EditReport() {
 				!(typeof val === 'object' && Object.keys(val).length === 0)
 			);
 
-			// Create report snapshot if there's existing report data
+			// Create report snapshot if there's existing report data; the server allocates its number
 			if (hasReportData) {
 				try {
-					// Get the latest report number for this patient
-					const versionsQuery = query(
-						collection(db, 'reportVersions'),
-						where('patientId', '==', selectedPatient.patientId),
-						orderBy('version', 'desc')
-					);
-					const versionsSnapshot = await getDocs(versionsQuery);
-					const nextVersion = versionsSnapshot.docs.length > 0 
-						? (versionsSnapshot.docs[0].data().version as number) + 1 
-						: 1;
-
-					// Save report snapshot (remove undefined values for Firestore)
-					await addDoc(collection(db, 'reportVersions'), {
+					await requestReportVersion({
 						patientId: selectedPatient.patientId,
 						patientName: selectedPatient.name,
-						version: nextVersion,
 						reportData: removeUndefined(currentReportData),
-						createdBy: user?.displayName || user?.email || 'Unknown',
-						createdById: user?.uid || '',
-						createdAt: serverTimestamp(),
+						episodeId,
+						authoredBy: selectedPatient.reportUpdatedBy || null,
 					});
-				} catch (versionError: any) {
-					// If orderBy fails (missing index), try without it
-					if (versionError.code === 'failed-precondition' || versionError.message?.includes('index')) {
-						console.warn('Report version index not found, retrying without orderBy', versionError);
-						try {
-							// Retry query without orderBy
-							const versionsQueryWithoutOrder = query(
-								collection(db, 'reportVersions'),
-								where('patientId', '==', selectedPatient.patientId)
-							);
-							const versionsSnapshot = await getDocs(versionsQueryWithoutOrder);
-							
-							// Manually sort by version number
-							const versions = versionsSnapshot.docs.map(doc => ({
-								id: doc.id,
-								version: (doc.data().version as number) || 0,
-								data: doc.data(),
-							}));
-							versions.sort((a, b) => b.version - a.version);
-							
-							const nextVersion = versions.length > 0 
-								? versions[0].version + 1 
-								: 1;
-
-							// Save report snapshot
-							await addDoc(collection(db, 'reportVersions'), {
-								patientId: selectedPatient.patientId,
-								patientName: selectedPatient.name,
-								version: nextVersion,
-								reportData: removeUndefined(currentReportData),
-								createdBy: user?.displayName || user?.email || 'Unknown',
-								createdById: user?.uid || '',
-								createdAt: serverTimestamp(),
-							});
-						} catch (retryError: any) {
-							console.error('Failed to save report version even with fallback:', retryError);
-							// Still continue - don't block the main save operation
-						}
-					} else {
-						console.error('Failed to save report version:', versionError);
-						// Still continue - don't block the main save operation
-					}
+				} catch (versionError) {
+					console.error('Failed to save report version:', versionError);
+					// Still continue - don't block the main save operation
 				}
 			}
 
 			// Update the patient document with new report data
 			await updateDoc(patientRef, reportData);
+			await saveEpisodeReport(episodeId, reportData, { sessionCompleted });
 
 			// Update selectedPatient state to reflect the new data
-			setSelectedPatient(prev => prev ? { ...prev, ...reportData } : null);
+			setSelectedPatient(prev => prev ? { ...prev, ...reportData, currentEpisodeId: episodeId } : null);
 			setPatients(prev =>
 				prev.map(p => (p.id === selectedPatient.id ? { ...p, ...reportData } : p))
 			);
@@ -1626,6 +1579,7 @@ export default function EditReport() {
 						createdAt: createdAt ? createdAt.toISOString() : new Date().toISOString(),
 						createdBy: (data.createdBy as string) || 'Unknown',
 						data: (data.reportData as Partial<PatientRecordFull>) || {},
+						signedBy: (data.signedBy as string | undefined) || null,
 					};
 				});
 			setVersionHistory(versions);
@@ -1801,6 +1755,7 @@ export default function EditReport() {
 			paymentDescription: (patient as any).paymentDescription ?? '',
 			packageAmount: (patient as any).packageAmount ? String((patient as any).packageAmount) : '',
 			concessionPercent: (patient as any).concessionPercent != null ? String((patient as any).concessionPercent) : '',
+			serviceType: '',
 		});
 		setPackageFormErrors({});
 		setShowPackageModal(true);
@@ -1837,6 +1792,7 @@ export default function EditReport() {
 		doctor: string;
 		date: string;
 		time: string;
+		recurringSeriesId?: string;
 	}) => {
 		setRescheduleAppointment(appointment);
 		setShowRescheduleDialog(true);
@@ -1868,15 +1824,28 @@ export default function EditReport() {
 		setRescheduleAppointment(null);
 	};
 
-	const handleConfirmReschedule = async (newDate: string, newTime: string) => {
+	const handleConfirmReschedule = async (newDate: string, newTime: string, scope: SeriesEditScope) => {
 		if (!rescheduleAppointment) return;
 
 		try {
+			if (scope === 'following') {
+				const result = await rescheduleSeriesFrom(rescheduleAppointment, newDate, newTime);
+				alert(
+					result.skipped.length > 0
+						? `Moved ${result.updated.length} appointment(s). These could not be moved and were left unchanged:\n` +
+								result.skipped.map(item => `${item.date}: ${item.reason}`).join('\n')
+						: `Rescheduled ${result.updated.length} appointment(s) in the series.`
+				);
+				void offerSlotsToWaitlist(result.released);
+				return;
+			}
+
 			const appointmentRef = doc(db, 'appointments', rescheduleAppointment.id);
 			await updateDoc(appointmentRef, {
 				date: newDate,
 				time: newTime,
 			});
+			void offerSlotsToWaitlist([rescheduleAppointment]);
 			alert('Appointment rescheduled successfully.');
 		} catch (error) {
 			console.error('Failed to reschedule appointment:', error);
@@ -2304,6 +2273,8 @@ export default function EditReport() {
 					doctor: '', // Will be assigned later
 					date: '', // Will be scheduled later
 					time: '', // Will be scheduled later
+					duration: resolveAppointmentDuration({ serviceType: packageForm.serviceType }),
+					serviceType: packageForm.serviceType || null,
 					status: 'pending',
 					notes: null,
 					isConsultation: false,
@@ -2468,6 +2439,7 @@ export default function EditReport() {
 								packageCategory: data.packageCategory ? String(data.packageCategory) : undefined,
 								duration: typeof data.duration === 'number' ? data.duration : undefined,
 								transferredFrom: data.transferredFrom ? String(data.transferredFrom) : undefined,
+								recurringSeriesId: data.recurringSeriesId ? String(data.recurringSeriesId) : undefined,
 							};
 						});
 
@@ -2596,6 +2568,10 @@ export default function EditReport() {
 	};
 
 	const handleDeleteVersion = async (version: typeof versionHistory[0]) => {
+		if (version.signedBy) {
+			alert(`Report #${version.version} was signed by ${version.signedBy} and cannot be deleted. Add an addendum to correct it.`);
+			return;
+		}
 		if (!confirm(`Are you sure you want to delete Report #${version.version}? This action cannot be undone.`)) {
 			return;
 		}
@@ -2618,6 +2594,10 @@ export default function EditReport() {
 		if (!selectedPatient?.id || !confirm(`Are you sure you want to load Report #${version.version}? This will replace the current report data and save the current state as a new report.`)) {
 			return;
 		}
+		if (isReportSigned(selectedPatient)) {
+			alert('This report has been signed and is locked. Start the report for the next session before loading an earlier report.');
+			return;
+		}
 
 		setSaving(true);
 		try {
@@ -2709,24 +2689,12 @@ export default function EditReport() {
 
 			// Save current state as report before loading previous report
 			if (hasCurrentData) {
-				const versionsQuery = query(
-					collection(db, 'reportVersions'),
-					where('patientId', '==', selectedPatient.patientId),
-					orderBy('version', 'desc')
-				);
-				const versionsSnapshot = await getDocs(versionsQuery);
-				const nextVersion = versionsSnapshot.docs.length > 0 
-					? (versionsSnapshot.docs[0].data().version as number) + 1 
-					: 1;
-
-				await addDoc(collection(db, 'reportVersions'), {
+				await requestReportVersion({
 					patientId: selectedPatient.patientId,
 					patientName: selectedPatient.name,
-					version: nextVersion,
 					reportData: removeUndefined(currentReportData),
-					createdBy: user?.displayName || user?.email || 'Unknown',
-					createdById: user?.uid || '',
-					createdAt: serverTimestamp(),
+					episodeId: selectedPatient.currentEpisodeId || null,
+					authoredBy: selectedPatient.reportUpdatedBy || null,
 					restoredFrom: version.version, // Track that this was created from a restore
 				});
 			}
@@ -2737,9 +2705,15 @@ export default function EditReport() {
 			// Update the patient document with restored data
 			const reportData: Record<string, any> = {
 				...version.data,
+				reportUpdatedBy: user?.displayName || user?.email || 'Unknown',
+				reportUpdatedById: user?.uid || '',
+				...getDraftReportFields(selectedPatient),
 				updatedAt: serverTimestamp(),
 			};
 			await updateDoc(patientRef, reportData);
+			if (selectedPatient.currentEpisodeId) {
+				await saveEpisodeReport(selectedPatient.currentEpisodeId, reportData);
+			}
 
 			// Update selectedPatient state
 			setSelectedPatient(prev => prev ? { ...prev, ...reportData } : null);
@@ -2774,7 +2748,7 @@ export default function EditReport() {
 		return label;
 	};
 
-	const renderRomTable = (joint: string, data: any) => {
+	const renderRomTable = (joint: string, data: JointRecord | undefined) => {
 		if (!ROM_HAS_SIDE[joint] && joint !== 'Neck') {
 			return (
 				<div key={joint} className="relative mb-6 rounded-lg border border-slate-200 bg-slate-50 p-4">
@@ -2800,11 +2774,12 @@ export default function EditReport() {
 									<td className="px-3 py-2 text-slate-700">{motion}</td>
 									<td className="px-3 py-2">
 										<input
-											type="text"
-											value={data?.[motion] || ''}
+											type="number"
+											step="1"
+											value={parseDegrees(data?.[motion]) ?? ''}
 											onChange={e => handleRomChange(joint, motion, 'none', e.target.value)}
 											className="w-full rounded-md border border-slate-300 bg-white px-2 py-1 text-xs text-slate-800 focus:outline-none focus:ring-2 focus:ring-sky-500"
-											placeholder="Enter value"
+											placeholder="Degrees"
 											style={{ color: '#1e293b' }}
 										/>
 									</td>
@@ -2846,11 +2821,12 @@ export default function EditReport() {
 											<td className="px-3 py-2 text-slate-700">{motion}</td>
 											<td className="px-3 py-2">
 												<input
-													type="text"
-													value={data?.[side]?.[baseMotion] || ''}
+													type="number"
+													step="1"
+													value={parseDegrees(data?.[side]?.[baseMotion]) ?? ''}
 													onChange={e => handleRomChange(joint, baseMotion, side, e.target.value)}
 													className="w-full rounded-md border border-slate-300 bg-white px-2 py-1 text-xs text-slate-800"
-													placeholder="Enter value"
+													placeholder="Degrees"
 												/>
 											</td>
 										</tr>
@@ -2861,11 +2837,12 @@ export default function EditReport() {
 											<td className="px-3 py-2 text-slate-700">{motion}</td>
 											<td className="px-3 py-2">
 												<input
-													type="text"
-													value={data?.[motion] || ''}
+													type="number"
+													step="1"
+													value={parseDegrees(data?.[motion]) ?? ''}
 													onChange={e => handleRomChange(joint, motion, 'none', e.target.value)}
 													className="w-full rounded-md border border-slate-300 bg-white px-2 py-1 text-xs text-slate-800"
-													placeholder="Enter value"
+													placeholder="Degrees"
 												/>
 											</td>
 										</tr>
@@ -2912,22 +2889,24 @@ export default function EditReport() {
 								<td className="px-3 py-2 text-slate-700">{motion}</td>
 								<td className="px-3 py-2">
 									<input
-										type="text"
-										value={data?.left?.[motion] || ''}
+										type="number"
+										step="1"
+										value={parseDegrees(data?.left?.[motion]) ?? ''}
 										onChange={e => handleRomChange(joint, motion, 'left', e.target.value)}
 										className="w-full rounded-md border border-slate-300 bg-white px-2 py-1 text-xs text-slate-800 focus:outline-none focus:ring-2 focus:ring-sky-500"
-										placeholder="Left"
+										placeholder="Left °"
 										style={{ color: '#1e293b' }}
 									/>
 								</td>
 								<td className="px-3 py-2 text-slate-700">{motion}</td>
 								<td className="px-3 py-2">
 									<input
-										type="text"
-										value={data?.right?.[motion] || ''}
+										type="number"
+										step="1"
+										value={parseDegrees(data?.right?.[motion]) ?? ''}
 										onChange={e => handleRomChange(joint, motion, 'right', e.target.value)}
 										className="w-full rounded-md border border-slate-300 bg-white px-2 py-1 text-xs text-slate-800 focus:outline-none focus:ring-2 focus:ring-sky-500"
-										placeholder="Right"
+										placeholder="Right °"
 										style={{ color: '#1e293b' }}
 									/>
 								</td>
@@ -2939,7 +2918,7 @@ export default function EditReport() {
 		);
 	};
 
-	const renderMmtTable = (joint: string, data: any) => {
+	const renderMmtTable = (joint: string, data: JointRecord | undefined) => {
 		const motions = ROM_MOTIONS[joint] || [];
 
 		if (!ROM_HAS_SIDE[joint]) {
@@ -2968,14 +2947,19 @@ export default function EditReport() {
 									<tr key={motion}>
 										<td className="px-3 py-2 text-slate-700">{label}</td>
 										<td className="px-3 py-2">
-											<input
-												type="text"
-												value={data?.[motion] || ''}
+											<select
+												value={parseOxfordGrade(data?.[motion]) ?? ''}
 												onChange={e => handleMmtChange(joint, motion, 'none', e.target.value)}
 												className="w-full rounded-md border border-slate-300 bg-white px-2 py-1 text-xs text-slate-800 focus:outline-none focus:ring-2 focus:ring-sky-500"
-												placeholder="Grade"
 												style={{ color: '#1e293b' }}
-											/>
+											>
+												<option value="">Grade</option>
+												{OXFORD_GRADES.map(grade => (
+													<option key={grade.value} value={grade.value}>
+														{grade.label}
+													</option>
+												))}
+											</select>
 										</td>
 									</tr>
 								);
@@ -3021,23 +3005,33 @@ export default function EditReport() {
 								<tr key={motion}>
 									<td className="px-3 py-2 text-slate-700">{label}</td>
 									<td className="px-3 py-2">
-										<input
-											type="text"
-											value={data?.left?.[motion] || ''}
+										<select
+											value={parseOxfordGrade(data?.left?.[motion]) ?? ''}
 											onChange={e => handleMmtChange(joint, motion, 'left', e.target.value)}
 											className="w-full rounded-md border border-slate-300 bg-white px-2 py-1 text-xs text-slate-800"
-											placeholder="Grade"
-										/>
+										>
+											<option value="">Grade</option>
+											{OXFORD_GRADES.map(grade => (
+												<option key={grade.value} value={grade.value}>
+													{grade.label}
+												</option>
+											))}
+										</select>
 									</td>
 									<td className="px-3 py-2 text-slate-700">{label}</td>
 									<td className="px-3 py-2">
-										<input
-											type="text"
-											value={data?.right?.[motion] || ''}
+										<select
+											value={parseOxfordGrade(data?.right?.[motion]) ?? ''}
 											onChange={e => handleMmtChange(joint, motion, 'right', e.target.value)}
 											className="w-full rounded-md border border-slate-300 bg-white px-2 py-1 text-xs text-slate-800"
-											placeholder="Grade"
-										/>
+										>
+											<option value="">Grade</option>
+											{OXFORD_GRADES.map(grade => (
+												<option key={grade.value} value={grade.value}>
+													{grade.label}
+												</option>
+											))}
+										</select>
 									</td>
 								</tr>
 							);
@@ -3312,6 +3306,7 @@ export default function EditReport() {
 															packageCategory?: string;
 															duration?: number;
 															transferredFrom?: string;
+															recurringSeriesId?: string;
 														}> = !hasLoaded
 															? []
 															: totalRequired != null
@@ -3605,6 +3600,7 @@ export default function EditReport() {
 																														doctor: appointment.doctor,
 																														date: appointment.date,
 																														time: appointment.time,
+																														recurringSeriesId: appointment.recurringSeriesId,
 																													});
 																												}}
 																												className="flex w-full items-center gap-2 px-4 py-2 text-left text-sm text-slate-700 transition hover:bg-amber-50 hover:text-amber-700"
@@ -3739,6 +3735,7 @@ export default function EditReport() {
 						name: s.name,
 						role: s.role,
 						availability: s.availability,
+						weeklyAvailability: s.weeklyAvailability,
 						dateSpecificAvailability: s.dateSpecificAvailability,
 					}))}
 					initialAppointment={bookingModalAppointment}
@@ -3769,6 +3766,7 @@ export default function EditReport() {
 						id: s.id,
 						name: s.name,
 						availability: s.availability,
+						weeklyAvailability: s.weeklyAvailability,
 						dateSpecificAvailability: s.dateSpecificAvailability,
 					}))}
 				/>
@@ -4109,6 +4107,13 @@ export default function EditReport() {
 											disabled={packageSubmitting}
 										/>
 									</div>
+									<div className="md:col-span-12">
+										<ServiceSelect
+											value={packageForm.serviceType}
+											onChange={serviceType => setPackageForm(prev => ({ ...prev, serviceType }))}
+											disabled={packageSubmitting}
+										/>
+									</div>
 								</div>
 
 							</div>
@@ -5110,6 +5115,7 @@ export default function EditReport() {
 							) : (
 								<p className="text-sm italic text-slate-500">No ROM joints recorded. Select a joint and click "Add Joint" to start.</p>
 							)}
+							<JointAssessmentSummary records={formData.rom} kind="rom" siteSide={formData.siteSide} />
 						</div>
 						<div className="mt-8">
 							<h4 className="mb-3 text-sm font-semibold text-slate-700">ii) Manual Muscle Testing</h4>
@@ -5162,6 +5168,7 @@ export default function EditReport() {
 									No manual muscle testing recorded. Select a joint and click "Add Joint" to begin.
 								</p>
 							)}
+							<JointAssessmentSummary records={formData.mmt} kind="mmt" siteSide={formData.siteSide} />
 						</div>
 						<div className="mt-8 grid gap-4">
 							<div>
@@ -5311,6 +5318,7 @@ export default function EditReport() {
 						</table>
 					</div>
 
+					{selectedPatient && <ReportSignOff patient={selectedPatient} patientDocId={selectedPatient.id} />}
 
 					{/* Save Button */}
 					<div className="flex items-center justify-between border-t border-slate-200 pt-6">
@@ -5378,7 +5386,7 @@ export default function EditReport() {
 								<i className="fas fa-history text-xs" aria-hidden="true" />
 								Report History
 							</button>
-							<button type="button" onClick={handleSave} className="btn-primary" disabled={saving}>
+							<button type="button" onClick={handleSave} className="btn-primary" disabled={saving || isReportSigned(selectedPatient)}>
 								<i className="fas fa-save text-xs" aria-hidden="true" />
 								{saving ? 'Saving...' : 'Save Report'}
 							</button>
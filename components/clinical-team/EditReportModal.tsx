@@ -8,12 +8,31 @@ import { useAuth } from '@/contexts/AuthContext';
 import { generatePhysiotherapyReportPDF, generateStrengthConditioningPDF, generatePsychologyPDF, type StrengthConditioningData, type PsychologyReportPDFData, type ReportSection } from '@/lib/pdfGenerator';
 import type { PatientRecordFull } from '@/lib/types';
 import { recordSessionUsageForAppointment } from '@/lib/sessionAllowanceClient';
-import { createDYESBilling } from '@/lib/dyesBilling';
+import { billCompletedSession } from '@/lib/billingPoliciesClient';
 import { getHeaderConfig, getDefaultHeaderConfig } from '@/lib/headerConfig';
 import type { HeaderConfig } from '@/components/admin/HeaderManagement';
 import ExerciseLibrarySelector from '@/components/clinical-team/ExerciseLibrarySelector';
 import SpecialTestsLibrarySelector from '@/components/clinical-team/SpecialTestsLibrarySelector';
 import PsychologyReport from '@/components/clinical-team/PsychologyReport';
+import EpisodeSelector from '@/components/clinical-team/EpisodeSelector';
+import { usePatientEpisodes } from '@/hooks/usePatientEpisodes';
+import { getEpisodeLabel, isVersionInEpisode } from '@/lib/episodes';
+import { ensureCurrentEpisode, saveEpisodeReport } from '@/lib/episodesClient';
+import { requestReportVersion } from '@/lib/reportVersionsClient';
+import ReportVersionCompare from '@/components/clinical-team/ReportVersionCompare';
+import ReportSignOff from '@/components/clinical-team/ReportSignOff';
+import OutcomeMeasuresPanel from '@/components/clinical-team/OutcomeMeasuresPanel';
+import JointAssessmentSummary from '@/components/clinical-team/JointAssessmentSummary';
+import {
+	OXFORD_GRADES,
+	addJoint,
+	parseDegrees,
+	parseOxfordGrade,
+	setJointValue,
+	type JointRecord,
+} from '@/lib/romMmt';
+import { useReportAddenda } from '@/hooks/useReportAddenda';
+import { getDraftReportFields, isReportSigned } from '@/lib/reportSignoff';
 
 // Constants
 const VAS_EMOJIS = ['😀','😁','🙂','😊','😌','😟','😣','😢','😭','😱'];
@@ -228,25 +247,23 @@ async function markAppointmentCompletedForReport(
 				console.error('Failed to record session usage after report save', sessionError);
 			}
 
-			// Automatically create billing for DYES patients
-			const patientType = (patient.patientType || '').toUpperCase();
-			if (patientType === 'DYES' || patientType === 'DYES') {
-				try {
-					const appointmentData = appointmentDoc.data();
-					await createDYESBilling({
-						appointmentId: appointmentData.appointmentId || appointmentDoc.id,
-						appointmentDocId: appointmentDoc.id,
-						patientId: patient.patientId,
-						patientName: patient.name || '',
-						doctorName: appointmentData.doctor || '',
-						appointmentDate: appointmentData.date || reportDate || '',
-						createdByUserId: null,
-						createdByUserName: null,
-						isExtraTreatment: isExtraTreatment || false,
-					});
-				} catch (billingError) {
-					console.error('Failed to create automatic DYES billing:', billingError);
-				}
+			// Organisations billed on completion (free within a cap, auto-paid, sponsored) get their bill now
+			try {
+				const appointmentData = appointmentDoc.data();
+				await billCompletedSession({
+					patientType: patient.patientType,
+					appointmentId: appointmentData.appointmentId || appointmentDoc.id,
+					appointmentDocId: appointmentDoc.id,
+					patientId: patient.patientId,
+					patientName: patient.name || '',
+					doctorName: appointmentData.doctor || '',
+					appointmentDate: appointmentData.date || reportDate || '',
+					createdByUserId: null,
+					createdByUserName: null,
+					isExtraTreatment: isExtraTreatment || false,
+				});
+			} catch (billingError) {
+				console.error('Failed to bill completed session:', billingError);
 			}
 		}
 
@@ -265,7 +282,7 @@ async function markAppointmentCompletedForReport(
 			
 			// Check if all appointments are completed or cancelled
 			const allCompleted = allAppointments.every((apt: any) => 
-				apt.status === 'completed' || apt.status === 'cancelled'
+				apt.status === 'completed' || apt.status === 'cancelled' || apt.status === 'no-show'
 			);
 			
 			if (allCompleted && patient.status !== 'completed' && patient.id) {
@@ -529,7 +546,10 @@ export default function EditReportModal({ isOpen, patientId, initialTab = 'repor
 		data: Partial<PatientRecordFull> | StrengthConditioningData | any;
 		isStrengthConditioning?: boolean;
 		isPsychology?: boolean;
+		authoredBy?: string | null;
+		signedBy?: string | null;
 	}>>([]);
+	const [comparingVersions, setComparingVersions] = useState(false);
 	const [loadingVersions, setLoadingVersions] = useState(false);
 	const [viewingVersionData, setViewingVersionData] = useState<Partial<PatientRecordFull> | StrengthConditioningData | null>(null);
 	const [viewingVersionIsStrengthConditioning, setViewingVersionIsStrengthConditioning] = useState(false);
@@ -542,6 +562,8 @@ export default function EditReportModal({ isOpen, patientId, initialTab = 'repor
 	const [hasPhysiotherapyVersions, setHasPhysiotherapyVersions] = useState(false);
 	const [hasStrengthConditioningVersions, setHasStrengthConditioningVersions] = useState(false);
 	const [isExtraTreatment, setIsExtraTreatment] = useState(false);
+	const { episodes } = usePatientEpisodes(isOpen ? reportPatientData?.patientId : null);
+	const currentEpisode = episodes.find(episode => episode.id === reportPatientData?.currentEpisodeId) ?? null;
 	
 	// Crisp report state
 	const [showCrispReportModal, setShowCrispReportModal] = useState(false);
@@ -830,6 +852,13 @@ export default function EditReportModal({ isOpen, patientId, initialTab = 'repor
 										setFormData(adjustedData);
 										setIsPhysioNameEditable(false);
 									}
+								} else {
+									// Keep the sign-off state current while the report is being edited
+									setReportPatientData((prev: PatientRecordFull | null) =>
+										prev
+											? { ...prev, reportStatus: patientData.reportStatus, reportDraftSince: patientData.reportDraftSince, reportSignature: patientData.reportSignature }
+											: prev
+									);
 								}
 							} else {
 								setReportPatientData(null);
@@ -1246,6 +1275,9 @@ export default function EditReportModal({ isOpen, patientId, initialTab = 'repor
 
 	// Handle PDF download for report
 	// Helper function to build report data
+	const reportLocked = isReportSigned(reportPatientData);
+	const { addenda: reportAddenda } = useReportAddenda(reportLocked ? reportPatientData?.reportSignature?.versionId : null);
+
 	const buildReportData = () => {
 		// Use formData if editable and not viewing a version, otherwise use reportPatientData
 		const displayData = (editable && Object.keys(formData).length > 0 && !viewingVersionData) ? { ...reportPatientData, ...formData } : reportPatientData;
@@ -1317,71 +1349,43 @@ export default function EditReportModal({ isOpen, patientId, initialTab = 'repor
 			complianceWithHEP: displayData.complianceWithHEP || '',
 			physioName: displayData.physioName || '',
 			patientType: displayData.patientType || '',
+			episode: currentEpisode ? getEpisodeLabel(currentEpisode) : '',
+			...(reportLocked && !viewingVersionData && reportPatientData?.reportSignature
+				? {
+						signedBy: reportPatientData.reportSignature.signedBy,
+						signedAt: reportPatientData.reportSignature.signedAt,
+						addenda: reportAddenda.map(addendum => ({ text: addendum.text, addedBy: addendum.addedBy, addedAt: addendum.addedAt })),
+					}
+				: {}),
 		};
 	};
 
 	const handleRomChange = (joint: string, motion: string, side: 'left' | 'right' | 'none', value: string) => {
-		setFormData(prev => {
-			const rom = { ...(prev.rom || {}) };
-			if (!rom[joint]) {
-				rom[joint] = ROM_HAS_SIDE[joint] ? { left: {}, right: {} } : {};
-			}
-
-			if (side === 'none') {
-				rom[joint][motion] = value;
-			} else {
-				if (!rom[joint][side]) {
-					rom[joint][side] = {};
-				}
-				rom[joint][side][motion] = value;
-			}
-
-			return { ...prev, rom };
-		});
+		const stored = value === '' ? '' : Number(value); // Degrees
+		setFormData(prev => ({
+			...prev,
+			rom: setJointValue(prev.rom, joint, motion, side === 'none' ? null : side, stored, ROM_HAS_SIDE[joint]),
+		}));
 	};
 
 	const handleAddRomJoint = () => {
 		if (!selectedRomJoint || !formData.rom?.[selectedRomJoint]) {
-			setFormData(prev => {
-				const rom = { ...(prev.rom || {}) };
-				if (!rom[selectedRomJoint]) {
-					rom[selectedRomJoint] = ROM_HAS_SIDE[selectedRomJoint] ? { left: {}, right: {} } : {};
-				}
-				return { ...prev, rom };
-			});
+			setFormData(prev => ({ ...prev, rom: addJoint(prev.rom, selectedRomJoint, ROM_HAS_SIDE[selectedRomJoint]) }));
 		}
 		setSelectedRomJoint('');
 	};
 
 	const handleMmtChange = (joint: string, motion: string, side: 'left' | 'right' | 'none', value: string) => {
-		setFormData(prev => {
-			const mmt = { ...(prev.mmt || {}) };
-			if (!mmt[joint]) {
-				mmt[joint] = ROM_HAS_SIDE[joint] ? { left: {}, right: {} } : {};
-			}
-
-			if (side === 'none') {
-				mmt[joint][motion] = value;
-			} else {
-				if (!mmt[joint][side]) {
-					mmt[joint][side] = {};
-				}
-				mmt[joint][side][motion] = value;
-			}
-
-			return { ...prev, mmt };
-		});
+		const stored = value === '' ? '' : Number(value); // Oxford grade 0-5
+		setFormData(prev => ({
+			...prev,
+			mmt: setJointValue(prev.mmt, joint, motion, side === 'none' ? null : side, stored, ROM_HAS_SIDE[joint]),
+		}));
 	};
 
 	const handleAddMmtJoint = () => {
 		if (!selectedMmtJoint || !formData.mmt?.[selectedMmtJoint]) {
-			setFormData(prev => {
-				const mmt = { ...(prev.mmt || {}) };
-				if (!mmt[selectedMmtJoint]) {
-					mmt[selectedMmtJoint] = ROM_HAS_SIDE[selectedMmtJoint] ? { left: {}, right: {} } : {};
-				}
-				return { ...prev, mmt };
-			});
+			setFormData(prev => ({ ...prev, mmt: addJoint(prev.mmt, selectedMmtJoint, ROM_HAS_SIDE[selectedMmtJoint]) }));
 		}
 		setSelectedMmtJoint('');
 	};
@@ -1498,7 +1502,7 @@ export default function EditReportModal({ isOpen, patientId, initialTab = 'repor
 		return label;
 	};
 
-	const renderRomTable = (joint: string, data: any) => {
+	const renderRomTable = (joint: string, data: JointRecord | undefined) => {
 		if (!ROM_HAS_SIDE[joint] && joint !== 'Neck') {
 			return (
 				<div key={joint} className="relative mb-6 rounded-lg border border-slate-200 bg-slate-50 p-4">
@@ -1524,11 +1528,12 @@ export default function EditReportModal({ isOpen, patientId, initialTab = 'repor
 									<td className="px-3 py-2 text-slate-700">{motion}</td>
 									<td className="px-3 py-2">
 										<input
-											type="text"
-											value={data?.[motion] || ''}
+											type="number"
+											step="1"
+											value={parseDegrees(data?.[motion]) ?? ''}
 											onChange={e => handleRomChange(joint, motion, 'none', e.target.value)}
 											className="w-full rounded-md border border-slate-300 bg-white px-2 py-1 text-xs text-slate-800 focus:outline-none focus:ring-2 focus:ring-sky-500"
-											placeholder="Enter value"
+											placeholder="Degrees"
 											style={{ color: '#1e293b' }}
 										/>
 									</td>
@@ -1569,11 +1574,12 @@ export default function EditReportModal({ isOpen, patientId, initialTab = 'repor
 											<td className="px-3 py-2 text-slate-700">{motion}</td>
 											<td className="px-3 py-2">
 												<input
-													type="text"
-													value={data?.[side]?.[baseMotion] || ''}
+													type="number"
+													step="1"
+													value={parseDegrees(data?.[side]?.[baseMotion]) ?? ''}
 													onChange={e => handleRomChange(joint, baseMotion, side, e.target.value)}
 													className="w-full rounded-md border border-slate-300 bg-white px-2 py-1 text-xs text-slate-800 focus:outline-none focus:ring-2 focus:ring-sky-500"
-													placeholder="Enter value"
+													placeholder="Degrees"
 												/>
 											</td>
 										</tr>
@@ -1584,11 +1590,12 @@ export default function EditReportModal({ isOpen, patientId, initialTab = 'repor
 											<td className="px-3 py-2 text-slate-700">{motion}</td>
 											<td className="px-3 py-2">
 												<input
-													type="text"
-													value={data?.[motion] || ''}
+													type="number"
+													step="1"
+													value={parseDegrees(data?.[motion]) ?? ''}
 													onChange={e => handleRomChange(joint, motion, 'none', e.target.value)}
 													className="w-full rounded-md border border-slate-300 bg-white px-2 py-1 text-xs text-slate-800 focus:outline-none focus:ring-2 focus:ring-sky-500"
-													placeholder="Enter value"
+													placeholder="Degrees"
 												/>
 											</td>
 										</tr>
@@ -1635,22 +1642,24 @@ export default function EditReportModal({ isOpen, patientId, initialTab = 'repor
 								<td className="px-3 py-2 text-slate-700">{motion}</td>
 								<td className="px-3 py-2">
 									<input
-										type="text"
-										value={data?.left?.[motion] || ''}
+										type="number"
+										step="1"
+										value={parseDegrees(data?.left?.[motion]) ?? ''}
 										onChange={e => handleRomChange(joint, motion, 'left', e.target.value)}
 										className="w-full rounded-md border border-slate-300 bg-white px-2 py-1 text-xs text-slate-800 focus:outline-none focus:ring-2 focus:ring-sky-500"
-										placeholder="Left"
+										placeholder="Left °"
 										style={{ color: '#1e293b' }}
 									/>
 								</td>
 								<td className="px-3 py-2 text-slate-700">{motion}</td>
 								<td className="px-3 py-2">
 									<input
-										type="text"
-										value={data?.right?.[motion] || ''}
+										type="number"
+										step="1"
+										value={parseDegrees(data?.right?.[motion]) ?? ''}
 										onChange={e => handleRomChange(joint, motion, 'right', e.target.value)}
 										className="w-full rounded-md border border-slate-300 bg-white px-2 py-1 text-xs text-slate-800 focus:outline-none focus:ring-2 focus:ring-sky-500"
-										placeholder="Right"
+										placeholder="Right °"
 										style={{ color: '#1e293b' }}
 									/>
 								</td>
@@ -1662,7 +1671,7 @@ export default function EditReportModal({ isOpen, patientId, initialTab = 'repor
 		);
 	};
 
-	const renderMmtTable = (joint: string, data: any) => {
+	const renderMmtTable = (joint: string, data: JointRecord | undefined) => {
 		const motions = ROM_MOTIONS[joint] || [];
 
 		if (!ROM_HAS_SIDE[joint]) {
@@ -1691,14 +1700,19 @@ export default function EditReportModal({ isOpen, patientId, initialTab = 'repor
 									<tr key={motion}>
 										<td className="px-3 py-2 text-slate-700">{label}</td>
 										<td className="px-3 py-2">
-											<input
-												type="text"
-												value={data?.[motion] || ''}
+											<select
+												value={parseOxfordGrade(data?.[motion]) ?? ''}
 												onChange={e => handleMmtChange(joint, motion, 'none', e.target.value)}
 												className="w-full rounded-md border border-slate-300 bg-white px-2 py-1 text-xs text-slate-800 focus:outline-none focus:ring-2 focus:ring-sky-500"
-												placeholder="Grade"
 												style={{ color: '#1e293b' }}
-											/>
+											>
+												<option value="">Grade</option>
+												{OXFORD_GRADES.map(grade => (
+													<option key={grade.value} value={grade.value}>
+														{grade.label}
+													</option>
+												))}
+											</select>
 										</td>
 									</tr>
 								);
@@ -1744,23 +1758,33 @@ export default function EditReportModal({ isOpen, patientId, initialTab = 'repor
 								<tr key={motion}>
 									<td className="px-3 py-2 text-slate-700">{label}</td>
 									<td className="px-3 py-2">
-										<input
-											type="text"
-											value={data?.left?.[motion] || ''}
+										<select
+											value={parseOxfordGrade(data?.left?.[motion]) ?? ''}
 											onChange={e => handleMmtChange(joint, motion, 'left', e.target.value)}
 											className="w-full rounded-md border border-slate-300 bg-white px-2 py-1 text-xs text-slate-800 focus:outline-none focus:ring-2 focus:ring-sky-500"
-											placeholder="Grade"
-										/>
+										>
+											<option value="">Grade</option>
+											{OXFORD_GRADES.map(grade => (
+												<option key={grade.value} value={grade.value}>
+													{grade.label}
+												</option>
+											))}
+										</select>
 									</td>
 									<td className="px-3 py-2 text-slate-700">{label}</td>
 									<td className="px-3 py-2">
-										<input
-											type="text"
-											value={data?.right?.[motion] || ''}
+										<select
+											value={parseOxfordGrade(data?.right?.[motion]) ?? ''}
 											onChange={e => handleMmtChange(joint, motion, 'right', e.target.value)}
 											className="w-full rounded-md border border-slate-300 bg-white px-2 py-1 text-xs text-slate-800 focus:outline-none focus:ring-2 focus:ring-sky-500"
-											placeholder="Grade"
-										/>
+										>
+											<option value="">Grade</option>
+											{OXFORD_GRADES.map(grade => (
+												<option key={grade.value} value={grade.value}>
+													{grade.label}
+												</option>
+											))}
+										</select>
 									</td>
 								</tr>
 							);
@@ -2354,6 +2378,10 @@ export default function EditReportModal({ isOpen, patientId, initialTab = 'repor
 			console.log('Save blocked:', { editable, hasReportData: !!reportPatientData, saving, patientId });
 			return;
 		}
+		if (reportLocked) {
+			alert('This report has been signed and is locked. Add an addendum, or start the report for the next session.');
+			return;
+		}
 
 		setSaving(true);
 		try {
@@ -2370,6 +2398,7 @@ export default function EditReportModal({ isOpen, patientId, initialTab = 'repor
 				setPatientDocId(patientDocIdToUse); // Store it for future use
 			}
 			const patientRef = doc(db, 'patients', patientDocIdToUse);
+			const episodeId = await ensureCurrentEpisode(patientDocIdToUse, user?.displayName || user?.email || 'Unknown');
 			
 			const consultationDate = formData.dateOfConsultation || reportPatientData.dateOfConsultation;
 			const totalSessionsValue =
@@ -2498,6 +2527,9 @@ export default function EditReportModal({ isOpen, patientId, initialTab = 'repor
 					}
 					return null;
 				})(),
+				reportUpdatedBy: user?.displayName || user?.email || 'Unknown',
+				reportUpdatedById: user?.uid || '',
+				...getDraftReportFields(reportPatientData),
 				updatedAt: serverTimestamp(),
 			};
 
@@ -2589,139 +2621,25 @@ export default function EditReportModal({ isOpen, patientId, initialTab = 'repor
 
 			if (hasReportData) {
 				try {
-					// Get session number - use current session number or calculate it
-					let sessionNum = sessionNumber;
-					if (!sessionNum) {
-						const sessionInfo = await getSessionInfo(reportPatientData.patientId);
-						sessionNum = sessionInfo.sessionNumber;
-					}
-					
-					// If editing Session 1, use session 1, otherwise use calculated session number
-					if (isEditingSession1) {
-						sessionNum = 1;
-					}
-					
-					// Query only physiotherapy versions to get the next version number
-					let versionsQuery = query(
-						collection(db, 'reportVersions'),
-						where('patientId', '==', reportPatientData.patientId),
-						where('reportType', '==', 'physiotherapy'),
-						orderBy('version', 'desc')
-					);
-					let versionsSnapshot;
-					try {
-						versionsSnapshot = await getDocs(versionsQuery);
-					} catch (queryError: any) {
-						// If reportType filter fails, try without it and filter in memory
-						if (queryError.code === 'failed-precondition' || queryError.message?.includes('index')) {
-							const fallbackQuery = query(
-								collection(db, 'reportVersions'),
-								where('patientId', '==', reportPatientData.patientId),
-								orderBy('version', 'desc')
-							);
-							versionsSnapshot = await getDocs(fallbackQuery);
-							// Filter by reportType in memory
-							versionsSnapshot = {
-								...versionsSnapshot,
-								docs: versionsSnapshot.docs.filter(doc => {
-									const data = doc.data();
-									return data.reportType === 'physiotherapy' || !data.reportType;
-								})
-							} as any;
-						} else {
-							throw queryError;
-						}
-					}
-					const nextVersion = versionsSnapshot.docs.length > 0 
-						? (versionsSnapshot.docs[0].data().version as number) + 1 
-						: 1;
-
-					await addDoc(collection(db, 'reportVersions'), {
+					await requestReportVersion({
 						patientId: reportPatientData.patientId,
 						patientName: reportPatientData.name,
-						version: nextVersion,
-						sessionNumber: sessionNum, // Add session number
-						reportType: 'physiotherapy', // Add report type to distinguish from psychology
 						reportData: removeUndefined(currentReportData),
-						createdBy: user?.displayName || user?.email || 'Unknown',
-						createdById: user?.uid || '',
-						createdAt: serverTimestamp(),
+						episodeId,
+						sessionNumber: sessionNum,
+						authoredBy: reportPatientData.reportUpdatedBy || null,
 					});
 					// Update hasPhysiotherapyVersions since we just saved a version
 					setHasPhysiotherapyVersions(true);
-				} catch (versionError: any) {
-					// If orderBy fails (missing index), try without it
-					if (versionError.code === 'failed-precondition' || versionError.message?.includes('index')) {
-						console.warn('Report version index not found, retrying without orderBy', versionError);
-						try {
-							// Retry query without orderBy, but still filter by reportType
-							let versionsQueryWithoutOrder = query(
-								collection(db, 'reportVersions'),
-								where('patientId', '==', reportPatientData.patientId)
-							);
-							
-							// Try to add reportType filter
-							try {
-								versionsQueryWithoutOrder = query(versionsQueryWithoutOrder, where('reportType', '==', 'physiotherapy'));
-							} catch {
-								// If reportType filter fails, filter in memory
-							}
-							
-							const versionsSnapshot = await getDocs(versionsQueryWithoutOrder);
-							
-							// Manually sort by version number and filter by reportType if needed
-							let versions = versionsSnapshot.docs.map(doc => ({
-								id: doc.id,
-								version: (doc.data().version as number) || 0,
-								data: doc.data(),
-								reportType: doc.data().reportType as string | undefined,
-							}));
-							
-							// Filter by reportType in memory if not already filtered
-							versions = versions.filter(v => v.reportType === 'physiotherapy' || (!v.reportType && v.reportType === undefined));
-							versions.sort((a, b) => b.version - a.version);
-							
-							const nextVersion = versions.length > 0 
-								? versions[0].version + 1 
-								: 1;
-
-							// Get session number
-							let sessionNum = sessionNumber;
-							if (!sessionNum) {
-								const sessionInfo = await getSessionInfo(reportPatientData.patientId);
-								sessionNum = sessionInfo.sessionNumber;
-							}
-							if (isEditingSession1) {
-								sessionNum = 1;
-							}
-							
-							// Save report snapshot
-							await addDoc(collection(db, 'reportVersions'), {
-								patientId: reportPatientData.patientId,
-								patientName: reportPatientData.name,
-								version: nextVersion,
-								sessionNumber: sessionNum, // Add session number
-								reportType: 'physiotherapy', // Add report type to distinguish from psychology
-								reportData: removeUndefined(currentReportData),
-								createdBy: user?.displayName || user?.email || 'Unknown',
-								createdById: user?.uid || '',
-								createdAt: serverTimestamp(),
-							});
-							// Update hasPhysiotherapyVersions since we just saved a version
-							setHasPhysiotherapyVersions(true);
-						} catch (retryError: any) {
-							console.error('Failed to save report version even with fallback:', retryError);
-							// Still continue - don't block the main save operation
-						}
-					} else {
-						console.error('Failed to save report version:', versionError);
-						// Still continue - don't block the main save operation
-					}
+				} catch (versionError) {
+					console.error('Failed to save report version:', versionError);
+					// Still continue - don't block the main save operation
 				}
 			}
 
 			await updateDoc(patientRef, reportData);
-			setReportPatientData((prev: any) => prev ? { ...prev, ...reportData } : null);
+			await saveEpisodeReport(episodeId, reportData, { sessionCompleted });
+			setReportPatientData((prev: any) => prev ? { ...prev, ...reportData, currentEpisodeId: episodeId } : null);
 			
 			let sessionProgress: Partial<PatientRecordFull> | null | undefined;
 			if (sessionCompleted) {
@@ -3056,9 +2974,7 @@ export default function EditReportModal({ isOpen, patientId, initialTab = 'repor
 					setVersionHistory([]);
 					return;
 				}
-				// First, renumber versions sequentially if needed (only for physiotherapy)
-				await renumberVersionsSequentially('reportVersions', reportPatientData.patientId, 'physiotherapy');
-				
+				// Physiotherapy version numbers are allocated by the server and never renumbered
 				// Then load the renumbered versions - filter by reportType = 'physiotherapy'
 				try {
 					const versionsQuery = query(
@@ -3068,7 +2984,7 @@ export default function EditReportModal({ isOpen, patientId, initialTab = 'repor
 						orderBy('version', 'desc')
 					);
 					const versionsSnapshot = await getDocs(versionsQuery);
-					const versions = versionsSnapshot.docs.map(doc => {
+					const versions = versionsSnapshot.docs.filter(doc => isVersionInEpisode(doc.data(), currentEpisode)).map(doc => {
 						const data = doc.data();
 						const createdAt = (data.createdAt as Timestamp | undefined)?.toDate?.();
 						return {
@@ -3079,6 +2995,8 @@ export default function EditReportModal({ isOpen, patientId, initialTab = 'repor
 							data: (data.reportData as Partial<PatientRecordFull>) || {},
 							isStrengthConditioning: false,
 							isPsychology: false,
+							authoredBy: (data.authoredBy as string | undefined) || null,
+							signedBy: (data.signedBy as string | undefined) || null,
 						};
 					});
 					setVersionHistory(versions);
@@ -3086,7 +3004,6 @@ export default function EditReportModal({ isOpen, patientId, initialTab = 'repor
 					// If orderBy fails or reportType filter fails, try without reportType filter (for backward compatibility)
 					if (error.code === 'failed-precondition' || error.message?.includes('index')) {
 						try {
-							await renumberVersionsSequentially('reportVersions', reportPatientData.patientId, 'physiotherapy');
 							const versionsQuery = query(
 								collection(db, 'reportVersions'),
 								where('patientId', '==', reportPatientData.patientId)
@@ -3094,6 +3011,7 @@ export default function EditReportModal({ isOpen, patientId, initialTab = 'repor
 							const versionsSnapshot = await getDocs(versionsQuery);
 							// Filter by reportType in memory for backward compatibility
 							const versions = versionsSnapshot.docs
+								.filter(doc => isVersionInEpisode(doc.data(), currentEpisode))
 								.map(doc => {
 									const data = doc.data();
 									const createdAt = (data.createdAt as Timestamp | undefined)?.toDate?.();
@@ -3105,6 +3023,8 @@ export default function EditReportModal({ isOpen, patientId, initialTab = 'repor
 										data: (data.reportData as Partial<PatientRecordFull>) || {},
 										isStrengthConditioning: false,
 										isPsychology: false,
+										authoredBy: (data.authoredBy as string | undefined) || null,
+										signedBy: (data.signedBy as string | undefined) || null,
 										reportType: data.reportType || 'physiotherapy', // Default to physiotherapy for old records
 									};
 								})
@@ -3134,6 +3054,7 @@ export default function EditReportModal({ isOpen, patientId, initialTab = 'repor
 	const handleViewVersionHistory = async () => {
 		setShowVersionHistory(true);
 		setViewingVersionData(null);
+		setComparingVersions(false);
 		await loadVersionHistory();
 	};
 
@@ -3144,6 +3065,10 @@ export default function EditReportModal({ isOpen, patientId, initialTab = 'repor
 
 	// Handle delete version
 	const handleDeleteVersion = async (version: typeof versionHistory[0]) => {
+		if (version.signedBy) {
+			alert(`Report #${version.version} was signed by ${version.signedBy} and cannot be deleted. Add an addendum to correct it.`);
+			return;
+		}
 		if (!confirm(`Are you sure you want to delete Report #${version.version}? This action cannot be undone.`)) {
 			return;
 		}
@@ -3159,95 +3084,65 @@ export default function EditReportModal({ isOpen, patientId, initialTab = 'repor
 			const versionRef = doc(db, collectionName, version.id);
 			await deleteDoc(versionRef);
 			
-			// Get all remaining versions and renumber them sequentially
-			try {
-				let versionsQuery = query(
-					collection(db, collectionName),
-					where('patientId', '==', reportPatientData?.patientId)
-				);
-				
-				// Add reportType filter for physiotherapy reports
-				if (activeReportTab === 'report' && collectionName === 'reportVersions') {
-					try {
-						versionsQuery = query(versionsQuery, where('reportType', '==', 'physiotherapy'));
-					} catch {
-						// If reportType filter fails, filter in memory
-					}
-				}
-				
-				versionsQuery = query(versionsQuery, orderBy('version', 'asc'));
-				const versionsSnapshot = await getDocs(versionsQuery);
+			// Get all remaining versions and renumber them sequentially. Physiotherapy version numbers are
+			// allocated by the server and keep their gaps, so later versions are not renumbered.
+			if (collectionName !== 'reportVersions') {
+				try {
+					const versionsQuery = query(
+						collection(db, collectionName),
+						where('patientId', '==', reportPatientData?.patientId)
+					);
 				
-				// Filter by reportType in memory if needed (for backward compatibility)
-				let versionsToRenumber = versionsSnapshot.docs;
-				if (activeReportTab === 'report' && collectionName === 'reportVersions') {
-					versionsToRenumber = versionsSnapshot.docs.filter(docSnap => {
-						const data = docSnap.data();
-						return data.reportType === 'physiotherapy' || !data.reportType;
-					});
-				}
+					const versionsSnapshot = await getDocs(query(versionsQuery, orderBy('version', 'asc')));
+					const versionsToRenumber = versionsSnapshot.docs;
 				
-				if (versionsToRenumber.length > 0) {
-					const batch = writeBatch(db);
-					versionsToRenumber.forEach((docSnap, index) => {
-						const newVersionNumber = index + 1;
-						const currentVersion = docSnap.data().version as number;
-						if (currentVersion !== newVersionNumber) {
-							batch.update(docSnap.ref, { version: newVersionNumber });
-						}
-					});
-					await batch.commit();
-				}
-			} catch (renumberError: any) {
-				// If orderBy fails, try without it and sort manually
-				if (renumberError.code === 'failed-precondition' || renumberError.message?.includes('index')) {
-					try {
-						let versionsQuery = query(
-							collection(db, collectionName),
-							where('patientId', '==', reportPatientData?.patientId)
-						);
-						
-						// Add reportType filter for physiotherapy reports
-						if (activeReportTab === 'report' && collectionName === 'reportVersions') {
-							try {
-								versionsQuery = query(versionsQuery, where('reportType', '==', 'physiotherapy'));
-							} catch {
-								// If reportType filter fails, filter in memory
+					if (versionsToRenumber.length > 0) {
+						const batch = writeBatch(db);
+						versionsToRenumber.forEach((docSnap, index) => {
+							const newVersionNumber = index + 1;
+							const currentVersion = docSnap.data().version as number;
+							if (currentVersion !== newVersionNumber) {
+								batch.update(docSnap.ref, { version: newVersionNumber });
 							}
-						}
-						
-						const versionsSnapshot = await getDocs(versionsQuery);
-						let versions = versionsSnapshot.docs.map(docSnap => ({
-							id: docSnap.id,
-							ref: docSnap.ref,
-							version: docSnap.data().version as number,
-							reportType: docSnap.data().reportType as string | undefined,
-						}));
+						});
+						await batch.commit();
+					}
+				} catch (renumberError: any) {
+					// If orderBy fails, try without it and sort manually
+					if (renumberError.code === 'failed-precondition' || renumberError.message?.includes('index')) {
+						try {
+							const versionsQuery = query(
+								collection(db, collectionName),
+								where('patientId', '==', reportPatientData?.patientId)
+							);
 						
-						// Filter by reportType in memory if needed
-						if (activeReportTab === 'report' && collectionName === 'reportVersions') {
-							versions = versions.filter(v => v.reportType === 'physiotherapy' || !v.reportType);
-						}
+							const versionsSnapshot = await getDocs(versionsQuery);
+							const versions = versionsSnapshot.docs.map(docSnap => ({
+								id: docSnap.id,
+								ref: docSnap.ref,
+								version: docSnap.data().version as number,
+							}));
 						
-						versions.sort((a, b) => a.version - b.version);
+							versions.sort((a, b) => a.version - b.version);
 						
-						if (versions.length > 0) {
-							const batch = writeBatch(db);
-							versions.forEach((v, index) => {
-								const newVersionNumber = index + 1;
-								if (v.version !== newVersionNumber) {
-									batch.update(v.ref, { version: newVersionNumber });
-								}
-							});
-							await batch.commit();
+							if (versions.length > 0) {
+								const batch = writeBatch(db);
+								versions.forEach((v, index) => {
+									const newVersionNumber = index + 1;
+									if (v.version !== newVersionNumber) {
+										batch.update(v.ref, { version: newVersionNumber });
+									}
+								});
+								await batch.commit();
+							}
+						} catch (retryError) {
+							console.warn('Failed to renumber versions after deletion', retryError);
+							// Continue anyway - versions will still be deleted
 						}
-					} catch (retryError) {
-						console.warn('Failed to renumber versions after deletion', retryError);
+					} else {
+						console.warn('Failed to renumber versions after deletion', renumberError);
 						// Continue anyway - versions will still be deleted
 					}
-				} else {
-					console.warn('Failed to renumber versions after deletion', renumberError);
-					// Continue anyway - versions will still be deleted
 				}
 			}
 			
@@ -3337,6 +3232,11 @@ export default function EditReportModal({ isOpen, patientId, initialTab = 'repor
 			return;
 		}
 
+		if (reportLocked) {
+			alert('This report has been signed and is locked. Start the report for the next session before loading an earlier report.');
+			return;
+		}
+
 		setSaving(true);
 		try {
 			const patientRef = doc(db, 'patients', reportPatientData.id);
@@ -3428,50 +3328,12 @@ export default function EditReportModal({ isOpen, patientId, initialTab = 'repor
 
 			// Save current state as report before loading previous report (physiotherapy only)
 			if (hasCurrentData) {
-				// Query only physiotherapy versions to get the next version number
-				let versionsQuery = query(
-					collection(db, 'reportVersions'),
-					where('patientId', '==', reportPatientData.patientId),
-					where('reportType', '==', 'physiotherapy'),
-					orderBy('version', 'desc')
-				);
-				let versionsSnapshot;
-				try {
-					versionsSnapshot = await getDocs(versionsQuery);
-				} catch (queryError: any) {
-					// If reportType filter fails, try without it and filter in memory
-					if (queryError.code === 'failed-precondition' || queryError.message?.includes('index')) {
-						const fallbackQuery = query(
-							collection(db, 'reportVersions'),
-							where('patientId', '==', reportPatientData.patientId),
-							orderBy('version', 'desc')
-						);
-						versionsSnapshot = await getDocs(fallbackQuery);
-						// Filter by reportType in memory
-						versionsSnapshot = {
-							...versionsSnapshot,
-							docs: versionsSnapshot.docs.filter(doc => {
-								const data = doc.data();
-								return data.reportType === 'physiotherapy' || !data.reportType;
-							})
-						} as any;
-					} else {
-						throw queryError;
-					}
-				}
-				const nextVersion = versionsSnapshot.docs.length > 0 
-					? (versionsSnapshot.docs[0].data().version as number) + 1 
-					: 1;
-
-				await addDoc(collection(db, 'reportVersions'), {
+				await requestReportVersion({
 					patientId: reportPatientData.patientId,
 					patientName: reportPatientData.name,
-					version: nextVersion,
-					reportType: 'physiotherapy',
 					reportData: removeUndefined(currentReportData),
-					createdBy: user?.displayName || user?.email || 'Unknown',
-					createdById: user?.uid || '',
-					createdAt: serverTimestamp(),
+					episodeId: reportPatientData.currentEpisodeId || null,
+					authoredBy: reportPatientData.reportUpdatedBy || null,
 					restoredFrom: version.version, // Track that this was created from a restore
 				});
 			}
@@ -3482,9 +3344,15 @@ export default function EditReportModal({ isOpen, patientId, initialTab = 'repor
 			// Update the patient document with restored data
 			const reportData: Record<string, any> = {
 				...version.data,
+				reportUpdatedBy: user?.displayName || user?.email || 'Unknown',
+				reportUpdatedById: user?.uid || '',
+				...getDraftReportFields(reportPatientData),
 				updatedAt: serverTimestamp(),
 			};
 			await updateDoc(patientRef, reportData);
+			if (reportPatientData.currentEpisodeId) {
+				await saveEpisodeReport(reportPatientData.currentEpisodeId, reportData);
+			}
 
 			// Reload report history to show the new report
 			await loadVersionHistory();
@@ -3682,6 +3550,23 @@ export default function EditReportModal({ isOpen, patientId, initialTab = 'repor
 					</nav>
 				</div>
 
+				{!loadingReport && reportPatientData && activeReportTab === 'report' && (
+					<div className="flex-shrink-0 space-y-4 border-b border-slate-200 px-6 py-4">
+						<EpisodeSelector
+							episodes={episodes}
+							patientDocId={patientDocId}
+							currentEpisodeId={reportPatientData.currentEpisodeId}
+							editable={editable}
+							onEpisodeChanged={() => {
+								setViewingVersionData(null);
+								setShowVersionHistory(false);
+							}}
+						/>
+
+						<ReportSignOff patient={reportPatientData} patientDocId={patientDocId} editable={editable} />
+					</div>
+				)}
+
 				<div className="flex-1 overflow-y-auto px-6 py-6">
 					{loadingReport ? (
 						<div className="text-center py-12">
@@ -3689,7 +3574,8 @@ export default function EditReportModal({ isOpen, patientId, initialTab = 'repor
 							<p className="mt-4 text-sm text-slate-600">Loading report data...</p>
 						</div>
 					) : reportPatientData && activeReportTab === 'report' ? (
-						<div className="space-y-6">
+						// A signed report is locked; only addenda can be added to it
+						<fieldset disabled={reportLocked} className="min-w-0 space-y-6">
 							{savedMessage && (
 								<div className="mb-6 rounded-lg bg-emerald-50 border border-emerald-200 px-4 py-3">
 									<div className="flex items-center">
@@ -4080,6 +3966,13 @@ export default function EditReportModal({ isOpen, patientId, initialTab = 'repor
 										</div>
 									</div>
 								</div>
+
+								<OutcomeMeasuresPanel
+									patientId={reportPatientData.patientId}
+									episodeId={reportPatientData.currentEpisodeId}
+									sessionNumber={typeof reportPatientData.sessionNumber === 'number' ? reportPatientData.sessionNumber : null}
+									editable={editable && !viewingVersionData}
+								/>
 							</div>
 
 							{/* 3. Medical History */}
@@ -4292,6 +4185,7 @@ export default function EditReportModal({ isOpen, patientId, initialTab = 'repor
 									) : (
 										<p className="text-sm italic text-slate-500">No ROM joints recorded. Select a joint and click "Add Joint" to start.</p>
 									)}
+									<JointAssessmentSummary records={formData.rom} kind="rom" siteSide={formData.siteSide} />
 								</div>
 								<div className="mt-8">
 									<h4 className="mb-3 text-sm font-semibold text-slate-700">ii) Manual Muscle Testing</h4>
@@ -4344,6 +4238,7 @@ export default function EditReportModal({ isOpen, patientId, initialTab = 'repor
 											No manual muscle testing recorded. Select a joint and click "Add Joint" to begin.
 										</p>
 									)}
+									<JointAssessmentSummary records={formData.mmt} kind="mmt" siteSide={formData.siteSide} />
 								</div>
 								<div className="mt-8 space-y-4">
 									<div>
@@ -4918,7 +4813,7 @@ export default function EditReportModal({ isOpen, patientId, initialTab = 'repor
 									</div>
 								)}
 							</div>
-						</div>
+						</fieldset>
 					) : reportPatientData && activeReportTab === 'strength-conditioning' ? (
 						<div className="space-y-6">
 							{loadingStrengthConditioning ? (
@@ -6530,7 +6425,7 @@ export default function EditReportModal({ isOpen, patientId, initialTab = 'repor
 								disabled={
 									activeReportTab === 'psychology'
 										? savingPsychology
-										: saving
+										: saving || (activeReportTab === 'report' && reportLocked)
 								}
 								className="inline-flex items-center rounded-lg border border-sky-600 bg-sky-600 px-4 py-2 text-sm font-semibold text-white transition hover:bg-sky-700 focus-visible:outline-none disabled:opacity-50 disabled:cursor-not-allowed"
 							>
@@ -6653,20 +6548,40 @@ export default function EditReportModal({ isOpen, patientId, initialTab = 'repor
 							<h2 className="text-lg font-semibold text-slate-900">
 								Report Versions - {reportPatientData.name} ({reportPatientData.patientId})
 							</h2>
-							<button
-								type="button"
-								onClick={() => {
-									setShowVersionHistory(false);
-									setViewingVersionData(null);
-								}}
-								className="rounded-full p-2 text-slate-400 transition hover:bg-slate-100 hover:text-slate-600 focus-visible:outline-none"
-								aria-label="Close"
-							>
-								<i className="fas fa-times" aria-hidden="true" />
-							</button>
+							<div className="flex items-center gap-2">
+								{activeReportTab === 'report' && !loadingVersions && versionHistory.length > 0 && !comparingVersions && (
+									<button
+										type="button"
+										onClick={() => setComparingVersions(true)}
+										className="inline-flex items-center rounded-lg border border-sky-600 px-3 py-1.5 text-xs font-semibold text-sky-600 transition hover:bg-sky-50 focus-visible:outline-none"
+									>
+										<i className="fas fa-exchange-alt mr-1.5" aria-hidden="true" />
+										Compare Versions
+									</button>
+								)}
+								<button
+									type="button"
+									onClick={() => {
+										setShowVersionHistory(false);
+										setViewingVersionData(null);
+										setComparingVersions(false);
+									}}
+									className="rounded-full p-2 text-slate-400 transition hover:bg-slate-100 hover:text-slate-600 focus-visible:outline-none"
+									aria-label="Close"
+								>
+									<i className="fas fa-times" aria-hidden="true" />
+								</button>
+							</div>
 						</header>
 						<div className="flex-1 overflow-y-auto p-6">
-							{loadingVersions ? (
+							{comparingVersions && activeReportTab === 'report' && !loadingVersions ? (
+								<ReportVersionCompare
+									versions={versionHistory}
+									current={reportPatientData}
+									currentUpdatedBy={reportPatientData.reportUpdatedBy}
+									onClose={() => setComparingVersions(false)}
+								/>
+							) : loadingVersions ? (
 								<div className="text-center py-12">
 									<div className="inline-block h-8 w-8 animate-spin rounded-full border-4 border-solid border-slate-900 border-r-transparent"></div>
 									<p className="mt-4 text-sm text-slate-600">Loading report history...</p>
@@ -6707,6 +6622,12 @@ export default function EditReportModal({ isOpen, patientId, initialTab = 'repor
 																		Latest
 																	</span>
 																)}
+																{version.signedBy && (
+																	<span className="px-2 py-1 text-xs font-medium bg-emerald-100 text-emerald-700 rounded" title={`Signed by ${version.signedBy}`}>
+																		<i className="fas fa-lock mr-1" aria-hidden="true" />
+																		Signed
+																	</span>
+																)}
 															</div>
 															<p className="text-sm text-slate-600 mt-1">
 																Saved by {version.createdBy} on{' '}
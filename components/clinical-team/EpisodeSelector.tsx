@@ -0,0 +1,194 @@
+'use client';
+
+import { useState } from 'react';
+
+import { useAuth } from '@/contexts/AuthContext';
+import { EPISODE_BODY_REGIONS, getEpisodeLabel, isEpisodeOpen, type Episode } from '@/lib/episodes';
+import { dischargeEpisode, openEpisode, reopenEpisode, switchEpisode } from '@/lib/episodesClient';
+
+interface EpisodeSelectorProps {
+	episodes: Episode[]; // See usePatientEpisodes
+	patientDocId: string | null;
+	currentEpisodeId?: string | null;
+	editable?: boolean;
+	onEpisodeChanged?: () => void; // Called after the report being edited has been replaced
+}
+
+const EMPTY_DRAFT = { title: '', bodyRegion: '', referredBy: '', referralNotes: '' };
+
+/**
+ * Picks which of the patient's episodes of care the report belongs to, and opens or discharges them
+ */
+export default function EpisodeSelector({ episodes, patientDocId, currentEpisodeId, editable = true, onEpisodeChanged }: EpisodeSelectorProps) {
+	const { user } = useAuth();
+	const [draft, setDraft] = useState<typeof EMPTY_DRAFT | null>(null);
+	const [busy, setBusy] = useState(false);
+
+	const staffName = user?.displayName || user?.email || 'Unknown';
+	const currentEpisode = episodes.find(episode => episode.id === currentEpisodeId) ?? null;
+
+	const run = async (action: () => Promise<void>, failure: string) => {
+		setBusy(true);
+		try {
+			await action();
+		} catch (error) {
+			console.error(failure, error);
+			alert(`${failure}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+		} finally {
+			setBusy(false);
+		}
+	};
+
+	const handleSwitch = (episodeId: string) => {
+		if (!patientDocId || !episodeId || episodeId === currentEpisodeId) return;
+		if (!window.confirm('Switch episode? Unsaved changes to the current report will be lost.')) return;
+		void run(async () => {
+			await switchEpisode(patientDocId, episodeId, staffName);
+			onEpisodeChanged?.();
+		}, 'Failed to switch episode');
+	};
+
+	const handleOpen = (event: React.FormEvent) => {
+		event.preventDefault();
+		if (!patientDocId || !draft) return;
+		if (!draft.title.trim() || !draft.bodyRegion) {
+			alert('Please enter a title and body region for the new episode.');
+			return;
+		}
+		void run(async () => {
+			await openEpisode({ patientDocId, ...draft, openedBy: staffName });
+			setDraft(null);
+			onEpisodeChanged?.();
+		}, 'Failed to open episode');
+	};
+
+	const handleDischarge = () => {
+		if (!currentEpisode) return;
+		const summary = window.prompt('Discharge summary (outcome, status at discharge, advice given):', '');
+		if (summary === null) return;
+		if (!summary.trim()) {
+			alert('A discharge summary is required.');
+			return;
+		}
+		void run(() => dischargeEpisode(currentEpisode.id, summary, staffName), 'Failed to discharge episode');
+	};
+
+	const handleReopen = () => {
+		if (!currentEpisode || !window.confirm('Reopen this episode?')) return;
+		void run(() => reopenEpisode(currentEpisode.id), 'Failed to reopen episode');
+	};
+
+	return (
+		<div className="rounded-xl border border-sky-200 bg-sky-50 p-4">
+			<div className="flex flex-wrap items-center gap-3">
+				<label className="text-sm font-semibold text-slate-700" htmlFor="episode-select">
+					Episode of care
+				</label>
+				{episodes.length === 0 ? (
+					<span className="text-sm text-slate-500">The current report becomes this patient&apos;s first episode when it is saved.</span>
+				) : (
+					<select
+						id="episode-select"
+						value={currentEpisodeId || ''}
+						onChange={event => handleSwitch(event.target.value)}
+						disabled={!editable || busy || !patientDocId}
+						className="select-base min-w-[16rem]"
+					>
+						{!currentEpisode && <option value="">Select an episode</option>}
+						{episodes.map(episode => (
+							<option key={episode.id} value={episode.id}>
+								{getEpisodeLabel(episode)}
+							</option>
+						))}
+					</select>
+				)}
+				{currentEpisode && (
+					<span
+						className={`rounded-full px-2 py-0.5 text-xs font-semibold ${
+							isEpisodeOpen(currentEpisode) ? 'bg-emerald-100 text-emerald-700' : 'bg-slate-200 text-slate-600'
+						}`}
+					>
+						{isEpisodeOpen(currentEpisode) ? 'Open' : 'Discharged'} · {currentEpisode.sessionsCompleted} session
+						{currentEpisode.sessionsCompleted === 1 ? '' : 's'}
+					</span>
+				)}
+				{editable && patientDocId && (
+					<div className="ml-auto flex gap-2">
+						{currentEpisode &&
+							(isEpisodeOpen(currentEpisode) ? (
+								<button type="button" onClick={handleDischarge} disabled={busy} className="btn-secondary text-xs">
+									<i className="fas fa-sign-out-alt mr-1" aria-hidden="true" />
+									Discharge
+								</button>
+							) : (
+								<button type="button" onClick={handleReopen} disabled={busy} className="btn-secondary text-xs">
+									<i className="fas fa-redo mr-1" aria-hidden="true" />
+									Reopen
+								</button>
+							))}
+						<button type="button" onClick={() => setDraft(draft ? null : { ...EMPTY_DRAFT })} disabled={busy} className="btn-primary text-xs">
+							<i className="fas fa-plus mr-1" aria-hidden="true" />
+							New Episode
+						</button>
+					</div>
+				)}
+			</div>
+
+			{currentEpisode && (currentEpisode.referralNotes || currentEpisode.dischargeSummary) && (
+				<div className="mt-2 space-y-1 text-xs text-slate-600">
+					{currentEpisode.referralNotes && <p>Referral: {currentEpisode.referralNotes}</p>}
+					{currentEpisode.dischargeSummary && (
+						<p>
+							Discharged {currentEpisode.dischargedAt?.split('T')[0]} by {currentEpisode.dischargedBy}: {currentEpisode.dischargeSummary}
+						</p>
+					)}
+				</div>
+			)}
+
+			{draft && (
+				<form onSubmit={handleOpen} className="mt-4 grid gap-3 md:grid-cols-2">
+					<input
+						type="text"
+						value={draft.title}
+						onChange={event => setDraft({ ...draft, title: event.target.value })}
+						placeholder="Title, e.g. Right ankle sprain"
+						className="input-base"
+					/>
+					<select value={draft.bodyRegion} onChange={event => setDraft({ ...draft, bodyRegion: event.target.value })} className="select-base">
+						<option value="">Body region</option>
+						{EPISODE_BODY_REGIONS.map(region => (
+							<option key={region} value={region}>
+								{region}
+							</option>
+						))}
+					</select>
+					<input
+						type="text"
+						value={draft.referredBy}
+						onChange={event => setDraft({ ...draft, referredBy: event.target.value })}
+						placeholder="Referred by"
+						className="input-base"
+					/>
+					<input
+						type="text"
+						value={draft.referralNotes}
+						onChange={event => setDraft({ ...draft, referralNotes: event.target.value })}
+						placeholder="Referral notes"
+						className="input-base"
+					/>
+					<p className="text-xs text-slate-500 md:col-span-2">
+						The current report is kept on its episode and a blank report is started for the new one.
+					</p>
+					<div className="flex justify-end gap-2 md:col-span-2">
+						<button type="button" onClick={() => setDraft(null)} className="btn-secondary text-xs">
+							Cancel
+						</button>
+						<button type="submit" disabled={busy} className="btn-primary text-xs">
+							{busy ? 'Opening...' : 'Open Episode'}
+						</button>
+					</div>
+				</form>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,697 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { addDoc, collection, getDocs, onSnapshot, query, where, type QuerySnapshot } from 'firebase/firestore';
+
+import { db } from '@/lib/firebase';
+import PageHeader from '@/components/PageHeader';
+import ResourcePicker from '@/components/appointments/ResourcePicker';
+import { useAuth } from '@/contexts/AuthContext';
+import { useClinicResources } from '@/hooks/useClinicResources';
+import { checkAppointmentConflict } from '@/lib/appointmentUtils';
+import { formatResourceNames, getAppointmentResourceIds, getServiceResourceIds } from '@/lib/resources';
+import { SERVICE_CATALOG, getServiceType } from '@/lib/serviceCatalog';
+import {
+	DEFAULT_GROUP_CAPACITY,
+	DEFAULT_GROUP_SERVICE_TYPE,
+	GROUP_ATTENDANCE_LABELS,
+	GROUP_SESSIONS_COLLECTION,
+	getOpenSpots,
+	mapGroupSession,
+	type GroupAttendance,
+	type GroupSession,
+	type GroupSessionParticipant,
+} from '@/lib/groupSessions';
+import { cancelGroupSession, enrolGroupParticipant, recordGroupAttendance, removeGroupParticipant } from '@/lib/groupSessionClient';
+
+interface PatientOption {
+	id: string;
+	patientId: string;
+	name: string;
+	phone?: string;
+	patientType?: string;
+}
+
+interface StaffOption {
+	id: string;
+	userName: string;
+	role: string;
+	status: string;
+	userEmail?: string;
+}
+
+interface GroupSessionFormState {
+	title: string;
+	serviceType: string;
+	doctor: string;
+	date: string;
+	time: string;
+	duration: number;
+	capacity: number;
+	resourceIds: string[];
+	notes: string;
+}
+
+const CLINICAL_ROLES = ['Physiotherapist', 'StrengthAndConditioning', 'ClinicalTeam'];
+
+const ATTENDANCE_CLASSES: Record<GroupAttendance, string> = {
+	enrolled: 'bg-slate-100 text-slate-700',
+	attended: 'bg-emerald-100 text-emerald-700',
+	absent: 'bg-rose-100 text-rose-700',
+};
+
+const getTodayKey = () => new Date().toISOString().split('T')[0];
+
+const createEmptyForm = (doctor = ''): GroupSessionFormState => ({
+	title: '',
+	serviceType: DEFAULT_GROUP_SERVICE_TYPE,
+	doctor,
+	date: getTodayKey(),
+	time: '',
+	duration: getServiceType(DEFAULT_GROUP_SERVICE_TYPE)?.durationMinutes ?? 60,
+	capacity: DEFAULT_GROUP_CAPACITY,
+	resourceIds: [],
+	notes: '',
+});
+
+export default function GroupSessions() {
+	const { user } = useAuth();
+	const { resources } = useClinicResources();
+	const [sessions, setSessions] = useState<GroupSession[]>([]);
+	const [patients, setPatients] = useState<PatientOption[]>([]);
+	const [staff, setStaff] = useState<StaffOption[]>([]);
+	const [loading, setLoading] = useState(true);
+	const [selectedDate, setSelectedDate] = useState(getTodayKey);
+	const [showForm, setShowForm] = useState(false);
+	const [form, setForm] = useState<GroupSessionFormState>(createEmptyForm);
+	const [saving, setSaving] = useState(false);
+	const [enrollingSessionId, setEnrollingSessionId] = useState<string | null>(null);
+	const [patientSearch, setPatientSearch] = useState('');
+	const [busyKey, setBusyKey] = useState<string | null>(null);
+
+	useEffect(() => {
+		const unsubscribe = onSnapshot(
+			collection(db, GROUP_SESSIONS_COLLECTION),
+			(snapshot: QuerySnapshot) => {
+				setSessions(snapshot.docs.map(docSnap => mapGroupSession(docSnap.id, docSnap.data())));
+				setLoading(false);
+			},
+			error => {
+				console.error('Failed to load group sessions', error);
+				setSessions([]);
+				setLoading(false);
+			}
+		);
+		return () => unsubscribe();
+	}, []);
+
+	useEffect(() => {
+		const unsubscribe = onSnapshot(
+			collection(db, 'patients'),
+			(snapshot: QuerySnapshot) => {
+				const mapped = snapshot.docs.map(docSnap => {
+					const data = docSnap.data() as Record<string, unknown>;
+					return {
+						id: docSnap.id,
+						patientId: data.patientId ? String(data.patientId) : '',
+						name: data.name ? String(data.name) : '',
+						phone: data.phone ? String(data.phone) : undefined,
+						patientType: data.patientType ? String(data.patientType) : undefined,
+					};
+				});
+				setPatients(mapped.filter(patient => patient.patientId));
+			},
+			error => {
+				console.error('Failed to load patients', error);
+				setPatients([]);
+			}
+		);
+		return () => unsubscribe();
+	}, []);
+
+	useEffect(() => {
+		const unsubscribe = onSnapshot(
+			collection(db, 'staff'),
+			(snapshot: QuerySnapshot) => {
+				const mapped = snapshot.docs.map(docSnap => {
+					const data = docSnap.data() as Record<string, unknown>;
+					return {
+						id: docSnap.id,
+						userName: data.userName ? String(data.userName) : '',
+						role: data.role ? String(data.role) : '',
+						status: data.status ? String(data.status) : '',
+						userEmail: data.userEmail ? String(data.userEmail) : undefined,
+					};
+				});
+				setStaff(mapped);
+			},
+			error => {
+				console.error('Failed to load staff', error);
+				setStaff([]);
+			}
+		);
+		return () => unsubscribe();
+	}, []);
+
+	const clinicians = useMemo(
+		() =>
+			staff
+				.filter(member => CLINICAL_ROLES.includes(member.role) && member.status !== 'Inactive' && member.userName)
+				.sort((a, b) => a.userName.localeCompare(b.userName)),
+		[staff]
+	);
+
+	const sessionsForDate = useMemo(
+		() => sessions.filter(session => session.date === selectedDate).sort((a, b) => a.time.localeCompare(b.time)),
+		[sessions, selectedDate]
+	);
+
+	const enrollingSession = sessions.find(session => session.id === enrollingSessionId);
+
+	const patientMatches = useMemo(() => {
+		const search = patientSearch.trim().toLowerCase();
+		if (!search || !enrollingSession) return [];
+		const enrolledIds = new Set(enrollingSession.participants.map(participant => participant.patientId));
+		return patients
+			.filter(
+				patient =>
+					!enrolledIds.has(patient.patientId) &&
+					(patient.name.toLowerCase().includes(search) ||
+						patient.patientId.toLowerCase().includes(search) ||
+						(patient.phone || '').includes(search))
+			)
+			.slice(0, 8);
+	}, [patients, patientSearch, enrollingSession]);
+
+	const recordedBy = user?.displayName || user?.email || null;
+
+	const openForm = () => {
+		const currentStaff = clinicians.find(member => member.userEmail?.toLowerCase() === user?.email?.toLowerCase());
+		setForm({
+			...createEmptyForm(currentStaff?.userName ?? ''),
+			date: selectedDate,
+			resourceIds: getServiceResourceIds(resources, DEFAULT_GROUP_SERVICE_TYPE),
+		});
+		setShowForm(true);
+	};
+
+	const handleServiceChange = (serviceType: string) => {
+		setForm(prev => ({
+			...prev,
+			serviceType,
+			duration: getServiceType(serviceType)?.durationMinutes ?? prev.duration,
+			resourceIds: getServiceResourceIds(resources, serviceType),
+		}));
+	};
+
+	const handleCreate = async (event: React.FormEvent) => {
+		event.preventDefault();
+		const title = form.title.trim();
+		if (!title) {
+			alert('Please enter a name for the class.');
+			return;
+		}
+		if (!form.doctor || !form.date || !form.time) {
+			alert('Please choose the clinician, date and time.');
+			return;
+		}
+		if (form.capacity < 2) {
+			alert('A group class needs room for at least 2 patients.');
+			return;
+		}
+
+		setSaving(true);
+		try {
+			// Other classes that day count as bookings too, even before anyone is enrolled
+			const appointmentsSnapshot = await getDocs(query(collection(db, 'appointments'), where('date', '==', form.date)));
+			const existing = [
+				...appointmentsSnapshot.docs.map(docSnap => {
+					const data = docSnap.data();
+					return {
+						id: docSnap.id,
+						appointmentId: data.appointmentId ? String(data.appointmentId) : undefined,
+						patient: data.patient ? String(data.patient) : '',
+						doctor: data.doctor ? String(data.doctor) : '',
+						date: data.date ? String(data.date) : '',
+						time: data.time ? String(data.time) : '',
+						status: data.status ? String(data.status) : undefined,
+						duration: typeof data.duration === 'number' ? data.duration : null,
+						serviceType: data.serviceType ? String(data.serviceType) : null,
+						resourceIds: getAppointmentResourceIds(data),
+					};
+				}),
+				...sessions
+					.filter(session => session.date === form.date && session.status === 'scheduled')
+					.map(session => ({
+						id: session.id,
+						patient: session.title,
+						doctor: session.doctor,
+						date: session.date,
+						time: session.time,
+						duration: session.duration,
+						serviceType: session.serviceType,
+						resourceIds: session.resourceIds,
+					})),
+			];
+			const conflict = checkAppointmentConflict(existing, {
+				doctor: form.doctor,
+				date: form.date,
+				time: form.time,
+				duration: form.duration,
+				resourceIds: form.resourceIds,
+			});
+			if (conflict.resourceIds.length > 0) {
+				alert(`Already booked at this time: ${formatResourceNames(resources, conflict.resourceIds)}.`);
+				return;
+			}
+			if (
+				conflict.hasConflict &&
+				!window.confirm(
+					`${form.doctor} already has ${conflict.conflictingAppointments.length} booking(s) at this time. Create the class anyway?`
+				)
+			) {
+				return;
+			}
+
+			const clinician = clinicians.find(member => member.userName === form.doctor);
+			await addDoc(collection(db, GROUP_SESSIONS_COLLECTION), {
+				title,
+				serviceType: form.serviceType,
+				doctor: form.doctor,
+				staffId: clinician?.id ?? null,
+				date: form.date,
+				time: form.time,
+				duration: form.duration,
+				capacity: form.capacity,
+				resourceIds: form.resourceIds,
+				participants: [],
+				status: 'scheduled',
+				notes: form.notes.trim() || null,
+				createdBy: user?.email || user?.displayName || 'Clinical Team',
+				createdAt: new Date().toISOString(),
+			});
+			setSelectedDate(form.date);
+			setShowForm(false);
+		} catch (error) {
+			console.error('Failed to create group session', error);
+			alert('Failed to create the class. Please try again.');
+		} finally {
+			setSaving(false);
+		}
+	};
+
+	const handleEnrol = async (session: GroupSession, patient: PatientOption) => {
+		setBusyKey(`${session.id}:enrol`);
+		try {
+			const participant = await enrolGroupParticipant(session, patient);
+			setPatientSearch('');
+			if (participant.fromPackage) {
+				alert(`${patient.name} is enrolled. The class uses one of their package sessions.`);
+			}
+		} catch (error) {
+			console.error('Failed to enrol patient', error);
+			alert(`Failed to enrol patient: ${error instanceof Error ? error.message : 'Unknown error'}`);
+		} finally {
+			setBusyKey(null);
+		}
+	};
+
+	const handleAttendance = async (session: GroupSession, participant: GroupSessionParticipant, attendance: GroupAttendance) => {
+		if (
+			attendance === 'attended' &&
+			!window.confirm(`Mark ${participant.name} as attended? This uses one of their sessions and cannot be undone.`)
+		) {
+			return;
+		}
+
+		setBusyKey(`${session.id}:${participant.patientId}`);
+		try {
+			const result = await recordGroupAttendance({
+				session,
+				participant,
+				attendance,
+				recordedBy,
+				recordedByUserId: user?.uid || null,
+			});
+			if (result.noShowFeeBilled) {
+				alert('No-show recorded. A no-show fee has been added to billing.');
+			}
+		} catch (error) {
+			console.error('Failed to record attendance', error);
+			alert(`Failed to record attendance: ${error instanceof Error ? error.message : 'Unknown error'}`);
+		} finally {
+			setBusyKey(null);
+		}
+	};
+
+	const handleRemove = async (session: GroupSession, participant: GroupSessionParticipant) => {
+		if (!window.confirm(`Remove ${participant.name} from ${session.title}?`)) return;
+
+		setBusyKey(`${session.id}:${participant.patientId}`);
+		try {
+			await removeGroupParticipant(session, participant, recordedBy);
+		} catch (error) {
+			console.error('Failed to remove patient from class', error);
+			alert(`Failed to remove patient: ${error instanceof Error ? error.message : 'Unknown error'}`);
+		} finally {
+			setBusyKey(null);
+		}
+	};
+
+	const handleCancelSession = async (session: GroupSession) => {
+		if (!window.confirm(`Cancel ${session.title}? Every enrolled patient's appointment for it will be cancelled.`)) return;
+
+		setBusyKey(`${session.id}:cancel`);
+		try {
+			await cancelGroupSession(session, recordedBy);
+		} catch (error) {
+			console.error('Failed to cancel group session', error);
+			alert(`Failed to cancel class: ${error instanceof Error ? error.message : 'Unknown error'}`);
+		} finally {
+			setBusyKey(null);
+		}
+	};
+
+	const renderParticipant = (session: GroupSession, participant: GroupSessionParticipant) => {
+		const busy = busyKey === `${session.id}:${participant.patientId}`;
+		const locked = participant.attendance === 'attended' || session.status === 'cancelled';
+		return (
+			<li key={participant.patientId} className="flex items-center justify-between gap-4 px-4 py-2">
+				<div>
+					<p className="text-sm font-medium text-slate-900">
+						{participant.name}
+						<span className="ml-2 font-normal text-slate-500">{participant.patientId}</span>
+					</p>
+					<p className="text-xs text-slate-500">
+						{participant.patientType || 'Patient'}
+						{participant.fromPackage && ' · Package session'}
+					</p>
+				</div>
+				<div className="flex items-center gap-3">
+					<span className={`rounded-full px-2 py-0.5 text-xs font-medium ${ATTENDANCE_CLASSES[participant.attendance]}`}>
+						{GROUP_ATTENDANCE_LABELS[participant.attendance]}
+					</span>
+					{!locked && (
+						<>
+							<button
+								type="button"
+								onClick={() => handleAttendance(session, participant, 'attended')}
+								disabled={busy}
+								className="text-sm font-medium text-emerald-600 hover:text-emerald-700 disabled:opacity-50"
+							>
+								<i className="fas fa-check mr-1" aria-hidden="true" />
+								Attended
+							</button>
+							{participant.attendance !== 'absent' && (
+								<button
+									type="button"
+									onClick={() => handleAttendance(session, participant, 'absent')}
+									disabled={busy}
+									className="text-sm font-medium text-amber-600 hover:text-amber-700 disabled:opacity-50"
+								>
+									<i className="fas fa-user-slash mr-1" aria-hidden="true" />
+									Absent
+								</button>
+							)}
+							<button
+								type="button"
+								onClick={() => handleRemove(session, participant)}
+								disabled={busy}
+								className="text-sm font-medium text-rose-600 hover:text-rose-700 disabled:opacity-50"
+							>
+								<i className="fas fa-trash mr-1" aria-hidden="true" />
+								Remove
+							</button>
+						</>
+					)}
+				</div>
+			</li>
+		);
+	};
+
+	const renderSession = (session: GroupSession) => {
+		const openSpots = getOpenSpots(session);
+		const isCancelled = session.status === 'cancelled';
+		const resourceNames = formatResourceNames(resources, session.resourceIds);
+		return (
+			<section key={session.id} className={`section-card ${isCancelled ? 'opacity-60' : ''}`}>
+				<div className="flex items-start justify-between gap-4">
+					<div>
+						<h3 className="text-lg font-semibold text-slate-900">
+							{session.title}
+							{isCancelled && <span className="ml-2 text-xs font-medium text-rose-600">(Cancelled)</span>}
+						</h3>
+						<p className="mt-1 text-sm text-slate-600">
+							{session.time} · {session.duration} min · {session.doctor}
+							{` · ${getServiceType(session.serviceType)?.name ?? session.serviceType}`}
+							{resourceNames && ` · ${resourceNames}`}
+						</p>
+						{session.notes && <p className="mt-1 text-xs text-slate-500">{session.notes}</p>}
+					</div>
+					<div className="flex shrink-0 items-center gap-4">
+						<span className="text-sm font-medium text-slate-700">
+							{session.participants.length} / {session.capacity} enrolled
+						</span>
+						{!isCancelled && (
+							<button
+								type="button"
+								onClick={() => handleCancelSession(session)}
+								disabled={busyKey === `${session.id}:cancel`}
+								className="text-sm font-medium text-rose-600 hover:text-rose-700 disabled:opacity-50"
+							>
+								<i className="fas fa-ban mr-1" aria-hidden="true" />
+								Cancel Class
+							</button>
+						)}
+					</div>
+				</div>
+
+				<div className="mt-4">
+					{session.participants.length === 0 ? (
+						<p className="text-sm text-slate-500">No patients enrolled yet.</p>
+					) : (
+						<ul className="divide-y divide-slate-100 rounded-lg border border-slate-200">
+							{session.participants.map(participant => renderParticipant(session, participant))}
+						</ul>
+					)}
+				</div>
+
+				{!isCancelled && openSpots > 0 && (
+					<div className="mt-4">
+						{enrollingSessionId === session.id ? (
+							<>
+								<div className="flex items-center gap-3">
+									<input
+										type="text"
+										value={patientSearch}
+										onChange={event => setPatientSearch(event.target.value)}
+										placeholder="Search by name, patient ID or phone"
+										className="input-base"
+										autoFocus
+									/>
+									<button
+										type="button"
+										onClick={() => {
+											setEnrollingSessionId(null);
+											setPatientSearch('');
+										}}
+										className="btn-secondary shrink-0"
+									>
+										Done
+									</button>
+								</div>
+								{patientMatches.length > 0 && (
+									<ul className="mt-2 divide-y divide-slate-100 rounded-lg border border-slate-200">
+										{patientMatches.map(patient => (
+											<li key={patient.id}>
+												<button
+													type="button"
+													onClick={() => handleEnrol(session, patient)}
+													disabled={busyKey === `${session.id}:enrol`}
+													className="w-full px-3 py-2 text-left text-sm hover:bg-slate-50 disabled:opacity-50"
+												>
+													<span className="font-medium text-slate-900">{patient.name}</span>
+													<span className="ml-2 text-slate-500">{patient.patientId}</span>
+													{patient.patientType && <span className="ml-2 text-xs text-slate-400">{patient.patientType}</span>}
+												</button>
+											</li>
+										))}
+									</ul>
+								)}
+							</>
+						) : (
+							<button
+								type="button"
+								onClick={() => {
+									setEnrollingSessionId(session.id);
+									setPatientSearch('');
+								}}
+								className="text-sm font-medium text-sky-600 hover:text-sky-700"
+							>
+								<i className="fas fa-user-plus mr-1" aria-hidden="true" />
+								Enrol Patient ({openSpots} {openSpots === 1 ? 'spot' : 'spots'} left)
+							</button>
+						)}
+					</div>
+				)}
+			</section>
+		);
+	};
+
+	return (
+		<div className="min-h-screen p-8">
+			<PageHeader
+				title="Group Classes"
+				description="Classes where one clinician works with several patients. Each enrolled patient gets their own appointment, and marking them as attended uses one of their sessions and bills it like any other."
+				actions={
+					!showForm && (
+						<button type="button" onClick={openForm} className="btn-primary">
+							<i className="fas fa-plus mr-2" aria-hidden="true" />
+							New Class
+						</button>
+					)
+				}
+			/>
+
+			<div className="mt-6 space-y-6">
+				{showForm && (
+					<section className="section-card">
+						<h3 className="text-lg font-semibold text-slate-900">New Class</h3>
+						<form onSubmit={handleCreate} className="mt-4 grid gap-4 md:grid-cols-2">
+							<div className="md:col-span-2">
+								<label className="block text-sm font-medium text-slate-700">Class name</label>
+								<input
+									type="text"
+									value={form.title}
+									onChange={event => setForm(prev => ({ ...prev, title: event.target.value }))}
+									placeholder="e.g. Morning Conditioning"
+									className="input-base mt-2"
+									required
+								/>
+							</div>
+							<div>
+								<label className="block text-sm font-medium text-slate-700">Clinician</label>
+								<select
+									value={form.doctor}
+									onChange={event => setForm(prev => ({ ...prev, doctor: event.target.value }))}
+									className="select-base mt-2"
+									required
+								>
+									<option value="">Select clinician</option>
+									{clinicians.map(member => (
+										<option key={member.id} value={member.userName}>
+											{member.userName}
+										</option>
+									))}
+								</select>
+							</div>
+							<div>
+								<label className="block text-sm font-medium text-slate-700">Service</label>
+								<select
+									value={form.serviceType}
+									onChange={event => handleServiceChange(event.target.value)}
+									className="select-base mt-2"
+								>
+									{SERVICE_CATALOG.map(service => (
+										<option key={service.id} value={service.id}>
+											{service.name}
+										</option>
+									))}
+								</select>
+							</div>
+							<div>
+								<label className="block text-sm font-medium text-slate-700">Date</label>
+								<input
+									type="date"
+									value={form.date}
+									onChange={event => setForm(prev => ({ ...prev, date: event.target.value }))}
+									className="input-base mt-2"
+									required
+								/>
+							</div>
+							<div>
+								<label className="block text-sm font-medium text-slate-700">Start time</label>
+								<input
+									type="time"
+									value={form.time}
+									onChange={event => setForm(prev => ({ ...prev, time: event.target.value }))}
+									className="input-base mt-2"
+									required
+								/>
+							</div>
+							<div>
+								<label className="block text-sm font-medium text-slate-700">Duration (minutes)</label>
+								<input
+									type="number"
+									min={15}
+									step={15}
+									value={form.duration}
+									onChange={event => setForm(prev => ({ ...prev, duration: parseInt(event.target.value, 10) || 0 }))}
+									className="input-base mt-2"
+									required
+								/>
+							</div>
+							<div>
+								<label className="block text-sm font-medium text-slate-700">Capacity</label>
+								<input
+									type="number"
+									min={2}
+									value={form.capacity}
+									onChange={event => setForm(prev => ({ ...prev, capacity: parseInt(event.target.value, 10) || 0 }))}
+									className="input-base mt-2"
+									required
+								/>
+							</div>
+							<div className="md:col-span-2">
+								<ResourcePicker
+									resources={resources}
+									selected={form.resourceIds}
+									onChange={resourceIds => setForm(prev => ({ ...prev, resourceIds }))}
+								/>
+							</div>
+							<div className="md:col-span-2">
+								<label className="block text-sm font-medium text-slate-700">Notes</label>
+								<input
+									type="text"
+									value={form.notes}
+									onChange={event => setForm(prev => ({ ...prev, notes: event.target.value }))}
+									placeholder="e.g. Bring running shoes"
+									className="input-base mt-2"
+								/>
+							</div>
+							<div className="md:col-span-2 flex justify-end gap-3">
+								<button type="button" onClick={() => setShowForm(false)} className="btn-secondary" disabled={saving}>
+									Cancel
+								</button>
+								<button type="submit" className="btn-primary" disabled={saving}>
+									<i className="fas fa-users mr-2" aria-hidden="true" />
+									{saving ? 'Creating...' : 'Create Class'}
+								</button>
+							</div>
+						</form>
+					</section>
+				)}
+
+				<div className="flex items-center gap-3">
+					<label className="text-sm font-medium text-slate-700">Classes on</label>
+					<input
+						type="date"
+						value={selectedDate}
+						onChange={event => setSelectedDate(event.target.value)}
+						className="input-base w-auto"
+					/>
+				</div>
+
+				{loading ? (
+					<p className="text-sm text-slate-500">Loading classes...</p>
+				) : sessionsForDate.length === 0 ? (
+					<section className="section-card">
+						<p className="text-sm text-slate-500">No classes on this day.</p>
+					</section>
+				) : (
+					sessionsForDate.map(renderSession)
+				)}
+			</div>
+		</div>
+	);
+}
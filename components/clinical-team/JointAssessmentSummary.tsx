@@ -0,0 +1,90 @@
+'use client';
+
+import {
+	LSI_THRESHOLD,
+	buildJointComparison,
+	formatMmtGrade,
+	formatRomValue,
+	getInvolvedSide,
+	getPercentOfNormal,
+	type JointRecords,
+	type RomStatus,
+} from '@/lib/romMmt';
+
+interface JointAssessmentSummaryProps {
+	records: JointRecords | null | undefined;
+	kind: 'rom' | 'mmt';
+	siteSide?: string | null; // Picks the involved side for the limb symmetry index
+}
+
+const STATUS_STYLES: Record<RomStatus, string> = {
+	reduced: 'text-amber-700',
+	normal: 'text-emerald-700',
+	excessive: 'text-violet-700',
+};
+
+/**
+ * ROM or MMT results compared with normal values, with the left/right limb symmetry index
+ */
+export default function JointAssessmentSummary({ records, kind, siteSide }: JointAssessmentSummaryProps) {
+	const involvedSide = getInvolvedSide(siteSide);
+	const rows = buildJointComparison(records, kind, involvedSide);
+	if (rows.length === 0) return null;
+
+	const format = kind === 'rom' ? formatRomValue : formatMmtGrade;
+	const renderValue = (value: number | null, status: RomStatus | null, normal: number | null) => {
+		if (value === null) return <span className="text-slate-400">—</span>;
+		const percent = kind === 'rom' && normal !== null ? getPercentOfNormal(value, normal) : null;
+		return (
+			<span className={status ? STATUS_STYLES[status] : 'text-slate-700'}>
+				{format(value)}
+				{percent !== null && <span className="ml-1 text-xs text-slate-500">({percent}%)</span>}
+			</span>
+		);
+	};
+
+	return (
+		<div className="mt-4 overflow-x-auto rounded-lg border border-slate-200">
+			<table className="min-w-full divide-y divide-slate-200 text-left text-sm">
+				<thead className="bg-slate-50 text-xs uppercase tracking-wide text-slate-500">
+					<tr>
+						<th className="px-3 py-2 font-semibold">{kind === 'rom' ? 'Motion' : 'Muscle Group'}</th>
+						<th className="px-3 py-2 font-semibold">Left</th>
+						<th className="px-3 py-2 font-semibold">Right</th>
+						<th className="px-3 py-2 font-semibold">Normal</th>
+						<th className="px-3 py-2 font-semibold">
+							LSI{involvedSide ? ` (${involvedSide} involved)` : ''}
+						</th>
+					</tr>
+				</thead>
+				<tbody className="divide-y divide-slate-100 bg-white">
+					{rows.map(row => (
+						<tr key={`${row.joint}-${row.motion}`}>
+							<td className="px-3 py-2 text-slate-700">
+								{row.joint} - {row.motion}
+							</td>
+							{row.value !== null && row.left === null && row.right === null ? (
+								<td colSpan={2} className="px-3 py-2">
+									{renderValue(row.value, row.valueStatus, row.normal)}
+								</td>
+							) : (
+								<>
+									<td className="px-3 py-2">{renderValue(row.left, row.leftStatus, row.normal)}</td>
+									<td className="px-3 py-2">{renderValue(row.right, row.rightStatus, row.normal)}</td>
+								</>
+							)}
+							<td className="px-3 py-2 text-slate-500">{row.normal === null ? '—' : format(row.normal)}</td>
+							<td className={`px-3 py-2 font-medium ${row.lsi !== null && row.lsi < LSI_THRESHOLD ? 'text-rose-600' : 'text-slate-700'}`}>
+								{row.lsi === null ? '—' : `${row.lsi}%`}
+							</td>
+						</tr>
+					))}
+				</tbody>
+			</table>
+			<p className="border-t border-slate-200 bg-slate-50 px-3 py-2 text-xs text-slate-500">
+				{kind === 'rom' ? 'Normal values are typical adult active ranges. ' : 'Graded on the Oxford scale (0-5). '}
+				LSI below {LSI_THRESHOLD}% is highlighted.
+			</p>
+		</div>
+	);
+}
@@ -5,6 +5,8 @@ import { collection, onSnapshot, query, where, getDocs, updateDoc, doc, serverTi
 import { db } from '@/lib/firebase';
 import PageHeader from '@/components/PageHeader';
 import { useAuth } from '@/contexts/AuthContext';
+import { getNetBillAmount, isBillVoided } from '@/lib/creditNotes';
+import { isBillLocked } from '@/lib/billingCycles';
 
 interface AppointmentRecord {
 	id: string;
@@ -35,6 +37,8 @@ interface BillingRecord {
 	amount?: number;
 	status?: string;
 	date?: string;
+	creditedAmount?: number; // Running total of credit notes issued against the bill
+	lockedCycleId?: string;
 }
 
 interface PatientRecord {
@@ -196,6 +200,8 @@ export default function MyPerformance() {
 						amount: data.amount ? Number(data.amount) : 0,
 						status: data.status ? String(data.status) : 'Pending',
 						date: data.date ? String(data.date) : '',
+						creditedAmount: typeof data.creditedAmount === 'number' ? data.creditedAmount : undefined,
+						lockedCycleId: data.lockedCycleId ? String(data.lockedCycleId) : undefined,
 					} as BillingRecord;
 				});
 				setBilling([...mapped]);
@@ -323,6 +329,8 @@ export default function MyPerformance() {
 				for (const bill of billing) {
 					if (!bill.patientId || !dyesPatientIds.has(bill.patientId)) continue;
 					if (bill.doctor !== staffName) continue;
+					// Voided bills and bills in closed billing cycles stay as they were left
+					if (isBillVoided(bill) || isBillLocked(bill)) continue;
 
 					// Update bills that are not in the correct format
 					if (bill.status !== 'Completed' || bill.amount !== 500) {
@@ -582,7 +590,7 @@ export default function MyPerformance() {
 				const isVIP = patient && (patient.patientType || '').toUpperCase() === 'VIP';
 				const isReferral = patient && (patient.patientType || '').toUpperCase() === 'REFERRAL';
 				if (isVIP || isReferral) return total;
-				return total + (bill.amount || 0);
+				return total + getNetBillAmount(bill);
 			}, 0);
 
 		// Revenue by DYES vs non-DYES
@@ -605,11 +613,11 @@ export default function MyPerformance() {
 				if (isVIP || isReferral) return;
 				
 				if (isDYES) {
-					revenueByType.DYES += bill.amount || 0;
+					revenueByType.DYES += getNetBillAmount(bill);
 				} else {
 					// Only count non-DYES bills with status 'Completed' (exclude 'Auto-Paid' for non-DYES)
 					if (bill.status === 'Completed') {
-						revenueByType.nonDYES += bill.amount || 0;
+						revenueByType.nonDYES += getNetBillAmount(bill);
 					}
 				}
 			});
@@ -0,0 +1,247 @@
+'use client';
+
+import { useState } from 'react';
+
+import { useAuth } from '@/contexts/AuthContext';
+import { usePatientOutcomeMeasures } from '@/hooks/usePatientOutcomeMeasures';
+import {
+	OUTCOME_MEASURES,
+	formatOutcomeScore,
+	getOutcomeChange,
+	scoreOutcomeMeasure,
+	type OutcomeMeasure,
+	type OutcomeMeasureAnswers,
+} from '@/lib/outcomeMeasures';
+import { recordOutcomeMeasure } from '@/lib/outcomeMeasuresClient';
+
+interface OutcomeMeasuresPanelProps {
+	patientId: string;
+	episodeId?: string | null; // Only results from this episode are summarised
+	sessionNumber?: number | null;
+	editable?: boolean;
+}
+
+const CHANGE_STYLES = {
+	improved: 'text-emerald-600',
+	worsened: 'text-rose-600',
+	unchanged: 'text-slate-500',
+};
+
+/**
+ * Outcome measures recorded for the patient's episode, and a questionnaire to record another
+ */
+export default function OutcomeMeasuresPanel({ patientId, episodeId, sessionNumber, editable = true }: OutcomeMeasuresPanelProps) {
+	const { user } = useAuth();
+	const { results } = usePatientOutcomeMeasures(patientId);
+	const [measure, setMeasure] = useState<OutcomeMeasure | null>(null);
+	const [showPicker, setShowPicker] = useState(false);
+	const [answers, setAnswers] = useState<OutcomeMeasureAnswers>({});
+	const [saving, setSaving] = useState(false);
+
+	const episodeResults = results.filter(result => !episodeId || result.episodeId === episodeId);
+	const summaries = OUTCOME_MEASURES.map(outcomeMeasure => {
+		const measureResults = episodeResults.filter(result => result.measureId === outcomeMeasure.id);
+		if (measureResults.length === 0) return null;
+		const baseline = measureResults[0];
+		const latest = measureResults[measureResults.length - 1];
+		return { measure: outcomeMeasure, baseline, latest, count: measureResults.length, change: getOutcomeChange(outcomeMeasure, baseline.score, latest.score) };
+	}).filter(summary => summary !== null);
+
+	const preview = measure ? scoreOutcomeMeasure(measure, answers) : null;
+
+	const closeModal = () => {
+		setShowPicker(false);
+		setMeasure(null);
+		setAnswers({});
+	};
+
+	const handleSave = async () => {
+		if (!measure) return;
+		setSaving(true);
+		try {
+			await recordOutcomeMeasure({
+				patientId,
+				episodeId,
+				sessionNumber,
+				measure,
+				answers,
+				recordedBy: user?.displayName || user?.email || 'Unknown',
+				recordedById: user?.uid || '',
+			});
+			closeModal();
+		} catch (error) {
+			console.error('Failed to record outcome measure', error);
+			alert(`Failed to record outcome measure: ${error instanceof Error ? error.message : 'Unknown error'}`);
+		} finally {
+			setSaving(false);
+		}
+	};
+
+	return (
+		<div className="mb-4">
+			<div className="mb-2 flex items-center justify-between">
+				<label className="block text-xs font-medium text-slate-500">Outcome Measures</label>
+				{editable && (
+					<button
+						type="button"
+						onClick={() => setShowPicker(true)}
+						className="inline-flex items-center gap-2 rounded-lg border border-sky-300 bg-sky-50 px-3 py-1.5 text-xs font-medium text-sky-700 transition hover:bg-sky-100 disabled:opacity-50"
+					>
+						<i className="fas fa-clipboard-check" aria-hidden="true" />
+						Record Outcome Measure
+					</button>
+				)}
+			</div>
+			{summaries.length === 0 ? (
+				<p className="text-xs text-slate-500">No outcome measures recorded for this episode yet.</p>
+			) : (
+				<div className="overflow-x-auto rounded-lg border border-slate-200">
+					<table className="min-w-full divide-y divide-slate-200 text-left text-sm">
+						<thead className="bg-slate-50 text-xs uppercase tracking-wide text-slate-500">
+							<tr>
+								<th className="px-3 py-2 font-semibold">Measure</th>
+								<th className="px-3 py-2 font-semibold">Baseline</th>
+								<th className="px-3 py-2 font-semibold">Latest</th>
+								<th className="px-3 py-2 font-semibold">Change</th>
+							</tr>
+						</thead>
+						<tbody className="divide-y divide-slate-100">
+							{summaries.map(({ measure: outcomeMeasure, baseline, latest, count, change }) => (
+								<tr key={outcomeMeasure.id}>
+									<td className="px-3 py-2 font-medium text-slate-700">
+										{outcomeMeasure.shortName}
+										<span className="ml-1 text-xs font-normal text-slate-500">
+											({count} recorded)
+										</span>
+									</td>
+									<td className="px-3 py-2 text-slate-700">
+										{formatOutcomeScore(outcomeMeasure, baseline.score)}
+										<span className="block text-xs text-slate-500">{new Date(baseline.recordedAt).toLocaleDateString()}</span>
+									</td>
+									<td className="px-3 py-2 text-slate-700">
+										{formatOutcomeScore(outcomeMeasure, latest.score)} - {latest.band}
+										<span className="block text-xs text-slate-500">{new Date(latest.recordedAt).toLocaleDateString()}</span>
+									</td>
+									<td className={`px-3 py-2 font-semibold ${CHANGE_STYLES[change.status]}`}>
+										{count === 1 ? (
+											<span className="font-normal text-slate-500">Baseline</span>
+										) : (
+											<>
+												{change.change > 0 ? '+' : ''}
+												{change.change}
+												<span className="block text-xs font-normal">
+													{change.status === 'unchanged' ? `Below MCID (${outcomeMeasure.mcid})` : `${change.status === 'improved' ? 'Improved' : 'Worse'} beyond MCID`}
+												</span>
+											</>
+										)}
+									</td>
+								</tr>
+							))}
+						</tbody>
+					</table>
+				</div>
+			)}
+
+			{showPicker && (
+				<div className="fixed inset-0 z-60 flex items-center justify-center bg-slate-900/60 px-4 py-6">
+					<div className="flex w-full max-w-3xl max-h-[90vh] flex-col rounded-2xl border border-slate-200 bg-white shadow-2xl">
+						<header className="flex flex-shrink-0 items-center justify-between border-b border-slate-200 px-6 py-4">
+							<h2 className="text-lg font-semibold text-slate-900">{measure ? measure.name : 'Outcome Measures Library'}</h2>
+							<button
+								type="button"
+								onClick={closeModal}
+								className="rounded-full p-2 text-slate-400 transition hover:bg-slate-100 hover:text-slate-600"
+								aria-label="Close"
+							>
+								<i className="fas fa-times" aria-hidden="true" />
+							</button>
+						</header>
+
+						<div className="flex-1 overflow-y-auto px-6 py-4">
+							{!measure ? (
+								<div className="grid gap-3 sm:grid-cols-2">
+									{OUTCOME_MEASURES.map(outcomeMeasure => (
+										<button
+											key={outcomeMeasure.id}
+											type="button"
+											onClick={() => setMeasure(outcomeMeasure)}
+											className="rounded-lg border border-slate-200 p-4 text-left transition hover:border-sky-300 hover:bg-sky-50"
+										>
+											<p className="font-semibold text-slate-900">
+												{outcomeMeasure.shortName} <span className="text-xs font-normal text-slate-500">· {outcomeMeasure.region}</span>
+											</p>
+											<p className="mt-1 text-xs text-slate-600">{outcomeMeasure.description}</p>
+											<p className="mt-2 text-xs text-slate-500">
+												{outcomeMeasure.items.length} item{outcomeMeasure.items.length === 1 ? '' : 's'} · MCID {outcomeMeasure.mcid}
+											</p>
+										</button>
+									))}
+								</div>
+							) : (
+								<div className="space-y-3">
+									<p className="text-xs text-slate-600">{measure.description}</p>
+									{measure.items.map((item, index) => (
+										<div key={item.id} className="grid items-center gap-2 sm:grid-cols-[1fr,16rem]">
+											<label htmlFor={`outcome-${item.id}`} className="text-sm text-slate-700">
+												{index + 1}. {item.text}
+											</label>
+											<select
+												id={`outcome-${item.id}`}
+												value={answers[item.id] ?? ''}
+												onChange={event => {
+													const next = { ...answers };
+													if (event.target.value === '') delete next[item.id];
+													else next[item.id] = Number(event.target.value);
+													setAnswers(next);
+												}}
+												className="select-base"
+											>
+												<option value="">Not answered</option>
+												{item.options.map(option => (
+													<option key={option.value} value={option.value}>
+														{option.label}
+													</option>
+												))}
+											</select>
+										</div>
+									))}
+								</div>
+							)}
+						</div>
+
+						{measure && (
+							<footer className="flex flex-shrink-0 items-center justify-between gap-3 border-t border-slate-200 px-6 py-4">
+								<p className="text-sm text-slate-700">
+									{preview ? (
+										<>
+											Score <span className="font-semibold">{formatOutcomeScore(measure, preview.score)}</span> - {preview.band}
+										</>
+									) : (
+										<span className="text-slate-500">
+											Answer at least {measure.items.length - measure.maxMissing} of {measure.items.length} items to score
+										</span>
+									)}
+								</p>
+								<div className="flex gap-2">
+									<button
+										type="button"
+										onClick={() => {
+											setMeasure(null);
+											setAnswers({});
+										}}
+										className="btn-secondary text-xs"
+									>
+										Back
+									</button>
+									<button type="button" onClick={handleSave} disabled={!preview || saving} className="btn-primary text-xs">
+										{saving ? 'Saving...' : 'Save Result'}
+									</button>
+								</div>
+							</footer>
+						)}
+					</div>
+				</div>
+			)}
+		</div>
+	);
+}
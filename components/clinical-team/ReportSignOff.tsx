@@ -0,0 +1,130 @@
+'use client';
+
+import { useState } from 'react';
+
+import { useReportAddenda } from '@/hooks/useReportAddenda';
+import { formatReportSignature, getUnsignedHours, isReportSigned, UNSIGNED_REPORT_HOURS } from '@/lib/reportSignoff';
+import { addReportAddendum, signReport, startNextSessionReport } from '@/lib/reportSignoffClient';
+import type { PatientRecordFull } from '@/lib/types';
+
+interface ReportSignOffProps {
+	patient: Pick<PatientRecordFull, 'reportStatus' | 'reportDraftSince' | 'reportSignature'>;
+	patientDocId: string | null;
+	editable?: boolean;
+}
+
+/**
+ * Sign-off state of the report being edited: finalise and sign a draft, or add dated addenda to a
+ * signed report (see lib/reportSignoff.ts)
+ */
+export default function ReportSignOff({ patient, patientDocId, editable = true }: ReportSignOffProps) {
+	const [busy, setBusy] = useState(false);
+	const [now] = useState(() => Date.now());
+	const signed = isReportSigned(patient);
+	const signature = patient.reportSignature ?? null;
+	const { addenda } = useReportAddenda(signed ? signature?.versionId : null);
+
+	const run = async (action: () => Promise<void>, failure: string) => {
+		setBusy(true);
+		try {
+			await action();
+		} catch (error) {
+			console.error(failure, error);
+			alert(`${failure}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+		} finally {
+			setBusy(false);
+		}
+	};
+
+	const handleSign = () => {
+		if (!patientDocId) return;
+		if (
+			!window.confirm(
+				'Finalise and sign this report? The last saved report is what gets signed, so save any changes first. After signing the report is locked and only dated addenda can be added.'
+			)
+		) {
+			return;
+		}
+		void run(async () => {
+			await signReport(patientDocId);
+		}, 'Failed to sign report');
+	};
+
+	const handleAddendum = () => {
+		if (!patientDocId) return;
+		const text = window.prompt('Addendum (it will be dated and cannot be changed later):', '');
+		if (text === null) return;
+		if (!text.trim()) {
+			alert('Please enter the addendum.');
+			return;
+		}
+		void run(() => addReportAddendum(patientDocId, text), 'Failed to add addendum');
+	};
+
+	const handleNextSession = () => {
+		if (!patientDocId) return;
+		if (!window.confirm('Start the report for the next session? The signed report and its addenda are kept unchanged.')) return;
+		void run(() => startNextSessionReport(patientDocId), 'Failed to start the next session report');
+	};
+
+	if (!signed) {
+		const hours = getUnsignedHours(patient, now);
+		const overdue = hours > UNSIGNED_REPORT_HOURS;
+		return (
+			<div className={`flex flex-wrap items-center gap-3 rounded-xl border p-4 ${overdue ? 'border-rose-200 bg-rose-50' : 'border-amber-200 bg-amber-50'}`}>
+				<i className={`fas fa-pen-nib ${overdue ? 'text-rose-600' : 'text-amber-600'}`} aria-hidden="true" />
+				<div className="text-sm">
+					<p className={`font-semibold ${overdue ? 'text-rose-800' : 'text-amber-800'}`}>Draft - not signed</p>
+					{patient.reportDraftSince && (
+						<p className={`text-xs ${overdue ? 'text-rose-700' : 'text-amber-700'}`}>
+							Unsigned since {new Date(patient.reportDraftSince).toLocaleString()}
+							{overdue && ` (over ${UNSIGNED_REPORT_HOURS} hours)`}
+						</p>
+					)}
+				</div>
+				{editable && patientDocId && (
+					<button type="button" onClick={handleSign} disabled={busy} className="btn-primary ml-auto text-xs">
+						<i className="fas fa-signature mr-1" aria-hidden="true" />
+						{busy ? 'Signing...' : 'Finalise & Sign'}
+					</button>
+				)}
+			</div>
+		);
+	}
+
+	return (
+		<div className="rounded-xl border border-emerald-200 bg-emerald-50 p-4">
+			<div className="flex flex-wrap items-center gap-3">
+				<i className="fas fa-lock text-emerald-600" aria-hidden="true" />
+				<div className="text-sm">
+					<p className="font-semibold text-emerald-800">Signed and locked{signature ? ` - Report #${signature.version}` : ''}</p>
+					{signature && <p className="text-xs text-emerald-700">{formatReportSignature(signature)}</p>}
+				</div>
+				{editable && patientDocId && (
+					<div className="ml-auto flex gap-2">
+						<button type="button" onClick={handleAddendum} disabled={busy} className="btn-secondary text-xs">
+							<i className="fas fa-plus mr-1" aria-hidden="true" />
+							Add Addendum
+						</button>
+						<button type="button" onClick={handleNextSession} disabled={busy} className="btn-primary text-xs">
+							<i className="fas fa-file-medical mr-1" aria-hidden="true" />
+							Start Next Session Report
+						</button>
+					</div>
+				)}
+			</div>
+			{addenda.length > 0 && (
+				<ul className="mt-3 space-y-2 border-t border-emerald-200 pt-3">
+					{addenda.map(addendum => (
+						<li key={addendum.id} className="text-sm text-slate-700">
+							<p className="text-xs font-semibold text-emerald-800">
+								Addendum - {new Date(addendum.addedAt).toLocaleString()} by {addendum.addedBy}
+							</p>
+							<p className="whitespace-pre-wrap">{addendum.text}</p>
+						</li>
+					))}
+				</ul>
+			)}
+		</div>
+	);
+}
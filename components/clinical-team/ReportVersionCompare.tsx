@@ -0,0 +1,123 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+
+import { diffReportVersions, normalizeReportPayload } from '@/lib/reportVersions';
+
+export interface ComparableReportVersion {
+	id: string;
+	version: number;
+	createdAt: string;
+	data: unknown; // The saved reportData, of any schema version
+	authoredBy?: string | null;
+}
+
+interface ReportVersionCompareProps {
+	versions: ComparableReportVersion[]; // Newest first, as shown in the version history
+	current: unknown; // The report as it stands now
+	currentUpdatedBy?: string | null;
+	onClose: () => void;
+}
+
+const CURRENT = 'current';
+
+/**
+ * Field-by-field comparison of two saved report versions, or of a version and the current report
+ */
+export default function ReportVersionCompare({ versions, current, currentUpdatedBy, onClose }: ReportVersionCompareProps) {
+	const [fromId, setFromId] = useState(versions[0]?.id ?? '');
+	const [toId, setToId] = useState(CURRENT);
+
+	const from = versions.find(version => version.id === fromId) ?? null;
+	const to = toId === CURRENT ? null : versions.find(version => version.id === toId) ?? null;
+
+	const changes = useMemo(() => {
+		if (!from) return [];
+		return diffReportVersions(normalizeReportPayload(from.data), normalizeReportPayload(to ? to.data : current));
+	}, [from, to, current]);
+
+	// A version holds what its author saved, so the changes since `from` were made by the authors of every later version up to `to`
+	const changedBy = useMemo(() => {
+		if (!from) return [];
+		const names = versions
+			.filter(version => version.version > from.version && (!to || version.version <= to.version))
+			.map(version => version.authoredBy || 'Unknown');
+		if (!to) names.push(currentUpdatedBy || 'Unknown');
+		return Array.from(new Set(names));
+	}, [versions, from, to, currentUpdatedBy]);
+
+	const toLabel = to ? `Report #${to.version}` : 'Current report';
+	const isBackwards = Boolean(from && to && to.version <= from.version);
+
+	return (
+		<div className="space-y-4">
+			<div className="flex flex-wrap items-end gap-3">
+				<label className="text-sm text-slate-700">
+					<span className="mb-1 block font-semibold">From</span>
+					<select value={fromId} onChange={event => setFromId(event.target.value)} className="select-base min-w-[12rem]">
+						{versions.map(version => (
+							<option key={version.id} value={version.id}>
+								Report #{version.version} - {new Date(version.createdAt).toLocaleDateString()}
+							</option>
+						))}
+					</select>
+				</label>
+				<label className="text-sm text-slate-700">
+					<span className="mb-1 block font-semibold">To</span>
+					<select value={toId} onChange={event => setToId(event.target.value)} className="select-base min-w-[12rem]">
+						<option value={CURRENT}>Current report</option>
+						{versions.map(version => (
+							<option key={version.id} value={version.id}>
+								Report #{version.version} - {new Date(version.createdAt).toLocaleDateString()}
+							</option>
+						))}
+					</select>
+				</label>
+				<button type="button" onClick={onClose} className="btn-secondary ml-auto text-xs">
+					<i className="fas fa-list mr-1" aria-hidden="true" />
+					Back to versions
+				</button>
+			</div>
+
+			{!from ? (
+				<p className="text-sm text-slate-500">Select a version to compare.</p>
+			) : isBackwards ? (
+				<p className="text-sm text-amber-700">Select a later version, or the current report, to compare against Report #{from.version}.</p>
+			) : changes.length === 0 ? (
+				<p className="text-sm text-slate-500">
+					No fields changed between Report #{from.version} and the {to ? `Report #${to.version}` : 'current report'}.
+				</p>
+			) : (
+				<>
+					<p className="text-sm text-slate-600">
+						{changes.length} field{changes.length === 1 ? '' : 's'} changed · Changed by {changedBy.join(', ')}
+					</p>
+					<div className="overflow-x-auto rounded-lg border border-slate-200">
+						<table className="min-w-full divide-y divide-slate-200 text-left text-sm">
+							<thead className="bg-slate-50 text-xs uppercase tracking-wide text-slate-500">
+								<tr>
+									<th className="px-3 py-2 font-semibold">Field</th>
+									<th className="px-3 py-2 font-semibold">Report #{from.version}</th>
+									<th className="px-3 py-2 font-semibold">{toLabel}</th>
+								</tr>
+							</thead>
+							<tbody className="divide-y divide-slate-100">
+								{changes.map(change => (
+									<tr key={change.path} className="align-top">
+										<td className="px-3 py-2 font-medium text-slate-700">{change.label}</td>
+										<td className="whitespace-pre-wrap px-3 py-2 text-rose-700">
+											{change.before ? <span className="rounded bg-rose-50 px-1">{change.before}</span> : <span className="text-slate-400">—</span>}
+										</td>
+										<td className="whitespace-pre-wrap px-3 py-2 text-emerald-700">
+											{change.after ? <span className="rounded bg-emerald-50 px-1">{change.after}</span> : <span className="text-slate-400">—</span>}
+										</td>
+									</tr>
+								))}
+							</tbody>
+						</table>
+					</div>
+				</>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,71 @@
+'use client';
+
+import { useMemo } from 'react';
+import { computeNoShowRates, type NoShowRateRow } from '@/lib/noShowPolicy';
+
+interface NoShowRatesProps {
+	appointments: Array<{ patientId: string; doctor: string; status: string }>;
+	patients: Array<{ patientId?: string; patientType?: string }>;
+	maxRows?: number;
+}
+
+function RateTable({ title, groupLabel, rows }: { title: string; groupLabel: string; rows: NoShowRateRow[] }) {
+	return (
+		<div>
+			<p className="text-sm font-semibold text-slate-800">{title}</p>
+			{rows.length === 0 ? (
+				<p className="mt-2 text-xs text-slate-500">No completed or missed appointments yet.</p>
+			) : (
+				<table className="mt-2 min-w-full text-left text-sm">
+					<thead className="text-xs uppercase tracking-wide text-slate-500">
+						<tr>
+							<th className="py-1 pr-2 font-semibold">{groupLabel}</th>
+							<th className="py-1 pr-2 text-right font-semibold">No-shows</th>
+							<th className="py-1 pr-2 text-right font-semibold">Attended</th>
+							<th className="py-1 text-right font-semibold">Rate</th>
+						</tr>
+					</thead>
+					<tbody className="divide-y divide-slate-100">
+						{rows.map(row => (
+							<tr key={row.key}>
+								<td className="py-1.5 pr-2 text-slate-700">{row.key}</td>
+								<td className="py-1.5 pr-2 text-right text-slate-700">{row.noShows}</td>
+								<td className="py-1.5 pr-2 text-right text-slate-700">{row.attended}</td>
+								<td
+									className={`py-1.5 text-right font-semibold ${
+										row.rate >= 20 ? 'text-rose-600' : row.rate >= 10 ? 'text-amber-600' : 'text-emerald-600'
+									}`}
+								>
+									{row.rate.toFixed(1)}%
+								</td>
+							</tr>
+						))}
+					</tbody>
+				</table>
+			)}
+		</div>
+	);
+}
+
+export default function NoShowRates({ appointments, patients, maxRows = 8 }: NoShowRatesProps) {
+	const { byTherapist, byPatientType } = useMemo(() => {
+		const patientTypes = new Map<string, string>();
+		patients.forEach(patient => {
+			if (patient.patientId) patientTypes.set(patient.patientId, patient.patientType || 'Unspecified');
+		});
+		return {
+			byTherapist: computeNoShowRates(appointments, appointment => appointment.doctor || 'Unassigned'),
+			byPatientType: computeNoShowRates(
+				appointments,
+				appointment => patientTypes.get(appointment.patientId) || 'Unspecified'
+			),
+		};
+	}, [appointments, patients]);
+
+	return (
+		<div className="grid gap-6 sm:grid-cols-2">
+			<RateTable title="By Therapist" groupLabel="Therapist" rows={byTherapist.slice(0, maxRows)} />
+			<RateTable title="By Patient Type" groupLabel="Type" rows={byPatientType.slice(0, maxRows)} />
+		</div>
+	);
+}
@@ -0,0 +1,75 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { collection, onSnapshot, query, where, type QuerySnapshot } from 'firebase/firestore';
+
+import { db } from '@/lib/firebase';
+import { getUnsignedHours, UNSIGNED_REPORT_HOURS } from '@/lib/reportSignoff';
+import type { PatientRecordFull } from '@/lib/types';
+
+type UnsignedReport = Pick<PatientRecordFull, 'id' | 'patientId' | 'name' | 'physioName' | 'reportUpdatedBy' | 'reportStatus' | 'reportDraftSince'>;
+
+/**
+ * Physiotherapy reports still unsigned more than 48 hours after the session, longest overdue first
+ */
+export default function UnsignedReports() {
+	const [drafts, setDrafts] = useState<UnsignedReport[] | null>(null);
+	const [now, setNow] = useState(() => Date.now());
+
+	useEffect(() => {
+		const unsubscribe = onSnapshot(
+			query(collection(db, 'patients'), where('reportStatus', '==', 'draft')),
+			(snapshot: QuerySnapshot) => {
+				setDrafts(snapshot.docs.map(docSnap => ({ id: docSnap.id, ...(docSnap.data() as Omit<UnsignedReport, 'id'>) })));
+				setNow(Date.now());
+			},
+			error => {
+				console.error('Failed to load unsigned reports', error);
+				setDrafts([]);
+			}
+		);
+
+		return () => unsubscribe();
+	}, []);
+
+	const overdue = (drafts ?? [])
+		.map(report => ({ report, hours: getUnsignedHours(report, now) }))
+		.filter(({ hours }) => hours > UNSIGNED_REPORT_HOURS)
+		.sort((a, b) => b.hours - a.hours);
+
+	if (drafts === null) {
+		return <p className="text-xs text-slate-500">Loading reports...</p>;
+	}
+	if (overdue.length === 0) {
+		return <p className="text-xs text-slate-500">Every report has been signed within {UNSIGNED_REPORT_HOURS} hours.</p>;
+	}
+
+	return (
+		<div className="max-h-72 overflow-y-auto">
+			<table className="min-w-full text-left text-sm">
+				<thead className="text-xs uppercase tracking-wide text-slate-500">
+					<tr>
+						<th className="py-1 pr-2 font-semibold">Patient</th>
+						<th className="py-1 pr-2 font-semibold">Therapist</th>
+						<th className="py-1 pr-2 font-semibold">Unsigned Since</th>
+						<th className="py-1 text-right font-semibold">Overdue</th>
+					</tr>
+				</thead>
+				<tbody className="divide-y divide-slate-100">
+					{overdue.map(({ report, hours }) => (
+						<tr key={report.id}>
+							<td className="py-1.5 pr-2 text-slate-700">
+								{report.name} <span className="text-xs text-slate-500">({report.patientId})</span>
+							</td>
+							<td className="py-1.5 pr-2 text-slate-700">{report.physioName || report.reportUpdatedBy || 'Unknown'}</td>
+							<td className="py-1.5 pr-2 text-slate-700">{report.reportDraftSince ? new Date(report.reportDraftSince).toLocaleString() : ''}</td>
+							<td className={`py-1.5 text-right font-semibold ${hours > UNSIGNED_REPORT_HOURS * 2 ? 'text-rose-600' : 'text-amber-600'}`}>
+								{Math.floor(hours - UNSIGNED_REPORT_HOURS)}h
+							</td>
+						</tr>
+					))}
+				</tbody>
+			</table>
+		</div>
+	);
+}
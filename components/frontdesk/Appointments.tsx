@@ -11,11 +11,22 @@ import type { PatientRecord } from '@/lib/types';
 import { sendEmailNotification } from '@/lib/email';
 import { sendSMSNotification, isValidPhoneNumber } from '@/lib/sms';
 import { checkAppointmentConflict, checkAvailabilityConflict } from '@/lib/appointmentUtils';
+import type { WeeklyAvailability } from '@/lib/availability';
+import { useClinicHolidays } from '@/hooks/useClinicHolidays';
+import { offerSlotsToWaitlist } from '@/lib/waitlistClient';
+import { applyNoShowStatusChange } from '@/lib/noShowClient';
+import { getNoShowStanding, type NoShowOverride } from '@/lib/noShowPolicy';
+import { useNoShowPolicy } from '@/hooks/useNoShowPolicy';
+import NoShowBookingNotice from '@/components/appointments/NoShowBookingNotice';
+import { useClinicResources } from '@/hooks/useClinicResources';
+import { formatResourceNames, getAppointmentResourceIds, getServiceResourceIds } from '@/lib/resources';
+import ResourcePicker from '@/components/appointments/ResourcePicker';
+import ServiceSelect from '@/components/appointments/ServiceSelect';
+import { resolveAppointmentDuration } from '@/lib/serviceCatalog';
 import { normalizeSessionAllowance } from '@/lib/sessionAllowance';
-import { recordSessionUsageForAppointment } from '@/lib/sessionAllowanceClient';
 import type { RecordSessionUsageResult } from '@/lib/sessionAllowanceClient';
 import { useAuth } from '@/contexts/AuthContext';
-import { createDYESBilling } from '@/lib/dyesBilling';
+import { applySessionStatusChange } from '@/lib/sessionCompletionClient';
 
 type AppointmentStatusFilter = 'all' | AdminAppointmentStatus;
 
@@ -30,6 +41,9 @@ interface FrontdeskAppointment {
 	status: AdminAppointmentStatus;
 	createdAt: string;
 	notes?: string;
+	duration?: number;
+	serviceType?: string;
+	resourceIds?: string[];
 }
 
 
@@ -38,6 +52,7 @@ const STATUS_BADGES: Record<AdminAppointmentStatus, string> = {
 	ongoing: 'status-badge-ongoing',
 	completed: 'status-badge-completed',
 	cancelled: 'status-badge-cancelled',
+	'no-show': 'status-badge-no-show',
 };
 
 const STATUS_OPTIONS: Array<{ value: AppointmentStatusFilter; label: string }> = [
@@ -46,6 +61,7 @@ const STATUS_OPTIONS: Array<{ value: AppointmentStatusFilter; label: string }> =
 	{ value: 'ongoing', label: 'Ongoing' },
 	{ value: 'completed', label: 'Completed' },
 	{ value: 'cancelled', label: 'Cancelled' },
+	{ value: 'no-show', label: 'No-show' },
 ];
 
 interface DayAvailability {
@@ -66,6 +82,7 @@ interface StaffMember {
 	availability?: {
 		[day: string]: DayAvailability;
 	};
+	weeklyAvailability?: WeeklyAvailability;
 	dateSpecificAvailability?: DateSpecificAvailability;
 }
 
@@ -83,6 +100,8 @@ interface BookingForm {
 	date: string;
 	time: string;
 	notes?: string;
+	serviceType: string;
+	resourceIds: string[];
 }
 
 function formatDateLabel(value: string) {
@@ -95,6 +114,9 @@ function formatDateLabel(value: string) {
 export default function Appointments() {
 	const searchParams = useSearchParams();
 	const { user } = useAuth();
+	const { holidays } = useClinicHolidays();
+	const { policy: noShowPolicy } = useNoShowPolicy();
+	const { resources } = useClinicResources();
 	const [appointments, setAppointments] = useState<FrontdeskAppointment[]>([]);
 	const [patients, setPatients] = useState<PatientRecordWithSessions[]>([]);
 	const [staff, setStaff] = useState<StaffMember[]>([]);
@@ -113,8 +135,11 @@ export default function Appointments() {
 		date: '',
 		time: '',
 		notes: '',
+		serviceType: '',
+		resourceIds: [],
 	});
 	const [bookingLoading, setBookingLoading] = useState(false);
+	const [noShowOverrideReason, setNoShowOverrideReason] = useState('');
 	const [conflictWarning, setConflictWarning] = useState<string | null>(null);
 	const [selectedPatientId, setSelectedPatientId] = useState<string | null>(null);
 	const [showPatientAppointmentsModal, setShowPatientAppointmentsModal] = useState(false);
@@ -137,6 +162,9 @@ export default function Appointments() {
 						time: data.time ? String(data.time) : '',
 						status: (data.status as AdminAppointmentStatus) ?? 'pending',
 						notes: data.notes ? String(data.notes) : undefined,
+						duration: typeof data.duration === 'number' ? data.duration : undefined,
+						serviceType: data.serviceType ? String(data.serviceType) : undefined,
+						resourceIds: getAppointmentResourceIds(data),
 						createdAt: created ? created.toISOString() : (data.createdAt as string | undefined) || new Date().toISOString(),
 					} as FrontdeskAppointment;
 				});
@@ -207,6 +235,8 @@ export default function Appointments() {
 						status: (data.status as AdminPatientStatus) ?? 'pending',
 						assignedDoctor: data.assignedDoctor ? String(data.assignedDoctor) : undefined,
 						patientType: data.patientType ? String(data.patientType) : undefined,
+						noShowCount: typeof data.noShowCount === 'number' ? data.noShowCount : undefined,
+						activePackageId: data.activePackageId ? String(data.activePackageId) : undefined,
 						sessionAllowance: data.sessionAllowance
 							? normalizeSessionAllowance(data.sessionAllowance as Record<string, unknown>)
 							: undefined,
@@ -241,6 +271,7 @@ export default function Appointments() {
 						status: data.status ? String(data.status) : '',
 						userEmail: data.userEmail ? String(data.userEmail) : undefined,
 						availability: data.availability as StaffMember['availability'],
+						weeklyAvailability: data.weeklyAvailability as WeeklyAvailability | undefined,
 						dateSpecificAvailability: data.dateSpecificAvailability as DateSpecificAvailability | undefined,
 					} as StaffMember;
 				});
@@ -347,7 +378,23 @@ export default function Appointments() {
 		});
 	}, [patients, appointments]);
 
+	// How long the new appointment lasts, from the chosen service
+	const bookingDuration = resolveAppointmentDuration({ serviceType: bookingForm.serviceType });
+
+	// Resources already reserved by other appointments at the chosen booking time
+	const busyResourceIds = useMemo(() => {
+		if (!bookingForm.date || !bookingForm.time || resources.length === 0) return [];
+		return checkAppointmentConflict(appointments, {
+			doctor: '',
+			date: bookingForm.date,
+			time: bookingForm.time,
+			duration: bookingDuration,
+			resourceIds: resources.map(resource => resource.id),
+		}).resourceIds;
+	}, [appointments, bookingForm.date, bookingForm.time, bookingDuration, resources]);
+
 	// Filter clinicians by availability based on selected date/time
+
 	const doctorOptions = useMemo(() => {
 		const base = staff
 			.filter(member => 
@@ -366,13 +413,15 @@ export default function Appointments() {
 			const member = staff.find(staffMember => staffMember.userName === name);
 			if (!member) return false;
 			const availability = checkAvailabilityConflict(
-				member.dateSpecificAvailability,
+				member,
 				bookingForm.date,
-				bookingForm.time
+				bookingForm.time,
+				bookingDuration,
+				holidays
 			);
 			return availability.isAvailable;
 		});
-	}, [staff, bookingForm.date, bookingForm.time]);
+	}, [staff, bookingForm.date, bookingForm.time, bookingDuration, holidays]);
 
 	// Get all available clinicians for editing appointments
 	const availableClinicians = useMemo(() => {
@@ -416,6 +465,8 @@ export default function Appointments() {
 					date: '',
 					time: '',
 					notes: '',
+					serviceType: '',
+					resourceIds: [],
 				});
 				setShowBookingModal(true);
 				// Clean up URL
@@ -447,61 +498,60 @@ export default function Appointments() {
 			// Small delay to ensure the database update is committed
 			await new Promise(resolve => setTimeout(resolve, 500));
 
-			if (status === 'completed' && oldStatus !== 'completed' && patientDetails?.id) {
+			if (status === 'cancelled' && oldStatus !== 'cancelled') {
+				void offerSlotsToWaitlist([appointment]);
+			}
+
+			if (status === 'no-show' || oldStatus === 'no-show') {
 				try {
-					sessionUsageResult = await recordSessionUsageForAppointment({
-						patientDocId: patientDetails.id,
-						patientType: patientDetails.patientType,
-						appointmentId: appointment.id,
+					const noShowResult = await applyNoShowStatusChange({
+						appointmentDocId: appointment.id,
+						appointmentId: appointment.appointmentId,
+						patientDocId: patientDetails?.id,
+						patientId: appointment.patientId,
+						patientName: appointment.patient || patientDetails?.name || '',
+						doctor: appointment.doctor,
+						date: appointment.date,
+						previousStatus: oldStatus,
+						nextStatus: status,
+						recordedBy: user?.displayName || user?.email || null,
 					});
-				} catch (sessionError) {
-					console.error('Failed to record DYES session usage:', sessionError);
-				}
-
-				// Automatically create billing for DYES patients
-				const patientType = (patientDetails.patientType || '').toUpperCase();
-				if (patientType === 'DYES' || patientType === 'DYES') {
-					try {
-						await createDYESBilling({
-							appointmentId: appointment.appointmentId,
-							appointmentDocId: appointment.id,
-							patientId: appointment.patientId,
-							patientName: appointment.patient || '',
-							doctorName: appointment.doctor || '',
-							appointmentDate: appointment.date || '',
-							createdByUserId: null,
-							createdByUserName: null,
-							isExtraTreatment: false, // Frontdesk appointments default to regular treatment
-						});
-					} catch (billingError) {
-						console.error('Failed to create automatic DYES billing:', billingError);
+					if (noShowResult.feeBilled) {
+						alert('No-show recorded. A no-show fee has been added to billing.');
 					}
+				} catch (noShowError) {
+					console.error('Failed to record no-show:', noShowError);
 				}
 			}
 
-			// Recalculate and update remaining sessions when status changes, if totalSessionsRequired is set
-			if (patientDetails && typeof patientDetails.totalSessionsRequired === 'number') {
-				const patientId = appointment.patientId;
-				const completedAfter = appointments
-					.map(a =>
-						a.appointmentId === appointmentId
-							? { ...a, status }
-							: a
-					)
-					.filter(a => a.patientId === patientId && a.status === 'completed').length;
-
-				// remainingSessions starts at totalSessionsRequired - 1 and decreases with each completed appointment
-				const newRemaining = Math.max(0, patientDetails.totalSessionsRequired - 1 - completedAfter);
-				const patientRef = doc(db, 'patients', patientDetails.id);
-				await updateDoc(patientRef, {
-					remainingSessions: newRemaining,
+			if (patientDetails?.id) {
+				const sessionChange = await applySessionStatusChange({
+					patientDocId: patientDetails.id,
+					appointmentDocId: appointment.id,
+					appointmentId: appointment.appointmentId,
+					patientId: appointment.patientId,
+					patientName: appointment.patient || '',
+					doctor: appointment.doctor || '',
+					date: appointment.date || '',
+					serviceType: appointment.serviceType,
+					previousStatus: oldStatus,
+					nextStatus: status,
+					isExtraTreatment: false, // Frontdesk appointments default to regular treatment
+					recordedByUserId: user?.uid || null,
+					recordedBy: user?.displayName || user?.email || null,
 				});
-
-				setPatients(prev =>
-					prev.map(p =>
-						p.id === patientDetails.id ? { ...p, remainingSessions: newRemaining } : p
-					)
-				);
+				sessionUsageResult = sessionChange.sessionUsage;
+				if (sessionChange.remainingSessions !== null) {
+					const newRemaining = sessionChange.remainingSessions;
+					setPatients(prev =>
+						prev.map(p =>
+							p.id === patientDetails.id ? { ...p, remainingSessions: newRemaining } : p
+						)
+					);
+				}
+				if (sessionChange.packageNotCovered) {
+					alert('This appointment was not counted against the patient\'s package: it has expired, is used up or does not cover this service.');
+				}
 			}
 
 			// Update patient status to 'completed' if all appointments are completed
@@ -530,7 +580,7 @@ export default function Appointments() {
 						// Check if all appointments are completed or cancelled
 						const allCompleted = allPatientAppointments.length > 0 && 
 							allPatientAppointments.every((apt: any) => 
-								apt.status === 'completed' || apt.status === 'cancelled'
+								apt.status === 'completed' || apt.status === 'cancelled' || apt.status === 'no-show'
 							);
 						
 						console.log(`✅ All appointments completed? ${allCompleted}`);
@@ -576,7 +626,7 @@ export default function Appointments() {
 							}
 						} else if (!allCompleted) {
 							const incompleteCount = allPatientAppointments.filter((apt: any) => 
-								apt.status !== 'completed' && apt.status !== 'cancelled'
+								apt.status !== 'completed' && apt.status !== 'cancelled' && apt.status !== 'no-show'
 							).length;
 							console.log(`⚠️ Not all appointments are completed. ${incompleteCount} appointment(s) still pending/ongoing.`);
 						} else if (patientDetails.status === 'completed') {
@@ -844,7 +894,10 @@ export default function Appointments() {
 			date: '',
 			time: '',
 			notes: '',
+			serviceType: '',
+			resourceIds: [],
 		});
+		setNoShowOverrideReason('');
 	};
 
 	const handleCloseBookingModal = () => {
@@ -855,7 +908,10 @@ export default function Appointments() {
 			date: '',
 			time: '',
 			notes: '',
+			serviceType: '',
+			resourceIds: [],
 		});
+		setNoShowOverrideReason('');
 	};
 
 	const handleCreateAppointment = async () => {
@@ -877,6 +933,21 @@ export default function Appointments() {
 			return;
 		}
 
+		const noShowStanding = getNoShowStanding(selectedPatient.noShowCount, noShowPolicy);
+		if (noShowStanding === 'override-required' && !noShowOverrideReason.trim()) {
+			alert('This patient has reached the no-show limit. Please enter an override reason to book.');
+			return;
+		}
+		const noShowOverride: NoShowOverride | null =
+			noShowStanding === 'override-required'
+				? {
+						by: user?.displayName || user?.email || 'Front Desk',
+						reason: noShowOverrideReason.trim(),
+						at: new Date().toISOString(),
+						noShowCount: selectedPatient.noShowCount ?? 0,
+					}
+				: null;
+
 		// Check if patient has any completed appointments
 		// If they do, they should book through the backend instead
 		const patientCompletedAppointments = appointments.filter(
@@ -901,15 +972,28 @@ export default function Appointments() {
 				date: appointment.date,
 				time: appointment.time,
 				status: appointment.status,
+				duration: appointment.duration,
+				serviceType: appointment.serviceType,
+				resourceIds: appointment.resourceIds,
 			})),
 			{
 				doctor: bookingForm.doctor,
 				date: bookingForm.date,
 				time: bookingForm.time,
+				duration: bookingDuration,
+				resourceIds: bookingForm.resourceIds,
 			}
 		);
 
-		if (conflict.hasConflict) {
+		// A room or machine can't be double-booked, even when the therapist is free
+		if (conflict.resourceIds.length > 0) {
+			alert(
+				`Already booked at this time: ${formatResourceNames(resources, conflict.resourceIds)}. Please choose another time or resource.`
+			);
+			return;
+		}
+
+		if (conflict.conflictingAppointments.some(appointment => appointment.doctor === bookingForm.doctor)) {
 			const proceed = window.confirm(
 				`Warning: ${bookingForm.doctor} already has an appointment at this time.\nProceed anyway?`
 			);
@@ -935,14 +1019,18 @@ export default function Appointments() {
 				staffId: staffMember.id,
 				date: bookingForm.date,
 				time: bookingForm.time,
+				duration: bookingDuration,
+				serviceType: bookingForm.serviceType || null,
 				status: 'pending' as AdminAppointmentStatus,
 				notes: bookingForm.notes?.trim() || null,
+				resourceIds: bookingForm.resourceIds,
 				isConsultation: isConsultation,
+				noShowOverride,
 				createdAt: serverTimestamp(),
 			});
 
-			// Update remaining sessions for the patient, if totalSessionsRequired is set
-			if (typeof selectedPatient.totalSessionsRequired === 'number') {
+			// Update remaining sessions for the patient, if totalSessionsRequired is set; a package keeps its own count
+			if (!selectedPatient.activePackageId && typeof selectedPatient.totalSessionsRequired === 'number') {
 				const completedCount = appointments.filter(
 					a => a.patientId === bookingForm.patientId && a.status === 'completed'
 				).length;
@@ -1267,7 +1355,10 @@ export default function Appointments() {
 									</label>
 									<select
 										value={bookingForm.patientId}
-										onChange={event => setBookingForm(prev => ({ ...prev, patientId: event.target.value }))}
+										onChange={event => {
+											setBookingForm(prev => ({ ...prev, patientId: event.target.value }));
+											setNoShowOverrideReason('');
+										}}
 										className="select-base mt-2"
 										required
 									>
@@ -1295,6 +1386,16 @@ export default function Appointments() {
 									)}
 								</div>
 
+								{bookingForm.patientId && (
+									<NoShowBookingNotice
+										noShowCount={patients.find(p => p.patientId === bookingForm.patientId)?.noShowCount}
+										policy={noShowPolicy}
+										overrideReason={noShowOverrideReason}
+										onOverrideReasonChange={setNoShowOverrideReason}
+										disabled={bookingLoading}
+									/>
+								)}
+
 								<div>
 									<label className="block text-sm font-medium text-slate-700">
 										Clinician <span className="text-rose-500">*</span>
@@ -1357,6 +1458,27 @@ export default function Appointments() {
 									</div>
 								</div>
 
+								<ServiceSelect
+									value={bookingForm.serviceType}
+									onChange={serviceType =>
+										setBookingForm(prev => ({
+											...prev,
+											serviceType,
+											doctor: '',
+											resourceIds: getServiceResourceIds(resources, serviceType),
+										}))
+									}
+									disabled={bookingLoading}
+								/>
+
+								<ResourcePicker
+									resources={resources}
+									selected={bookingForm.resourceIds}
+									onChange={resourceIds => setBookingForm(prev => ({ ...prev, resourceIds }))}
+									busyResourceIds={busyResourceIds}
+									disabled={bookingLoading}
+								/>
+
 								<div>
 									<label className="block text-sm font-medium text-slate-700">Notes (optional)</label>
 									<textarea
@@ -1531,6 +1653,7 @@ export default function Appointments() {
 																<option value="ongoing">Ongoing</option>
 																<option value="completed">Completed</option>
 																<option value="cancelled">Cancelled</option>
+																<option value="no-show">No-show</option>
 															</select>
 														</td>
 														<td className="px-4 py-4">
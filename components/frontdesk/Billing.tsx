@@ -19,7 +19,32 @@ import {
 } from 'firebase/firestore';
 import * as XLSX from 'xlsx';
 import { db } from '@/lib/firebase';
+import { PENDING_INVOICE_NUMBER, hasIssuedInvoiceNumber } from '@/lib/invoiceNumbering';
+import { requestInvoiceNumber } from '@/lib/invoiceNumberingClient';
+import {
+	GST_STATES,
+	calculateGst,
+	getGstEntity,
+	getGstStateName,
+	getGstinStateCode,
+	parseBillGstSnapshot,
+	resolveBillGst,
+	type BillGstSnapshot,
+	type GstEntity,
+	type GstSettings,
+} from '@/lib/gst';
+import { getCreditedAmount, getNetBillAmount } from '@/lib/creditNotes';
+import { getBillBalance, getPaidAmount, parsePaymentLineDrafts, type PaymentLineDraft } from '@/lib/billPayments';
+import { recordBillPayment } from '@/lib/billPaymentsClient';
+import { debitWalletForBill } from '@/lib/walletClient';
+import { billsOnCompletion, priceCompletedSession, resolveBillingPolicy } from '@/lib/billingPolicies';
+import { billCompletedSession, fetchBillingPolicySettings } from '@/lib/billingPoliciesClient';
+import { getBillLockMessage, isBillLocked } from '@/lib/billingCycles';
+import { useAuth } from '@/contexts/AuthContext';
+import { useGstSettings } from '@/hooks/useGstSettings';
 import PageHeader from '@/components/PageHeader';
+import CreditNoteDialog from '@/components/billing/CreditNoteDialog';
+import PaymentLinesEditor from '@/components/billing/PaymentLinesEditor';
 import {
 	getCurrentBillingCycle,
 	getNextBillingCycle,
@@ -38,19 +63,29 @@ interface BillingRecord {
 	doctor?: string;
 	amount: number;
 	date: string;
-	status: 'Pending' | 'Completed' | 'Auto-Paid';
+	status: 'Pending' | 'Completed' | 'Auto-Paid' | 'Voided';
 	paymentMode?: string;
 	utr?: string;
+	amountPaid?: number; // Running total of payments recorded against the bill
 	createdAt?: string | Timestamp;
 	updatedAt?: string | Timestamp;
 
 	// Invoice-related fields (may or may not exist in Firestore)
 	invoiceNo?: string;
+	invoiceSequence?: number; // Set once the server has issued invoiceNo
 	invoiceGeneratedAt?: string;
+	gst?: BillGstSnapshot; // Tax as printed on the invoice
+
+	// Reversals: running totals of credit notes issued against the bill
+	creditedAmount?: number;
+	refundedAmount?: number;
+	voidReason?: string;
 
 	// Package-related fields
 	packageAmount?: number;
 	packageSessions?: number;
+
+	lockedCycleId?: string; // Set when the bill's billing cycle is closed
 }
 
 function getCurrentMonthYear() {
@@ -107,38 +142,73 @@ function numberToWords(num: number): string {
 	return result || 'Zero Rupees';
 }
 
-/* --------------------------------------------------------
-	GENERATE DYES INVOICE HTML (UAS FIT PVT LTD FORMAT)
----------------------------------------------------------- */
-async function generateDyesInvoiceHtml(invoiceData: {
+// DYES invoices are billed to the Department of Youth Empowerment and Sports, Karnataka
+const DYES_BUYER_GSTIN = '29BLRD00466E1DC';
+
+interface DyesInvoiceData {
 	invoiceNo: string;
 	invoiceDate: string;
 	totalSessions: number;
 	rate: number;
 	amount: number;
-	cgstRate: number;
-	cgstAmount: number;
-	sgstRate: number;
-	sgstAmount: number;
-	totalAmount: number;
 	dateRange: string;
 	sessionsCompleted: string;
-}) {
+}
+
+/**
+ * GST on a DYES invoice, from the DYES entity and rate in the GST settings
+ */
+function getDyesInvoiceTax(settings: GstSettings, amount: number) {
+	const entity = getGstEntity(settings, settings.dyesEntityId);
+	const gst = calculateGst({
+		amount,
+		rate: settings.dyesTax.rate,
+		pricesIncludeTax: settings.pricesIncludeTax,
+		supplierStateCode: entity.stateCode,
+		placeOfSupply: getGstinStateCode(DYES_BUYER_GSTIN),
+	});
+	return { gst, entity, sacCode: settings.dyesTax.sacCode };
+}
+
+/* --------------------------------------------------------
+	GENERATE DYES INVOICE HTML (UAS FIT PVT LTD FORMAT)
+---------------------------------------------------------- */
+async function generateDyesInvoiceHtml(invoiceData: DyesInvoiceData, settings: GstSettings) {
+	const { gst, entity, sacCode } = getDyesInvoiceTax(settings, invoiceData.amount);
 	const invoiceNo = escapeHtml(invoiceData.invoiceNo);
 	const invoiceDate = invoiceData.invoiceDate || new Date().toISOString().split('T')[0];
 	const totalSessions = invoiceData.totalSessions;
 	const rate = invoiceData.rate;
-	const amount = invoiceData.amount;
-	const cgstRate = invoiceData.cgstRate;
-	const cgstAmount = invoiceData.cgstAmount;
-	const sgstRate = invoiceData.sgstRate;
-	const sgstAmount = invoiceData.sgstAmount;
-	const totalAmount = invoiceData.totalAmount;
+	const amount = gst.taxableValue;
+	const totalAmount = gst.total;
 	const dateRange = escapeHtml(invoiceData.dateRange || '');
 	const sessionsCompleted = escapeHtml(invoiceData.sessionsCompleted || '');
 
 	const amountWords = numberToWords(totalAmount);
-	const taxWords = numberToWords(cgstAmount + sgstAmount);
+	const taxWords = numberToWords(gst.totalTax);
+	const formatAmount = (value: number) => value.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+	const taxHeaders = gst.interState
+		? `<th>IGST @ ${gst.igstRate}%</th>`
+		: `<th>CGST @ ${gst.cgstRate}%</th><th>SGST @ ${gst.sgstRate}%</th>`;
+	const taxCells = gst.interState
+		? `<td>${formatAmount(gst.igstAmount)}</td>`
+		: `<td>${formatAmount(gst.cgstAmount)}</td><td>${formatAmount(gst.sgstAmount)}</td>`;
+	const taxBoxes = gst.interState
+		? `<div class="tax-box">
+				<div class="tax-title">IGST</div>
+				<div><strong>Rate:</strong> ${gst.igstRate}%</div>
+				<div><strong>Amount:</strong> ${formatAmount(gst.igstAmount)}</div>
+			</div>`
+		: `<div class="tax-box">
+				<div class="tax-title">CGST</div>
+				<div><strong>Rate:</strong> ${gst.cgstRate}%</div>
+				<div><strong>Amount:</strong> ${formatAmount(gst.cgstAmount)}</div>
+			</div>
+			<div class="tax-box">
+				<div class="tax-title">SGST/UTGST</div>
+				<div><strong>Rate:</strong> ${gst.sgstRate}%</div>
+				<div><strong>Amount:</strong> ${formatAmount(gst.sgstAmount)}</div>
+			</div>`;
 
 	const html = `
 <!DOCTYPE html>
@@ -298,11 +368,11 @@ async function generateDyesInvoiceHtml(invoiceData: {
 
 		<div class="details-grid">
 			<div class="detail-section">
-				<div class="detail-title">Seller (UAS FIT PVT LTD)</div>
-				<div>NO166A, Shobha Malachite, Jakkur Plantation, Bengaluru-64</div>
-				<div><span class="label">GSTIN/UIN:</span>29AACCU3883A1ZB</div>
-				<div><span class="label">State Name:</span>Karnataka</div>
-				<div><span class="label">Code:</span>29</div>
+				<div class="detail-title">Seller (${escapeHtml(entity.legalName)})</div>
+				<div>${escapeHtml(entity.address)}</div>
+				<div><span class="label">GSTIN/UIN:</span>${escapeHtml(entity.gstin)}</div>
+				<div><span class="label">State Name:</span>${escapeHtml(getGstStateName(entity.stateCode))}</div>
+				<div><span class="label">Code:</span>${escapeHtml(entity.stateCode)}</div>
 				<div><span class="label">Contact:</span>+91-9731128396</div>
 			</div>
 			<div class="detail-section">
@@ -310,7 +380,7 @@ async function generateDyesInvoiceHtml(invoiceData: {
 				<div>THE COMMISSIONER</div>
 				<div>Department of Youth Empowerment and Sports</div>
 				<div>Nurpathunga Road, Bangalore</div>
-				<div><span class="label">GSTIN/UIN:</span>29BLRD00466E1DC</div>
+				<div><span class="label">GSTIN/UIN:</span>${DYES_BUYER_GSTIN}</div>
 			</div>
 		</div>
 
@@ -324,21 +394,19 @@ async function generateDyesInvoiceHtml(invoiceData: {
 					<th>Rate</th>
 					<th>Per</th>
 					<th>Amount</th>
-					<th>CGST @ ${cgstRate}%</th>
-					<th>SGST @ ${sgstRate}%</th>
+					${taxHeaders}
 				</tr>
 			</thead>
 			<tbody>
 				<tr>
 					<td>1</td>
 					<td>Physiotherapy Treatment - GST (Total session-${totalSessions})</td>
-					<td>999294</td>
+					<td>${escapeHtml(sacCode)}</td>
 					<td>${totalSessions} unit</td>
 					<td>${rate.toFixed(2)}</td>
 					<td>session</td>
 					<td>${amount.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</td>
-					<td>${cgstAmount.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</td>
-					<td>${sgstAmount.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</td>
+					${taxCells}
 				</tr>
 			</tbody>
 		</table>
@@ -369,22 +437,13 @@ async function generateDyesInvoiceHtml(invoiceData: {
 			</div>
 			<div class="tax-box">
 				<div class="tax-title">Total Tax Amount</div>
-				<div><strong>${(cgstAmount + sgstAmount).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</strong></div>
+				<div><strong>${formatAmount(gst.totalTax)}</strong></div>
 				<div style="font-size: 10px; margin-top: 5px;">${taxWords} Only</div>
 			</div>
 		</div>
 
 		<div class="tax-section">
-			<div class="tax-box">
-				<div class="tax-title">CGST</div>
-				<div><strong>Rate:</strong> ${cgstRate}%</div>
-				<div><strong>Amount:</strong> ${cgstAmount.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</div>
-			</div>
-			<div class="tax-box">
-				<div class="tax-title">SGST/UTGST</div>
-				<div><strong>Rate:</strong> ${sgstRate}%</div>
-				<div><strong>Amount:</strong> ${sgstAmount.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</div>
-			</div>
+			${taxBoxes}
 		</div>
 
 		<div class="bank-details">
@@ -492,28 +551,37 @@ async function getLogoAsDataUrl(): Promise<string> {
 async function generateInvoiceHtml(
 	bill: BillingRecord, 
 	invoiceNo: string,
-	options?: {
+	options: {
 		patientName?: string;
 		patientAddress?: string;
 		patientCity?: string;
 		description?: string;
-		hsnSac?: string;
-		cgstRate?: number;
-		sgstRate?: number;
 		companyBankDetails?: string;
 		patientType?: string;
+		gst: BillGstSnapshot;
+		entity: GstEntity;
 	}
 ) {
-	const isReferral = (options?.patientType || '').toUpperCase() === 'REFERRAL';
-	const taxableValue = isReferral ? 0 : Number(bill.amount || 0);
-	const cgstRate = options?.cgstRate ?? 5; // Default 5% CGST
-	const sgstRate = options?.sgstRate ?? 5; // Default 5% SGST
-	const cgstAmount = isReferral ? 0 : Number((taxableValue * (cgstRate / 100)).toFixed(2));
-	const sgstAmount = isReferral ? 0 : Number((taxableValue * (sgstRate / 100)).toFixed(2));
-	const grandTotal = isReferral ? 0 : Number((taxableValue + cgstAmount + sgstAmount).toFixed(2));
+	const { gst, entity } = options;
+	const isReferral = (options.patientType || '').toUpperCase() === 'REFERRAL';
+	const taxableValue = isReferral ? 0 : gst.taxableValue;
+	const grandTotal = isReferral ? 0 : gst.total;
+	const formatAmount = (value: number) => (isReferral ? 'N/A' : value.toFixed(2));
 
 	const words = isReferral ? 'N/A' : numberToWords(grandTotal);
-	const taxWords = isReferral ? 'N/A' : numberToWords(cgstAmount + sgstAmount);
+	const taxWords = isReferral ? 'N/A' : numberToWords(gst.totalTax);
+
+	const taxLabels = gst.interState ? `IGST @ ${gst.igstRate}%` : `CGST @ ${gst.cgstRate}%<br>SGST @ ${gst.sgstRate}%`;
+	const taxRates = gst.interState ? `${gst.igstRate}%` : `${gst.cgstRate}%<br>${gst.sgstRate}%`;
+	const taxAmounts = gst.interState
+		? formatAmount(gst.igstAmount)
+		: `${formatAmount(gst.cgstAmount)}<br>${formatAmount(gst.sgstAmount)}`;
+	const taxSummaryCells = gst.interState
+		? `<td>${gst.igstRate}%</td><td>${formatAmount(gst.igstAmount)}</td>`
+		: `<td>${gst.cgstRate}%</td><td>${formatAmount(gst.cgstAmount)}</td><td>${gst.sgstRate}%</td><td>${formatAmount(gst.sgstAmount)}</td>`;
+	const taxSummaryTotalCells = gst.interState
+		? `<td></td><td>${formatAmount(gst.igstAmount)}</td>`
+		: `<td></td><td>${formatAmount(gst.cgstAmount)}</td><td></td><td>${formatAmount(gst.sgstAmount)}</td>`;
 	const showDate = bill.date || new Date().toLocaleDateString('en-IN');
 
 	// Show last 5 digits of UTR if payment mode is UPI / Online
@@ -528,7 +596,7 @@ async function generateInvoiceHtml(
 	const buyerAddress = options?.patientAddress || `Patient ID: ${escapeHtml(bill.patientId)}`;
 	const buyerCity = options?.patientCity || (bill.doctor ? `Doctor: ${escapeHtml(bill.doctor)}` : '');
 	const description = options?.description || 'Physiotherapy / Strength & Conditioning Sessions';
-	const hsnSac = options?.hsnSac || '9993';
+	const hsnSac = gst.sacCode;
 
 	// Convert logo to base64 data URL for reliable printing/downloading
 	const logoDataUrl = await getLogoAsDataUrl();
@@ -629,12 +697,12 @@ async function generateInvoiceHtml(
 							<img src="${logoDataUrl}" alt="Company Logo" style="width: 100px; height: auto; flex-shrink: 0;">
 							<div>
 								${headerConfig ? headerLines : (headerLines || 
-									`<span class="bold" style="font-size: 14px;">CENTRE FOR SPORTS AND SCIENCE</span><br>
-									Blr: No.503, 5th Floor Donata Marvel Apartment,<br>
-									Gokula Extension, Mattikere, Bangalore-560054<br>
-									<strong>GSTIN/UIN:</strong> 07ADZFS3168H1ZC<br>
+									`<span class="bold" style="font-size: 14px;">${escapeHtml(entity.legalName.toUpperCase())}</span><br>
+									${escapeHtml(entity.address)}<br>
 									Contact: +91-9731128398 / 9916509206<br>
-									E-Mail: sportsixs2019@gmail.com`)}
+									E-Mail: sportsixs2019@gmail.com`)}<br>
+								<strong>GSTIN/UIN:</strong> ${escapeHtml(entity.gstin)}<br>
+								<strong>State Name:</strong> ${escapeHtml(getGstStateName(entity.stateCode))}, Code: ${escapeHtml(entity.stateCode)}
 							</div>
 						</div>
 					</td>
@@ -660,7 +728,8 @@ async function generateInvoiceHtml(
 						<strong>Billed to</strong><br>
 						${buyerName}<br>
 						${buyerAddress}<br>
-						${buyerCity}
+						${buyerCity}<br>
+						<strong>Place of Supply:</strong> ${escapeHtml(getGstStateName(gst.placeOfSupply))} (${escapeHtml(gst.placeOfSupply)})
 					</td>
 				</tr>
 			</table>
@@ -693,24 +762,22 @@ async function generateInvoiceHtml(
 						<td style="border-bottom: 1px solid #000;">
 							<br><br>
 							<div class="text-right" style="padding-right: 10px;">
-								CGST @ ${cgstRate}%<br>
-								SGST @ ${sgstRate}%
+								${taxLabels}
 							</div>
 						</td>
 						<td style="border-bottom: 1px solid #000;"></td>
 						<td style="border-bottom: 1px solid #000;"></td>
 						<td style="border-bottom: 1px solid #000;">
 							<br><br><br>
-							<div class="text-center">${cgstRate}%<br>${sgstRate}%</div>
+							<div class="text-center">${taxRates}</div>
 						</td>
 						<td style="border-bottom: 1px solid #000;">
 							<br><br><br>
-							<div class="text-center">%<br>%</div>
+							<div class="text-center">${gst.interState ? '%' : '%<br>%'}</div>
 						</td>
 						<td style="border-bottom: 1px solid #000;" class="text-right">
 							<br><br>
-							${isReferral ? 'N/A' : cgstAmount.toFixed(2)}<br>
-							${isReferral ? 'N/A' : sgstAmount.toFixed(2)}
+							${taxAmounts}
 						</td>
 					</tr>
 					
@@ -730,33 +797,23 @@ async function generateInvoiceHtml(
 				<tr>
 					<td rowspan="2">HSN/SAC</td>
 					<td rowspan="2">Taxable Value</td>
-					<td colspan="2">CGST</td>
-					<td colspan="2">SGST</td>
+					${gst.interState ? '<td colspan="2">IGST</td>' : '<td colspan="2">CGST</td><td colspan="2">SGST</td>'}
 					<td rowspan="2">Total Tax Amount</td>
 				</tr>
 				<tr>
-					<td>Rate</td>
-					<td>Amount</td>
-					<td>Rate</td>
-					<td>Amount</td>
+					${gst.interState ? '<td>Rate</td><td>Amount</td>' : '<td>Rate</td><td>Amount</td><td>Rate</td><td>Amount</td>'}
 				</tr>
 				<tr>
 					<td>${escapeHtml(hsnSac)}</td>
 					<td>${isReferral ? 'N/A' : taxableValue.toFixed(2)}</td>
-					<td>${cgstRate}%</td>
-					<td>${isReferral ? 'N/A' : cgstAmount.toFixed(2)}</td>
-					<td>${sgstRate}%</td>
-					<td>${isReferral ? 'N/A' : sgstAmount.toFixed(2)}</td>
-					<td>${isReferral ? 'N/A' : (cgstAmount + sgstAmount).toFixed(2)}</td>
+					${taxSummaryCells}
+					<td>${isReferral ? 'N/A' : gst.totalTax.toFixed(2)}</td>
 				</tr>
 				<tr class="bold">
 					<td class="text-right">Total</td>
 					<td>${isReferral ? 'N/A' : taxableValue.toFixed(2)}</td>
-					<td></td>
-					<td>${isReferral ? 'N/A' : cgstAmount.toFixed(2)}</td>
-					<td></td>
-					<td>${isReferral ? 'N/A' : sgstAmount.toFixed(2)}</td>
-					<td>${isReferral ? 'N/A' : (cgstAmount + sgstAmount).toFixed(2)}</td>
+					${taxSummaryTotalCells}
+					<td>${isReferral ? 'N/A' : gst.totalTax.toFixed(2)}</td>
 				</tr>
 			</table>
 
@@ -779,7 +836,7 @@ async function generateInvoiceHtml(
 						Branch & IFS Code: CNRB0000444`}<br><br>
 						
 						<div class="text-right" style="margin-top: 20px;">
-							for <strong>CENTRE FOR SPORTS AND SCIENCE</strong><br><br><br>
+							for <strong>${escapeHtml(entity.legalName.toUpperCase())}</strong><br><br><br>
 							Authorised Signatory
 						</div>
 					</td>
@@ -824,9 +881,20 @@ async function getReceiptLogoAsDataUrl(): Promise<string> {
 /* --------------------------------------------------------
 	GENERATE RECEIPT HTML (MATCHING RECEIPT IMAGE FORMAT)
 ---------------------------------------------------------- */
-async function generateReceiptHtml(bill: BillingRecord, receiptNo: string, options?: { patientType?: string }) {
-	const isReferral = (options?.patientType || '').toUpperCase() === 'REFERRAL';
+async function generateReceiptHtml(
+	bill: BillingRecord,
+	receiptNo: string,
+	options: { patientType?: string; gst: BillGstSnapshot; entity: GstEntity }
+) {
+	const { gst, entity } = options;
+	const isReferral = (options.patientType || '').toUpperCase() === 'REFERRAL';
 	const amount = isReferral ? 'N/A' : Number(bill.amount || 0).toFixed(2);
+	// Only shown when the amount received is the tax-inclusive invoice total
+	const includedTax = !isReferral && gst.totalTax > 0 && gst.total === Number(bill.amount || 0)
+		? gst.interState
+			? `IGST Rs. ${gst.igstAmount.toFixed(2)}`
+			: `CGST Rs. ${gst.cgstAmount.toFixed(2)} + SGST Rs. ${gst.sgstAmount.toFixed(2)}`
+		: '';
 	const words = isReferral ? 'N/A' : numberToWords(Number(bill.amount || 0));
 	const showDate = bill.date || new Date().toLocaleDateString('en-IN');
 	
@@ -983,6 +1051,7 @@ async function generateReceiptHtml(bill: BillingRecord, receiptNo: string, optio
 							<h2>Centre For Sports Science</h2>
 							<p>Sports & Business Solutions Pvt. Ltd.</p>
 							<p>Sri Kanteerava Outdoor Stadium · Bangalore · +91 97311 28396</p>
+							<p>GSTIN: ${escapeHtml(entity.gstin)}</p>
 						</div>
 					</div>
 					<div class="header-right">
@@ -1011,6 +1080,7 @@ async function generateReceiptHtml(bill: BillingRecord, receiptNo: string, optio
 					${escapeHtml(bill.appointmentId || '')}<br>
 					${bill.doctor ? `Doctor: ${escapeHtml(bill.doctor)}<br>` : ''}
 					Payment Mode: ${escapeHtml(paymentModeDisplay)}
+					${includedTax ? `<br>Includes ${includedTax}` : ''}
 					<div class="digitally-signed">Digitally Signed</div>
 				</div>
 				<div class="footer">
@@ -1064,12 +1134,15 @@ function parseDateString(dateStr: string): Date | null {
 }
 
 export default function Billing() {
+	const { user } = useAuth();
+	const { settings: gstSettings } = useGstSettings();
 	const [billing, setBilling] = useState<BillingRecord[]>([]);
 	const [appointments, setAppointments] = useState<any[]>([]);
 	const [loading, setLoading] = useState(true);
 	const [filterRange, setFilterRange] = useState<string>('30');
 	const [selectedBill, setSelectedBill] = useState<BillingRecord | null>(null);
 	const [showPayModal, setShowPayModal] = useState(false);
+	const [creditNoteBill, setCreditNoteBill] = useState<BillingRecord | null>(null);
 	const [showPaymentSlipModal, setShowPaymentSlipModal] = useState(false);
 	const [isEditingReceipt, setIsEditingReceipt] = useState(false);
 	const [editableReceiptData, setEditableReceiptData] = useState<{
@@ -1082,8 +1155,7 @@ export default function Billing() {
 		doctor?: string;
 		appointmentId?: string;
 	} | null>(null);
-	const [paymentMode, setPaymentMode] = useState<'Cash' | 'UPI/Card'>('Cash');
-	const [utr, setUtr] = useState('');
+	const [paymentLines, setPaymentLines] = useState<PaymentLineDraft[]>([]);
 	const [paymentAmount, setPaymentAmount] = useState<number | string>(0);
 	const [paymentDate, setPaymentDate] = useState<string>('');
 	const [syncing, setSyncing] = useState(false);
@@ -1110,9 +1182,8 @@ export default function Billing() {
 		description: string;
 		paymentMode: string;
 		referenceNo: string;
-		hsnSac: string;
-		cgstRate: number;
-		sgstRate: number;
+		serviceTypeId?: string;
+		placeOfSupply: string; // GST state code
 		companyBankDetails?: string;
 		patientType?: string;
 	} | null>(null);
@@ -1127,20 +1198,7 @@ export default function Billing() {
 	const [dyesDateFilterFrom, setDyesDateFilterFrom] = useState<string>('');
 	const [dyesDateFilterTo, setDyesDateFilterTo] = useState<string>('');
 	const [showDyesInvoiceModal, setShowDyesInvoiceModal] = useState(false);
-	const [editableDyesInvoice, setEditableDyesInvoice] = useState<{
-		invoiceNo: string;
-		invoiceDate: string;
-		totalSessions: number;
-		rate: number;
-		amount: number;
-		cgstRate: number;
-		cgstAmount: number;
-		sgstRate: number;
-		sgstAmount: number;
-		totalAmount: number;
-		dateRange: string;
-		sessionsCompleted: string;
-	} | null>(null);
+	const [editableDyesInvoice, setEditableDyesInvoice] = useState<DyesInvoiceData | null>(null);
 
 	// Load billing records from Firestore (ordered by createdAt desc)
 	useEffect(() => {
@@ -1163,13 +1221,20 @@ export default function Billing() {
 						doctor: data.doctor ? String(data.doctor) : undefined,
 						amount: data.amount ? Number(data.amount) : 0,
 						date: data.date ? String(data.date) : '',
-						status: (data.status as 'Pending' | 'Completed') || 'Pending',
+						status: (data.status as BillingRecord['status']) || 'Pending',
 						paymentMode: data.paymentMode ? String(data.paymentMode) : undefined,
 						utr: data.utr ? String(data.utr) : undefined,
+						amountPaid: typeof data.amountPaid === 'number' ? data.amountPaid : undefined,
 						createdAt: created ? created.toISOString() : undefined,
 						updatedAt: updated ? updated.toISOString() : undefined,
 						invoiceNo: data.invoiceNo ? String(data.invoiceNo) : undefined,
+						invoiceSequence: typeof data.invoiceSequence === 'number' ? data.invoiceSequence : undefined,
 						invoiceGeneratedAt: data.invoiceGeneratedAt ? String(data.invoiceGeneratedAt) : undefined,
+						gst: parseBillGstSnapshot(data.gst),
+						creditedAmount: typeof data.creditedAmount === 'number' ? data.creditedAmount : undefined,
+						refundedAmount: typeof data.refundedAmount === 'number' ? data.refundedAmount : undefined,
+						lockedCycleId: data.lockedCycleId ? String(data.lockedCycleId) : undefined,
+						voidReason: data.voidReason ? String(data.voidReason) : undefined,
 						packageAmount: data.packageAmount ? Number(data.packageAmount) : undefined,
 						packageSessions: data.packageSessions ? Number(data.packageSessions) : undefined,
 					} as BillingRecord;
@@ -1255,6 +1320,7 @@ export default function Billing() {
 		const syncAppointmentsToBilling = async () => {
 			setSyncing(true);
 			try {
+				const policySettings = await fetchBillingPolicySettings();
 				const completedAppointments = appointments.filter(appt => appt.status === 'completed');
 				const existingBillingIds = new Set(billing.map(b => b.appointmentId).filter(Boolean));
 
@@ -1297,112 +1363,60 @@ export default function Billing() {
 					// Check if this is an extra treatment (extra treatments should still be billed individually)
 					const isExtraTreatment = appt.isExtraTreatment === true;
 
-					// Apply billing rules based on patient type
-					let shouldCreateBill = false;
-					let billAmount = standardAmount;
-
 					// Skip billing for package patients unless it's an extra treatment
 					// Also skip if a package billing record already exists (even if patient data doesn't show package)
-					if ((hasPackage || hasPackageBillingRecord) && !isExtraTreatment) {
-						shouldCreateBill = false;
-						continue; // Skip to next appointment
-					} else if (patientType === 'Referral' || patientType === 'REFERRAL') {
-						// Referral: Create billing record with 0 amount (will show N/A in invoices/receipts)
-						shouldCreateBill = true;
-						billAmount = 0;
-					} else if (patientType === 'VIP') {
-						// VIP: Create bill for every completed session as normal (only if no package)
-						// VIP patients have no amount (set to 0)
-						shouldCreateBill = true;
-						billAmount = 0;
-					} else if (patientType === 'Paid') {
-						// Paid: Check paymentType
-						shouldCreateBill = true;
-						if (paymentType === 'with') {
-							// Apply concession discount (assuming 20% discount, adjust as needed)
-							billAmount = standardAmount * 0.8;
-						} else {
-							// Without concession: standard amount
-							billAmount = standardAmount;
-						}
-					} else if (patientType === 'Dyes' || patientType === 'DYES') {
-						// DYES: Automated billing - Rs. 500 per session, status 'Completed' (Paid)
-						// DYES patients don't use packages, so always create billing
-						shouldCreateBill = true;
-						billAmount = 500; // Fixed rate for DYES patients
-					} else if (patientType === 'Gethhma') {
-						// Gethhma: Treat as "Paid" without concession
-						shouldCreateBill = true;
-						billAmount = standardAmount;
-					} else {
-						// Unknown patient type: default behavior (create bill only if no package)
-						shouldCreateBill = true;
-						billAmount = standardAmount;
-					}
+					if ((hasPackage || hasPackageBillingRecord) && !isExtraTreatment) continue;
 
-					// Create billing record if rules allow
-					if (shouldCreateBill) {
-						// Check if billing record already exists
-						const existingQuery = query(collection(db, 'billing'), where('appointmentId', '==', appt.appointmentId));
-						const existingSnapshot = await getDocs(existingQuery);
-						
-						// Determine status based on patient type and billing rules
-						let billStatus: 'Pending' | 'Completed' | 'Auto-Paid' = 'Pending';
-						if (patientType === 'Dyes' || patientType === 'DYES') {
-							// DYES patients: Auto-Paid and marked as 'Completed' (bypasses Pending Payments)
-							billStatus = 'Completed';
-						} else if (patientType === 'VIP') {
-							// VIP patients: Auto-Paid and marked as 'Completed' when session is completed
-							billStatus = 'Completed';
-						} else if (billAmount > 0) {
-							billStatus = 'Pending';
-						}
-
-						if (!existingSnapshot.empty) {
-							// Billing record exists - update it if it's a DYES or VIP patient to ensure correct status and amount
-							const existingBill = existingSnapshot.docs[0];
-							const existingBillData = existingBill.data();
-							
-							if (patientType === 'Dyes' || patientType === 'DYES') {
-								// For DYES patients, update existing bills to ensure status is 'Completed' and amount is 500
-								if (existingBillData.status !== 'Completed' || existingBillData.amount !== 500) {
-									await updateDoc(doc(db, 'billing', existingBill.id), {
-										amount: 500,
-										status: 'Completed',
-										paymentMode: 'Auto-Paid',
-										updatedAt: serverTimestamp(),
-									});
-								}
-							} else if (patientType === 'VIP') {
-								// For VIP patients, update existing bills to ensure status is 'Completed' and amount is 0
-								if (existingBillData.status !== 'Completed' || existingBillData.amount !== 0) {
-									await updateDoc(doc(db, 'billing', existingBill.id), {
-										amount: 0,
-										status: 'Completed',
-										paymentMode: 'Auto-Paid',
-										updatedAt: serverTimestamp(),
-									});
-								}
-							}
-							continue;
-						}
-
-						const billingId = 'BILL-' + (appt.appointmentId || Date.now().toString());
-						
-						await addDoc(collection(db, 'billing'), {
-							billingId,
+					const policy = resolveBillingPolicy(policySettings, patientType);
+					if (billsOnCompletion(policy)) {
+						// Free, auto-paid and sponsored sessions are billed when completed; this catches any that were missed
+						await billCompletedSession({
+							patientType,
 							appointmentId: appt.appointmentId,
-							patient: appt.patient || '',
+							appointmentDocId: appt.id,
 							patientId: appt.patientId || '',
-							doctor: appt.doctor || '',
-							amount: billAmount,
-							date: appt.date || new Date().toISOString().split('T')[0],
-							status: billStatus,
-							paymentMode: billStatus === 'Completed' && (patientType === 'Dyes' || patientType === 'DYES' || patientType === 'VIP') ? 'Auto-Paid' : null,
-							utr: null,
-							createdAt: serverTimestamp(),
-							updatedAt: serverTimestamp(),
+							patientName: appt.patient || '',
+							doctorName: appt.doctor || '',
+							appointmentDate: appt.date || '',
+							standardAmount,
+							paymentType,
+							createdByUserId: user?.uid || null,
+							createdByUserName: user?.displayName || user?.email || null,
+							isExtraTreatment,
+							settings: policySettings,
 						});
+						continue;
+					}
+
+					const charge = priceCompletedSession(policy, { standardAmount, paymentType, isExtraTreatment });
+					const billingId = 'BILL-' + (appt.appointmentId || Date.now().toString());
+
+					const sessionBillRef = await addDoc(collection(db, 'billing'), {
+						billingId,
+						appointmentId: appt.appointmentId,
+						patient: appt.patient || '',
+						patientId: appt.patientId || '',
+						doctor: appt.doctor || '',
+						amount: charge.amount,
+						date: appt.date || new Date().toISOString().split('T')[0],
+						status: charge.status,
+						paymentMode: charge.paymentMode,
+						utr: null,
+						billingPolicy: policy.key,
+						createdAt: serverTimestamp(),
+						updatedAt: serverTimestamp(),
+					});
+
+					// Completed sessions are paid from any advance deposit in the patient's wallet
+					if (charge.amount > 0) {
+						try {
+							await debitWalletForBill(sessionBillRef.id, {
+								createdBy: user?.uid,
+								createdByName: user?.displayName || user?.email || null,
+							});
+						} catch (walletError) {
+							console.error('Failed to charge session to wallet', walletError);
+						}
 					}
 				}
 			} catch (error) {
@@ -1416,14 +1430,14 @@ export default function Billing() {
 		// eslint-disable-next-line react-hooks/exhaustive-deps
 	}, [appointments.length, billing.length]);
 
-	// Auto-complete pending payments for existing VIP patients with completed appointments
+	// Auto-complete pending payments for patients on an auto-paid policy (e.g. VIP) with completed appointments
 	useEffect(() => {
 		if (loading || billing.length === 0 || patients.length === 0 || appointments.length === 0) return;
 
 		const updateVIPPayments = async () => {
 			try {
-				// Get all VIP patients
-				const vipPatients = patients.filter(p => (p.patientType || '').toUpperCase() === 'VIP');
+				const policySettings = await fetchBillingPolicySettings();
+				const vipPatients = patients.filter(p => resolveBillingPolicy(policySettings, p.patientType).mode === 'auto-paid');
 				
 				if (vipPatients.length === 0) return;
 
@@ -1497,7 +1511,7 @@ export default function Billing() {
 	const monthlyTotal = useMemo(() => {
 		return filteredBilling
 			.filter(b => b.status === 'Completed' || b.status === 'Auto-Paid')
-			.reduce((sum, bill) => sum + (bill.amount || 0), 0);
+			.reduce((sum, bill) => sum + getNetBillAmount(bill), 0);
 	}, [filteredBilling]);
 
 	// Create a lookup map for patients with packages
@@ -1586,7 +1600,7 @@ export default function Billing() {
 				const billDateStr = parsedDate.toISOString().split('T')[0];
 				return billDateStr === todayStr;
 			})
-			.reduce((sum, bill) => sum + (bill.amount || 0), 0);
+			.reduce((sum, bill) => sum + getNetBillAmount(bill), 0);
 
 		return {
 			patientsRegisteredToday: patientsRegisteredToday.length,
@@ -1688,7 +1702,7 @@ export default function Billing() {
 		const completedCount = cycleBills.filter(b => b.status === 'Completed' || b.status === 'Auto-Paid').length;
 		const collections = cycleBills
 			.filter(b => b.status === 'Completed' || b.status === 'Auto-Paid')
-			.reduce((sum, bill) => sum + (bill.amount || 0), 0);
+			.reduce((sum, bill) => sum + getNetBillAmount(bill), 0);
 
 		return {
 			pending: pendingCount,
@@ -1699,8 +1713,7 @@ export default function Billing() {
 
 	const handlePay = (bill: BillingRecord) => {
 		setSelectedBill(bill);
-		setPaymentMode('Cash');
-		setUtr('');
+		setPaymentLines([{ mode: 'Cash', amount: getBillBalance(bill).toFixed(2), reference: '' }]);
 		const patient = patients.find(p => p.patientId === bill.patientId);
 		const isReferral = (patient?.patientType || '').toUpperCase() === 'REFERRAL';
 		setPaymentAmount(isReferral ? 'N/A' : bill.amount);
@@ -1715,20 +1728,51 @@ export default function Billing() {
 		const paymentAmountStr = String(paymentAmount).trim().toUpperCase();
 		const amountToSave = paymentAmountStr === 'N/A' ? 0 : (typeof paymentAmount === 'number' ? paymentAmount : parseFloat(String(paymentAmount)) || 0);
 
+		// A bill in a closed cycle keeps its amount and date; the payment is recorded in the open period
+		const locked = isBillLocked(selectedBill);
+
 		try {
-			const billingRef = doc(db, 'billing', selectedBill.id);
-			await updateDoc(billingRef, {
-				status: 'Completed',
-				amount: amountToSave,
-				paymentMode,
-				utr: paymentMode === 'UPI/Card' ? utr : null,
-				date: paymentDate,
-				updatedAt: serverTimestamp(),
-			});
+			if (paymentAmountStr === 'N/A') {
+				if (locked) {
+					alert(getBillLockMessage(selectedBill));
+					return;
+				}
+				// Referral visits are not charged, so there is nothing to record in the payments ledger
+				await updateDoc(doc(db, 'billing', selectedBill.id), {
+					status: 'Completed',
+					amount: amountToSave,
+					paymentMode: 'N/A',
+					utr: null,
+					date: paymentDate,
+					updatedAt: serverTimestamp(),
+				});
+			} else {
+				const parsed = parsePaymentLineDrafts(paymentLines);
+				if ('error' in parsed) {
+					alert(parsed.error);
+					return;
+				}
+				const result = await recordBillPayment({
+					billingDocId: selectedBill.id,
+					lines: parsed.lines,
+					paidOn: (!locked && paymentDate) || new Date().toISOString().split('T')[0],
+					collectedBy: user?.uid,
+					collectedByName: user?.displayName || user?.email || null,
+					billUpdates: locked
+						? {}
+						: {
+								// The amount can only be changed before anything has been paid against it
+								...(getPaidAmount(selectedBill) === 0 ? { amount: amountToSave } : {}),
+								...(paymentDate ? { date: paymentDate } : {}),
+							},
+				});
+				if (result.balance > 0) {
+					alert(`Payment recorded. Rs. ${result.balance.toFixed(2)} is still due on this bill.`);
+				}
+			}
 			setShowPayModal(false);
 			setSelectedBill(null);
-			setPaymentMode('Cash');
-			setUtr('');
+			setPaymentLines([]);
 			setPaymentAmount(0);
 			setPaymentDate('');
 		} catch (error) {
@@ -1742,6 +1786,18 @@ export default function Billing() {
 			alert('Cannot delete: Billing record ID is missing.');
 			return;
 		}
+		if (hasIssuedInvoiceNumber(bill)) {
+			alert(`Cannot delete: invoice ${bill.invoiceNo} has been issued for this bill, so it must stay on record.`);
+			return;
+		}
+		if (getCreditedAmount(bill) > 0) {
+			alert('Cannot delete: credit notes have been issued against this bill, so it must stay on record.');
+			return;
+		}
+		if (isBillLocked(bill)) {
+			alert(`Cannot delete: ${getBillLockMessage(bill)}`);
+			return;
+		}
 
 		const confirmMessage = `Are you sure you want to delete the billing record for ${bill.patient} (${bill.billingId})?\n\nThis action cannot be undone and will remove the record from the monthly cycle.`;
 		
@@ -1971,6 +2027,10 @@ export default function Billing() {
 
 	const handleSaveReceipt = async () => {
 		if (!selectedBill || !editableReceiptData) return;
+		if (isBillLocked(selectedBill)) {
+			alert(getBillLockMessage(selectedBill));
+			return;
+		}
 
 		try {
 			const billingRef = doc(db, 'billing', selectedBill.id!);
@@ -2026,7 +2086,12 @@ export default function Billing() {
 		const receiptNo = billToPrint.billingId || `BILL-${billToPrint.id?.slice(0, 8) || 'NA'}`;
 		const patient = patients.find(p => p.patientId === billToPrint.patientId);
 		const patientType = patient?.patientType || '';
-		const html = await generateReceiptHtml(billToPrint, receiptNo, { patientType });
+		const gst = resolveBillGst(gstSettings, selectedBill, { amount: billToPrint.amount });
+		const html = await generateReceiptHtml(billToPrint, receiptNo, {
+			patientType,
+			gst,
+			entity: getGstEntity(gstSettings, gst.entityId),
+		});
 		const printWindow = window.open('', '_blank');
 
 		if (!printWindow) {
@@ -2187,13 +2252,20 @@ export default function Billing() {
 								doctor: data.doctor ? String(data.doctor) : undefined,
 								amount: data.amount ? Number(data.amount) : 0,
 								date: data.date ? String(data.date) : '',
-								status: (data.status as 'Pending' | 'Completed' | 'Auto-Paid') || 'Pending',
+								status: (data.status as BillingRecord['status']) || 'Pending',
 								paymentMode: data.paymentMode ? String(data.paymentMode) : undefined,
 								utr: data.utr ? String(data.utr) : undefined,
+								amountPaid: typeof data.amountPaid === 'number' ? data.amountPaid : undefined,
 								createdAt: created ? created.toISOString() : undefined,
 								updatedAt: updated ? updated.toISOString() : undefined,
 								invoiceNo: data.invoiceNo ? String(data.invoiceNo) : undefined,
+								invoiceSequence: typeof data.invoiceSequence === 'number' ? data.invoiceSequence : undefined,
 								invoiceGeneratedAt: data.invoiceGeneratedAt ? String(data.invoiceGeneratedAt) : undefined,
+								gst: parseBillGstSnapshot(data.gst),
+								creditedAmount: typeof data.creditedAmount === 'number' ? data.creditedAmount : undefined,
+								refundedAmount: typeof data.refundedAmount === 'number' ? data.refundedAmount : undefined,
+								lockedCycleId: data.lockedCycleId ? String(data.lockedCycleId) : undefined,
+								voidReason: data.voidReason ? String(data.voidReason) : undefined,
 							} as BillingRecord);
 						});
 					} catch (billingError: any) {
@@ -2217,13 +2289,20 @@ export default function Billing() {
 									doctor: data.doctor ? String(data.doctor) : undefined,
 									amount: data.amount ? Number(data.amount) : 0,
 									date: data.date ? String(data.date) : '',
-									status: (data.status as 'Pending' | 'Completed' | 'Auto-Paid') || 'Pending',
+									status: (data.status as BillingRecord['status']) || 'Pending',
 									paymentMode: data.paymentMode ? String(data.paymentMode) : undefined,
 									utr: data.utr ? String(data.utr) : undefined,
+									amountPaid: typeof data.amountPaid === 'number' ? data.amountPaid : undefined,
 									createdAt: created ? created.toISOString() : undefined,
 									updatedAt: updated ? updated.toISOString() : undefined,
 									invoiceNo: data.invoiceNo ? String(data.invoiceNo) : undefined,
+									invoiceSequence: typeof data.invoiceSequence === 'number' ? data.invoiceSequence : undefined,
 									invoiceGeneratedAt: data.invoiceGeneratedAt ? String(data.invoiceGeneratedAt) : undefined,
+									gst: parseBillGstSnapshot(data.gst),
+									creditedAmount: typeof data.creditedAmount === 'number' ? data.creditedAmount : undefined,
+									refundedAmount: typeof data.refundedAmount === 'number' ? data.refundedAmount : undefined,
+									lockedCycleId: data.lockedCycleId ? String(data.lockedCycleId) : undefined,
+									voidReason: data.voidReason ? String(data.voidReason) : undefined,
 								} as BillingRecord);
 							});
 						}
@@ -2255,19 +2334,37 @@ export default function Billing() {
 		}
 
 		const rows = [
-			['Bill ID', 'Patient ID', 'Patient Name', 'Appointment ID', 'Doctor', 'Amount', 'Date', 'Status', 'Payment Mode', 'UTR'],
-			...filteredBilling.map(bill => [
-				bill.billingId || '',
-				bill.patientId || '',
-				bill.patient || '',
-				bill.appointmentId || '',
-				bill.doctor || '',
-				bill.amount || 0,
-				bill.date || '',
-				bill.status || '',
-				bill.paymentMode || '',
-				bill.utr || '',
-			]),
+			[
+				'Bill ID', 'Patient ID', 'Patient Name', 'Appointment ID', 'Doctor', 'Amount', 'Date', 'Status', 'Payment Mode', 'UTR',
+				'Invoice No', 'GSTIN', 'SAC', 'Taxable Value', 'CGST', 'SGST', 'IGST', 'Total incl. GST',
+				'Credited', 'Refunded', 'Net Amount',
+			],
+			...filteredBilling.map(bill => {
+				const gst = resolveBillGst(gstSettings, bill);
+				return [
+					bill.billingId || '',
+					bill.patientId || '',
+					bill.patient || '',
+					bill.appointmentId || '',
+					bill.doctor || '',
+					bill.amount || 0,
+					bill.date || '',
+					bill.status || '',
+					bill.paymentMode || '',
+					bill.utr || '',
+					hasIssuedInvoiceNumber(bill) ? bill.invoiceNo || '' : '',
+					gst.gstin,
+					gst.sacCode,
+					gst.taxableValue,
+					gst.cgstAmount,
+					gst.sgstAmount,
+					gst.igstAmount,
+					gst.total,
+					getCreditedAmount(bill),
+					bill.refundedAmount || 0,
+					getNetBillAmount(bill),
+				];
+			}),
 		];
 
 		if (format === 'csv') {
@@ -2303,6 +2400,14 @@ export default function Billing() {
 				{ wch: 12 }, // Status
 				{ wch: 15 }, // Payment Mode
 				{ wch: 20 }, // UTR
+				{ wch: 15 }, // Invoice No
+				{ wch: 18 }, // GSTIN
+				{ wch: 10 }, // SAC
+				{ wch: 14 }, // Taxable Value
+				{ wch: 10 }, // CGST
+				{ wch: 10 }, // SGST
+				{ wch: 10 }, // IGST
+				{ wch: 15 }, // Total incl. GST
 			];
 
 			XLSX.writeFile(wb, `billing-export-${new Date().toISOString().slice(0, 10)}.xlsx`);
@@ -2399,19 +2504,11 @@ export default function Billing() {
 		const billableSessions = dyesBillingData.billableSessions;
 		const rate = 500;
 		const amount = billableSessions * rate;
-		const cgstRate = 9;
-		const sgstRate = 9;
-		const cgstAmount = (amount * cgstRate) / 100;
-		const sgstAmount = (amount * sgstRate) / 100;
-		const totalAmount = amount + cgstAmount + sgstAmount;
 
-		// Generate invoice number (format: SS-019/25-26)
+		// The invoice number is issued by the server when the invoice is downloaded
 		const now = new Date();
-		const currentYear = now.getFullYear();
-		const yearShort = currentYear.toString().slice(-2);
-		const nextYearShort = (currentYear + 1).toString().slice(-2);
-		const financialYear = `${yearShort}-${nextYearShort}`;
-		const invoiceNo = `SS-019/${financialYear}`;
+		const yearShort = now.getFullYear().toString().slice(-2);
+		const invoiceNo = PENDING_INVOICE_NUMBER;
 
 		// Format date as DD-MMM-YY (e.g., 06-Nov-25)
 		const day = now.getDate().toString().padStart(2, '0');
@@ -2431,11 +2528,6 @@ export default function Billing() {
 			totalSessions: billableSessions,
 			rate,
 			amount,
-			cgstRate,
-			cgstAmount,
-			sgstRate,
-			sgstAmount,
-			totalAmount,
 			dateRange: `${firstDayFormatted} to ${lastDayFormatted}`,
 			sessionsCompleted: `Being Dated ${firstDayFormatted} to ${lastDayFormatted} ${dyesBillingData.totalCompletedSessions} Session Completed.`,
 		});
@@ -2445,7 +2537,7 @@ export default function Billing() {
 
 	const handleShowInvoicePreview = (bill: BillingRecord) => {
 		const patient = patients.find(p => p.patientId === bill.patientId);
-		const invoiceNo = bill.invoiceNo || bill.billingId || `INV-${bill.id?.slice(0, 8) || 'NA'}`;
+		const invoiceNo = hasIssuedInvoiceNumber(bill) && bill.invoiceNo ? bill.invoiceNo : PENDING_INVOICE_NUMBER;
 		const invoiceDate = bill.date || new Date().toISOString().split('T')[0];
 		const patientType = patient?.patientType || '';
 		
@@ -2459,9 +2551,8 @@ export default function Billing() {
 			description: 'Physiotherapy / Strength & Conditioning Sessions',
 			paymentMode: bill.paymentMode || 'Cash',
 			referenceNo: bill.appointmentId || '',
-			hsnSac: '9993',
-			cgstRate: 5, // Default 5% CGST
-			sgstRate: 5, // Default 5% SGST
+			serviceTypeId: appointments.find(appointment => appointment.appointmentId === bill.appointmentId)?.serviceType,
+			placeOfSupply: bill.gst?.placeOfSupply || getGstEntity(gstSettings, gstSettings.clinicEntityId).stateCode,
 			companyBankDetails: 'A/c Holder\'s Name: Six Sports & Business Solutions INC\nBank Name: Canara Bank\nA/c No.: 0284201007444\nBranch & IFS Code: CNRB0000444',
 			patientType,
 		});
@@ -2474,6 +2565,12 @@ export default function Billing() {
 		if (!editableInvoice || !selectedBill) return;
 
 		try {
+			if (!selectedBill.id) {
+				alert('This bill has not been saved yet, so it cannot be issued an invoice number.');
+				return;
+			}
+			const { invoiceNo } = await requestInvoiceNumber({ billingDocId: selectedBill.id });
+
 			// Create a modified bill with edited values
 			const modifiedBill: BillingRecord = {
 				...selectedBill,
@@ -2483,17 +2580,17 @@ export default function Billing() {
 				paymentMode: editableInvoice.paymentMode,
 				appointmentId: editableInvoice.referenceNo || selectedBill.appointmentId,
 			};
+			const gst = resolveBillGst(gstSettings, selectedBill, editableInvoice);
 
-			const html = await generateInvoiceHtml(modifiedBill, editableInvoice.invoiceNo, {
+			const html = await generateInvoiceHtml(modifiedBill, invoiceNo, {
 				patientName: editableInvoice.patientName,
 				patientAddress: editableInvoice.patientAddress,
 				patientCity: editableInvoice.patientCity,
 				description: editableInvoice.description,
-				hsnSac: editableInvoice.hsnSac,
-				cgstRate: editableInvoice.cgstRate,
-				sgstRate: editableInvoice.sgstRate,
 				companyBankDetails: editableInvoice.companyBankDetails,
 				patientType: editableInvoice.patientType,
+				gst,
+				entity: getGstEntity(gstSettings, gst.entityId),
 			});
 			
 			const printWindow = window.open('', '_blank');
@@ -2508,13 +2605,11 @@ export default function Billing() {
 			printWindow.focus();
 			printWindow.print();
 
-			// Update Firestore with invoice details
-			if (selectedBill.id) {
-				await updateDoc(doc(db, 'billing', selectedBill.id), {
-					invoiceNo: editableInvoice.invoiceNo,
-					invoiceGeneratedAt: new Date().toISOString(),
-				});
-			}
+			// The invoice number was stored on the bill when it was issued
+			await updateDoc(doc(db, 'billing', selectedBill.id), {
+				invoiceGeneratedAt: new Date().toISOString(),
+				gst,
+			});
 
 			// Close preview
 			setShowInvoicePreview(false);
@@ -2522,7 +2617,7 @@ export default function Billing() {
 			setSelectedBill(null);
 		} catch (error) {
 			console.error('Invoice generation error:', error);
-			alert('Failed to generate invoice. Please try again.');
+			alert(`Failed to generate invoice: ${error instanceof Error ? error.message : 'Unknown error'}`);
 		}
 	};
 
@@ -2538,19 +2633,23 @@ export default function Billing() {
 		}
 
 		const generatePreview = async () => {
-			const html = await generateDyesInvoiceHtml(editableDyesInvoice);
+			const html = await generateDyesInvoiceHtml(editableDyesInvoice, gstSettings);
 			setDyesInvoicePreviewHtml(html);
 		};
 
 		generatePreview();
-	}, [editableDyesInvoice]);
+	}, [editableDyesInvoice, gstSettings]);
 
 	// Handle DYES invoice PDF download
 	const handleDyesInvoicePdfDownload = async () => {
 		if (!editableDyesInvoice) return;
 
 		try {
-			const html = await generateDyesInvoiceHtml(editableDyesInvoice);
+			const { invoiceNo } = await requestInvoiceNumber({ source: 'dyes', reference: editableDyesInvoice.dateRange });
+			const issuedInvoice = { ...editableDyesInvoice, invoiceNo };
+			setEditableDyesInvoice(issuedInvoice);
+
+			const html = await generateDyesInvoiceHtml(issuedInvoice, gstSettings);
 			const printWindow = window.open('', '_blank');
 
 			if (!printWindow) {
@@ -2568,7 +2667,7 @@ export default function Billing() {
 			}, 500);
 		} catch (error) {
 			console.error('Failed to download DYES invoice PDF', error);
-			alert('Failed to download invoice. Please try again.');
+			alert(`Failed to download invoice: ${error instanceof Error ? error.message : 'Unknown error'}`);
 		}
 	};
 
@@ -2587,24 +2686,27 @@ export default function Billing() {
 				paymentMode: editableInvoice.paymentMode,
 				appointmentId: editableInvoice.referenceNo || selectedBill.appointmentId,
 			};
+			const gst = resolveBillGst(gstSettings, selectedBill, editableInvoice);
 
 			const html = await generateInvoiceHtml(modifiedBill, editableInvoice.invoiceNo, {
 				patientName: editableInvoice.patientName,
 				patientAddress: editableInvoice.patientAddress,
 				patientCity: editableInvoice.patientCity,
 				description: editableInvoice.description,
-				hsnSac: editableInvoice.hsnSac,
-				cgstRate: editableInvoice.cgstRate,
-				sgstRate: editableInvoice.sgstRate,
 				companyBankDetails: editableInvoice.companyBankDetails,
 				patientType: editableInvoice.patientType,
+				gst,
+				entity: getGstEntity(gstSettings, gst.entityId),
 			});
 
 			setPreviewHtml(html);
 		};
 
 		generatePreview();
-	}, [editableInvoice, selectedBill]);
+	}, [editableInvoice, selectedBill, gstSettings]);
+
+	const invoiceGst = editableInvoice && selectedBill ? resolveBillGst(gstSettings, selectedBill, editableInvoice) : null;
+	const dyesGst = editableDyesInvoice ? getDyesInvoiceTax(gstSettings, editableDyesInvoice.amount).gst : null;
 
 	return (
 		<div className="min-h-svh bg-slate-50 px-6 py-10">
@@ -2876,6 +2978,11 @@ export default function Billing() {
 															</td>
 															<td className="px-3 py-3 text-sm font-semibold text-slate-900">
 																{isReferral || isVIP ? 'N/A' : `Rs. ${bill.amount}`}
+																{!isReferral && !isVIP && getPaidAmount(bill) > 0 && (
+																	<div className="text-xs font-normal text-emerald-700">
+																		Paid Rs. {getPaidAmount(bill)} • Due Rs. {getBillBalance(bill)}
+																	</div>
+																)}
 															</td>
 															<td className="px-3 py-3 text-sm text-slate-600">
 																{bill.date}
@@ -2987,6 +3094,11 @@ export default function Billing() {
 															</td>
 															<td className="px-3 py-3 text-sm font-semibold text-slate-900">
 																{isReferral || isVIP ? 'N/A' : `Rs. ${bill.amount}`}
+																{!isReferral && !isVIP && getCreditedAmount(bill) > 0 && (
+																	<div className="text-xs font-normal text-rose-600">
+																		Credited Rs. {getCreditedAmount(bill)}
+																	</div>
+																)}
 															</td>
 															<td className="px-3 py-3 text-sm text-slate-600">
 																{bill.paymentMode || '--'}
@@ -3009,6 +3121,13 @@ export default function Billing() {
 																	>
 																		Invoice
 																	</button>
+																	<button
+																		type="button"
+																		onClick={() => setCreditNoteBill(bill)}
+																		className="inline-flex items-center rounded-lg border border-amber-300 px-2.5 py-1 text-xs font-semibold text-amber-700 transition hover:bg-amber-50 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-amber-200"
+																	>
+																		Refund
+																	</button>
 																	<button
 																		type="button"
 																		onClick={() => handleDeleteBilling(bill)}
@@ -3165,6 +3284,15 @@ export default function Billing() {
 					</>
 				)}
 
+				{creditNoteBill && (
+					<CreditNoteDialog
+						key={creditNoteBill.id}
+						bill={creditNoteBill}
+						canVoid={false}
+						onClose={() => setCreditNoteBill(null)}
+					/>
+				)}
+
 				{/* Payment Modal */}
 				{showPayModal && selectedBill && (
 					<div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/60 px-4 py-6">
@@ -3216,11 +3344,15 @@ export default function Billing() {
 														value={paymentAmount}
 														onChange={e => {
 															if (!isReferral) {
-																setPaymentAmount(parseFloat(e.target.value) || 0);
+																const value = parseFloat(e.target.value) || 0;
+																setPaymentAmount(value);
+																if (paymentLines.length === 1) {
+																	setPaymentLines([{ ...paymentLines[0], amount: Math.max(0, value - getCreditedAmount(selectedBill)).toFixed(2) }]);
+																}
 															}
 														}}
-														disabled={isReferral}
-														readOnly={isReferral}
+														disabled={isReferral || getPaidAmount(selectedBill) > 0}
+														readOnly={isReferral || getPaidAmount(selectedBill) > 0}
 														className={`w-full rounded-lg border border-slate-300 ${isReferral ? 'px-3' : 'pl-12 pr-3'} py-2 text-sm ${isReferral ? 'bg-slate-100 text-slate-600 cursor-not-allowed' : 'text-slate-800'} transition focus:border-sky-500 focus:outline-none focus:ring-2 focus:ring-sky-200`}
 														placeholder={isReferral ? 'N/A' : 'Enter amount'}
 													/>
@@ -3237,44 +3369,26 @@ export default function Billing() {
 											className="w-full rounded-lg border border-slate-300 px-3 py-2 text-sm text-slate-800 transition focus:border-sky-500 focus:outline-none focus:ring-2 focus:ring-sky-200"
 										/>
 									</div>
-									<div className="pt-3">
-										<label className="block text-sm font-medium text-slate-700">
-											Mode of Payment
-										</label>
-										<div className="mt-2 space-y-2">
-											<label className="flex items-center">
-												<input
-													type="radio"
-													name="paymode"
-													value="Cash"
-													checked={paymentMode === 'Cash'}
-													onChange={() => setPaymentMode('Cash')}
-													className="mr-2"
-												/>
-												<span className="text-sm text-slate-700">Cash</span>
-											</label>
-											<label className="flex items-center">
-												<input
-													type="radio"
-													name="paymode"
-													value="UPI/Card"
-													checked={paymentMode === 'UPI/Card'}
-													onChange={() => setPaymentMode('UPI/Card')}
-													className="mr-2"
-												/>
-												<span className="text-sm text-slate-700">Card / UPI</span>
+									{String(paymentAmount).trim().toUpperCase() !== 'N/A' && (
+										<div className="pt-3">
+											<label className="block text-sm font-medium text-slate-700 mb-2">
+												Mode of Payment
 											</label>
-										</div>
-										{paymentMode === 'UPI/Card' && (
-											<input
-												type="text"
-												value={utr}
-												onChange={e => setUtr(e.target.value)}
-												placeholder="Txn ID / UTR Number"
-												className="mt-2 w-full rounded-md border border-slate-300 px-3 py-2 text-sm text-slate-800 transition focus:border-sky-500 focus:outline-none focus:ring-2 focus:ring-sky-200"
+											{getPaidAmount(selectedBill) > 0 && (
+												<p className="mb-2 text-xs text-slate-500">
+													Rs. {getPaidAmount(selectedBill).toFixed(2)} already paid on this bill.
+												</p>
+											)}
+											<PaymentLinesEditor
+												lines={paymentLines}
+												onChange={setPaymentLines}
+												balanceDue={getBillBalance({
+													...selectedBill,
+													...(getPaidAmount(selectedBill) === 0 ? { amount: Number(paymentAmount) || 0 } : {}),
+												})}
 											/>
-										)}
-									</div>
+										</div>
+									)}
 								</div>
 							</div>
 							<footer className="flex items-center justify-end gap-3 border-t border-slate-200 px-6 py-4">
@@ -3327,9 +3441,10 @@ export default function Billing() {
 											<input
 												type="text"
 												value={editableInvoice.invoiceNo}
-												onChange={e => setEditableInvoice({ ...editableInvoice, invoiceNo: e.target.value })}
-												className="w-full rounded-lg border border-slate-300 px-3 py-2 text-sm text-slate-800 transition focus:border-sky-500 focus:outline-none focus:ring-2 focus:ring-sky-200"
+												readOnly
+												className="w-full rounded-lg border border-slate-300 bg-slate-100 px-3 py-2 text-sm text-slate-600"
 											/>
+											<p className="mt-1 text-xs text-slate-500">Issued in sequence for the financial year and cannot be changed.</p>
 										</div>
 
 										<div>
@@ -3395,37 +3510,32 @@ export default function Billing() {
 
 										<div className="grid grid-cols-2 gap-4">
 											<div>
-												<label className="block text-sm font-medium text-slate-700 mb-1">HSN/SAC</label>
-												<input
-													type="text"
-													value={editableInvoice.hsnSac}
-													onChange={e => setEditableInvoice({ ...editableInvoice, hsnSac: e.target.value })}
+												<label className="block text-sm font-medium text-slate-700 mb-1">Place of Supply</label>
+												<select
+													value={editableInvoice.placeOfSupply}
+													onChange={e => setEditableInvoice({ ...editableInvoice, placeOfSupply: e.target.value })}
 													className="w-full rounded-lg border border-slate-300 px-3 py-2 text-sm text-slate-800 transition focus:border-sky-500 focus:outline-none focus:ring-2 focus:ring-sky-200"
-												/>
-											</div>
-										</div>
-
-										<div className="grid grid-cols-2 gap-4">
-											<div>
-												<label className="block text-sm font-medium text-slate-700 mb-1">CGST Tax Rate (%)</label>
-												<input
-													type="number"
-													step="0.01"
-													value={editableInvoice.cgstRate}
-													onChange={e => setEditableInvoice({ ...editableInvoice, cgstRate: parseFloat(e.target.value) || 5 })}
-													className="w-full rounded-lg border border-slate-300 px-3 py-2 text-sm text-slate-800 transition focus:border-sky-500 focus:outline-none focus:ring-2 focus:ring-sky-200"
-												/>
-											</div>
-											<div>
-												<label className="block text-sm font-medium text-slate-700 mb-1">SGST Tax Rate (%)</label>
-												<input
-													type="number"
-													step="0.01"
-													value={editableInvoice.sgstRate}
-													onChange={e => setEditableInvoice({ ...editableInvoice, sgstRate: parseFloat(e.target.value) || 5 })}
-													className="w-full rounded-lg border border-slate-300 px-3 py-2 text-sm text-slate-800 transition focus:border-sky-500 focus:outline-none focus:ring-2 focus:ring-sky-200"
-												/>
+												>
+													{Object.entries(GST_STATES).map(([code, name]) => (
+														<option key={code} value={code}>
+															{name} ({code})
+														</option>
+													))}
+												</select>
 											</div>
+											{invoiceGst && (
+												<div>
+													<label className="block text-sm font-medium text-slate-700 mb-1">GST (SAC {invoiceGst.sacCode})</label>
+													<p className="rounded-lg border border-slate-200 bg-slate-100 px-3 py-2 text-sm text-slate-600">
+														{invoiceGst.interState
+															? `IGST ${invoiceGst.igstRate}%: Rs. ${invoiceGst.igstAmount.toFixed(2)}`
+															: `CGST ${invoiceGst.cgstRate}% + SGST ${invoiceGst.sgstRate}%: Rs. ${invoiceGst.totalTax.toFixed(2)}`}
+													</p>
+													<p className="mt-1 text-xs text-slate-500">
+														Rates come from GST settings. Billed from {getGstStateName(getGstEntity(gstSettings, invoiceGst.entityId).stateCode)}.
+													</p>
+												</div>
+											)}
 										</div>
 
 										<div>
@@ -3514,7 +3624,7 @@ export default function Billing() {
 									{!isEditingReceipt ? (
 										<button
 											type="button"
-											onClick={() => setIsEditingReceipt(true)}
+											onClick={() => (selectedBill && isBillLocked(selectedBill) ? alert(getBillLockMessage(selectedBill)) : setIsEditingReceipt(true))}
 											className="inline-flex items-center gap-2 rounded-lg border border-blue-300 bg-blue-50 px-3 py-1.5 text-sm font-semibold text-blue-700 transition hover:bg-blue-100 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-200"
 										>
 											<i className="fas fa-edit text-xs" aria-hidden="true" />
@@ -3956,9 +4066,10 @@ export default function Billing() {
 										<input
 											type="text"
 											value={editableDyesInvoice.invoiceNo}
-											onChange={e => setEditableDyesInvoice({ ...editableDyesInvoice, invoiceNo: e.target.value })}
-											className="w-full rounded-md border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900 focus:outline-none focus:ring-2 focus:ring-sky-500"
+											readOnly
+											className="w-full rounded-md border border-slate-300 bg-slate-100 px-3 py-2 text-sm text-slate-600"
 										/>
+										<p className="mt-1 text-xs text-slate-500">Issued in sequence for the financial year and cannot be changed.</p>
 									</div>
 									<div>
 										<label className="block text-sm font-medium text-slate-700 mb-1">Invoice Date</label>
@@ -3977,18 +4088,10 @@ export default function Billing() {
 											value={editableDyesInvoice.totalSessions}
 											onChange={e => {
 												const sessions = parseInt(e.target.value) || 0;
-												const rate = editableDyesInvoice.rate;
-												const amount = sessions * rate;
-												const cgstAmount = (amount * editableDyesInvoice.cgstRate) / 100;
-												const sgstAmount = (amount * editableDyesInvoice.sgstRate) / 100;
-												const totalAmount = amount + cgstAmount + sgstAmount;
 												setEditableDyesInvoice({
 													...editableDyesInvoice,
 													totalSessions: sessions,
-													amount,
-													cgstAmount,
-													sgstAmount,
-													totalAmount,
+													amount: sessions * editableDyesInvoice.rate,
 												});
 											}}
 											className="w-full rounded-md border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900 focus:outline-none focus:ring-2 focus:ring-sky-500"
@@ -4002,17 +4105,10 @@ export default function Billing() {
 											value={editableDyesInvoice.rate}
 											onChange={e => {
 												const rate = parseFloat(e.target.value) || 0;
-												const amount = editableDyesInvoice.totalSessions * rate;
-												const cgstAmount = (amount * editableDyesInvoice.cgstRate) / 100;
-												const sgstAmount = (amount * editableDyesInvoice.sgstRate) / 100;
-												const totalAmount = amount + cgstAmount + sgstAmount;
 												setEditableDyesInvoice({
 													...editableDyesInvoice,
 													rate,
-													amount,
-													cgstAmount,
-													sgstAmount,
-													totalAmount,
+													amount: editableDyesInvoice.totalSessions * rate,
 												});
 											}}
 											className="w-full rounded-md border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900 focus:outline-none focus:ring-2 focus:ring-sky-500"
@@ -4024,63 +4120,12 @@ export default function Billing() {
 											type="number"
 											step="0.01"
 											value={editableDyesInvoice.amount.toFixed(2)}
-											onChange={e => {
-												const amount = parseFloat(e.target.value) || 0;
-												const cgstAmount = (amount * editableDyesInvoice.cgstRate) / 100;
-												const sgstAmount = (amount * editableDyesInvoice.sgstRate) / 100;
-												const totalAmount = amount + cgstAmount + sgstAmount;
-												setEditableDyesInvoice({
-													...editableDyesInvoice,
-													amount,
-													cgstAmount,
-													sgstAmount,
-													totalAmount,
-												});
-											}}
-											className="w-full rounded-md border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900 focus:outline-none focus:ring-2 focus:ring-sky-500"
-										/>
-									</div>
-									<div>
-										<label className="block text-sm font-medium text-slate-700 mb-1">CGST Rate (%)</label>
-										<input
-											type="number"
-											step="0.01"
-											value={editableDyesInvoice.cgstRate}
-											onChange={e => {
-												const cgstRate = parseFloat(e.target.value) || 0;
-												const cgstAmount = (editableDyesInvoice.amount * cgstRate) / 100;
-												const sgstAmount = (editableDyesInvoice.amount * editableDyesInvoice.sgstRate) / 100;
-												const totalAmount = editableDyesInvoice.amount + cgstAmount + sgstAmount;
-												setEditableDyesInvoice({
-													...editableDyesInvoice,
-													cgstRate,
-													cgstAmount,
-													totalAmount,
-												});
-											}}
-											className="w-full rounded-md border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900 focus:outline-none focus:ring-2 focus:ring-sky-500"
-										/>
-									</div>
-									<div>
-										<label className="block text-sm font-medium text-slate-700 mb-1">SGST Rate (%)</label>
-										<input
-											type="number"
-											step="0.01"
-											value={editableDyesInvoice.sgstRate}
-											onChange={e => {
-												const sgstRate = parseFloat(e.target.value) || 0;
-												const cgstAmount = (editableDyesInvoice.amount * editableDyesInvoice.cgstRate) / 100;
-												const sgstAmount = (editableDyesInvoice.amount * sgstRate) / 100;
-												const totalAmount = editableDyesInvoice.amount + cgstAmount + sgstAmount;
-												setEditableDyesInvoice({
-													...editableDyesInvoice,
-													sgstRate,
-													sgstAmount,
-													totalAmount,
-												});
-											}}
+											onChange={e => setEditableDyesInvoice({ ...editableDyesInvoice, amount: parseFloat(e.target.value) || 0 })}
 											className="w-full rounded-md border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900 focus:outline-none focus:ring-2 focus:ring-sky-500"
 										/>
+										<p className="mt-1 text-xs text-slate-500">
+											GST {gstSettings.dyesTax.rate}% (SAC {gstSettings.dyesTax.sacCode}) {gstSettings.pricesIncludeTax ? 'is included' : 'is added'}, as set in GST settings.
+										</p>
 									</div>
 									<div>
 										<label className="block text-sm font-medium text-slate-700 mb-1">Date Range</label>
@@ -4104,17 +4149,26 @@ export default function Billing() {
 									<div className="rounded-lg bg-slate-50 p-4 border border-slate-200">
 										<div className="text-sm text-slate-600 mb-2">Calculated Values:</div>
 										<div className="space-y-1 text-sm">
-											<div className="flex justify-between">
-												<span className="text-slate-700">CGST Amount:</span>
-												<span className="font-semibold">₹{editableDyesInvoice.cgstAmount.toFixed(2)}</span>
-											</div>
-											<div className="flex justify-between">
-												<span className="text-slate-700">SGST Amount:</span>
-												<span className="font-semibold">₹{editableDyesInvoice.sgstAmount.toFixed(2)}</span>
-											</div>
+											{dyesGst?.interState ? (
+												<div className="flex justify-between">
+													<span className="text-slate-700">IGST Amount:</span>
+													<span className="font-semibold">₹{dyesGst.igstAmount.toFixed(2)}</span>
+												</div>
+											) : (
+												<>
+													<div className="flex justify-between">
+														<span className="text-slate-700">CGST Amount:</span>
+														<span className="font-semibold">₹{dyesGst?.cgstAmount.toFixed(2)}</span>
+													</div>
+													<div className="flex justify-between">
+														<span className="text-slate-700">SGST Amount:</span>
+														<span className="font-semibold">₹{dyesGst?.sgstAmount.toFixed(2)}</span>
+													</div>
+												</>
+											)}
 											<div className="flex justify-between border-t border-slate-300 pt-1 mt-1">
 												<span className="text-slate-900 font-semibold">Total Amount:</span>
-												<span className="font-bold text-slate-900">₹{editableDyesInvoice.totalAmount.toFixed(2)}</span>
+												<span className="font-bold text-slate-900">₹{dyesGst?.total.toFixed(2)}</span>
 											</div>
 										</div>
 									</div>
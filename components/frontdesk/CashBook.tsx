@@ -0,0 +1,350 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { doc, onSnapshot } from 'firebase/firestore';
+
+import { db } from '@/lib/firebase';
+import PageHeader from '@/components/PageHeader';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+	CASH_BOOK_SOURCE_LABELS,
+	CASH_SETTLEMENTS_COLLECTION,
+	buildSettlementLines,
+	getSettlementModes,
+	parseCashSettlement,
+	type CashBook as CashBookData,
+	type CashSettlement,
+} from '@/lib/cashBook';
+import { fetchCashBook, submitCashSettlement } from '@/lib/cashBookClient';
+
+function formatAmount(value: number): string {
+	return `Rs. ${value.toFixed(2)}`;
+}
+
+function varianceClass(variance: number): string {
+	if (variance < 0) return 'text-rose-600';
+	if (variance > 0) return 'text-amber-600';
+	return 'text-emerald-600';
+}
+
+function SettlementForm({ date, cashBook }: { date: string; cashBook: CashBookData }) {
+	const { user } = useAuth();
+	const modes = getSettlementModes(cashBook);
+	// Cash has to be counted; other modes start at what the system expects and are checked against the terminal or bank
+	const [counted, setCounted] = useState<Record<string, string>>(() =>
+		Object.fromEntries(modes.map(mode => [mode, mode === 'Cash' ? '' : (cashBook.byMode[mode] ?? 0).toFixed(2)]))
+	);
+	const [note, setNote] = useState('');
+	const [confirmed, setConfirmed] = useState(false);
+	const [submitting, setSubmitting] = useState(false);
+
+	const countedAmounts = Object.fromEntries(
+		Object.entries(counted)
+			.filter(([, value]) => value.trim() !== '')
+			.map(([mode, value]) => [mode, Number(value)])
+	);
+	const lines = buildSettlementLines(cashBook, countedAmounts);
+	const hasVariance = lines.some(line => line.variance !== 0);
+
+	const handleSubmit = async (event: React.FormEvent) => {
+		event.preventDefault();
+		if (!counted.Cash?.trim()) {
+			alert('Please enter the cash counted in the drawer.');
+			return;
+		}
+		if (Object.values(countedAmounts).some(value => !Number.isFinite(value) || value < 0)) {
+			alert('Counted amounts must be zero or more.');
+			return;
+		}
+		if (hasVariance && !note.trim()) {
+			alert('Please explain the difference between the counted and expected amounts.');
+			return;
+		}
+		if (!confirmed) {
+			alert('Please confirm the counted amounts before signing.');
+			return;
+		}
+
+		setSubmitting(true);
+		try {
+			await submitCashSettlement({
+				date,
+				cashBook,
+				counted: countedAmounts,
+				note,
+				signedBy: user?.uid || null,
+				signedByName: user?.displayName || user?.email || 'Front Desk',
+			});
+			alert('Settlement submitted for review.');
+		} catch (error) {
+			console.error('Failed to submit settlement', error);
+			alert(`Failed to submit settlement: ${error instanceof Error ? error.message : 'Unknown error'}`);
+		} finally {
+			setSubmitting(false);
+		}
+	};
+
+	return (
+		<form onSubmit={handleSubmit} className="mt-4 space-y-4">
+			<table className="min-w-full divide-y divide-slate-200 text-left text-sm text-slate-700">
+				<thead className="bg-slate-100 text-xs uppercase tracking-wide text-slate-500">
+					<tr>
+						<th className="px-3 py-2 font-semibold">Mode</th>
+						<th className="px-3 py-2 text-right font-semibold">Expected</th>
+						<th className="px-3 py-2 font-semibold">Counted</th>
+						<th className="px-3 py-2 text-right font-semibold">Difference</th>
+					</tr>
+				</thead>
+				<tbody className="divide-y divide-slate-100">
+					{lines.map(line => (
+						<tr key={line.mode}>
+							<td className="px-3 py-2 font-medium">{line.mode}</td>
+							<td className="px-3 py-2 text-right">{formatAmount(line.expected)}</td>
+							<td className="px-3 py-2">
+								<input
+									type="number"
+									min={0}
+									step="0.01"
+									value={counted[line.mode] ?? ''}
+									onChange={event => setCounted(prev => ({ ...prev, [line.mode]: event.target.value }))}
+									placeholder={line.mode === 'Cash' ? 'Count the drawer' : undefined}
+									className="input-base w-40"
+								/>
+							</td>
+							<td className={`px-3 py-2 text-right font-semibold ${varianceClass(line.variance)}`}>
+								{line.mode === 'Cash' && !counted.Cash?.trim() ? '-' : formatAmount(line.variance)}
+							</td>
+						</tr>
+					))}
+				</tbody>
+			</table>
+
+			<div>
+				<label className="block text-sm font-medium text-slate-700">Note {hasVariance && <span className="text-rose-600">*</span>}</label>
+				<textarea
+					value={note}
+					onChange={event => setNote(event.target.value)}
+					rows={2}
+					placeholder="Explain any shortfall or excess"
+					className="input-base mt-1 w-full"
+				/>
+			</div>
+
+			<label className="flex items-center gap-2 text-sm text-slate-700">
+				<input type="checkbox" checked={confirmed} onChange={event => setConfirmed(event.target.checked)} />
+				I counted these amounts and sign off the day&apos;s collections.
+			</label>
+
+			<div className="flex justify-end">
+				<button type="submit" className="btn-primary" disabled={submitting}>
+					<i className="fas fa-signature mr-2" aria-hidden="true" />
+					{submitting ? 'Submitting...' : 'Sign & Submit Settlement'}
+				</button>
+			</div>
+		</form>
+	);
+}
+
+function SettlementSummary({ settlement }: { settlement: CashSettlement }) {
+	return (
+		<div className="mt-4 space-y-3 text-sm text-slate-700">
+			<p>
+				Signed by <span className="font-semibold">{settlement.signedByName}</span> on {new Date(settlement.signedAt).toLocaleString()}
+				{settlement.status === 'reviewed' ? (
+					<span className="ml-2 rounded-full bg-emerald-100 px-2 py-0.5 text-xs font-semibold text-emerald-700">Reviewed</span>
+				) : (
+					<span className="ml-2 rounded-full bg-amber-100 px-2 py-0.5 text-xs font-semibold text-amber-700">Awaiting review</span>
+				)}
+			</p>
+			<table className="min-w-full divide-y divide-slate-200 text-left">
+				<thead className="bg-slate-100 text-xs uppercase tracking-wide text-slate-500">
+					<tr>
+						<th className="px-3 py-2 font-semibold">Mode</th>
+						<th className="px-3 py-2 text-right font-semibold">Expected</th>
+						<th className="px-3 py-2 text-right font-semibold">Counted</th>
+						<th className="px-3 py-2 text-right font-semibold">Difference</th>
+					</tr>
+				</thead>
+				<tbody className="divide-y divide-slate-100">
+					{settlement.lines.map(line => (
+						<tr key={line.mode}>
+							<td className="px-3 py-2 font-medium">{line.mode}</td>
+							<td className="px-3 py-2 text-right">{formatAmount(line.expected)}</td>
+							<td className="px-3 py-2 text-right">{formatAmount(line.counted)}</td>
+							<td className={`px-3 py-2 text-right font-semibold ${varianceClass(line.variance)}`}>{formatAmount(line.variance)}</td>
+						</tr>
+					))}
+				</tbody>
+			</table>
+			{settlement.note && <p className="text-slate-600">Note: {settlement.note}</p>}
+			{settlement.reviewNote && <p className="text-slate-600">Review: {settlement.reviewNote}</p>}
+		</div>
+	);
+}
+
+/**
+ * End-of-day close for the front desk: the day's collections by staff member and payment mode, and
+ * the signed count of the drawer
+ */
+export default function CashBook() {
+	const [date, setDate] = useState(() => new Date().toISOString().split('T')[0]);
+	const [refreshKey, setRefreshKey] = useState(0);
+	const [loaded, setLoaded] = useState<{ date: string; refreshKey: number; cashBook: CashBookData } | null>(null);
+	const [settlementState, setSettlementState] = useState<{ date: string; settlement: CashSettlement | null } | null>(null);
+
+	const cashBook = loaded?.date === date && loaded.refreshKey === refreshKey ? loaded.cashBook : null;
+	const settlement = settlementState?.date === date ? settlementState.settlement : undefined;
+
+	useEffect(() => {
+		let cancelled = false;
+		fetchCashBook(date)
+			.then(result => {
+				if (!cancelled) setLoaded({ date, refreshKey, cashBook: result });
+			})
+			.catch(error => {
+				console.error('Failed to load cash book', error);
+				if (!cancelled) setLoaded({ date, refreshKey, cashBook: { entries: [], byStaff: [], byMode: {}, total: 0 } });
+			});
+		return () => {
+			cancelled = true;
+		};
+	}, [date, refreshKey]);
+
+	useEffect(() => {
+		const unsubscribe = onSnapshot(
+			doc(db, CASH_SETTLEMENTS_COLLECTION, date),
+			snapshot => {
+				setSettlementState({ date, settlement: snapshot.exists() ? parseCashSettlement(snapshot.id, snapshot.data()) : null });
+			},
+			error => {
+				console.error('Failed to load settlement', error);
+				setSettlementState({ date, settlement: null });
+			}
+		);
+		return () => unsubscribe();
+	}, [date]);
+
+	const modes = cashBook ? getSettlementModes(cashBook) : [];
+
+	return (
+		<div className="min-h-screen p-8">
+			<PageHeader
+				title="Daily Cash Book"
+				description="Everything collected or paid out at the desk on a day, by staff member and payment mode. Count the drawer at close and sign off the settlement for admin review."
+				actions={
+					<div className="flex items-end gap-2">
+						<input type="date" value={date} onChange={event => event.target.value && setDate(event.target.value)} className="input-base" />
+						<button type="button" onClick={() => setRefreshKey(key => key + 1)} className="btn-secondary">
+							<i className="fas fa-sync-alt mr-2" aria-hidden="true" />
+							Refresh
+						</button>
+					</div>
+				}
+			/>
+
+			{!cashBook ? (
+				<p className="mt-6 text-sm text-slate-500">Loading cash book...</p>
+			) : (
+				<div className="mt-6 space-y-6">
+					<section className="section-card">
+						<div className="flex items-center justify-between">
+							<h3 className="text-lg font-semibold text-slate-900">Collections by Staff</h3>
+							<p className="text-sm text-slate-600">
+								Net for the day: <span className="font-semibold text-slate-900">{formatAmount(cashBook.total)}</span>
+							</p>
+						</div>
+						{cashBook.byStaff.length === 0 ? (
+							<p className="mt-4 text-sm text-slate-500">Nothing was collected on this day.</p>
+						) : (
+							<div className="mt-4 overflow-x-auto">
+								<table className="min-w-full divide-y divide-slate-200 text-left text-sm text-slate-700">
+									<thead className="bg-slate-100 text-xs uppercase tracking-wide text-slate-500">
+										<tr>
+											<th className="px-3 py-2 font-semibold">Staff</th>
+											{modes.map(mode => (
+												<th key={mode} className="px-3 py-2 text-right font-semibold">
+													{mode}
+												</th>
+											))}
+											<th className="px-3 py-2 text-right font-semibold">Total</th>
+										</tr>
+									</thead>
+									<tbody className="divide-y divide-slate-100">
+										{cashBook.byStaff.map(row => (
+											<tr key={row.staffId || row.staffName}>
+												<td className="px-3 py-2 font-medium">{row.staffName}</td>
+												{modes.map(mode => (
+													<td key={mode} className="px-3 py-2 text-right">
+														{row.byMode[mode] ? formatAmount(row.byMode[mode]) : '-'}
+													</td>
+												))}
+												<td className="px-3 py-2 text-right font-semibold">{formatAmount(row.total)}</td>
+											</tr>
+										))}
+										<tr className="bg-slate-50 font-semibold">
+											<td className="px-3 py-2">All staff</td>
+											{modes.map(mode => (
+												<td key={mode} className="px-3 py-2 text-right">
+													{formatAmount(cashBook.byMode[mode] ?? 0)}
+												</td>
+											))}
+											<td className="px-3 py-2 text-right">{formatAmount(cashBook.total)}</td>
+										</tr>
+									</tbody>
+								</table>
+							</div>
+						)}
+					</section>
+
+					<section className="section-card">
+						<h3 className="text-lg font-semibold text-slate-900">End-of-Day Settlement</h3>
+						{settlement === undefined ? (
+							<p className="mt-4 text-sm text-slate-500">Loading settlement...</p>
+						) : settlement ? (
+							<SettlementSummary settlement={settlement} />
+						) : (
+							// Re-mount the form when the cash book is refreshed so expected amounts start from the latest figures
+							<SettlementForm key={`${date}-${refreshKey}`} date={date} cashBook={cashBook} />
+						)}
+					</section>
+
+					<section className="section-card">
+						<h3 className="text-lg font-semibold text-slate-900">Cash Book</h3>
+						{cashBook.entries.length === 0 ? (
+							<p className="mt-4 text-sm text-slate-500">No entries.</p>
+						) : (
+							<div className="mt-4 overflow-x-auto">
+								<table className="min-w-full divide-y divide-slate-200 text-left text-sm text-slate-700">
+									<thead className="bg-slate-100 text-xs uppercase tracking-wide text-slate-500">
+										<tr>
+											<th className="px-3 py-2 font-semibold">Time</th>
+											<th className="px-3 py-2 font-semibold">Type</th>
+											<th className="px-3 py-2 font-semibold">Details</th>
+											<th className="px-3 py-2 font-semibold">Mode</th>
+											<th className="px-3 py-2 font-semibold">Reference</th>
+											<th className="px-3 py-2 font-semibold">Staff</th>
+											<th className="px-3 py-2 text-right font-semibold">Amount</th>
+										</tr>
+									</thead>
+									<tbody className="divide-y divide-slate-100">
+										{cashBook.entries.map(entry => (
+											<tr key={`${entry.source}-${entry.id}`}>
+												<td className="px-3 py-2">{entry.time.includes('T') ? new Date(entry.time).toLocaleTimeString() : '-'}</td>
+												<td className="px-3 py-2">{CASH_BOOK_SOURCE_LABELS[entry.source]}</td>
+												<td className="px-3 py-2">{entry.description}</td>
+												<td className="px-3 py-2">{entry.mode}</td>
+												<td className="px-3 py-2">{entry.reference || '-'}</td>
+												<td className="px-3 py-2">{entry.staffName || '-'}</td>
+												<td className={`px-3 py-2 text-right ${entry.amount < 0 ? 'text-rose-600' : ''}`}>{formatAmount(entry.amount)}</td>
+											</tr>
+										))}
+									</tbody>
+								</table>
+							</div>
+						)}
+					</section>
+				</div>
+			)}
+		</div>
+	);
+}
@@ -6,10 +6,16 @@ import { collection, onSnapshot, query, where, getDocs, type QuerySnapshot, type
 import PageHeader from '@/components/PageHeader';
 import DashboardWidget from '@/components/dashboard/DashboardWidget';
 import StatsChart from '@/components/dashboard/StatsChart';
+import NoShowRates from '@/components/dashboard/NoShowRates';
 import { db } from '@/lib/firebase';
 import { useAuth } from '@/contexts/AuthContext';
 import type { AdminAppointmentStatus } from '@/lib/adminMockData';
 import type { PatientRecordBasic, PatientStatus } from '@/lib/types';
+import {
+	CONFIRMATION_STATUS_BADGES,
+	CONFIRMATION_STATUS_LABELS,
+	type AppointmentConfirmationStatus,
+} from '@/lib/appointmentConfirmation';
 
 const STATUS_BADGES: Record<'pending' | 'ongoing' | 'completed' | 'cancelled', string> = {
 	pending: 'status-badge-pending',
@@ -146,6 +152,8 @@ interface AppointmentRecord {
 	date: string;
 	time: string;
 	status: AdminAppointmentStatus;
+	confirmationStatus?: AppointmentConfirmationStatus;
+	confirmationNote?: string;
 	createdAt: string;
 }
 
@@ -221,6 +229,7 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
 						complaint: data.complaint ? String(data.complaint) : undefined,
 						status: (data.status as PatientStatus) ?? 'pending',
 						assignedDoctor: data.assignedDoctor ? String(data.assignedDoctor) : undefined,
+						patientType: data.patientType ? String(data.patientType) : undefined,
 						registeredAt: created ? created.toISOString() : (data.registeredAt as string | undefined),
 					};
 				});
@@ -252,6 +261,8 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
 						date: data.date ? String(data.date) : '',
 						time: data.time ? String(data.time) : '',
 						status: (data.status as AdminAppointmentStatus) ?? 'pending',
+						confirmationStatus: data.confirmationStatus as AppointmentConfirmationStatus | undefined,
+						confirmationNote: data.confirmationNote ? String(data.confirmationNote) : undefined,
 						createdAt: created ? created.toISOString() : (data.createdAt as string | undefined) || new Date().toISOString(),
 					} as AppointmentRecord;
 				});
@@ -372,6 +383,25 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
 		};
 	}, [patients, appointments, staff]);
 
+	// Tomorrow's bookings with the patient's reply to the reminder link
+	const tomorrowConfirmations = useMemo(() => {
+		const tomorrow = new Date();
+		tomorrow.setDate(tomorrow.getDate() + 1);
+		const tomorrowKey = tomorrow.toISOString().split('T')[0];
+		const rows = appointments
+			.filter(appointment => appointment.date === tomorrowKey)
+			.filter(appointment => appointment.status !== 'cancelled' || appointment.confirmationStatus === 'cancelled')
+			.sort((a, b) => a.time.localeCompare(b.time));
+		const counts = rows.reduce<Record<AppointmentConfirmationStatus, number>>(
+			(acc, appointment) => {
+				acc[appointment.confirmationStatus ?? 'unconfirmed'] += 1;
+				return acc;
+			},
+			{ unconfirmed: 0, confirmed: 0, cancelled: 0, 'reschedule-requested': 0 }
+		);
+		return { rows, counts };
+	}, [appointments]);
+
 	const appointmentTrendData = useMemo(() => {
 		const today = new Date();
 		const dayBuckets = Array.from({ length: 7 }, (_, index) => {
@@ -661,6 +691,13 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
 								</div>
 							</div>
 						</div>
+						<div className="rounded-2xl border border-slate-200 bg-white p-4 shadow-md hover:shadow-lg transition-shadow">
+							<p className="text-sm font-semibold text-slate-900">No-show Rates</p>
+							<p className="text-xs text-slate-500">Share of completed and missed appointments that were no-shows.</p>
+							<div className="mt-4">
+								<NoShowRates appointments={appointments} patients={patients} />
+							</div>
+						</div>
 					</DashboardWidget>
 				</section>
 
@@ -748,6 +785,54 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
 									))}
 								</div>
 							</div>
+							<div className="section-card">
+								<h3 className="text-lg font-semibold text-slate-900">Tomorrow&apos;s Confirmations</h3>
+								<p className="mt-1 text-sm text-slate-500">
+									Replies to the reminder link. Call anyone who hasn&apos;t confirmed.
+								</p>
+								<div className="mt-4 flex flex-wrap gap-2">
+									{(Object.keys(CONFIRMATION_STATUS_LABELS) as AppointmentConfirmationStatus[]).map(key => (
+										<span
+											key={key}
+											className={`rounded-full px-3 py-1 text-xs font-semibold ${CONFIRMATION_STATUS_BADGES[key]}`}
+										>
+											{CONFIRMATION_STATUS_LABELS[key]}: {tomorrowConfirmations.counts[key]}
+										</span>
+									))}
+								</div>
+								<div className="mt-4 max-h-80 space-y-2 overflow-y-auto">
+									{tomorrowConfirmations.rows.length === 0 ? (
+										<p className="text-sm text-slate-500">No appointments tomorrow.</p>
+									) : (
+										tomorrowConfirmations.rows.map(appointment => {
+											const confirmation = appointment.confirmationStatus ?? 'unconfirmed';
+											return (
+												<div
+													key={appointment.id}
+													className="rounded-xl border border-slate-100 bg-slate-50 px-4 py-2"
+												>
+													<div className="flex items-center justify-between gap-3">
+														<div>
+															<p className="text-sm font-semibold text-slate-800">{appointment.patient}</p>
+															<p className="text-xs text-slate-500">
+																{appointment.time} · {appointment.doctor || 'Unassigned'}
+															</p>
+														</div>
+														<span
+															className={`whitespace-nowrap rounded-full px-2 py-0.5 text-xs font-semibold ${CONFIRMATION_STATUS_BADGES[confirmation]}`}
+														>
+															{CONFIRMATION_STATUS_LABELS[confirmation]}
+														</span>
+													</div>
+													{appointment.confirmationNote && (
+														<p className="mt-1 text-xs italic text-slate-500">&ldquo;{appointment.confirmationNote}&rdquo;</p>
+													)}
+												</div>
+											);
+										})
+									)}
+								</div>
+							</div>
 						</div>
 					</DashboardWidget>
 				</section>
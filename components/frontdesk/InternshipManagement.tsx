@@ -237,6 +237,7 @@ export default function InternshipManagement() {
 					type: 'internship_payment',
 					description: `Internship payment for ${intern.name} (${intern.college})${receiptNumber.trim() ? ` - Receipt: ${receiptNumber.trim()}` : ''}`,
 					amount: intern.amount,
+					paymentMode: intern.paymentMode || 'Cash', // Counted in the daily cash book
 					date: today,
 					internId: intern.id,
 					internName: intern.name,
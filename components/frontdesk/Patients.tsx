@@ -17,8 +17,21 @@ import { sendSMSNotification, isValidPhoneNumber } from '@/lib/sms';
 import { checkAppointmentConflict } from '@/lib/appointmentUtils';
 import { createInitialSessionAllowance } from '@/lib/sessionAllowance';
 import { useAuth } from '@/contexts/AuthContext';
+import { getNoShowStanding, type NoShowOverride } from '@/lib/noShowPolicy';
+import { useNoShowPolicy } from '@/hooks/useNoShowPolicy';
+import NoShowBookingNotice from '@/components/appointments/NoShowBookingNotice';
 import ReportModal from '@/components/frontdesk/ReportModal';
 import PatientProgressAnalytics from '@/components/patient/PatientProgressAnalytics';
+import PatientStatement from '@/components/billing/PatientStatement';
+import WalletDialog from '@/components/billing/WalletDialog';
+import PackagePlanFields from '@/components/billing/PackagePlanFields';
+import PaymentLinesEditor from '@/components/billing/PaymentLinesEditor';
+import { getBillBalance, getPaidAmount, parsePaymentLineDrafts, type PaymentLineDraft } from '@/lib/billPayments';
+import { recordBillPayment } from '@/lib/billPaymentsClient';
+import { WALLETS_COLLECTION, getWalletBalance, getWalletShortfall, isChargeDueFromWallet } from '@/lib/wallet';
+import { getPatientPackageFields, parsePackageEnrolmentDraft, type PackageEnrolmentDraft } from '@/lib/packages';
+import { enrolPatientInPackage } from '@/lib/packagesClient';
+import { usePackageCatalogue } from '@/hooks/usePackageCatalogue';
 
 type PaymentTypeOption = 'with' | 'without';
 type PatientTypeOption = 'DYES' | 'VIP' | 'GETHNA' | 'PAID' | 'OTHERS' | 'STAFF' | 'REFERRAL' | '';
@@ -190,10 +203,14 @@ interface FrontdeskPatient {
 	assignedDoctor?: string;
 	totalSessionsRequired?: number;
 	remainingSessions?: number;
+	noShowCount?: number;
 	assignedFrontdeskId?: string;
 	assignedFrontdeskName?: string;
 	assignedFrontdeskEmail?: string;
 	packageAmount?: number | null;
+	activePackageId?: string;
+	packageName?: string;
+	packageExpiresOn?: string;
 	readyForNewAppointment?: boolean;
 	registeredBy?: string;
 	registeredByName?: string;
@@ -247,6 +264,8 @@ interface BillingRecord {
 	packageAmount?: number | null;
 	concessionPercent?: number | null;
 	amountPaid?: number;
+	creditedAmount?: number;
+	refundedAmount?: number;
 }
 
 interface BookingFormState {
@@ -268,14 +287,6 @@ interface RegisterFormState {
 	patientType: PatientTypeOption;
 }
 
-interface PackageSetupFormState {
-	totalNoOfSessions: string;
-	paymentType: PaymentTypeOption | '';
-	paymentDescription: string;
-	packageAmount: string;
-	concessionPercent: string;
-}
-
 interface RegisterNotice {
 	type: 'success' | 'error';
 	message: string;
@@ -345,14 +356,6 @@ const REGISTER_FORM_INITIAL_STATE: RegisterFormState = {
 	patientType: '' as PatientTypeOption,
 };
 
-const PACKAGE_FORM_INITIAL_STATE: PackageSetupFormState = {
-	totalNoOfSessions: '',
-	paymentType: '',
-	paymentDescription: '',
-	packageAmount: '',
-	concessionPercent: '',
-};
-
 async function generatePatientId(): Promise<string> {
 	const prefix = 'CSS';
 	const year = new Date().getFullYear();
@@ -448,6 +451,7 @@ function formatDurationLabel(minutes: number) {
 
 export default function Patients() {
 	const { user } = useAuth();
+	const { policy: noShowPolicy } = useNoShowPolicy();
 	const [patients, setPatients] = useState<FrontdeskPatient[]>([]);
 	const [appointments, setAppointments] = useState<AppointmentRecord[]>([]);
 	const [staff, setStaff] = useState<StaffMember[]>([]);
@@ -486,6 +490,7 @@ export default function Patients() {
 	});
 	const [selectedSlots, setSelectedSlots] = useState<string[]>([]);
 	const [bookingLoading, setBookingLoading] = useState(false);
+	const [noShowOverrideReason, setNoShowOverrideReason] = useState('');
 	const [showBookingModal, setShowBookingModal] = useState(false);
 	const [editingSlotTime, setEditingSlotTime] = useState<string | null>(null);
 	const [editedSlotTime, setEditedSlotTime] = useState<string>('');
@@ -510,18 +515,18 @@ export default function Patients() {
 	const [registerSelectedSlots, setRegisterSelectedSlots] = useState<string[]>([]);
 	const [openMenuId, setOpenMenuId] = useState<string | null>(null);
 	const [viewingPatient, setViewingPatient] = useState<FrontdeskPatient | null>(null);
+	const [walletBalances, setWalletBalances] = useState<Map<string, number>>(new Map());
+	const [walletPatient, setWalletPatient] = useState<FrontdeskPatient | null>(null);
 	const [billing, setBilling] = useState<BillingRecord[]>([]);
 	const [showPaymentModal, setShowPaymentModal] = useState(false);
 	const [selectedPaymentBill, setSelectedPaymentBill] = useState<BillingRecord | null>(null);
-	const [paymentMode, setPaymentMode] = useState('Cash');
-	const [utr, setUtr] = useState('');
+	const [paymentLines, setPaymentLines] = useState<PaymentLineDraft[]>([]);
 	const [processingPayment, setProcessingPayment] = useState(false);
 	const [showPackageModal, setShowPackageModal] = useState(false);
 	const [packageModalPatient, setPackageModalPatient] = useState<FrontdeskPatient | null>(null);
-	const [packageForm, setPackageForm] = useState<PackageSetupFormState>(PACKAGE_FORM_INITIAL_STATE);
-	const [packageFormErrors, setPackageFormErrors] = useState<
-		Partial<Record<keyof PackageSetupFormState, string>>
-	>({});
+	const [packageDraft, setPackageDraft] = useState<PackageEnrolmentDraft>({ planId: '', concessionPercent: '', startDate: '' });
+	const [packageNotes, setPackageNotes] = useState('');
+	const { plans: packagePlans } = usePackageCatalogue();
 	const [packageSubmitting, setPackageSubmitting] = useState(false);
 	
 	// Report viewing state
@@ -588,6 +593,9 @@ export default function Patients() {
 								: data.packageAmount
 									? Number(data.packageAmount)
 									: null,
+						activePackageId: data.activePackageId ? String(data.activePackageId) : undefined,
+						packageName: data.packageName ? String(data.packageName) : undefined,
+						packageExpiresOn: data.packageExpiresOn ? String(data.packageExpiresOn) : undefined,
 						concessionPercent:
 							typeof data.concessionPercent === 'number'
 								? data.concessionPercent
@@ -606,6 +614,7 @@ export default function Patients() {
 								: data.remainingSessions
 									? Number(data.remainingSessions)
 									: undefined,
+						noShowCount: typeof data.noShowCount === 'number' ? data.noShowCount : undefined,
 						readyForNewAppointment: data.readyForNewAppointment === true,
 						deleted: data.deleted === true,
 						deletedAt: deleted ? deleted.toISOString() : (data.deletedAt as string | undefined) || null,
@@ -721,7 +730,9 @@ export default function Patients() {
 								? data.amountPaid
 								: data.amountPaid
 									? Number(data.amountPaid)
-									: 0,
+									: undefined,
+						creditedAmount: typeof data.creditedAmount === 'number' ? data.creditedAmount : undefined,
+						refundedAmount: typeof data.refundedAmount === 'number' ? data.refundedAmount : undefined,
 					} as BillingRecord;
 				});
 				setBilling([...mapped]);
@@ -735,6 +746,21 @@ export default function Patients() {
 		return () => unsubscribe();
 	}, []);
 
+	useEffect(() => {
+		const unsubscribe = onSnapshot(
+			collection(db, WALLETS_COLLECTION),
+			(snapshot: QuerySnapshot) => {
+				setWalletBalances(new Map(snapshot.docs.map(docSnap => [docSnap.id, getWalletBalance(docSnap.data())])));
+			},
+			error => {
+				console.error('Failed to load wallets', error);
+				setWalletBalances(new Map());
+			}
+		);
+
+		return () => unsubscribe();
+	}, []);
+
 	const filteredPatients = useMemo(() => {
 		const query = searchTerm.trim().toLowerCase();
 		return patients.filter(patient => {
@@ -1078,8 +1104,7 @@ export default function Patients() {
 			return;
 		}
 		setSelectedPaymentBill(pendingBill);
-		setPaymentMode('Cash');
-		setUtr('');
+		setPaymentLines([{ mode: 'Cash', amount: getBillBalance(pendingBill).toFixed(2), reference: '' }]);
 		setShowPaymentModal(true);
 		setOpenMenuId(null);
 	};
@@ -1091,8 +1116,7 @@ export default function Patients() {
 			return;
 		}
 		setSelectedPaymentBill(pendingBill);
-		setPaymentMode('Cash');
-		setUtr('');
+		setPaymentLines([{ mode: 'Cash', amount: getBillBalance(pendingBill).toFixed(2), reference: '' }]);
 		setShowPaymentModal(true);
 		setOpenMenuId(null);
 	};
@@ -1100,32 +1124,33 @@ export default function Patients() {
 	const handleClosePaymentModal = () => {
 		setShowPaymentModal(false);
 		setSelectedPaymentBill(null);
-		setPaymentMode('Cash');
-		setUtr('');
+		setPaymentLines([]);
 	};
 
 	const handleSubmitPayment = async () => {
 		if (!selectedPaymentBill || !selectedPaymentBill.id) return;
 
-		if (paymentMode === 'UPI/Card' && !utr.trim()) {
-			alert('Please enter UTR/Transaction ID for UPI/Card payment.');
+		const parsed = parsePaymentLineDrafts(paymentLines);
+		if ('error' in parsed) {
+			alert(parsed.error);
 			return;
 		}
 
 		setProcessingPayment(true);
 		try {
-			const billingRef = doc(db, 'billing', selectedPaymentBill.id);
-			
-				await updateDoc(billingRef, {
-					status: 'Completed',
-					amount: selectedPaymentBill.amount,
-					paymentMode,
-					utr: paymentMode === 'UPI/Card' ? utr.trim() : null,
-					amountPaid: selectedPaymentBill.amount,
-					updatedAt: serverTimestamp(),
-				});
-				alert('Payment processed successfully!');
-			
+			const result = await recordBillPayment({
+				billingDocId: selectedPaymentBill.id,
+				lines: parsed.lines,
+				paidOn: new Date().toISOString().split('T')[0],
+				collectedBy: user?.uid,
+				collectedByName: user?.displayName || user?.email || null,
+			});
+			alert(
+				result.balance > 0
+					? `Payment recorded. Rs. ${result.balance.toFixed(2)} is still due on this bill.`
+					: 'Payment processed successfully!'
+			);
+
 			handleClosePaymentModal();
 		} catch (error) {
 			console.error('Failed to process payment', error);
@@ -1137,66 +1162,14 @@ export default function Patients() {
 
 	const handleOpenPackageModal = (patient: FrontdeskPatient) => {
 		setPackageModalPatient(patient);
-		setPackageForm({
-			totalNoOfSessions: patient.totalSessionsRequired ? String(patient.totalSessionsRequired) : '',
-			paymentType: patient.paymentType ?? '',
-			paymentDescription: patient.paymentDescription ?? '',
-			packageAmount: patient.packageAmount ? String(patient.packageAmount) : '',
-			concessionPercent: patient.concessionPercent != null ? String(patient.concessionPercent) : '',
-		});
-		setPackageFormErrors({});
+		setPackageDraft({ planId: '', concessionPercent: '', startDate: new Date().toISOString().split('T')[0] });
+		setPackageNotes(patient.paymentDescription ?? '');
 		setShowPackageModal(true);
 	};
 
 	const handleClosePackageModal = () => {
 		setShowPackageModal(false);
 		setPackageModalPatient(null);
-		setPackageForm(PACKAGE_FORM_INITIAL_STATE);
-		setPackageFormErrors({});
-	};
-
-	const handlePackageFormChange =
-		(field: keyof PackageSetupFormState) => (event: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
-			const { value } = event.target;
-			setPackageForm(prev => ({
-				...prev,
-				[field]: value,
-				...(field === 'paymentType' && value !== 'with' ? { concessionPercent: '' } : {}),
-			}));
-			setPackageFormErrors(prev => ({
-				...prev,
-				[field]: undefined,
-			}));
-		};
-
-	const validatePackageForm = () => {
-		const errors: Partial<Record<keyof PackageSetupFormState, string>> = {};
-		const totalSessionsValue = Number(packageForm.totalNoOfSessions);
-		if (!packageForm.totalNoOfSessions.trim()) {
-			errors.totalNoOfSessions = 'Please enter the total number of sessions.';
-		} else if (Number.isNaN(totalSessionsValue) || totalSessionsValue <= 0 || !Number.isInteger(totalSessionsValue)) {
-			errors.totalNoOfSessions = 'Total number of sessions must be a positive whole number.';
-		}
-		if (!packageForm.paymentType) {
-			errors.paymentType = 'Please select a payment type.';
-		}
-		const packageAmountValue = Number(packageForm.packageAmount);
-		const concessionPercentValue = packageForm.concessionPercent.trim()
-			? Math.min(Math.max(Number(packageForm.concessionPercent), 0), 100)
-			: 0;
-		if (!packageForm.packageAmount.trim()) {
-			errors.packageAmount = 'Please enter the package amount.';
-		} else if (Number.isNaN(packageAmountValue) || packageAmountValue <= 0) {
-			errors.packageAmount = 'Package amount must be greater than 0.';
-		}
-		if (packageForm.concessionPercent.trim()) {
-			const percentValue = Number(packageForm.concessionPercent);
-			if (Number.isNaN(percentValue) || percentValue < 0 || percentValue > 100) {
-				errors.concessionPercent = 'Concession % must be between 0 and 100.';
-			}
-		}
-		setPackageFormErrors(errors);
-		return Object.keys(errors).length === 0;
 	};
 
 	const handleSubmitPackageSetup = async () => {
@@ -1204,84 +1177,50 @@ export default function Patients() {
 			alert('Unable to find the patient record.');
 			return;
 		}
+		if (packageSubmitting) return;
 
-		if (!validatePackageForm() || packageSubmitting) return;
-
-		const totalSessionsValue = Number(packageForm.totalNoOfSessions);
-		const packageAmountValue = Number(packageForm.packageAmount);
-		const paymentDescriptionValue = packageForm.paymentDescription.trim();
-		const normalizedDescription = paymentDescriptionValue || undefined;
-		const concessionPercentValue =
-			packageForm.paymentType === 'with' && packageForm.concessionPercent.trim()
-				? Math.min(Math.max(Number(packageForm.concessionPercent), 0), 100)
-				: null;
+		const parsed = parsePackageEnrolmentDraft(packagePlans, packageDraft);
+		if ('error' in parsed) {
+			alert(parsed.error);
+			return;
+		}
 
 		setPackageSubmitting(true);
 		try {
-			const patientRef = doc(db, 'patients', packageModalPatient.id);
-			await updateDoc(patientRef, {
-				totalSessionsRequired: totalSessionsValue,
-				paymentType: packageForm.paymentType as PaymentTypeOption,
-				paymentDescription: paymentDescriptionValue || null,
-				packageAmount: packageAmountValue,
-				concessionPercent: concessionPercentValue,
-			});
-
-			const billingId = `PKG-${packageModalPatient.patientId}-${Date.now()}`;
-			const payableAmount =
-				typeof concessionPercentValue === 'number' && concessionPercentValue > 0
-					? Number((packageAmountValue * (1 - concessionPercentValue / 100)).toFixed(2))
-					: packageAmountValue;
-
-			await addDoc(collection(db, 'billing'), {
-				billingId,
-				patient: packageModalPatient.name,
+			const { patientPackage } = await enrolPatientInPackage({
+				patientDocId: packageModalPatient.id,
 				patientId: packageModalPatient.patientId,
-				amount: payableAmount,
-				packageAmount: packageAmountValue,
-				concessionPercent: concessionPercentValue,
-				amountPaid: 0,
-				date: new Date().toISOString().split('T')[0],
-				status: 'Pending',
-				paymentMode: null,
-				utr: null,
-				createdAt: serverTimestamp(),
-				updatedAt: serverTimestamp(),
+				patient: packageModalPatient.name,
+				plan: parsed.plan,
+				concessionPercent: parsed.concessionPercent,
+				startDate: parsed.startDate,
+				doctor: packageModalPatient.assignedDoctor || null,
+				paymentDescription: packageNotes,
+				renewFromId: packageModalPatient.activePackageId,
+				createdBy: user?.uid,
+				createdByName: user?.displayName || user?.email || null,
 			});
+			const packageFields = getPatientPackageFields(patientPackage);
 
 			setPatients(prev =>
 				prev.map(p =>
 					p.id === packageModalPatient.id
 						? {
 								...p,
-								totalSessionsRequired: totalSessionsValue,
-								paymentType: packageForm.paymentType as PaymentTypeOption,
-								paymentDescription: normalizedDescription,
-								packageAmount: packageAmountValue,
-								concessionPercent: concessionPercentValue,
+								...packageFields,
+								concessionPercent: packageFields.concessionPercent,
+								paymentType: patientPackage.concessionPercent > 0 ? 'with' : 'without',
+								paymentDescription: packageNotes.trim() || undefined,
 						  }
 						: p
 				)
 			);
 
-			setPackageModalPatient(prev =>
-				prev
-					? {
-							...prev,
-							totalSessionsRequired: totalSessionsValue,
-							paymentType: packageForm.paymentType as PaymentTypeOption,
-							paymentDescription: normalizedDescription,
-							packageAmount: packageAmountValue,
-							concessionPercent: concessionPercentValue,
-					  }
-					: prev
-			);
-
-			alert('Package details saved. Billing entry created.');
+			alert(`${patientPackage.planName} set up until ${patientPackage.expiresOn}. Billing entry created.`);
 			handleClosePackageModal();
 		} catch (error) {
 			console.error('Failed to save package details', error);
-			alert('Failed to save package information. Please try again.');
+			alert(`Failed to set up package: ${error instanceof Error ? error.message : 'Unknown error'}`);
 		} finally {
 			setPackageSubmitting(false);
 		}
@@ -1301,6 +1240,32 @@ export default function Patients() {
 		return patients.find(patient => patient.patientId === bookingForm.patientId) ?? null;
 	}, [patients, bookingForm.patientId]);
 
+	// What a new booking would leave unpaid by the patient's wallet; null when they have no wallet
+	const getBookingWalletShortfall = (patient: FrontdeskPatient): number | null => {
+		if (!walletBalances.has(patient.patientId)) return null;
+		const outstanding = billing
+			.filter(bill => bill.patientId === patient.patientId)
+			.reduce((sum, bill) => sum + getBillBalance(bill), 0);
+		const charge = patient.patientType === 'REFERRAL' ? 0 : APPOINTMENT_BOOKING_CHARGE;
+		return getWalletShortfall(walletBalances.get(patient.patientId) ?? 0, outstanding, charge);
+	};
+
+	// Bills the wallet should pay off right away, oldest first
+	const getWalletDueBillIds = (patientId: string): string[] => {
+		const completedAppointmentIds = new Set(
+			appointments.filter(a => a.patientId === patientId && a.status === 'completed').map(a => a.appointmentId)
+		);
+		return billing
+			.filter(
+				bill =>
+					bill.id &&
+					bill.patientId === patientId &&
+					isChargeDueFromWallet(bill, !!bill.appointmentId && completedAppointmentIds.has(bill.appointmentId))
+			)
+			.sort((a, b) => a.date.localeCompare(b.date))
+			.map(bill => bill.id!);
+	};
+
 	const doctorOptions = useMemo(() => {
 		return staff
 			.filter(
@@ -1747,6 +1712,7 @@ export default function Patients() {
 			notes: '',
 		});
 		setSelectedSlots([]);
+		setNoShowOverrideReason('');
 		setShowBookingModal(true);
 		setOpenMenuId(null);
 	};
@@ -2141,6 +2107,31 @@ const handleRegisterPatient = async (event: React.FormEvent<HTMLFormElement>) =>
 			return;
 		}
 
+		const noShowStanding = getNoShowStanding(selectedPatient.noShowCount, noShowPolicy);
+		if (noShowStanding === 'override-required' && !noShowOverrideReason.trim()) {
+			alert('This patient has reached the no-show limit. Please enter an override reason to book.');
+			return;
+		}
+		const noShowOverride: NoShowOverride | null =
+			noShowStanding === 'override-required'
+				? {
+						by: user?.displayName || user?.email || 'Front Desk',
+						reason: noShowOverrideReason.trim(),
+						at: new Date().toISOString(),
+						noShowCount: selectedPatient.noShowCount ?? 0,
+					}
+				: null;
+
+		const walletShortfall = getBookingWalletShortfall(selectedPatient);
+		if (walletShortfall) {
+			const proceed = window.confirm(
+				`This booking would exceed ${selectedPatient.name}'s prepaid wallet balance by Rs. ${walletShortfall.toFixed(2)}.\nProceed anyway?`
+			);
+			if (!proceed) {
+				return;
+			}
+		}
+
 		const conflict = checkAppointmentConflict(
 			appointments.map(appointment => ({
 				id: appointment.id,
@@ -2195,6 +2186,7 @@ const handleRegisterPatient = async (event: React.FormEvent<HTMLFormElement>) =>
 				status: 'pending' as AdminAppointmentStatus,
 				notes: bookingForm.notes?.trim() || null,
 				isConsultation: isConsultation,
+				noShowOverride,
 				createdAt: serverTimestamp(),
 			});
 
@@ -2219,7 +2211,8 @@ const handleRegisterPatient = async (event: React.FormEvent<HTMLFormElement>) =>
 				console.error('Failed to create booking charge', billingError);
 			}
 
-			if (typeof selectedPatient.totalSessionsRequired === 'number') {
+			// Package patients have their remaining sessions kept by the package itself
+			if (typeof selectedPatient.totalSessionsRequired === 'number' && !selectedPatient.activePackageId) {
 				const completedCount = appointments.filter(
 					a => a.patientId === bookingForm.patientId && a.status === 'completed'
 				).length;
@@ -2922,6 +2915,12 @@ const handleRegisterPatient = async (event: React.FormEvent<HTMLFormElement>) =>
 											<td className="px-4 py-4">
 												<div className="space-y-1">
 													<p className="text-sm text-slate-700">{patient.name || 'Unnamed'}</p>
+													{walletBalances.has(patient.patientId) && (
+														<span className="inline-flex items-center gap-1 rounded-full bg-emerald-100 px-2 py-0.5 text-xs font-medium text-emerald-700">
+															<i className="fas fa-wallet text-[10px]" aria-hidden="true" />
+															Wallet Rs. {(walletBalances.get(patient.patientId) ?? 0).toFixed(2)}
+														</span>
+													)}
 													{patient.registeredByName && (
 														<span className="inline-flex items-center gap-1 rounded-full bg-purple-100 px-2 py-0.5 text-xs font-medium text-purple-700">
 															<i className="fas fa-user-md text-[10px]" aria-hidden="true" />
@@ -3024,6 +3023,30 @@ const handleRegisterPatient = async (event: React.FormEvent<HTMLFormElement>) =>
 																	<i className="fas fa-edit text-xs" aria-hidden="true" />
 																	Edit
 																</button>
+																<button
+																	type="button"
+																	onClick={event => {
+																		event.stopPropagation();
+																		setOpenMenuId(null);
+																		setWalletPatient(patient);
+																	}}
+																	className="flex w-full items-center gap-2 px-4 py-2 text-slate-600 transition hover:bg-slate-50 hover:text-slate-900"
+																>
+																	<i className="fas fa-wallet text-xs" aria-hidden="true" />
+																	Wallet / Deposit
+																</button>
+																<button
+																	type="button"
+																	onClick={event => {
+																		event.stopPropagation();
+																		setOpenMenuId(null);
+																		handleOpenPackageModal(patient);
+																	}}
+																	className="flex w-full items-center gap-2 px-4 py-2 text-slate-600 transition hover:bg-slate-50 hover:text-slate-900"
+																>
+																	<i className="fas fa-box text-xs" aria-hidden="true" />
+																	{patient.activePackageId ? 'Renew Package' : 'Enrol in Package'}
+																</button>
 																{!canBookNewConsultation(patient.patientId, patient) && (
 																	<button
 																		type="button"
@@ -3627,6 +3650,18 @@ const handleRegisterPatient = async (event: React.FormEvent<HTMLFormElement>) =>
 							<section>
 								<p className="text-xs font-semibold uppercase tracking-wide text-slate-500">Sessions & Package</p>
 								<div className="mt-3 grid gap-4 sm:grid-cols-2">
+									<div>
+										<p className="text-xs text-slate-500">Package</p>
+										<p className="text-sm font-medium text-slate-900">{viewingPatient.packageName || '—'}</p>
+									</div>
+									<div>
+										<p className="text-xs text-slate-500">Valid Until</p>
+										<p className="text-sm font-medium text-slate-900">
+											{viewingPatient.packageExpiresOn
+												? `${viewingPatient.packageExpiresOn}${viewingPatient.packageExpiresOn < new Date().toISOString().split('T')[0] ? ' (expired)' : ''}`
+												: '—'}
+										</p>
+									</div>
 									<div>
 										<p className="text-xs text-slate-500">Total Sessions</p>
 										<p className="text-sm font-medium text-slate-900">
@@ -3684,6 +3719,11 @@ const handleRegisterPatient = async (event: React.FormEvent<HTMLFormElement>) =>
 									patientName={viewingPatient.name}
 								/>
 							</section>
+
+							{/* Account Statement Section */}
+							<section>
+								<PatientStatement patientId={viewingPatient.patientId} patientName={viewingPatient.name} />
+							</section>
 						</div>
 						<footer className="flex items-center justify-end gap-3 border-t border-slate-200 px-6 py-4">
 							<button type="button" onClick={handleClosePatientDetails} className="btn-primary">
@@ -3736,6 +3776,25 @@ const handleRegisterPatient = async (event: React.FormEvent<HTMLFormElement>) =>
 									<p>Email: {selectedBookingPatient?.email ?? '—'}</p>
 								</div>
 
+								{selectedBookingPatient && (
+									<NoShowBookingNotice
+										noShowCount={selectedBookingPatient.noShowCount}
+										policy={noShowPolicy}
+										overrideReason={noShowOverrideReason}
+										onOverrideReasonChange={setNoShowOverrideReason}
+										disabled={bookingLoading}
+									/>
+								)}
+
+								{selectedBookingPatient && !!getBookingWalletShortfall(selectedBookingPatient) && (
+									<div className="rounded-lg border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-700">
+										<i className="fas fa-wallet mr-2" aria-hidden="true" />
+										This booking would exceed the prepaid wallet balance of Rs.{' '}
+										{(walletBalances.get(selectedBookingPatient.patientId) ?? 0).toFixed(2)} by Rs.{' '}
+										{getBookingWalletShortfall(selectedBookingPatient)?.toFixed(2)}. Collect a deposit or payment at the desk.
+									</div>
+								)}
+
 								<div className="grid gap-4 sm:grid-cols-2">
 								<div>
 									<label className="block text-sm font-medium text-slate-700">
@@ -4244,6 +4303,16 @@ const handleRegisterPatient = async (event: React.FormEvent<HTMLFormElement>) =>
 			)}
 
 			{/* Payment Modal */}
+			{walletPatient && (
+				<WalletDialog
+					key={walletPatient.patientId}
+					patientId={walletPatient.patientId}
+					patientName={walletPatient.name}
+					dueBillIds={getWalletDueBillIds(walletPatient.patientId)}
+					onClose={() => setWalletPatient(null)}
+				/>
+			)}
+
 			{showPaymentModal && selectedPaymentBill && (
 				<div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/60 px-4 py-6">
 					<div className="w-full max-w-md rounded-2xl border border-slate-200 bg-white shadow-2xl">
@@ -4279,10 +4348,8 @@ const handleRegisterPatient = async (event: React.FormEvent<HTMLFormElement>) =>
 									const totalAmount = isPackagePayment
 										? selectedPaymentBill.packageAmount ?? selectedPaymentBill.amount
 										: selectedPaymentBill.amount;
-									const amountPaid =
-										selectedPaymentBill.amountPaid ??
-										(selectedPaymentBill.status === 'Completed' ? totalAmount : 0);
-									const amountDue = Math.max(totalAmount - amountPaid, 0);
+									const amountPaid = getPaidAmount(selectedPaymentBill);
+									const amountDue = getBillBalance(selectedPaymentBill);
 										
 										return (
 											<>
@@ -4318,54 +4385,14 @@ const handleRegisterPatient = async (event: React.FormEvent<HTMLFormElement>) =>
 
 							<div>
 								<label className="block text-sm font-medium text-slate-700 mb-2">
-									Payment Mode <span className="text-rose-600">*</span>
+									Payment <span className="text-rose-600">*</span>
 								</label>
-								<select
-									value={paymentMode}
-									onChange={e => setPaymentMode(e.target.value)}
-									className="select-base"
-									disabled={processingPayment}
-									required
-								>
-									<option value="Cash">Cash</option>
-									<option value="UPI/Card">UPI/Card</option>
-									<option value="Cheque">Cheque</option>
-									<option value="Bank Transfer">Bank Transfer</option>
-								</select>
+								<PaymentLinesEditor
+									lines={paymentLines}
+									onChange={setPaymentLines}
+									balanceDue={getBillBalance(selectedPaymentBill)}
+								/>
 							</div>
-
-							{paymentMode === 'UPI/Card' && (
-								<div>
-									<label className="block text-sm font-medium text-slate-700 mb-2">
-										UTR/Transaction ID <span className="text-rose-600">*</span>
-									</label>
-									<input
-										type="text"
-										value={utr}
-										onChange={e => setUtr(e.target.value)}
-										className="input-base"
-										placeholder="Enter UTR or Transaction ID"
-										disabled={processingPayment}
-										required
-									/>
-								</div>
-							)}
-
-							{(paymentMode === 'Cheque' || paymentMode === 'Bank Transfer') && (
-								<div>
-									<label className="block text-sm font-medium text-slate-700 mb-2">
-										Reference Number (Optional)
-									</label>
-									<input
-										type="text"
-										value={utr}
-										onChange={e => setUtr(e.target.value)}
-										className="input-base"
-										placeholder="Enter reference number"
-										disabled={processingPayment}
-									/>
-								</div>
-							)}
 						</div>
 						<footer className="flex items-center justify-end gap-3 border-t border-slate-200 px-6 py-4">
 							<button
@@ -4410,6 +4437,14 @@ const handleRegisterPatient = async (event: React.FormEvent<HTMLFormElement>) =>
 									Configure package details for {packageModalPatient.name || 'Unnamed'} (
 									{packageModalPatient.patientId || '—'})
 								</p>
+								{packageModalPatient.activePackageId && (
+									<p className="text-xs text-amber-700">
+										Replaces the current package: {packageModalPatient.packageName}
+										{typeof packageModalPatient.remainingSessions === 'number'
+											? ` (${packageModalPatient.remainingSessions} sessions left${packageModalPatient.packageExpiresOn ? `, valid until ${packageModalPatient.packageExpiresOn}` : ''})`
+											: ''}
+									</p>
+								)}
 							</div>
 							<button
 								type="button"
@@ -4425,114 +4460,30 @@ const handleRegisterPatient = async (event: React.FormEvent<HTMLFormElement>) =>
 							<div className="rounded-xl border border-slate-200 bg-slate-50 px-4 py-3 text-sm text-slate-600">
 								<p className="font-semibold text-slate-800">Consultation completed</p>
 								<p>
-									Record the patient's package payment details. This will create a billing entry and update the patient
-									record.
+									Enrol the patient in a package from the catalogue. This creates the package bill and sets the patient&apos;s
+									sessions and expiry from the package.
 								</p>
 							</div>
 
-							<div className="grid gap-4 md:grid-cols-12">
-								<div className="md:col-span-6">
-									<label className="block text-sm font-medium text-slate-700">
-										Total No of Session <span className="text-rose-600">*</span>
-									</label>
-									<input
-										type="number"
-										min="1"
-										step="1"
-										value={packageForm.totalNoOfSessions}
-										onChange={handlePackageFormChange('totalNoOfSessions')}
-										className="input-base mt-2"
-										placeholder="Enter total number of sessions"
-										required
-										disabled={packageSubmitting}
-									/>
-									{packageFormErrors.totalNoOfSessions && (
-										<p className="mt-1 text-xs text-rose-500">{packageFormErrors.totalNoOfSessions}</p>
-									)}
-								</div>
-								<div className="md:col-span-6">
-									<label className="block text-sm font-medium text-slate-700">
-										Type of Payment <span className="text-rose-600">*</span>
-									</label>
-									<select
-										value={packageForm.paymentType}
-										onChange={handlePackageFormChange('paymentType')}
-										className="select-base mt-2"
-										required
-										disabled={packageSubmitting}
-									>
-										<option value="">Select</option>
-										{PAYMENT_OPTIONS.map(option => (
-											<option key={option.value} value={option.value}>
-												{option.label}
-											</option>
-										))}
-									</select>
-									{packageFormErrors.paymentType && (
-										<p className="mt-1 text-xs text-rose-500">{packageFormErrors.paymentType}</p>
-									)}
-								</div>
-								<div className="md:col-span-6">
-									<label className="block text-sm font-medium text-slate-700">
-										Payment Description / Concession Reason
-									</label>
-									<input
-										type="text"
-										value={packageForm.paymentDescription}
-										onChange={handlePackageFormChange('paymentDescription')}
-										className="input-base mt-2"
-										placeholder="Enter details (if any)"
-										disabled={packageSubmitting}
-									/>
-								</div>
-								{packageForm.paymentType === 'with' && (
-									<div className="md:col-span-6">
-										<label className="block text-sm font-medium text-slate-700">
-											Concession (%) <span className="text-slate-500 text-xs font-normal">(optional)</span>
-										</label>
-										<input
-											type="number"
-											min="0"
-											max="100"
-											step="0.01"
-											value={packageForm.concessionPercent ?? ''}
-											onChange={handlePackageFormChange('concessionPercent')}
-											className="input-base mt-2"
-											placeholder="Enter percentage discount"
-											disabled={packageSubmitting}
-										/>
-										{packageFormErrors.concessionPercent && (
-											<p className="mt-1 text-xs text-rose-500">{packageFormErrors.concessionPercent}</p>
-										)}
-									</div>
-								)}
-							</div>
+							<PackagePlanFields
+								plans={packagePlans}
+								draft={packageDraft}
+								onChange={setPackageDraft}
+								disabled={packageSubmitting}
+							/>
 
-							<div className="grid gap-4 md:grid-cols-12">
-								<div className="md:col-span-6">
-									<label className="block text-sm font-medium text-slate-700">
-										Package Amount <span className="text-rose-600">*</span>
-									</label>
-									<div className="relative mt-2">
-										<span className="pointer-events-none absolute inset-y-0 left-3 flex items-center text-sm text-slate-500">
-											₹
-										</span>
-										<input
-											type="number"
-											min="0"
-											step="0.01"
-											value={packageForm.packageAmount}
-											onChange={handlePackageFormChange('packageAmount')}
-											className="input-base pl-8"
-											placeholder="0.00"
-											required
-											disabled={packageSubmitting}
-										/>
-									</div>
-									{packageFormErrors.packageAmount && (
-										<p className="mt-1 text-xs text-rose-500">{packageFormErrors.packageAmount}</p>
-									)}
-								</div>
+							<div>
+								<label className="block text-sm font-medium text-slate-700">
+									Payment Description / Concession Reason
+								</label>
+								<input
+									type="text"
+									value={packageNotes}
+									onChange={event => setPackageNotes(event.target.value)}
+									className="input-base mt-2"
+									placeholder="Enter details (if any)"
+									disabled={packageSubmitting}
+								/>
 							</div>
 						</div>
 						<footer className="flex items-center justify-end gap-3 border-t border-slate-200 px-6 py-4">
@@ -15,6 +15,8 @@ import { sendSMSNotification, isValidPhoneNumber } from '@/lib/sms';
 import { sendWhatsAppNotification } from '@/lib/whatsapp';
 import { createInitialSessionAllowance, normalizeSessionAllowance } from '@/lib/sessionAllowance';
 import type { SessionAllowance } from '@/lib/types';
+import { resolveAppointmentDuration } from '@/lib/serviceCatalog';
+import ServiceSelect from '@/components/appointments/ServiceSelect';
 
 type PaymentTypeOption = 'with' | 'without';
 // MODIFIED: Changed Gethhma to GETHNA
@@ -63,6 +65,7 @@ interface AssignmentState {
 	doctor: string;
 	date: string;
 	time: string;
+	serviceType: string;
 	errors: Partial<Record<'doctor' | 'date' | 'time', string>>;
 }
 
@@ -431,6 +434,7 @@ export default function Register() {
 			doctor: filteredClinicians[0]?.name ?? '',
 			date: '',
 			time: '',
+			serviceType: '',
 			errors: {},
 		});
 	};
@@ -505,6 +509,8 @@ export default function Register() {
 				doctor: assignment.doctor,
 				date: assignment.date,
 				time: assignment.time,
+				duration: resolveAppointmentDuration({ serviceType: assignment.serviceType }),
+				serviceType: assignment.serviceType || null,
 				status: 'ongoing' as AdminAppointmentStatus,
 				isConsultation: isConsultation,
 				createdAt: serverTimestamp(),
@@ -947,6 +953,11 @@ export default function Register() {
 									)}
 								</div>
 							</div>
+							<ServiceSelect
+								value={assignment.serviceType}
+								onChange={serviceType => setAssignment(current => (current ? { ...current, serviceType } : current))}
+								disabled={submitting}
+							/>
 						</div>
 						<footer className="flex items-center justify-end gap-3 border-t border-slate-200 px-6 py-4">
 							<button type="button" onClick={() => setAssignment(null)} className="btn-secondary">
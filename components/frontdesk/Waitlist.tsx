@@ -0,0 +1,513 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { addDoc, collection, doc, onSnapshot, updateDoc, type QuerySnapshot } from 'firebase/firestore';
+
+import { db } from '@/lib/firebase';
+import PageHeader from '@/components/PageHeader';
+import { useAuth } from '@/contexts/AuthContext';
+import { SERVICE_CATALOG, getServiceType } from '@/lib/serviceCatalog';
+import {
+	WAITLIST_COLLECTION,
+	WAITLIST_OFFERS_COLLECTION,
+	isOfferExpired,
+	mapWaitlistEntry,
+	mapWaitlistOffer,
+	type WaitlistEntry,
+	type WaitlistOffer,
+} from '@/lib/waitlist';
+
+interface PatientOption {
+	id: string;
+	patientId: string;
+	name: string;
+	phone?: string;
+	email?: string;
+}
+
+interface StaffOption {
+	id: string;
+	userName: string;
+	role: string;
+	status: string;
+}
+
+interface WaitlistFormState {
+	patientId: string;
+	doctor: string;
+	dateFrom: string;
+	dateTo: string;
+	timeFrom: string;
+	timeTo: string;
+	serviceType: string;
+	notes: string;
+}
+
+const CLINICAL_ROLES = ['Physiotherapist', 'StrengthAndConditioning', 'ClinicalTeam'];
+
+const getTodayKey = () => new Date().toISOString().split('T')[0];
+
+const createEmptyForm = (): WaitlistFormState => ({
+	patientId: '',
+	doctor: '',
+	dateFrom: getTodayKey(),
+	dateTo: '',
+	timeFrom: '',
+	timeTo: '',
+	serviceType: '',
+	notes: '',
+});
+
+const formatDateLabel = (value: string) => {
+	const parsed = new Date(value + 'T00:00:00');
+	if (Number.isNaN(parsed.getTime())) return value;
+	return new Intl.DateTimeFormat('en-US', {
+		month: 'short',
+		day: 'numeric',
+	}).format(parsed);
+};
+
+const OFFER_STATUS_LABELS: Record<WaitlistOffer['status'], string> = {
+	open: 'Awaiting reply',
+	accepted: 'Booked',
+	superseded: 'Taken by another patient',
+};
+
+export default function Waitlist() {
+	const { user } = useAuth();
+	const [entries, setEntries] = useState<WaitlistEntry[]>([]);
+	const [offers, setOffers] = useState<WaitlistOffer[]>([]);
+	const [patients, setPatients] = useState<PatientOption[]>([]);
+	const [staff, setStaff] = useState<StaffOption[]>([]);
+	const [loading, setLoading] = useState(true);
+	const [form, setForm] = useState<WaitlistFormState>(createEmptyForm);
+	const [patientSearch, setPatientSearch] = useState('');
+	const [saving, setSaving] = useState(false);
+	const [removingId, setRemovingId] = useState<string | null>(null);
+
+	useEffect(() => {
+		const unsubscribe = onSnapshot(
+			collection(db, WAITLIST_COLLECTION),
+			(snapshot: QuerySnapshot) => {
+				setEntries(snapshot.docs.map(docSnap => mapWaitlistEntry(docSnap.id, docSnap.data())));
+				setLoading(false);
+			},
+			error => {
+				console.error('Failed to load waitlist', error);
+				setEntries([]);
+				setLoading(false);
+			}
+		);
+		return () => unsubscribe();
+	}, []);
+
+	useEffect(() => {
+		const unsubscribe = onSnapshot(
+			collection(db, WAITLIST_OFFERS_COLLECTION),
+			(snapshot: QuerySnapshot) => {
+				setOffers(snapshot.docs.map(docSnap => mapWaitlistOffer(docSnap.id, docSnap.data())));
+			},
+			error => {
+				console.error('Failed to load waitlist offers', error);
+				setOffers([]);
+			}
+		);
+		return () => unsubscribe();
+	}, []);
+
+	useEffect(() => {
+		const unsubscribe = onSnapshot(
+			collection(db, 'patients'),
+			(snapshot: QuerySnapshot) => {
+				const mapped = snapshot.docs.map(docSnap => {
+					const data = docSnap.data() as Record<string, unknown>;
+					return {
+						id: docSnap.id,
+						patientId: data.patientId ? String(data.patientId) : '',
+						name: data.name ? String(data.name) : '',
+						phone: data.phone ? String(data.phone) : undefined,
+						email: data.email ? String(data.email) : undefined,
+					};
+				});
+				setPatients(mapped.filter(patient => patient.patientId));
+			},
+			error => {
+				console.error('Failed to load patients', error);
+				setPatients([]);
+			}
+		);
+		return () => unsubscribe();
+	}, []);
+
+	useEffect(() => {
+		const unsubscribe = onSnapshot(
+			collection(db, 'staff'),
+			(snapshot: QuerySnapshot) => {
+				const mapped = snapshot.docs.map(docSnap => {
+					const data = docSnap.data() as Record<string, unknown>;
+					return {
+						id: docSnap.id,
+						userName: data.userName ? String(data.userName) : '',
+						role: data.role ? String(data.role) : '',
+						status: data.status ? String(data.status) : '',
+					};
+				});
+				setStaff(mapped);
+			},
+			error => {
+				console.error('Failed to load staff', error);
+				setStaff([]);
+			}
+		);
+		return () => unsubscribe();
+	}, []);
+
+	const clinicians = useMemo(
+		() =>
+			staff
+				.filter(member => CLINICAL_ROLES.includes(member.role) && member.status !== 'Inactive' && member.userName)
+				.sort((a, b) => a.userName.localeCompare(b.userName)),
+		[staff]
+	);
+
+	const patientMatches = useMemo(() => {
+		const search = patientSearch.trim().toLowerCase();
+		if (!search) return [];
+		return patients
+			.filter(
+				patient =>
+					patient.name.toLowerCase().includes(search) ||
+					patient.patientId.toLowerCase().includes(search) ||
+					(patient.phone || '').includes(search)
+			)
+			.slice(0, 8);
+	}, [patients, patientSearch]);
+
+	const selectedPatient = patients.find(patient => patient.patientId === form.patientId);
+
+	const waitingEntries = useMemo(
+		() =>
+			entries
+				.filter(entry => entry.status === 'waiting')
+				.sort((a, b) => (a.createdAt || '').localeCompare(b.createdAt || '')),
+		[entries]
+	);
+
+	const recentlyBooked = useMemo(
+		() =>
+			entries
+				.filter(entry => entry.status === 'booked')
+				.sort((a, b) => (b.lastOfferedAt || '').localeCompare(a.lastOfferedAt || ''))
+				.slice(0, 10),
+		[entries]
+	);
+
+	const offersByEntry = useMemo(() => {
+		const map = new Map<string, WaitlistOffer[]>();
+		offers.forEach(offer => {
+			const list = map.get(offer.entryId) || [];
+			list.push(offer);
+			map.set(offer.entryId, list);
+		});
+		map.forEach(list => list.sort((a, b) => (b.createdAt || '').localeCompare(a.createdAt || '')));
+		return map;
+	}, [offers]);
+
+	const handleAdd = async (event: React.FormEvent) => {
+		event.preventDefault();
+		if (!selectedPatient) {
+			alert('Please select a patient.');
+			return;
+		}
+		if (!form.dateFrom || !form.dateTo) {
+			alert('Please enter the date window the patient can attend.');
+			return;
+		}
+		if (form.dateTo < form.dateFrom) {
+			alert('The end date must be on or after the start date.');
+			return;
+		}
+		if (form.timeFrom && form.timeTo && form.timeTo <= form.timeFrom) {
+			alert('The latest time must be after the earliest time.');
+			return;
+		}
+		if (waitingEntries.some(entry => entry.patientId === selectedPatient.patientId)) {
+			alert('This patient is already on the waitlist.');
+			return;
+		}
+
+		setSaving(true);
+		try {
+			const service = getServiceType(form.serviceType);
+			await addDoc(collection(db, WAITLIST_COLLECTION), {
+				patientId: selectedPatient.patientId,
+				patientName: selectedPatient.name,
+				patientPhone: selectedPatient.phone || null,
+				patientEmail: selectedPatient.email || null,
+				doctor: form.doctor || null,
+				dateFrom: form.dateFrom,
+				dateTo: form.dateTo,
+				timeFrom: form.timeFrom || null,
+				timeTo: form.timeTo || null,
+				duration: service?.durationMinutes ?? null,
+				serviceType: service?.id ?? null,
+				notes: form.notes.trim() || null,
+				status: 'waiting',
+				createdBy: user?.email || user?.displayName || 'Front Desk',
+				createdAt: new Date().toISOString(),
+			});
+			setForm(createEmptyForm());
+			setPatientSearch('');
+		} catch (error) {
+			console.error('Failed to add waitlist entry', error);
+			alert('Failed to add patient to the waitlist. Please try again.');
+		} finally {
+			setSaving(false);
+		}
+	};
+
+	const handleRemove = async (entry: WaitlistEntry) => {
+		if (!window.confirm(`Remove ${entry.patientName} from the waitlist?`)) return;
+
+		setRemovingId(entry.id);
+		try {
+			await updateDoc(doc(db, WAITLIST_COLLECTION, entry.id), { status: 'removed' });
+		} catch (error) {
+			console.error('Failed to remove waitlist entry', error);
+			alert('Failed to remove waitlist entry. Please try again.');
+		} finally {
+			setRemovingId(null);
+		}
+	};
+
+	const describeWindow = (entry: WaitlistEntry) => {
+		const dates = `${formatDateLabel(entry.dateFrom)} - ${formatDateLabel(entry.dateTo)}`;
+		if (!entry.timeFrom && !entry.timeTo) return `${dates}, any time`;
+		return `${dates}, ${entry.timeFrom || 'opening'} - ${entry.timeTo || 'closing'}`;
+	};
+
+	const renderOfferStatus = (entry: WaitlistEntry) => {
+		const latest = offersByEntry.get(entry.id)?.[0];
+		if (!latest) return <span className="text-xs text-slate-400">No offers yet</span>;
+		const label = latest.status === 'open' && isOfferExpired(latest) ? 'Expired' : OFFER_STATUS_LABELS[latest.status];
+		return (
+			<span className="text-xs text-slate-600">
+				{formatDateLabel(latest.date)} {latest.time} with {latest.doctor} · {label}
+			</span>
+		);
+	};
+
+	return (
+		<div className="min-h-screen p-8">
+			<PageHeader
+				title="Waitlist"
+				description="Patients waiting for an earlier slot. When an appointment is cancelled or rescheduled, matching patients are offered the slot by SMS and WhatsApp and the first to confirm gets it."
+			/>
+
+			<div className="mt-6 space-y-6">
+				<section className="section-card">
+					<h3 className="text-lg font-semibold text-slate-900">Add to Waitlist</h3>
+					<form onSubmit={handleAdd} className="mt-4 grid gap-4 md:grid-cols-2">
+						<div className="md:col-span-2">
+							<label className="block text-sm font-medium text-slate-700">Patient</label>
+							{selectedPatient ? (
+								<div className="mt-2 flex items-center justify-between rounded-lg border border-slate-200 px-3 py-2 text-sm">
+									<span>
+										<span className="font-semibold text-slate-900">{selectedPatient.name}</span>
+										<span className="ml-2 text-slate-500">{selectedPatient.patientId}</span>
+										{!selectedPatient.phone && (
+											<span className="ml-2 text-amber-600">No phone number, offers cannot be sent</span>
+										)}
+									</span>
+									<button
+										type="button"
+										onClick={() => setForm(prev => ({ ...prev, patientId: '' }))}
+										className="text-sm font-medium text-slate-600 hover:text-slate-900"
+									>
+										Change
+									</button>
+								</div>
+							) : (
+								<>
+									<input
+										type="text"
+										value={patientSearch}
+										onChange={event => setPatientSearch(event.target.value)}
+										placeholder="Search by name, patient ID or phone"
+										className="input-base mt-2"
+									/>
+									{patientMatches.length > 0 && (
+										<ul className="mt-2 divide-y divide-slate-100 rounded-lg border border-slate-200">
+											{patientMatches.map(patient => (
+												<li key={patient.id}>
+													<button
+														type="button"
+														onClick={() => {
+															setForm(prev => ({ ...prev, patientId: patient.patientId }));
+															setPatientSearch('');
+														}}
+														className="w-full px-3 py-2 text-left text-sm hover:bg-slate-50"
+													>
+														<span className="font-medium text-slate-900">{patient.name}</span>
+														<span className="ml-2 text-slate-500">{patient.patientId}</span>
+													</button>
+												</li>
+											))}
+										</ul>
+									)}
+								</>
+							)}
+						</div>
+						<div>
+							<label className="block text-sm font-medium text-slate-700">Clinician</label>
+							<select
+								value={form.doctor}
+								onChange={event => setForm(prev => ({ ...prev, doctor: event.target.value }))}
+								className="select-base mt-2"
+							>
+								<option value="">Any clinician</option>
+								{clinicians.map(member => (
+									<option key={member.id} value={member.userName}>
+										{member.userName}
+									</option>
+								))}
+							</select>
+						</div>
+						<div>
+							<label className="block text-sm font-medium text-slate-700">Service</label>
+							<select
+								value={form.serviceType}
+								onChange={event => setForm(prev => ({ ...prev, serviceType: event.target.value }))}
+								className="select-base mt-2"
+							>
+								<option value="">Standard session</option>
+								{SERVICE_CATALOG.map(service => (
+									<option key={service.id} value={service.id}>
+										{service.name} ({service.durationMinutes} min)
+									</option>
+								))}
+							</select>
+						</div>
+						<div>
+							<label className="block text-sm font-medium text-slate-700">Available from</label>
+							<input
+								type="date"
+								value={form.dateFrom}
+								min={getTodayKey()}
+								onChange={event => setForm(prev => ({ ...prev, dateFrom: event.target.value }))}
+								className="input-base mt-2"
+								required
+							/>
+						</div>
+						<div>
+							<label className="block text-sm font-medium text-slate-700">Available until</label>
+							<input
+								type="date"
+								value={form.dateTo}
+								min={form.dateFrom || getTodayKey()}
+								onChange={event => setForm(prev => ({ ...prev, dateTo: event.target.value }))}
+								className="input-base mt-2"
+								required
+							/>
+						</div>
+						<div>
+							<label className="block text-sm font-medium text-slate-700">Earliest time (optional)</label>
+							<input
+								type="time"
+								value={form.timeFrom}
+								onChange={event => setForm(prev => ({ ...prev, timeFrom: event.target.value }))}
+								className="input-base mt-2"
+							/>
+						</div>
+						<div>
+							<label className="block text-sm font-medium text-slate-700">Latest end time (optional)</label>
+							<input
+								type="time"
+								value={form.timeTo}
+								onChange={event => setForm(prev => ({ ...prev, timeTo: event.target.value }))}
+								className="input-base mt-2"
+							/>
+						</div>
+						<div className="md:col-span-2">
+							<label className="block text-sm font-medium text-slate-700">Notes</label>
+							<input
+								type="text"
+								value={form.notes}
+								onChange={event => setForm(prev => ({ ...prev, notes: event.target.value }))}
+								placeholder="e.g. prefers mornings, can come at short notice"
+								className="input-base mt-2"
+							/>
+						</div>
+						<div className="md:col-span-2 flex justify-end">
+							<button type="submit" className="btn-primary" disabled={saving}>
+								<i className="fas fa-user-clock mr-2" aria-hidden="true" />
+								{saving ? 'Adding...' : 'Add to Waitlist'}
+							</button>
+						</div>
+					</form>
+				</section>
+
+				<section className="section-card">
+					<h3 className="text-lg font-semibold text-slate-900">Waiting ({waitingEntries.length})</h3>
+					<div className="mt-4">
+						{loading ? (
+							<p className="text-sm text-slate-500">Loading waitlist...</p>
+						) : waitingEntries.length === 0 ? (
+							<p className="text-sm text-slate-500">No patients are waiting for an earlier slot.</p>
+						) : (
+							<ul className="divide-y divide-slate-100 rounded-lg border border-slate-200">
+								{waitingEntries.map(entry => (
+									<li key={entry.id} className="flex items-start justify-between gap-4 px-4 py-3">
+										<div className="space-y-1">
+											<p className="text-sm font-semibold text-slate-900">
+												{entry.patientName}
+												<span className="ml-2 font-normal text-slate-500">{entry.patientId}</span>
+											</p>
+											<p className="text-xs text-slate-500">
+												{entry.doctor || 'Any clinician'} · {describeWindow(entry)}
+												{entry.serviceType && ` · ${getServiceType(entry.serviceType)?.name ?? entry.serviceType}`}
+											</p>
+											{entry.notes && <p className="text-xs text-slate-500">{entry.notes}</p>}
+											{renderOfferStatus(entry)}
+										</div>
+										<button
+											type="button"
+											onClick={() => handleRemove(entry)}
+											disabled={removingId === entry.id}
+											className="text-sm font-medium text-rose-600 hover:text-rose-700 disabled:opacity-50"
+										>
+											<i className="fas fa-trash mr-1" aria-hidden="true" />
+											{removingId === entry.id ? 'Removing...' : 'Remove'}
+										</button>
+									</li>
+								))}
+							</ul>
+						)}
+					</div>
+				</section>
+
+				{recentlyBooked.length > 0 && (
+					<section className="section-card">
+						<h3 className="text-lg font-semibold text-slate-900">Booked from Waitlist</h3>
+						<ul className="mt-4 divide-y divide-slate-100 rounded-lg border border-slate-200">
+							{recentlyBooked.map(entry => {
+								const accepted = offersByEntry.get(entry.id)?.find(offer => offer.status === 'accepted');
+								return (
+									<li key={entry.id} className="px-4 py-3">
+										<p className="text-sm font-semibold text-slate-900">{entry.patientName}</p>
+										<p className="text-xs text-slate-500">
+											{accepted
+												? `${formatDateLabel(accepted.date)} ${accepted.time} with ${accepted.doctor}`
+												: 'Booked'}
+											{entry.appointmentId && ` · ${entry.appointmentId}`}
+										</p>
+									</li>
+								);
+							})}
+						</ul>
+					</section>
+				)}
+			</div>
+		</div>
+	);
+}
@@ -4,6 +4,9 @@ import { useState, useEffect, useMemo } from 'react';
 import { collection, query, where, getDocs, Timestamp } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
 import StatsChart from '@/components/dashboard/StatsChart';
+import { usePatientOutcomeMeasures } from '@/hooks/usePatientOutcomeMeasures';
+import { OUTCOME_MEASURES, formatOutcomeScore, getOutcomeChange } from '@/lib/outcomeMeasures';
+import { LSI_THRESHOLD, getInvolvedSide, getLimbSymmetryIndex, getRomNorm, listJointMeasurements } from '@/lib/romMmt';
 import type { PatientRecordFull } from '@/lib/types';
 
 interface PatientProgressAnalyticsProps {
@@ -41,6 +44,7 @@ export default function PatientProgressAnalytics({ patientId, patientName }: Pat
 	const [loading, setLoading] = useState(true);
 	const [error, setError] = useState<string | null>(null);
 	const [patientInfo, setPatientInfo] = useState<{ totalSessions?: number; remainingSessions?: number } | null>(null);
+	const { results: outcomeResults } = usePatientOutcomeMeasures(patientId);
 
 	// Load patient info and report versions
 	useEffect(() => {
@@ -491,6 +495,113 @@ export default function PatientProgressAnalytics({ patientId, patientName }: Pat
 		};
 	}, [patientInfo, completionStatus]);
 
+	// Chart 6: Standardised outcome measure scores, one chart per measure with the MCID target from baseline
+	const outcomeMeasureCharts = useMemo(() => {
+		return OUTCOME_MEASURES.map(measure => {
+			const results = outcomeResults.filter(result => result.measureId === measure.id);
+			if (results.length === 0) return null;
+
+			const baseline = results[0].score;
+			const latest = results[results.length - 1].score;
+			const target = Math.min(measure.scoreMax, Math.max(0, measure.higherIsBetter ? baseline + measure.mcid : baseline - measure.mcid));
+			return {
+				measure,
+				change: results.length > 1 ? getOutcomeChange(measure, baseline, latest) : null,
+				latest,
+				data: {
+					labels: results.map(result =>
+						result.sessionNumber ? `Session ${result.sessionNumber}` : new Date(result.recordedAt).toLocaleDateString()
+					),
+					datasets: [
+						{
+							label: `${measure.shortName} (0-${measure.scoreMax}${measure.unit})`,
+							data: results.map(result => result.score),
+							borderColor: 'rgba(14, 165, 233, 0.8)',
+							backgroundColor: 'rgba(14, 165, 233, 0.1)',
+							borderWidth: 3,
+							fill: true,
+							tension: 0.4,
+						},
+						{
+							label: 'MCID target',
+							data: results.map(() => target),
+							borderColor: 'rgba(148, 163, 184, 0.8)',
+							backgroundColor: 'rgba(148, 163, 184, 0)',
+							borderWidth: 1,
+						},
+					],
+				},
+			};
+		}).filter(chart => chart !== null);
+	}, [outcomeResults]);
+
+	// Chart 7: ROM (degrees) and MMT (Oxford grade) per joint and motion, for motions measured in more than one session
+	const jointProgressCharts = useMemo(() => {
+		const involvedSide = getInvolvedSide(reportVersions[reportVersions.length - 1]?.data.siteSide);
+		const sideColors = {
+			left: 'rgba(14, 165, 233, 0.8)',
+			right: 'rgba(249, 115, 22, 0.8)',
+			none: 'rgba(99, 102, 241, 0.8)',
+		};
+
+		return (['rom', 'mmt'] as const).flatMap(kind => {
+			const series = new Map<string, { joint: string; motion: string; sessions: Map<number, Partial<Record<'left' | 'right' | 'none', number>>> }>();
+			reportVersions.forEach((version, index) => {
+				listJointMeasurements(version.data[kind], kind).forEach(({ joint, motion, side, value }) => {
+					const key = `${joint}|${motion}`;
+					const entry = series.get(key) ?? { joint, motion, sessions: new Map() };
+					entry.sessions.set(index, { ...entry.sessions.get(index), [side ?? 'none']: value });
+					series.set(key, entry);
+				});
+			});
+
+			return Array.from(series.values())
+				.filter(entry => entry.sessions.size > 1)
+				.map(({ joint, motion, sessions }) => {
+					const indexes = Array.from(sessions.keys()).sort((a, b) => a - b);
+					const normal = kind === 'rom' ? getRomNorm(joint, motion) : 5;
+					const sides = (['left', 'right', 'none'] as const).filter(side => indexes.some(index => sessions.get(index)?.[side] !== undefined));
+					const latest = sessions.get(indexes[indexes.length - 1]) ?? {};
+					const lsi = latest.left !== undefined && latest.right !== undefined ? getLimbSymmetryIndex(latest.left, latest.right, involvedSide) : null;
+
+					return {
+						key: `${kind}-${joint}-${motion}`,
+						title: `${joint} ${motion} - ${kind === 'rom' ? 'ROM (degrees)' : 'MMT (Oxford grade)'}`,
+						normal,
+						lsi,
+						data: {
+							labels: indexes.map(index => `Session ${reportVersions[index].version || index + 1}`),
+							datasets: [
+								...sides.map(side => ({
+									label: side === 'none' ? motion : side === 'left' ? 'Left' : 'Right',
+									// Sessions without a value for this side carry the nearest earlier reading (or the first one)
+									data: indexes.reduce<number[]>((values, index) => {
+										const value = sessions.get(index)?.[side];
+										const first = indexes.map(i => sessions.get(i)?.[side]).find(reading => reading !== undefined) ?? 0;
+										values.push(value ?? values[values.length - 1] ?? first);
+										return values;
+									}, []),
+									borderColor: sideColors[side],
+									backgroundColor: 'rgba(255, 255, 255, 0)',
+									borderWidth: 3,
+									tension: 0.3,
+								})),
+								...(normal !== null
+									? [{
+										label: 'Normal',
+										data: indexes.map(() => normal),
+										borderColor: 'rgba(148, 163, 184, 0.8)',
+										backgroundColor: 'rgba(148, 163, 184, 0)',
+										borderWidth: 1,
+									}]
+									: []),
+							],
+						},
+					};
+				});
+		});
+	}, [reportVersions]);
+
 	// Key Metrics
 	const keyMetrics = useMemo(() => {
 		const totalSessions = reportVersions.length;
@@ -748,6 +859,38 @@ export default function PatientProgressAnalytics({ patientId, patientName }: Pat
 						</p>
 					</div>
 				)}
+
+				{/* Chart 7: ROM and MMT per motion */}
+				{jointProgressCharts.map(chart => (
+					<div key={chart.key} className="rounded-lg border border-slate-200 bg-white p-4">
+						<h4 className="text-sm font-semibold text-slate-700 mb-3">
+							{chart.title}
+						</h4>
+						<StatsChart type="line" data={chart.data} height={280} />
+						<p className="text-xs text-slate-500 mt-2 text-center">
+							{chart.normal !== null ? `Normal ${chart.normal}` : 'No normal value for this motion'}
+							{chart.lsi !== null && (
+								<span className={chart.lsi < LSI_THRESHOLD ? 'font-semibold text-rose-600' : undefined}>
+									{` - latest limb symmetry index ${chart.lsi}%`}
+								</span>
+							)}
+						</p>
+					</div>
+				))}
+
+				{/* Chart 6: Outcome Measures */}
+				{outcomeMeasureCharts.map(({ measure, change, latest, data }) => (
+					<div key={measure.id} className="rounded-lg border border-slate-200 bg-white p-4">
+						<h4 className="text-sm font-semibold text-slate-700 mb-3">
+							{measure.name}
+						</h4>
+						<StatsChart type="line" data={data} height={280} />
+						<p className="text-xs text-slate-500 mt-2 text-center">
+							Latest {formatOutcomeScore(measure, latest)} ({measure.higherIsBetter ? 'higher' : 'lower'} is better)
+							{change && ` - ${change.change > 0 ? '+' : ''}${change.change} since baseline, ${change.status === 'unchanged' ? `below the MCID of ${measure.mcid}` : `${change.status} beyond the MCID of ${measure.mcid}`}`}
+						</p>
+					</div>
+				))}
 			</div>
 
 			{/* Session-by-Session Detailed Table */}
@@ -0,0 +1,40 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { doc, onSnapshot } from 'firebase/firestore';
+
+import { db } from '@/lib/firebase';
+import { CLINIC_SETTINGS_COLLECTION } from '@/lib/noShowPolicy';
+import {
+	BILLING_POLICIES_DOC_ID,
+	DEFAULT_BILLING_POLICY_SETTINGS,
+	normalizeBillingPolicySettings,
+	type BillingPolicySettings,
+} from '@/lib/billingPolicies';
+
+/**
+ * Subscribe to the billing policy registry, falling back to the defaults until an admin saves one
+ */
+export function useBillingPolicies() {
+	const [settings, setSettings] = useState<BillingPolicySettings>(DEFAULT_BILLING_POLICY_SETTINGS);
+	const [loading, setLoading] = useState(true);
+
+	useEffect(() => {
+		const unsubscribe = onSnapshot(
+			doc(db, CLINIC_SETTINGS_COLLECTION, BILLING_POLICIES_DOC_ID),
+			snapshot => {
+				setSettings(normalizeBillingPolicySettings(snapshot.exists() ? snapshot.data() : null));
+				setLoading(false);
+			},
+			error => {
+				console.error('Failed to load billing policies', error);
+				setSettings(DEFAULT_BILLING_POLICY_SETTINGS);
+				setLoading(false);
+			}
+		);
+
+		return () => unsubscribe();
+	}, []);
+
+	return { settings, loading };
+}
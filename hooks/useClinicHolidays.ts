@@ -0,0 +1,47 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { collection, onSnapshot, type QuerySnapshot } from 'firebase/firestore';
+
+import { db } from '@/lib/firebase';
+import { CLINIC_HOLIDAYS_COLLECTION, type ClinicHoliday } from '@/lib/availability';
+
+/**
+ * Subscribe to the clinic-wide holiday calendar
+ */
+export function useClinicHolidays() {
+	const [holidays, setHolidays] = useState<ClinicHoliday[]>([]);
+	const [loading, setLoading] = useState(true);
+
+	useEffect(() => {
+		const unsubscribe = onSnapshot(
+			collection(db, CLINIC_HOLIDAYS_COLLECTION),
+			(snapshot: QuerySnapshot) => {
+				const mapped = snapshot.docs
+					.map(docSnap => {
+						const data = docSnap.data() as Record<string, unknown>;
+						return {
+							id: docSnap.id,
+							date: data.date ? String(data.date) : '',
+							name: data.name ? String(data.name) : 'Holiday',
+							createdBy: data.createdBy ? String(data.createdBy) : undefined,
+							createdAt: data.createdAt ? String(data.createdAt) : undefined,
+						};
+					})
+					.filter(holiday => holiday.date)
+					.sort((a, b) => a.date.localeCompare(b.date));
+				setHolidays(mapped);
+				setLoading(false);
+			},
+			error => {
+				console.error('Failed to load clinic holidays', error);
+				setHolidays([]);
+				setLoading(false);
+			}
+		);
+
+		return () => unsubscribe();
+	}, []);
+
+	return { holidays, loading };
+}
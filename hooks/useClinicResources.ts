@@ -0,0 +1,37 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { collection, onSnapshot, type QuerySnapshot } from 'firebase/firestore';
+
+import { db } from '@/lib/firebase';
+import { RESOURCES_COLLECTION, mapClinicResource, type ClinicResource } from '@/lib/resources';
+
+/**
+ * Subscribe to the clinic room and equipment registry, bays first
+ */
+export function useClinicResources() {
+	const [resources, setResources] = useState<ClinicResource[]>([]);
+	const [loading, setLoading] = useState(true);
+
+	useEffect(() => {
+		const unsubscribe = onSnapshot(
+			collection(db, RESOURCES_COLLECTION),
+			(snapshot: QuerySnapshot) => {
+				const mapped = snapshot.docs
+					.map(docSnap => mapClinicResource(docSnap.id, docSnap.data() as Record<string, unknown>))
+					.sort((a, b) => a.kind.localeCompare(b.kind) || a.name.localeCompare(b.name, undefined, { numeric: true }));
+				setResources(mapped);
+				setLoading(false);
+			},
+			error => {
+				console.error('Failed to load resources', error);
+				setResources([]);
+				setLoading(false);
+			}
+		);
+
+		return () => unsubscribe();
+	}, []);
+
+	return { resources, loading };
+}
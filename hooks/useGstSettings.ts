@@ -0,0 +1,35 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { doc, onSnapshot } from 'firebase/firestore';
+
+import { db } from '@/lib/firebase';
+import { CLINIC_SETTINGS_COLLECTION } from '@/lib/noShowPolicy';
+import { DEFAULT_GST_SETTINGS, GST_SETTINGS_DOC_ID, normalizeGstSettings, type GstSettings } from '@/lib/gst';
+
+/**
+ * Subscribe to the clinic GST settings, falling back to the defaults until an admin saves them
+ */
+export function useGstSettings() {
+	const [settings, setSettings] = useState<GstSettings>(DEFAULT_GST_SETTINGS);
+	const [loading, setLoading] = useState(true);
+
+	useEffect(() => {
+		const unsubscribe = onSnapshot(
+			doc(db, CLINIC_SETTINGS_COLLECTION, GST_SETTINGS_DOC_ID),
+			snapshot => {
+				setSettings(normalizeGstSettings(snapshot.exists() ? snapshot.data() : null));
+				setLoading(false);
+			},
+			error => {
+				console.error('Failed to load GST settings', error);
+				setSettings(DEFAULT_GST_SETTINGS);
+				setLoading(false);
+			}
+		);
+
+		return () => unsubscribe();
+	}, []);
+
+	return { settings, loading };
+}
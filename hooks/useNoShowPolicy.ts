@@ -0,0 +1,40 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { doc, onSnapshot } from 'firebase/firestore';
+
+import { db } from '@/lib/firebase';
+import {
+	CLINIC_SETTINGS_COLLECTION,
+	DEFAULT_NO_SHOW_POLICY,
+	NO_SHOW_POLICY_DOC_ID,
+	normalizeNoShowPolicy,
+	type NoShowPolicy,
+} from '@/lib/noShowPolicy';
+
+/**
+ * Subscribe to the clinic no-show policy, falling back to the defaults until an admin saves one
+ */
+export function useNoShowPolicy() {
+	const [policy, setPolicy] = useState<NoShowPolicy>(DEFAULT_NO_SHOW_POLICY);
+	const [loading, setLoading] = useState(true);
+
+	useEffect(() => {
+		const unsubscribe = onSnapshot(
+			doc(db, CLINIC_SETTINGS_COLLECTION, NO_SHOW_POLICY_DOC_ID),
+			snapshot => {
+				setPolicy(normalizeNoShowPolicy(snapshot.exists() ? snapshot.data() : null));
+				setLoading(false);
+			},
+			error => {
+				console.error('Failed to load no-show policy', error);
+				setPolicy(DEFAULT_NO_SHOW_POLICY);
+				setLoading(false);
+			}
+		);
+
+		return () => unsubscribe();
+	}, []);
+
+	return { policy, loading };
+}
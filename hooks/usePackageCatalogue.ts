@@ -0,0 +1,37 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { collection, onSnapshot, type QuerySnapshot } from 'firebase/firestore';
+
+import { db } from '@/lib/firebase';
+import { PACKAGE_CATALOGUE_COLLECTION, mapPackagePlan, type PackagePlan } from '@/lib/packages';
+
+/**
+ * Subscribe to the package catalogue, sorted by name
+ */
+export function usePackageCatalogue() {
+	const [plans, setPlans] = useState<PackagePlan[]>([]);
+	const [loading, setLoading] = useState(true);
+
+	useEffect(() => {
+		const unsubscribe = onSnapshot(
+			collection(db, PACKAGE_CATALOGUE_COLLECTION),
+			(snapshot: QuerySnapshot) => {
+				const mapped = snapshot.docs
+					.map(docSnap => mapPackagePlan(docSnap.id, docSnap.data() as Record<string, unknown>))
+					.sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+				setPlans(mapped);
+				setLoading(false);
+			},
+			error => {
+				console.error('Failed to load package catalogue', error);
+				setPlans([]);
+				setLoading(false);
+			}
+		);
+
+		return () => unsubscribe();
+	}, []);
+
+	return { plans, loading };
+}
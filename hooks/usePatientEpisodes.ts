@@ -0,0 +1,36 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { collection, onSnapshot, query, where, type QuerySnapshot } from 'firebase/firestore';
+
+import { db } from '@/lib/firebase';
+import { EPISODES_COLLECTION, parseEpisode, type Episode } from '@/lib/episodes';
+
+/**
+ * Subscribe to a patient's episodes of care, newest first
+ */
+export function usePatientEpisodes(patientId: string | null | undefined) {
+	const [state, setState] = useState<{ patientId: string; episodes: Episode[] } | null>(null);
+
+	useEffect(() => {
+		if (!patientId) return;
+		const unsubscribe = onSnapshot(
+			query(collection(db, EPISODES_COLLECTION), where('patientId', '==', patientId)),
+			(snapshot: QuerySnapshot) => {
+				const episodes = snapshot.docs
+					.map(docSnap => parseEpisode(docSnap.id, docSnap.data() as Record<string, unknown>))
+					.sort((a, b) => b.openedAt.localeCompare(a.openedAt));
+				setState({ patientId, episodes });
+			},
+			error => {
+				console.error('Failed to load episodes', error);
+				setState({ patientId, episodes: [] });
+			}
+		);
+
+		return () => unsubscribe();
+	}, [patientId]);
+
+	const current = patientId && state?.patientId === patientId ? state : null;
+	return { episodes: current?.episodes ?? [], loading: Boolean(patientId) && !current };
+}
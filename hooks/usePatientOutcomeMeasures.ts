@@ -0,0 +1,36 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { collection, onSnapshot, query, where, type QuerySnapshot } from 'firebase/firestore';
+
+import { db } from '@/lib/firebase';
+import { OUTCOME_MEASURE_RESULTS_COLLECTION, parseOutcomeMeasureResult, type OutcomeMeasureResult } from '@/lib/outcomeMeasures';
+
+/**
+ * Subscribe to a patient's recorded outcome measures, oldest first
+ */
+export function usePatientOutcomeMeasures(patientId: string | null | undefined) {
+	const [state, setState] = useState<{ patientId: string; results: OutcomeMeasureResult[] } | null>(null);
+
+	useEffect(() => {
+		if (!patientId) return;
+		const unsubscribe = onSnapshot(
+			query(collection(db, OUTCOME_MEASURE_RESULTS_COLLECTION), where('patientId', '==', patientId)),
+			(snapshot: QuerySnapshot) => {
+				const results = snapshot.docs
+					.map(docSnap => parseOutcomeMeasureResult(docSnap.id, docSnap.data() as Record<string, unknown>))
+					.sort((a, b) => a.recordedAt.localeCompare(b.recordedAt));
+				setState({ patientId, results });
+			},
+			error => {
+				console.error('Failed to load outcome measures', error);
+				setState({ patientId, results: [] });
+			}
+		);
+
+		return () => unsubscribe();
+	}, [patientId]);
+
+	const current = patientId && state?.patientId === patientId ? state : null;
+	return { results: current?.results ?? [], loading: Boolean(patientId) && !current };
+}
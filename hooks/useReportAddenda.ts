@@ -0,0 +1,36 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { collection, onSnapshot, query, where, type QuerySnapshot } from 'firebase/firestore';
+
+import { db } from '@/lib/firebase';
+import { REPORT_ADDENDA_COLLECTION, parseReportAddendum, type ReportAddendum } from '@/lib/reportSignoff';
+
+/**
+ * Subscribe to the addenda of a signed report version, oldest first
+ */
+export function useReportAddenda(versionId: string | null | undefined) {
+	const [state, setState] = useState<{ versionId: string; addenda: ReportAddendum[] } | null>(null);
+
+	useEffect(() => {
+		if (!versionId) return;
+		const unsubscribe = onSnapshot(
+			query(collection(db, REPORT_ADDENDA_COLLECTION), where('versionId', '==', versionId)),
+			(snapshot: QuerySnapshot) => {
+				const addenda = snapshot.docs
+					.map(docSnap => parseReportAddendum(docSnap.id, docSnap.data() as Record<string, unknown>))
+					.sort((a, b) => a.addedAt.localeCompare(b.addedAt));
+				setState({ versionId, addenda });
+			},
+			error => {
+				console.error('Failed to load report addenda', error);
+				setState({ versionId, addenda: [] });
+			}
+		);
+
+		return () => unsubscribe();
+	}, [versionId]);
+
+	const current = versionId && state?.versionId === versionId ? state : null;
+	return { addenda: current?.addenda ?? [], loading: Boolean(versionId) && !current };
+}
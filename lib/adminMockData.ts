@@ -55,6 +55,7 @@ export interface AdminPatientRecord {
 	totalSessionsRequired?: number;
 	remainingSessions?: number;
 	patientType?: string;
+	noShowCount?: number;
 	// Additional fields from Firestore
 	id?: string;
 	deleted?: boolean;
@@ -107,7 +108,7 @@ export const DEFAULT_ADMIN_PATIENTS: AdminPatientRecord[] = [
 	},
 ];
 
-export type AdminAppointmentStatus = 'pending' | 'ongoing' | 'completed' | 'cancelled';
+export type AdminAppointmentStatus = 'pending' | 'ongoing' | 'completed' | 'cancelled' | 'no-show';
 
 export interface AdminAppointmentRecord {
 	appointmentId?: string;
@@ -118,6 +119,10 @@ export interface AdminAppointmentRecord {
 	time: string;
 	status: AdminAppointmentStatus;
 	notes?: string;
+	duration?: number;
+	serviceType?: string;
+	resourceIds?: string[];
+	recurringSeriesId?: string;
 	billing?: {
 		amount: string;
 		date: string;
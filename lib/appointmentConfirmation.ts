@@ -0,0 +1,27 @@
+/**
+ * Patient replies to the self-service link sent with appointment reminders
+ */
+
+export type AppointmentConfirmationStatus = 'unconfirmed' | 'confirmed' | 'cancelled' | 'reschedule-requested';
+
+export type AppointmentResponseAction = 'confirm' | 'cancel' | 'reschedule';
+
+export const CONFIRMATION_STATUS_LABELS: Record<AppointmentConfirmationStatus, string> = {
+	unconfirmed: 'Not confirmed',
+	confirmed: 'Confirmed',
+	cancelled: 'Cancelled by patient',
+	'reschedule-requested': 'Wants to reschedule',
+};
+
+export const CONFIRMATION_STATUS_BADGES: Record<AppointmentConfirmationStatus, string> = {
+	unconfirmed: 'bg-slate-100 text-slate-600',
+	confirmed: 'bg-emerald-100 text-emerald-700',
+	cancelled: 'bg-rose-100 text-rose-700',
+	'reschedule-requested': 'bg-amber-100 text-amber-700',
+};
+
+export const RESPONSE_ACTION_STATUS: Record<AppointmentResponseAction, AppointmentConfirmationStatus> = {
+	confirm: 'confirmed',
+	cancel: 'cancelled',
+	reschedule: 'reschedule-requested',
+};
@@ -0,0 +1,74 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * Signed, expiring links that let a patient confirm, cancel or ask to reschedule
+ * an appointment without logging in. Server only: the signing secret never reaches the browser.
+ *
+ * Token format: base64url(`${appointmentDocId}.${expiresAtMs}`).base64url(hmac)
+ */
+
+// Links stay usable until this long after the appointment start, so a late reply still lands
+const LINK_GRACE_HOURS = 2;
+
+function getSecret(): string {
+	const secret = process.env.APPOINTMENT_LINK_SECRET;
+	if (!secret) {
+		throw new Error('APPOINTMENT_LINK_SECRET is not configured');
+	}
+	return secret;
+}
+
+function sign(payload: string): string {
+	return createHmac('sha256', getSecret()).update(payload).digest('base64url');
+}
+
+export function isAppointmentLinkConfigured(): boolean {
+	return Boolean(process.env.APPOINTMENT_LINK_SECRET);
+}
+
+export function getAppointmentLinkExpiry(date: string, time: string): Date {
+	const start = new Date(`${date}T${time || '23:59'}:00`);
+	const base = Number.isNaN(start.getTime()) ? new Date() : start;
+	return new Date(base.getTime() + LINK_GRACE_HOURS * 60 * 60 * 1000);
+}
+
+export function createAppointmentActionToken(appointmentDocId: string, expiresAt: Date): string {
+	const payload = Buffer.from(`${appointmentDocId}.${expiresAt.getTime()}`).toString('base64url');
+	return `${payload}.${sign(payload)}`;
+}
+
+export type AppointmentTokenResult =
+	| { valid: true; appointmentDocId: string; expiresAt: Date }
+	| { valid: false; reason: 'invalid' | 'expired' };
+
+export function verifyAppointmentActionToken(token: string, now: Date = new Date()): AppointmentTokenResult {
+	const [payload, signature] = token.split('.');
+	if (!payload || !signature) return { valid: false, reason: 'invalid' };
+
+	const expected = Buffer.from(sign(payload));
+	const received = Buffer.from(signature);
+	if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+		return { valid: false, reason: 'invalid' };
+	}
+
+	const decoded = Buffer.from(payload, 'base64url').toString();
+	const separator = decoded.lastIndexOf('.');
+	const appointmentDocId = decoded.slice(0, separator);
+	const expiresAt = new Date(Number(decoded.slice(separator + 1)));
+	if (!appointmentDocId || Number.isNaN(expiresAt.getTime())) {
+		return { valid: false, reason: 'invalid' };
+	}
+	if (expiresAt < now) {
+		return { valid: false, reason: 'expired' };
+	}
+
+	return { valid: true, appointmentDocId, expiresAt };
+}
+
+export function getAppointmentActionUrl(token: string): string {
+	const baseUrl = process.env.NEXT_PUBLIC_APP_URL ||
+		(process.env.NODE_ENV === 'production'
+			? 'https://yourdomain.com'
+			: 'http://localhost:3000');
+	return `${baseUrl}/appointment/respond?token=${encodeURIComponent(token)}`;
+}
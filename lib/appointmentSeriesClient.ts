@@ -0,0 +1,226 @@
+import { collection, doc, getDocs, query, where, writeBatch } from 'firebase/firestore';
+
+import { db } from './firebase';
+import { checkAppointmentConflict, checkSeriesOccurrence, type SkippedOccurrence } from './appointmentUtils';
+import { CLINIC_HOLIDAYS_COLLECTION, type ClinicHoliday, type StaffSchedule } from './availability';
+import { batchResourceIds, getAppointmentResourceIds } from './resources';
+import { resolveAppointmentDuration } from './serviceCatalog';
+
+export type SeriesEditScope = 'single' | 'following';
+export type SeriesCancelScope = 'single' | 'series';
+
+// Occurrences in these states are history and are never moved or cancelled with the series
+const CLOSED_STATUSES = ['completed', 'cancelled'];
+
+interface SeriesAppointment {
+	id: string;
+	appointmentId?: string;
+	patient: string;
+	doctor: string;
+	date: string;
+	time: string;
+	status: string;
+	duration?: number | null;
+	serviceType?: string | null;
+	resourceIds: string[];
+	recurringSeriesId?: string;
+}
+
+// A slot given up by a moved or cancelled occurrence
+export interface ReleasedSlot {
+	doctor: string;
+	date: string;
+	time: string;
+	duration: number;
+	serviceType?: string | null;
+}
+
+export interface SeriesRescheduleResult {
+	updated: Array<{ id: string; date: string; time: string }>;
+	skipped: SkippedOccurrence[];
+	released: ReleasedSlot[];
+}
+
+function mapAppointment(id: string, data: Record<string, unknown>): SeriesAppointment {
+	return {
+		id,
+		appointmentId: data.appointmentId ? String(data.appointmentId) : undefined,
+		patient: data.patient ? String(data.patient) : '',
+		doctor: data.doctor ? String(data.doctor) : '',
+		date: data.date ? String(data.date) : '',
+		time: data.time ? String(data.time) : '',
+		status: data.status ? String(data.status) : 'pending',
+		duration: typeof data.duration === 'number' ? data.duration : null,
+		serviceType: data.serviceType ? String(data.serviceType) : null,
+		resourceIds: getAppointmentResourceIds(data),
+		recurringSeriesId: data.recurringSeriesId ? String(data.recurringSeriesId) : undefined,
+	};
+}
+
+async function loadSeries(recurringSeriesId: string): Promise<SeriesAppointment[]> {
+	const snapshot = await getDocs(query(collection(db, 'appointments'), where('recurringSeriesId', '==', recurringSeriesId)));
+	return snapshot.docs
+		.map(docSnap => mapAppointment(docSnap.id, docSnap.data()))
+		.sort((a, b) => a.date.localeCompare(b.date) || a.time.localeCompare(b.time));
+}
+
+function dayDifference(from: string, to: string): number {
+	const start = new Date(from + 'T00:00:00');
+	const end = new Date(to + 'T00:00:00');
+	return Math.round((end.getTime() - start.getTime()) / (24 * 60 * 60 * 1000));
+}
+
+function addDays(date: string, days: number): string {
+	const parsed = new Date(date + 'T00:00:00');
+	parsed.setDate(parsed.getDate() + days);
+	const year = parsed.getFullYear();
+	const month = String(parsed.getMonth() + 1).padStart(2, '0');
+	const day = String(parsed.getDate()).padStart(2, '0');
+	return `${year}-${month}-${day}`;
+}
+
+/**
+ * Move an occurrence and every later open occurrence of its series by the same number of days, at the new time.
+ * Occurrences that would land on a holiday, outside the therapist's hours or on another booking keep their slot and are reported back.
+ */
+export async function rescheduleSeriesFrom(
+	appointment: { id: string; date: string; recurringSeriesId?: string },
+	newDate: string,
+	newTime: string
+): Promise<SeriesRescheduleResult> {
+	if (!appointment.recurringSeriesId) {
+		throw new Error('Appointment is not part of a recurring series');
+	}
+
+	const series = await loadSeries(appointment.recurringSeriesId);
+	const following = series.filter(
+		item => !CLOSED_STATUSES.includes(item.status) && (item.id === appointment.id || item.date >= appointment.date)
+	);
+	if (following.length === 0) {
+		return { updated: [], skipped: [], released: [] };
+	}
+
+	const doctor = following[0].doctor;
+	const offset = dayDifference(appointment.date, newDate);
+	const targets = following.map(item => ({ item, date: addDays(item.date, offset) }));
+	const lastDate = targets[targets.length - 1].date;
+	const seriesResourceIds = following.flatMap(item => item.resourceIds);
+
+	// The therapist's bookings plus other therapists' bookings holding the series' resources
+	const [appointmentsSnapshot, resourceSnapshots, staffSnapshot, holidaySnapshot] = await Promise.all([
+		getDocs(query(collection(db, 'appointments'), where('doctor', '==', doctor))),
+		Promise.all(
+			batchResourceIds(seriesResourceIds).map(batch =>
+				getDocs(query(collection(db, 'appointments'), where('resourceIds', 'array-contains-any', batch)))
+			)
+		),
+		getDocs(query(collection(db, 'staff'), where('userName', '==', doctor))),
+		getDocs(
+			query(
+				collection(db, CLINIC_HOLIDAYS_COLLECTION),
+				where('date', '>=', targets[0].date),
+				where('date', '<=', lastDate)
+			)
+		),
+	]);
+
+	const movingIds = following.map(item => item.id);
+	// Bookings outside the moving occurrences
+	const bookedById = new Map<string, SeriesAppointment>();
+	[...appointmentsSnapshot.docs, ...resourceSnapshots.flatMap(snapshot => snapshot.docs)].forEach(docSnap => {
+		if (!movingIds.includes(docSnap.id)) bookedById.set(docSnap.id, mapAppointment(docSnap.id, docSnap.data()));
+	});
+	const external = Array.from(bookedById.values());
+	const staffData = staffSnapshot.empty ? undefined : staffSnapshot.docs[0].data();
+	const schedule: StaffSchedule | undefined = staffData
+		? {
+				weeklyAvailability: staffData.weeklyAvailability || null,
+				dateSpecificAvailability: staffData.dateSpecificAvailability || null,
+			}
+		: undefined;
+	const holidays = holidaySnapshot.docs.map(docSnap => ({
+		date: String(docSnap.data().date || ''),
+		name: String(docSnap.data().name || 'Holiday'),
+	})) as ClinicHoliday[];
+
+	// Settle which occurrences stay before placing any. A staying occurrence keeps blocking its original slot,
+	// which can push a later one to stay too, so this repeats until nothing more has to stay.
+	const staying = new Map<string, string>(); // Occurrence id -> reason
+	let placed: SeriesAppointment[] = [];
+	let settled = false;
+	while (!settled) {
+		settled = true;
+		placed = [];
+		const booked = [...external, ...following.filter(item => staying.has(item.id))];
+		for (const { item, date } of targets) {
+			if (staying.has(item.id)) continue;
+			const check = checkSeriesOccurrence(
+				[...booked, ...placed],
+				{ doctor, date, time: newTime, duration: resolveAppointmentDuration(item), resourceIds: item.resourceIds },
+				schedule,
+				holidays
+			);
+			if (!check.isAvailable) {
+				staying.set(item.id, check.reason || 'Not available');
+				settled = false;
+				break;
+			}
+			placed.push({ ...item, date, time: newTime });
+		}
+	}
+
+	const batch = writeBatch(db);
+	const result: SeriesRescheduleResult = { updated: [], skipped: [], released: [] };
+
+	for (const { item, date } of targets) {
+		const reason = staying.get(item.id);
+		if (reason) {
+			result.skipped.push({ date, reason });
+			continue;
+		}
+		batch.update(doc(db, 'appointments', item.id), { date, time: newTime });
+		result.updated.push({ id: item.id, date, time: newTime });
+
+		// Only slots no moved occurrence has taken over are free for the waitlist
+		const duration = resolveAppointmentDuration(item);
+		const takenOver = checkAppointmentConflict(placed, { doctor, date: item.date, time: item.time, duration }).hasConflict;
+		if (!takenOver) {
+			result.released.push({ doctor, date: item.date, time: item.time, duration, serviceType: item.serviceType });
+		}
+	}
+
+	if (result.updated.length > 0) {
+		await batch.commit();
+	}
+
+	return result;
+}
+
+/**
+ * Cancel every open occurrence of a series. Completed sessions are kept.
+ * Returns the slots of the cancelled appointments.
+ */
+export async function cancelSeries(recurringSeriesId: string, reason?: string): Promise<ReleasedSlot[]> {
+	const series = await loadSeries(recurringSeriesId);
+	const open = series.filter(item => !CLOSED_STATUSES.includes(item.status));
+	if (open.length === 0) return [];
+
+	const batch = writeBatch(db);
+	const cancelledAt = new Date().toISOString();
+	open.forEach(item => {
+		batch.update(doc(db, 'appointments', item.id), {
+			status: 'cancelled',
+			cancellationReason: reason || null,
+			cancelledAt,
+		});
+	});
+	await batch.commit();
+
+	return open.map(item => ({
+		doctor: item.doctor,
+		date: item.date,
+		time: item.time,
+		duration: resolveAppointmentDuration(item),
+		serviceType: item.serviceType,
+	}));
+}
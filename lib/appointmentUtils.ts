@@ -2,6 +2,15 @@
  * Utility functions for appointment management
  */
 
+import {
+	formatDayHours,
+	getDayName,
+	resolveDayAvailability,
+	type ClinicHoliday,
+	type StaffSchedule,
+} from './availability';
+import { DEFAULT_APPOINTMENT_DURATION, resolveAppointmentDuration } from './serviceCatalog';
+
 export interface AppointmentConflict {
 	hasConflict: boolean;
 	conflictingAppointments: Array<{
@@ -11,13 +20,16 @@ export interface AppointmentConflict {
 		date: string;
 		time: string;
 		doctor: string;
+		resourceIds?: string[]; // Resources this appointment shares with the one being checked
 	}>;
+	resourceIds: string[]; // Requested resources already in use, even when the therapist is free
 }
 
 export interface AppointmentTime {
 	date: string; // YYYY-MM-DD
 	time: string; // HH:MM
 	duration?: number; // Duration in minutes, default 30
+	serviceType?: string; // Service catalogue id, used when duration is missing
 }
 
 /**
@@ -50,9 +62,11 @@ function timeSlotsOverlap(
 
 /**
  * Check for appointment conflicts
+ * Each appointment is measured by its own duration (stored duration, then service type, then default).
+ * An appointment clashes when it has the same therapist or reserves one of the same resources.
  * @param appointments - All existing appointments
  * @param newAppointment - The appointment to check (without id for new, with id for updates)
- * @param defaultDuration - Default appointment duration in minutes
+ * @param defaultDuration - Duration in minutes for appointments with no duration or service type
  */
 export function checkAppointmentConflict(
 	appointments: Array<{
@@ -63,6 +77,9 @@ export function checkAppointmentConflict(
 		date: string;
 		time: string;
 		status?: string;
+		duration?: number | null;
+		serviceType?: string | null;
+		resourceIds?: string[] | null;
 	}>,
 	newAppointment: {
 		id?: string; // If provided, exclude this appointment from conflict check (for updates)
@@ -70,20 +87,26 @@ export function checkAppointmentConflict(
 		date: string;
 		time: string;
 		duration?: number;
+		serviceType?: string;
+		resourceIds?: string[];
 	},
-	defaultDuration: number = 30
+	defaultDuration: number = DEFAULT_APPOINTMENT_DURATION
 ): AppointmentConflict {
 	const conflictingAppointments: AppointmentConflict['conflictingAppointments'] = [];
+	const busyResourceIds = new Set<string>();
+	const requestedResourceIds = newAppointment.resourceIds ?? [];
+	const getSharedResourceIds = (resourceIds?: string[] | null) =>
+		(resourceIds ?? []).filter(resourceId => requestedResourceIds.includes(resourceId));
 
 	// Filter out cancelled appointments and the appointment being updated
 	const activeAppointments = appointments.filter(
 		apt =>
 			apt.status !== 'cancelled' &&
-			apt.doctor === newAppointment.doctor &&
+			(apt.doctor === newAppointment.doctor || getSharedResourceIds(apt.resourceIds).length > 0) &&
 			(!newAppointment.id || apt.id !== newAppointment.id)
 	);
 
-	const duration = newAppointment.duration || defaultDuration;
+	const duration = resolveAppointmentDuration(newAppointment, defaultDuration);
 
 	for (const appointment of activeAppointments) {
 		if (
@@ -93,9 +116,11 @@ export function checkAppointmentConflict(
 				duration,
 				appointment.date,
 				appointment.time,
-				defaultDuration
+				resolveAppointmentDuration(appointment, defaultDuration)
 			)
 		) {
+			const sharedResourceIds = getSharedResourceIds(appointment.resourceIds);
+			sharedResourceIds.forEach(resourceId => busyResourceIds.add(resourceId));
 			conflictingAppointments.push({
 				id: appointment.id,
 				appointmentId: appointment.appointmentId,
@@ -103,6 +128,7 @@ export function checkAppointmentConflict(
 				date: appointment.date,
 				time: appointment.time,
 				doctor: appointment.doctor,
+				...(sharedResourceIds.length > 0 ? { resourceIds: sharedResourceIds } : {}),
 			});
 		}
 	}
@@ -110,58 +136,42 @@ export function checkAppointmentConflict(
 	return {
 		hasConflict: conflictingAppointments.length > 0,
 		conflictingAppointments,
+		resourceIds: Array.from(busyResourceIds),
 	};
 }
 
 /**
  * Check if appointment time is within staff availability
- * Uses date-specific availability schedule, with default availability (9 AM - 6 PM) for all days except Sunday
+ * Resolves clinic holidays, date-specific overrides and the therapist's weekly pattern (see lib/availability.ts)
  */
 export function checkAvailabilityConflict(
-	dateSpecificAvailability: {
-		[date: string]: {
-			enabled: boolean;
-			slots: Array<{ start: string; end: string }>;
-			unavailableSlots?: Array<{ start: string; end: string }>;
-		};
-	} | undefined,
+	schedule: StaffSchedule | undefined,
 	date: string,
 	time: string,
-	duration: number = 30
+	duration: number = DEFAULT_APPOINTMENT_DURATION,
+	holidays: ClinicHoliday[] = []
 ): { isAvailable: boolean; reason?: string } {
-	const appointmentDate = new Date(date);
-	const dateKey = date; // YYYY-MM-DD format
-	const dayName = appointmentDate.toLocaleDateString('en-US', { weekday: 'long' });
-	const isSunday = dayName === 'Sunday';
-	
-	// Sunday is always unavailable
-	if (isSunday) {
+	const appointmentDate = new Date(date + 'T00:00:00');
+	const dayName = getDayName(date);
+	const dayAvailability = resolveDayAvailability(schedule, date, holidays);
+
+	if (dayAvailability.source === 'holiday') {
 		return {
 			isAvailable: false,
-			reason: 'Sunday is not available for scheduling',
+			reason: `The centre is closed on ${date} (${dayAvailability.holidayName})`,
 		};
 	}
-	
-	// Default availability: 9 AM to 6 PM for all days except Sunday
-	const DEFAULT_START_TIME = '09:00';
-	const DEFAULT_END_TIME = '18:00';
-	
-	// Check for date-specific schedule
-	const daySchedule = dateSpecificAvailability?.[dateKey];
-
-	// If date-specific schedule exists and is marked as unavailable (enabled: false)
-	if (daySchedule && !daySchedule.enabled) {
+
+	if (!dayAvailability.enabled) {
 		return {
 			isAvailable: false,
-			reason: `Date is marked as unavailable`,
+			reason:
+				dayAvailability.source === 'override'
+					? 'Date is marked as unavailable'
+					: `${dayName} is not available for scheduling`,
 		};
 	}
 
-	// Use default availability if no date-specific schedule exists, or if date-specific schedule is enabled
-	const slots = daySchedule?.enabled && daySchedule.slots?.length > 0 
-		? daySchedule.slots 
-		: [{ start: DEFAULT_START_TIME, end: DEFAULT_END_TIME }];
-
 	// Parse appointment time
 	const [hours, minutes] = time.split(':').map(Number);
 	const appointmentStart = new Date(appointmentDate);
@@ -169,7 +179,7 @@ export function checkAvailabilityConflict(
 	const appointmentEnd = new Date(appointmentStart.getTime() + duration * 60000);
 
 	// Check if appointment overlaps with any unavailable slots
-	const unavailableSlots = daySchedule?.unavailableSlots || [];
+	const unavailableSlots = dayAvailability.unavailableSlots || [];
 	for (const unavailableSlot of unavailableSlots) {
 		const [unavailStartHours, unavailStartMinutes] = unavailableSlot.start.split(':').map(Number);
 		const [unavailEndHours, unavailEndMinutes] = unavailableSlot.end.split(':').map(Number);
@@ -195,7 +205,7 @@ export function checkAvailabilityConflict(
 	}
 
 	// Check if appointment fits within any available slot
-	for (const slot of slots) {
+	for (const slot of dayAvailability.slots) {
 		const [slotStartHours, slotStartMinutes] = slot.start.split(':').map(Number);
 		const [slotEndHours, slotEndMinutes] = slot.end.split(':').map(Number);
 
@@ -218,7 +228,7 @@ export function checkAvailabilityConflict(
 
 	return {
 		isAvailable: false,
-		reason: `Time slot ${time} is not within available hours (${DEFAULT_START_TIME} - ${DEFAULT_END_TIME}) on ${dayName}`,
+		reason: `Time slot ${time} is not within available hours (${formatDayHours(dayAvailability)}) on ${dayName}`,
 	};
 }
 
@@ -255,3 +265,232 @@ export function generateRecurringDates(
 	return dates;
 }
 
+
+export interface AvailableSlot {
+	doctor: string;
+	date: string; // YYYY-MM-DD
+	time: string; // HH:MM
+	duration: number; // Duration in minutes
+	bookedThatDay: number; // Appointments the clinician already has on this date
+}
+
+export interface FindAvailableSlotsOptions {
+	startDate: string; // YYYY-MM-DD
+	endDate: string; // YYYY-MM-DD, inclusive
+	duration?: number;
+	holidays?: ClinicHoliday[];
+	earliestTime?: string; // HH:MM, skip earlier start times on startDate (e.g. the current time for today)
+	excludeAppointmentId?: string; // Appointment being rescheduled, ignored for conflicts
+	interval?: number; // Step between candidate start times in minutes, default 30
+	limit?: number;
+}
+
+function addDaysToDateKey(date: string, days: number): string {
+	const parsed = new Date(date + 'T00:00:00');
+	parsed.setDate(parsed.getDate() + days);
+	const year = parsed.getFullYear();
+	const month = String(parsed.getMonth() + 1).padStart(2, '0');
+	const day = String(parsed.getDate()).padStart(2, '0');
+	return `${year}-${month}-${day}`;
+}
+
+function minutesToTime(totalMinutes: number): string {
+	return `${String(Math.floor(totalMinutes / 60)).padStart(2, '0')}:${String(totalMinutes % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Find free slots across one or more clinicians
+ * Each candidate must pass checkAvailabilityConflict and must not overlap an existing appointment.
+ * Slots are ranked earliest first; at the same start time the clinician with fewer bookings that day ranks higher.
+ */
+export function findAvailableSlots(
+	clinicians: Array<StaffSchedule & { name: string }>,
+	appointments: Parameters<typeof checkAppointmentConflict>[0],
+	options: FindAvailableSlotsOptions
+): AvailableSlot[] {
+	const duration = options.duration ?? DEFAULT_APPOINTMENT_DURATION;
+	const interval = options.interval ?? 30;
+	const holidays = options.holidays ?? [];
+	const slots: AvailableSlot[] = [];
+
+	// Group active appointments by clinician and date so each candidate only checks its own day
+	const appointmentsByDay = new Map<string, typeof appointments>();
+	for (const appointment of appointments) {
+		if (appointment.status === 'cancelled') continue;
+		if (options.excludeAppointmentId && appointment.id === options.excludeAppointmentId) continue;
+		const key = `${appointment.doctor}|${appointment.date}`;
+		appointmentsByDay.set(key, [...(appointmentsByDay.get(key) ?? []), appointment]);
+	}
+
+	for (let date = options.startDate; date <= options.endDate; date = addDaysToDateKey(date, 1)) {
+		for (const clinician of clinicians) {
+			const dayAvailability = resolveDayAvailability(clinician, date, holidays);
+			if (!dayAvailability.enabled) continue;
+
+			const dayAppointments = appointmentsByDay.get(`${clinician.name}|${date}`) ?? [];
+
+			for (const range of dayAvailability.slots) {
+				const [startHours, startMinutes] = range.start.split(':').map(Number);
+				const [endHours, endMinutes] = range.end.split(':').map(Number);
+				if ([startHours, startMinutes, endHours, endMinutes].some(Number.isNaN)) continue;
+
+				const rangeEnd = endHours * 60 + endMinutes;
+				for (let start = startHours * 60 + startMinutes; start + duration <= rangeEnd; start += interval) {
+					const time = minutesToTime(start);
+					if (date === options.startDate && options.earliestTime && time < options.earliestTime) continue;
+					if (!checkAvailabilityConflict(clinician, date, time, duration, holidays).isAvailable) continue;
+
+					const conflict = checkAppointmentConflict(dayAppointments, {
+						doctor: clinician.name,
+						date,
+						time,
+						duration,
+					});
+					if (conflict.hasConflict) continue;
+
+					slots.push({ doctor: clinician.name, date, time, duration, bookedThatDay: dayAppointments.length });
+				}
+			}
+		}
+
+		// Later dates can only rank lower, so stop once enough slots are collected
+		if (options.limit && slots.length >= options.limit) break;
+	}
+
+	slots.sort(
+		(a, b) =>
+			a.date.localeCompare(b.date) ||
+			a.time.localeCompare(b.time) ||
+			a.bookedThatDay - b.bookedThatDay ||
+			a.doctor.localeCompare(b.doctor)
+	);
+
+	return options.limit ? slots.slice(0, options.limit) : slots;
+}
+
+export type SeriesConflictStrategy = 'skip' | 'shift';
+
+export interface PlannedOccurrence {
+	date: string;
+	time: string;
+	originalDate: string; // Date the recurrence rule produced; differs from `date` when shifted
+}
+
+export interface SkippedOccurrence {
+	date: string;
+	reason: string;
+}
+
+export interface RecurringSeriesPlan {
+	scheduled: PlannedOccurrence[];
+	skipped: SkippedOccurrence[];
+}
+
+/**
+ * Check a single occurrence of a series: clinic holidays, therapist availability (closed weekdays included) and existing appointments
+ */
+export function checkSeriesOccurrence(
+	appointments: Parameters<typeof checkAppointmentConflict>[0],
+	occurrence: { doctor: string; date: string; time: string; duration?: number; resourceIds?: string[]; ignoreIds?: string[] },
+	schedule: StaffSchedule | undefined,
+	holidays: ClinicHoliday[] = []
+): { isAvailable: boolean; reason?: string } {
+	const availability = checkAvailabilityConflict(schedule, occurrence.date, occurrence.time, occurrence.duration, holidays);
+	if (!availability.isAvailable) return availability;
+
+	const ignoreIds = occurrence.ignoreIds ?? [];
+	const conflict = checkAppointmentConflict(
+		appointments.filter(appointment => !ignoreIds.includes(appointment.id)),
+		{
+			doctor: occurrence.doctor,
+			date: occurrence.date,
+			time: occurrence.time,
+			duration: occurrence.duration,
+			resourceIds: occurrence.resourceIds,
+		}
+	);
+	if (conflict.hasConflict) {
+		const clash = conflict.conflictingAppointments[0];
+		if (clash.doctor !== occurrence.doctor) {
+			return {
+				isAvailable: false,
+				reason: `A required resource is already booked with ${clash.patient || 'another patient'} at ${clash.time}`,
+			};
+		}
+		return {
+			isAvailable: false,
+			reason: `${occurrence.doctor} is already booked with ${clash.patient || 'another patient'} at ${clash.time}`,
+		};
+	}
+
+	return { isAvailable: true };
+}
+
+/**
+ * Plan a recurring series against the therapist's calendar
+ * Dates that collide are either skipped or shifted to the next free day (same time) before the following occurrence.
+ */
+export function planRecurringSeries(
+	dates: string[],
+	options: {
+		doctor: string;
+		time: string;
+		duration?: number;
+		resourceIds?: string[];
+		schedule?: StaffSchedule;
+		holidays?: ClinicHoliday[];
+		appointments: Parameters<typeof checkAppointmentConflict>[0];
+		strategy?: SeriesConflictStrategy;
+		maxShiftDays?: number;
+	}
+): RecurringSeriesPlan {
+	const scheduled: PlannedOccurrence[] = [];
+	const skipped: SkippedOccurrence[] = [];
+	const maxShiftDays = options.maxShiftDays ?? 3;
+	// Occurrences already planned count as bookings for the ones after them
+	const booked = [...options.appointments];
+
+	const tryDate = (date: string) =>
+		checkSeriesOccurrence(
+			booked,
+			{ doctor: options.doctor, date, time: options.time, duration: options.duration, resourceIds: options.resourceIds },
+			options.schedule,
+			options.holidays
+		);
+
+	dates.forEach((date, index) => {
+		let result = tryDate(date);
+		let plannedDate = date;
+
+		if (!result.isAvailable && options.strategy === 'shift') {
+			const nextDate = dates[index + 1];
+			for (let offset = 1; offset <= maxShiftDays; offset += 1) {
+				const candidate = addDaysToDateKey(date, offset);
+				if (nextDate && candidate >= nextDate) break;
+				if (tryDate(candidate).isAvailable) {
+					plannedDate = candidate;
+					result = { isAvailable: true };
+					break;
+				}
+			}
+		}
+
+		if (!result.isAvailable) {
+			skipped.push({ date, reason: result.reason || 'Not available' });
+			return;
+		}
+
+		scheduled.push({ date: plannedDate, time: options.time, originalDate: date });
+		booked.push({
+			id: `planned-${plannedDate}`,
+			patient: '',
+			doctor: options.doctor,
+			date: plannedDate,
+			time: options.time,
+			duration: options.duration,
+			resourceIds: options.resourceIds,
+		});
+	});
+
+	return { scheduled, skipped };
+}
@@ -4,7 +4,14 @@ type AuditAction =
 	| 'patients-import'
 	| 'patients-export'
 	| 'user-reset-password'
-	| 'billing-send-notifications';
+	| 'billing-send-notifications'
+	| 'invoice-number-issued'
+	| 'credit-note-issued'
+	| 'billing-voided'
+	| 'report-version-saved'
+	| 'report-signed'
+	| 'report-addendum-added'
+	| 'report-reopened';
 
 interface AuditPayload {
 	action: AuditAction;
@@ -0,0 +1,159 @@
+/**
+ * Availability model shared by booking, conflict checking and the calendars.
+ *
+ * A therapist's availability for a date is resolved in this order:
+ * 1. Clinic holiday (centre closed for everyone)
+ * 2. Date-specific override on the staff document (`dateSpecificAvailability`)
+ * 3. Recurring weekly pattern on the staff document (`weeklyAvailability`)
+ * 4. Clinic default pattern (Monday - Saturday, 9 AM - 6 PM)
+ */
+
+export interface TimeRange {
+	start: string; // HH:MM
+	end: string; // HH:MM
+}
+
+export interface DayAvailability {
+	enabled: boolean;
+	slots: TimeRange[];
+	unavailableSlots?: TimeRange[]; // Time ranges when the therapist is unavailable within an available day
+}
+
+export interface DateSpecificAvailability {
+	[date: string]: DayAvailability; // date in YYYY-MM-DD format
+}
+
+// Same shape as the `schedule` of an availability template, keyed by weekday name
+export interface WeeklyAvailability {
+	[day: string]: {
+		enabled: boolean;
+		slots: TimeRange[];
+	};
+}
+
+export interface StaffSchedule {
+	weeklyAvailability?: WeeklyAvailability | null;
+	dateSpecificAvailability?: DateSpecificAvailability | null;
+}
+
+export interface ClinicHoliday {
+	id?: string;
+	date: string; // YYYY-MM-DD
+	name: string;
+	createdBy?: string;
+	createdAt?: string;
+}
+
+export type AvailabilitySource = 'holiday' | 'override' | 'weekly' | 'default';
+
+export interface ResolvedDayAvailability extends DayAvailability {
+	source: AvailabilitySource;
+	holidayName?: string;
+}
+
+export const WEEK_DAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'] as const;
+
+export const DEFAULT_START_TIME = '09:00';
+export const DEFAULT_END_TIME = '18:00';
+
+export const DEFAULT_WEEKLY_AVAILABILITY: WeeklyAvailability = WEEK_DAYS.reduce<WeeklyAvailability>((acc, day) => {
+	acc[day] = {
+		enabled: day !== 'Sunday',
+		slots: [{ start: DEFAULT_START_TIME, end: DEFAULT_END_TIME }],
+	};
+	return acc;
+}, {});
+
+export const CLINIC_HOLIDAYS_COLLECTION = 'clinicHolidays';
+
+/**
+ * Get the weekday name for a YYYY-MM-DD date (parsed as local time)
+ */
+export function getDayName(date: string): string {
+	const parsed = new Date(date + 'T00:00:00');
+	if (Number.isNaN(parsed.getTime())) return '';
+	return WEEK_DAYS[parsed.getDay()];
+}
+
+/**
+ * Get the weekly pattern for a staff member, falling back to the clinic default per day
+ */
+export function getWeeklyPattern(schedule?: StaffSchedule | null): WeeklyAvailability {
+	const weekly = schedule?.weeklyAvailability;
+	if (!weekly) return DEFAULT_WEEKLY_AVAILABILITY;
+	return WEEK_DAYS.reduce<WeeklyAvailability>((acc, day) => {
+		acc[day] = weekly[day] ?? DEFAULT_WEEKLY_AVAILABILITY[day];
+		return acc;
+	}, {});
+}
+
+export function findHoliday(holidays: ClinicHoliday[] | undefined, date: string): ClinicHoliday | undefined {
+	return holidays?.find(holiday => holiday.date === date);
+}
+
+/**
+ * Resolve the effective availability of a therapist on a date
+ */
+export function resolveDayAvailability(
+	schedule: StaffSchedule | null | undefined,
+	date: string,
+	holidays: ClinicHoliday[] = []
+): ResolvedDayAvailability {
+	const holiday = findHoliday(holidays, date);
+	if (holiday) {
+		return { enabled: false, slots: [], source: 'holiday', holidayName: holiday.name };
+	}
+
+	const weeklyDay = getWeeklyPattern(schedule)[getDayName(date)];
+	const weeklySlots = weeklyDay?.enabled ? weeklyDay.slots.filter(slot => slot.start && slot.end) : [];
+
+	const override = schedule?.dateSpecificAvailability?.[date];
+	if (override) {
+		if (!override.enabled) {
+			return { enabled: false, slots: [], source: 'override' };
+		}
+		// An enabled override without its own hours keeps the weekly hours for that day
+		const slots = override.slots?.length ? override.slots : weeklySlots;
+		return {
+			enabled: slots.length > 0,
+			slots,
+			unavailableSlots: override.unavailableSlots || [],
+			source: 'override',
+		};
+	}
+
+	if (!weeklyDay?.enabled || weeklySlots.length === 0) {
+		return { enabled: false, slots: [], source: schedule?.weeklyAvailability ? 'weekly' : 'default' };
+	}
+
+	return {
+		enabled: true,
+		slots: weeklySlots,
+		unavailableSlots: [],
+		source: schedule?.weeklyAvailability ? 'weekly' : 'default',
+	};
+}
+
+/**
+ * Format a day's hours for display, e.g. "09:00 - 13:00, 14:00 - 18:00"
+ */
+export function formatDayHours(day: DayAvailability): string {
+	if (!day.enabled || day.slots.length === 0) return 'Unavailable';
+	return day.slots.map(slot => `${slot.start} - ${slot.end}`).join(', ');
+}
+
+/**
+ * Convert a weekly pattern to FullCalendar business hours
+ */
+export function toBusinessHours(weekly: WeeklyAvailability): Array<{ daysOfWeek: number[]; startTime: string; endTime: string }> {
+	const hours: Array<{ daysOfWeek: number[]; startTime: string; endTime: string }> = [];
+	WEEK_DAYS.forEach((day, index) => {
+		const pattern = weekly[day];
+		if (!pattern?.enabled) return;
+		pattern.slots.forEach(slot => {
+			if (!slot.start || !slot.end) return;
+			hours.push({ daysOfWeek: [index], startTime: slot.start, endTime: slot.end });
+		});
+	});
+	return hours;
+}
@@ -0,0 +1,249 @@
+/**
+ * Payments sub-ledger shared by the billing screens and the patient statement.
+ *
+ * A bill can be settled by any number of payments, each with its own mode, reference (UTR / txn id),
+ * collector and date, e.g. part cash and part UPI, or a package paid in instalments. Payment entries
+ * are never edited or deleted; the bill keeps a running `amountPaid` and moves to Completed once
+ * nothing is left to pay. Bills settled before the ledger existed have no entries, so their
+ * payment is inferred from the bill itself.
+ */
+
+import { getCreditedAmount, getNetBillAmount, isBillVoided, type CreditNote } from './creditNotes';
+import { WALLET_PAYMENT_MODE } from './wallet';
+
+export const BILL_PAYMENTS_COLLECTION = 'billPayments';
+
+export const PAYMENT_MODES = ['Cash', 'UPI/Card', 'Bank Transfer', 'Cheque'] as const;
+export type PaymentMode = (typeof PAYMENT_MODES)[number];
+// Wallet payments are only ever made by debiting the patient's deposit, never picked at the desk
+export type LedgerPaymentMode = PaymentMode | typeof WALLET_PAYMENT_MODE;
+
+export interface PaymentLine {
+	mode: LedgerPaymentMode;
+	amount: number;
+	reference?: string; // UTR / transaction id; required for anything but cash
+}
+
+// A payment line as typed at the desk
+export interface PaymentLineDraft {
+	mode: PaymentMode;
+	amount: string;
+	reference: string;
+}
+
+export interface BillPayment {
+	id: string;
+	billingDocId: string;
+	billingId: string;
+	patientId: string;
+	patient: string;
+	amount: number;
+	mode: LedgerPaymentMode;
+	reference: string | null;
+	paidOn: string; // YYYY-MM-DD
+	collectedBy: string | null; // uid
+	collectedByName: string | null;
+	createdAt: string;
+}
+
+export interface LedgerBill {
+	id?: string;
+	billingId: string;
+	patientId: string;
+	amount: number;
+	date: string;
+	status: string;
+	paymentMode?: string;
+	utr?: string;
+	amountPaid?: number;
+	creditedAmount?: number;
+	refundedAmount?: number;
+}
+
+export type StatementEntryType = 'charge' | 'payment' | 'credit' | 'refund' | 'void';
+
+export interface StatementEntry {
+	date: string;
+	type: StatementEntryType;
+	description: string;
+	reference: string;
+	debit: number; // Increases what the patient owes
+	credit: number; // Decreases what the patient owes
+	balance: number; // Running balance after this entry
+}
+
+export interface PatientStatement {
+	entries: StatementEntry[];
+	totalCharged: number;
+	totalPaid: number;
+	totalCredited: number;
+	totalRefunded: number;
+	balance: number; // Positive when the patient owes the clinic
+}
+
+const PAID_STATUSES = ['Completed', 'Auto-Paid'];
+
+function roundCurrency(value: number): number {
+	return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+export function isPaymentMode(value: unknown): value is PaymentMode {
+	return typeof value === 'string' && (PAYMENT_MODES as readonly string[]).includes(value);
+}
+
+/**
+ * Money received against a bill, before any refunds. Bills paid before the ledger existed count in full.
+ */
+export function getPaidAmount(bill: { amount?: number; status?: string; amountPaid?: number }): number {
+	if (typeof bill.amountPaid === 'number') return bill.amountPaid;
+	return PAID_STATUSES.includes(String(bill.status)) ? Number(bill.amount || 0) : 0;
+}
+
+/**
+ * Money received and kept, i.e. after refunds
+ */
+export function getNetPaidAmount(bill: { amount?: number; status?: string; amountPaid?: number; refundedAmount?: number }): number {
+	return Math.max(0, roundCurrency(getPaidAmount(bill) - Number(bill.refundedAmount || 0)));
+}
+
+/**
+ * What is still to be paid on a bill once credit notes and payments are taken off
+ */
+export function getBillBalance(bill: { amount?: number; status?: string; amountPaid?: number; creditedAmount?: number; refundedAmount?: number }): number {
+	if (isBillVoided(bill)) return 0;
+	return Math.max(0, roundCurrency(getNetBillAmount(bill) - getNetPaidAmount(bill)));
+}
+
+/**
+ * The bill's paymentMode once it has been paid in one or more ways, e.g. 'Cash + UPI/Card'
+ */
+export function describePaymentModes(modes: string[]): string {
+	return Array.from(new Set(modes.filter(Boolean))).join(' + ');
+}
+
+/**
+ * Turn the desk's payment lines into payments, or an error message to show.
+ * Lines left at zero are dropped; cashless lines need a reference.
+ */
+export function parsePaymentLineDrafts(drafts: PaymentLineDraft[]): { lines: PaymentLine[] } | { error: string } {
+	const lines: PaymentLine[] = [];
+	for (const draft of drafts) {
+		const amount = roundCurrency(parseFloat(draft.amount) || 0);
+		if (amount < 0) return { error: 'Payment amounts cannot be negative.' };
+		if (amount === 0) continue;
+		if (draft.mode !== 'Cash' && !draft.reference.trim()) {
+			return { error: `Please enter the ${draft.mode === 'Cheque' ? 'cheque number' : 'UTR / transaction ID'} for the ${draft.mode} payment.` };
+		}
+		lines.push({ mode: draft.mode, amount, ...(draft.reference.trim() ? { reference: draft.reference.trim() } : {}) });
+	}
+	if (lines.length === 0) return { error: 'Please enter the amount received.' };
+	return { lines };
+}
+
+export function parseBillPayment(id: string, data: Record<string, unknown>): BillPayment {
+	return {
+		id,
+		billingDocId: String(data.billingDocId || ''),
+		billingId: String(data.billingId || ''),
+		patientId: String(data.patientId || ''),
+		patient: String(data.patient || ''),
+		amount: Number(data.amount || 0),
+		mode: isPaymentMode(data.mode) || data.mode === WALLET_PAYMENT_MODE ? data.mode : 'Cash',
+		reference: data.reference ? String(data.reference) : null,
+		paidOn: String(data.paidOn || ''),
+		collectedBy: data.collectedBy ? String(data.collectedBy) : null,
+		collectedByName: data.collectedByName ? String(data.collectedByName) : null,
+		createdAt: String(data.createdAt || ''),
+	};
+}
+
+/**
+ * Running balance statement for one patient from their bills, payments and credit notes.
+ * Entries on the same day are ordered charge, payment, credit, refund, void.
+ */
+export function buildPatientStatement(bills: LedgerBill[], payments: BillPayment[], creditNotes: CreditNote[]): PatientStatement {
+	const order: Record<StatementEntryType, number> = { charge: 0, payment: 1, credit: 2, refund: 3, void: 4 };
+	const entries: Omit<StatementEntry, 'balance'>[] = [];
+
+	bills.forEach(bill => {
+		const amount = Number(bill.amount || 0);
+		if (amount > 0) {
+			entries.push({ date: bill.date, type: 'charge', description: `Bill ${bill.billingId}`, reference: bill.billingId, debit: amount, credit: 0 });
+		}
+
+		// Paid before the ledger existed: one payment for whatever the entries do not account for
+		const billPayments = payments.filter(payment => payment.billingDocId === bill.id);
+		const recorded = billPayments.reduce((sum, payment) => sum + payment.amount, 0);
+		const unrecorded = roundCurrency(getPaidAmount(bill) - recorded);
+		if (unrecorded > 0) {
+			entries.push({
+				date: bill.date,
+				type: 'payment',
+				description: `Payment${bill.paymentMode ? ` (${bill.paymentMode})` : ''} for ${bill.billingId}`,
+				reference: bill.utr || '',
+				debit: 0,
+				credit: unrecorded,
+			});
+		}
+
+		// Voided without a credit note (no invoice had been issued): write off what was left
+		if (isBillVoided(bill)) {
+			const writtenOff = roundCurrency(amount - getCreditedAmount(bill));
+			if (writtenOff > 0) {
+				entries.push({ date: bill.date, type: 'void', description: `Bill ${bill.billingId} voided`, reference: bill.billingId, debit: 0, credit: writtenOff });
+			}
+		}
+	});
+
+	payments.forEach(payment => {
+		entries.push({
+			date: payment.paidOn,
+			type: 'payment',
+			description: `Payment (${payment.mode}) for ${payment.billingId}`,
+			reference: payment.reference || '',
+			debit: 0,
+			credit: payment.amount,
+		});
+	});
+
+	creditNotes.forEach(note => {
+		const date = note.issuedAt.slice(0, 10);
+		entries.push({
+			date,
+			type: 'credit',
+			description: `Credit note for ${note.billingId}${note.reason ? ` - ${note.reason}` : ''}`,
+			reference: note.creditNoteNo,
+			debit: 0,
+			credit: note.amount,
+		});
+		if (note.refundMode) {
+			entries.push({
+				date,
+				type: 'refund',
+				description: `Refund (${note.refundMode}) against ${note.creditNoteNo}`,
+				reference: note.refundUtr || '',
+				debit: note.amount,
+				credit: 0,
+			});
+		}
+	});
+
+	entries.sort((a, b) => a.date.localeCompare(b.date) || order[a.type] - order[b.type]);
+
+	let balance = 0;
+	const withBalance = entries.map(entry => {
+		balance = roundCurrency(balance + entry.debit - entry.credit);
+		return { ...entry, balance };
+	});
+	const total = (type: StatementEntryType, key: 'debit' | 'credit') =>
+		roundCurrency(entries.filter(entry => entry.type === type).reduce((sum, entry) => sum + entry[key], 0));
+
+	return {
+		entries: withBalance,
+		totalCharged: total('charge', 'debit'),
+		totalPaid: total('payment', 'credit'),
+		totalCredited: total('credit', 'credit'),
+		totalRefunded: total('refund', 'debit'),
+		balance,
+	};
+}
@@ -0,0 +1,120 @@
+import { collection, doc, runTransaction, serverTimestamp, type DocumentData, type Transaction } from 'firebase/firestore';
+
+import { db } from './firebase';
+import {
+	BILL_PAYMENTS_COLLECTION,
+	describePaymentModes,
+	getBillBalance,
+	getPaidAmount,
+	type PaymentLine,
+} from './billPayments';
+import { isBillVoided } from './creditNotes';
+
+export interface RecordBillPaymentInput {
+	billingDocId: string;
+	lines: PaymentLine[];
+	paidOn: string; // YYYY-MM-DD
+	collectedBy?: string | null;
+	collectedByName?: string | null;
+	// Other bill fields to save with the payment, e.g. the amount when it is settled at the desk
+	billUpdates?: { amount?: number; date?: string; installmentsPaid?: number };
+}
+
+export interface RecordBillPaymentResult {
+	status: 'Pending' | 'Completed';
+	amountPaid: number;
+	balance: number;
+	paymentMode: string;
+	utr: string | null;
+}
+
+interface ApplyBillPaymentsInput {
+	billingDocId: string;
+	bill: DocumentData; // The bill as read in the transaction, with any updates already applied
+	lines: PaymentLine[];
+	paidOn: string;
+	collectedBy?: string | null;
+	collectedByName?: string | null;
+	updates?: Record<string, unknown>;
+}
+
+/**
+ * Write payment entries and the bill's new running total inside a transaction the caller has
+ * already read the bill in. Throws if the bill is voided or the payment is more than what is due.
+ */
+export function applyBillPayments(
+	transaction: Transaction,
+	{ billingDocId, bill, lines, paidOn, collectedBy, collectedByName, updates = {} }: ApplyBillPaymentsInput
+): RecordBillPaymentResult {
+	if (isBillVoided(bill)) throw new Error('This bill has been voided');
+
+	const total = Math.round(lines.reduce((sum, line) => sum + line.amount, 0) * 100) / 100;
+	const due = getBillBalance(bill);
+	if (total > due) {
+		throw new Error(`Payment of Rs. ${total.toFixed(2)} is more than the Rs. ${due.toFixed(2)} due`);
+	}
+
+	const createdAt = new Date().toISOString();
+	lines.forEach(line => {
+		transaction.set(doc(collection(db, BILL_PAYMENTS_COLLECTION)), {
+			billingDocId,
+			billingId: bill.billingId || '',
+			patientId: bill.patientId || '',
+			patient: bill.patient || '',
+			amount: line.amount,
+			mode: line.mode,
+			reference: line.reference?.trim() || null,
+			paidOn,
+			collectedBy: collectedBy || null,
+			collectedByName: collectedByName || null,
+			createdAt,
+		});
+	});
+
+	const amountPaid = Math.round((getPaidAmount(bill) + total) * 100) / 100;
+	const balance = getBillBalance({ ...bill, amountPaid });
+	const paymentMode = describePaymentModes([
+		// Keep the modes of earlier part payments, e.g. 'Cash + Wallet'
+		...(getPaidAmount(bill) > 0 && typeof bill.paymentMode === 'string' ? bill.paymentMode.split(' + ') : []),
+		...lines.map(line => line.mode),
+	]);
+	const references = lines.map(line => line.reference?.trim()).filter(Boolean);
+	const utr = references.length > 0 ? references.join(', ') : null;
+	const status = balance > 0 ? 'Pending' : 'Completed';
+
+	transaction.update(doc(db, 'billing', billingDocId), {
+		...updates,
+		amountPaid,
+		status,
+		paymentMode,
+		utr,
+		lastPaymentOn: paidOn,
+		updatedAt: serverTimestamp(),
+	});
+
+	return { status, amountPaid, balance, paymentMode, utr };
+}
+
+/**
+ * Record one or more payments against a bill (e.g. part cash, part UPI) and update the bill's
+ * running total and status in the same transaction
+ */
+export async function recordBillPayment({
+	billingDocId,
+	lines,
+	paidOn,
+	collectedBy,
+	collectedByName,
+	billUpdates,
+}: RecordBillPaymentInput): Promise<RecordBillPaymentResult> {
+	const billRef = doc(db, 'billing', billingDocId);
+	// Firestore rejects undefined values
+	const updates = Object.fromEntries(Object.entries(billUpdates ?? {}).filter(([, value]) => value !== undefined));
+
+	return runTransaction(db, async transaction => {
+		const snapshot = await transaction.get(billRef);
+		if (!snapshot.exists()) throw new Error('Bill not found');
+		const bill = { ...snapshot.data(), ...updates };
+		return applyBillPayments(transaction, { billingDocId, bill, lines, paidOn, collectedBy, collectedByName, updates });
+	});
+}
@@ -0,0 +1,210 @@
+/**
+ * Closing a billing cycle.
+ *
+ * When a cycle is closed every bill dated in it is stamped with the cycle's id and from then on is
+ * locked: its amount, date, patient and clinician cannot be edited and it cannot be deleted. What
+ * happens afterwards (payments received, credit notes, refunds, voids, sponsor invoices) is recorded
+ * as an adjustment in the open period, so the closed month's figures never move. Closing also saves
+ * a reconciliation of the month: revenue expected from completed sessions against what was billed,
+ * collected, written off and is still outstanding.
+ */
+
+import { getBillBalance, getPaidAmount } from './billPayments';
+import { isBillVoided } from './creditNotes';
+
+export const BILLING_CYCLES_COLLECTION = 'billingCycles';
+
+/**
+ * Fields a locked bill may still change. Kept in step with the billing rule in firestore.rules, which
+ * also only lets the status move with a payment that raises amountPaid and lets gst be recorded once.
+ */
+export const LOCKED_BILL_ADJUSTMENT_FIELDS = [
+	'amountPaid',
+	'status',
+	'paymentMode',
+	'utr',
+	'lastPaymentOn',
+	'installmentsPaid',
+	'paymentRegisteredByFrontdesk',
+	'paymentRegisteredByFrontdeskName',
+	'sponsorInvoiceId',
+	'sponsorInvoiceNo',
+	'invoiceGeneratedAt',
+	'gst',
+	'updatedAt',
+] as const;
+
+export interface LockableBill {
+	lockedCycleId?: string | null;
+}
+
+export interface ReconciliationBill {
+	id: string;
+	appointmentId?: string | null;
+	amount?: number;
+	status?: string;
+	paymentMode?: string | null;
+	amountPaid?: number;
+	creditedAmount?: number;
+	refundedAmount?: number;
+}
+
+export interface ReconciliationAppointment {
+	appointmentId: string;
+	status: string;
+	amount?: number; // The session's standard rate
+	coveredByPackage?: boolean; // Used a session of a package, or booked as part of one
+}
+
+export interface ReconciliationPayment {
+	billingDocId: string;
+	amount: number;
+	mode: string;
+}
+
+export interface CycleReconciliation {
+	completedSessions: number;
+	packageSessions: number; // Paid for on the package bill
+	unbilledSessions: number;
+	expectedRevenue: number; // Billed amount of completed sessions, or their rate when not billed yet
+	billCount: number;
+	billed: number; // Bills dated in the cycle, voided bills excluded
+	collected: number;
+	collectedByMode: Record<string, number>;
+	credited: number;
+	refunded: number;
+	writtenOff: number; // Left unpaid on bills that were voided
+	outstanding: number;
+	generatedAt: string;
+}
+
+function roundCurrency(value: number): number {
+	return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+export function isBillLocked(bill: LockableBill): boolean {
+	return Boolean(bill.lockedCycleId);
+}
+
+/**
+ * Message shown when someone tries to edit or delete a bill in a closed cycle
+ */
+export function getBillLockMessage(bill: LockableBill): string {
+	return `This bill belongs to the ${bill.lockedCycleId} billing cycle, which has been closed. Record a payment, credit note or void in the current period instead.`;
+}
+
+/**
+ * Reconcile a cycle from its completed appointments, the bills dated in it and the payments recorded
+ * against those bills. Payments from before the payments ledger are counted under the bill's mode.
+ */
+export function buildCycleReconciliation({
+	appointments,
+	bills,
+	payments,
+	now = new Date(),
+}: {
+	appointments: ReconciliationAppointment[];
+	bills: ReconciliationBill[];
+	payments: ReconciliationPayment[];
+	now?: Date;
+}): CycleReconciliation {
+	const billsByAppointment = new Map<string, ReconciliationBill>();
+	bills.forEach(bill => {
+		if (bill.appointmentId && !isBillVoided(bill)) billsByAppointment.set(bill.appointmentId, bill);
+	});
+
+	let completedSessions = 0;
+	let packageSessions = 0;
+	let unbilledSessions = 0;
+	let expectedRevenue = 0;
+	appointments
+		.filter(appointment => appointment.status === 'completed')
+		.forEach(appointment => {
+			completedSessions += 1;
+			const bill = billsByAppointment.get(appointment.appointmentId);
+			if (bill) {
+				expectedRevenue += Number(bill.amount || 0);
+			} else if (appointment.coveredByPackage) {
+				packageSessions += 1;
+			} else {
+				unbilledSessions += 1;
+				expectedRevenue += Number(appointment.amount || 0);
+			}
+		});
+
+	const collectedByMode: Record<string, number> = {};
+	const addCollection = (mode: string, amount: number) => {
+		if (amount <= 0) return;
+		collectedByMode[mode] = roundCurrency((collectedByMode[mode] ?? 0) + amount);
+	};
+
+	let billed = 0;
+	let credited = 0;
+	let refunded = 0;
+	let writtenOff = 0;
+	let outstanding = 0;
+	bills.forEach(bill => {
+		const amount = Number(bill.amount || 0);
+		const billPayments = payments.filter(payment => payment.billingDocId === bill.id);
+		billPayments.forEach(payment => addCollection(payment.mode, payment.amount));
+		const recorded = billPayments.reduce((sum, payment) => sum + payment.amount, 0);
+		addCollection(bill.paymentMode || 'Unrecorded', roundCurrency(getPaidAmount(bill) - recorded));
+
+		credited += Number(bill.creditedAmount || 0);
+		refunded += Number(bill.refundedAmount || 0);
+		if (isBillVoided(bill)) {
+			writtenOff += Math.max(0, amount - Number(bill.creditedAmount || 0));
+			return;
+		}
+		billed += amount;
+		outstanding += getBillBalance(bill);
+	});
+
+	return {
+		completedSessions,
+		packageSessions,
+		unbilledSessions,
+		expectedRevenue: roundCurrency(expectedRevenue),
+		billCount: bills.filter(bill => !isBillVoided(bill)).length,
+		billed: roundCurrency(billed),
+		collected: roundCurrency(Object.values(collectedByMode).reduce((sum, amount) => sum + amount, 0)),
+		collectedByMode,
+		credited: roundCurrency(credited),
+		refunded: roundCurrency(refunded),
+		writtenOff: roundCurrency(writtenOff),
+		outstanding: roundCurrency(outstanding),
+		generatedAt: now.toISOString(),
+	};
+}
+
+export function parseCycleReconciliation(value: unknown): CycleReconciliation | undefined {
+	const data = value as Partial<CycleReconciliation> | null | undefined;
+	if (!data || typeof data.billed !== 'number' || typeof data.expectedRevenue !== 'number') return undefined;
+	return { ...data, collectedByMode: data.collectedByMode ?? {} } as CycleReconciliation;
+}
+
+/**
+ * Rows for the Excel export of a closed cycle's reconciliation
+ */
+export function getReconciliationRows(cycleLabel: string, report: CycleReconciliation): (string | number)[][] {
+	return [
+		[`Reconciliation - ${cycleLabel}`],
+		['Generated', report.generatedAt],
+		[],
+		['Completed sessions', report.completedSessions],
+		['Covered by packages', report.packageSessions],
+		['Not billed', report.unbilledSessions],
+		['Expected revenue', report.expectedRevenue],
+		[],
+		['Bills', report.billCount],
+		['Billed', report.billed],
+		['Difference from expected', roundCurrency(report.expectedRevenue - report.billed)],
+		[],
+		['Collected', report.collected],
+		...Object.entries(report.collectedByMode).map(([mode, amount]) => [`  ${mode}`, amount]),
+		['Credit notes', report.credited],
+		['Refunded', report.refunded],
+		['Written off', report.writtenOff],
+		['Outstanding', report.outstanding],
+	];
+}
@@ -0,0 +1,101 @@
+import { addDoc, collection, doc, getDocs, query, serverTimestamp, updateDoc, where, writeBatch } from 'firebase/firestore';
+
+import { db } from './firebase';
+import { BILL_PAYMENTS_COLLECTION } from './billPayments';
+import { BILLING_CYCLES_COLLECTION, buildCycleReconciliation, type CycleReconciliation } from './billingCycles';
+import { getBillingCycleId } from './billingUtils';
+import { PATIENT_PACKAGES_COLLECTION } from './packages';
+
+// Firestore allows 500 writes per batch
+const LOCK_BATCH_SIZE = 450;
+
+export interface CloseBillingCycleInput {
+	docId?: string | null; // The cycle's billingCycles document, when one exists
+	month: number;
+	year: number;
+	startDate: string;
+	endDate: string;
+	closedBy?: string | null;
+}
+
+/**
+ * Close a billing cycle: lock every bill dated in it and save the month's reconciliation on the
+ * cycle document. Bills already locked by an earlier close are left as they are.
+ */
+export async function closeBillingCycle({ docId, month, year, startDate, endDate, closedBy }: CloseBillingCycleInput): Promise<CycleReconciliation> {
+	const cycleId = getBillingCycleId(month, year);
+	const [billsSnapshot, appointmentsSnapshot, paymentsSnapshot, packagesSnapshot] = await Promise.all([
+		getDocs(query(collection(db, 'billing'), where('date', '>=', startDate), where('date', '<=', endDate))),
+		getDocs(query(collection(db, 'appointments'), where('date', '>=', startDate), where('date', '<=', endDate))),
+		// Payments for the cycle's bills can only be made once they are raised
+		getDocs(query(collection(db, BILL_PAYMENTS_COLLECTION), where('paidOn', '>=', startDate))),
+		getDocs(query(collection(db, PATIENT_PACKAGES_COLLECTION), where('expiresOn', '>=', startDate))),
+	]);
+
+	const packageAppointmentIds = new Set<string>();
+	packagesSnapshot.docs.forEach(packageDoc => {
+		const consumed = packageDoc.data().consumedAppointmentIds;
+		if (Array.isArray(consumed)) consumed.forEach(id => packageAppointmentIds.add(String(id)));
+	});
+
+	const reconciliation = buildCycleReconciliation({
+		bills: billsSnapshot.docs.map(billDoc => {
+			const data = billDoc.data();
+			return {
+				id: billDoc.id,
+				appointmentId: data.appointmentId ? String(data.appointmentId) : null,
+				amount: Number(data.amount || 0),
+				status: data.status ? String(data.status) : 'Pending',
+				paymentMode: data.paymentMode ? String(data.paymentMode) : null,
+				amountPaid: typeof data.amountPaid === 'number' ? data.amountPaid : undefined,
+				creditedAmount: typeof data.creditedAmount === 'number' ? data.creditedAmount : undefined,
+				refundedAmount: typeof data.refundedAmount === 'number' ? data.refundedAmount : undefined,
+			};
+		}),
+		appointments: appointmentsSnapshot.docs.map(appointmentDoc => {
+			const data = appointmentDoc.data();
+			const appointmentId = String(data.appointmentId || appointmentDoc.id);
+			return {
+				appointmentId,
+				status: String(data.status || ''),
+				amount: typeof data.amount === 'number' ? data.amount : undefined,
+				coveredByPackage: Boolean(data.packageBillingId) || packageAppointmentIds.has(appointmentId),
+			};
+		}),
+		payments: paymentsSnapshot.docs.map(paymentDoc => {
+			const data = paymentDoc.data();
+			return { billingDocId: String(data.billingDocId || ''), amount: Number(data.amount || 0), mode: String(data.mode || 'Cash') };
+		}),
+	});
+
+	const unlocked = billsSnapshot.docs.filter(billDoc => !billDoc.data().lockedCycleId);
+	for (let index = 0; index < unlocked.length; index += LOCK_BATCH_SIZE) {
+		const batch = writeBatch(db);
+		unlocked.slice(index, index + LOCK_BATCH_SIZE).forEach(billDoc => {
+			batch.update(billDoc.ref, { lockedCycleId: cycleId, updatedAt: serverTimestamp() });
+		});
+		await batch.commit();
+	}
+
+	const closedFields = {
+		status: 'closed',
+		closedAt: serverTimestamp(),
+		closedBy: closedBy || null,
+		reconciliation,
+	};
+	if (docId) {
+		await updateDoc(doc(db, BILLING_CYCLES_COLLECTION, docId), closedFields);
+	} else {
+		await addDoc(collection(db, BILLING_CYCLES_COLLECTION), {
+			id: cycleId,
+			startDate,
+			endDate,
+			month,
+			year,
+			createdAt: serverTimestamp(),
+			...closedFields,
+		});
+	}
+
+	return reconciliation;
+}
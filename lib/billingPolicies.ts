@@ -0,0 +1,174 @@
+/**
+ * Billing policies: how a completed session is charged for each organisation a patient comes through.
+ *
+ * The registry lives in one settings document edited by admins, keyed by the normalised patient type
+ * (VIP, DYES, PAID, ...). A policy either leaves the session pending for the patient to pay, marks it
+ * auto-paid, makes it free until the organisation's yearly cap is reached, or bills it to a sponsor.
+ * Patient types without a policy of their own are billed like PAID patients.
+ */
+
+import { DYES_ANNUAL_SESSION_CAP, DYES_SESSION_RATE } from './sessionAllowance';
+
+export const BILLING_POLICIES_DOC_ID = 'billingPolicies'; // In the clinicSettings collection
+export const POLICY_SESSION_COUNTERS_COLLECTION = 'policySessionCounters';
+// Yearly counters kept before billing policies, keyed by year; a policy's first count of a year starts from them
+export const LEGACY_SESSION_COUNTER_COLLECTIONS: Record<string, string> = { DYES: 'dyesSessionCounter' };
+
+export type BillingPolicyMode = 'pending' | 'auto-paid' | 'free-within-cap' | 'sponsor';
+
+export const BILLING_POLICY_MODE_LABELS: Record<BillingPolicyMode, string> = {
+	pending: 'Patient pays (pending)',
+	'auto-paid': 'Auto-paid',
+	'free-within-cap': 'Free within yearly cap',
+	sponsor: 'Billed to sponsor',
+};
+
+export interface BillingPolicy {
+	key: string; // Normalised patient type, e.g. DYES
+	label: string;
+	mode: BillingPolicyMode;
+	sessionRate: number | null; // null = the appointment's standard rate
+	concessionPercent: number; // Off the rate for 'pending' patients registered with concession
+	freeSessionsPerYear: number; // 'free-within-cap' only: sessions per calendar year before the rate applies
+	sponsorName: string; // 'sponsor' only: who the sessions are billed to
+}
+
+export interface BillingPolicySettings {
+	policies: BillingPolicy[];
+}
+
+// Patient types for organisations without a policy of their own
+export const FALLBACK_BILLING_POLICY: BillingPolicy = {
+	key: 'PAID',
+	label: 'Paid',
+	mode: 'pending',
+	sessionRate: null,
+	concessionPercent: 20,
+	freeSessionsPerYear: 0,
+	sponsorName: '',
+};
+
+export const DEFAULT_BILLING_POLICY_SETTINGS: BillingPolicySettings = {
+	policies: [
+		FALLBACK_BILLING_POLICY,
+		{ key: 'VIP', label: 'VIP', mode: 'auto-paid', sessionRate: 0, concessionPercent: 0, freeSessionsPerYear: 0, sponsorName: '' },
+		{
+			key: 'DYES',
+			label: 'DYES',
+			mode: 'free-within-cap',
+			sessionRate: DYES_SESSION_RATE,
+			concessionPercent: 0,
+			freeSessionsPerYear: DYES_ANNUAL_SESSION_CAP,
+			sponsorName: '',
+		},
+		{ key: 'GETHNA', label: 'Gethna', mode: 'pending', sessionRate: null, concessionPercent: 0, freeSessionsPerYear: 0, sponsorName: '' },
+		{ key: 'REFERRAL', label: 'Referral', mode: 'pending', sessionRate: 0, concessionPercent: 0, freeSessionsPerYear: 0, sponsorName: '' },
+	],
+};
+
+// Spellings found on older patient records
+const PATIENT_TYPE_ALIASES: Record<string, string> = {
+	GETHHMA: 'GETHNA',
+};
+
+/**
+ * Registry key for a patient type: upper case with spaces and punctuation removed, so 'Dyes',
+ * 'DYES' and 'dyes ' all find the same policy
+ */
+export function normalizeOrganisationType(patientType: string | null | undefined): string {
+	const key = String(patientType || '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+	return PATIENT_TYPE_ALIASES[key] ?? key;
+}
+
+const BILLING_POLICY_MODES = Object.keys(BILLING_POLICY_MODE_LABELS) as BillingPolicyMode[];
+
+function normalizeBillingPolicy(value: unknown): BillingPolicy | null {
+	if (!value || typeof value !== 'object') return null;
+	const data = value as Record<string, unknown>;
+	const key = normalizeOrganisationType(data.key as string);
+	if (!key) return null;
+	const mode = BILLING_POLICY_MODES.includes(data.mode as BillingPolicyMode) ? (data.mode as BillingPolicyMode) : 'pending';
+	const toAmount = (amount: unknown) => (typeof amount === 'number' && Number.isFinite(amount) && amount >= 0 ? amount : 0);
+	return {
+		key,
+		label: data.label ? String(data.label) : key,
+		mode,
+		sessionRate: typeof data.sessionRate === 'number' && data.sessionRate >= 0 ? data.sessionRate : null,
+		concessionPercent: Math.min(100, toAmount(data.concessionPercent)),
+		freeSessionsPerYear: Math.floor(toAmount(data.freeSessionsPerYear)),
+		sponsorName: data.sponsorName ? String(data.sponsorName) : '',
+	};
+}
+
+export function normalizeBillingPolicySettings(data: Record<string, unknown> | undefined | null): BillingPolicySettings {
+	if (!data || !Array.isArray(data.policies)) return DEFAULT_BILLING_POLICY_SETTINGS;
+	const policies: BillingPolicy[] = [];
+	data.policies.forEach(value => {
+		const policy = normalizeBillingPolicy(value);
+		if (policy && !policies.some(existing => existing.key === policy.key)) policies.push(policy);
+	});
+	return { policies };
+}
+
+export function resolveBillingPolicy(settings: BillingPolicySettings, patientType: string | null | undefined): BillingPolicy {
+	const key = normalizeOrganisationType(patientType);
+	return (
+		settings.policies.find(policy => policy.key === key) ??
+		settings.policies.find(policy => policy.key === FALLBACK_BILLING_POLICY.key) ??
+		FALLBACK_BILLING_POLICY
+	);
+}
+
+/**
+ * Whether sessions are billed the moment they are completed. Sessions the patient pays for are
+ * picked up by the billing sync instead, which also leaves package patients out.
+ */
+export function billsOnCompletion(policy: BillingPolicy): boolean {
+	return policy.mode !== 'pending';
+}
+
+export type SessionBillStatus = 'Pending' | 'Completed' | 'Auto-Paid';
+
+export interface SessionCharge {
+	amount: number;
+	status: SessionBillStatus;
+	paymentMode: 'Auto-Paid' | null;
+	sponsorName: string | null;
+}
+
+export interface PriceSessionInput {
+	standardAmount: number; // The appointment's rate
+	paymentType?: string | null; // 'with' for patients registered with concession
+	isExtraTreatment?: boolean;
+	withinFreeCap?: boolean; // 'free-within-cap' only: whether this session is inside the yearly cap
+}
+
+function roundCurrency(value: number): number {
+	return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+/**
+ * Amount and status of the bill for one completed session under a policy. Extra treatments are
+ * outside what free and sponsored organisations cover, so the patient pays for them.
+ */
+export function priceCompletedSession(policy: BillingPolicy, { standardAmount, paymentType, isExtraTreatment, withinFreeCap }: PriceSessionInput): SessionCharge {
+	const rate = policy.sessionRate ?? standardAmount;
+	const pending = (amount: number): SessionCharge => ({ amount, status: 'Pending', paymentMode: null, sponsorName: null });
+
+	if (isExtraTreatment && (policy.mode === 'free-within-cap' || policy.mode === 'sponsor')) return pending(rate);
+
+	switch (policy.mode) {
+		case 'auto-paid':
+			return { amount: rate, status: 'Completed', paymentMode: 'Auto-Paid', sponsorName: null };
+		case 'free-within-cap':
+			return withinFreeCap
+				? { amount: 0, status: 'Completed', paymentMode: null, sponsorName: null }
+				: { amount: rate, status: 'Auto-Paid', paymentMode: 'Auto-Paid', sponsorName: null };
+		case 'sponsor':
+			return { ...pending(rate), sponsorName: policy.sponsorName || policy.label };
+		default:
+			return pending(
+				paymentType === 'with' && policy.concessionPercent > 0 ? roundCurrency(rate * (1 - policy.concessionPercent / 100)) : rate
+			);
+	}
+}
@@ -0,0 +1,149 @@
+import { addDoc, collection, doc, getDoc, getDocs, query, runTransaction, serverTimestamp, updateDoc, where } from 'firebase/firestore';
+
+import { db } from './firebase';
+import {
+	BILLING_POLICIES_DOC_ID,
+	LEGACY_SESSION_COUNTER_COLLECTIONS,
+	POLICY_SESSION_COUNTERS_COLLECTION,
+	billsOnCompletion,
+	normalizeBillingPolicySettings,
+	priceCompletedSession,
+	resolveBillingPolicy,
+	type BillingPolicy,
+	type BillingPolicySettings,
+	type SessionCharge,
+} from './billingPolicies';
+import { isBillVoided } from './creditNotes';
+import { CLINIC_SETTINGS_COLLECTION } from './noShowPolicy';
+
+export async function fetchBillingPolicySettings(): Promise<BillingPolicySettings> {
+	const snapshot = await getDoc(doc(db, CLINIC_SETTINGS_COLLECTION, BILLING_POLICIES_DOC_ID));
+	return normalizeBillingPolicySettings(snapshot.exists() ? snapshot.data() : null);
+}
+
+/**
+ * Count one more completed session against the organisation's yearly cap
+ */
+async function countPolicySession(policy: BillingPolicy): Promise<{ sessionNumber: number; withinFreeCap: boolean }> {
+	const year = new Date().getFullYear();
+	const counterRef = doc(db, POLICY_SESSION_COUNTERS_COLLECTION, `${policy.key}-${year}`);
+	const legacyCollection = LEGACY_SESSION_COUNTER_COLLECTIONS[policy.key];
+
+	return runTransaction(db, async transaction => {
+		const snapshot = await transaction.get(counterRef);
+		let counted = snapshot.exists() ? Number(snapshot.data().totalSessions) || 0 : 0;
+		if (!snapshot.exists() && legacyCollection) {
+			const legacySnapshot = await transaction.get(doc(db, legacyCollection, year.toString()));
+			counted = legacySnapshot.exists() ? Number(legacySnapshot.data().totalSessions) || 0 : 0;
+		}
+		const sessionNumber = counted + 1;
+		transaction.set(counterRef, { policyKey: policy.key, year, totalSessions: sessionNumber, lastUpdated: serverTimestamp() });
+		return { sessionNumber, withinFreeCap: sessionNumber <= policy.freeSessionsPerYear };
+	});
+}
+
+export interface BillCompletedSessionParams {
+	patientType: string | null | undefined;
+	appointmentId: string;
+	appointmentDocId: string;
+	patientId: string;
+	patientName: string;
+	doctorName: string;
+	appointmentDate: string;
+	standardAmount?: number;
+	paymentType?: string | null;
+	createdByUserId?: string | null;
+	createdByUserName?: string | null;
+	isExtraTreatment?: boolean;
+	settings?: BillingPolicySettings; // Pass when billing many sessions to avoid re-reading the policies
+}
+
+/**
+ * Bill a completed session under the patient's billing policy, for organisations billed on completion
+ * (free within a cap, auto-paid or sponsored). Resolves to the charge, or null when nothing was created:
+ * the policy leaves billing to the sync, or the appointment already has a bill. An auto-paid policy
+ * settles an existing unpaid bill, e.g. a booking charge raised before the session.
+ */
+export async function billCompletedSession({
+	patientType,
+	appointmentId,
+	appointmentDocId,
+	patientId,
+	patientName,
+	doctorName,
+	appointmentDate,
+	standardAmount = 0,
+	paymentType,
+	createdByUserId,
+	createdByUserName,
+	isExtraTreatment = false,
+	settings,
+}: BillCompletedSessionParams): Promise<SessionCharge | null> {
+	const policy = resolveBillingPolicy(settings ?? (await fetchBillingPolicySettings()), patientType);
+	if (!billsOnCompletion(policy)) return null;
+
+	const existingSnapshot = await getDocs(query(collection(db, 'billing'), where('appointmentId', '==', appointmentId)));
+	if (!existingSnapshot.empty) {
+		if (policy.mode === 'auto-paid') {
+			const charge = priceCompletedSession(policy, { standardAmount, paymentType });
+			for (const billDoc of existingSnapshot.docs) {
+				const bill = billDoc.data();
+				if (isBillVoided(bill) || bill.lockedCycleId || bill.status !== 'Pending' || Number(bill.amountPaid) > 0) continue;
+				await updateDoc(doc(db, 'billing', billDoc.id), {
+					amount: charge.amount,
+					status: charge.status,
+					paymentMode: charge.paymentMode,
+					billingPolicy: policy.key,
+					updatedAt: serverTimestamp(),
+				});
+			}
+		}
+		return null;
+	}
+
+	// Check if appointment already has isExtraTreatment flag (in case it was set earlier)
+	const appointmentDoc = await getDoc(doc(db, 'appointments', appointmentDocId));
+	const extraTreatment = isExtraTreatment || appointmentDoc.data()?.isExtraTreatment === true;
+
+	const counted = policy.mode === 'free-within-cap' && !extraTreatment ? await countPolicySession(policy) : null;
+	const charge = priceCompletedSession(policy, {
+		standardAmount,
+		paymentType,
+		isExtraTreatment: extraTreatment,
+		withinFreeCap: counted?.withinFreeCap,
+	});
+	const billingDate = appointmentDate || new Date().toISOString().split('T')[0];
+
+	await addDoc(collection(db, 'billing'), {
+		billingId: 'BILL-' + (appointmentId || Date.now().toString()),
+		appointmentId,
+		patient: patientName || '',
+		patientId,
+		doctor: doctorName || '', // Revenue is attributed to the clinician
+		amount: charge.amount,
+		date: billingDate,
+		status: charge.status,
+		paymentMode: charge.paymentMode,
+		utr: null,
+		isExtraTreatment: extraTreatment,
+		billingPolicy: policy.key,
+		...(charge.sponsorName ? { sponsorName: charge.sponsorName } : {}),
+		...(counted ? { policySessionNumber: counted.sessionNumber } : {}),
+		createdByFrontdesk: createdByUserId || null,
+		createdByFrontdeskName: createdByUserName || null,
+		createdAt: serverTimestamp(),
+		updatedAt: serverTimestamp(),
+	});
+
+	await updateDoc(doc(db, 'appointments', appointmentDocId), {
+		billing: {
+			amount: charge.amount.toFixed(2),
+			date: billingDate,
+			status: charge.status,
+		},
+		...(counted ? { policySessionNumber: counted.sessionNumber } : {}),
+		isExtraTreatment: extraTreatment,
+	});
+
+	return charge;
+}
@@ -2,6 +2,8 @@
  * Billing utilities for cycle management and billing operations
  */
 
+import type { CycleReconciliation } from './billingCycles';
+
 export interface BillingCycle {
 	id: string;
 	startDate: string; // YYYY-MM-DD
@@ -11,6 +13,8 @@ export interface BillingCycle {
 	status: 'active' | 'closed' | 'pending';
 	createdAt: string;
 	closedAt?: string;
+	closedBy?: string;
+	reconciliation?: CycleReconciliation; // Saved when the cycle is closed
 }
 
 /**
@@ -0,0 +1,202 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+import { dbAdmin } from './firebaseAdmin';
+import { buildAppointmentCalendar, type CalendarEventAppointment } from './icalendar';
+import { getServiceType } from './serviceCatalog';
+import type { AppointmentEmailData, EmailData } from './email';
+
+/**
+ * Subscribable iCalendar feeds for a therapist's or a patient's appointments, and the single-event
+ * invite attached to appointment confirmation emails. Server only: the signing secret never reaches the browser.
+ *
+ * Feed token format: base64url(`${kind}.${docId}.${version}`).base64url(hmac)
+ * The version is stored on the staff or patient document as `calendarFeedVersion`; bumping it
+ * invalidates every link issued before, without touching the signing secret.
+ */
+
+export type CalendarFeedKind = 'therapist' | 'patient';
+
+// Past appointments kept in a feed; older ones drop out of subscribed calendars
+const FEED_HISTORY_DAYS = 90;
+const CLINIC_NAME = 'Centre For Sports Science';
+
+function getSecret(): string {
+	const secret = process.env.CALENDAR_FEED_SECRET;
+	if (!secret) {
+		throw new Error('CALENDAR_FEED_SECRET is not configured');
+	}
+	return secret;
+}
+
+function sign(payload: string): string {
+	return createHmac('sha256', getSecret()).update(payload).digest('base64url');
+}
+
+export function isCalendarFeedConfigured(): boolean {
+	return Boolean(process.env.CALENDAR_FEED_SECRET);
+}
+
+export function createCalendarFeedToken(kind: CalendarFeedKind, docId: string, version: number): string {
+	const payload = Buffer.from(`${kind}.${docId}.${version}`).toString('base64url');
+	return `${payload}.${sign(payload)}`;
+}
+
+export type CalendarFeedTokenResult =
+	| { valid: true; kind: CalendarFeedKind; docId: string; version: number }
+	| { valid: false };
+
+export function verifyCalendarFeedToken(token: string): CalendarFeedTokenResult {
+	const [payload, signature] = token.split('.');
+	if (!payload || !signature) return { valid: false };
+
+	const expected = Buffer.from(sign(payload));
+	const received = Buffer.from(signature);
+	if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+		return { valid: false };
+	}
+
+	const [kind, docId, version] = Buffer.from(payload, 'base64url').toString().split('.');
+	if ((kind !== 'therapist' && kind !== 'patient') || !docId || Number.isNaN(Number(version))) {
+		return { valid: false };
+	}
+	return { valid: true, kind, docId, version: Number(version) };
+}
+
+export function getCalendarFeedUrl(token: string): string {
+	const baseUrl = process.env.NEXT_PUBLIC_APP_URL ||
+		(process.env.NODE_ENV === 'production'
+			? 'https://yourdomain.com'
+			: 'http://localhost:3000');
+	return `${baseUrl}/api/calendar/${token}.ics`;
+}
+
+export function getCalendarFeedVersion(data: Record<string, unknown> | undefined): number {
+	return typeof data?.calendarFeedVersion === 'number' ? data.calendarFeedVersion : 0;
+}
+
+function mapFeedAppointment(id: string, data: Record<string, unknown>): CalendarEventAppointment {
+	return {
+		id,
+		appointmentId: data.appointmentId ? String(data.appointmentId) : undefined,
+		patient: data.patient ? String(data.patient) : undefined,
+		doctor: data.doctor ? String(data.doctor) : undefined,
+		date: data.date ? String(data.date) : '',
+		time: data.time ? String(data.time) : '',
+		duration: typeof data.duration === 'number' ? data.duration : null,
+		serviceType: data.serviceType ? String(data.serviceType) : null,
+		status: data.status ? String(data.status) : undefined,
+		notes: data.notes ? String(data.notes) : null,
+	};
+}
+
+function describeService(appointment: CalendarEventAppointment): string {
+	return getServiceType(appointment.serviceType)?.name ?? 'Appointment';
+}
+
+/**
+ * Build the feed behind a verified token, or null when the staff member or patient is gone
+ * or the link has been reset since it was issued
+ */
+export async function buildCalendarFeed(
+	kind: CalendarFeedKind,
+	docId: string,
+	version: number,
+	now: Date = new Date()
+): Promise<string | null> {
+	const ownerDoc = await dbAdmin.collection(kind === 'therapist' ? 'staff' : 'patients').doc(docId).get();
+	if (!ownerDoc.exists || getCalendarFeedVersion(ownerDoc.data()) !== version) return null;
+	const owner = ownerDoc.data()!;
+
+	const snapshot = kind === 'therapist'
+		? await dbAdmin.collection('appointments').where('doctor', '==', String(owner.userName || '')).get()
+		: await dbAdmin.collection('appointments').where('patientId', '==', String(owner.patientId || '')).get();
+
+	const from = new Date(now.getTime() - FEED_HISTORY_DAYS * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+	const appointments = snapshot.docs
+		.map(docSnap => mapFeedAppointment(docSnap.id, docSnap.data()))
+		.filter(appointment => appointment.date >= from)
+		.sort((a, b) => `${a.date} ${a.time}`.localeCompare(`${b.date} ${b.time}`));
+
+	if (kind === 'therapist') {
+		return buildAppointmentCalendar({
+			name: `${owner.userName || 'Therapist'} - ${CLINIC_NAME}`,
+			appointments,
+			now,
+			describe: appointment => ({
+				summary: `${appointment.patient || 'Patient'} - ${describeService(appointment)}`,
+				description: [appointment.appointmentId, appointment.notes].filter(Boolean).join('\n'),
+				location: CLINIC_NAME,
+			}),
+		});
+	}
+
+	return buildAppointmentCalendar({
+		name: `${CLINIC_NAME} appointments`,
+		appointments,
+		now,
+		describe: appointment => ({
+			summary: `${describeService(appointment)} with ${appointment.doctor || CLINIC_NAME}`,
+			description: appointment.appointmentId ? `Appointment ID: ${appointment.appointmentId}` : undefined,
+			location: CLINIC_NAME,
+		}),
+	});
+}
+
+async function getPatientFeedUrl(patientId: string): Promise<string | null> {
+	if (!patientId || !isCalendarFeedConfigured()) return null;
+	const snapshot = await dbAdmin.collection('patients').where('patientId', '==', patientId).limit(1).get();
+	if (snapshot.empty) return null;
+	const patientDoc = snapshot.docs[0];
+	return getCalendarFeedUrl(createCalendarFeedToken('patient', patientDoc.id, getCalendarFeedVersion(patientDoc.data())));
+}
+
+/**
+ * Add the single-event invite to appointment confirmation and update emails. When the email goes to
+ * the patient, the body also gets a link to subscribe to all of their appointments.
+ */
+export async function withAppointmentCalendar(
+	emailData: EmailData
+): Promise<{ data: Record<string, unknown>; attachments: Array<{ filename: string; content: Buffer; contentType: string }> }> {
+	if (emailData.template !== 'appointment-created' && emailData.template !== 'appointment-updated') {
+		return { data: emailData.data, attachments: [] };
+	}
+
+	const appointment = emailData.data as unknown as AppointmentEmailData;
+	if (!appointment.date || !appointment.time) {
+		return { data: emailData.data, attachments: [] };
+	}
+
+	const ics = buildAppointmentCalendar({
+		name: CLINIC_NAME,
+		appointments: [
+			{
+				id: appointment.appointmentId || `${appointment.patientId || 'appointment'}-${appointment.date}-${appointment.time}`,
+				appointmentId: appointment.appointmentId,
+				doctor: appointment.doctor,
+				date: appointment.date,
+				time: appointment.time,
+				duration: appointment.duration,
+				serviceType: appointment.serviceType,
+			},
+		],
+		describe: event => ({
+			summary: `${describeService(event)} with ${event.doctor || CLINIC_NAME}`,
+			description: appointment.appointmentId ? `Appointment ID: ${appointment.appointmentId}` : undefined,
+			location: CLINIC_NAME,
+		}),
+	});
+	const attachments = [{ filename: 'appointment.ics', content: Buffer.from(ics), contentType: 'text/calendar; charset=utf-8' }];
+
+	const isPatientEmail = Boolean(appointment.patientEmail) && appointment.patientEmail === emailData.to;
+	if (!isPatientEmail || appointment.calendarFeedUrl) {
+		return { data: emailData.data, attachments };
+	}
+
+	try {
+		const calendarFeedUrl = await getPatientFeedUrl(appointment.patientId || '');
+		return { data: calendarFeedUrl ? { ...emailData.data, calendarFeedUrl } : emailData.data, attachments };
+	} catch (error) {
+		console.error('Failed to create patient calendar feed link:', error);
+		return { data: emailData.data, attachments };
+	}
+}
@@ -0,0 +1,161 @@
+/**
+ * Daily cash book and the front desk's end-of-day settlement.
+ *
+ * The cash book for a day lists every amount the desk took in or paid out: bill payments, wallet
+ * deposits and internship fees, less refunds paid back on credit notes. Wallet debits are left out
+ * because the money was collected when it was deposited. At close the desk counts the drawer, the
+ * settlement records what was expected and counted for each payment mode with the difference, and
+ * the person closing signs it. One settlement is kept per day; admins then review it.
+ */
+
+import { PAYMENT_MODES } from './billPayments';
+
+export const CASH_SETTLEMENTS_COLLECTION = 'cashSettlements'; // Keyed by date, YYYY-MM-DD
+
+export type CashBookSource = 'bill-payment' | 'wallet-deposit' | 'intern-fee' | 'refund';
+
+export const CASH_BOOK_SOURCE_LABELS: Record<CashBookSource, string> = {
+	'bill-payment': 'Bill payment',
+	'wallet-deposit': 'Wallet deposit',
+	'intern-fee': 'Internship fee',
+	refund: 'Refund',
+};
+
+export interface CashBookEntry {
+	id: string;
+	source: CashBookSource;
+	time: string; // ISO timestamp, or the date when only that is known
+	description: string;
+	reference: string;
+	mode: string;
+	amount: number; // Negative for money paid out
+	staffId: string;
+	staffName: string;
+}
+
+export interface CashBookStaffTotal {
+	staffId: string;
+	staffName: string;
+	byMode: Record<string, number>;
+	total: number;
+}
+
+export interface CashBook {
+	entries: CashBookEntry[];
+	byStaff: CashBookStaffTotal[];
+	byMode: Record<string, number>;
+	total: number;
+}
+
+export interface SettlementLine {
+	mode: string;
+	expected: number;
+	counted: number;
+	variance: number; // Counted less expected: negative when short
+}
+
+export type SettlementStatus = 'submitted' | 'reviewed';
+
+export interface CashSettlement {
+	id: string;
+	date: string;
+	lines: SettlementLine[];
+	byStaff: CashBookStaffTotal[];
+	expectedTotal: number;
+	countedTotal: number;
+	variance: number;
+	note: string | null;
+	signedBy: string | null; // uid
+	signedByName: string;
+	signedAt: string;
+	status: SettlementStatus;
+	reviewedBy: string | null;
+	reviewedAt: string | null;
+	reviewNote: string | null;
+}
+
+function roundCurrency(value: number): number {
+	return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+/**
+ * Payment modes as the cash book shows them. Internship fees were recorded as 'Card/UPI'.
+ */
+export function normalizeCashBookMode(mode: unknown): string {
+	const value = String(mode || '').trim();
+	if (!value) return 'Cash';
+	if (value.toLowerCase() === 'card/upi' || value.toLowerCase() === 'upi') return 'UPI/Card';
+	return value;
+}
+
+export function buildCashBook(entries: CashBookEntry[]): CashBook {
+	const staff = new Map<string, CashBookStaffTotal>();
+	const byMode: Record<string, number> = {};
+
+	entries.forEach(entry => {
+		const key = entry.staffId || entry.staffName || 'unknown';
+		const totals = staff.get(key) ?? { staffId: entry.staffId, staffName: entry.staffName || 'Unknown', byMode: {}, total: 0 };
+		totals.byMode[entry.mode] = roundCurrency((totals.byMode[entry.mode] ?? 0) + entry.amount);
+		totals.total = roundCurrency(totals.total + entry.amount);
+		staff.set(key, totals);
+		byMode[entry.mode] = roundCurrency((byMode[entry.mode] ?? 0) + entry.amount);
+	});
+
+	return {
+		entries: [...entries].sort((a, b) => a.time.localeCompare(b.time)),
+		byStaff: Array.from(staff.values()).sort((a, b) => a.staffName.localeCompare(b.staffName)),
+		byMode,
+		total: roundCurrency(entries.reduce((sum, entry) => sum + entry.amount, 0)),
+	};
+}
+
+/**
+ * Modes to count at close: the desk's payment modes plus any other mode money came in by that day
+ */
+export function getSettlementModes(cashBook: CashBook): string[] {
+	const modes: string[] = [...PAYMENT_MODES];
+	Object.keys(cashBook.byMode).forEach(mode => {
+		if (!modes.includes(mode)) modes.push(mode);
+	});
+	return modes;
+}
+
+export function buildSettlementLines(cashBook: CashBook, counted: Record<string, number>): SettlementLine[] {
+	return getSettlementModes(cashBook).map(mode => {
+		const expected = cashBook.byMode[mode] ?? 0;
+		const countedAmount = roundCurrency(counted[mode] ?? expected);
+		return { mode, expected, counted: countedAmount, variance: roundCurrency(countedAmount - expected) };
+	});
+}
+
+export function parseCashSettlement(id: string, data: Record<string, unknown>): CashSettlement {
+	const lines = Array.isArray(data.lines) ? (data.lines as Record<string, unknown>[]) : [];
+	const byStaff = Array.isArray(data.byStaff) ? (data.byStaff as Record<string, unknown>[]) : [];
+	return {
+		id,
+		date: String(data.date || id),
+		lines: lines.map(line => ({
+			mode: String(line.mode || ''),
+			expected: Number(line.expected) || 0,
+			counted: Number(line.counted) || 0,
+			variance: Number(line.variance) || 0,
+		})),
+		byStaff: byStaff.map(row => ({
+			staffId: String(row.staffId || ''),
+			staffName: String(row.staffName || ''),
+			byMode: (row.byMode as Record<string, number>) ?? {},
+			total: Number(row.total) || 0,
+		})),
+		expectedTotal: Number(data.expectedTotal) || 0,
+		countedTotal: Number(data.countedTotal) || 0,
+		variance: Number(data.variance) || 0,
+		note: data.note ? String(data.note) : null,
+		signedBy: data.signedBy ? String(data.signedBy) : null,
+		signedByName: String(data.signedByName || ''),
+		signedAt: String(data.signedAt || ''),
+		status: data.status === 'reviewed' ? 'reviewed' : 'submitted',
+		reviewedBy: data.reviewedBy ? String(data.reviewedBy) : null,
+		reviewedAt: data.reviewedAt ? String(data.reviewedAt) : null,
+		reviewNote: data.reviewNote ? String(data.reviewNote) : null,
+	};
+}
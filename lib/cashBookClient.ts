@@ -0,0 +1,147 @@
+import { collection, doc, getDocs, query, runTransaction, updateDoc, where } from 'firebase/firestore';
+
+import { db } from './firebase';
+import { BILL_PAYMENTS_COLLECTION } from './billPayments';
+import { CREDIT_NOTES_COLLECTION } from './creditNotes';
+import { WALLET_PAYMENT_MODE, WALLET_TRANSACTIONS_COLLECTION } from './wallet';
+import {
+	CASH_SETTLEMENTS_COLLECTION,
+	buildCashBook,
+	buildSettlementLines,
+	normalizeCashBookMode,
+	type CashBook,
+	type CashBookEntry,
+	type CashSettlement,
+} from './cashBook';
+
+// ISO timestamps recorded on `date`
+function onDay(field: string, date: string) {
+	return [where(field, '>=', date), where(field, '<=', `${date}\uf8ff`)];
+}
+
+/**
+ * Everything the desk took in or paid out on a day
+ */
+export async function fetchCashBook(date: string): Promise<CashBook> {
+	const [paymentsSnapshot, walletSnapshot, expensesSnapshot, creditNotesSnapshot] = await Promise.all([
+		getDocs(query(collection(db, BILL_PAYMENTS_COLLECTION), ...onDay('createdAt', date))),
+		getDocs(query(collection(db, WALLET_TRANSACTIONS_COLLECTION), ...onDay('createdAt', date))),
+		getDocs(query(collection(db, 'expenses'), where('date', '==', date))),
+		getDocs(query(collection(db, CREDIT_NOTES_COLLECTION), ...onDay('issuedAt', date))),
+	]);
+
+	const entries: CashBookEntry[] = [];
+	paymentsSnapshot.docs.forEach(paymentDoc => {
+		const data = paymentDoc.data();
+		// Paid from a deposit already counted on the day it was made
+		if (data.mode === WALLET_PAYMENT_MODE) return;
+		entries.push({
+			id: paymentDoc.id,
+			source: 'bill-payment',
+			time: String(data.createdAt || date),
+			description: `${data.patient || 'Patient'} - ${data.billingId || 'bill'}`,
+			reference: data.reference ? String(data.reference) : '',
+			mode: normalizeCashBookMode(data.mode),
+			amount: Number(data.amount || 0),
+			staffId: data.collectedBy ? String(data.collectedBy) : '',
+			staffName: data.collectedByName ? String(data.collectedByName) : '',
+		});
+	});
+	walletSnapshot.docs.forEach(transactionDoc => {
+		const data = transactionDoc.data();
+		if (data.type !== 'deposit') return;
+		entries.push({
+			id: transactionDoc.id,
+			source: 'wallet-deposit',
+			time: String(data.createdAt || date),
+			description: `${data.patient || 'Patient'} - wallet deposit`,
+			reference: data.reference ? String(data.reference) : '',
+			mode: normalizeCashBookMode(data.mode),
+			amount: Number(data.amount || 0),
+			staffId: data.createdBy ? String(data.createdBy) : '',
+			staffName: data.createdByName ? String(data.createdByName) : '',
+		});
+	});
+	expensesSnapshot.docs.forEach(expenseDoc => {
+		const data = expenseDoc.data();
+		if (data.type !== 'internship_payment') return;
+		entries.push({
+			id: expenseDoc.id,
+			source: 'intern-fee',
+			time: date,
+			description: `${data.internName || 'Intern'} - internship fee`,
+			reference: data.receiptNumber ? String(data.receiptNumber) : '',
+			mode: normalizeCashBookMode(data.paymentMode),
+			amount: Number(data.amount || 0),
+			staffId: data.createdBy ? String(data.createdBy) : '',
+			staffName: data.createdByName ? String(data.createdByName) : '',
+		});
+	});
+	creditNotesSnapshot.docs.forEach(noteDoc => {
+		const data = noteDoc.data();
+		if (!data.refundMode) return;
+		entries.push({
+			id: noteDoc.id,
+			source: 'refund',
+			time: String(data.issuedAt || date),
+			description: `${data.patient || 'Patient'} - refund on ${data.creditNoteNo || 'credit note'}`,
+			reference: data.refundUtr ? String(data.refundUtr) : '',
+			mode: normalizeCashBookMode(data.refundMode),
+			amount: -Number(data.amount || 0),
+			staffId: '',
+			staffName: data.issuedBy ? String(data.issuedBy) : '',
+		});
+	});
+
+	return buildCashBook(entries);
+}
+
+export interface SubmitCashSettlementInput {
+	date: string;
+	cashBook: CashBook;
+	counted: Record<string, number>; // By payment mode; modes left out are taken as counted right
+	note?: string | null;
+	signedBy?: string | null;
+	signedByName: string;
+}
+
+/**
+ * Sign off the day's takings. A day can only be settled once.
+ */
+export async function submitCashSettlement({ date, cashBook, counted, note, signedBy, signedByName }: SubmitCashSettlementInput): Promise<CashSettlement> {
+	const settlementRef = doc(db, CASH_SETTLEMENTS_COLLECTION, date);
+	const lines = buildSettlementLines(cashBook, counted);
+	const sum = (values: number[]) => Math.round(values.reduce((total, value) => total + value, 0) * 100) / 100;
+	const settlement: Omit<CashSettlement, 'id'> = {
+		date,
+		lines,
+		byStaff: cashBook.byStaff,
+		expectedTotal: sum(lines.map(line => line.expected)),
+		countedTotal: sum(lines.map(line => line.counted)),
+		variance: sum(lines.map(line => line.variance)),
+		note: note?.trim() || null,
+		signedBy: signedBy || null,
+		signedByName,
+		signedAt: new Date().toISOString(),
+		status: 'submitted',
+		reviewedBy: null,
+		reviewedAt: null,
+		reviewNote: null,
+	};
+
+	await runTransaction(db, async transaction => {
+		const snapshot = await transaction.get(settlementRef);
+		if (snapshot.exists()) throw new Error(`${date} has already been settled by ${snapshot.data().signedByName || 'someone else'}`);
+		transaction.set(settlementRef, settlement);
+	});
+	return { id: date, ...settlement };
+}
+
+export async function reviewCashSettlement(settlementId: string, reviewedBy: string, reviewNote?: string | null): Promise<void> {
+	await updateDoc(doc(db, CASH_SETTLEMENTS_COLLECTION, settlementId), {
+		status: 'reviewed',
+		reviewedBy,
+		reviewedAt: new Date().toISOString(),
+		reviewNote: reviewNote?.trim() || null,
+	});
+}
@@ -0,0 +1,241 @@
+import { FieldValue, type DocumentData, type Transaction } from 'firebase-admin/firestore';
+
+import { dbAdmin } from './firebaseAdmin';
+import {
+	CREDIT_NOTES_COLLECTION,
+	CREDIT_NOTE_PREFIX,
+	VOIDED_BILL_STATUS,
+	getCreditNoteCounterId,
+	getCreditNoteGst,
+	getCreditedAmount,
+	getNetBillAmount,
+	isBillVoided,
+	type CreditNote,
+	type RefundMode,
+} from './creditNotes';
+import { getNetPaidAmount } from './billPayments';
+import { parseBillGstSnapshot } from './gst';
+import { INVOICE_COUNTERS_COLLECTION, formatInvoiceNumber, getFinancialYear, getInvoiceRegisterId } from './invoiceNumbering';
+
+export interface IssueCreditNoteInput {
+	billingDocId: string;
+	amount: number;
+	reason: string;
+	refund?: { mode: RefundMode; utr?: string | null } | null; // Money paid back to the patient
+	issuedBy?: string | null;
+	now?: Date;
+}
+
+export interface VoidBillInput {
+	billingDocId: string;
+	reason: string;
+	voidedBy?: string | null;
+	now?: Date;
+}
+
+export interface ReversalOk {
+	ok: true;
+	creditNote: CreditNote | null;
+}
+
+export interface ReversalErr {
+	ok: false;
+	status: number;
+	message: string;
+}
+
+/**
+ * Number and write a credit note inside an open transaction, after every read has been made
+ */
+function writeCreditNote(
+	transaction: Transaction,
+	{
+		billingDocId,
+		bill,
+		lastSequence,
+		amount,
+		reason,
+		refund,
+		voidsBill,
+		issuedBy,
+		now,
+	}: {
+		billingDocId: string;
+		bill: DocumentData;
+		lastSequence: number;
+		amount: number;
+		reason: string;
+		refund?: IssueCreditNoteInput['refund'];
+		voidsBill: boolean;
+		issuedBy?: string | null;
+		now: Date;
+	}
+): CreditNote {
+	const financialYear = getFinancialYear(now);
+	const sequence = lastSequence + 1;
+	const id = getInvoiceRegisterId(financialYear, sequence);
+	const creditNote: CreditNote = {
+		id,
+		creditNoteNo: formatInvoiceNumber(CREDIT_NOTE_PREFIX, sequence, financialYear.label),
+		sequence,
+		financialYear: financialYear.label,
+		billingDocId,
+		billingId: String(bill.billingId || ''),
+		invoiceNo: typeof bill.invoiceSequence === 'number' ? String(bill.invoiceNo) : null,
+		patientId: String(bill.patientId || ''),
+		patient: String(bill.patient || ''),
+		amount,
+		reason,
+		refundMode: refund?.mode ?? null,
+		refundUtr: refund?.utr || null,
+		voidsBill,
+		gst: getCreditNoteGst(parseBillGstSnapshot(bill.gst), Number(bill.amount || 0), amount),
+		issuedAt: now.toISOString(),
+		issuedBy: issuedBy || null,
+	};
+
+	transaction.set(dbAdmin.collection(INVOICE_COUNTERS_COLLECTION).doc(getCreditNoteCounterId(financialYear.startYear)), {
+		financialYear: financialYear.label,
+		lastSequence: sequence,
+		updatedAt: FieldValue.serverTimestamp(),
+	}, { merge: true });
+	// create() fails if this sequence was already used, so a credit note number can never be issued twice
+	transaction.create(dbAdmin.collection(CREDIT_NOTES_COLLECTION).doc(id), creditNote);
+
+	return creditNote;
+}
+
+async function readLastCreditNoteSequence(transaction: Transaction, now: Date): Promise<number> {
+	const { startYear } = getFinancialYear(now);
+	const counterSnap = await transaction.get(
+		dbAdmin.collection(INVOICE_COUNTERS_COLLECTION).doc(getCreditNoteCounterId(startYear))
+	);
+	const value = counterSnap.exists ? counterSnap.data()?.lastSequence : 0;
+	return typeof value === 'number' ? value : 0;
+}
+
+/**
+ * Issue a credit note against a bill, recording a refund when money is paid back. Server only.
+ *
+ * The credit note, its number and the bill's running credited/refunded totals are written in one
+ * transaction. A bill can never be credited for more than it is still worth, or refunded for more
+ * than has been paid on it.
+ */
+export async function issueCreditNote({
+	billingDocId,
+	amount,
+	reason,
+	refund,
+	issuedBy,
+	now = new Date(),
+}: IssueCreditNoteInput): Promise<ReversalOk | ReversalErr> {
+	const billRef = dbAdmin.collection('billing').doc(billingDocId);
+
+	return dbAdmin.runTransaction(async transaction => {
+		const billSnap = await transaction.get(billRef);
+		if (!billSnap.exists) return { ok: false, status: 404, message: 'Bill not found' };
+		const bill = billSnap.data()!;
+
+		if (isBillVoided(bill)) {
+			return { ok: false, status: 409, message: 'This bill has been voided' };
+		}
+		const netPaid = getNetPaidAmount(bill);
+		if (refund && amount > netPaid) {
+			return { ok: false, status: 409, message: `Only Rs. ${netPaid.toFixed(2)} has been paid on this bill and not yet refunded` };
+		}
+		const remaining = getNetBillAmount(bill);
+		if (amount > remaining) {
+			return { ok: false, status: 400, message: `Only Rs. ${remaining.toFixed(2)} can still be credited on this bill` };
+		}
+
+		const lastSequence = await readLastCreditNoteSequence(transaction, now);
+		const creditNote = writeCreditNote(transaction, {
+			billingDocId,
+			bill,
+			lastSequence,
+			amount,
+			reason,
+			refund,
+			voidsBill: false,
+			issuedBy,
+			now,
+		});
+		transaction.update(billRef, {
+			creditedAmount: FieldValue.increment(amount),
+			...(refund ? { refundedAmount: FieldValue.increment(amount) } : {}),
+			lastCreditNoteNo: creditNote.creditNoteNo,
+			updatedAt: FieldValue.serverTimestamp(),
+		});
+
+		return { ok: true, creditNote };
+	});
+}
+
+/**
+ * Void a bill, keeping the record for audit instead of deleting it. Server only.
+ *
+ * A bill can be voided once everything paid on it has been refunded.
+ * If an invoice was issued, whatever it is still worth is reversed with a credit note in the same
+ * transaction, so the invoice register and the credit notes always balance.
+ */
+export async function voidBill({
+	billingDocId,
+	reason,
+	voidedBy,
+	now = new Date(),
+}: VoidBillInput): Promise<ReversalOk | ReversalErr> {
+	const billRef = dbAdmin.collection('billing').doc(billingDocId);
+
+	return dbAdmin.runTransaction(async transaction => {
+		const billSnap = await transaction.get(billRef);
+		if (!billSnap.exists) return { ok: false, status: 404, message: 'Bill not found' };
+		const bill = billSnap.data()!;
+
+		if (isBillVoided(bill)) {
+			return { ok: false, status: 409, message: 'This bill has already been voided' };
+		}
+		const netPaid = getNetPaidAmount(bill);
+		if (netPaid > 0) {
+			return { ok: false, status: 409, message: `Refund the Rs. ${netPaid.toFixed(2)} paid on this bill before voiding it` };
+		}
+		const remaining = getNetBillAmount(bill);
+
+		const appointmentSnap = bill.appointmentId
+			? await transaction.get(dbAdmin.collection('appointments').where('appointmentId', '==', bill.appointmentId).limit(1))
+			: null;
+		const needsCreditNote = typeof bill.invoiceSequence === 'number' && remaining > 0;
+		const lastSequence = needsCreditNote ? await readLastCreditNoteSequence(transaction, now) : 0;
+
+		const creditNote = needsCreditNote
+			? writeCreditNote(transaction, {
+				billingDocId,
+				bill,
+				lastSequence,
+				amount: remaining,
+				reason,
+				voidsBill: true,
+				issuedBy: voidedBy,
+				now,
+			})
+			: null;
+		transaction.update(billRef, {
+			status: VOIDED_BILL_STATUS,
+			statusBeforeVoid: bill.status || null,
+			voidReason: reason,
+			voidedAt: now.toISOString(),
+			voidedBy: voidedBy || null,
+			...(creditNote
+				? {
+					creditedAmount: getCreditedAmount(bill) + remaining,
+					lastCreditNoteNo: creditNote.creditNoteNo,
+				}
+				: {}),
+			updatedAt: FieldValue.serverTimestamp(),
+		});
+		if (appointmentSnap && !appointmentSnap.empty) {
+			transaction.update(appointmentSnap.docs[0].ref, { 'billing.status': VOIDED_BILL_STATUS });
+		}
+
+		return { ok: true, creditNote };
+	});
+}
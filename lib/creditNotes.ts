@@ -0,0 +1,133 @@
+/**
+ * Credit notes, refunds and voided bills, shared by the billing screens, revenue reports and the
+ * server-side issuer.
+ *
+ * A paid bill is never edited down: money going back to a patient is recorded as a credit note
+ * against the bill (optionally with the refund's payment mode and UTR), and the bill keeps a running
+ * `creditedAmount`. A bill that should never have been raised is voided instead of deleted, so it
+ * stays on record with who voided it and why. Revenue is always counted net of both.
+ * Credit notes are numbered like invoices, in their own gap-free series per financial year.
+ */
+
+import type { BillGstSnapshot } from './gst';
+
+export const CREDIT_NOTES_COLLECTION = 'creditNotes';
+export const CREDIT_NOTE_PREFIX = 'CN';
+export const VOIDED_BILL_STATUS = 'Voided';
+
+export const REFUND_MODES = ['Cash', 'UPI/Card', 'Bank Transfer'] as const;
+export type RefundMode = (typeof REFUND_MODES)[number];
+
+export interface CreditNoteGst {
+	taxableValue: number;
+	cgstAmount: number;
+	sgstAmount: number;
+	igstAmount: number;
+	totalTax: number;
+}
+
+export interface CreditNote {
+	id: string;
+	creditNoteNo: string;
+	sequence: number;
+	financialYear: string;
+	billingDocId: string;
+	billingId: string;
+	invoiceNo: string | null; // Invoice the note reverses, if one was issued
+	patientId: string;
+	patient: string;
+	amount: number;
+	reason: string;
+	refundMode: RefundMode | null; // Null when the credit is not paid back, e.g. when voiding an unpaid bill
+	refundUtr: string | null;
+	voidsBill: boolean;
+	gst: CreditNoteGst | null; // Share of the invoice's tax reversed by this note
+	issuedAt: string;
+	issuedBy: string | null;
+}
+
+export interface BillReversalState {
+	amount?: number;
+	status?: string;
+	creditedAmount?: number;
+}
+
+function roundCurrency(value: number): number {
+	return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+export function isRefundMode(value: unknown): value is RefundMode {
+	return typeof value === 'string' && (REFUND_MODES as readonly string[]).includes(value);
+}
+
+export function isBillVoided(bill: { status?: string }): boolean {
+	return bill.status === VOIDED_BILL_STATUS;
+}
+
+export function getCreditedAmount(bill: { creditedAmount?: number }): number {
+	return typeof bill.creditedAmount === 'number' && bill.creditedAmount > 0 ? bill.creditedAmount : 0;
+}
+
+/**
+ * What a bill is still worth after credit notes: nothing once voided, never below zero
+ */
+export function getNetBillAmount(bill: BillReversalState): number {
+	if (isBillVoided(bill)) return 0;
+	return Math.max(0, roundCurrency(Number(bill.amount || 0) - getCreditedAmount(bill)));
+}
+
+/**
+ * Net an amount counted from somewhere else (e.g. an appointment's billing) against the bill it was charged on
+ */
+export function netOfReversals(amount: number, bill?: BillReversalState | null): number {
+	if (!bill) return amount;
+	if (isBillVoided(bill)) return 0;
+	return Math.max(0, roundCurrency(amount - getCreditedAmount(bill)));
+}
+
+/**
+ * The invoice's tax scaled down to the credited amount, so the note reverses the same split that was charged
+ */
+export function getCreditNoteGst(gst: BillGstSnapshot | undefined, billAmount: number, creditAmount: number): CreditNoteGst | null {
+	if (!gst || billAmount <= 0) return null;
+	const share = Math.min(1, creditAmount / billAmount);
+	const cgstAmount = roundCurrency(gst.cgstAmount * share);
+	const sgstAmount = roundCurrency(gst.sgstAmount * share);
+	const igstAmount = roundCurrency(gst.igstAmount * share);
+	return {
+		taxableValue: roundCurrency(gst.taxableValue * share),
+		cgstAmount,
+		sgstAmount,
+		igstAmount,
+		totalTax: roundCurrency(cgstAmount + sgstAmount + igstAmount),
+	};
+}
+
+/**
+ * Counter document for credit note numbers, kept beside the invoice counters
+ */
+export function getCreditNoteCounterId(startYear: number): string {
+	return `credit-notes-${startYear}`;
+}
+
+export function parseCreditNote(id: string, data: Record<string, unknown>): CreditNote {
+	return {
+		id,
+		creditNoteNo: String(data.creditNoteNo || ''),
+		sequence: Number(data.sequence || 0),
+		financialYear: String(data.financialYear || ''),
+		billingDocId: String(data.billingDocId || ''),
+		billingId: String(data.billingId || ''),
+		invoiceNo: data.invoiceNo ? String(data.invoiceNo) : null,
+		patientId: String(data.patientId || ''),
+		patient: String(data.patient || ''),
+		amount: Number(data.amount || 0),
+		reason: String(data.reason || ''),
+		refundMode: isRefundMode(data.refundMode) ? data.refundMode : null,
+		refundUtr: data.refundUtr ? String(data.refundUtr) : null,
+		voidsBill: Boolean(data.voidsBill),
+		gst: data.gst && typeof data.gst === 'object' ? (data.gst as CreditNoteGst) : null,
+		issuedAt: String(data.issuedAt || ''),
+		issuedBy: data.issuedBy ? String(data.issuedBy) : null,
+	};
+}
@@ -0,0 +1,46 @@
+import { auth } from './firebase';
+import type { CreditNote, RefundMode } from './creditNotes';
+
+async function postBillingReversal(path: string, body: Record<string, unknown>, fallbackError: string): Promise<CreditNote | null> {
+	const token = await auth.currentUser?.getIdToken();
+	if (!token) {
+		throw new Error('Please sign in again to update bills.');
+	}
+
+	const response = await fetch(path, {
+		method: 'POST',
+		headers: {
+			'Content-Type': 'application/json',
+			'Authorization': `Bearer ${token}`,
+		},
+		body: JSON.stringify(body),
+	});
+	const result = await response.json().catch(() => ({}));
+	if (!response.ok || !result.success) {
+		throw new Error(result.error || fallbackError);
+	}
+	return result.creditNote ?? null;
+}
+
+/**
+ * Issue a credit note against a bill; pass `refund` when the money is paid back to the patient
+ */
+export async function requestCreditNote(body: {
+	billingDocId: string;
+	amount: number;
+	reason: string;
+	refund?: { mode: RefundMode; utr?: string };
+}): Promise<CreditNote> {
+	const creditNote = await postBillingReversal('/api/billing/credit-notes', body, 'Failed to issue credit note');
+	if (!creditNote) {
+		throw new Error('Failed to issue credit note');
+	}
+	return creditNote;
+}
+
+/**
+ * Void a bill (admins only). Resolves to the credit note issued to reverse its invoice, if one was needed.
+ */
+export async function requestVoidBill(body: { billingDocId: string; reason: string }): Promise<CreditNote | null> {
+	return postBillingReversal('/api/billing/void', body, 'Failed to void bill');
+}
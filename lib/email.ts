@@ -26,6 +26,10 @@ export interface AppointmentEmailData {
 	time: string;
 	appointmentId?: string;
 	notes?: string;
+	confirmUrl?: string; // Self-service confirm/cancel link, reminders only
+	duration?: number; // Minutes, for the attached calendar invite
+	serviceType?: string;
+	calendarFeedUrl?: string; // Patient's subscribable calendar of all appointments, added server-side
 }
 
 export interface PatientRegistrationEmailData {
@@ -126,6 +130,9 @@ export function generateEmailBody(template: EmailTemplate, data: Record<string,
 							
 							<p>Please arrive 10 minutes before your scheduled time. If you need to reschedule or cancel, please contact us at least 24 hours in advance.</p>
 							
+							<p>Open the attached invite to add this appointment to your calendar.</p>
+							${appointmentData.calendarFeedUrl ? `<p>To keep all of your appointments in your phone calendar, <a href="${appointmentData.calendarFeedUrl}">subscribe to your appointment calendar</a>.</p>` : ''}
+							
 							<p>We look forward to seeing you!</p>
 							<p>Best regards,<br>The ${clinicName} Team</p>
 						</div>
@@ -171,7 +178,15 @@ export function generateEmailBody(template: EmailTemplate, data: Record<string,
 								</div>
 							</div>
 							
+							${appointmentData.confirmUrl ? `
+							<p>Please let us know whether you can make it:</p>
+							<a href="${appointmentData.confirmUrl}" class="button" style="text-decoration: none; display: inline-block; padding: 12px 24px; background: #0ea5e9; color: white; border-radius: 6px; margin: 10px 0;">
+								Confirm, Cancel or Reschedule
+							</a>
+							<p>Please arrive 10 minutes before your scheduled time.</p>
+							` : `
 							<p>Please arrive 10 minutes before your scheduled time. If you need to reschedule or cancel, please contact us as soon as possible.</p>
+							`}
 							
 							<p>We look forward to seeing you!</p>
 							<p>Best regards,<br>The ${clinicName} Team</p>
@@ -666,9 +681,13 @@ export async function sendEmailNotification(emailData: EmailData): Promise<{ suc
 				return { success: false, error: 'Email service not configured' };
 			}
 
+			// Attach the calendar invite to appointment confirmations
+			const { withAppointmentCalendar } = await import('./calendarFeed');
+			const { data, attachments } = await withAppointmentCalendar(emailData);
+
 			// Generate subject and body
-			const subject = emailData.subject || getEmailSubject(emailData.template, emailData.data);
-			const html = generateEmailBody(emailData.template, emailData.data);
+			const subject = emailData.subject || getEmailSubject(emailData.template, data);
+			const html = generateEmailBody(emailData.template, data);
 
 			// Get sender email from environment or use default
 			const fromEmail = process.env.RESEND_FROM_EMAIL || 'onboarding@resend.dev';
@@ -680,6 +699,7 @@ export async function sendEmailNotification(emailData: EmailData): Promise<{ suc
 				to: emailData.to,
 				subject,
 				html,
+				...(attachments.length > 0 ? { attachments } : {}),
 			});
 
 			if (result.error) {
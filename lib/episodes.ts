@@ -0,0 +1,225 @@
+/**
+ * Episodes of care.
+ *
+ * An episode is one clinical case: a body region and complaint with its own referral, assessment,
+ * diagnosis, goals, sessions, report versions and discharge. A patient can have several episodes,
+ * open or discharged. The assessment fields on the patient document are the working copy of the
+ * patient's current episode (currentEpisodeId), so screens that read them keep showing the case
+ * being treated; every report save is also written to the episode. Opening a new episode clears the
+ * working copy, and switching episodes swaps the selected episode's report into it.
+ */
+
+import type { PatientRecordFull } from './types';
+
+export const EPISODES_COLLECTION = 'episodes';
+
+export type EpisodeStatus = 'open' | 'discharged';
+
+export const EPISODE_BODY_REGIONS = [
+	'Neck',
+	'Shoulder',
+	'Elbow',
+	'Wrist / Hand',
+	'Upper Back',
+	'Lower Back',
+	'Hip',
+	'Knee',
+	'Ankle / Foot',
+	'Multiple',
+	'Other',
+] as const;
+
+/**
+ * Patient document fields that belong to the current episode rather than the patient
+ */
+export const EPISODE_REPORT_FIELDS = [
+	'complaints',
+	'presentHistory',
+	'pastHistory',
+	'history',
+	'med_xray',
+	'med_mri',
+	'med_report',
+	'med_ct',
+	'surgicalHistory',
+	'per_smoking',
+	'per_drinking',
+	'per_alcohol',
+	'per_drugs',
+	'drugsText',
+	'sleepCycle',
+	'hydration',
+	'nutrition',
+	'siteSide',
+	'onset',
+	'duration',
+	'natureOfInjury',
+	'typeOfPain',
+	'vasScale',
+	'aggravatingFactor',
+	'relievingFactor',
+	'rom',
+	'treatmentProvided',
+	'progressNotes',
+	'physioName',
+	'physioId',
+	'dateOfConsultation',
+	'referredBy',
+	'chiefComplaint',
+	'onsetType',
+	'mechanismOfInjury',
+	'painType',
+	'painIntensity',
+	'clinicalDiagnosis',
+	'treatmentPlan',
+	'followUpVisits',
+	'followUpAssessment',
+	'currentPainStatus',
+	'currentRom',
+	'currentStrength',
+	'currentFunctionalAbility',
+	'complianceWithHEP',
+	'recommendations',
+	'physiotherapistRemarks',
+	'built',
+	'posture',
+	'gaitAnalysis',
+	'mobilityAids',
+	'localObservation',
+	'swelling',
+	'muscleWasting',
+	'postureManualNotes',
+	'postureFileName',
+	'postureFileData',
+	'gaitManualNotes',
+	'gaitFileName',
+	'gaitFileData',
+	'tenderness',
+	'warmth',
+	'scar',
+	'crepitus',
+	'odema',
+	'mmt',
+	'specialTest',
+	'differentialDiagnosis',
+	'finalDiagnosis',
+	'shortTermGoals',
+	'longTermGoals',
+	'rehabProtocol',
+	'treatment',
+	'advice',
+	'managementRemarks',
+	'nextFollowUpDate',
+	'nextFollowUpTime',
+	'sessionNumber',
+	'totalSessionsRequired',
+	'remainingSessions',
+	'reportUpdatedBy',
+	'reportUpdatedById',
+	'reportStatus',
+	'reportDraftSince',
+	'reportSignature',
+] as const;
+
+export type EpisodeReportField = (typeof EPISODE_REPORT_FIELDS)[number];
+
+// Session counters follow the patient's package or plan, not a case, so they are kept with the episode
+// for the record but never moved on or off the patient when episodes are opened or switched
+const PATIENT_SESSION_FIELDS = ['sessionNumber', 'totalSessionsRequired', 'remainingSessions'] as const;
+
+/**
+ * The episode fields replaced on the patient document when another episode becomes current
+ */
+export const EPISODE_SWAPPED_FIELDS = EPISODE_REPORT_FIELDS.filter(
+	field => !(PATIENT_SESSION_FIELDS as readonly string[]).includes(field)
+);
+
+export type EpisodeReport = Partial<Record<EpisodeReportField, unknown>>;
+
+export interface Episode {
+	id: string;
+	patientId: string;
+	patientDocId: string;
+	title: string;
+	bodyRegion: string;
+	referredBy: string;
+	referralNotes: string;
+	status: EpisodeStatus;
+	report: EpisodeReport;
+	sessionsCompleted: number;
+	openedAt: string;
+	openedBy: string;
+	dischargedAt: string | null;
+	dischargedBy: string | null;
+	dischargeSummary: string | null;
+	legacy: boolean; // Created from a report saved before episodes existed
+}
+
+/**
+ * The episode fields out of a patient document or report form
+ */
+export function pickEpisodeReport(data: Record<string, unknown>): EpisodeReport {
+	const report: EpisodeReport = {};
+	EPISODE_REPORT_FIELDS.forEach(field => {
+		if (data[field] !== undefined) report[field] = data[field];
+	});
+	return report;
+}
+
+export function hasEpisodeReport(report: EpisodeReport): boolean {
+	return Object.values(report).some(value => {
+		if (value === undefined || value === null || value === '' || value === false) return false;
+		if (Array.isArray(value)) return value.length > 0;
+		if (typeof value === 'object') return Object.keys(value as object).length > 0;
+		return true;
+	});
+}
+
+export function isEpisodeOpen(episode: Pick<Episode, 'status'>): boolean {
+	return episode.status === 'open';
+}
+
+export function getEpisodeLabel(episode: Pick<Episode, 'title' | 'bodyRegion' | 'openedAt' | 'status'>): string {
+	const name = episode.title || episode.bodyRegion || 'Episode';
+	const region = episode.title && episode.bodyRegion ? ` (${episode.bodyRegion})` : '';
+	const opened = episode.openedAt ? ` - ${episode.openedAt.split('T')[0]}` : '';
+	return `${name}${region}${opened}${episode.status === 'discharged' ? ' [discharged]' : ''}`;
+}
+
+/**
+ * Title for an episode made from a report saved before episodes existed
+ */
+export function getLegacyEpisodeTitle(patient: Partial<PatientRecordFull>): string {
+	return patient.finalDiagnosis || patient.chiefComplaint || patient.complaints || patient.complaint || 'Initial episode';
+}
+
+/**
+ * Whether a report version belongs to an episode. Versions saved before episodes existed belong to
+ * the patient's legacy episode.
+ */
+export function isVersionInEpisode(version: { episodeId?: unknown }, episode: Pick<Episode, 'id' | 'legacy'> | null): boolean {
+	if (!episode) return true;
+	if (!version.episodeId) return episode.legacy;
+	return version.episodeId === episode.id;
+}
+
+export function parseEpisode(id: string, data: Record<string, unknown>): Episode {
+	return {
+		id,
+		patientId: String(data.patientId || ''),
+		patientDocId: String(data.patientDocId || ''),
+		title: String(data.title || ''),
+		bodyRegion: String(data.bodyRegion || ''),
+		referredBy: String(data.referredBy || ''),
+		referralNotes: String(data.referralNotes || ''),
+		status: data.status === 'discharged' ? 'discharged' : 'open',
+		report: data.report && typeof data.report === 'object' ? pickEpisodeReport(data.report as Record<string, unknown>) : {},
+		sessionsCompleted: Number(data.sessionsCompleted) || 0,
+		openedAt: String(data.openedAt || ''),
+		openedBy: String(data.openedBy || ''),
+		dischargedAt: data.dischargedAt ? String(data.dischargedAt) : null,
+		dischargedBy: data.dischargedBy ? String(data.dischargedBy) : null,
+		dischargeSummary: data.dischargeSummary ? String(data.dischargeSummary) : null,
+		legacy: Boolean(data.legacy),
+	};
+}
@@ -0,0 +1,173 @@
+import { collection, deleteField, doc, increment, runTransaction, serverTimestamp, updateDoc, type DocumentData, type Transaction } from 'firebase/firestore';
+
+import { db } from './firebase';
+import {
+	EPISODES_COLLECTION,
+	EPISODE_SWAPPED_FIELDS,
+	getLegacyEpisodeTitle,
+	hasEpisodeReport,
+	pickEpisodeReport,
+	type EpisodeReport,
+} from './episodes';
+
+// Episode for a report saved on the patient before episodes existed
+function setLegacyEpisode(transaction: Transaction, patient: DocumentData, patientDocId: string, openedBy: string): string {
+	const episodeRef = doc(collection(db, EPISODES_COLLECTION));
+	transaction.set(episodeRef, {
+		patientId: String(patient.patientId || ''),
+		patientDocId,
+		title: getLegacyEpisodeTitle(patient),
+		bodyRegion: '',
+		referredBy: String(patient.referredBy || ''),
+		referralNotes: '',
+		status: 'open',
+		report: pickEpisodeReport(patient),
+		sessionsCompleted: 0,
+		openedAt: String(patient.registeredAt || new Date().toISOString()),
+		openedBy,
+		legacy: true,
+		createdAt: serverTimestamp(),
+	});
+	return episodeRef.id;
+}
+
+// Keep the outgoing episode's report in step with the working copy before it is replaced. A signed
+// report was already copied to its episode when it was signed.
+function saveWorkingCopy(transaction: Transaction, patient: DocumentData, patientDocId: string, openedBy: string): void {
+	if (patient.currentEpisodeId) {
+		if (patient.reportStatus === 'signed') return;
+		transaction.update(doc(db, EPISODES_COLLECTION, String(patient.currentEpisodeId)), {
+			report: pickEpisodeReport(patient),
+			updatedAt: serverTimestamp(),
+		});
+	} else if (hasEpisodeReport(pickEpisodeReport(patient))) {
+		setLegacyEpisode(transaction, patient, patientDocId, openedBy);
+	}
+}
+
+/**
+ * The patient's current episode, creating it from the report already on the patient when they have
+ * none yet
+ */
+export async function ensureCurrentEpisode(patientDocId: string, openedBy: string): Promise<string> {
+	const patientRef = doc(db, 'patients', patientDocId);
+	return runTransaction(db, async transaction => {
+		const patientSnap = await transaction.get(patientRef);
+		if (!patientSnap.exists()) throw new Error('Patient not found');
+		const patient = patientSnap.data();
+		if (patient.currentEpisodeId) return String(patient.currentEpisodeId);
+
+		const episodeId = setLegacyEpisode(transaction, patient, patientDocId, openedBy);
+		transaction.update(patientRef, { currentEpisodeId: episodeId });
+		return episodeId;
+	});
+}
+
+export interface OpenEpisodeInput {
+	patientDocId: string;
+	title: string;
+	bodyRegion: string;
+	referredBy?: string | null;
+	referralNotes?: string | null;
+	openedBy: string;
+}
+
+/**
+ * Start a new case for a patient. The current case is kept on its episode and the patient's report
+ * fields are cleared for the new one.
+ */
+export async function openEpisode({ patientDocId, title, bodyRegion, referredBy, referralNotes, openedBy }: OpenEpisodeInput): Promise<string> {
+	const patientRef = doc(db, 'patients', patientDocId);
+	return runTransaction(db, async transaction => {
+		const patientSnap = await transaction.get(patientRef);
+		if (!patientSnap.exists()) throw new Error('Patient not found');
+		const patient = patientSnap.data();
+		saveWorkingCopy(transaction, patient, patientDocId, openedBy);
+
+		const now = new Date().toISOString();
+		const report: EpisodeReport = {
+			dateOfConsultation: now.split('T')[0],
+			...(referredBy?.trim() ? { referredBy: referredBy.trim() } : {}),
+		};
+		const episodeRef = doc(collection(db, EPISODES_COLLECTION));
+		transaction.set(episodeRef, {
+			patientId: String(patient.patientId || ''),
+			patientDocId,
+			title: title.trim(),
+			bodyRegion,
+			referredBy: referredBy?.trim() || '',
+			referralNotes: referralNotes?.trim() || '',
+			status: 'open',
+			report,
+			sessionsCompleted: 0,
+			openedAt: now,
+			openedBy,
+			legacy: false,
+			createdAt: serverTimestamp(),
+		});
+
+		const patientUpdates: Record<string, unknown> = { currentEpisodeId: episodeRef.id, updatedAt: serverTimestamp() };
+		EPISODE_SWAPPED_FIELDS.forEach(field => {
+			patientUpdates[field] = report[field] ?? deleteField();
+		});
+		transaction.update(patientRef, patientUpdates);
+		return episodeRef.id;
+	});
+}
+
+/**
+ * Make another of the patient's episodes the one being worked on
+ */
+export async function switchEpisode(patientDocId: string, episodeId: string, switchedBy: string): Promise<void> {
+	const patientRef = doc(db, 'patients', patientDocId);
+	const episodeRef = doc(db, EPISODES_COLLECTION, episodeId);
+	await runTransaction(db, async transaction => {
+		const [patientSnap, episodeSnap] = await Promise.all([transaction.get(patientRef), transaction.get(episodeRef)]);
+		if (!patientSnap.exists()) throw new Error('Patient not found');
+		if (!episodeSnap.exists()) throw new Error('Episode not found');
+		const patient = patientSnap.data();
+		if (patient.currentEpisodeId === episodeId) return;
+		if (episodeSnap.data().patientDocId !== patientDocId) throw new Error('This episode belongs to another patient');
+		saveWorkingCopy(transaction, patient, patientDocId, switchedBy);
+
+		const report = pickEpisodeReport((episodeSnap.data().report as Record<string, unknown>) ?? {});
+		const patientUpdates: Record<string, unknown> = { currentEpisodeId: episodeId, updatedAt: serverTimestamp() };
+		EPISODE_SWAPPED_FIELDS.forEach(field => {
+			patientUpdates[field] = report[field] ?? deleteField();
+		});
+		transaction.update(patientRef, patientUpdates);
+	});
+}
+
+/**
+ * Copy a saved report onto its episode. Only the fields being saved are changed.
+ */
+export async function saveEpisodeReport(episodeId: string, data: Record<string, unknown>, { sessionCompleted = false } = {}): Promise<void> {
+	const report = pickEpisodeReport(data);
+	const updates: Record<string, unknown> = { updatedAt: serverTimestamp() };
+	Object.entries(report).forEach(([field, value]) => {
+		updates[`report.${field}`] = value;
+	});
+	if (sessionCompleted) updates.sessionsCompleted = increment(1);
+	await updateDoc(doc(db, EPISODES_COLLECTION, episodeId), updates);
+}
+
+export async function dischargeEpisode(episodeId: string, dischargeSummary: string, dischargedBy: string): Promise<void> {
+	await updateDoc(doc(db, EPISODES_COLLECTION, episodeId), {
+		status: 'discharged',
+		dischargeSummary: dischargeSummary.trim(),
+		dischargedAt: new Date().toISOString(),
+		dischargedBy,
+		updatedAt: serverTimestamp(),
+	});
+}
+
+export async function reopenEpisode(episodeId: string): Promise<void> {
+	await updateDoc(doc(db, EPISODES_COLLECTION, episodeId), {
+		status: 'open',
+		dischargeSummary: null,
+		dischargedAt: null,
+		dischargedBy: null,
+		updatedAt: serverTimestamp(),
+	});
+}
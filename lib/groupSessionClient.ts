@@ -0,0 +1,296 @@
+import { collection, deleteField, doc, getDocs, query, runTransaction, serverTimestamp, updateDoc, where, type Transaction } from 'firebase/firestore';
+
+import { db } from './firebase';
+import { applyNoShowStatusChange } from './noShowClient';
+import { applySessionStatusChange } from './sessionCompletionClient';
+import {
+	GROUP_SESSIONS_COLLECTION,
+	getAppointmentStatusForAttendance,
+	getGroupAppointmentId,
+	mapGroupSession,
+	type GroupAttendance,
+	type GroupSession,
+	type GroupSessionParticipant,
+} from './groupSessions';
+
+export interface GroupEnrolmentPatient {
+	id: string; // Patient document id
+	patientId: string;
+	name: string;
+	patientType?: string;
+}
+
+export interface GroupAttendanceResult {
+	noShowFeeBilled: boolean;
+}
+
+async function readGroupSession(transaction: Transaction, sessionId: string): Promise<GroupSession> {
+	const snapshot = await transaction.get(doc(db, GROUP_SESSIONS_COLLECTION, sessionId));
+	if (!snapshot.exists()) {
+		throw new Error('This class no longer exists.');
+	}
+	return mapGroupSession(snapshot.id, snapshot.data());
+}
+
+/**
+ * Next package appointment that has not been given a date yet, lowest session number first
+ */
+async function findUnscheduledPackageAppointment(patientId: string): Promise<string | null> {
+	const snapshot = await getDocs(query(collection(db, 'appointments'), where('patientId', '==', patientId)));
+	const candidates = snapshot.docs
+		.filter(docSnap => {
+			const data = docSnap.data();
+			return data.packageBillingId && !data.date && (data.status || 'pending') === 'pending';
+		})
+		.sort((a, b) => (Number(a.data().sessionNumber) || 0) - (Number(b.data().sessionNumber) || 0));
+	return candidates[0]?.id ?? null;
+}
+
+/**
+ * Add a patient to a class and give them their own appointment for it.
+ * A package patient's next unscheduled package appointment is used so the class counts as one of their package sessions.
+ */
+export async function enrolGroupParticipant(session: GroupSession, patient: GroupEnrolmentPatient): Promise<GroupSessionParticipant> {
+	const packageAppointmentDocId = await findUnscheduledPackageAppointment(patient.patientId);
+
+	return runTransaction(db, async transaction => {
+		const current = await readGroupSession(transaction, session.id);
+		if (current.status === 'cancelled') {
+			throw new Error('This class has been cancelled.');
+		}
+		if (current.participants.some(participant => participant.patientId === patient.patientId)) {
+			throw new Error(`${patient.name} is already enrolled in this class.`);
+		}
+		if (current.participants.length >= current.capacity) {
+			throw new Error('This class is full.');
+		}
+
+		const slot = {
+			doctor: current.doctor,
+			staffId: current.staffId || '',
+			date: current.date,
+			time: current.time,
+			duration: current.duration,
+			serviceType: current.serviceType,
+			resourceIds: current.resourceIds,
+			groupSessionId: current.id,
+			groupSessionTitle: current.title,
+		};
+
+		let appointmentDocId: string;
+		let appointmentId: string;
+		let fromPackage = false;
+
+		const packageRef = packageAppointmentDocId ? doc(db, 'appointments', packageAppointmentDocId) : null;
+		const packageSnap = packageRef ? await transaction.get(packageRef) : null;
+		if (packageRef && packageSnap?.exists() && !packageSnap.data().date) {
+			transaction.update(packageRef, slot);
+			appointmentDocId = packageRef.id;
+			appointmentId = String(packageSnap.data().appointmentId || packageRef.id);
+			fromPackage = true;
+		} else {
+			const appointmentRef = doc(collection(db, 'appointments'));
+			appointmentId = getGroupAppointmentId(current.id, patient.patientId);
+			transaction.set(appointmentRef, {
+				...slot,
+				appointmentId,
+				patientId: patient.patientId,
+				patient: patient.name,
+				status: 'pending',
+				notes: null,
+				isConsultation: false,
+				createdAt: serverTimestamp(),
+			});
+			appointmentDocId = appointmentRef.id;
+		}
+
+		const participant: GroupSessionParticipant = {
+			patientId: patient.patientId,
+			patientDocId: patient.id,
+			name: patient.name,
+			...(patient.patientType ? { patientType: patient.patientType } : {}),
+			appointmentDocId,
+			appointmentId,
+			fromPackage,
+			attendance: 'enrolled',
+			enrolledAt: new Date().toISOString(),
+		};
+		transaction.update(doc(db, GROUP_SESSIONS_COLLECTION, current.id), {
+			participants: [...current.participants, participant],
+			updatedAt: serverTimestamp(),
+		});
+		return participant;
+	});
+}
+
+/**
+ * Release a patient's appointment for a class: package appointments go back to unscheduled,
+ * appointments made for the class are cancelled.
+ */
+async function releaseParticipantAppointment(
+	session: GroupSession,
+	participant: GroupSessionParticipant,
+	recordedBy?: string | null
+): Promise<void> {
+	if (participant.attendance === 'absent') {
+		await applyNoShowStatusChange({
+			appointmentDocId: participant.appointmentDocId,
+			appointmentId: participant.appointmentId,
+			patientDocId: participant.patientDocId,
+			patientId: participant.patientId,
+			patientName: participant.name,
+			doctor: session.doctor,
+			date: session.date,
+			previousStatus: 'no-show',
+			nextStatus: participant.fromPackage ? 'pending' : 'cancelled',
+			recordedBy,
+		});
+	}
+
+	const appointmentRef = doc(db, 'appointments', participant.appointmentDocId);
+	if (participant.fromPackage) {
+		await updateDoc(appointmentRef, {
+			date: '',
+			time: '',
+			status: 'pending',
+			resourceIds: deleteField(),
+			groupSessionId: deleteField(),
+			groupSessionTitle: deleteField(),
+		});
+	} else {
+		await updateDoc(appointmentRef, { status: 'cancelled' });
+	}
+}
+
+export async function removeGroupParticipant(
+	session: GroupSession,
+	participant: GroupSessionParticipant,
+	recordedBy?: string | null
+): Promise<void> {
+	if (participant.attendance === 'attended') {
+		throw new Error(`${participant.name} has already attended this class and cannot be removed.`);
+	}
+
+	await releaseParticipantAppointment(session, participant, recordedBy);
+	await runTransaction(db, async transaction => {
+		const current = await readGroupSession(transaction, session.id);
+		transaction.update(doc(db, GROUP_SESSIONS_COLLECTION, current.id), {
+			participants: current.participants.filter(entry => entry.patientId !== participant.patientId),
+			updatedAt: serverTimestamp(),
+		});
+	});
+}
+
+export async function cancelGroupSession(session: GroupSession, recordedBy?: string | null): Promise<void> {
+	if (session.participants.some(participant => participant.attendance === 'attended')) {
+		throw new Error('Attendance has already been recorded for this class, so it cannot be cancelled.');
+	}
+
+	for (const participant of session.participants) {
+		await releaseParticipantAppointment(session, participant, recordedBy);
+	}
+	await updateDoc(doc(db, GROUP_SESSIONS_COLLECTION, session.id), {
+		status: 'cancelled',
+		cancelledBy: recordedBy || null,
+		cancelledAt: new Date().toISOString(),
+		updatedAt: serverTimestamp(),
+	});
+}
+
+/**
+ * Mark one patient's attendance at a class and complete their own appointment to match.
+ * Attending completes the session like any other appointment (see applySessionStatusChange): DYES patients draw on
+ * their allowance, the session is billed and charged to the wallet, and package patients use one package session.
+ * Absence is recorded as a no-show under the clinic's no-show policy.
+ * Attendance cannot be changed once a patient is marked as attended.
+ */
+export async function recordGroupAttendance({
+	session,
+	participant,
+	attendance,
+	recordedBy,
+	recordedByUserId,
+}: {
+	session: GroupSession;
+	participant: GroupSessionParticipant;
+	attendance: GroupAttendance;
+	recordedBy?: string | null;
+	recordedByUserId?: string | null;
+}): Promise<GroupAttendanceResult> {
+	if (participant.attendance === 'attended') {
+		throw new Error(`Attendance for ${participant.name} has already been recorded.`);
+	}
+	if (participant.attendance === attendance) {
+		return { noShowFeeBilled: false };
+	}
+
+	const previousStatus = getAppointmentStatusForAttendance(participant.attendance);
+	const nextStatus = getAppointmentStatusForAttendance(attendance);
+
+	await runTransaction(db, async transaction => {
+		const current = await readGroupSession(transaction, session.id);
+		const stored = current.participants.find(entry => entry.patientId === participant.patientId);
+		if (!stored) {
+			throw new Error(`${participant.name} is no longer enrolled in this class.`);
+		}
+		if (stored.attendance === 'attended') {
+			throw new Error(`Attendance for ${participant.name} has already been recorded.`);
+		}
+
+		transaction.update(doc(db, 'appointments', participant.appointmentDocId), {
+			status: nextStatus,
+			...(nextStatus === 'completed' ? { isExtraTreatment: false } : {}),
+		});
+		transaction.update(doc(db, GROUP_SESSIONS_COLLECTION, current.id), {
+			participants: current.participants.map(entry =>
+				entry.patientId === participant.patientId
+					? {
+							...entry,
+							attendance,
+							attendanceRecordedAt: new Date().toISOString(),
+							attendanceRecordedBy: recordedBy || '',
+						}
+					: entry
+			),
+			updatedAt: serverTimestamp(),
+		});
+	});
+
+	let noShowFeeBilled = false;
+	if (previousStatus === 'no-show' || nextStatus === 'no-show') {
+		try {
+			const noShowResult = await applyNoShowStatusChange({
+				appointmentDocId: participant.appointmentDocId,
+				appointmentId: participant.appointmentId,
+				patientDocId: participant.patientDocId,
+				patientId: participant.patientId,
+				patientName: participant.name,
+				doctor: session.doctor,
+				date: session.date,
+				previousStatus,
+				nextStatus,
+				recordedBy,
+			});
+			noShowFeeBilled = noShowResult.feeBilled;
+		} catch (noShowError) {
+			console.error('Failed to record no-show:', noShowError);
+		}
+	}
+
+	await applySessionStatusChange({
+		patientDocId: participant.patientDocId,
+		appointmentDocId: participant.appointmentDocId,
+		appointmentId: participant.appointmentId,
+		patientId: participant.patientId,
+		patientName: participant.name,
+		doctor: session.doctor,
+		date: session.date,
+		serviceType: session.serviceType,
+		previousStatus,
+		nextStatus,
+		recordedByUserId,
+		recordedBy,
+	});
+
+	return { noShowFeeBilled };
+}
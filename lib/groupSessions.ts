@@ -0,0 +1,114 @@
+/**
+ * Group and class sessions, such as S&C conditioning classes, where one therapist runs a
+ * timeslot for several patients.
+ *
+ * The class lives in the `groupSessions` collection with its capacity and enrolled patients.
+ * Every enrolled patient also gets their own appointment (tagged with `groupSessionId`) so
+ * calendars, conflict checks, billing and session counts keep working per patient.
+ * Package patients use their next unscheduled package appointment instead of a new one.
+ */
+
+export const GROUP_SESSIONS_COLLECTION = 'groupSessions';
+
+export const DEFAULT_GROUP_CAPACITY = 8;
+export const DEFAULT_GROUP_SERVICE_TYPE = 'sc-session';
+
+export type GroupSessionStatus = 'scheduled' | 'cancelled';
+export type GroupAttendance = 'enrolled' | 'attended' | 'absent';
+
+export interface GroupSessionParticipant {
+	patientId: string;
+	patientDocId: string;
+	name: string;
+	patientType?: string;
+	appointmentDocId: string; // The patient's own appointment for this class
+	appointmentId: string;
+	fromPackage: boolean; // True when a package appointment was used for this class
+	attendance: GroupAttendance;
+	enrolledAt?: string;
+	attendanceRecordedAt?: string;
+	attendanceRecordedBy?: string;
+}
+
+export interface GroupSession {
+	id: string;
+	title: string;
+	serviceType: string;
+	doctor: string;
+	staffId?: string;
+	date: string; // YYYY-MM-DD
+	time: string; // HH:MM
+	duration: number; // Minutes
+	capacity: number;
+	resourceIds: string[];
+	participants: GroupSessionParticipant[];
+	status: GroupSessionStatus;
+	notes?: string;
+	createdBy?: string;
+	createdAt?: string;
+}
+
+export const GROUP_ATTENDANCE_LABELS: Record<GroupAttendance, string> = {
+	enrolled: 'Enrolled',
+	attended: 'Attended',
+	absent: 'Absent',
+};
+
+// Optional fields are left out rather than set to undefined so the list can be written back to Firestore as is
+function mapParticipant(data: Record<string, unknown>): GroupSessionParticipant {
+	return {
+		patientId: data.patientId ? String(data.patientId) : '',
+		patientDocId: data.patientDocId ? String(data.patientDocId) : '',
+		name: data.name ? String(data.name) : '',
+		...(data.patientType ? { patientType: String(data.patientType) } : {}),
+		appointmentDocId: data.appointmentDocId ? String(data.appointmentDocId) : '',
+		appointmentId: data.appointmentId ? String(data.appointmentId) : '',
+		fromPackage: data.fromPackage === true,
+		attendance: (data.attendance as GroupAttendance) || 'enrolled',
+		...(data.enrolledAt ? { enrolledAt: String(data.enrolledAt) } : {}),
+		...(data.attendanceRecordedAt ? { attendanceRecordedAt: String(data.attendanceRecordedAt) } : {}),
+		...(data.attendanceRecordedBy ? { attendanceRecordedBy: String(data.attendanceRecordedBy) } : {}),
+	};
+}
+
+export function mapGroupSession(id: string, data: Record<string, unknown>): GroupSession {
+	return {
+		id,
+		title: data.title ? String(data.title) : 'Group session',
+		serviceType: data.serviceType ? String(data.serviceType) : DEFAULT_GROUP_SERVICE_TYPE,
+		doctor: data.doctor ? String(data.doctor) : '',
+		staffId: data.staffId ? String(data.staffId) : undefined,
+		date: data.date ? String(data.date) : '',
+		time: data.time ? String(data.time) : '',
+		duration: typeof data.duration === 'number' ? data.duration : 0,
+		capacity: typeof data.capacity === 'number' ? data.capacity : DEFAULT_GROUP_CAPACITY,
+		resourceIds: Array.isArray(data.resourceIds) ? data.resourceIds.map(String) : [],
+		participants: Array.isArray(data.participants)
+			? data.participants.map(participant => mapParticipant(participant as Record<string, unknown>))
+			: [],
+		status: data.status === 'cancelled' ? 'cancelled' : 'scheduled',
+		notes: data.notes ? String(data.notes) : undefined,
+		createdBy: data.createdBy ? String(data.createdBy) : undefined,
+		createdAt: data.createdAt ? String(data.createdAt) : undefined,
+	};
+}
+
+export function getOpenSpots(session: Pick<GroupSession, 'capacity' | 'participants'>): number {
+	return Math.max(0, session.capacity - session.participants.length);
+}
+
+/**
+ * Appointment id for a patient's place in a class when no package appointment is used
+ */
+export function getGroupAppointmentId(sessionId: string, patientId: string): string {
+	return `GRP-${sessionId}-${patientId}`;
+}
+
+/**
+ * Status the patient's own appointment takes for each attendance mark
+ */
+export function getAppointmentStatusForAttendance(attendance: GroupAttendance): 'pending' | 'completed' | 'no-show' {
+	if (attendance === 'attended') return 'completed';
+	if (attendance === 'absent') return 'no-show';
+	return 'pending';
+}
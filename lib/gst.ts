@@ -0,0 +1,290 @@
+/**
+ * GST engine shared by every invoice, receipt and billing export.
+ *
+ * The legal entities that bill (with their GSTINs), the SAC code and rate for each service and
+ * whether prices already include tax live in one settings document edited by admins. Tax is
+ * split into CGST + SGST when the place of supply is in the supplier's state, and charged as
+ * IGST when it is in another state.
+ */
+
+export const GST_SETTINGS_DOC_ID = 'gst'; // In the clinicSettings collection
+
+// GST state codes, as used in the first two digits of a GSTIN
+export const GST_STATES: Record<string, string> = {
+	'01': 'Jammu and Kashmir',
+	'02': 'Himachal Pradesh',
+	'03': 'Punjab',
+	'04': 'Chandigarh',
+	'05': 'Uttarakhand',
+	'06': 'Haryana',
+	'07': 'Delhi',
+	'08': 'Rajasthan',
+	'09': 'Uttar Pradesh',
+	'10': 'Bihar',
+	'11': 'Sikkim',
+	'12': 'Arunachal Pradesh',
+	'13': 'Nagaland',
+	'14': 'Manipur',
+	'15': 'Mizoram',
+	'16': 'Tripura',
+	'17': 'Meghalaya',
+	'18': 'Assam',
+	'19': 'West Bengal',
+	'20': 'Jharkhand',
+	'21': 'Odisha',
+	'22': 'Chhattisgarh',
+	'23': 'Madhya Pradesh',
+	'24': 'Gujarat',
+	'26': 'Dadra and Nagar Haveli and Daman and Diu',
+	'27': 'Maharashtra',
+	'29': 'Karnataka',
+	'30': 'Goa',
+	'31': 'Lakshadweep',
+	'32': 'Kerala',
+	'33': 'Tamil Nadu',
+	'34': 'Puducherry',
+	'35': 'Andaman and Nicobar Islands',
+	'36': 'Telangana',
+	'37': 'Andhra Pradesh',
+	'38': 'Ladakh',
+};
+
+export interface GstEntity {
+	id: string;
+	legalName: string;
+	gstin: string;
+	stateCode: string; // Taken from the GSTIN
+	address: string;
+}
+
+export interface GstServiceTax {
+	sacCode: string;
+	rate: number; // Total GST %, split equally into CGST and SGST within a state
+}
+
+export interface GstSettings {
+	entities: GstEntity[];
+	clinicEntityId: string; // Entity on patient invoices and receipts
+	dyesEntityId: string; // Entity on DYES invoices
+	pricesIncludeTax: boolean; // Bill amounts already include GST
+	defaultTax: GstServiceTax; // Services without their own entry
+	dyesTax: GstServiceTax;
+	serviceTaxes: Record<string, GstServiceTax>; // Keyed by service type id
+}
+
+export interface GstBreakdown {
+	taxableValue: number;
+	rate: number;
+	interState: boolean;
+	cgstRate: number;
+	cgstAmount: number;
+	sgstRate: number;
+	sgstAmount: number;
+	igstRate: number;
+	igstAmount: number;
+	totalTax: number;
+	total: number;
+}
+
+/** Stored on a bill when its invoice is generated, so exports repeat the tax that was printed */
+export interface BillGstSnapshot extends GstBreakdown {
+	entityId: string;
+	gstin: string;
+	sacCode: string;
+	placeOfSupply: string; // State code
+}
+
+export const DEFAULT_GST_SETTINGS: GstSettings = {
+	entities: [
+		{
+			id: 'centre-for-sports-science',
+			legalName: 'Centre For Sports And Science',
+			gstin: '07ADZFS3168H1ZC',
+			stateCode: '07',
+			address: 'No.503, 5th Floor Donata Marvel Apartment, Gokula Extension, Mattikere, Bangalore-560054',
+		},
+		{
+			id: 'uas-fit',
+			legalName: 'UAS FIT PVT LTD',
+			gstin: '29AACCU3883A1ZB',
+			stateCode: '29',
+			address: 'NO166A, Shobha Malachite, Jakkur Plantation, Bengaluru-64',
+		},
+	],
+	clinicEntityId: 'centre-for-sports-science',
+	dyesEntityId: 'uas-fit',
+	pricesIncludeTax: false,
+	defaultTax: { sacCode: '9993', rate: 10 },
+	dyesTax: { sacCode: '999294', rate: 18 },
+	serviceTaxes: {},
+};
+
+const GSTIN_PATTERN = /^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+export function isValidGstin(gstin: string): boolean {
+	return GSTIN_PATTERN.test(gstin.trim().toUpperCase());
+}
+
+export function getGstinStateCode(gstin: string): string | null {
+	const code = gstin.trim().slice(0, 2);
+	return GST_STATES[code] ? code : null;
+}
+
+export function getGstStateName(stateCode: string): string {
+	return GST_STATES[stateCode] || stateCode;
+}
+
+function roundCurrency(value: number): number {
+	return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+function normalizeServiceTax(value: unknown, fallback: GstServiceTax): GstServiceTax {
+	const data = (value ?? {}) as Record<string, unknown>;
+	const rate = typeof data.rate === 'number' && Number.isFinite(data.rate) && data.rate >= 0 ? data.rate : fallback.rate;
+	const sacCode = typeof data.sacCode === 'string' && data.sacCode.trim() ? data.sacCode.trim() : fallback.sacCode;
+	return { sacCode, rate };
+}
+
+function normalizeEntity(value: unknown): GstEntity | null {
+	const data = (value ?? {}) as Record<string, unknown>;
+	const id = typeof data.id === 'string' ? data.id.trim() : '';
+	const gstin = typeof data.gstin === 'string' ? data.gstin.trim().toUpperCase() : '';
+	if (!id || !gstin) return null;
+	return {
+		id,
+		legalName: typeof data.legalName === 'string' ? data.legalName.trim() : '',
+		gstin,
+		stateCode: getGstinStateCode(gstin) || (typeof data.stateCode === 'string' ? data.stateCode : ''),
+		address: typeof data.address === 'string' ? data.address.trim() : '',
+	};
+}
+
+export function normalizeGstSettings(data: Record<string, unknown> | null | undefined): GstSettings {
+	if (!data) return DEFAULT_GST_SETTINGS;
+
+	const entities = Array.isArray(data.entities)
+		? data.entities.map(normalizeEntity).filter((entity): entity is GstEntity => entity !== null)
+		: [];
+	const resolvedEntities = entities.length > 0 ? entities : DEFAULT_GST_SETTINGS.entities;
+	const pickEntityId = (value: unknown, fallback: string) =>
+		typeof value === 'string' && resolvedEntities.some(entity => entity.id === value)
+			? value
+			: resolvedEntities.some(entity => entity.id === fallback) ? fallback : resolvedEntities[0].id;
+
+	const defaultTax = normalizeServiceTax(data.defaultTax, DEFAULT_GST_SETTINGS.defaultTax);
+	const serviceTaxes: Record<string, GstServiceTax> = {};
+	if (data.serviceTaxes && typeof data.serviceTaxes === 'object') {
+		Object.entries(data.serviceTaxes as Record<string, unknown>).forEach(([serviceTypeId, value]) => {
+			serviceTaxes[serviceTypeId] = normalizeServiceTax(value, defaultTax);
+		});
+	}
+
+	return {
+		entities: resolvedEntities,
+		clinicEntityId: pickEntityId(data.clinicEntityId, DEFAULT_GST_SETTINGS.clinicEntityId),
+		dyesEntityId: pickEntityId(data.dyesEntityId, DEFAULT_GST_SETTINGS.dyesEntityId),
+		pricesIncludeTax: Boolean(data.pricesIncludeTax),
+		defaultTax,
+		dyesTax: normalizeServiceTax(data.dyesTax, DEFAULT_GST_SETTINGS.dyesTax),
+		serviceTaxes,
+	};
+}
+
+export function getGstEntity(settings: GstSettings, entityId: string): GstEntity {
+	return settings.entities.find(entity => entity.id === entityId) ?? settings.entities[0];
+}
+
+/**
+ * SAC code and rate for a service type, falling back to the clinic default
+ */
+export function getServiceTax(settings: GstSettings, serviceTypeId?: string | null): GstServiceTax {
+	return (serviceTypeId && settings.serviceTaxes[serviceTypeId]) || settings.defaultTax;
+}
+
+/**
+ * Work out the GST on an amount. With `pricesIncludeTax` the amount is the total the customer pays
+ * and the taxable value is backed out of it; otherwise tax is added on top.
+ * Rounding is to the paisa, with any odd paisa of an intra-state split going to SGST so the parts always add up.
+ */
+export function calculateGst({
+	amount,
+	rate,
+	pricesIncludeTax,
+	supplierStateCode,
+	placeOfSupply,
+}: {
+	amount: number;
+	rate: number;
+	pricesIncludeTax: boolean;
+	supplierStateCode: string;
+	placeOfSupply?: string | null; // State code; defaults to the supplier's state
+}): GstBreakdown {
+	const value = Number.isFinite(amount) ? amount : 0;
+	const taxableValue = roundCurrency(pricesIncludeTax ? (value * 100) / (100 + rate) : value);
+	const totalTax = pricesIncludeTax ? roundCurrency(value - taxableValue) : roundCurrency((taxableValue * rate) / 100);
+	const interState = Boolean(placeOfSupply) && placeOfSupply !== supplierStateCode;
+
+	const cgstAmount = interState ? 0 : roundCurrency(totalTax / 2);
+	return {
+		taxableValue,
+		rate,
+		interState,
+		cgstRate: interState ? 0 : rate / 2,
+		cgstAmount,
+		sgstRate: interState ? 0 : rate / 2,
+		sgstAmount: interState ? 0 : roundCurrency(totalTax - cgstAmount),
+		igstRate: interState ? rate : 0,
+		igstAmount: interState ? totalTax : 0,
+		totalTax,
+		total: roundCurrency(taxableValue + totalTax),
+	};
+}
+
+/**
+ * Tax on a patient bill under the current settings, for bills that have no stored invoice snapshot
+ */
+export function calculateBillGst(
+	settings: GstSettings,
+	amount: number,
+	options?: { serviceTypeId?: string | null; placeOfSupply?: string | null }
+): BillGstSnapshot {
+	const entity = getGstEntity(settings, settings.clinicEntityId);
+	const serviceTax = getServiceTax(settings, options?.serviceTypeId);
+	const placeOfSupply = options?.placeOfSupply || entity.stateCode;
+	return {
+		...calculateGst({
+			amount,
+			rate: serviceTax.rate,
+			pricesIncludeTax: settings.pricesIncludeTax,
+			supplierStateCode: entity.stateCode,
+			placeOfSupply,
+		}),
+		entityId: entity.id,
+		gstin: entity.gstin,
+		sacCode: serviceTax.sacCode,
+		placeOfSupply,
+	};
+}
+
+/**
+ * Tax for a bill: the snapshot stored when its invoice was generated, as long as the amount and place
+ * of supply are unchanged, otherwise worked out afresh from the current settings
+ */
+export function resolveBillGst(
+	settings: GstSettings,
+	bill: { amount: number; gst?: BillGstSnapshot },
+	options?: { amount?: number; serviceTypeId?: string | null; placeOfSupply?: string | null }
+): BillGstSnapshot {
+	const amount = options?.amount ?? bill.amount;
+	const snapshot = bill.gst;
+	if (snapshot && amount === bill.amount && (!options?.placeOfSupply || options.placeOfSupply === snapshot.placeOfSupply)) {
+		return snapshot;
+	}
+	return calculateBillGst(settings, amount, options);
+}
+
+export function parseBillGstSnapshot(value: unknown): BillGstSnapshot | undefined {
+	const data = value as Partial<BillGstSnapshot> | null | undefined;
+	if (!data || typeof data.taxableValue !== 'number' || typeof data.total !== 'number') return undefined;
+	return data as BillGstSnapshot;
+}
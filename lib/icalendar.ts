@@ -0,0 +1,148 @@
+/**
+ * RFC 5545 (iCalendar) output for appointment feeds and email attachments.
+ *
+ * Appointment dates and times are clinic-local, so events are written against the
+ * clinic's time zone rather than converted to UTC. Event UIDs come from the appointment id,
+ * so the feed and an emailed invite for the same appointment update one calendar entry.
+ */
+
+import { resolveAppointmentDuration } from './serviceCatalog';
+
+export const CLINIC_TIME_ZONE = 'Asia/Kolkata';
+const PRODUCT_ID = '-//Centre For Sports Science//Appointments//EN';
+const UID_DOMAIN = 'centresportsscience';
+
+export interface CalendarEventAppointment {
+	id: string; // Appointment document id, used when there is no appointmentId
+	appointmentId?: string;
+	patient?: string;
+	doctor?: string;
+	date: string; // YYYY-MM-DD
+	time: string; // HH:MM
+	duration?: number | null;
+	serviceType?: string | null;
+	status?: string;
+	notes?: string | null;
+}
+
+export interface CalendarEventOptions {
+	summary: string;
+	description?: string;
+	location?: string;
+}
+
+// India has no daylight saving, so one STANDARD block describes the zone
+const CLINIC_TIME_ZONE_BLOCK = [
+	'BEGIN:VTIMEZONE',
+	`TZID:${CLINIC_TIME_ZONE}`,
+	'BEGIN:STANDARD',
+	'DTSTART:19700101T000000',
+	'TZOFFSETFROM:+0530',
+	'TZOFFSETTO:+0530',
+	'TZNAME:IST',
+	'END:STANDARD',
+	'END:VTIMEZONE',
+];
+
+/**
+ * Escape TEXT values (RFC 5545 section 3.3.11)
+ */
+function escapeText(value: string): string {
+	return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold content lines longer than 75 octets (RFC 5545 section 3.1)
+ */
+function foldLine(line: string): string {
+	const encoder = new TextEncoder();
+	if (encoder.encode(line).length <= 75) return line;
+
+	const parts: string[] = [];
+	let current = '';
+	let currentBytes = 0;
+	for (const char of line) {
+		const charBytes = encoder.encode(char).length;
+		// Continuation lines start with a space, which counts towards their 75 octets
+		const limit = parts.length === 0 ? 75 : 74;
+		if (currentBytes + charBytes > limit) {
+			parts.push(current);
+			current = '';
+			currentBytes = 0;
+		}
+		current += char;
+		currentBytes += charBytes;
+	}
+	parts.push(current);
+	return parts.join('\r\n ');
+}
+
+function formatLocalDateTime(date: string, totalMinutes: number): string {
+	const start = new Date(`${date}T00:00:00Z`);
+	start.setUTCMinutes(totalMinutes);
+	const pad = (value: number) => String(value).padStart(2, '0');
+	return (
+		`${start.getUTCFullYear()}${pad(start.getUTCMonth() + 1)}${pad(start.getUTCDate())}` +
+		`T${pad(start.getUTCHours())}${pad(start.getUTCMinutes())}00`
+	);
+}
+
+function formatUtcDateTime(value: Date): string {
+	return value.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+export function getCalendarEventUid(appointment: Pick<CalendarEventAppointment, 'id' | 'appointmentId'>): string {
+	return `${appointment.appointmentId || appointment.id}@${UID_DOMAIN}`;
+}
+
+function buildEventLines(appointment: CalendarEventAppointment, options: CalendarEventOptions, now: Date): string[] {
+	const [hours, minutes] = appointment.time.split(':').map(Number);
+	const startMinutes = (hours || 0) * 60 + (minutes || 0);
+	const duration = resolveAppointmentDuration(appointment);
+	const stamp = formatUtcDateTime(now);
+
+	const lines = [
+		'BEGIN:VEVENT',
+		`UID:${getCalendarEventUid(appointment)}`,
+		`DTSTAMP:${stamp}`,
+		`DTSTART;TZID=${CLINIC_TIME_ZONE}:${formatLocalDateTime(appointment.date, startMinutes)}`,
+		`DTEND;TZID=${CLINIC_TIME_ZONE}:${formatLocalDateTime(appointment.date, startMinutes + duration)}`,
+		`SUMMARY:${escapeText(options.summary)}`,
+	];
+	if (options.description) lines.push(`DESCRIPTION:${escapeText(options.description)}`);
+	if (options.location) lines.push(`LOCATION:${escapeText(options.location)}`);
+	lines.push(`STATUS:${appointment.status === 'cancelled' ? 'CANCELLED' : 'CONFIRMED'}`, 'END:VEVENT');
+	return lines;
+}
+
+/**
+ * Build a VCALENDAR document with one event per appointment.
+ * Appointments without a date or time (e.g. unscheduled package sessions) are left out.
+ */
+export function buildAppointmentCalendar({
+	name,
+	appointments,
+	describe,
+	now = new Date(),
+}: {
+	name: string;
+	appointments: CalendarEventAppointment[];
+	describe: (appointment: CalendarEventAppointment) => CalendarEventOptions;
+	now?: Date;
+}): string {
+	const lines = [
+		'BEGIN:VCALENDAR',
+		'VERSION:2.0',
+		`PRODID:${PRODUCT_ID}`,
+		'CALSCALE:GREGORIAN',
+		'METHOD:PUBLISH',
+		`X-WR-CALNAME:${escapeText(name)}`,
+		`X-WR-TIMEZONE:${CLINIC_TIME_ZONE}`,
+		...CLINIC_TIME_ZONE_BLOCK,
+	];
+	appointments
+		.filter(appointment => appointment.date && appointment.time)
+		.forEach(appointment => lines.push(...buildEventLines(appointment, describe(appointment), now)));
+	lines.push('END:VCALENDAR');
+	return lines.map(foldLine).join('\r\n') + '\r\n';
+}
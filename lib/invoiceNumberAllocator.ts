@@ -0,0 +1,116 @@
+import { FieldValue } from 'firebase-admin/firestore';
+
+import { dbAdmin } from './firebaseAdmin';
+import {
+	INVOICE_COUNTERS_COLLECTION,
+	INVOICE_NUMBERING_DOC_ID,
+	INVOICE_REGISTER_COLLECTION,
+	formatInvoiceNumber,
+	getFinancialYear,
+	getInvoiceRegisterId,
+	normalizeInvoiceNumberingSettings,
+	type IssuedInvoiceNumber,
+} from './invoiceNumbering';
+import { CLINIC_SETTINGS_COLLECTION } from './noShowPolicy';
+
+export type InvoiceSource = 'billing' | 'dyes';
+
+export interface IssueInvoiceNumberInput {
+	billingDocId?: string; // Bill to number; required for 'billing'
+	source: InvoiceSource;
+	reference?: string; // For invoices with no bill behind them, e.g. the DYES period covered
+	issuedBy?: string | null;
+	now?: Date;
+}
+
+/**
+ * Issue the next invoice number in the current financial year. Server only.
+ *
+ * The counter, the register entry and the bill are written in one transaction, so a number is
+ * either issued and recorded against its invoice or not issued at all. Asking again for a bill
+ * or DYES period that already has a number returns that number unchanged.
+ * Returns null when the bill does not exist.
+ */
+export async function issueInvoiceNumber({
+	billingDocId,
+	source,
+	reference,
+	issuedBy,
+	now = new Date(),
+}: IssueInvoiceNumberInput): Promise<IssuedInvoiceNumber | null> {
+	const financialYear = getFinancialYear(now);
+	const settingsRef = dbAdmin.collection(CLINIC_SETTINGS_COLLECTION).doc(INVOICE_NUMBERING_DOC_ID);
+	const counterRef = dbAdmin.collection(INVOICE_COUNTERS_COLLECTION).doc(String(financialYear.startYear));
+	const billRef = billingDocId ? dbAdmin.collection('billing').doc(billingDocId) : null;
+
+	return dbAdmin.runTransaction(async transaction => {
+		const billSnap = billRef ? await transaction.get(billRef) : null;
+		if (billRef && !billSnap?.exists) return null;
+		const bill = billSnap?.data();
+		if (bill && typeof bill.invoiceSequence === 'number') {
+			return {
+				invoiceNo: String(bill.invoiceNo),
+				sequence: bill.invoiceSequence,
+				financialYear: String(bill.invoiceFinancialYear || ''),
+			};
+		}
+
+		if (!billRef) {
+			const existing = await transaction.get(
+				dbAdmin
+					.collection(INVOICE_REGISTER_COLLECTION)
+					.where('source', '==', source)
+					.where('reference', '==', reference)
+					.limit(1)
+			);
+			if (!existing.empty) {
+				const issued = existing.docs[0].data();
+				return {
+					invoiceNo: String(issued.invoiceNo),
+					sequence: Number(issued.sequence),
+					financialYear: String(issued.financialYear),
+				};
+			}
+		}
+
+		const settingsSnap = await transaction.get(settingsRef);
+		const counterSnap = await transaction.get(counterRef);
+		const { prefix } = normalizeInvoiceNumberingSettings(settingsSnap.exists ? settingsSnap.data() : null);
+		const lastSequence = counterSnap.exists && typeof counterSnap.data()?.lastSequence === 'number'
+			? counterSnap.data()!.lastSequence
+			: 0;
+		const sequence = lastSequence + 1;
+		const invoiceNo = formatInvoiceNumber(prefix, sequence, financialYear.label);
+		const issuedAt = now.toISOString();
+
+		transaction.set(counterRef, {
+			financialYear: financialYear.label,
+			lastSequence: sequence,
+			updatedAt: FieldValue.serverTimestamp(),
+		}, { merge: true });
+		// create() fails if the register already holds this sequence, so a number can never be issued twice
+		transaction.create(dbAdmin.collection(INVOICE_REGISTER_COLLECTION).doc(getInvoiceRegisterId(financialYear, sequence)), {
+			invoiceNo,
+			sequence,
+			prefix,
+			financialYear: financialYear.label,
+			source,
+			billingDocId: billingDocId || null,
+			reference: reference || null,
+			issuedAt,
+			issuedBy: issuedBy || null,
+		});
+		if (billRef) {
+			transaction.update(billRef, {
+				invoiceNo,
+				invoiceSequence: sequence,
+				invoiceFinancialYear: financialYear.label,
+				invoiceIssuedAt: issuedAt,
+				// Keep any number typed by hand before numbering moved to the server
+				...(bill?.invoiceNo ? { legacyInvoiceNo: bill.invoiceNo } : {}),
+			});
+		}
+
+		return { invoiceNo, sequence, financialYear: financialYear.label };
+	});
+}
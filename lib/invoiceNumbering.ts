@@ -0,0 +1,81 @@
+/**
+ * Invoice numbering shared by the billing screens and the server-side allocator.
+ *
+ * Numbers run 1, 2, 3... within each Indian financial year (April to March) and are only ever
+ * handed out by the allocator in a Firestore transaction that also stamps the bill, so no number
+ * is skipped or issued twice. Once a bill has a number it keeps it, even if it is later voided.
+ * The prefix comes from the `invoiceNumbering` clinic setting; changing it does not restart the count.
+ */
+
+export const INVOICE_NUMBERING_DOC_ID = 'invoiceNumbering'; // In the clinicSettings collection
+export const INVOICE_COUNTERS_COLLECTION = 'invoiceCounters'; // One document per financial year
+export const INVOICE_REGISTER_COLLECTION = 'invoiceRegister'; // One document per issued number
+
+export const DEFAULT_INVOICE_PREFIX = 'SS';
+// Shown in previews until the bill has been issued a number
+export const PENDING_INVOICE_NUMBER = 'Assigned when issued';
+
+const CLINIC_TIME_ZONE = 'Asia/Kolkata';
+const SEQUENCE_DIGITS = 3;
+
+export interface InvoiceNumberingSettings {
+	prefix: string;
+}
+
+export interface FinancialYear {
+	startYear: number; // Calendar year the financial year starts in, e.g. 2025 for April 2025 - March 2026
+	label: string; // e.g. '25-26'
+}
+
+export interface IssuedInvoiceNumber {
+	invoiceNo: string;
+	sequence: number;
+	financialYear: string;
+}
+
+export const DEFAULT_INVOICE_NUMBERING: InvoiceNumberingSettings = {
+	prefix: DEFAULT_INVOICE_PREFIX,
+};
+
+export function normalizeInvoicePrefix(value: unknown): string {
+	const prefix = typeof value === 'string' ? value.trim().toUpperCase().replace(/[^A-Z0-9-]/g, '') : '';
+	return prefix || DEFAULT_INVOICE_PREFIX;
+}
+
+export function normalizeInvoiceNumberingSettings(data: Record<string, unknown> | null | undefined): InvoiceNumberingSettings {
+	return { prefix: normalizeInvoicePrefix(data?.prefix) };
+}
+
+/**
+ * Financial year for a moment in time, judged by the clinic's calendar date
+ */
+export function getFinancialYear(date: Date = new Date()): FinancialYear {
+	const [year, month] = new Intl.DateTimeFormat('en-CA', { timeZone: CLINIC_TIME_ZONE, year: 'numeric', month: '2-digit' })
+		.format(date)
+		.split('-')
+		.map(Number);
+	const startYear = month >= 4 ? year : year - 1;
+	const label = `${String(startYear).slice(-2)}-${String(startYear + 1).slice(-2)}`;
+	return { startYear, label };
+}
+
+/**
+ * e.g. SS-019/25-26
+ */
+export function formatInvoiceNumber(prefix: string, sequence: number, financialYearLabel: string): string {
+	return `${prefix}-${String(sequence).padStart(SEQUENCE_DIGITS, '0')}/${financialYearLabel}`;
+}
+
+/**
+ * Register document id for an issued number, so a sequence can never be written twice in the same year
+ */
+export function getInvoiceRegisterId(financialYear: FinancialYear, sequence: number): string {
+	return `${financialYear.startYear}-${String(sequence).padStart(6, '0')}`;
+}
+
+/**
+ * Bills numbered by the allocator carry their sequence; older bills may only have a hand-typed invoiceNo
+ */
+export function hasIssuedInvoiceNumber(bill: { invoiceSequence?: number | null }): boolean {
+	return typeof bill.invoiceSequence === 'number' && bill.invoiceSequence > 0;
+}
@@ -0,0 +1,28 @@
+import { auth } from './firebase';
+import type { IssuedInvoiceNumber } from './invoiceNumbering';
+
+/**
+ * Ask the server for a bill's invoice number (or a DYES period's), issuing one if it has none yet
+ */
+export async function requestInvoiceNumber(
+	body: { billingDocId: string } | { source: 'dyes'; reference: string }
+): Promise<IssuedInvoiceNumber> {
+	const token = await auth.currentUser?.getIdToken();
+	if (!token) {
+		throw new Error('Please sign in again to issue invoice numbers.');
+	}
+
+	const response = await fetch('/api/billing/invoice-number', {
+		method: 'POST',
+		headers: {
+			'Content-Type': 'application/json',
+			'Authorization': `Bearer ${token}`,
+		},
+		body: JSON.stringify(body),
+	});
+	const result = await response.json().catch(() => ({}));
+	if (!response.ok || !result.invoiceNo) {
+		throw new Error(result.error || 'Failed to issue invoice number');
+	}
+	return { invoiceNo: result.invoiceNo, sequence: result.sequence, financialYear: result.financialYear };
+}
@@ -7,7 +7,9 @@
  * 3. Consolidates them into a single package billing record
  * 4. Deletes the individual session billing records
  * 
- * Run this script once to fix existing data.
+ * Run this script once to fix existing data. Patients enrolled from the package catalogue
+ * (see lib/packages.ts) are billed when they enrol and are left alone, as are patients with session
+ * bills in a closed billing cycle (see lib/billingCycles.ts), which cannot be deleted.
  */
 
 import { collection, query, where, getDocs, doc, updateDoc, deleteDoc, addDoc, serverTimestamp, writeBatch } from 'firebase/firestore';
@@ -25,6 +27,7 @@ interface BillingRecord {
 	doctor?: string;
 	concessionPercent?: number;
 	packageSessions?: number;
+	lockedCycleId?: string;
 }
 
 interface PatientRecord {
@@ -71,6 +74,7 @@ export async function migratePackageBilling(): Promise<{
 			const data = docSnap.data();
 			const hasPackage = (typeof data.packageAmount === 'number' && data.packageAmount > 0) ||
 				(typeof data.totalSessionsRequired === 'number' && data.totalSessionsRequired > 0);
+			if (data.activePackageId) return;
 			
 			if (hasPackage) {
 				patientsWithPackages.push({
@@ -104,8 +108,8 @@ export async function migratePackageBilling(): Promise<{
 					} as BillingRecord))
 					.filter(bill => !bill.packageAmount || bill.packageAmount === 0); // Only individual session bills
 
-				if (individualBills.length === 0) {
-					continue; // No individual bills to consolidate
+				if (individualBills.length === 0 || individualBills.some(bill => bill.lockedCycleId)) {
+					continue; // No individual bills to consolidate, or some are locked in a closed cycle
 				}
 
 				console.log(`Patient ${patient.name} (${patient.patientId}): Found ${individualBills.length} individual billing records`);
@@ -0,0 +1,126 @@
+import { addDoc, collection, deleteField, doc, getDoc, getDocs, query, runTransaction, serverTimestamp, updateDoc, where } from 'firebase/firestore';
+
+import { db } from './firebase';
+import { CLINIC_SETTINGS_COLLECTION, NO_SHOW_POLICY_DOC_ID, normalizeNoShowPolicy, type NoShowPolicy } from './noShowPolicy';
+
+export interface NoShowStatusChangeInput {
+	appointmentDocId: string;
+	appointmentId?: string;
+	patientDocId?: string;
+	patientId: string;
+	patientName: string;
+	doctor: string;
+	date: string;
+	previousStatus: string;
+	nextStatus: string;
+	recordedBy?: string | null;
+	policy?: NoShowPolicy;
+}
+
+export interface NoShowStatusChangeResult {
+	noShowCount: number | null;
+	feeBilled: boolean;
+}
+
+export async function loadNoShowPolicy(): Promise<NoShowPolicy> {
+	const snapshot = await getDoc(doc(db, CLINIC_SETTINGS_COLLECTION, NO_SHOW_POLICY_DOC_ID));
+	return normalizeNoShowPolicy(snapshot.exists() ? snapshot.data() : null);
+}
+
+function getFeeBillingId(input: NoShowStatusChangeInput): string {
+	return `NOSHOW-${input.appointmentId || input.appointmentDocId}`;
+}
+
+async function adjustPatientNoShowCount(patientDocId: string, delta: number): Promise<number | null> {
+	return runTransaction(db, async transaction => {
+		const patientRef = doc(db, 'patients', patientDocId);
+		const snapshot = await transaction.get(patientRef);
+		if (!snapshot.exists()) return null;
+		const current = typeof snapshot.data().noShowCount === 'number' ? snapshot.data().noShowCount : 0;
+		const next = Math.max(0, current + delta);
+		transaction.update(patientRef, { noShowCount: next });
+		return next;
+	});
+}
+
+/**
+ * Keep the patient's no-show count, the appointment's no-show stamp and the no-show fee
+ * in step with a status change. Call after the appointment status itself has been saved.
+ * Changes that neither enter nor leave 'no-show' are ignored.
+ */
+export async function applyNoShowStatusChange(input: NoShowStatusChangeInput): Promise<NoShowStatusChangeResult> {
+	const enteringNoShow = input.nextStatus === 'no-show' && input.previousStatus !== 'no-show';
+	const leavingNoShow = input.previousStatus === 'no-show' && input.nextStatus !== 'no-show';
+	if (!enteringNoShow && !leavingNoShow) {
+		return { noShowCount: null, feeBilled: false };
+	}
+
+	const billingId = getFeeBillingId(input);
+	const existingFees = await getDocs(query(collection(db, 'billing'), where('billingId', '==', billingId)));
+
+	if (leavingNoShow) {
+		// A fee that has not been collected, invoiced or closed into a billing cycle is waived with the no-show.
+		// Only admins may delete bills, so it is zeroed instead; anything else is reversed with a credit note.
+		// This runs first so a rejected write leaves the count and the appointment's stamp untouched.
+		const waivedAt = new Date().toISOString();
+		await Promise.all(
+			existingFees.docs
+				.filter(docSnap => {
+					const fee = docSnap.data();
+					return (
+						fee.status === 'Pending' &&
+						!(Number(fee.amountPaid) > 0) &&
+						typeof fee.invoiceSequence !== 'number' &&
+						!fee.lockedCycleId
+					);
+				})
+				.map(docSnap =>
+					updateDoc(docSnap.ref, {
+						amount: 0,
+						status: 'Completed',
+						noShowFeeWaivedAt: waivedAt,
+						noShowFeeWaivedBy: input.recordedBy || null,
+						updatedAt: serverTimestamp(),
+					})
+				)
+		);
+		await updateDoc(doc(db, 'appointments', input.appointmentDocId), {
+			noShowAt: deleteField(),
+			noShowRecordedBy: deleteField(),
+		});
+		const noShowCount = input.patientDocId ? await adjustPatientNoShowCount(input.patientDocId, -1) : null;
+		return { noShowCount, feeBilled: false };
+	}
+
+	const noShowCount = input.patientDocId ? await adjustPatientNoShowCount(input.patientDocId, 1) : null;
+
+	await updateDoc(doc(db, 'appointments', input.appointmentDocId), {
+		noShowAt: new Date().toISOString(),
+		noShowRecordedBy: input.recordedBy || null,
+	});
+
+	const policy = input.policy ?? (await loadNoShowPolicy());
+	// A fee waived when an earlier no-show was undone does not stop the patient being charged again
+	const alreadyBilled = existingFees.docs.some(docSnap => !docSnap.data().noShowFeeWaivedAt);
+	if (!policy.feeEnabled || policy.feeAmount <= 0 || alreadyBilled) {
+		return { noShowCount, feeBilled: false };
+	}
+
+	await addDoc(collection(db, 'billing'), {
+		billingId,
+		appointmentId: input.appointmentId || input.appointmentDocId,
+		patient: input.patientName || '',
+		patientId: input.patientId,
+		doctor: input.doctor || '',
+		amount: policy.feeAmount,
+		date: input.date || new Date().toISOString().split('T')[0],
+		status: 'Pending',
+		paymentMode: null,
+		utr: null,
+		isNoShowFee: true,
+		createdAt: serverTimestamp(),
+		updatedAt: serverTimestamp(),
+	});
+
+	return { noShowCount, feeBilled: true };
+}
@@ -0,0 +1,85 @@
+/**
+ * No-show policy shared by the Appointments screens, the booking modal and the dashboards.
+ *
+ * The policy lives in a single settings document edited by admins. Each patient document
+ * keeps a running `noShowCount` that is compared against the thresholds below.
+ */
+
+export const CLINIC_SETTINGS_COLLECTION = 'clinicSettings';
+export const NO_SHOW_POLICY_DOC_ID = 'noShowPolicy';
+
+export interface NoShowPolicy {
+	warnAfter: number; // Show a warning when booking a patient with at least this many no-shows (0 = never)
+	requireOverrideAfter: number; // Block booking without a front desk override at this many no-shows (0 = never)
+	feeEnabled: boolean; // Add a no-show fee to billing when an appointment is marked as a no-show
+	feeAmount: number;
+}
+
+export const DEFAULT_NO_SHOW_POLICY: NoShowPolicy = {
+	warnAfter: 2,
+	requireOverrideAfter: 0,
+	feeEnabled: false,
+	feeAmount: 0,
+};
+
+export type NoShowStanding = 'ok' | 'warn' | 'override-required';
+
+export function normalizeNoShowPolicy(data: Record<string, unknown> | undefined | null): NoShowPolicy {
+	const toCount = (value: unknown, fallback: number) =>
+		typeof value === 'number' && Number.isFinite(value) && value >= 0 ? Math.floor(value) : fallback;
+	return {
+		warnAfter: toCount(data?.warnAfter, DEFAULT_NO_SHOW_POLICY.warnAfter),
+		requireOverrideAfter: toCount(data?.requireOverrideAfter, DEFAULT_NO_SHOW_POLICY.requireOverrideAfter),
+		feeEnabled: Boolean(data?.feeEnabled),
+		feeAmount: typeof data?.feeAmount === 'number' && data.feeAmount > 0 ? data.feeAmount : 0,
+	};
+}
+
+/** Stored on an appointment booked for a patient whose no-show count required an override */
+export interface NoShowOverride {
+	by: string;
+	reason: string;
+	at: string;
+	noShowCount: number;
+}
+
+export function getNoShowStanding(noShowCount: number | undefined, policy: NoShowPolicy): NoShowStanding {
+	const count = noShowCount ?? 0;
+	if (policy.requireOverrideAfter > 0 && count >= policy.requireOverrideAfter) return 'override-required';
+	if (policy.warnAfter > 0 && count >= policy.warnAfter) return 'warn';
+	return 'ok';
+}
+
+export interface NoShowRateRow {
+	key: string;
+	noShows: number;
+	attended: number;
+	rate: number; // Percentage of attended + no-show appointments that were no-shows
+}
+
+/**
+ * No-show rate per group, counted over appointments whose outcome is known (completed or no-show).
+ * Cancelled and upcoming appointments are left out so early cancellations don't dilute the rate.
+ */
+export function computeNoShowRates<T extends { status: string }>(
+	appointments: T[],
+	groupBy: (appointment: T) => string
+): NoShowRateRow[] {
+	const groups = new Map<string, { noShows: number; attended: number }>();
+	appointments.forEach(appointment => {
+		if (appointment.status !== 'no-show' && appointment.status !== 'completed') return;
+		const key = groupBy(appointment) || 'Unknown';
+		const group = groups.get(key) ?? { noShows: 0, attended: 0 };
+		if (appointment.status === 'no-show') group.noShows += 1;
+		else group.attended += 1;
+		groups.set(key, group);
+	});
+
+	return Array.from(groups.entries())
+		.map(([key, group]) => ({
+			key,
+			...group,
+			rate: (group.noShows / (group.noShows + group.attended)) * 100,
+		}))
+		.sort((a, b) => b.rate - a.rate || b.noShows - a.noShows || a.key.localeCompare(b.key));
+}
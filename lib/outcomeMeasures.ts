@@ -0,0 +1,453 @@
+/**
+ * Standardised patient-reported outcome measures.
+ *
+ * Each measure lists its items and response options, how it is scored, its minimal clinically
+ * important difference (MCID) and its interpretation bands. Therapists record a measure against a
+ * session and the score is stored as a number, so progress can be charted without parsing free text.
+ * Item wording is abridged for on-screen use; the response scales and scoring follow the published
+ * instruments.
+ */
+
+export const OUTCOME_MEASURE_RESULTS_COLLECTION = 'outcomeMeasureResults';
+
+export type OutcomeMeasureId = 'nprs' | 'odi' | 'ndi' | 'lefs' | 'dash' | 'koos';
+
+export interface OutcomeMeasureOption {
+	value: number;
+	label: string;
+}
+
+export interface OutcomeMeasureItem {
+	id: string;
+	text: string;
+	options: OutcomeMeasureOption[];
+	subscale?: string;
+}
+
+export interface OutcomeMeasureBand {
+	max: number; // Upper bound of the band, inclusive
+	label: string;
+}
+
+export interface OutcomeMeasure {
+	id: OutcomeMeasureId;
+	name: string;
+	shortName: string;
+	region: string;
+	description: string;
+	items: OutcomeMeasureItem[];
+	scoring: 'sum' | 'percent' | 'dash' | 'koos';
+	scoreMax: number; // Scores run from 0
+	unit: string;
+	higherIsBetter: boolean;
+	mcid: number; // In score points
+	bands: OutcomeMeasureBand[]; // Ascending
+	maxMissing: number; // Unanswered items allowed before the measure cannot be scored
+	subscales?: { id: string; name: string }[];
+}
+
+export type OutcomeMeasureAnswers = Record<string, number>;
+
+export interface OutcomeMeasureScore {
+	score: number;
+	subscores: Record<string, number>;
+	band: string;
+	answered: number;
+}
+
+export interface OutcomeMeasureResult {
+	id: string;
+	patientId: string;
+	episodeId: string | null;
+	sessionNumber: number | null;
+	measureId: OutcomeMeasureId;
+	score: number;
+	subscores: Record<string, number>;
+	band: string;
+	answers: OutcomeMeasureAnswers;
+	recordedAt: string;
+	recordedBy: string;
+	recordedById: string;
+}
+
+const options = (labels: string[], start = 0): OutcomeMeasureOption[] => labels.map((label, index) => ({ value: start + index, label }));
+
+const items = (prefix: string, texts: string[], itemOptions: OutcomeMeasureOption[], subscale?: string): OutcomeMeasureItem[] =>
+	texts.map((text, index) => ({ id: `${prefix}${index + 1}`, text, options: itemOptions, ...(subscale ? { subscale } : {}) }));
+
+// Six statements per section, from no problem (0) to the worst (5)
+const section = (id: string, text: string, statements: string[]): OutcomeMeasureItem => ({ id, text, options: options(statements) });
+
+const LEFS_SCALE = options(['Extreme difficulty or unable', 'Quite a bit of difficulty', 'Moderate difficulty', 'A little bit of difficulty', 'No difficulty']);
+const DASH_DIFFICULTY = options(['No difficulty', 'Mild difficulty', 'Moderate difficulty', 'Severe difficulty', 'Unable'], 1);
+const DASH_SEVERITY = options(['None', 'Mild', 'Moderate', 'Severe', 'Extreme'], 1);
+const KOOS_SCALE = options(['None', 'Mild', 'Moderate', 'Severe', 'Extreme']);
+
+export const OUTCOME_MEASURES: OutcomeMeasure[] = [
+	{
+		id: 'nprs',
+		name: 'Numeric Pain Rating Scale',
+		shortName: 'NPRS',
+		region: 'Any',
+		description: 'Average pain over the last 24 hours, from 0 (no pain) to 10 (worst imaginable pain).',
+		items: [{ id: 'pain', text: 'Average pain in the last 24 hours', options: options(['0', '1', '2', '3', '4', '5', '6', '7', '8', '9', '10']) }],
+		scoring: 'sum',
+		scoreMax: 10,
+		unit: '/10',
+		higherIsBetter: false,
+		mcid: 2,
+		bands: [
+			{ max: 0, label: 'No pain' },
+			{ max: 3, label: 'Mild pain' },
+			{ max: 6, label: 'Moderate pain' },
+			{ max: 10, label: 'Severe pain' },
+		],
+		maxMissing: 0,
+	},
+	{
+		id: 'odi',
+		name: 'Oswestry Disability Index',
+		shortName: 'ODI',
+		region: 'Lower Back',
+		description: 'Disability from low back pain across ten areas of daily life, as a percentage.',
+		items: [
+			section('odi1', 'Pain intensity', ['No pain at the moment', 'Very mild pain', 'Moderate pain', 'Fairly severe pain', 'Very severe pain', 'Worst imaginable pain']),
+			section('odi2', 'Personal care', ['Normal, no extra pain', 'Normal but very painful', 'Painful, slow and careful', 'Need some help', 'Need help every day', 'Cannot dress, stay in bed']),
+			section('odi3', 'Lifting', ['Heavy weights without extra pain', 'Heavy weights with extra pain', 'Heavy weights only if well positioned', 'Light to medium weights if well positioned', 'Only very light weights', 'Cannot lift or carry anything']),
+			section('odi4', 'Walking', ['Any distance', 'Not more than 1 mile', 'Not more than 1/2 mile', 'Not more than 100 yards', 'Only with a stick or crutches', 'In bed most of the time']),
+			section('odi5', 'Sitting', ['Any chair, as long as I like', 'Favourite chair, as long as I like', 'Not more than 1 hour', 'Not more than 30 minutes', 'Not more than 10 minutes', 'Cannot sit at all']),
+			section('odi6', 'Standing', ['As long as I want without extra pain', 'As long as I want with extra pain', 'Not more than 1 hour', 'Not more than 30 minutes', 'Not more than 10 minutes', 'Cannot stand at all']),
+			section('odi7', 'Sleeping', ['Never disturbed by pain', 'Occasionally disturbed', 'Less than 6 hours', 'Less than 4 hours', 'Less than 2 hours', 'Cannot sleep at all']),
+			section('odi8', 'Sex life (if applicable)', ['Normal, no extra pain', 'Normal, some extra pain', 'Nearly normal, very painful', 'Severely restricted', 'Nearly absent', 'Prevented by pain']),
+			section('odi9', 'Social life', ['Normal, no extra pain', 'Normal, increases pain', 'Limits energetic interests only', 'Restricted, go out less', 'Restricted to home', 'No social life']),
+			section('odi10', 'Travelling', ['Anywhere without pain', 'Anywhere with extra pain', 'Over 2 hours despite pain', 'Less than 1 hour', 'Short necessary journeys under 30 minutes', 'Only to receive treatment']),
+		],
+		scoring: 'percent',
+		scoreMax: 100,
+		unit: '%',
+		higherIsBetter: false,
+		mcid: 10,
+		bands: [
+			{ max: 20, label: 'Minimal disability' },
+			{ max: 40, label: 'Moderate disability' },
+			{ max: 60, label: 'Severe disability' },
+			{ max: 80, label: 'Crippling back pain' },
+			{ max: 100, label: 'Bed-bound or symptom magnification' },
+		],
+		maxMissing: 1,
+	},
+	{
+		id: 'ndi',
+		name: 'Neck Disability Index',
+		shortName: 'NDI',
+		region: 'Neck',
+		description: 'Disability from neck pain across ten areas of daily life, scored out of 50.',
+		items: [
+			section('ndi1', 'Pain intensity', ['No pain at the moment', 'Very mild pain', 'Moderate pain', 'Fairly severe pain', 'Very severe pain', 'Worst imaginable pain']),
+			section('ndi2', 'Personal care', ['Normal, no extra pain', 'Normal but causes extra pain', 'Painful, slow and careful', 'Need some help', 'Need help every day', 'Cannot dress, stay in bed']),
+			section('ndi3', 'Lifting', ['Heavy weights without extra pain', 'Heavy weights with extra pain', 'Heavy weights only if well positioned', 'Light to medium weights if well positioned', 'Only very light weights', 'Cannot lift or carry anything']),
+			section('ndi4', 'Reading', ['As much as I want, no pain', 'As much as I want, slight pain', 'As much as I want, moderate pain', 'Cannot read as much as I want', 'Hardly read at all', 'Cannot read at all']),
+			section('ndi5', 'Headaches', ['No headaches', 'Slight, infrequent', 'Moderate, infrequent', 'Moderate, frequent', 'Severe, frequent', 'Almost all the time']),
+			section('ndi6', 'Concentration', ['Full, no difficulty', 'Full, slight difficulty', 'Fair degree of difficulty', 'A lot of difficulty', 'A great deal of difficulty', 'Cannot concentrate at all']),
+			section('ndi7', 'Work', ['As much as I want', 'Usual work, no more', 'Most of usual work, no more', 'Cannot do usual work', 'Can hardly do any work', 'Cannot do any work']),
+			section('ndi8', 'Driving', ['Without neck pain', 'As long as I want, slight pain', 'As long as I want, moderate pain', 'Cannot drive as long as I want', 'Can hardly drive', 'Cannot drive at all']),
+			section('ndi9', 'Sleeping', ['No trouble', 'Less than 1 hour lost', '1-2 hours lost', '2-3 hours lost', '3-5 hours lost', '5-7 hours lost']),
+			section('ndi10', 'Recreation', ['All activities, no pain', 'All activities, some pain', 'Most but not all usual activities', 'Only a few usual activities', 'Hardly any activities', 'No recreational activities']),
+		],
+		scoring: 'sum',
+		scoreMax: 50,
+		unit: '/50',
+		higherIsBetter: false,
+		mcid: 7.5,
+		bands: [
+			{ max: 4, label: 'No disability' },
+			{ max: 14, label: 'Mild disability' },
+			{ max: 24, label: 'Moderate disability' },
+			{ max: 34, label: 'Severe disability' },
+			{ max: 50, label: 'Complete disability' },
+		],
+		maxMissing: 1,
+	},
+	{
+		id: 'lefs',
+		name: 'Lower Extremity Functional Scale',
+		shortName: 'LEFS',
+		region: 'Hip / Knee / Ankle / Foot',
+		description: 'Difficulty with twenty everyday and sporting activities because of a lower limb problem, scored out of 80.',
+		items: items(
+			'lefs',
+			[
+				'Usual work, housework or school activities',
+				'Usual hobbies, recreational or sporting activities',
+				'Getting into or out of the bath',
+				'Walking between rooms',
+				'Putting on shoes or socks',
+				'Squatting',
+				'Lifting an object, like a bag of groceries, from the floor',
+				'Light activities around the home',
+				'Heavy activities around the home',
+				'Getting into or out of a car',
+				'Walking 2 blocks',
+				'Walking a mile',
+				'Going up or down 10 stairs (about 1 flight)',
+				'Standing for 1 hour',
+				'Sitting for 1 hour',
+				'Running on even ground',
+				'Running on uneven ground',
+				'Making sharp turns while running fast',
+				'Hopping',
+				'Rolling over in bed',
+			],
+			LEFS_SCALE
+		),
+		scoring: 'sum',
+		scoreMax: 80,
+		unit: '/80',
+		higherIsBetter: true,
+		mcid: 9,
+		bands: [
+			{ max: 20, label: 'Severe limitation' },
+			{ max: 40, label: 'Moderate limitation' },
+			{ max: 60, label: 'Mild limitation' },
+			{ max: 80, label: 'Minimal or no limitation' },
+		],
+		maxMissing: 4,
+	},
+	{
+		id: 'dash',
+		name: 'Disabilities of the Arm, Shoulder and Hand',
+		shortName: 'DASH',
+		region: 'Shoulder / Elbow / Wrist / Hand',
+		description: 'Upper limb function and symptoms over the last week, scored from 0 (no disability) to 100.',
+		items: [
+			...items(
+				'dash',
+				[
+					'Open a tight or new jar',
+					'Write',
+					'Turn a key',
+					'Prepare a meal',
+					'Push open a heavy door',
+					'Place an object on a shelf above your head',
+					'Do heavy household chores',
+					'Garden or do yard work',
+					'Make a bed',
+					'Carry a shopping bag or briefcase',
+					'Carry a heavy object (over 5 kg)',
+					'Change a lightbulb overhead',
+					'Wash or blow dry your hair',
+					'Wash your back',
+					'Put on a pullover sweater',
+					'Use a knife to cut food',
+					'Recreational activities needing little effort',
+					'Recreational activities with force or impact through the arm',
+					'Recreational activities moving the arm freely',
+					'Manage transportation needs',
+					'Sexual activities',
+				],
+				DASH_DIFFICULTY
+			),
+			{ id: 'dash22', text: 'Interference with normal social activities', options: options(['Not at all', 'Slightly', 'Moderately', 'Quite a bit', 'Extremely'], 1) },
+			{ id: 'dash23', text: 'Limited in work or other regular daily activities', options: options(['Not limited at all', 'Slightly limited', 'Moderately limited', 'Very limited', 'Unable'], 1) },
+			...items('dash', ['Arm, shoulder or hand pain', 'Pain during a specific activity', 'Tingling (pins and needles)', 'Weakness', 'Stiffness'], DASH_SEVERITY).map(
+				(item, index) => ({ ...item, id: `dash${24 + index}` })
+			),
+			{ id: 'dash29', text: 'Difficulty sleeping because of pain', options: options(['No difficulty', 'Mild difficulty', 'Moderate difficulty', 'Severe difficulty', 'So much difficulty I cannot sleep'], 1) },
+			{ id: 'dash30', text: 'I feel less capable, confident or useful because of my arm problem', options: options(['Strongly disagree', 'Disagree', 'Neither agree nor disagree', 'Agree', 'Strongly agree'], 1) },
+		],
+		scoring: 'dash',
+		scoreMax: 100,
+		unit: '/100',
+		higherIsBetter: false,
+		mcid: 10.8,
+		bands: [
+			{ max: 20, label: 'No or minimal disability' },
+			{ max: 40, label: 'Mild disability' },
+			{ max: 60, label: 'Moderate disability' },
+			{ max: 80, label: 'Severe disability' },
+			{ max: 100, label: 'Extreme disability' },
+		],
+		maxMissing: 3,
+	},
+	{
+		id: 'koos',
+		name: 'Knee injury and Osteoarthritis Outcome Score',
+		shortName: 'KOOS',
+		region: 'Knee',
+		description: 'Knee symptoms, pain, daily function, sport and quality of life over the last week. Each subscale runs from 0 (extreme problems) to 100 (no problems); the overall score is the KOOS4 (pain, symptoms, sport and quality of life).',
+		items: [
+			...items(
+				'koos-s',
+				[
+					'Swelling',
+					'Grinding, clicking or noise when the knee moves',
+					'Catching or hanging up when moving',
+					'Difficulty straightening the knee fully',
+					'Difficulty bending the knee fully',
+					'Stiffness after first waking in the morning',
+					'Stiffness after sitting, lying or resting later in the day',
+				],
+				KOOS_SCALE,
+				'symptoms'
+			),
+			...items(
+				'koos-p',
+				[
+					'How often the knee is painful',
+					'Pain twisting or pivoting on the knee',
+					'Pain straightening the knee fully',
+					'Pain bending the knee fully',
+					'Pain walking on a flat surface',
+					'Pain going up or down stairs',
+					'Pain at night while in bed',
+					'Pain sitting or lying',
+					'Pain standing upright',
+				],
+				KOOS_SCALE,
+				'pain'
+			),
+			...items(
+				'koos-a',
+				[
+					'Descending stairs',
+					'Ascending stairs',
+					'Rising from sitting',
+					'Standing',
+					'Bending to the floor or picking up an object',
+					'Walking on a flat surface',
+					'Getting in or out of a car',
+					'Going shopping',
+					'Putting on socks or stockings',
+					'Rising from bed',
+					'Taking off socks or stockings',
+					'Lying in bed (turning over, keeping the knee in position)',
+					'Getting in or out of the bath',
+					'Sitting',
+					'Getting on or off the toilet',
+					'Heavy domestic duties',
+					'Light domestic duties',
+				],
+				KOOS_SCALE,
+				'adl'
+			),
+			...items('koos-sp', ['Squatting', 'Running', 'Jumping', 'Twisting or pivoting on the injured knee', 'Kneeling'], KOOS_SCALE, 'sport'),
+			...items(
+				'koos-q',
+				[
+					'How often you are aware of the knee problem',
+					'Lifestyle changed to avoid activities that could damage the knee',
+					'Troubled by lack of confidence in the knee',
+					'Overall difficulty with the knee',
+				],
+				KOOS_SCALE,
+				'qol'
+			),
+		],
+		scoring: 'koos',
+		scoreMax: 100,
+		unit: '/100',
+		higherIsBetter: true,
+		mcid: 8,
+		bands: [
+			{ max: 25, label: 'Extreme problems' },
+			{ max: 50, label: 'Severe problems' },
+			{ max: 75, label: 'Moderate problems' },
+			{ max: 100, label: 'Mild or no problems' },
+		],
+		maxMissing: 8,
+		subscales: [
+			{ id: 'pain', name: 'Pain' },
+			{ id: 'symptoms', name: 'Symptoms' },
+			{ id: 'adl', name: 'Daily Living' },
+			{ id: 'sport', name: 'Sport & Recreation' },
+			{ id: 'qol', name: 'Quality of Life' },
+		],
+	},
+];
+
+const KOOS4_SUBSCALES = ['pain', 'symptoms', 'sport', 'qol'];
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+export function getOutcomeMeasure(measureId: string): OutcomeMeasure | undefined {
+	return OUTCOME_MEASURES.find(measure => measure.id === measureId);
+}
+
+export function getOutcomeBand(measure: OutcomeMeasure, score: number): string {
+	return (measure.bands.find(band => score <= band.max) ?? measure.bands[measure.bands.length - 1]).label;
+}
+
+export function formatOutcomeScore(measure: OutcomeMeasure, score: number): string {
+	return `${score}${measure.unit}`;
+}
+
+/**
+ * Score a completed questionnaire, or null when too many items are unanswered to score it
+ */
+export function scoreOutcomeMeasure(measure: OutcomeMeasure, answers: OutcomeMeasureAnswers): OutcomeMeasureScore | null {
+	const answered = measure.items.filter(item => typeof answers[item.id] === 'number');
+	if (answered.length === 0 || measure.items.length - answered.length > measure.maxMissing) return null;
+
+	const sum = answered.reduce((total, item) => total + answers[item.id], 0);
+	const mean = sum / answered.length;
+	const subscores: Record<string, number> = {};
+	let score: number;
+
+	switch (measure.scoring) {
+		case 'percent':
+			// Highest option is worth 5 per answered item
+			score = (sum / (answered.length * 5)) * 100;
+			break;
+		case 'dash':
+			score = (mean - 1) * 25;
+			break;
+		case 'koos': {
+			// Subscale needs at least half its items; 0 = extreme problems, 100 = none
+			(measure.subscales ?? []).forEach(subscale => {
+				const subscaleItems = measure.items.filter(item => item.subscale === subscale.id);
+				const subscaleAnswers = subscaleItems.filter(item => typeof answers[item.id] === 'number').map(item => answers[item.id]);
+				if (subscaleAnswers.length * 2 < subscaleItems.length) return;
+				const subscaleMean = subscaleAnswers.reduce((total, value) => total + value, 0) / subscaleAnswers.length;
+				subscores[subscale.id] = round(100 - subscaleMean * 25);
+			});
+			if (KOOS4_SUBSCALES.some(id => subscores[id] === undefined)) return null;
+			score = KOOS4_SUBSCALES.reduce((total, id) => total + subscores[id], 0) / KOOS4_SUBSCALES.length;
+			break;
+		}
+		default:
+			// Missing items are prorated from the answered ones
+			score = mean * measure.items.length;
+	}
+
+	score = round(Math.min(measure.scoreMax, Math.max(0, score)));
+	return { score, subscores, band: getOutcomeBand(measure, score), answered: answered.length };
+}
+
+/**
+ * Change between two scores of a measure, signed so that a positive improvement is always better
+ */
+export function getOutcomeChange(measure: OutcomeMeasure, baseline: number, latest: number) {
+	const improvement = round(measure.higherIsBetter ? latest - baseline : baseline - latest);
+	return {
+		change: round(latest - baseline),
+		improvement,
+		status: improvement >= measure.mcid ? 'improved' : improvement <= -measure.mcid ? 'worsened' : 'unchanged',
+	} as const;
+}
+
+export function parseOutcomeMeasureResult(id: string, data: Record<string, unknown>): OutcomeMeasureResult {
+	return {
+		id,
+		patientId: String(data.patientId || ''),
+		episodeId: data.episodeId ? String(data.episodeId) : null,
+		sessionNumber: typeof data.sessionNumber === 'number' ? data.sessionNumber : null,
+		measureId: String(data.measureId || '') as OutcomeMeasureId,
+		score: Number(data.score) || 0,
+		subscores: data.subscores && typeof data.subscores === 'object' ? (data.subscores as Record<string, number>) : {},
+		band: String(data.band || ''),
+		answers: data.answers && typeof data.answers === 'object' ? (data.answers as OutcomeMeasureAnswers) : {},
+		recordedAt: String(data.recordedAt || ''),
+		recordedBy: String(data.recordedBy || 'Unknown'),
+		recordedById: String(data.recordedById || ''),
+	};
+}
@@ -0,0 +1,48 @@
+import { addDoc, collection, serverTimestamp } from 'firebase/firestore';
+
+import { db } from './firebase';
+import { OUTCOME_MEASURE_RESULTS_COLLECTION, scoreOutcomeMeasure, type OutcomeMeasure, type OutcomeMeasureAnswers } from './outcomeMeasures';
+
+export interface RecordOutcomeMeasureInput {
+	patientId: string;
+	episodeId?: string | null;
+	sessionNumber?: number | null;
+	measure: OutcomeMeasure;
+	answers: OutcomeMeasureAnswers;
+	recordedBy: string;
+	recordedById: string;
+}
+
+/**
+ * Score a completed questionnaire and record it against the patient's session
+ */
+export async function recordOutcomeMeasure({
+	patientId,
+	episodeId,
+	sessionNumber,
+	measure,
+	answers,
+	recordedBy,
+	recordedById,
+}: RecordOutcomeMeasureInput): Promise<string> {
+	const result = scoreOutcomeMeasure(measure, answers);
+	if (!result) {
+		throw new Error(`Too many unanswered items to score the ${measure.shortName}`);
+	}
+
+	const resultRef = await addDoc(collection(db, OUTCOME_MEASURE_RESULTS_COLLECTION), {
+		patientId,
+		...(episodeId ? { episodeId } : {}),
+		...(typeof sessionNumber === 'number' ? { sessionNumber } : {}),
+		measureId: measure.id,
+		score: result.score,
+		subscores: result.subscores,
+		band: result.band,
+		answers,
+		recordedAt: new Date().toISOString(),
+		recordedBy,
+		recordedById,
+		createdAt: serverTimestamp(),
+	});
+	return resultRef.id;
+}
@@ -0,0 +1,211 @@
+/**
+ * Package catalogue and the packages patients are enrolled in.
+ *
+ * Admins keep the catalogue of plans in the `packageCatalogue` collection: sessions, price, how long
+ * the package stays valid, the services its sessions can be used for and the largest concession the
+ * desk may give. Enrolling a patient creates a `patientPackages` document that copies the plan's
+ * terms, so later catalogue edits never change what a patient bought. The package's bill and the
+ * patient's `totalSessionsRequired` / `remainingSessions` are derived from that document; each
+ * completed appointment consumes one session until the package is used up or expires, after which it
+ * can be renewed into a new package.
+ */
+
+export const PACKAGE_CATALOGUE_COLLECTION = 'packageCatalogue';
+export const PATIENT_PACKAGES_COLLECTION = 'patientPackages';
+
+export interface PackagePlan {
+	id: string;
+	name: string;
+	sessions: number;
+	price: number;
+	validityDays: number;
+	serviceTypes: string[]; // Service catalogue ids the sessions can be used for; empty means any service
+	maxConcessionPercent: number; // 0 = no concession allowed
+	description?: string;
+	active: boolean;
+}
+
+// 'renewed' packages were replaced by a renewal before they ran out
+export type PatientPackageStatus = 'active' | 'exhausted' | 'expired' | 'renewed';
+
+export interface PatientPackage {
+	id: string;
+	patientId: string;
+	patient: string;
+	planId: string;
+	planName: string;
+	sessionsTotal: number;
+	sessionsUsed: number;
+	consumedAppointmentIds: string[];
+	serviceTypes: string[];
+	price: number;
+	concessionPercent: number;
+	amount: number; // Payable after concession
+	startDate: string; // YYYY-MM-DD
+	expiresOn: string; // YYYY-MM-DD, last day the package can be used
+	status: PatientPackageStatus;
+	billingDocId: string | null;
+	renewedFromId: string | null;
+	renewedToId: string | null;
+	createdAt: string;
+	createdBy: string | null;
+}
+
+// Starting catalogue for the centre, loaded from the admin Billing page
+export const DEFAULT_PACKAGE_PLANS: Array<Omit<PackagePlan, 'id'>> = [
+	{ name: 'Strength & Conditioning - 1 Month (12 Sessions)', sessions: 12, price: 11000, validityDays: 30, serviceTypes: ['sc-session', 'sc-assessment'], maxConcessionPercent: 10, active: true },
+	{ name: 'Strength & Conditioning - 1 Month (16 Sessions + 4 Rehab)', sessions: 20, price: 14600, validityDays: 30, serviceTypes: ['sc-session', 'sc-assessment', 'rehab-session'], maxConcessionPercent: 10, active: true },
+	{ name: 'Strength & Conditioning - 3 Month (36 Sessions)', sessions: 36, price: 30500, validityDays: 90, serviceTypes: ['sc-session', 'sc-assessment'], maxConcessionPercent: 10, active: true },
+	{ name: 'Strength & Conditioning - 3 Month (48 Sessions + Rehab)', sessions: 52, price: 40700, validityDays: 90, serviceTypes: ['sc-session', 'sc-assessment', 'rehab-session'], maxConcessionPercent: 10, active: true },
+	{ name: 'Physiotherapy - 1 Month (12 Sessions)', sessions: 12, price: 9000, validityDays: 30, serviceTypes: [], maxConcessionPercent: 20, active: true },
+	{ name: 'Physiotherapy - 3 Month (36 Sessions)', sessions: 36, price: 27000, validityDays: 90, serviceTypes: [], maxConcessionPercent: 20, active: true },
+];
+
+function roundCurrency(value: number): number {
+	return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+function toCount(value: unknown, fallback: number): number {
+	const count = Number(value);
+	return Number.isFinite(count) && count >= 0 ? Math.floor(count) : fallback;
+}
+
+export function mapPackagePlan(id: string, data: Record<string, unknown>): PackagePlan {
+	return {
+		id,
+		name: data.name ? String(data.name) : 'Unnamed package',
+		sessions: toCount(data.sessions, 1),
+		price: Math.max(0, Number(data.price) || 0),
+		validityDays: toCount(data.validityDays, 30),
+		serviceTypes: Array.isArray(data.serviceTypes) ? data.serviceTypes.map(String) : [],
+		maxConcessionPercent: Math.min(100, Math.max(0, Number(data.maxConcessionPercent) || 0)),
+		description: data.description ? String(data.description) : undefined,
+		active: data.active !== false,
+	};
+}
+
+export function parsePatientPackage(id: string, data: Record<string, unknown>): PatientPackage {
+	const status = data.status;
+	return {
+		id,
+		patientId: String(data.patientId || ''),
+		patient: String(data.patient || ''),
+		planId: String(data.planId || ''),
+		planName: String(data.planName || ''),
+		sessionsTotal: toCount(data.sessionsTotal, 0),
+		sessionsUsed: toCount(data.sessionsUsed, 0),
+		consumedAppointmentIds: Array.isArray(data.consumedAppointmentIds) ? data.consumedAppointmentIds.map(String) : [],
+		serviceTypes: Array.isArray(data.serviceTypes) ? data.serviceTypes.map(String) : [],
+		price: Number(data.price || 0),
+		concessionPercent: Number(data.concessionPercent || 0),
+		amount: Number(data.amount || 0),
+		startDate: String(data.startDate || ''),
+		expiresOn: String(data.expiresOn || ''),
+		status: status === 'exhausted' || status === 'expired' || status === 'renewed' ? status : 'active',
+		billingDocId: data.billingDocId ? String(data.billingDocId) : null,
+		renewedFromId: data.renewedFromId ? String(data.renewedFromId) : null,
+		renewedToId: data.renewedToId ? String(data.renewedToId) : null,
+		createdAt: String(data.createdAt || ''),
+		createdBy: data.createdBy ? String(data.createdBy) : null,
+	};
+}
+
+/**
+ * Price after the concession, which is capped at what the plan allows
+ */
+export function getPackagePayableAmount(plan: Pick<PackagePlan, 'price' | 'maxConcessionPercent'>, concessionPercent: number): number {
+	const concession = Math.min(Math.max(concessionPercent || 0, 0), plan.maxConcessionPercent);
+	return roundCurrency(plan.price * (1 - concession / 100));
+}
+
+/**
+ * Last day a package started on `startDate` can be used, counting the start date as day one
+ */
+export function getPackageExpiry(startDate: string, validityDays: number): string {
+	const date = new Date(`${startDate}T00:00:00`);
+	date.setDate(date.getDate() + Math.max(validityDays, 1) - 1);
+	const month = String(date.getMonth() + 1).padStart(2, '0');
+	const day = String(date.getDate()).padStart(2, '0');
+	return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export function getPackageRemainingSessions(pkg: Pick<PatientPackage, 'sessionsTotal' | 'sessionsUsed'>): number {
+	return Math.max(0, pkg.sessionsTotal - pkg.sessionsUsed);
+}
+
+/**
+ * The package's status as of `today`; a stored 'active' package whose dates have run out reads as expired
+ */
+export function getPatientPackageStatus(pkg: PatientPackage, today: string): PatientPackageStatus {
+	if (pkg.status !== 'active') return pkg.status;
+	if (getPackageRemainingSessions(pkg) === 0) return 'exhausted';
+	if (pkg.expiresOn && today > pkg.expiresOn) return 'expired';
+	return 'active';
+}
+
+/**
+ * Whether an appointment on `date` for `serviceType` can use a session from the package
+ */
+export function canConsumePackageSession(pkg: PatientPackage, date: string, serviceType?: string | null): boolean {
+	if (getPatientPackageStatus(pkg, date) !== 'active') return false;
+	if (pkg.startDate && date < pkg.startDate) return false;
+	return !serviceType || pkg.serviceTypes.length === 0 || pkg.serviceTypes.includes(serviceType);
+}
+
+/**
+ * The package a patient's sessions are currently drawn from: the latest one that has not been renewed
+ */
+export function getCurrentPatientPackage(packages: PatientPackage[]): PatientPackage | null {
+	return (
+		packages
+			.filter(pkg => pkg.status !== 'renewed')
+			.sort((a, b) => b.startDate.localeCompare(a.startDate) || b.createdAt.localeCompare(a.createdAt))[0] ?? null
+	);
+}
+
+/**
+ * Package fields mirrored onto the patient document for the screens that read them from there
+ */
+export function getPatientPackageFields(pkg: PatientPackage) {
+	return {
+		activePackageId: pkg.id,
+		packageName: pkg.planName,
+		packageAmount: pkg.price,
+		concessionPercent: pkg.concessionPercent > 0 ? pkg.concessionPercent : null,
+		totalSessionsRequired: pkg.sessionsTotal,
+		remainingSessions: getPackageRemainingSessions(pkg),
+		packageExpiresOn: pkg.expiresOn,
+	};
+}
+
+// An enrolment as filled in on the booking and package forms
+export interface PackageEnrolmentDraft {
+	planId: string;
+	concessionPercent: string;
+	startDate: string;
+}
+
+/**
+ * Check an enrolment form against the catalogue, returning the plan and terms or an error message to show
+ */
+export function parsePackageEnrolmentDraft(
+	plans: PackagePlan[],
+	draft: PackageEnrolmentDraft
+): { plan: PackagePlan; concessionPercent: number; startDate: string } | { error: string } {
+	const plan = plans.find(option => option.id === draft.planId && option.active);
+	if (!plan) return { error: 'Please select a package.' };
+	const concessionPercent = draft.concessionPercent.trim() ? Number(draft.concessionPercent) : 0;
+	if (!Number.isFinite(concessionPercent) || concessionPercent < 0) {
+		return { error: 'Concession % must be a positive number.' };
+	}
+	if (concessionPercent > plan.maxConcessionPercent) {
+		return {
+			error:
+				plan.maxConcessionPercent > 0
+					? `${plan.name} allows at most ${plan.maxConcessionPercent}% concession.`
+					: `${plan.name} does not allow a concession.`,
+		};
+	}
+	if (!/^\d{4}-\d{2}-\d{2}$/.test(draft.startDate)) return { error: 'Please choose a start date.' };
+	return { plan, concessionPercent, startDate: draft.startDate };
+}
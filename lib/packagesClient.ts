@@ -0,0 +1,178 @@
+import { collection, doc, runTransaction, serverTimestamp, writeBatch } from 'firebase/firestore';
+
+import { db } from './firebase';
+import {
+	PATIENT_PACKAGES_COLLECTION,
+	canConsumePackageSession,
+	getPackageExpiry,
+	getPackagePayableAmount,
+	getPackageRemainingSessions,
+	getPatientPackageFields,
+	parsePatientPackage,
+	type PackagePlan,
+	type PatientPackage,
+} from './packages';
+import { debitWalletForBill } from './walletClient';
+
+export interface EnrolPatientInPackageInput {
+	patientDocId: string;
+	patientId: string;
+	patient: string;
+	plan: PackagePlan;
+	concessionPercent: number;
+	startDate: string; // YYYY-MM-DD
+	doctor?: string | null;
+	paymentDescription?: string | null;
+	renewFromId?: string | null; // The patient's current package, which this one replaces
+	createdBy?: string | null;
+	createdByName?: string | null;
+}
+
+/**
+ * Enrol a patient in a catalogue package: creates the package, its bill and the patient's session
+ * count in one batch, then pays the bill from any wallet deposit. Pass `renewFromId` to replace the
+ * patient's current package.
+ */
+export async function enrolPatientInPackage({
+	patientDocId,
+	patientId,
+	patient,
+	plan,
+	concessionPercent,
+	startDate,
+	doctor,
+	paymentDescription,
+	renewFromId,
+	createdBy,
+	createdByName,
+}: EnrolPatientInPackageInput): Promise<{ patientPackage: PatientPackage; billingDocId: string; billingId: string }> {
+	const concession = Math.min(Math.max(concessionPercent || 0, 0), plan.maxConcessionPercent);
+	const amount = getPackagePayableAmount(plan, concession);
+	const packageRef = doc(collection(db, PATIENT_PACKAGES_COLLECTION));
+	const billingRef = doc(collection(db, 'billing'));
+	const billingId = `PKG-${patientId}-${Date.now()}`;
+
+	const packageData: Omit<PatientPackage, 'id'> = {
+		patientId,
+		patient,
+		planId: plan.id,
+		planName: plan.name,
+		sessionsTotal: plan.sessions,
+		sessionsUsed: 0,
+		consumedAppointmentIds: [],
+		serviceTypes: plan.serviceTypes,
+		price: plan.price,
+		concessionPercent: concession,
+		amount,
+		startDate,
+		expiresOn: getPackageExpiry(startDate, plan.validityDays),
+		status: 'active',
+		billingDocId: billingRef.id,
+		renewedFromId: renewFromId || null,
+		renewedToId: null,
+		createdAt: new Date().toISOString(),
+		createdBy: createdByName || createdBy || null,
+	};
+	const patientPackage: PatientPackage = { id: packageRef.id, ...packageData };
+
+	const batch = writeBatch(db);
+	batch.set(packageRef, packageData);
+	batch.set(billingRef, {
+		billingId,
+		patient,
+		patientId,
+		...(doctor ? { doctor } : {}),
+		amount,
+		packageAmount: plan.price,
+		concessionPercent: concession > 0 ? concession : null,
+		amountPaid: 0,
+		date: startDate,
+		status: 'Pending',
+		paymentMode: null,
+		utr: null,
+		packageSessions: plan.sessions,
+		packageName: plan.name,
+		patientPackageId: packageRef.id,
+		createdAt: serverTimestamp(),
+		updatedAt: serverTimestamp(),
+	});
+	batch.update(doc(db, 'patients', patientDocId), {
+		...getPatientPackageFields(patientPackage),
+		paymentType: concession > 0 ? 'with' : 'without',
+		paymentDescription: paymentDescription?.trim() || null,
+		updatedAt: serverTimestamp(),
+	});
+	if (renewFromId) {
+		batch.update(doc(db, PATIENT_PACKAGES_COLLECTION, renewFromId), { status: 'renewed', renewedToId: packageRef.id });
+	}
+	await batch.commit();
+
+	// Package bills are paid from any advance deposit straight away
+	try {
+		await debitWalletForBill(billingRef.id, { createdBy, createdByName });
+	} catch (walletError) {
+		console.error('Failed to settle package from wallet', walletError);
+	}
+
+	return { patientPackage, billingDocId: billingRef.id, billingId };
+}
+
+interface PackageSessionInput {
+	patientDocId: string;
+	packageId: string;
+	appointmentId: string;
+	date: string;
+	serviceType?: string | null;
+}
+
+/**
+ * Use one of the package's sessions for a completed appointment. Resolves to the sessions left, or
+ * null when the package cannot cover the appointment (used up, expired or a service it does not include).
+ * Completing the same appointment twice only counts once.
+ */
+export async function consumePackageSession({ patientDocId, packageId, appointmentId, date, serviceType }: PackageSessionInput): Promise<number | null> {
+	const packageRef = doc(db, PATIENT_PACKAGES_COLLECTION, packageId);
+
+	return runTransaction(db, async transaction => {
+		const snapshot = await transaction.get(packageRef);
+		if (!snapshot.exists()) return null;
+		const pkg = parsePatientPackage(snapshot.id, snapshot.data());
+		if (pkg.consumedAppointmentIds.includes(appointmentId)) return getPackageRemainingSessions(pkg);
+		if (!canConsumePackageSession(pkg, date, serviceType)) return null;
+
+		const sessionsUsed = pkg.sessionsUsed + 1;
+		const remaining = getPackageRemainingSessions({ ...pkg, sessionsUsed });
+		transaction.update(packageRef, {
+			sessionsUsed,
+			consumedAppointmentIds: [...pkg.consumedAppointmentIds, appointmentId],
+			status: remaining === 0 ? 'exhausted' : pkg.status,
+		});
+		transaction.update(doc(db, 'patients', patientDocId), { remainingSessions: remaining, updatedAt: serverTimestamp() });
+		return remaining;
+	});
+}
+
+/**
+ * Give back the session an appointment used, e.g. when it is moved off completed. Resolves to the
+ * sessions left, or null when the appointment had not used a session from this package.
+ */
+export async function releasePackageSession({ patientDocId, packageId, appointmentId }: Omit<PackageSessionInput, 'date' | 'serviceType'>): Promise<number | null> {
+	const packageRef = doc(db, PATIENT_PACKAGES_COLLECTION, packageId);
+
+	return runTransaction(db, async transaction => {
+		const snapshot = await transaction.get(packageRef);
+		if (!snapshot.exists()) return null;
+		const pkg = parsePatientPackage(snapshot.id, snapshot.data());
+		if (!pkg.consumedAppointmentIds.includes(appointmentId)) return null;
+
+		const sessionsUsed = Math.max(0, pkg.sessionsUsed - 1);
+		const remaining = getPackageRemainingSessions({ ...pkg, sessionsUsed });
+		transaction.update(packageRef, {
+			sessionsUsed,
+			consumedAppointmentIds: pkg.consumedAppointmentIds.filter(id => id !== appointmentId),
+			...(pkg.status === 'exhausted' ? { status: 'active' } : {}),
+		});
+		transaction.update(doc(db, 'patients', patientDocId), { remainingSessions: remaining, updatedAt: serverTimestamp() });
+		return remaining;
+	});
+}
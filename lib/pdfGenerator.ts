@@ -1,5 +1,9 @@
 'use client';
 
+import type { GstEntity } from './gst';
+import type { SponsorInvoice } from './sponsorInvoices';
+import { formatMmtGrade, formatRomValue, hasJointValue, type JointRecords } from './romMmt';
+
 export interface PatientReportData {
 	patientName: string;
 	patientId: string;
@@ -29,8 +33,8 @@ export interface PatientReportData {
 	onset?: string;
 	natureOfInjury?: string;
 	vasScale?: string;
-	rom?: Record<string, any>;
-	mmt?: Record<string, any>;
+	rom?: JointRecords;
+	mmt?: JointRecords;
 	built?: string;
 	posture?: string;
 	postureManualNotes?: string;
@@ -66,6 +70,10 @@ export interface PatientReportData {
 	complianceWithHEP?: string;
 	physioName?: string;
 	patientType?: string;
+	episode?: string; // Episode of care the report belongs to
+	signedBy?: string; // Set once the report has been finalised and signed
+	signedAt?: string;
+	addenda?: Array<{ text: string; addedBy: string; addedAt: string }>;
 }
 
 const HYDRATION_DESCRIPTORS = [
@@ -92,30 +100,27 @@ const getHydrationDescriptor = (value?: string) => {
 	return `${score}/8 - ${emoji}`;
 };
 
-const formatJointData = (records: Record<string, any> = {}) => {
+const formatJointData = (records: JointRecords = {}, format: (value: unknown) => string) => {
 	return Object.entries(records)
 		.map(([joint, entry]) => {
 			if (!entry) return null;
 			if (entry.left || entry.right) {
-				const left = entry.left
-					? Object.entries(entry.left)
-							.filter(([, val]) => val)
-							.map(([motion, val]) => `Left ${motion}: ${val}`)
-							.join(', ')
-					: '';
-				const right = entry.right
-					? Object.entries(entry.right)
-							.filter(([, val]) => val)
-							.map(([motion, val]) => `Right ${motion}: ${val}`)
-							.join(', ')
-					: '';
-				const summary = [left, right].filter(Boolean).join(' | ');
+				const sides = (['left', 'right'] as const).map(side => {
+					const values = Object.entries(entry[side] || {}).filter(([, val]) => hasJointValue(val));
+					const label = side === 'left' ? 'Left' : 'Right';
+					return values.map(([motion, val]) => `${label} ${motion}: ${format(val)}`).join(', ');
+				});
+				const unsided = Object.entries(entry)
+					.filter(([key, val]) => key !== 'left' && key !== 'right' && hasJointValue(val))
+					.map(([motion, val]) => `${motion}: ${format(val)}`)
+					.join(', ');
+				const summary = [unsided, ...sides].filter(Boolean).join(' | ');
 				return summary ? [joint, summary] : null;
 			}
 
 			const summary = Object.entries(entry)
-				.filter(([, val]) => val)
-				.map(([motion, val]) => `${motion}: ${val}`)
+				.filter(([, val]) => hasJointValue(val))
+				.map(([motion, val]) => `${motion}: ${format(val)}`)
 				.join(', ');
 			return summary ? [joint, summary] : null;
 		})
@@ -467,6 +472,7 @@ export async function generatePhysiotherapyReportPDF(
 	// Add remaining patient information
 	patientInfoBody.push(
 		['Patient ID', data.patientId],
+		...(data.episode ? [['Episode of Care', data.episode]] : []),
 		['Referred By / Doctor', data.referredBy || ''],
 		['Age / Gender', `${data.age || ''} / ${data.gender || ''}`],
 		['Date of Consultation', data.dateOfConsultation || ''],
@@ -605,7 +611,7 @@ export async function generatePhysiotherapyReportPDF(
 	}
 
 	if (includeSection('rom')) {
-		const romRows = formatJointData(data.rom);
+		const romRows = formatJointData(data.rom, formatRomValue);
 		if (romRows.length) {
 			autoTable(doc, {
 				startY: y,
@@ -623,7 +629,7 @@ export async function generatePhysiotherapyReportPDF(
 	}
 
 	if (includeSection('mmt')) {
-		const mmtRows = formatJointData(data.mmt);
+		const mmtRows = formatJointData(data.mmt, formatMmtGrade);
 		if (mmtRows.length) {
 			autoTable(doc, {
 				startY: y,
@@ -730,7 +736,33 @@ export async function generatePhysiotherapyReportPDF(
 		doc.text('Physiotherapist Signature:', 12, signatureY);
 		doc.setFont('helvetica', 'normal');
 		doc.text(data.physioName || '', 65, signatureY);
+		doc.setFontSize(8);
+		doc.text(
+			data.signedBy && data.signedAt
+				? `Digitally signed by ${data.signedBy} on ${new Date(data.signedAt).toLocaleString()}`
+				: 'Unsigned draft',
+			12,
+			signatureY + 5
+		);
+		y = signatureY + 10;
 
+		if (data.addenda?.length) {
+			autoTable(doc, {
+				startY: y,
+				theme: 'grid',
+				head: [['ADDENDA', '']],
+				body: data.addenda.map(addendum => [
+					`${new Date(addendum.addedAt).toLocaleString()}\n${addendum.addedBy}`,
+					normalizePdfText(addendum.text),
+				]),
+				headStyles,
+				styles: baseStyles,
+				columnStyles: { 0: { cellWidth: 60 } },
+				margin: { top: y, right: pageMargin, bottom: footerHeight, left: pageMargin },
+				didDrawPage: addFooter,
+			});
+			y = (doc as unknown as { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 3;
+		}
 	}
 
 	// Add footer to all pages that don't have it yet (final pass)
@@ -2157,3 +2189,104 @@ export async function generatePsychologyPDF(
 		throw error;
 	}
 }
+
+export async function generateSponsorInvoicePDF(invoice: SponsorInvoice, issuer: GstEntity): Promise<void> {
+	try {
+		const [{ default: jsPDF }, autoTableModule] = await Promise.all([
+			import('jspdf'),
+			import('jspdf-autotable'),
+		]);
+
+		const autoTable = ((autoTableModule as { default?: unknown }).default || autoTableModule) as (doc: unknown, options: object) => void;
+		const doc = new jsPDF('p', 'mm', 'a4');
+		const getTableEnd = () => (doc as unknown as { lastAutoTable: { finalY: number } }).lastAutoTable.finalY;
+		const pageWidth = 210;
+		const pageMargin = 10;
+		const formatAmount = (value: number) => `Rs. ${value.toFixed(2)}`;
+		let y = 18;
+
+		// Issuer
+		doc.setFontSize(14);
+		doc.setFont('helvetica', 'bold');
+		doc.text(issuer.legalName, pageWidth / 2, y, { align: 'center' });
+		y += 5;
+		doc.setFontSize(9);
+		doc.setFont('helvetica', 'normal');
+		doc.splitTextToSize(issuer.address, pageWidth - pageMargin * 2).forEach((line: string) => {
+			doc.text(line, pageWidth / 2, y, { align: 'center' });
+			y += 4;
+		});
+		if (issuer.gstin) {
+			doc.text(`GSTIN: ${issuer.gstin}`, pageWidth / 2, y, { align: 'center' });
+			y += 4;
+		}
+		y += 3;
+
+		doc.setFontSize(13);
+		doc.setFont('helvetica', 'bold');
+		doc.text('TAX INVOICE', pageWidth / 2, y, { align: 'center' });
+		y += 4;
+
+		autoTable(doc, {
+			startY: y,
+			body: [
+				['Invoice No.', invoice.invoiceNo, 'Invoice Date', invoice.createdAt.split('T')[0]],
+				['Bill To', invoice.organisation, 'Billing Period', `${invoice.periodStart} to ${invoice.periodEnd}`],
+				['SAC Code', invoice.gst?.sacCode || '', 'Sessions', String(invoice.lines.length)],
+			],
+			theme: 'grid',
+			styles: { fontSize: 9, cellPadding: 1.5 },
+			columnStyles: { 0: { fontStyle: 'bold', cellWidth: 30 }, 2: { fontStyle: 'bold', cellWidth: 30 } },
+			margin: { left: pageMargin, right: pageMargin },
+		});
+		y = getTableEnd() + 4;
+
+		autoTable(doc, {
+			startY: y,
+			head: [['#', 'Date', 'Session #', 'Patient', 'Patient ID', 'Bill ID', 'Amount']],
+			body: invoice.lines.map((line, index) => [
+				String(index + 1),
+				line.date,
+				line.sessionNumber === null ? '' : String(line.sessionNumber),
+				line.patient,
+				line.patientId,
+				line.billingId,
+				formatAmount(line.amount),
+			]),
+			theme: 'grid',
+			headStyles: { fillColor: [7, 89, 133], textColor: [255, 255, 255], cellPadding: 1.5 },
+			styles: { fontSize: 8, cellPadding: 1.5 },
+			columnStyles: { 6: { halign: 'right' } },
+			margin: { left: pageMargin, right: pageMargin },
+		});
+		y = getTableEnd() + 4;
+
+		const gst = invoice.gst;
+		const totals: string[][] = [['Taxable Value', formatAmount(gst?.taxableValue ?? invoice.subtotal)]];
+		if (gst?.interState) {
+			totals.push([`IGST @ ${gst.igstRate}%`, formatAmount(gst.igstAmount)]);
+		} else if (gst) {
+			totals.push([`CGST @ ${gst.cgstRate}%`, formatAmount(gst.cgstAmount)]);
+			totals.push([`SGST @ ${gst.sgstRate}%`, formatAmount(gst.sgstAmount)]);
+		}
+		totals.push(['Invoice Total', formatAmount(invoice.total)]);
+		if (invoice.amountReceived > 0) {
+			totals.push(['Received', formatAmount(invoice.amountReceived)]);
+			totals.push(['Balance Due', formatAmount(Math.max(0, invoice.total - invoice.amountReceived))]);
+		}
+
+		autoTable(doc, {
+			startY: y,
+			body: totals,
+			theme: 'plain',
+			styles: { fontSize: 9, cellPadding: 1.2 },
+			columnStyles: { 0: { fontStyle: 'bold', halign: 'right' }, 1: { halign: 'right', cellWidth: 35 } },
+			margin: { left: pageWidth / 2, right: pageMargin },
+		});
+
+		doc.save(`Sponsor_Invoice_${invoice.invoiceNo.replace(/\//g, '-')}.pdf`);
+	} catch (error) {
+		console.error('Error in generateSponsorInvoicePDF:', error);
+		throw error;
+	}
+}
@@ -0,0 +1,82 @@
+/**
+ * Report sign-off.
+ *
+ * A physiotherapy report is a draft until the treating therapist finalises and signs it. Signing
+ * saves the report as a signed report version, which can no longer be changed, and locks the working
+ * copy on the patient. After that only dated addenda can be added to it, until the therapist starts
+ * the report for the next session. Drafts left unsigned for more than 48 hours after the session are
+ * listed for admins.
+ */
+
+import type { PatientRecordFull } from './types';
+
+export const REPORT_ADDENDA_COLLECTION = 'reportAddenda';
+
+export const UNSIGNED_REPORT_HOURS = 48;
+
+export type ReportStatus = 'draft' | 'signed';
+
+export interface ReportSignature {
+	signedBy: string;
+	signedById: string;
+	signedAt: string;
+	versionId: string; // The signed report version
+	version: number;
+}
+
+export interface ReportAddendum {
+	id: string;
+	patientId: string;
+	patientDocId: string;
+	versionId: string;
+	version: number;
+	text: string;
+	addedBy: string;
+	addedById: string;
+	addedAt: string;
+}
+
+export function isReportSigned(patient: Pick<PatientRecordFull, 'reportStatus'> | null | undefined): boolean {
+	return patient?.reportStatus === 'signed';
+}
+
+/**
+ * Hours a draft report has gone unsigned since the session it was written for
+ */
+export function getUnsignedHours(patient: Pick<PatientRecordFull, 'reportStatus' | 'reportDraftSince'>, now: number): number {
+	if (patient.reportStatus !== 'draft' || !patient.reportDraftSince) return 0;
+	const since = new Date(patient.reportDraftSince).getTime();
+	return Number.isNaN(since) ? 0 : Math.max(0, (now - since) / 3_600_000);
+}
+
+export function isReportSignatureOverdue(patient: Pick<PatientRecordFull, 'reportStatus' | 'reportDraftSince'>, now: number): boolean {
+	return getUnsignedHours(patient, now) > UNSIGNED_REPORT_HOURS;
+}
+
+/**
+ * Status fields for a report save: the report becomes, or stays, an unsigned draft
+ */
+export function getDraftReportFields(patient: Pick<PatientRecordFull, 'reportStatus' | 'reportDraftSince'>): { reportStatus: ReportStatus; reportDraftSince: string } {
+	return {
+		reportStatus: 'draft',
+		reportDraftSince: patient.reportStatus === 'draft' && patient.reportDraftSince ? patient.reportDraftSince : new Date().toISOString(),
+	};
+}
+
+export function formatReportSignature(signature: Pick<ReportSignature, 'signedBy' | 'signedAt'>): string {
+	return `Digitally signed by ${signature.signedBy} on ${new Date(signature.signedAt).toLocaleString()}`;
+}
+
+export function parseReportAddendum(id: string, data: Record<string, unknown>): ReportAddendum {
+	return {
+		id,
+		patientId: String(data.patientId || ''),
+		patientDocId: String(data.patientDocId || ''),
+		versionId: String(data.versionId || ''),
+		version: Number(data.version) || 0,
+		text: String(data.text || ''),
+		addedBy: String(data.addedBy || 'Unknown'),
+		addedById: String(data.addedById || ''),
+		addedAt: String(data.addedAt || ''),
+	};
+}
@@ -0,0 +1,45 @@
+import { auth } from './firebase';
+import type { ReportSignature } from './reportSignoff';
+
+async function postReportAction(path: string, body: Record<string, unknown>, failure: string): Promise<Record<string, unknown>> {
+	const token = await auth.currentUser?.getIdToken();
+	if (!token) {
+		throw new Error('Please sign in again to sign reports.');
+	}
+
+	const response = await fetch(path, {
+		method: 'POST',
+		headers: {
+			'Content-Type': 'application/json',
+			'Authorization': `Bearer ${token}`,
+		},
+		body: JSON.stringify(body),
+	});
+	const result = await response.json().catch(() => ({}));
+	if (!response.ok) {
+		throw new Error(result.error || failure);
+	}
+	return result;
+}
+
+/**
+ * Finalise and sign the patient's saved report as the signed-in therapist
+ */
+export async function signReport(patientDocId: string): Promise<ReportSignature> {
+	const result = await postReportAction('/api/reports/sign', { patientDocId }, 'Failed to sign report');
+	return result.signature as ReportSignature;
+}
+
+/**
+ * Add a dated addendum to the patient's signed report
+ */
+export async function addReportAddendum(patientDocId: string, text: string): Promise<void> {
+	await postReportAction('/api/reports/addenda', { patientDocId, text }, 'Failed to add addendum');
+}
+
+/**
+ * Unlock the report for the next session. The signed version and its addenda are kept as they are.
+ */
+export async function startNextSessionReport(patientDocId: string): Promise<void> {
+	await postReportAction('/api/reports/next-session', { patientDocId }, 'Failed to start the next session report');
+}
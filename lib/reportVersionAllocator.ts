@@ -0,0 +1,79 @@
+import { FieldValue } from 'firebase-admin/firestore';
+
+import { dbAdmin } from './firebaseAdmin';
+import {
+	REPORT_SCHEMA_VERSION,
+	REPORT_VERSIONS_COLLECTION,
+	REPORT_VERSION_COUNTERS_COLLECTION,
+	getReportVersionCounterId,
+	normalizeReportPayload,
+	type ReportVersionType,
+} from './reportVersions';
+
+export interface SaveReportVersionInput {
+	patientId: string;
+	patientName: string;
+	reportType: ReportVersionType;
+	reportData: unknown;
+	episodeId?: string | null;
+	sessionNumber?: number | null;
+	authoredBy?: string | null;
+	restoredFrom?: number | null;
+	signedAt?: string | null; // Saves the version as the signed report, signed by the creator
+	createdBy: string;
+	createdById: string;
+}
+
+/**
+ * Save a report version under the patient's next version number. Server only.
+ *
+ * The counter and the version are written in one transaction. A patient's first version through
+ * the allocator seeds the counter from the highest number already saved by the older client code.
+ */
+export async function saveReportVersion({
+	patientId,
+	patientName,
+	reportType,
+	reportData,
+	episodeId,
+	sessionNumber,
+	authoredBy,
+	restoredFrom,
+	signedAt,
+	createdBy,
+	createdById,
+}: SaveReportVersionInput): Promise<{ id: string; version: number }> {
+	const counterRef = dbAdmin.collection(REPORT_VERSION_COUNTERS_COLLECTION).doc(getReportVersionCounterId(patientId, reportType));
+	const versionRef = dbAdmin.collection(REPORT_VERSIONS_COLLECTION).doc();
+
+	return dbAdmin.runTransaction(async transaction => {
+		const counterSnap = await transaction.get(counterRef);
+		let lastVersion = counterSnap.exists && typeof counterSnap.data()?.lastVersion === 'number' ? counterSnap.data()!.lastVersion : null;
+		if (lastVersion === null) {
+			const existing = await transaction.get(dbAdmin.collection(REPORT_VERSIONS_COLLECTION).where('patientId', '==', patientId));
+			lastVersion = existing.docs
+				.filter(versionDoc => (versionDoc.data().reportType || 'physiotherapy') === reportType)
+				.reduce((highest, versionDoc) => Math.max(highest, Number(versionDoc.data().version) || 0), 0);
+		}
+		const version = lastVersion + 1;
+
+		transaction.set(counterRef, { patientId, reportType, lastVersion: version, updatedAt: FieldValue.serverTimestamp() });
+		transaction.set(versionRef, {
+			patientId,
+			patientName,
+			reportType,
+			version,
+			schemaVersion: REPORT_SCHEMA_VERSION,
+			reportData: normalizeReportPayload(reportData),
+			...(episodeId ? { episodeId } : {}),
+			...(typeof sessionNumber === 'number' ? { sessionNumber } : {}),
+			...(authoredBy ? { authoredBy } : {}),
+			...(typeof restoredFrom === 'number' ? { restoredFrom } : {}),
+			...(signedAt ? { signedBy: createdBy, signedById: createdById, signedAt } : {}),
+			createdBy,
+			createdById,
+			createdAt: FieldValue.serverTimestamp(),
+		});
+		return { id: versionRef.id, version };
+	});
+}
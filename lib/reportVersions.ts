@@ -0,0 +1,184 @@
+/**
+ * Physiotherapy report versions, shared by the report screens and the server-side allocator.
+ *
+ * Each save of a report keeps the report as it stood before the save as a numbered version. Numbers
+ * run 1, 2, 3... per patient and are only handed out by the allocator in a Firestore transaction on
+ * the patient's counter, so two therapists saving at once cannot get the same number. Numbers are
+ * never reused, even when a version is deleted.
+ *
+ * The report itself is stored under `reportData` with a `schemaVersion`. Versions saved before the
+ * schema existed hold whatever the screen sent; they are read as schema 0 and normalised on load.
+ */
+
+import { EPISODE_REPORT_FIELDS, type EpisodeReportField } from './episodes';
+import type { PatientRecordFull } from './types';
+
+export const REPORT_VERSIONS_COLLECTION = 'reportVersions';
+export const REPORT_VERSION_COUNTERS_COLLECTION = 'reportVersionCounters'; // One document per patient and report type
+
+export const REPORT_SCHEMA_VERSION = 1;
+
+export type ReportVersionType = 'physiotherapy';
+
+// Session numbers, who saved the report and its sign-off are kept on the version itself
+const VERSION_META_FIELDS = ['sessionNumber', 'reportUpdatedBy', 'reportUpdatedById', 'reportStatus', 'reportDraftSince', 'reportSignature'] as const;
+
+export type ReportField = Exclude<EpisodeReportField, (typeof VERSION_META_FIELDS)[number]>;
+
+export const REPORT_FIELDS = EPISODE_REPORT_FIELDS.filter(
+	(field): field is ReportField => !(VERSION_META_FIELDS as readonly string[]).includes(field)
+);
+
+export type PhysiotherapyReportFields = Partial<Pick<PatientRecordFull, ReportField>>;
+
+export interface ReportVersion {
+	id: string;
+	patientId: string;
+	patientName: string;
+	reportType: ReportVersionType;
+	version: number;
+	schemaVersion: number;
+	episodeId: string | null;
+	sessionNumber: number | null;
+	reportData: PhysiotherapyReportFields;
+	authoredBy: string | null; // Who saved the report as it stands in this version, when known
+	createdBy: string; // Who saved over it, creating this version
+	createdById: string;
+	createdAt: string;
+	restoredFrom: number | null;
+	signedBy: string | null; // Set on the version saved when the report was signed
+	signedAt: string | null;
+}
+
+export interface ReportFieldChange {
+	path: string;
+	label: string;
+	before: string;
+	after: string;
+}
+
+// Uploaded files are compared but not printed
+const FILE_FIELDS: ReportField[] = ['postureFileData', 'gaitFileData'];
+
+const FIELD_LABELS: Partial<Record<ReportField, string>> = {
+	med_xray: 'X-ray',
+	med_mri: 'MRI',
+	med_report: 'Medical Report',
+	med_ct: 'CT Scan',
+	per_smoking: 'Smoking',
+	per_drinking: 'Drinking',
+	per_alcohol: 'Alcohol',
+	per_drugs: 'Drugs',
+	vasScale: 'VAS',
+	rom: 'ROM',
+	mmt: 'MMT',
+	odema: 'Oedema',
+	complianceWithHEP: 'Compliance with HEP',
+	currentRom: 'Current ROM',
+	totalSessionsRequired: 'Total Sessions Required',
+	physioName: 'Physiotherapist',
+	postureFileData: 'Posture File',
+	gaitFileData: 'Gait File',
+};
+
+export function getReportVersionCounterId(patientId: string, reportType: ReportVersionType): string {
+	return `${patientId}_${reportType}`;
+}
+
+function humanize(key: string): string {
+	return key
+		.replace(/_/g, ' ')
+		.replace(/([a-z])([A-Z])/g, '$1 $2')
+		.replace(/^./, letter => letter.toUpperCase());
+}
+
+export function getReportFieldLabel(field: string): string {
+	return FIELD_LABELS[field as ReportField] ?? humanize(field);
+}
+
+/**
+ * The report fields of a saved payload, whatever schema it was written with. Unknown keys and
+ * undefined values are dropped.
+ */
+export function normalizeReportPayload(raw: unknown): PhysiotherapyReportFields {
+	const data = raw && typeof raw === 'object' ? (raw as Record<string, unknown>) : {};
+	const payload: Record<string, unknown> = {};
+	REPORT_FIELDS.forEach(field => {
+		if (data[field] !== undefined) payload[field] = data[field];
+	});
+	return payload as PhysiotherapyReportFields;
+}
+
+export function parseReportVersion(id: string, data: Record<string, unknown>): ReportVersion {
+	const createdAt = data.createdAt as { toDate?: () => Date } | string | undefined;
+	return {
+		id,
+		patientId: String(data.patientId || ''),
+		patientName: String(data.patientName || ''),
+		reportType: 'physiotherapy',
+		version: Number(data.version) || 0,
+		schemaVersion: typeof data.schemaVersion === 'number' ? data.schemaVersion : 0,
+		episodeId: data.episodeId ? String(data.episodeId) : null,
+		sessionNumber: typeof data.sessionNumber === 'number' ? data.sessionNumber : null,
+		reportData: normalizeReportPayload(data.reportData),
+		authoredBy: data.authoredBy ? String(data.authoredBy) : null,
+		createdBy: String(data.createdBy || 'Unknown'),
+		createdById: String(data.createdById || ''),
+		createdAt: typeof createdAt === 'string' ? createdAt : createdAt?.toDate?.().toISOString() ?? '',
+		restoredFrom: typeof data.restoredFrom === 'number' ? data.restoredFrom : null,
+		signedBy: data.signedBy ? String(data.signedBy) : null,
+		signedAt: data.signedAt ? String(data.signedAt) : null,
+	};
+}
+
+function formatValue(value: unknown): string {
+	if (value === undefined || value === null || value === false) return '';
+	if (value === true) return 'Yes';
+	return String(value).trim();
+}
+
+// Nested values (ROM and MMT tables, follow-up rows) become one entry per leaf
+function flatten(value: unknown, path: string, label: string, into: Map<string, { label: string; value: string }>) {
+	if (Array.isArray(value)) {
+		value.forEach((item, index) => flatten(item, `${path}.${index}`, `${label} ${index + 1}`, into));
+		return;
+	}
+	if (value && typeof value === 'object') {
+		Object.entries(value as Record<string, unknown>).forEach(([key, child]) => {
+			flatten(child, `${path}.${key}`, `${label} › ${humanize(key)}`, into);
+		});
+		return;
+	}
+	const formatted = formatValue(value);
+	if (formatted) into.set(path, { label, value: formatted });
+}
+
+/**
+ * Every field that differs between two versions of a report, in form order. ROM, MMT and table
+ * fields are compared cell by cell.
+ */
+export function diffReportVersions(before: PhysiotherapyReportFields, after: PhysiotherapyReportFields): ReportFieldChange[] {
+	const changes: ReportFieldChange[] = [];
+	REPORT_FIELDS.forEach(field => {
+		const label = getReportFieldLabel(field);
+		const beforeValues = new Map<string, { label: string; value: string }>();
+		const afterValues = new Map<string, { label: string; value: string }>();
+		flatten(before[field], field, label, beforeValues);
+		flatten(after[field], field, label, afterValues);
+
+		const paths = [...beforeValues.keys(), ...[...afterValues.keys()].filter(path => !beforeValues.has(path))];
+		paths.forEach(path => {
+			const beforeValue = beforeValues.get(path)?.value ?? '';
+			const afterValue = afterValues.get(path)?.value ?? '';
+			if (beforeValue === afterValue) return;
+			const isFile = FILE_FIELDS.includes(field);
+			changes.push({
+				path,
+				label: beforeValues.get(path)?.label ?? afterValues.get(path)?.label ?? label,
+				before: isFile && beforeValue ? '(file)' : beforeValue,
+				after: isFile && afterValue ? '(new file)' : afterValue,
+			});
+		});
+	});
+	return changes;
+}
@@ -0,0 +1,35 @@
+import { auth } from './firebase';
+
+export interface RequestReportVersionInput {
+	patientId: string;
+	patientName: string;
+	reportData: Record<string, unknown>;
+	episodeId?: string | null;
+	sessionNumber?: number | null;
+	authoredBy?: string | null;
+	restoredFrom?: number | null;
+}
+
+/**
+ * Ask the server to save a physiotherapy report version under the patient's next version number
+ */
+export async function requestReportVersion(input: RequestReportVersionInput): Promise<{ id: string; version: number }> {
+	const token = await auth.currentUser?.getIdToken();
+	if (!token) {
+		throw new Error('Please sign in again to save report versions.');
+	}
+
+	const response = await fetch('/api/reports/versions', {
+		method: 'POST',
+		headers: {
+			'Content-Type': 'application/json',
+			'Authorization': `Bearer ${token}`,
+		},
+		body: JSON.stringify(input),
+	});
+	const result = await response.json().catch(() => ({}));
+	if (!response.ok || typeof result.version !== 'number') {
+		throw new Error(result.error || 'Failed to save report version');
+	}
+	return { id: result.id, version: result.version };
+}
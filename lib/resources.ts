@@ -0,0 +1,85 @@
+/**
+ * Rooms and equipment that appointments can reserve alongside the therapist.
+ *
+ * Resources live in the `resources` collection. A resource can be linked to service types so
+ * booking that service reserves it automatically; staff can also add resources per appointment.
+ */
+
+export type ResourceKind = 'bay' | 'equipment';
+
+export interface ClinicResource {
+	id: string;
+	name: string;
+	kind: ResourceKind;
+	serviceTypes: string[]; // Service catalogue ids that need this resource
+	active: boolean;
+	notes?: string;
+}
+
+export const RESOURCES_COLLECTION = 'resources';
+
+export const RESOURCE_KIND_LABELS: Record<ResourceKind, string> = {
+	bay: 'Treatment bay',
+	equipment: 'Equipment',
+};
+
+// Starting registry for the centre, loaded from the admin Resources tab
+export const DEFAULT_CLINIC_RESOURCES: Array<Omit<ClinicResource, 'id'>> = [
+	{ name: 'Bay 1', kind: 'bay', serviceTypes: [], active: true },
+	{ name: 'Bay 2', kind: 'bay', serviceTypes: [], active: true },
+	{ name: 'Bay 3', kind: 'bay', serviceTypes: [], active: true },
+	{ name: 'Bay 4', kind: 'bay', serviceTypes: [], active: true },
+	{ name: 'Shockwave (SWT) Unit', kind: 'equipment', serviceTypes: [], active: true },
+	{ name: 'Laser', kind: 'equipment', serviceTypes: [], active: true },
+	{ name: 'OptaGAIT', kind: 'equipment', serviceTypes: ['sc-assessment'], active: true },
+];
+
+export function mapClinicResource(id: string, data: Record<string, unknown>): ClinicResource {
+	return {
+		id,
+		name: data.name ? String(data.name) : 'Unnamed resource',
+		kind: data.kind === 'bay' ? 'bay' : 'equipment',
+		serviceTypes: Array.isArray(data.serviceTypes) ? data.serviceTypes.map(String) : [],
+		active: data.active !== false,
+		notes: data.notes ? String(data.notes) : undefined,
+	};
+}
+
+/**
+ * Read the resource ids stored on an appointment document
+ */
+export function getAppointmentResourceIds(data: Record<string, unknown>): string[] {
+	return Array.isArray(data.resourceIds) ? data.resourceIds.map(String).filter(Boolean) : [];
+}
+
+/** Firestore's limit on values in an array-contains-any filter */
+export const RESOURCE_QUERY_BATCH_SIZE = 10;
+
+/**
+ * Split resource ids into groups small enough for one array-contains-any query each
+ */
+export function batchResourceIds(resourceIds: string[]): string[][] {
+	const unique = Array.from(new Set(resourceIds.filter(Boolean)));
+	const batches: string[][] = [];
+	for (let index = 0; index < unique.length; index += RESOURCE_QUERY_BATCH_SIZE) {
+		batches.push(unique.slice(index, index + RESOURCE_QUERY_BATCH_SIZE));
+	}
+	return batches;
+}
+
+/**
+ * Active resources a service type needs by default
+ */
+export function getServiceResourceIds(resources: ClinicResource[], serviceType?: string | null): string[] {
+	if (!serviceType) return [];
+	return resources
+		.filter(resource => resource.active && resource.serviceTypes.includes(serviceType))
+		.map(resource => resource.id);
+}
+
+export function formatResourceNames(resources: ClinicResource[], resourceIds: string[] | null | undefined): string {
+	if (!resourceIds?.length) return '';
+	return resourceIds
+		.map(id => resources.find(resource => resource.id === id)?.name ?? 'Removed resource')
+		.join(', ');
+}
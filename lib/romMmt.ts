@@ -0,0 +1,244 @@
+/**
+ * Structured range of motion (goniometry) and manual muscle testing.
+ *
+ * Reports keep `rom` and `mmt` keyed by joint and motion, with `left`/`right` maps for sided joints.
+ * ROM values are degrees and MMT values are Oxford grades 0-5, both stored as numbers. Reports saved
+ * before this were free text, so every reader goes through parseDegrees/parseOxfordGrade.
+ */
+
+export type JointSide = 'left' | 'right';
+
+export type RomStatus = 'reduced' | 'normal' | 'excessive';
+
+/** A stored reading: a number from the structured form, or free text from older reports */
+export type JointValue = number | string;
+
+/** Readings keyed by motion (ROM) or muscle group (MMT) */
+export type JointMotionValues = Record<string, JointValue>;
+
+/** One joint: readings keyed by motion, with `left`/`right` maps for sided motions */
+export interface JointRecord {
+	left?: JointMotionValues;
+	right?: JointMotionValues;
+	[motion: string]: JointValue | JointMotionValues | undefined;
+}
+
+/** A report's `rom` or `mmt`, keyed by joint */
+export type JointRecords = Record<string, JointRecord>;
+
+export interface JointMeasurement {
+	joint: string;
+	motion: string;
+	side: JointSide | null;
+	value: number;
+}
+
+export interface JointComparisonRow {
+	joint: string;
+	motion: string;
+	left: number | null;
+	right: number | null;
+	value: number | null; // Joints and motions without sides
+	normal: number | null;
+	leftStatus: RomStatus | null;
+	rightStatus: RomStatus | null;
+	valueStatus: RomStatus | null;
+	lsi: number | null;
+}
+
+/** Limb symmetry below this percentage is flagged as a meaningful side-to-side deficit */
+export const LSI_THRESHOLD = 90;
+
+export const OXFORD_GRADES: Array<{ value: number; label: string }> = [
+	{ value: 0, label: '0 - No contraction' },
+	{ value: 1, label: '1 - Flicker of contraction' },
+	{ value: 2, label: '2 - Movement with gravity eliminated' },
+	{ value: 3, label: '3 - Movement against gravity' },
+	{ value: 4, label: '4 - Movement against some resistance' },
+	{ value: 5, label: '5 - Normal power' },
+];
+
+/**
+ * Normal active range of motion in degrees (AAOS), keyed like ROM_MOTIONS in the report forms.
+ * Neck lateral flexion is recorded per side under 'Lateral Flexion'.
+ */
+export const ROM_NORMS: Record<string, Record<string, number>> = {
+	Neck: { Flexion: 45, Extension: 45, 'Lateral Flexion': 45 },
+	Hip: { Flexion: 120, Extension: 30, Abduction: 45, Adduction: 30, 'Internal Rotation': 45, 'External Rotation': 45 },
+	Shoulder: { Flexion: 180, Extension: 60, Abduction: 180, Adduction: 30, 'Internal Rotation': 70, 'External Rotation': 90 },
+	Elbow: { Flexion: 150, Extension: 0 },
+	Forearm: { Supination: 80, Pronation: 80 },
+	Wrist: { Flexion: 80, Extension: 70, 'Radial Deviation': 20, 'Ulnar Deviation': 30 },
+	Knee: { Flexion: 135, Extension: 0 },
+	Ankle: { Dorsiflexion: 20, Plantarflexion: 50, Inversion: 35, Eversion: 15 },
+	Finger: { Flexion: 90, Extension: 45 }, // Metacarpophalangeal joint
+};
+
+export function parseDegrees(value: unknown): number | null {
+	if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+	if (typeof value !== 'string') return null;
+	const match = value.match(/-?\d+(\.\d+)?/);
+	return match ? Number(match[0]) : null;
+}
+
+export function parseOxfordGrade(value: unknown): number | null {
+	const grade = parseDegrees(value);
+	if (grade === null) return null;
+	const whole = Math.floor(grade);
+	return whole >= 0 && whole <= 5 ? whole : null;
+}
+
+export function formatRomValue(value: unknown): string {
+	const degrees = parseDegrees(value);
+	if (degrees !== null) return `${degrees}°`;
+	return typeof value === 'string' ? value : '';
+}
+
+export function formatMmtGrade(value: unknown): string {
+	const grade = parseOxfordGrade(value);
+	if (grade !== null) return `${grade}/5`;
+	return typeof value === 'string' ? value : '';
+}
+
+/** Whether a stored ROM/MMT cell holds anything; 0 is a real measurement */
+export function hasJointValue(value: unknown): boolean {
+	return typeof value === 'number' ? Number.isFinite(value) : typeof value === 'string' && value.trim() !== '';
+}
+
+export function getRomNorm(joint: string, motion: string): number | null {
+	return ROM_NORMS[joint]?.[motion] ?? null;
+}
+
+/** Measurements within 10% of the normal range (and never less than 5°) count as normal */
+export function getRomStatus(degrees: number, normal: number): RomStatus {
+	const tolerance = Math.max(5, normal * 0.1);
+	if (degrees < normal - tolerance) return 'reduced';
+	if (degrees > normal + tolerance) return 'excessive';
+	return 'normal';
+}
+
+export function getPercentOfNormal(degrees: number, normal: number): number | null {
+	return normal > 0 ? Math.round((degrees / normal) * 100) : null;
+}
+
+/**
+ * Side named in the report's free-text "Site and Side", when it names only one
+ */
+export function getInvolvedSide(siteSide: string | null | undefined): JointSide | null {
+	const text = (siteSide || '').toLowerCase();
+	const left = /\bl(eft|t)?\b/.test(text);
+	const right = /\br(ight|t)?\b/.test(text);
+	if (left === right) return null;
+	return left ? 'left' : 'right';
+}
+
+/**
+ * Limb symmetry index: involved side as a percentage of the uninvolved side.
+ * Without a known involved side the weaker side is compared with the stronger one.
+ */
+export function getLimbSymmetryIndex(left: number, right: number, involvedSide: JointSide | null = null): number | null {
+	const involved = involvedSide === 'left' ? left : involvedSide === 'right' ? right : Math.min(left, right);
+	const uninvolved = involvedSide === 'left' ? right : involvedSide === 'right' ? left : Math.max(left, right);
+	if (uninvolved <= 0) return null;
+	return Math.round((involved / uninvolved) * 100);
+}
+
+/**
+ * A joint added to the form before any reading is entered
+ */
+export function addJoint(records: JointRecords | null | undefined, joint: string, hasSides: boolean): JointRecords {
+	if (records?.[joint]) return records;
+	return { ...records, [joint]: hasSides ? { left: {}, right: {} } : {} };
+}
+
+/**
+ * Copy of the records with one reading set, leaving the other joints and sides untouched
+ */
+export function setJointValue(
+	records: JointRecords | null | undefined,
+	joint: string,
+	motion: string,
+	side: JointSide | null,
+	value: JointValue,
+	hasSides: boolean
+): JointRecords {
+	const entry: JointRecord = { ...(records?.[joint] ?? (hasSides ? { left: {}, right: {} } : {})) };
+	if (side) {
+		entry[side] = { ...entry[side], [motion]: value };
+	} else {
+		entry[motion] = value;
+	}
+	return { ...records, [joint]: entry };
+}
+
+/**
+ * Flatten a report's rom or mmt map into numeric measurements, skipping empty and unreadable cells
+ */
+export function listJointMeasurements(records: JointRecords | null | undefined, kind: 'rom' | 'mmt'): JointMeasurement[] {
+	if (!records || typeof records !== 'object') return [];
+	const parse = kind === 'rom' ? parseDegrees : parseOxfordGrade;
+	const measurements: JointMeasurement[] = [];
+
+	Object.entries(records).forEach(([joint, entry]) => {
+		if (!entry || typeof entry !== 'object') return;
+		Object.entries(entry).forEach(([key, raw]) => {
+			if ((key === 'left' || key === 'right') && raw && typeof raw === 'object') {
+				Object.entries(raw as Record<string, unknown>).forEach(([motion, sideRaw]) => {
+					const value = parse(sideRaw);
+					if (value !== null) measurements.push({ joint, motion, side: key, value });
+				});
+				return;
+			}
+			const value = parse(raw);
+			if (value !== null) measurements.push({ joint, motion: key, side: null, value });
+		});
+	});
+
+	return measurements;
+}
+
+/**
+ * One row per joint and motion with both sides, the normal range and the limb symmetry index.
+ * MMT rows compare against a normal grade of 5.
+ */
+export function buildJointComparison(
+	records: JointRecords | null | undefined,
+	kind: 'rom' | 'mmt',
+	involvedSide: JointSide | null = null
+): JointComparisonRow[] {
+	const rows = new Map<string, JointComparisonRow>();
+
+	listJointMeasurements(records, kind).forEach(({ joint, motion, side, value }) => {
+		const key = `${joint}|${motion}`;
+		const normal = kind === 'rom' ? getRomNorm(joint, motion) : 5;
+		const row = rows.get(key) ?? {
+			joint,
+			motion,
+			left: null,
+			right: null,
+			value: null,
+			normal,
+			leftStatus: null,
+			rightStatus: null,
+			valueStatus: null,
+			lsi: null,
+		};
+		const status = normal === null ? null : kind === 'rom' ? getRomStatus(value, normal) : value < normal ? 'reduced' : 'normal';
+		if (side === 'left') {
+			row.left = value;
+			row.leftStatus = status;
+		} else if (side === 'right') {
+			row.right = value;
+			row.rightStatus = status;
+		} else {
+			row.value = value;
+			row.valueStatus = status;
+		}
+		rows.set(key, row);
+	});
+
+	return Array.from(rows.values()).map(row => ({
+		...row,
+		lsi: row.left !== null && row.right !== null ? getLimbSymmetryIndex(row.left, row.right, involvedSide) : null,
+	}));
+}
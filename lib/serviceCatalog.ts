@@ -0,0 +1,104 @@
+export type ServiceCategory = 'physio' | 'strength' | 'psychology' | 'general';
+
+export interface ServiceType {
+	id: string;
+	name: string;
+	category: ServiceCategory;
+	durationMinutes: number;
+	description?: string;
+}
+
+// Appointments created before service types existed carry no duration; treat them as one 30-minute slot
+export const DEFAULT_APPOINTMENT_DURATION = 30;
+
+// Master Service Catalogue
+export const SERVICE_CATALOG: ServiceType[] = [
+	{
+		id: 'physio-assessment',
+		name: 'Physiotherapy Assessment',
+		category: 'physio',
+		durationMinutes: 60,
+		description: 'Initial consultation with full subjective and objective assessment',
+	},
+	{
+		id: 'physio-follow-up',
+		name: 'Physiotherapy Follow-up',
+		category: 'physio',
+		durationMinutes: 30,
+		description: 'Routine treatment session',
+	},
+	{
+		id: 'dry-needling',
+		name: 'Dry Needling',
+		category: 'physio',
+		durationMinutes: 60,
+	},
+	{
+		id: 'manual-therapy',
+		name: 'Manual Therapy / Soft Tissue',
+		category: 'physio',
+		durationMinutes: 45,
+	},
+	{
+		id: 'rehab-session',
+		name: 'Rehabilitation Session',
+		category: 'physio',
+		durationMinutes: 60,
+	},
+	{
+		id: 'sc-assessment',
+		name: 'S&C Assessment',
+		category: 'strength',
+		durationMinutes: 60,
+		description: 'Baseline strength, power and movement screening',
+	},
+	{
+		id: 'sc-session',
+		name: 'Strength & Conditioning Session',
+		category: 'strength',
+		durationMinutes: 60,
+	},
+	{
+		id: 'psychology-consultation',
+		name: 'Sports Psychology Consultation',
+		category: 'psychology',
+		durationMinutes: 60,
+	},
+	{
+		id: 'psychology-follow-up',
+		name: 'Sports Psychology Follow-up',
+		category: 'psychology',
+		durationMinutes: 45,
+	},
+	{
+		id: 'review',
+		name: 'Review / Short Consult',
+		category: 'general',
+		durationMinutes: 30,
+	},
+];
+
+// Helper function to get a service by id
+export function getServiceType(serviceId?: string | null): ServiceType | undefined {
+	if (!serviceId) return undefined;
+	return SERVICE_CATALOG.find(service => service.id === serviceId);
+}
+
+// Helper function to get services by category
+export function getServicesByCategory(category: ServiceCategory): ServiceType[] {
+	return SERVICE_CATALOG.filter(service => service.category === category);
+}
+
+/**
+ * Resolve how long an appointment lasts.
+ * An explicit stored duration wins, then the service type's duration, then the fallback.
+ */
+export function resolveAppointmentDuration(
+	appointment: { duration?: number | null; serviceType?: string | null },
+	fallback: number = DEFAULT_APPOINTMENT_DURATION
+): number {
+	if (typeof appointment.duration === 'number' && appointment.duration > 0) {
+		return appointment.duration;
+	}
+	return getServiceType(appointment.serviceType)?.durationMinutes ?? fallback;
+}
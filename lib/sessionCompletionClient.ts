@@ -0,0 +1,130 @@
+import { collection, doc, getDoc, getDocs, query, serverTimestamp, updateDoc, where } from 'firebase/firestore';
+
+import { db } from './firebase';
+import { billCompletedSession } from './billingPoliciesClient';
+import { consumePackageSession, releasePackageSession } from './packagesClient';
+import { recordSessionUsageForAppointment, type RecordSessionUsageResult } from './sessionAllowanceClient';
+import { debitWalletForBill } from './walletClient';
+
+export interface SessionStatusChangeInput {
+	patientDocId: string;
+	appointmentDocId: string;
+	appointmentId: string;
+	patientId: string;
+	patientName: string;
+	doctor: string;
+	date: string;
+	serviceType?: string | null;
+	previousStatus: string;
+	nextStatus: string;
+	isExtraTreatment?: boolean;
+	recordedByUserId?: string | null;
+	recordedBy?: string | null;
+}
+
+export interface SessionStatusChangeResult {
+	sessionUsage: RecordSessionUsageResult | null; // DYES allowance after a completion
+	remainingSessions: number | null; // The patient's new remainingSessions, when it was rewritten
+	packageNotCovered: boolean; // Completed, but the active package could not cover the session
+}
+
+/**
+ * Patients set up before the package catalogue: remainingSessions starts at totalSessionsRequired - 1
+ * and drops with each completed appointment
+ */
+async function recountLegacyRemainingSessions(patientDocId: string, patientId: string, totalSessionsRequired: number): Promise<number> {
+	const appointmentsSnap = await getDocs(query(collection(db, 'appointments'), where('patientId', '==', patientId)));
+	const completedCount = appointmentsSnap.docs.filter(docSnap => docSnap.data().status === 'completed').length;
+	const remaining = Math.max(0, totalSessionsRequired - 1 - completedCount);
+	await updateDoc(doc(db, 'patients', patientDocId), { remainingSessions: remaining, updatedAt: serverTimestamp() });
+	return remaining;
+}
+
+/**
+ * Everything that follows an appointment's status change, after the appointment itself is saved.
+ * Completing a session draws on the DYES allowance, bills it under the patient's billing policy and
+ * charges what is owed to the patient's wallet. A patient with an active package uses (or, moving off
+ * completed, gets back) one package session; other patients have remainingSessions recounted.
+ * Each step is logged and skipped on failure so one problem does not undo the status change.
+ */
+export async function applySessionStatusChange(input: SessionStatusChangeInput): Promise<SessionStatusChangeResult> {
+	const result: SessionStatusChangeResult = { sessionUsage: null, remainingSessions: null, packageNotCovered: false };
+	if (!input.patientDocId) return result;
+
+	const patientSnap = await getDoc(doc(db, 'patients', input.patientDocId));
+	if (!patientSnap.exists()) return result;
+	const patient = patientSnap.data();
+	const patientType = patient.patientType ? String(patient.patientType) : undefined;
+	const activePackageId = patient.activePackageId ? String(patient.activePackageId) : null;
+	const completed = input.nextStatus === 'completed';
+	const wasCompleted = input.previousStatus === 'completed';
+
+	if (completed && !wasCompleted) {
+		try {
+			result.sessionUsage = await recordSessionUsageForAppointment({
+				patientDocId: input.patientDocId,
+				patientType,
+				appointmentId: input.appointmentDocId,
+			});
+		} catch (sessionError) {
+			console.error('Failed to record DYES session usage:', sessionError);
+		}
+
+		// Organisations billed on completion (free within a cap, auto-paid, sponsored) get their bill now
+		try {
+			await billCompletedSession({
+				patientType,
+				appointmentId: input.appointmentId,
+				appointmentDocId: input.appointmentDocId,
+				patientId: input.patientId,
+				patientName: input.patientName,
+				doctorName: input.doctor,
+				appointmentDate: input.date,
+				paymentType: patient.paymentType ? String(patient.paymentType) : undefined,
+				createdByUserId: input.recordedByUserId || null,
+				createdByUserName: input.recordedBy || null,
+				isExtraTreatment: input.isExtraTreatment ?? false,
+			});
+		} catch (billingError) {
+			console.error('Failed to bill completed session:', billingError);
+		}
+
+		// Charge what the patient owes for the session to any advance deposit in their wallet
+		try {
+			const billingSnapshot = await getDocs(query(collection(db, 'billing'), where('appointmentId', '==', input.appointmentId)));
+			for (const billingDoc of billingSnapshot.docs) {
+				const bill = billingDoc.data();
+				if (bill.status !== 'Pending' || bill.sponsorName) continue;
+				await debitWalletForBill(billingDoc.id, { createdBy: input.recordedByUserId, createdByName: input.recordedBy });
+			}
+		} catch (walletError) {
+			console.error('Failed to charge session to wallet:', walletError);
+		}
+	}
+
+	try {
+		if (activePackageId) {
+			if (completed !== wasCompleted) {
+				const packageSession = { patientDocId: input.patientDocId, packageId: activePackageId, appointmentId: input.appointmentDocId };
+				result.remainingSessions = completed
+					? await consumePackageSession({
+							...packageSession,
+							date: input.date || new Date().toISOString().split('T')[0],
+							serviceType: input.serviceType,
+						})
+					: await releasePackageSession(packageSession);
+				result.packageNotCovered = completed && result.remainingSessions === null;
+			}
+		} else if (typeof patient.totalSessionsRequired === 'number') {
+			result.remainingSessions = await recountLegacyRemainingSessions(
+				input.patientDocId,
+				input.patientId,
+				patient.totalSessionsRequired
+			);
+		}
+	} catch (remainingError) {
+		console.error('Failed to update remaining sessions:', remainingError);
+	}
+
+	return result;
+}
@@ -4,7 +4,8 @@ export type SMSTemplate =
 	| 'appointment-cancelled'
 	| 'appointment-updated'
 	| 'patient-registered'
-	| 'billing-pending';
+	| 'billing-pending'
+	| 'waitlist-offer';
 
 export interface SMSData {
 	to: string;
@@ -20,6 +21,12 @@ export interface AppointmentSMSData {
 	date: string;
 	time: string;
 	appointmentId?: string;
+	confirmUrl?: string; // Self-service confirm/cancel link, reminders only
+}
+
+export interface WaitlistOfferSMSData extends AppointmentSMSData {
+	confirmUrl: string;
+	expiresInHours: number;
 }
 
 export interface PatientRegistrationSMSData {
@@ -59,7 +66,9 @@ export function generateSMSMessage(template: SMSTemplate, data: Record<string, u
 			message += `Time: ${appointmentData.time}\n`;
 			message += `Clinician: ${appointmentData.doctor}\n`;
 			message += `\nPlease arrive 10 mins early.`;
-			if (clinicPhone) {
+			if (appointmentData.confirmUrl) {
+				message += ` Confirm or cancel: ${appointmentData.confirmUrl}`;
+			} else if (clinicPhone) {
 				message += ` Need to reschedule? Call ${clinicPhone}`;
 			}
 			return message;
@@ -124,6 +133,16 @@ export function generateSMSMessage(template: SMSTemplate, data: Record<string, u
 			return message;
 		}
 
+		case 'waitlist-offer': {
+			const offerData = data as unknown as WaitlistOfferSMSData;
+			let message = `Hi ${offerData.patientName}, an earlier slot has opened at ${clinicName}.\n\n`;
+			message += `Date: ${offerData.date}\n`;
+			message += `Time: ${offerData.time}\n`;
+			message += `Clinician: ${offerData.doctor}\n`;
+			message += `\nFirst to confirm gets it. Book here within ${offerData.expiresInHours} hrs: ${offerData.confirmUrl}`;
+			return message;
+		}
+
 		default:
 			return `Notification from ${clinicName}`;
 	}
@@ -174,11 +193,15 @@ export function isValidPhoneNumber(phone: string): boolean {
 }
 
 /**
- * Send SMS notification via API route
+ * Send SMS notification via API route.
+ * Server routes pass their own origin as baseUrl, since a relative URL only resolves in the browser.
  */
-export async function sendSMSNotification(smsData: SMSData): Promise<{ success: boolean; error?: string }> {
+export async function sendSMSNotification(
+	smsData: SMSData,
+	options: { baseUrl?: string } = {}
+): Promise<{ success: boolean; error?: string }> {
 	try {
-		const response = await fetch('/api/sms', {
+		const response = await fetch(`${options.baseUrl ?? ''}/api/sms`, {
 			method: 'POST',
 			headers: {
 				'Content-Type': 'application/json',
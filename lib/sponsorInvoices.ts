@@ -0,0 +1,209 @@
+/**
+ * Consolidated invoices raised on sponsoring organisations.
+ *
+ * Organisations whose sessions are free up to a cap (DYES) or billed to a sponsor do not pay bill by
+ * bill. Once a billing cycle is over, one invoice per organisation lists every session it covered in
+ * that cycle, with the session numbers counted against its yearly cap. Each session bill records the
+ * invoice that claimed it so it is never claimed twice, and the invoice tracks what the organisation
+ * has paid against it.
+ */
+
+import { calculateGst, getGstEntity, parseBillGstSnapshot, type BillGstSnapshot, type GstSettings } from './gst';
+import { normalizeOrganisationType, type BillingPolicy } from './billingPolicies';
+import { isBillVoided } from './creditNotes';
+
+export const SPONSOR_INVOICES_COLLECTION = 'sponsorInvoices';
+export const SPONSOR_INVOICE_COUNTERS_COLLECTION = 'sponsorInvoiceCounters'; // One document per financial year
+
+export type SponsorInvoiceStatus = 'Unpaid' | 'Partially Paid' | 'Paid' | 'Cancelled';
+
+export interface SponsorInvoiceLine {
+	billingDocId: string;
+	billingId: string;
+	appointmentId: string;
+	patientId: string;
+	patient: string;
+	date: string;
+	sessionNumber: number | null; // Count against the organisation's yearly cap, when it has one
+	amount: number;
+	billStatus: string; // Status of the session bill when it was claimed
+}
+
+export interface SponsorInvoicePayment {
+	amount: number;
+	receivedOn: string; // YYYY-MM-DD
+	mode: string;
+	reference: string | null;
+	recordedBy: string | null;
+}
+
+export interface SponsorInvoice {
+	id: string;
+	invoiceNo: string;
+	policyKey: string;
+	organisation: string;
+	cycleId: string;
+	periodStart: string;
+	periodEnd: string;
+	lines: SponsorInvoiceLine[];
+	subtotal: number;
+	gst: BillGstSnapshot | null;
+	total: number;
+	amountReceived: number;
+	payments: SponsorInvoicePayment[];
+	status: SponsorInvoiceStatus;
+	cancelReason: string | null;
+	createdAt: string;
+	createdBy: string | null;
+}
+
+function roundCurrency(value: number): number {
+	return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+/**
+ * Whether an organisation's sessions are claimed from it on a sponsor invoice
+ */
+export function isSponsoredPolicy(policy: BillingPolicy): boolean {
+	return policy.mode === 'free-within-cap' || policy.mode === 'sponsor';
+}
+
+/**
+ * Name the invoice is addressed to
+ */
+export function getSponsorName(policy: BillingPolicy): string {
+	return (policy.mode === 'sponsor' && policy.sponsorName) || policy.label;
+}
+
+/**
+ * Whether a session bill is one the organisation covers and that no invoice has claimed yet.
+ * Bills from before the policy registry carry no `billingPolicy`, so the patient's type decides.
+ */
+export function isClaimableSponsorBill(
+	bill: Record<string, unknown>,
+	policy: BillingPolicy,
+	patientType?: string | null
+): boolean {
+	if (isBillVoided(bill) || bill.sponsorInvoiceId || bill.isExtraTreatment === true) return false;
+	if (!bill.appointmentId || Number(bill.packageSessions) > 0) return false;
+	const key = normalizeOrganisationType((bill.billingPolicy as string) || patientType);
+	return key === policy.key;
+}
+
+export function getBillSessionNumber(bill: Record<string, unknown>): number | null {
+	const value = bill.policySessionNumber ?? bill.dyesSessionNumber;
+	return typeof value === 'number' && value > 0 ? value : null;
+}
+
+export function toSponsorInvoiceLine(billingDocId: string, bill: Record<string, unknown>): SponsorInvoiceLine {
+	return {
+		billingDocId,
+		billingId: String(bill.billingId || ''),
+		appointmentId: String(bill.appointmentId || ''),
+		patientId: String(bill.patientId || ''),
+		patient: String(bill.patient || ''),
+		date: String(bill.date || ''),
+		sessionNumber: getBillSessionNumber(bill),
+		amount: Number(bill.amount) || 0,
+		billStatus: String(bill.status || 'Pending'),
+	};
+}
+
+export function sortSponsorInvoiceLines(lines: SponsorInvoiceLine[]): SponsorInvoiceLine[] {
+	return [...lines].sort(
+		(a, b) => a.date.localeCompare(b.date) || (a.sessionNumber ?? 0) - (b.sessionNumber ?? 0) || a.patient.localeCompare(b.patient)
+	);
+}
+
+/**
+ * Tax on a sponsor invoice. DYES is invoiced by the DYES entity at the DYES rate; other organisations
+ * by the clinic entity at the default rate.
+ */
+export function calculateSponsorInvoiceGst(settings: GstSettings, policyKey: string, subtotal: number): BillGstSnapshot {
+	const isDyes = policyKey === 'DYES';
+	const entity = getGstEntity(settings, isDyes ? settings.dyesEntityId : settings.clinicEntityId);
+	const tax = isDyes ? settings.dyesTax : settings.defaultTax;
+	return {
+		...calculateGst({
+			amount: subtotal,
+			rate: tax.rate,
+			pricesIncludeTax: settings.pricesIncludeTax,
+			supplierStateCode: entity.stateCode,
+		}),
+		entityId: entity.id,
+		gstin: entity.gstin,
+		sacCode: tax.sacCode,
+		placeOfSupply: entity.stateCode,
+	};
+}
+
+export function getSponsorInvoiceStatus(total: number, amountReceived: number): SponsorInvoiceStatus {
+	if (amountReceived <= 0) return 'Unpaid';
+	return roundCurrency(amountReceived) >= roundCurrency(total) ? 'Paid' : 'Partially Paid';
+}
+
+export function formatSponsorInvoiceNumber(financialYearLabel: string, sequence: number): string {
+	return `SPN/${financialYearLabel}/${String(sequence).padStart(3, '0')}`;
+}
+
+export function parseSponsorInvoice(id: string, data: Record<string, unknown>): SponsorInvoice {
+	const lines = Array.isArray(data.lines) ? (data.lines as Record<string, unknown>[]) : [];
+	const payments = Array.isArray(data.payments) ? (data.payments as Record<string, unknown>[]) : [];
+	const status = data.status;
+	return {
+		id,
+		invoiceNo: String(data.invoiceNo || ''),
+		policyKey: String(data.policyKey || ''),
+		organisation: String(data.organisation || ''),
+		cycleId: String(data.cycleId || ''),
+		periodStart: String(data.periodStart || ''),
+		periodEnd: String(data.periodEnd || ''),
+		lines: lines.map(line => ({
+			billingDocId: String(line.billingDocId || ''),
+			billingId: String(line.billingId || ''),
+			appointmentId: String(line.appointmentId || ''),
+			patientId: String(line.patientId || ''),
+			patient: String(line.patient || ''),
+			date: String(line.date || ''),
+			sessionNumber: typeof line.sessionNumber === 'number' ? line.sessionNumber : null,
+			amount: Number(line.amount) || 0,
+			billStatus: String(line.billStatus || ''),
+		})),
+		subtotal: Number(data.subtotal) || 0,
+		gst: parseBillGstSnapshot(data.gst) ?? null,
+		total: Number(data.total) || 0,
+		amountReceived: Number(data.amountReceived) || 0,
+		payments: payments.map(payment => ({
+			amount: Number(payment.amount) || 0,
+			receivedOn: String(payment.receivedOn || ''),
+			mode: String(payment.mode || ''),
+			reference: payment.reference ? String(payment.reference) : null,
+			recordedBy: payment.recordedBy ? String(payment.recordedBy) : null,
+		})),
+		status: status === 'Partially Paid' || status === 'Paid' || status === 'Cancelled' ? status : 'Unpaid',
+		cancelReason: data.cancelReason ? String(data.cancelReason) : null,
+		createdAt: String(data.createdAt || ''),
+		createdBy: data.createdBy ? String(data.createdBy) : null,
+	};
+}
+
+/**
+ * Rows for the Excel export, one per session plus the totals
+ */
+export function getSponsorInvoiceRows(invoice: SponsorInvoice): (string | number)[][] {
+	const rows: (string | number)[][] = [
+		[`Invoice ${invoice.invoiceNo}`, invoice.organisation, `${invoice.periodStart} to ${invoice.periodEnd}`],
+		[],
+		['Date', 'Session #', 'Patient ID', 'Patient', 'Bill ID', 'Amount (Rs.)'],
+	];
+	sortSponsorInvoiceLines(invoice.lines).forEach(line => {
+		rows.push([line.date, line.sessionNumber ?? '', line.patientId, line.patient, line.billingId, line.amount]);
+	});
+	rows.push([]);
+	rows.push(['', '', '', '', 'Sessions', invoice.lines.length]);
+	rows.push(['', '', '', '', 'Subtotal', invoice.subtotal]);
+	rows.push(['', '', '', '', `GST (${invoice.gst?.rate ?? 0}%)`, invoice.gst?.totalTax ?? 0]);
+	rows.push(['', '', '', '', 'Total', invoice.total]);
+	rows.push(['', '', '', '', 'Received', invoice.amountReceived]);
+	return rows;
+}
@@ -0,0 +1,176 @@
+import { collection, deleteField, doc, getDocs, query, runTransaction, serverTimestamp, where, writeBatch } from 'firebase/firestore';
+
+import { db } from './firebase';
+import { type BillingPolicy } from './billingPolicies';
+import { type GstSettings } from './gst';
+import { getFinancialYear } from './invoiceNumbering';
+import {
+	SPONSOR_INVOICE_COUNTERS_COLLECTION,
+	SPONSOR_INVOICES_COLLECTION,
+	calculateSponsorInvoiceGst,
+	formatSponsorInvoiceNumber,
+	getSponsorInvoiceStatus,
+	getSponsorName,
+	isClaimableSponsorBill,
+	parseSponsorInvoice,
+	sortSponsorInvoiceLines,
+	toSponsorInvoiceLine,
+	type SponsorInvoice,
+	type SponsorInvoiceLine,
+	type SponsorInvoicePayment,
+} from './sponsorInvoices';
+
+/**
+ * Session bills in the period that the organisation covers and no invoice has claimed yet
+ */
+export async function fetchClaimableSponsorLines(policy: BillingPolicy, periodStart: string, periodEnd: string): Promise<SponsorInvoiceLine[]> {
+	const billsSnapshot = await getDocs(
+		query(collection(db, 'billing'), where('date', '>=', periodStart), where('date', '<=', periodEnd))
+	);
+
+	// Bills raised before the policy registry only say who the patient is
+	const untaggedPatientIds = Array.from(
+		new Set(billsSnapshot.docs.filter(billDoc => !billDoc.data().billingPolicy).map(billDoc => String(billDoc.data().patientId || '')))
+	).filter(Boolean);
+	const patientTypes = new Map<string, string>();
+	for (let index = 0; index < untaggedPatientIds.length; index += 30) {
+		const patientsSnapshot = await getDocs(
+			query(collection(db, 'patients'), where('patientId', 'in', untaggedPatientIds.slice(index, index + 30)))
+		);
+		patientsSnapshot.docs.forEach(patientDoc => {
+			const data = patientDoc.data();
+			patientTypes.set(String(data.patientId), String(data.patientType || ''));
+		});
+	}
+
+	const lines = billsSnapshot.docs
+		.filter(billDoc => isClaimableSponsorBill(billDoc.data(), policy, patientTypes.get(String(billDoc.data().patientId || ''))))
+		.map(billDoc => toSponsorInvoiceLine(billDoc.id, billDoc.data()));
+	return sortSponsorInvoiceLines(lines);
+}
+
+export interface CreateSponsorInvoiceInput {
+	policy: BillingPolicy;
+	cycle: { id: string; startDate: string; endDate: string };
+	lines: SponsorInvoiceLine[];
+	gstSettings: GstSettings;
+	createdBy?: string | null;
+}
+
+/**
+ * Raise the invoice for an organisation's sessions in a billing cycle. Numbers the invoice within the
+ * financial year and marks every session bill as claimed in the same transaction, failing if another
+ * invoice claimed one of them first.
+ */
+export async function createSponsorInvoice({ policy, cycle, lines, gstSettings, createdBy }: CreateSponsorInvoiceInput): Promise<SponsorInvoice> {
+	if (lines.length === 0) throw new Error('There are no sessions to invoice');
+	const invoiceRef = doc(collection(db, SPONSOR_INVOICES_COLLECTION));
+	const financialYear = getFinancialYear();
+	const counterRef = doc(db, SPONSOR_INVOICE_COUNTERS_COLLECTION, financialYear.label);
+
+	return runTransaction(db, async transaction => {
+		const counterSnapshot = await transaction.get(counterRef);
+		const billSnapshots = await Promise.all(lines.map(line => transaction.get(doc(db, 'billing', line.billingDocId))));
+		const claimed = billSnapshots.find(snapshot => !snapshot.exists() || snapshot.data().sponsorInvoiceId);
+		if (claimed) {
+			throw new Error(`Bill ${claimed.data()?.billingId || claimed.id} is already on another invoice or was deleted`);
+		}
+
+		const sequence = (counterSnapshot.exists() ? Number(counterSnapshot.data().lastSequence) || 0 : 0) + 1;
+		const invoiceNo = formatSponsorInvoiceNumber(financialYear.label, sequence);
+		const subtotal = Math.round(lines.reduce((sum, line) => sum + line.amount, 0) * 100) / 100;
+		const gst = calculateSponsorInvoiceGst(gstSettings, policy.key, subtotal);
+		const invoiceData: Omit<SponsorInvoice, 'id'> = {
+			invoiceNo,
+			policyKey: policy.key,
+			organisation: getSponsorName(policy),
+			cycleId: cycle.id,
+			periodStart: cycle.startDate,
+			periodEnd: cycle.endDate,
+			lines: sortSponsorInvoiceLines(lines),
+			subtotal,
+			gst,
+			total: gst.total,
+			amountReceived: 0,
+			payments: [],
+			status: 'Unpaid',
+			cancelReason: null,
+			createdAt: new Date().toISOString(),
+			createdBy: createdBy || null,
+		};
+
+		transaction.set(counterRef, { financialYear: financialYear.label, lastSequence: sequence });
+		transaction.set(invoiceRef, invoiceData);
+		lines.forEach(line => {
+			transaction.update(doc(db, 'billing', line.billingDocId), {
+				sponsorInvoiceId: invoiceRef.id,
+				sponsorInvoiceNo: invoiceNo,
+				updatedAt: serverTimestamp(),
+			});
+		});
+		return { id: invoiceRef.id, ...invoiceData };
+	});
+}
+
+/**
+ * Record money received from the organisation. When the invoice is paid in full, the session bills
+ * that were still pending on it are settled too. Resolves to the invoice's new status.
+ */
+export async function recordSponsorInvoicePayment(invoiceId: string, payment: SponsorInvoicePayment): Promise<SponsorInvoice['status']> {
+	if (!(payment.amount > 0)) throw new Error('Payment amount must be greater than zero');
+	const invoiceRef = doc(db, SPONSOR_INVOICES_COLLECTION, invoiceId);
+
+	return runTransaction(db, async transaction => {
+		const snapshot = await transaction.get(invoiceRef);
+		if (!snapshot.exists()) throw new Error('Invoice not found');
+		const invoice = parseSponsorInvoice(snapshot.id, snapshot.data());
+		if (invoice.status === 'Cancelled') throw new Error('This invoice has been cancelled');
+		const amountReceived = Math.round((invoice.amountReceived + payment.amount) * 100) / 100;
+		if (amountReceived > invoice.total + 0.005) {
+			throw new Error(`Only Rs. ${(invoice.total - invoice.amountReceived).toFixed(2)} is outstanding on this invoice`);
+		}
+
+		const status = getSponsorInvoiceStatus(invoice.total, amountReceived);
+		transaction.update(invoiceRef, {
+			amountReceived,
+			payments: [...invoice.payments, payment],
+			status,
+			updatedAt: serverTimestamp(),
+		});
+		if (status === 'Paid') {
+			invoice.lines
+				.filter(line => line.billStatus === 'Pending')
+				.forEach(line => {
+					transaction.update(doc(db, 'billing', line.billingDocId), {
+						status: 'Completed',
+						paymentMode: 'Sponsor Invoice',
+						amountPaid: line.amount,
+						utr: invoice.invoiceNo,
+						updatedAt: serverTimestamp(),
+					});
+				});
+		}
+		return status;
+	});
+}
+
+/**
+ * Cancel an invoice nothing has been paid against, releasing its sessions to be invoiced again
+ */
+export async function cancelSponsorInvoice(invoice: SponsorInvoice, reason: string): Promise<void> {
+	if (invoice.amountReceived > 0) throw new Error('Payments have been recorded against this invoice');
+	const batch = writeBatch(db);
+	batch.update(doc(db, SPONSOR_INVOICES_COLLECTION, invoice.id), {
+		status: 'Cancelled',
+		cancelReason: reason.trim() || null,
+		updatedAt: serverTimestamp(),
+	});
+	invoice.lines.forEach(line => {
+		batch.update(doc(db, 'billing', line.billingDocId), {
+			sponsorInvoiceId: deleteField(),
+			sponsorInvoiceNo: deleteField(),
+			updatedAt: serverTimestamp(),
+		});
+	});
+	await batch.commit();
+}
@@ -1,4 +1,7 @@
 import type { AdminGenderOption, AdminPatientStatus } from './adminMockData';
+import type { NoShowOverride } from './noShowPolicy';
+import type { ReportSignature, ReportStatus } from './reportSignoff';
+import type { JointRecords } from './romMmt';
 
 export interface User {
 	userName: string;
@@ -21,6 +24,7 @@ export interface Patient {
 	registeredAt: string;
 	patientType?: string;
 	sessionAllowance?: SessionAllowance | null;
+	noShowCount?: number;
 	assignedFrontdeskId?: string;
 	assignedFrontdeskName?: string;
 	assignedFrontdeskEmail?: string;
@@ -45,10 +49,12 @@ export interface PatientRecord {
 	// Session tracking fields
 	totalSessionsRequired?: number;
 	remainingSessions?: number;
+	activePackageId?: string; // Set while the patient has a package; it then owns remainingSessions
 	status?: AdminPatientStatus;
 	assignedDoctor?: string;
 	patientType?: string;
 	sessionAllowance?: SessionAllowance | null;
+	noShowCount?: number;
 	assignedFrontdeskId?: string;
 	assignedFrontdeskName?: string;
 	assignedFrontdeskEmail?: string;
@@ -74,6 +80,7 @@ export interface PatientRecordBasic {
 	remainingSessions?: number;
 	patientType?: string;
 	sessionAllowance?: SessionAllowance | null;
+	noShowCount?: number;
 	assignedFrontdeskId?: string;
 	assignedFrontdeskName?: string;
 	assignedFrontdeskEmail?: string;
@@ -105,9 +112,11 @@ export interface PatientRecordFull {
 	assignedDoctor?: string;
 	patientType?: string;
 	sessionAllowance?: SessionAllowance | null;
+	noShowCount?: number;
 	assignedFrontdeskId?: string;
 	assignedFrontdeskName?: string;
 	assignedFrontdeskEmail?: string;
+	currentEpisodeId?: string | null; // The report fields below are the working copy of this episode (see lib/episodes.ts)
 	// Report fields
 	complaints?: string;
 	presentHistory?: string;
@@ -134,7 +143,7 @@ export interface PatientRecordFull {
 	vasScale?: string;
 	aggravatingFactor?: string;
 	relievingFactor?: string;
-	rom?: Record<string, any>;
+	rom?: JointRecords; // Degrees by joint, motion and side (see lib/romMmt.ts)
 	treatmentProvided?: string;
 	progressNotes?: string;
 	physioName?: string;
@@ -191,8 +200,8 @@ export interface PatientRecordFull {
 	scar?: string;
 	crepitus?: string;
 	odema?: string;
-	// Manual Muscle Testing
-	mmt?: Record<string, any>;
+	// Manual Muscle Testing, Oxford grades 0-5 keyed like rom
+	mmt?: JointRecords;
 	// Special assessments & diagnoses
 	specialTest?: string;
 	differentialDiagnosis?: string;
@@ -273,6 +282,11 @@ export interface PatientRecordFull {
 	longTermGoalOthers?: boolean;
 	longTermGoalOthersText?: string;
 	homeAdvice?: string;
+	reportUpdatedBy?: string; // Who last saved the report
+	reportUpdatedById?: string;
+	reportStatus?: ReportStatus; // Absent on reports saved before sign-off existed (see lib/reportSignoff.ts)
+	reportDraftSince?: string; // First save of the unsigned draft
+	reportSignature?: ReportSignature | null; // The latest signature
 }
 
 export interface Appointment {
@@ -281,10 +295,22 @@ export interface Appointment {
 	doctor: string;
 	date: string;
 	time: string;
-	status: 'pending' | 'ongoing' | 'completed' | 'cancelled';
+	status: 'pending' | 'ongoing' | 'completed' | 'cancelled' | 'no-show';
 	notes?: string;
 	createdAt: string;
 	isConsultation?: boolean; // True for the first appointment, only created from front desk
+	serviceType?: string; // Service catalogue id (see lib/serviceCatalog.ts)
+	duration?: number; // Duration in minutes
+	resourceIds?: string[]; // Rooms and equipment reserved for this appointment (see lib/resources.ts)
+	isRecurring?: boolean;
+	recurringSeriesId?: string; // Shared by every occurrence of a recurring series
+	groupSessionId?: string; // Set when this is a patient's place in a group class (see lib/groupSessions.ts)
+	groupSessionTitle?: string;
+	confirmationStatus?: 'unconfirmed' | 'confirmed' | 'cancelled' | 'reschedule-requested'; // Patient reply to the reminder link
+	confirmationRespondedAt?: string;
+	noShowAt?: string; // Set while the appointment is marked as a no-show
+	noShowRecordedBy?: string | null;
+	noShowOverride?: NoShowOverride | null; // Front desk override recorded when booking past the no-show limit
 }
 
 export interface BillingRecord {
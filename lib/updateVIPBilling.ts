@@ -39,7 +39,8 @@ export async function updateVIPBillingAmounts(): Promise<{
 		
 		const vipBillingRecords = billingSnapshot.docs.filter(doc => {
 			const data = doc.data();
-			return vipPatientIds.includes(data.patientId as string) && data.amount && data.amount > 0;
+			// Bills in closed billing cycles keep their amounts
+			return vipPatientIds.includes(data.patientId as string) && data.amount && data.amount > 0 && !data.lockedCycleId;
 		});
 
 		console.log(`Found ${vipBillingRecords.length} VIP billing records with amounts > 0`);
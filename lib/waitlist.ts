@@ -0,0 +1,309 @@
+/**
+ * Waitlist shared by the front desk screen, the backfill offers sent on cancellation
+ * and the public confirmation endpoint.
+ *
+ * A patient is waitlisted for a date window and optionally a therapist and time window.
+ * When a slot frees up, every matching entry is offered the slot; the first patient to
+ * confirm gets it booked and the remaining offers for that slot are superseded.
+ */
+
+import { checkAppointmentConflict } from './appointmentUtils';
+import { DEFAULT_APPOINTMENT_DURATION, resolveAppointmentDuration } from './serviceCatalog';
+import { isValidPhoneNumber, sendSMSNotification } from './sms';
+import { sendWhatsAppNotification } from './whatsapp';
+
+export const WAITLIST_COLLECTION = 'waitlist';
+export const WAITLIST_OFFERS_COLLECTION = 'waitlistOffers';
+
+// How long a backfill offer link stays valid
+export const WAITLIST_OFFER_TTL_HOURS = 12;
+// Upper bound on patients offered the same slot, earliest registrations first
+export const WAITLIST_MAX_OFFERS_PER_SLOT = 5;
+
+export type WaitlistStatus = 'waiting' | 'booked' | 'removed';
+export type WaitlistOfferStatus = 'open' | 'accepted' | 'superseded';
+
+export interface WaitlistEntry {
+	id: string;
+	patientId: string;
+	patientName: string;
+	patientPhone?: string;
+	patientEmail?: string;
+	doctor?: string; // Empty means any clinician
+	dateFrom: string; // YYYY-MM-DD
+	dateTo: string; // YYYY-MM-DD
+	timeFrom?: string; // HH:MM
+	timeTo?: string; // HH:MM
+	duration?: number;
+	serviceType?: string;
+	notes?: string;
+	status: WaitlistStatus;
+	createdBy?: string;
+	createdAt?: string;
+	lastOfferedAt?: string;
+	appointmentId?: string;
+}
+
+export interface WaitlistOffer {
+	id: string; // The offer token
+	entryId: string;
+	slotKey: string;
+	patientId: string;
+	patientName: string;
+	patientPhone?: string;
+	doctor: string;
+	date: string;
+	time: string;
+	duration: number;
+	serviceType?: string;
+	status: WaitlistOfferStatus;
+	expiresAt: string; // ISO timestamp
+	createdAt?: string;
+	appointmentId?: string;
+}
+
+export interface FreedSlot {
+	doctor: string;
+	date: string;
+	time: string;
+	duration?: number | null;
+	serviceType?: string | null;
+	// Patient who gave up the slot; never offered their own slot back
+	patientId?: string;
+}
+
+export function mapWaitlistEntry(id: string, data: Record<string, unknown>): WaitlistEntry {
+	return {
+		id,
+		patientId: data.patientId ? String(data.patientId) : '',
+		patientName: data.patientName ? String(data.patientName) : '',
+		patientPhone: data.patientPhone ? String(data.patientPhone) : undefined,
+		patientEmail: data.patientEmail ? String(data.patientEmail) : undefined,
+		doctor: data.doctor ? String(data.doctor) : undefined,
+		dateFrom: data.dateFrom ? String(data.dateFrom) : '',
+		dateTo: data.dateTo ? String(data.dateTo) : '',
+		timeFrom: data.timeFrom ? String(data.timeFrom) : undefined,
+		timeTo: data.timeTo ? String(data.timeTo) : undefined,
+		duration: typeof data.duration === 'number' ? data.duration : undefined,
+		serviceType: data.serviceType ? String(data.serviceType) : undefined,
+		notes: data.notes ? String(data.notes) : undefined,
+		status: (data.status as WaitlistEntry['status']) || 'waiting',
+		createdBy: data.createdBy ? String(data.createdBy) : undefined,
+		createdAt: data.createdAt ? String(data.createdAt) : undefined,
+		lastOfferedAt: data.lastOfferedAt ? String(data.lastOfferedAt) : undefined,
+		appointmentId: data.appointmentId ? String(data.appointmentId) : undefined,
+	};
+}
+
+export function mapWaitlistOffer(id: string, data: Record<string, unknown>): WaitlistOffer {
+	return {
+		id,
+		entryId: data.entryId ? String(data.entryId) : '',
+		slotKey: data.slotKey ? String(data.slotKey) : '',
+		patientId: data.patientId ? String(data.patientId) : '',
+		patientName: data.patientName ? String(data.patientName) : '',
+		patientPhone: data.patientPhone ? String(data.patientPhone) : undefined,
+		doctor: data.doctor ? String(data.doctor) : '',
+		date: data.date ? String(data.date) : '',
+		time: data.time ? String(data.time) : '',
+		duration: typeof data.duration === 'number' ? data.duration : 0,
+		serviceType: data.serviceType ? String(data.serviceType) : undefined,
+		status: (data.status as WaitlistOffer['status']) || 'open',
+		expiresAt: data.expiresAt ? String(data.expiresAt) : '',
+		createdAt: data.createdAt ? String(data.createdAt) : undefined,
+		appointmentId: data.appointmentId ? String(data.appointmentId) : undefined,
+	};
+}
+
+function timeToMinutes(time: string): number {
+	const [hours, minutes] = time.split(':').map(Number);
+	return (hours || 0) * 60 + (minutes || 0);
+}
+
+/**
+ * A therapist's appointment on the freed slot's day, as checked against the slot before offering it
+ */
+export function mapDayAppointment(id: string, data: Record<string, unknown>) {
+	return {
+		id,
+		patient: data.patient ? String(data.patient) : '',
+		doctor: data.doctor ? String(data.doctor) : '',
+		date: data.date ? String(data.date) : '',
+		time: data.time ? String(data.time) : '',
+		status: data.status ? String(data.status) : undefined,
+		duration: typeof data.duration === 'number' ? data.duration : null,
+		serviceType: data.serviceType ? String(data.serviceType) : null,
+	};
+}
+
+/**
+ * Offers for the same slot share this key so a confirmation can supersede the others
+ */
+export function getSlotKey(slot: { doctor: string; date: string; time: string }): string {
+	return `${slot.doctor}|${slot.date}|${slot.time}`;
+}
+
+/**
+ * Check whether a freed slot satisfies a waitlist entry's therapist, date window, time window and duration
+ */
+export function matchesWaitlistEntry(entry: WaitlistEntry, slot: FreedSlot): boolean {
+	if (entry.status !== 'waiting') return false;
+	if (slot.patientId && entry.patientId === slot.patientId) return false;
+	if (entry.doctor && entry.doctor !== slot.doctor) return false;
+	if (slot.date < entry.dateFrom || slot.date > entry.dateTo) return false;
+
+	const slotStart = timeToMinutes(slot.time);
+	const slotDuration = slot.duration || DEFAULT_APPOINTMENT_DURATION;
+	const needed = entry.duration || DEFAULT_APPOINTMENT_DURATION;
+	if (needed > slotDuration) return false;
+
+	if (entry.timeFrom && slotStart < timeToMinutes(entry.timeFrom)) return false;
+	if (entry.timeTo && slotStart + needed > timeToMinutes(entry.timeTo)) return false;
+
+	return true;
+}
+
+export function isOfferExpired(offer: Pick<WaitlistOffer, 'expiresAt'>, now: Date = new Date()): boolean {
+	const expiresAt = new Date(offer.expiresAt);
+	return Number.isNaN(expiresAt.getTime()) || expiresAt < now;
+}
+
+/**
+ * Entries to offer a freed slot to: matching entries not already holding a live offer for it,
+ * earliest registrations first
+ */
+export function selectWaitlistMatches(
+	entries: WaitlistEntry[],
+	offers: WaitlistOffer[],
+	slot: FreedSlot,
+	now: Date = new Date()
+): WaitlistEntry[] {
+	const alreadyOffered = new Set(
+		offers.filter(offer => offer.status === 'open' && !isOfferExpired(offer, now)).map(offer => offer.entryId)
+	);
+	return entries
+		.filter(entry => !alreadyOffered.has(entry.id) && matchesWaitlistEntry(entry, slot))
+		.sort((a, b) => (a.createdAt || '').localeCompare(b.createdAt || ''))
+		.slice(0, WAITLIST_MAX_OFFERS_PER_SLOT);
+}
+
+/**
+ * The offer document for one entry; `slot.duration` is the freed slot's resolved length
+ */
+export function buildWaitlistOffer(entry: WaitlistEntry, slot: FreedSlot, now: Date = new Date()) {
+	return {
+		entryId: entry.id,
+		slotKey: getSlotKey(slot),
+		patientId: entry.patientId,
+		patientName: entry.patientName,
+		patientPhone: entry.patientPhone || null,
+		doctor: slot.doctor,
+		date: slot.date,
+		time: slot.time,
+		// The patient books the length they asked for, not the length of the cancelled session
+		duration: entry.duration || slot.duration || DEFAULT_APPOINTMENT_DURATION,
+		serviceType: entry.serviceType || slot.serviceType || null,
+		status: 'open' as WaitlistOfferStatus,
+		expiresAt: new Date(now.getTime() + WAITLIST_OFFER_TTL_HOURS * 60 * 60 * 1000).toISOString(),
+		createdAt: now.toISOString(),
+	};
+}
+
+// Offer tokens double as document ids and are the only credential on the public confirmation page
+export function generateWaitlistOfferToken(): string {
+	const bytes = new Uint8Array(32);
+	crypto.getRandomValues(bytes);
+	return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export function getWaitlistConfirmUrl(baseUrl: string, token: string): string {
+	return `${baseUrl}/waitlist/confirm?token=${token}`;
+}
+
+/**
+ * Template data for the 'waitlist-offer' SMS and WhatsApp messages
+ */
+export function getWaitlistOfferMessageData(entry: WaitlistEntry, slot: FreedSlot, confirmUrl: string) {
+	return {
+		patientName: entry.patientName,
+		patientPhone: entry.patientPhone,
+		patientId: entry.patientId,
+		doctor: slot.doctor,
+		date: slot.date,
+		time: slot.time,
+		confirmUrl,
+		expiresInHours: WAITLIST_OFFER_TTL_HOURS,
+	};
+}
+
+/**
+ * Only a slot with a therapist, date and time that has not started yet is worth offering
+ */
+export function isOfferableSlot(slot: FreedSlot, now: Date = new Date()): boolean {
+	if (!slot.doctor || !slot.date || !slot.time) return false;
+	return new Date(`${slot.date}T${slot.time}:00`) > now;
+}
+
+export interface WaitlistOfferPlan {
+	entry: WaitlistEntry;
+	token: string;
+	offer: ReturnType<typeof buildWaitlistOffer>;
+}
+
+/**
+ * The offers to make for a freed slot, from the waiting entries, the offers already made for the slot
+ * and the therapist's appointments that day. None when the slot is not offerable or has been booked
+ * again since it was freed, e.g. by the desk or by a rescheduled series moving into it.
+ */
+export function planWaitlistOffers(
+	slot: FreedSlot,
+	entries: WaitlistEntry[],
+	offers: WaitlistOffer[],
+	dayAppointments: ReturnType<typeof mapDayAppointment>[],
+	now: Date = new Date()
+): WaitlistOfferPlan[] {
+	if (!isOfferableSlot(slot, now)) return [];
+
+	const duration = resolveAppointmentDuration(slot);
+	if (checkAppointmentConflict(dayAppointments, { doctor: slot.doctor, date: slot.date, time: slot.time, duration }).hasConflict) {
+		return [];
+	}
+
+	const freedSlot: FreedSlot = { ...slot, duration };
+
+	return selectWaitlistMatches(entries, offers, freedSlot, now).map(entry => ({
+		entry,
+		token: generateWaitlistOfferToken(),
+		offer: buildWaitlistOffer(entry, freedSlot, now),
+	}));
+}
+
+/**
+ * Send each saved offer to its patient by SMS and WhatsApp. `confirmBaseUrl` is the site origin for the
+ * confirmation links; server routes also pass it as `baseUrl` to reach the messaging API routes.
+ * A failed message is logged and does not stop the rest.
+ */
+export async function sendWaitlistOfferMessages(
+	plans: WaitlistOfferPlan[],
+	slot: FreedSlot,
+	confirmBaseUrl: string,
+	options: { baseUrl?: string } = {}
+): Promise<void> {
+	for (const { entry, token } of plans) {
+		if (!entry.patientPhone || !isValidPhoneNumber(entry.patientPhone)) continue;
+
+		const data = getWaitlistOfferMessageData(entry, slot, getWaitlistConfirmUrl(confirmBaseUrl, token));
+
+		try {
+			await sendSMSNotification({ to: entry.patientPhone, template: 'waitlist-offer', data }, options);
+		} catch (smsError) {
+			console.error('Failed to send waitlist offer SMS:', smsError);
+		}
+
+		try {
+			await sendWhatsAppNotification({ to: entry.patientPhone, template: 'waitlist-offer', data }, options);
+		} catch (whatsappError) {
+			console.error('Failed to send waitlist offer WhatsApp:', whatsappError);
+		}
+	}
+}
@@ -0,0 +1,65 @@
+import { collection, doc, getDocs, query, where, writeBatch } from 'firebase/firestore';
+
+import { db } from './firebase';
+import {
+	WAITLIST_COLLECTION,
+	WAITLIST_OFFERS_COLLECTION,
+	getSlotKey,
+	isOfferableSlot,
+	mapDayAppointment,
+	mapWaitlistEntry,
+	mapWaitlistOffer,
+	planWaitlistOffers,
+	sendWaitlistOfferMessages,
+	type FreedSlot,
+} from './waitlist';
+
+/**
+ * Offer a freed slot to matching waitlisted patients by SMS and WhatsApp.
+ * Earliest registrations are offered first; the first patient to confirm gets the slot.
+ * Returns the number of patients the slot was offered to.
+ */
+export async function offerSlotToWaitlist(slot: FreedSlot): Promise<number> {
+	if (!isOfferableSlot(slot)) return 0;
+
+	const [entriesSnapshot, offersSnapshot, dayAppointmentsSnapshot] = await Promise.all([
+		getDocs(query(collection(db, WAITLIST_COLLECTION), where('status', '==', 'waiting'))),
+		getDocs(query(collection(db, WAITLIST_OFFERS_COLLECTION), where('slotKey', '==', getSlotKey(slot)))),
+		getDocs(query(collection(db, 'appointments'), where('doctor', '==', slot.doctor), where('date', '==', slot.date))),
+	]);
+
+	const plans = planWaitlistOffers(
+		slot,
+		entriesSnapshot.docs.map(docSnap => mapWaitlistEntry(docSnap.id, docSnap.data())),
+		offersSnapshot.docs.map(docSnap => mapWaitlistOffer(docSnap.id, docSnap.data())),
+		dayAppointmentsSnapshot.docs.map(docSnap => mapDayAppointment(docSnap.id, docSnap.data()))
+	);
+	if (plans.length === 0) return 0;
+
+	const batch = writeBatch(db);
+	plans.forEach(({ entry, token, offer }) => {
+		batch.set(doc(db, WAITLIST_OFFERS_COLLECTION, token), offer);
+		batch.update(doc(db, WAITLIST_COLLECTION, entry.id), { lastOfferedAt: offer.createdAt });
+	});
+	await batch.commit();
+
+	await sendWaitlistOfferMessages(plans, slot, process.env.NEXT_PUBLIC_APP_URL || window.location.origin);
+
+	return plans.length;
+}
+
+/**
+ * Offer several freed slots in turn. Failures are logged per slot so one bad slot
+ * does not stop the rest or the cancellation that released them.
+ */
+export async function offerSlotsToWaitlist(slots: FreedSlot[]): Promise<number> {
+	let offered = 0;
+	for (const slot of slots) {
+		try {
+			offered += await offerSlotToWaitlist(slot);
+		} catch (error) {
+			console.error('Failed to offer slot to waitlist:', error);
+		}
+	}
+	return offered;
+}
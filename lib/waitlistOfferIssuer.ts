@@ -0,0 +1,48 @@
+import { dbAdmin } from './firebaseAdmin';
+import {
+	WAITLIST_COLLECTION,
+	WAITLIST_OFFERS_COLLECTION,
+	getSlotKey,
+	isOfferableSlot,
+	mapDayAppointment,
+	mapWaitlistEntry,
+	mapWaitlistOffer,
+	planWaitlistOffers,
+	sendWaitlistOfferMessages,
+	type FreedSlot,
+} from './waitlist';
+
+/**
+ * Offer a freed slot to matching waitlisted patients from a server route, for cancellations made
+ * without a staff session (e.g. a patient using their reminder link). The server counterpart of
+ * offerSlotToWaitlist in lib/waitlistClient.ts. `appUrl` is the site origin, used for the confirmation
+ * links and to reach the messaging API routes. Returns the number of patients the slot was offered to.
+ */
+export async function issueWaitlistOffers(slot: FreedSlot, appUrl: string): Promise<number> {
+	if (!isOfferableSlot(slot)) return 0;
+
+	const [entriesSnapshot, offersSnapshot, dayAppointmentsSnapshot] = await Promise.all([
+		dbAdmin.collection(WAITLIST_COLLECTION).where('status', '==', 'waiting').get(),
+		dbAdmin.collection(WAITLIST_OFFERS_COLLECTION).where('slotKey', '==', getSlotKey(slot)).get(),
+		dbAdmin.collection('appointments').where('doctor', '==', slot.doctor).where('date', '==', slot.date).get(),
+	]);
+
+	const plans = planWaitlistOffers(
+		slot,
+		entriesSnapshot.docs.map(docSnap => mapWaitlistEntry(docSnap.id, docSnap.data())),
+		offersSnapshot.docs.map(docSnap => mapWaitlistOffer(docSnap.id, docSnap.data())),
+		dayAppointmentsSnapshot.docs.map(docSnap => mapDayAppointment(docSnap.id, docSnap.data()))
+	);
+	if (plans.length === 0) return 0;
+
+	const batch = dbAdmin.batch();
+	plans.forEach(({ entry, token, offer }) => {
+		batch.set(dbAdmin.collection(WAITLIST_OFFERS_COLLECTION).doc(token), offer);
+		batch.update(dbAdmin.collection(WAITLIST_COLLECTION).doc(entry.id), { lastOfferedAt: offer.createdAt });
+	});
+	await batch.commit();
+
+	await sendWaitlistOfferMessages(plans, slot, appUrl, { baseUrl: appUrl });
+
+	return plans.length;
+}
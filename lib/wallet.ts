@@ -0,0 +1,97 @@
+/**
+ * Patient wallet for advance deposits, e.g. a package paid for before any session is done.
+ *
+ * Each patient has one `wallets/{patientId}` document with the running balance, and every deposit or
+ * debit is kept in `walletTransactions`. Charges are debited from the wallet as they fall due: a
+ * session's bill once the session is completed, and a package bill as soon as it is raised. A debit is
+ * recorded against the bill as a payment in the 'Wallet' mode, so bill balances and the patient
+ * statement need nothing special for it.
+ */
+
+import type { PaymentMode } from './billPayments';
+
+export const WALLETS_COLLECTION = 'wallets';
+export const WALLET_TRANSACTIONS_COLLECTION = 'walletTransactions';
+export const WALLET_PAYMENT_MODE = 'Wallet';
+
+export type WalletTransactionType = 'deposit' | 'debit';
+
+export interface Wallet {
+	patientId: string;
+	patient: string;
+	balance: number;
+	lastTransactionId: string | null; // Entry that set the balance; the rules check the two agree
+	updatedAt: string | null;
+}
+
+export interface WalletTransaction {
+	id: string;
+	patientId: string;
+	patient: string;
+	type: WalletTransactionType;
+	amount: number;
+	balanceAfter: number;
+	mode: PaymentMode | null; // How a deposit was paid
+	reference: string | null;
+	billingDocId: string | null; // Bill a debit settled
+	billingId: string | null;
+	note: string | null;
+	createdAt: string;
+	createdBy: string | null;
+	createdByName: string | null;
+}
+
+function roundCurrency(value: number): number {
+	return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+export function getWalletBalance(wallet: { balance?: unknown } | null | undefined): number {
+	const balance = Number(wallet?.balance);
+	return Number.isFinite(balance) && balance > 0 ? roundCurrency(balance) : 0;
+}
+
+/**
+ * How far a new charge would take the patient past their prepaid balance, once what they already
+ * owe is set against it. Zero when the wallet covers everything.
+ */
+export function getWalletShortfall(balance: number, outstanding: number, newCharge: number): number {
+	return Math.max(0, roundCurrency(outstanding + newCharge - balance));
+}
+
+export function parseWallet(patientId: string, data: Record<string, unknown>): Wallet {
+	return {
+		patientId,
+		patient: String(data.patient || ''),
+		balance: getWalletBalance(data),
+		lastTransactionId: data.lastTransactionId ? String(data.lastTransactionId) : null,
+		updatedAt: data.updatedAt ? String(data.updatedAt) : null,
+	};
+}
+
+export function parseWalletTransaction(id: string, data: Record<string, unknown>): WalletTransaction {
+	return {
+		id,
+		patientId: String(data.patientId || ''),
+		patient: String(data.patient || ''),
+		type: data.type === 'debit' ? 'debit' : 'deposit',
+		amount: Number(data.amount || 0),
+		balanceAfter: Number(data.balanceAfter || 0),
+		mode: data.mode ? (String(data.mode) as PaymentMode) : null,
+		reference: data.reference ? String(data.reference) : null,
+		billingDocId: data.billingDocId ? String(data.billingDocId) : null,
+		billingId: data.billingId ? String(data.billingId) : null,
+		note: data.note ? String(data.note) : null,
+		createdAt: String(data.createdAt || ''),
+		createdBy: data.createdBy ? String(data.createdBy) : null,
+		createdByName: data.createdByName ? String(data.createdByName) : null,
+	};
+}
+
+/**
+ * Whether a bill should be paid from the wallet yet: package bills as soon as they are raised,
+ * session bills once the session has been completed
+ */
+export function isChargeDueFromWallet(bill: { billingId: string; status?: string }, sessionCompleted: boolean): boolean {
+	if (bill.status !== 'Pending') return false;
+	return bill.billingId.startsWith('PKG-') || sessionCompleted;
+}
@@ -0,0 +1,113 @@
+import { collection, doc, runTransaction } from 'firebase/firestore';
+
+import { db } from './firebase';
+import { applyBillPayments } from './billPaymentsClient';
+import { getBillBalance, type PaymentMode } from './billPayments';
+import { isBillVoided } from './creditNotes';
+import { getWalletBalance, WALLET_PAYMENT_MODE, WALLET_TRANSACTIONS_COLLECTION, WALLETS_COLLECTION } from './wallet';
+
+interface WalletActor {
+	createdBy?: string | null;
+	createdByName?: string | null;
+}
+
+export interface RecordWalletDepositInput extends WalletActor {
+	patientId: string;
+	patient: string;
+	amount: number;
+	mode: PaymentMode;
+	reference?: string;
+	note?: string;
+}
+
+/**
+ * Add an advance deposit to the patient's wallet. Resolves to the new balance.
+ */
+export async function recordWalletDeposit({
+	patientId,
+	patient,
+	amount,
+	mode,
+	reference,
+	note,
+	createdBy,
+	createdByName,
+}: RecordWalletDepositInput): Promise<number> {
+	if (!(amount > 0)) throw new Error('Deposit amount must be greater than zero');
+	const walletRef = doc(db, WALLETS_COLLECTION, patientId);
+
+	return runTransaction(db, async transaction => {
+		const snapshot = await transaction.get(walletRef);
+		const balance = Math.round((getWalletBalance(snapshot.data()) + amount) * 100) / 100;
+		const now = new Date().toISOString();
+		const entryRef = doc(collection(db, WALLET_TRANSACTIONS_COLLECTION));
+
+		transaction.set(walletRef, { patientId, patient, balance, lastTransactionId: entryRef.id, updatedAt: now });
+		transaction.set(entryRef, {
+			patientId,
+			patient,
+			type: 'deposit',
+			amount,
+			balanceAfter: balance,
+			mode,
+			reference: reference?.trim() || null,
+			billingDocId: null,
+			billingId: null,
+			note: note?.trim() || null,
+			createdAt: now,
+			createdBy: createdBy || null,
+			createdByName: createdByName || null,
+		});
+		return balance;
+	});
+}
+
+/**
+ * Pay as much of a bill as the patient's wallet covers. Resolves to the amount debited, which is
+ * zero when there is no wallet balance or nothing left to pay on the bill.
+ */
+export async function debitWalletForBill(billingDocId: string, actor: WalletActor = {}): Promise<number> {
+	const billRef = doc(db, 'billing', billingDocId);
+
+	return runTransaction(db, async transaction => {
+		const billSnapshot = await transaction.get(billRef);
+		if (!billSnapshot.exists()) return 0;
+		const bill = billSnapshot.data();
+		if (!bill.patientId || isBillVoided(bill)) return 0;
+
+		const walletRef = doc(db, WALLETS_COLLECTION, String(bill.patientId));
+		const walletSnapshot = await transaction.get(walletRef);
+		const walletBalance = getWalletBalance(walletSnapshot.data());
+		const amount = Math.min(walletBalance, getBillBalance(bill));
+		if (amount <= 0) return 0;
+
+		const now = new Date().toISOString();
+		const balance = Math.round((walletBalance - amount) * 100) / 100;
+		applyBillPayments(transaction, {
+			billingDocId,
+			bill,
+			lines: [{ mode: WALLET_PAYMENT_MODE, amount }],
+			paidOn: now.split('T')[0],
+			collectedBy: actor.createdBy,
+			collectedByName: actor.createdByName,
+		});
+		const entryRef = doc(collection(db, WALLET_TRANSACTIONS_COLLECTION));
+		transaction.update(walletRef, { balance, lastTransactionId: entryRef.id, updatedAt: now });
+		transaction.set(entryRef, {
+			patientId: String(bill.patientId),
+			patient: bill.patient || '',
+			type: 'debit',
+			amount,
+			balanceAfter: balance,
+			mode: null,
+			reference: null,
+			billingDocId,
+			billingId: bill.billingId || null,
+			note: null,
+			createdAt: now,
+			createdBy: actor.createdBy || null,
+			createdByName: actor.createdByName || null,
+		});
+		return amount;
+	});
+}
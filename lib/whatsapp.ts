@@ -3,7 +3,8 @@ export type WhatsAppTemplate =
 	| 'appointment-reminder'
 	| 'appointment-cancelled'
 	| 'appointment-updated'
-	| 'patient-registered';
+	| 'patient-registered'
+	| 'waitlist-offer';
 
 export interface WhatsAppData {
 	to: string;
@@ -19,6 +20,12 @@ export interface AppointmentWhatsAppData {
 	date: string;
 	time: string;
 	appointmentId?: string;
+	confirmUrl?: string; // Self-service confirm/cancel link, reminders only
+}
+
+export interface WaitlistOfferWhatsAppData extends AppointmentWhatsAppData {
+	confirmUrl: string;
+	expiresInHours: number;
 }
 
 export interface PatientRegistrationWhatsAppData {
@@ -60,6 +67,9 @@ export function generateWhatsAppMessage(template: WhatsAppTemplate, data: Record
 			message += `🕐 *Time:* ${appointmentData.time}\n`;
 			message += `👨‍⚕️ *Clinician:* ${appointmentData.doctor}\n`;
 			message += `\nPlease arrive 10 minutes early.`;
+			if (appointmentData.confirmUrl) {
+				message += `\n\n👉 Confirm, cancel or ask to reschedule:\n${appointmentData.confirmUrl}`;
+			}
 			if (clinicPhone) {
 				message += `\n\nNeed to reschedule? Call ${clinicPhone}`;
 			}
@@ -103,6 +113,20 @@ export function generateWhatsAppMessage(template: WhatsAppTemplate, data: Record
 			return message;
 		}
 
+		case 'waitlist-offer': {
+			const offerData = data as unknown as WaitlistOfferWhatsAppData;
+			let message = `⏩ *Earlier Slot Available*\n\n`;
+			message += `Hi ${offerData.patientName}, a slot you were waiting for has opened at ${clinicName}.\n\n`;
+			message += `📅 *Date:* ${offerData.date}\n`;
+			message += `🕐 *Time:* ${offerData.time}\n`;
+			message += `👨‍⚕️ *Clinician:* ${offerData.doctor}\n`;
+			message += `\nThe first patient to confirm gets the slot. Confirm within ${offerData.expiresInHours} hours:\n${offerData.confirmUrl}`;
+			if (clinicPhone) {
+				message += `\n\nQuestions? Call ${clinicPhone}`;
+			}
+			return message;
+		}
+
 		default:
 			return `Notification from ${clinicName}`;
 	}
@@ -153,11 +177,15 @@ export function isValidPhoneNumber(phone: string): boolean {
 }
 
 /**
- * Send WhatsApp notification via API route
+ * Send WhatsApp notification via API route.
+ * Server routes pass their own origin as baseUrl, since a relative URL only resolves in the browser.
  */
-export async function sendWhatsAppNotification(whatsappData: WhatsAppData): Promise<{ success: boolean; error?: string }> {
+export async function sendWhatsAppNotification(
+	whatsappData: WhatsAppData,
+	options: { baseUrl?: string } = {}
+): Promise<{ success: boolean; error?: string }> {
 	try {
-		const response = await fetch('/api/whatsapp', {
+		const response = await fetch(`${options.baseUrl ?? ''}/api/whatsapp`, {
 			method: 'POST',
 			headers: {
 				'Content-Type': 'application/json',